@@ -4,6 +4,7 @@ import { useAuth } from "../contexts/AuthContext";
 import { useRouter } from "next/router";
 import Link from "next/link";
 import { useCurrentSubdomain } from "../hooks/useCurrentSubdomain";
+import { StorePermission } from "../lib/permissions";
 
 interface AdminLayoutProps {
   children: React.ReactNode;
@@ -17,7 +18,7 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({
   const { user, loading } = useAuth();
   const router = useRouter();
   const [sidebarOpen, setSidebarOpen] = useState(true);
-  const { subdomain, isAdminSubdomain } = useCurrentSubdomain();
+  const { subdomain, isAdminSubdomain, adminId } = useCurrentSubdomain();
 
   useEffect(() => {
     if (!loading && (!user || user.role !== "ADMIN")) {
@@ -37,19 +38,28 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({
     return null;
   }
 
-  const menuItems = [
+  // Items are shown to members holding the permission the page's API requires
+  const store = user.stores?.find((s) => s.id === adminId) || user.stores?.[0];
+  const permissions = store?.permissions || [];
+
+  const allMenuItems: { name: string; href: string; icon: string; permission?: StorePermission }[] = [
     { name: "Dashboard", href: "/admin", icon: "📊" },
-    { name: "Products", href: "/admin/products", icon: "📦" },
-    { name: "Categories", href: "/admin/categories", icon: "📂" },
-    { name: "Orders", href: "/admin/orders", icon: "📋" },
-    { name: "Users", href: "/admin/users", icon: "👥" },
-    { name: "Analytics", href: "/admin/analytics", icon: "📈" },
-    { name: "SMS Campaign", href: "/admin/sms-campaign", icon: "📊" },
-    { name: "Whatsapp Campaign", href: "/admin/whatsapp", icon: "📊" },
-    { name: "Domain Management", href: "/admin/domains", icon: "🌐" },
-    { name: "Settings", href: "/admin/settings", icon: "⚙️" },
+    { name: "Products", href: "/admin/products", icon: "📦", permission: "MANAGE_PRODUCTS" },
+    { name: "Categories", href: "/admin/categories", icon: "📂", permission: "MANAGE_PRODUCTS" },
+    { name: "Orders", href: "/admin/orders", icon: "📋", permission: "FULFIL_ORDERS" },
+    { name: "Coupons", href: "/admin/coupons", icon: "🏷️", permission: "MANAGE_PRODUCTS" },
+    { name: "Users", href: "/admin/users", icon: "👥", permission: "VIEW_REPORTS" },
+    { name: "Analytics", href: "/admin/analytics", icon: "📈", permission: "VIEW_REPORTS" },
+    { name: "SMS Campaign", href: "/admin/sms-campaign", icon: "📊", permission: "SEND_CAMPAIGNS" },
+    { name: "Whatsapp Campaign", href: "/admin/whatsapp", icon: "📊", permission: "SEND_CAMPAIGNS" },
+    { name: "Customer Segments", href: "/admin/segments", icon: "🎯", permission: "SEND_CAMPAIGNS" },
+    { name: "Suppression List", href: "/admin/suppression-list", icon: "🚫", permission: "SEND_CAMPAIGNS" },
+    { name: "Domain Management", href: "/admin/domains", icon: "🌐", permission: "MANAGE_SETTINGS" },
+    { name: "Staff", href: "/admin/settings/staff", icon: "🧑‍💼", permission: "MANAGE_SETTINGS" },
+    { name: "Settings", href: "/admin/settings", icon: "⚙️", permission: "MANAGE_SETTINGS" },
     ...(user.subdomain ? [{ name: "Subdomain", href: "/admin/settings/subdomain", icon: "🌐" }] : []),
   ];
+  const menuItems = allMenuItems.filter((item) => !item.permission || permissions.includes(item.permission));
 
   return (
     <>
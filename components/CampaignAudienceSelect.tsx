@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Label } from './ui/label';
+
+interface CustomerSegment {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+interface SegmentPreview {
+  count: number;
+  sample: string[];
+}
+
+interface CampaignAudienceSelectProps {
+  segmentId: string | null; // null sends to the pasted numbers instead
+  onChange: (segmentId: string | null) => void;
+  children: React.ReactNode; // The pasted numbers field
+}
+
+/**
+ * Choose who a campaign goes to: numbers pasted by hand or one of the store's
+ * customer segments, which is looked up again when the campaign is sent
+ */
+const CampaignAudienceSelect: React.FC<CampaignAudienceSelectProps> = ({ segmentId, onChange, children }) => {
+  const [segments, setSegments] = useState<CustomerSegment[]>([]);
+  const [preview, setPreview] = useState<SegmentPreview | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+
+  const makeApiRequest = async (url: string, options: RequestInit = {}) => {
+    return fetch(url, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+        ...options.headers,
+      },
+    });
+  };
+
+  useEffect(() => {
+    const fetchSegments = async () => {
+      try {
+        const response = await makeApiRequest('/api/admin/segments');
+        if (response.ok) {
+          const data = await response.json();
+          setSegments(data.segments || []);
+        }
+      } catch (error) {
+        console.error('Error fetching customer segments:', error);
+      }
+    };
+    fetchSegments();
+  }, []);
+
+  useEffect(() => {
+    setPreview(null);
+    if (!segmentId) {
+      return;
+    }
+
+    const fetchPreview = async () => {
+      try {
+        setLoadingPreview(true);
+        const response = await makeApiRequest(`/api/admin/segments/${segmentId}`);
+        if (response.ok) {
+          const data = await response.json();
+          setPreview(data.preview);
+        }
+      } catch (error) {
+        console.error('Error previewing customer segment:', error);
+      } finally {
+        setLoadingPreview(false);
+      }
+    };
+    fetchPreview();
+  }, [segmentId]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-6 text-sm">
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={segmentId === null} onChange={() => onChange(null)} />
+          Phone numbers
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={segmentId !== null}
+            disabled={segments.length === 0}
+            onChange={() => onChange(segments[0]?.id || null)}
+          />
+          Customer segment
+        </label>
+        {segments.length === 0 && (
+          <Link href="/admin/segments" className="text-blue-600 hover:underline">Create a segment</Link>
+        )}
+      </div>
+
+      {segmentId === null ? children : (
+        <div>
+          <Label htmlFor="audienceSegment">Segment *</Label>
+          <select
+            id="audienceSegment"
+            value={segmentId}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-full border rounded-md px-3 py-2 text-sm mt-1"
+          >
+            {segments.map(segment => (
+              <option key={segment.id} value={segment.id}>{segment.name}</option>
+            ))}
+          </select>
+          <p className="text-sm text-gray-500 mt-1">
+            {loadingPreview
+              ? 'Counting customers...'
+              : preview && `${preview.count} customers match now. The list is worked out again when the campaign is sent.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CampaignAudienceSelect;
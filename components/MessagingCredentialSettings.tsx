@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+
+type Provider = 'SMS_BANGLADESH' | 'WHATSAPP_CLOUD';
+
+interface CredentialSummary {
+  provider: Provider;
+  configured: boolean;
+  settings: Record<string, string> | null;
+  unreadable: boolean;
+  lastTestedAt: string | null;
+  lastTestSucceeded: boolean | null;
+  lastTestError: string | null;
+  updatedAt: string | null;
+}
+
+interface ProviderField {
+  name: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+}
+
+const PROVIDERS: Record<Provider, { name: string; description: string; fields: ProviderField[] }> = {
+  SMS_BANGLADESH: {
+    name: 'SMS Bangladesh',
+    description: 'Sends your SMS campaigns and SMS order updates.',
+    fields: [
+      { name: 'user', label: 'Username' },
+      { name: 'password', label: 'Password', secret: true },
+      { name: 'from', label: 'Sender ID', placeholder: 'ECOMMERCE' }
+    ]
+  },
+  WHATSAPP_CLOUD: {
+    name: 'WhatsApp Cloud API',
+    description: 'Sends your WhatsApp campaigns, inbox replies and WhatsApp order updates. Customer messages to this number appear in your inbox.',
+    fields: [
+      { name: 'accessToken', label: 'Access Token', secret: true },
+      { name: 'phoneNumberId', label: 'Phone Number ID' },
+      { name: 'businessAccountId', label: 'Business Account ID' },
+      { name: 'apiVersion', label: 'API Version', placeholder: 'v23.0' }
+    ]
+  }
+};
+
+type Message = { type: 'success' | 'error'; text: string };
+
+interface MessagingCredentialSettingsProps {
+  adminId: string | null | undefined;
+}
+
+const MessagingCredentialSettings: React.FC<MessagingCredentialSettingsProps> = ({ adminId }) => {
+  const [summaries, setSummaries] = useState<CredentialSummary[]>([]);
+  const [forms, setForms] = useState<Record<string, Record<string, string>>>({});
+  const [testNumber, setTestNumber] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<Provider | null>(null);
+  const [messages, setMessages] = useState<Partial<Record<Provider, Message>>>({});
+
+  useEffect(() => {
+    if (adminId) {
+      fetchCredentials();
+    }
+  }, [adminId]);
+
+  // Secrets are never sent back, so their fields always start empty
+  const toForm = (summary: CredentialSummary) => ({ ...(summary.settings || {}) });
+
+  const updateSummary = (summary: CredentialSummary) => {
+    setSummaries(current => current.map(s => s.provider === summary.provider ? summary : s));
+    setForms(current => ({ ...current, [summary.provider]: toForm(summary) }));
+  };
+
+  const fetchCredentials = async () => {
+    try {
+      const response = await axios.get(`/api/admin/messaging-credentials?adminId=${adminId}`);
+      setSummaries(response.data);
+      setForms(Object.fromEntries(response.data.map((summary: CredentialSummary) => [summary.provider, toForm(summary)])));
+    } catch (error) {
+      console.error('Failed to fetch messaging credentials:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setField = (provider: Provider, field: string, value: string) => {
+    setForms(current => ({ ...current, [provider]: { ...current[provider], [field]: value } }));
+  };
+
+  const setMessage = (provider: Provider, message: Message | undefined) => {
+    setMessages(current => ({ ...current, [provider]: message }));
+  };
+
+  const handleSave = async (provider: Provider) => {
+    setBusy(provider);
+    setMessage(provider, undefined);
+    try {
+      const response = await axios.put(`/api/admin/messaging-credentials?adminId=${adminId}`, {
+        provider,
+        credentials: forms[provider] || {}
+      });
+      updateSummary(response.data);
+      setMessage(provider, { type: 'success', text: 'Credentials saved. Test the connection to make sure they work.' });
+    } catch (error: any) {
+      setMessage(provider, { type: 'error', text: error.response?.data?.error || 'Failed to save credentials' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleTest = async (provider: Provider) => {
+    if (provider === 'SMS_BANGLADESH' && !testNumber.trim()) {
+      setMessage(provider, { type: 'error', text: 'Enter a phone number to send the test SMS to' });
+      return;
+    }
+
+    setBusy(provider);
+    setMessage(provider, undefined);
+    try {
+      const response = await axios.post(`/api/admin/messaging-credentials/test?adminId=${adminId}`, {
+        provider,
+        testNumber: provider === 'SMS_BANGLADESH' ? testNumber.trim() : undefined
+      });
+      setSummaries(current => current.map(s => s.provider === provider ? response.data.summary : s));
+      setMessage(provider, {
+        type: response.data.success ? 'success' : 'error',
+        text: response.data.message
+      });
+    } catch (error: any) {
+      setMessage(provider, { type: 'error', text: error.response?.data?.error || 'Connection test failed' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRemove = async (provider: Provider) => {
+    if (!confirm(`Remove the ${PROVIDERS[provider].name} credentials? Messages on this channel will stop sending.`)) {
+      return;
+    }
+
+    setBusy(provider);
+    setMessage(provider, undefined);
+    try {
+      await axios.delete(`/api/admin/messaging-credentials?adminId=${adminId}&provider=${provider}`);
+      await fetchCredentials();
+      setMessage(provider, { type: 'success', text: 'Credentials removed' });
+    } catch (error: any) {
+      setMessage(provider, { type: 'error', text: error.response?.data?.error || 'Failed to remove credentials' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Connect your own SMS and WhatsApp accounts. Passwords and tokens are encrypted when saved and are never shown again;
+        leave a secret blank to keep the one already saved.
+      </p>
+
+      {summaries.map(summary => {
+        const provider = PROVIDERS[summary.provider];
+        const form = forms[summary.provider] || {};
+        const message = messages[summary.provider];
+
+        return (
+          <div key={summary.provider} className="border border-gray-200 rounded-lg p-4 space-y-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="font-medium text-gray-900">{provider.name}</h3>
+                <p className="text-sm text-gray-500">{provider.description}</p>
+              </div>
+              {!summary.configured ? (
+                <Badge variant="outline">Not configured</Badge>
+              ) : summary.lastTestSucceeded === true ? (
+                <Badge>Connected</Badge>
+              ) : summary.lastTestSucceeded === false ? (
+                <Badge variant="destructive">Test failed</Badge>
+              ) : (
+                <Badge variant="secondary">Not tested</Badge>
+              )}
+            </div>
+
+            {summary.unreadable && (
+              <p className="text-sm text-red-600">
+                The saved credentials can no longer be read. Enter them again to keep sending.
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {provider.fields.map(field => (
+                <div key={field.name} className="space-y-1">
+                  <Label htmlFor={`${summary.provider}-${field.name}`}>{field.label}</Label>
+                  <Input
+                    id={`${summary.provider}-${field.name}`}
+                    type={field.secret ? 'password' : 'text'}
+                    autoComplete="off"
+                    value={form[field.name] || ''}
+                    placeholder={field.secret && summary.configured && !summary.unreadable ? 'Saved' : field.placeholder}
+                    onChange={(e) => setField(summary.provider, field.name, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {summary.lastTestedAt && (
+              <p className="text-xs text-gray-500">
+                Last tested {new Date(summary.lastTestedAt).toLocaleString()}
+                {summary.lastTestError && `: ${summary.lastTestError}`}
+              </p>
+            )}
+
+            {message && (
+              <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+                {message.text}
+              </p>
+            )}
+
+            <div className="flex flex-wrap items-end justify-end gap-2">
+              {summary.configured && summary.provider === 'SMS_BANGLADESH' && (
+                <Input
+                  className="w-48"
+                  placeholder="Test number, e.g. 01712345678"
+                  value={testNumber}
+                  onChange={(e) => setTestNumber(e.target.value)}
+                />
+              )}
+              {summary.configured && (
+                <>
+                  <Button variant="outline" onClick={() => handleTest(summary.provider)} disabled={busy !== null}>
+                    {summary.provider === 'SMS_BANGLADESH' ? 'Send Test SMS' : 'Test Connection'}
+                  </Button>
+                  <Button variant="outline" onClick={() => handleRemove(summary.provider)} disabled={busy !== null}>
+                    Remove
+                  </Button>
+                </>
+              )}
+              <Button onClick={() => handleSave(summary.provider)} disabled={busy !== null}>
+                {busy === summary.provider ? 'Working...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MessagingCredentialSettings;
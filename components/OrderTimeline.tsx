@@ -0,0 +1,71 @@
+import React from 'react';
+import { format } from 'date-fns';
+
+export interface OrderStatusEvent {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  actorType: 'CUSTOMER' | 'ADMIN' | 'SYSTEM';
+  actorName?: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+interface OrderTimelineProps {
+  events: OrderStatusEvent[];
+  showActor?: boolean;
+}
+
+const statusLabels: Record<string, string> = {
+  PENDING: 'Order placed',
+  CONFIRMED: 'Confirmed',
+  SHIPPED: 'Shipped',
+  DELIVERED: 'Delivered',
+  CANCELLED: 'Cancelled'
+};
+
+const statusDotColors: Record<string, string> = {
+  PENDING: 'bg-yellow-500',
+  CONFIRMED: 'bg-blue-500',
+  SHIPPED: 'bg-purple-500',
+  DELIVERED: 'bg-green-500',
+  CANCELLED: 'bg-red-500'
+};
+
+const actorLabels: Record<OrderStatusEvent['actorType'], string> = {
+  CUSTOMER: 'Customer',
+  ADMIN: 'Store admin',
+  SYSTEM: 'System'
+};
+
+const OrderTimeline: React.FC<OrderTimelineProps> = ({ events, showActor = false }) => {
+  if (!events || events.length === 0) {
+    return <p className="text-sm text-gray-500">No status history yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {events.map((event) => (
+        <li key={event.id} className="mb-4 ml-4 last:mb-0">
+          <span
+            className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${
+              statusDotColors[event.toStatus] || 'bg-gray-400'
+            }`}
+          />
+          <p className="text-sm font-medium text-gray-900">
+            {statusLabels[event.toStatus] || event.toStatus}
+          </p>
+          <p className="text-xs text-gray-500">
+            {format(new Date(event.createdAt), 'MMM dd, yyyy HH:mm')}
+            {showActor && ` · ${event.actorName || actorLabels[event.actorType]}`}
+          </p>
+          {event.note && (
+            <p className="text-sm text-gray-600 mt-1">{event.note}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import axios from 'axios';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+
+interface PaymentMethod {
+  id: string;
+  displayName: string;
+  description: string;
+  isOnline: boolean;
+  configured: boolean;
+  enabled: boolean;
+  sortOrder: number;
+}
+
+interface PaymentMethodSettingsProps {
+  adminId: string | null | undefined;
+}
+
+const PaymentMethodSettings: React.FC<PaymentMethodSettingsProps> = ({ adminId }) => {
+  const [methods, setMethods] = useState<PaymentMethod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    if (adminId) {
+      fetchMethods();
+    }
+  }, [adminId]);
+
+  const fetchMethods = async () => {
+    try {
+      const response = await axios.get(`/api/admin/payment-methods?adminId=${adminId}`);
+      setMethods(response.data);
+    } catch (error) {
+      console.error('Failed to fetch payment methods:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleMethod = (id: string) => {
+    setMethods(methods.map(method =>
+      method.id === id ? { ...method, enabled: !method.enabled } : method
+    ));
+  };
+
+  const moveMethod = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= methods.length) return;
+
+    const reordered = [...methods];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setMethods(reordered);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await axios.put(`/api/admin/payment-methods?adminId=${adminId}`, {
+        methods: methods.map((method, index) => ({
+          id: method.id,
+          enabled: method.enabled,
+          sortOrder: index
+        }))
+      });
+      setMethods(response.data);
+      setMessage({ type: 'success', text: 'Payment methods saved' });
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.response?.data?.error || 'Failed to save payment methods' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Choose which payment methods customers can use at checkout and the order they are shown in.
+      </p>
+
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {methods.map((method, index) => (
+          <div key={method.id} className="flex items-center justify-between p-4">
+            <label className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={method.enabled}
+                disabled={!method.configured}
+                onChange={() => toggleMethod(method.id)}
+              />
+              <div>
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-gray-900">{method.displayName}</span>
+                  {!method.configured && <Badge variant="outline">Not configured</Badge>}
+                </div>
+                <p className="text-sm text-gray-500">{method.description}</p>
+              </div>
+            </label>
+            <div className="flex space-x-1">
+              <Button variant="ghost" size="sm" onClick={() => moveMethod(index, -1)} disabled={index === 0}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => moveMethod(index, 1)} disabled={index === methods.length - 1}>
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Payment Methods'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentMethodSettings;
@@ -0,0 +1,313 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { RefreshCw } from 'lucide-react';
+
+interface RefundableItem {
+  orderItemId: string;
+  productName: string;
+  variantLabel: string | null;
+  quantity: number;
+  refundedQuantity: number;
+  refundableQuantity: number;
+  unitRefundAmount: number;
+}
+
+interface Refund {
+  id: string;
+  amount: number;
+  reason: string | null;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  restock: boolean;
+  errorMessage: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface RefundDialogProps {
+  orderId: string | null;
+  adminId: string | null;
+  onClose: () => void;
+  onRefunded: () => void;
+}
+
+const refundStatusColors: Record<Refund['status'], string> = {
+  PENDING: 'bg-gray-100 text-gray-800',
+  PROCESSING: 'bg-yellow-100 text-yellow-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800'
+};
+
+const RefundDialog: React.FC<RefundDialogProps> = ({ orderId, adminId, onClose, onRefunded }) => {
+  const [items, setItems] = useState<RefundableItem[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [refundableAmount, setRefundableAmount] = useState(0);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [customAmount, setCustomAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [canRestock, setCanRestock] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (orderId) {
+      setQuantities({});
+      setCustomAmount('');
+      setReason('');
+      setRestock(true);
+      setError(null);
+      fetchRefunds();
+    }
+  }, [orderId]);
+
+  const fetchRefunds = async () => {
+    if (!orderId) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/refunds?adminId=${adminId}`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setItems(data.items);
+        setRefunds(data.refunds);
+        setRefundableAmount(data.refundableAmount);
+        setCanRestock(data.canRestock);
+      } else {
+        setError(data.error || 'Failed to load refunds');
+      }
+    } catch (error) {
+      console.error('Error fetching refunds:', error);
+      setError('Network error while loading refunds');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const itemsAmount = items.reduce(
+    (sum, item) => sum + item.unitRefundAmount * (quantities[item.orderItemId] || 0),
+    0
+  );
+  const refundAmount = customAmount ? parseFloat(customAmount) || 0 : Math.min(itemsAmount, refundableAmount);
+
+  const handleRefreshStatus = async (refundId: string) => {
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/refunds/${refundId}?adminId=${adminId}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` }
+      });
+
+      if (response.ok) {
+        await fetchRefunds();
+        onRefunded();
+      }
+    } catch (error) {
+      console.error('Error refreshing refund status:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!confirm(`Refund ৳${refundAmount.toFixed(2)} to the customer?`)) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/refunds?adminId=${adminId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({
+          items: Object.entries(quantities)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+          amount: customAmount || undefined,
+          reason: reason || undefined,
+          restock: canRestock && restock
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        if (data.status === 'FAILED') {
+          setError(data.errorMessage || 'The payment gateway rejected the refund');
+        }
+        setQuantities({});
+        setCustomAmount('');
+        setReason('');
+        await fetchRefunds();
+        onRefunded();
+      } else {
+        setError(data.error || 'Failed to create refund');
+      }
+    } catch (error) {
+      console.error('Error creating refund:', error);
+      setError('Network error while creating refund');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!orderId} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Refund order {orderId && `#${orderId.slice(-8)}`}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded">
+                {error}
+              </div>
+            )}
+
+            {refundableAmount > 0 ? (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label>Items to refund</Label>
+                  <div className="mt-2 space-y-2">
+                    {items.map(item => (
+                      <div key={item.orderItemId} className="flex items-center justify-between text-sm">
+                        <div>
+                          <p className="font-medium">{item.productName}</p>
+                          <p className="text-xs text-gray-500">
+                            {item.variantLabel && `${item.variantLabel} · `}
+                            ৳{item.unitRefundAmount.toFixed(2)} each · {item.refundedQuantity} of {item.quantity} refunded
+                          </p>
+                        </div>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={item.refundableQuantity}
+                          value={quantities[item.orderItemId] || ''}
+                          onChange={(e) => setQuantities({
+                            ...quantities,
+                            [item.orderItemId]: Math.min(item.refundableQuantity, Math.max(0, parseInt(e.target.value) || 0))
+                          })}
+                          disabled={item.refundableQuantity === 0}
+                          className="w-20"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="refundAmount">Amount (৳)</Label>
+                    <Input
+                      id="refundAmount"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      max={refundableAmount}
+                      value={customAmount}
+                      onChange={(e) => setCustomAmount(e.target.value)}
+                      placeholder={Math.min(itemsAmount, refundableAmount).toFixed(2)}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Up to ৳{refundableAmount.toFixed(2)}. Leave empty to refund the selected items.
+                    </p>
+                  </div>
+                  <div className="flex items-start pt-6">
+                    {canRestock ? (
+                      <label className="flex items-center space-x-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={restock}
+                          onChange={(e) => setRestock(e.target.checked)}
+                        />
+                        <span>Return refunded items to stock</span>
+                      </label>
+                    ) : (
+                      <p className="text-sm text-gray-500">
+                        This order was cancelled, so its items are already back in stock.
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="refundReason">Reason</Label>
+                  <Textarea
+                    id="refundReason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    rows={2}
+                    placeholder="e.g., Damaged item returned"
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={onClose}>
+                    Close
+                  </Button>
+                  <Button type="submit" disabled={submitting || refundAmount <= 0}>
+                    {submitting ? 'Refunding...' : `Refund ৳${refundAmount.toFixed(2)}`}
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <p className="text-sm text-gray-600">This order has been fully refunded.</p>
+            )}
+
+            {refunds.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Refund history</h4>
+                <div className="space-y-2">
+                  {refunds.map(refund => (
+                    <div key={refund.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                      <div>
+                        <p className="font-medium">৳{refund.amount.toFixed(2)}</p>
+                        <p className="text-xs text-gray-500">
+                          {format(new Date(refund.createdAt), 'MMM dd, yyyy HH:mm')}
+                          {refund.restock && ' · restock'}
+                          {refund.reason && ` · ${refund.reason}`}
+                        </p>
+                        {refund.errorMessage && (
+                          <p className="text-xs text-red-600">{refund.errorMessage}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${refundStatusColors[refund.status]}`}>
+                          {refund.status}
+                        </span>
+                        {refund.status === 'PROCESSING' && (
+                          <Button size="sm" variant="outline" onClick={() => handleRefreshStatus(refund.id)}>
+                            <RefreshCw className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
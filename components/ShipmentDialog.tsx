@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { RefreshCw } from 'lucide-react';
+
+interface CourierOption {
+  id: string;
+  displayName: string;
+  configured: boolean;
+}
+
+interface Shipment {
+  courier: string | null;
+  consignmentId: string | null;
+  trackingNumber: string | null;
+  status: string | null;
+  bookedAt: string | null;
+  trackingUrl: string | null;
+}
+
+interface ShipmentDialogProps {
+  orderId: string | null;
+  adminId: string | null;
+  onClose: () => void;
+  onBooked: () => void;
+}
+
+const ShipmentDialog: React.FC<ShipmentDialogProps> = ({ orderId, adminId, onClose, onBooked }) => {
+  const [couriers, setCouriers] = useState<CourierOption[]>([]);
+  const [shipment, setShipment] = useState<Shipment | null>(null);
+  const [courier, setCourier] = useState('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (orderId) {
+      setNote('');
+      setError(null);
+      fetchShipment();
+    }
+  }, [orderId]);
+
+  const fetchShipment = async (method: 'GET' | 'PUT' = 'GET') => {
+    if (!orderId) return;
+
+    setLoading(method === 'GET');
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/shipment?adminId=${adminId}`, {
+        method,
+        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setCouriers(data.couriers);
+        setShipment(data.shipment);
+        setCourier(current => current || data.couriers.find((c: CourierOption) => c.configured)?.id || '');
+        if (method === 'PUT') {
+          onBooked();
+        }
+      } else {
+        setError(data.error || 'Failed to load shipment');
+      }
+    } catch (error) {
+      console.error('Error fetching shipment:', error);
+      setError('Network error while loading shipment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/shipment?adminId=${adminId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({ courier, note: note || undefined }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setShipment(data.shipment);
+        onBooked();
+      } else {
+        setError(data.error || 'Failed to book courier');
+      }
+    } catch (error) {
+      console.error('Error booking courier:', error);
+      setError('Network error while booking courier');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const bookedCourier = couriers.find(c => c.id === shipment?.courier);
+
+  return (
+    <Dialog open={!!orderId} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Ship order {orderId && `#${orderId.slice(-8)}`}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded">
+                {error}
+              </div>
+            )}
+
+            {shipment?.consignmentId ? (
+              <div className="p-3 bg-gray-50 rounded-lg text-sm space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium">{bookedCourier?.displayName || shipment.courier}</p>
+                  <Button size="sm" variant="outline" onClick={() => fetchShipment('PUT')}>
+                    <RefreshCw className="w-4 h-4" />
+                  </Button>
+                </div>
+                <p>Tracking number: <span className="font-mono">{shipment.trackingNumber}</span></p>
+                <p>Status: {shipment.status || 'Unknown'}</p>
+                {shipment.bookedAt && (
+                  <p className="text-xs text-gray-500">Booked {format(new Date(shipment.bookedAt), 'MMM dd, yyyy HH:mm')}</p>
+                )}
+                {shipment.trackingUrl && (
+                  <a
+                    href={shipment.trackingUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    Open courier tracking page
+                  </a>
+                )}
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="courier">Courier</Label>
+                  <select
+                    id="courier"
+                    value={courier}
+                    onChange={(e) => setCourier(e.target.value)}
+                    className="w-full h-10 px-3 border border-gray-300 rounded-md"
+                  >
+                    {couriers.map(option => (
+                      <option key={option.id} value={option.id} disabled={!option.configured}>
+                        {option.displayName}{!option.configured && ' (not configured)'}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <Label htmlFor="shipmentNote">Instructions for the rider</Label>
+                  <Textarea
+                    id="shipmentNote"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={2}
+                    placeholder="e.g., Call before delivery"
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={onClose}>
+                    Close
+                  </Button>
+                  <Button type="submit" disabled={submitting || !courier}>
+                    {submitting ? 'Booking...' : 'Book Courier'}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShipmentDialog;
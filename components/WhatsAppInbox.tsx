@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+
+interface Conversation {
+  id: string;
+  customerPhone: string;
+  customerName: string | null;
+  unreadCount: number;
+  lastMessageText: string | null;
+  lastMessageAt: string | null;
+  lastInboundAt: string | null;
+}
+
+interface ConversationMessage {
+  id: string;
+  direction: 'INBOUND' | 'OUTBOUND';
+  type: string;
+  text: string | null;
+  status: 'QUEUED' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED' | null;
+  error: string | null;
+  createdAt: string;
+  sentBy: { firstName: string; lastName: string } | null;
+}
+
+interface ConversationOrder {
+  id: string;
+  total: number;
+  status: string;
+  paymentStatus: string;
+  customerName: string | null;
+  createdAt: string;
+}
+
+interface ConversationDetail {
+  conversation: Conversation;
+  messages: ConversationMessage[];
+  orders: ConversationOrder[];
+  canReply: boolean;
+  replyWindowEndsAt: string | null;
+}
+
+// New messages are picked up by polling while the inbox is open
+const POLL_INTERVAL_MS = 15000;
+
+const statusMarks: Record<NonNullable<ConversationMessage['status']>, string> = {
+  QUEUED: '…',
+  SENT: '✓',
+  DELIVERED: '✓✓',
+  READ: '✓✓ read',
+  FAILED: 'failed'
+};
+
+const WhatsAppInbox: React.FC = () => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [unreadTotal, setUnreadTotal] = useState(0);
+  const [phoneNumberId, setPhoneNumberId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<ConversationDetail | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [sendingReply, setSendingReply] = useState(false);
+  const threadEnd = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    fetchConversations();
+    const interval = setInterval(fetchConversations, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [search, unreadOnly]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      return;
+    }
+    // Opening a conversation marks it read, so the unread counts change too
+    fetchConversation(selectedId).then(fetchConversations);
+    const interval = setInterval(() => fetchConversation(selectedId), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [selectedId]);
+
+  useEffect(() => {
+    threadEnd.current?.scrollIntoView({ block: 'end' });
+  }, [detail?.messages.length]);
+
+  const makeApiRequest = async (url: string, options: RequestInit = {}) => {
+    return fetch(url, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+        ...options.headers,
+      },
+    });
+  };
+
+  const fetchConversations = async () => {
+    try {
+      const params = new URLSearchParams({
+        ...(search && { search }),
+        ...(unreadOnly && { unread: 'true' })
+      });
+      const response = await makeApiRequest(`/api/admin/whatsapp/conversations?${params}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setConversations(data.conversations);
+        setUnreadTotal(data.unreadTotal);
+        setPhoneNumberId(data.phoneNumberId);
+      } else {
+        console.error('Error fetching conversations:', data.message);
+      }
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchConversation = async (id: string) => {
+    try {
+      const response = await makeApiRequest(`/api/admin/whatsapp/conversations/${id}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setDetail(data);
+      } else {
+        alert(data.message || 'Failed to load conversation');
+      }
+    } catch (error) {
+      console.error('Error fetching conversation:', error);
+    }
+  };
+
+  const sendReply = async () => {
+    if (!selectedId || !replyText.trim()) {
+      return;
+    }
+
+    try {
+      setSendingReply(true);
+      const response = await makeApiRequest(`/api/admin/whatsapp/conversations/${selectedId}/reply`, {
+        method: 'POST',
+        body: JSON.stringify({ text: replyText })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setReplyText('');
+      } else {
+        alert(data.message || 'Failed to send reply');
+      }
+
+      await Promise.all([fetchConversation(selectedId), fetchConversations()]);
+    } catch (error) {
+      console.error('Error sending reply:', error);
+      alert('Error sending reply');
+    } finally {
+      setSendingReply(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  const displayName = (conversation: Conversation) => conversation.customerName || `+${conversation.customerPhone}`;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center gap-2">
+            Inbox
+            {unreadTotal > 0 && <Badge variant="destructive">{unreadTotal} unread</Badge>}
+          </CardTitle>
+          {phoneNumberId && (
+            <span className="text-xs text-gray-500">Receiving on phone number ID {phoneNumberId}</span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!loading && !phoneNumberId && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+            <p className="text-sm text-yellow-800">
+              Connect your WhatsApp Business account in{' '}
+              <Link href="/admin/settings#messaging" className="font-medium underline">Settings</Link>{' '}
+              to receive customer messages here.
+            </p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Conversation list */}
+          <div className="border rounded-lg overflow-hidden">
+            <div className="p-3 border-b space-y-2 bg-gray-50">
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search name or number"
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input type="checkbox" checked={unreadOnly} onChange={(e) => setUnreadOnly(e.target.checked)} />
+                Unread only
+              </label>
+            </div>
+            <div className="max-h-[32rem] overflow-y-auto divide-y">
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-600"></div>
+                </div>
+              ) : conversations.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 py-8">No conversations yet</p>
+              ) : (
+                conversations.map((conversation) => (
+                  <button
+                    key={conversation.id}
+                    onClick={() => setSelectedId(conversation.id)}
+                    className={`w-full text-left p-3 hover:bg-gray-50 ${selectedId === conversation.id ? 'bg-green-50' : ''}`}
+                  >
+                    <div className="flex justify-between items-center gap-2">
+                      <span className={`text-sm truncate ${conversation.unreadCount > 0 ? 'font-semibold' : ''}`}>
+                        {displayName(conversation)}
+                      </span>
+                      {conversation.unreadCount > 0 && (
+                        <span className="bg-green-600 text-white text-xs rounded-full px-2 py-0.5">{conversation.unreadCount}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">{conversation.lastMessageText}</p>
+                    {conversation.lastMessageAt && (
+                      <p className="text-xs text-gray-400">{formatDate(conversation.lastMessageAt)}</p>
+                    )}
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Thread and reply */}
+          <div className="lg:col-span-2 border rounded-lg flex flex-col">
+            {!detail || detail.conversation.id !== selectedId ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-gray-500 py-16">
+                Select a conversation
+              </div>
+            ) : (
+              <>
+                <div className="p-3 border-b bg-gray-50">
+                  <div className="font-medium">{displayName(detail.conversation)}</div>
+                  <div className="text-xs text-gray-500 font-mono">+{detail.conversation.customerPhone}</div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 flex-1 min-h-0">
+                  <div className="md:col-span-2 flex flex-col min-h-0">
+                    <div className="flex-1 max-h-[24rem] overflow-y-auto p-3 space-y-2">
+                      {detail.messages.map((message) => (
+                        <div key={message.id} className={`flex ${message.direction === 'OUTBOUND' ? 'justify-end' : 'justify-start'}`}>
+                          <div className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                            message.direction === 'OUTBOUND' ? 'bg-green-100' : 'bg-gray-100'
+                          }`}>
+                            <p className="whitespace-pre-wrap break-words">{message.text}</p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {formatDate(message.createdAt)}
+                              {message.sentBy && ` · ${message.sentBy.firstName} ${message.sentBy.lastName}`}
+                              {message.status && ` · ${statusMarks[message.status]}`}
+                            </p>
+                            {message.error && <p className="text-xs text-red-600">{message.error}</p>}
+                          </div>
+                        </div>
+                      ))}
+                      <div ref={threadEnd} />
+                    </div>
+
+                    <div className="border-t p-3 space-y-2">
+                      {detail.canReply ? (
+                        <>
+                          <Textarea
+                            value={replyText}
+                            onChange={(e) => setReplyText(e.target.value)}
+                            placeholder="Type a reply..."
+                            rows={3}
+                            maxLength={4096}
+                          />
+                          <div className="flex justify-between items-center">
+                            <span className="text-xs text-gray-500">
+                              Replies allowed until {detail.replyWindowEndsAt && formatDate(detail.replyWindowEndsAt)}
+                            </span>
+                            <Button
+                              onClick={sendReply}
+                              disabled={sendingReply || !replyText.trim()}
+                              className="bg-green-600 hover:bg-green-700"
+                            >
+                              {sendingReply ? 'Sending...' : 'Send Reply'}
+                            </Button>
+                          </div>
+                        </>
+                      ) : (
+                        <p className="text-sm text-gray-500">
+                          The customer last wrote more than 24 hours ago. WhatsApp only allows template messages until they write again.
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Orders placed with this number */}
+                  <div className="border-t md:border-t-0 md:border-l p-3">
+                    <h4 className="text-sm font-medium mb-2">Orders</h4>
+                    {detail.orders.length === 0 ? (
+                      <p className="text-xs text-gray-500">No orders with this phone number</p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {detail.orders.map((order) => (
+                          <li key={order.id} className="text-xs border rounded p-2">
+                            <div className="flex justify-between">
+                              <span className="font-mono">#{order.id.slice(-8)}</span>
+                              <span className="font-medium">৳{order.total.toFixed(2)}</span>
+                            </div>
+                            <div className="flex justify-between text-gray-500">
+                              <span>{new Date(order.createdAt).toLocaleDateString()}</span>
+                              <span>{order.status} · {order.paymentStatus}</span>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {detail.orders.length > 0 && (
+                      <Link href="/admin/orders" className="text-xs text-blue-600 hover:text-blue-800 mt-2 inline-block">
+                        View all orders
+                      </Link>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WhatsAppInbox;
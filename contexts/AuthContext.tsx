@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import axios from 'axios';
+import { StorePermission, StoreRole } from '@/lib/permissions';
 
 interface User {
   id: string;
@@ -10,7 +11,16 @@ interface User {
   avatar?: string;
   dateOfBirth?: string;
   role: string;
-  subdomain?: string;
+  // Primary store of an admin
+  subdomain?: string | null;
+  storeName?: string | null;
+  stores?: {
+    id: string;
+    name: string;
+    subdomain: string;
+    role: StoreRole;
+    permissions: StorePermission[];
+  }[];
 }
 
 interface AuthContextType {
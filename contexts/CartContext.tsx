@@ -1,11 +1,21 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useAuth } from './AuthContext';
 import axios from 'axios';
+import { getVariantPrice } from '../lib/productVariants';
 
 interface CartItem {
   id: string;
   productId: string;
+  variantId?: string | null;
   quantity: number;
+  variant?: {
+    id: string;
+    sku: string | null;
+    options: Record<string, string>;
+    price: number | null;
+    stock: number;
+    image: string | null;
+  } | null;
   product: {
     id: string;
     name: string;
@@ -20,6 +30,7 @@ interface CartItem {
 
 interface LocalCartItem {
   productId: string;
+  variantId?: string | null;
   quantity: number;
 }
 
@@ -27,14 +38,14 @@ interface CartContextType {
   cartItems: CartItem[];
   cartCount: number;
   cartTotal: number;
-  addToCart: (productId: string, quantity?: number) => Promise<void>;
+  addToCart: (productId: string, quantity?: number, variantId?: string | null) => Promise<void>;
   updateCartItem: (itemId: string, quantity: number) => Promise<void>;
   removeFromCart: (itemId: string) => Promise<void>;
   clearCart: () => Promise<void>;
   fetchCart: () => Promise<void>;
   loading: boolean;
   localCartCount: number;
-  addToLocalCart: (productId: string, quantity?: number) => void;
+  addToLocalCart: (productId: string, quantity?: number, variantId?: string | null) => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -111,6 +122,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
       for (const localItem of localCartItems) {
         await axios.post('/api/cart', {
           productId: localItem.productId,
+          variantId: localItem.variantId || null,
           quantity: localItem.quantity
         }, {
           headers: { Authorization: `Bearer ${token}` }
@@ -129,18 +141,20 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
   };
 
   // Add item to local cart (for guest users)
-  const addToLocalCart = (productId: string, quantity: number = 1) => {
+  const addToLocalCart = (productId: string, quantity: number = 1, variantId: string | null = null) => {
     setLocalCartItems(prevItems => {
-      const existingItem = prevItems.find(item => item.productId === productId);
+      const isSameItem = (item: LocalCartItem) =>
+        item.productId === productId && (item.variantId || null) === variantId;
+      const existingItem = prevItems.find(isSameItem);
       let updatedItems;
       if (existingItem) {
         updatedItems = prevItems.map(item =>
-          item.productId === productId
+          isSameItem(item)
             ? { ...item, quantity: item.quantity + quantity }
             : item
         );
       } else {
-        updatedItems = [...prevItems, { productId, quantity }];
+        updatedItems = [...prevItems, { productId, variantId, quantity }];
       }
       
       // Save to localStorage immediately
@@ -149,10 +163,10 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     });
   };
 
-  const addToCart = async (productId: string, quantity: number = 1) => {
+  const addToCart = async (productId: string, quantity: number = 1, variantId: string | null = null) => {
     // If user is not logged in, add to local cart
     if (!token) {
-      addToLocalCart(productId, quantity);
+      addToLocalCart(productId, quantity, variantId);
       return;
     }
 
@@ -160,6 +174,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
       setLoading(true);
       await axios.post('/api/cart', {
         productId,
+        variantId,
         quantity
       }, {
         headers: { Authorization: `Bearer ${token}` }
@@ -222,7 +237,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
 
   const cartCount = cartItems.reduce((total, item) => total + item.quantity, 0);
   const localCartCount = localCartItems.reduce((total, item) => total + item.quantity, 0);
-  const cartTotal = cartItems.reduce((total, item) => total + (item.product.price * item.quantity), 0);
+  const cartTotal = cartItems.reduce((total, item) => total + (getVariantPrice(item.product, item.variant) * item.quantity), 0);
 
   const value = {
     cartItems,
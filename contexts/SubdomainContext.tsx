@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { extractSubdomain } from '@/lib/subdomainUtils';
+import { extractSubdomain, isPlatformHost } from '@/lib/domainRouting';
 
 type SubdomainContextType = {
   subdomain: string | null;
@@ -7,7 +7,7 @@ type SubdomainContextType = {
   isAdminSubdomain: boolean;
   isCustomDomain: boolean;
   adminId: string | null;
-  isSubdomainAdmin: boolean; // Whether current user is the admin of this subdomain
+  isSubdomainAdmin: boolean; // Whether current user is a member of this store
   storeName: string | null;
 };
 
@@ -40,7 +40,7 @@ export const SubdomainProvider = ({ children }: SubdomainProviderProps) => {
         
         // Check if current user is logged in
         const token = localStorage.getItem('token');
-        let currentUserId = null;
+        let currentStoreIds: string[] = [];
         
         if (token) {
           try {
@@ -50,14 +50,15 @@ export const SubdomainProvider = ({ children }: SubdomainProviderProps) => {
             
             if (response.ok) {
               const { user } = await response.json();
-              currentUserId = user?.id;
+              currentStoreIds = (user?.stores || []).map((store: { id: string }) => store.id);
             }
           } catch (error) {
             console.error('Error fetching user data:', error);
           }
         }
 
-        // Try to get admin data by host (subdomain or custom domain)
+        // Try to get admin data by host (subdomain or custom domain). This is the
+        // lookup the Edge middleware routes custom domains with, so both agree.
         const response = await fetch(`/api/subdomains/host/${encodeURIComponent(host)}`);
         
         if (response.ok) {
@@ -69,12 +70,13 @@ export const SubdomainProvider = ({ children }: SubdomainProviderProps) => {
             isAdminSubdomain: data.isAdminSubdomain || false,
             isCustomDomain: data.isCustomDomain || false,
             adminId: data.adminId,
-            isSubdomainAdmin: currentUserId === data.adminId,
+            isSubdomainAdmin: currentStoreIds.includes(data.adminId),
             storeName: data.storeName || null,
           });
         } else {
-          // Fallback to old subdomain detection
-          const subdomain = extractSubdomain(host);
+          // Fallback to old subdomain detection. A custom domain the lookup
+          // didn't resolve is not active yet, and its first label is no subdomain.
+          const subdomain = isPlatformHost(host) ? extractSubdomain(host) : null;
           
           if (subdomain) {
             const subdomainResponse = await fetch(`/api/subdomains/${subdomain}`);
@@ -87,7 +89,7 @@ export const SubdomainProvider = ({ children }: SubdomainProviderProps) => {
                 isAdminSubdomain: true,
                 isCustomDomain: false,
                 adminId: subdomainData.adminId,
-                isSubdomainAdmin: currentUserId === subdomainData.adminId,
+                isSubdomainAdmin: currentStoreIds.includes(subdomainData.adminId),
                 storeName: subdomainData.storeName,
               });
             } else {
@@ -30,6 +30,21 @@ module.exports = {
       env_production: {
         NODE_ENV: 'production'
       }
+    },
+    {
+      name: 'jobs',
+      script: 'scripts/job-worker.js',
+      env: {
+        NODE_ENV: 'production'
+      },
+      watch: false,
+      instances: 1,
+      exec_mode: 'fork',
+      max_memory_restart: '200M',
+      kill_timeout: 60000,
+      env_production: {
+        NODE_ENV: 'production'
+      }
     }
   ]
 };
\ No newline at end of file
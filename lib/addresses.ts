@@ -0,0 +1,195 @@
+import { BANGLADESH_DIVISIONS, getDistrictDivision, normalizeDistrict } from './bangladeshDistricts';
+
+export const DEFAULT_COUNTRY = 'Bangladesh';
+
+/**
+ * A delivery address as couriers need it. Orders keep a copy of it so later
+ * edits to a saved address do not change where an order was sent.
+ */
+export interface ShippingAddress {
+  fullName: string;
+  phone: string;
+  addressLine: string;
+  upazila: string;
+  district: string;
+  division: string;
+  postcode: string | null;
+  country: string;
+}
+
+/** The saved-address fields the conversion helpers read */
+export interface SavedAddressFields {
+  fullName?: string | null;
+  phone?: string | null;
+  street: string;
+  upazila?: string | null;
+  district?: string | null;
+  division?: string | null;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Bring a Bangladeshi mobile number to its local 11-digit form
+ * @returns null when the number is not a valid mobile number
+ */
+export function normalizeBangladeshPhone(phone: string | null | undefined): string | null {
+  if (!phone) {
+    return null;
+  }
+
+  let digits = phone.replace(/[\s\-().]/g, '');
+  if (digits.startsWith('+880')) {
+    digits = `0${digits.slice(4)}`;
+  } else if (digits.startsWith('880')) {
+    digits = `0${digits.slice(3)}`;
+  }
+
+  return /^01[3-9]\d{8}$/.test(digits) ? digits : null;
+}
+
+/**
+ * Read an address submitted by a client. Older clients send a JSON string
+ * with the district in `state` and the upazila in `city`; plain text is
+ * taken as the address line.
+ */
+export function parseShippingAddressInput(value: unknown): Record<string, any> {
+  let address: any = value;
+  if (typeof value === 'string') {
+    try {
+      address = JSON.parse(value);
+    } catch {
+      return { addressLine: value };
+    }
+  }
+
+  if (!address || typeof address !== 'object') {
+    return {};
+  }
+
+  return {
+    ...address,
+    addressLine: address.addressLine ?? address.address ?? address.street,
+    upazila: address.upazila ?? address.city,
+    district: address.district ?? address.state,
+    postcode: address.postcode ?? address.zipCode
+  };
+}
+
+/**
+ * Validate a shipping address, deriving the division from the district
+ * @returns The cleaned address and a list of validation errors
+ */
+export function validateShippingAddress(input: Record<string, any>): { address: ShippingAddress; errors: string[] } {
+  const errors: string[] = [];
+
+  const fullName = text(input.fullName);
+  if (!fullName) {
+    errors.push('Full name is required');
+  }
+
+  const phone = normalizeBangladeshPhone(text(input.phone));
+  if (!text(input.phone)) {
+    errors.push('Phone number is required');
+  } else if (!phone) {
+    errors.push('Phone number must be a Bangladeshi mobile number, e.g. 01712345678');
+  }
+
+  const addressLine = text(input.addressLine);
+  if (!addressLine) {
+    errors.push('Address is required');
+  }
+
+  const upazila = text(input.upazila);
+  if (!upazila) {
+    errors.push('Upazila or thana is required');
+  }
+
+  const district = normalizeDistrict(text(input.district));
+  const division = getDistrictDivision(district) || '';
+  if (!text(input.district)) {
+    errors.push('District is required');
+  } else if (!district) {
+    errors.push(`${text(input.district)} is not a district of Bangladesh`);
+  } else if (text(input.division) && text(input.division).toLowerCase() !== division.toLowerCase()) {
+    if (!Object.keys(BANGLADESH_DIVISIONS).some(name => name.toLowerCase() === text(input.division).toLowerCase())) {
+      errors.push(`${text(input.division)} is not a division of Bangladesh`);
+    } else {
+      errors.push(`${district} is in ${division} division, not ${text(input.division)}`);
+    }
+  }
+
+  const postcode = text(input.postcode) || null;
+  if (postcode && !/^\d{4}$/.test(postcode)) {
+    errors.push('Postcode must be 4 digits');
+  }
+
+  const country = text(input.country) || DEFAULT_COUNTRY;
+  if (country.toLowerCase() !== DEFAULT_COUNTRY.toLowerCase()) {
+    errors.push(`We only deliver within ${DEFAULT_COUNTRY}`);
+  }
+
+  return {
+    address: {
+      fullName,
+      phone: phone || '',
+      addressLine,
+      upazila,
+      district: district || '',
+      division,
+      postcode,
+      country: DEFAULT_COUNTRY
+    },
+    errors
+  };
+}
+
+/**
+ * Shipping address fields of a saved address. Addresses saved before
+ * districts were recorded fall back to their city and state.
+ */
+export function savedAddressToInput(saved: SavedAddressFields): Record<string, any> {
+  return {
+    fullName: saved.fullName,
+    phone: saved.phone,
+    addressLine: saved.street,
+    upazila: saved.upazila || saved.city,
+    district: saved.district || saved.state,
+    division: saved.division,
+    postcode: saved.zipCode,
+    country: saved.country
+  };
+}
+
+/**
+ * Saved-address columns for a validated address; city, state and zipCode
+ * are still filled for screens that read them
+ */
+export function shippingAddressToSaved(address: ShippingAddress): SavedAddressFields {
+  return {
+    fullName: address.fullName,
+    phone: address.phone,
+    street: address.addressLine,
+    upazila: address.upazila,
+    district: address.district,
+    division: address.division,
+    city: address.upazila,
+    state: address.district,
+    zipCode: address.postcode || '',
+    country: address.country
+  };
+}
+
+/**
+ * One-line form of an address, as printed on labels and order lists
+ */
+export function formatShippingAddress(address: Pick<ShippingAddress, 'addressLine' | 'upazila' | 'district' | 'postcode'>): string {
+  const district = address.postcode ? `${address.district} ${address.postcode}` : address.district;
+  return [address.addressLine, address.upazila, district].filter(Boolean).join(', ');
+}
@@ -0,0 +1,73 @@
+// The 64 districts of Bangladesh by division. Safe to import from client pages.
+export const BANGLADESH_DIVISIONS: Record<string, string[]> = {
+  Barishal: ['Barguna', 'Barishal', 'Bhola', 'Jhalokati', 'Patuakhali', 'Pirojpur'],
+  Chattogram: [
+    'Bandarban', 'Brahmanbaria', 'Chandpur', 'Chattogram', "Cox's Bazar", 'Cumilla',
+    'Feni', 'Khagrachhari', 'Lakshmipur', 'Noakhali', 'Rangamati'
+  ],
+  Dhaka: [
+    'Dhaka', 'Faridpur', 'Gazipur', 'Gopalganj', 'Kishoreganj', 'Madaripur', 'Manikganj',
+    'Munshiganj', 'Narayanganj', 'Narsingdi', 'Rajbari', 'Shariatpur', 'Tangail'
+  ],
+  Khulna: [
+    'Bagerhat', 'Chuadanga', 'Jashore', 'Jhenaidah', 'Khulna', 'Kushtia', 'Magura',
+    'Meherpur', 'Narail', 'Satkhira'
+  ],
+  Mymensingh: ['Jamalpur', 'Mymensingh', 'Netrokona', 'Sherpur'],
+  Rajshahi: ['Bogura', 'Chapai Nawabganj', 'Joypurhat', 'Naogaon', 'Natore', 'Pabna', 'Rajshahi', 'Sirajganj'],
+  Rangpur: ['Dinajpur', 'Gaibandha', 'Kurigram', 'Lalmonirhat', 'Nilphamari', 'Panchagarh', 'Rangpur', 'Thakurgaon'],
+  Sylhet: ['Habiganj', 'Moulvibazar', 'Sunamganj', 'Sylhet']
+};
+
+export const BANGLADESH_DISTRICTS: string[] = Object.values(BANGLADESH_DIVISIONS).flat().sort();
+
+/** The district the "Inside Dhaka" delivery rate covers */
+export const DHAKA_DISTRICT = 'Dhaka';
+
+// Older English spellings customers and couriers still use
+const DISTRICT_ALIASES: Record<string, string> = {
+  barisal: 'Barishal',
+  bogra: 'Bogura',
+  chittagong: 'Chattogram',
+  comilla: 'Cumilla',
+  jessore: 'Jashore',
+  nawabganj: 'Chapai Nawabganj',
+  moulvibazaar: 'Moulvibazar',
+  netrakona: 'Netrokona',
+  jhalakathi: 'Jhalokati',
+  khagrachari: 'Khagrachhari',
+  laxmipur: 'Lakshmipur'
+};
+
+function districtKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Map a district name as typed to its canonical spelling
+ * @returns null when the name is not a Bangladesh district
+ */
+export function normalizeDistrict(name: string | null | undefined): string | null {
+  if (!name) {
+    return null;
+  }
+
+  const key = districtKey(name);
+  return BANGLADESH_DISTRICTS.find(district => districtKey(district) === key) ||
+    DISTRICT_ALIASES[key] ||
+    null;
+}
+
+/**
+ * Division a district belongs to
+ */
+export function getDistrictDivision(district: string | null | undefined): string | null {
+  const canonical = normalizeDistrict(district);
+  if (!canonical) {
+    return null;
+  }
+
+  return Object.keys(BANGLADESH_DIVISIONS).find(division =>
+    BANGLADESH_DIVISIONS[division].includes(canonical)
+  ) || null;
+}
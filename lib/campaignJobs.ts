@@ -0,0 +1,395 @@
+import { PrismaClient, WhatsAppCampaign } from '@prisma/client';
+import { sendSMSBangladesh } from './sms-bangladesh';
+import { createSMSMessages, failQueuedSMSMessages, recordSMSBatch, refreshSMSCampaignCounts } from './smsMessages';
+import {
+  createWhatsAppMessages,
+  failQueuedWhatsAppMessages,
+  recordWhatsAppSend,
+  refreshWhatsAppCampaignCounts,
+  requeueFailedWhatsAppMessages
+} from './whatsappMessages';
+import WhatsAppBusinessAPI from './whatsapp-business';
+import { getStoreSMSConfig, getStoreWhatsAppConfig } from './storeCredentials';
+import { getSegmentRecipients } from './customerSegments';
+import { getSuppressionFilter, suppressFailedRecipient } from './suppressionList';
+import type { JobContext, JobRunResult } from './jobs';
+
+const prisma = new PrismaClient();
+
+// Numbers per SMS Bangladesh request
+const SMS_BATCH_SIZE = 100;
+// WhatsApp messages are sent one by one with a pause in between to stay
+// under Meta's rate limits, so progress is saved every few messages
+const WHATSAPP_BATCH_SIZE = 5;
+const WHATSAPP_MESSAGE_DELAY_MS = 2000;
+
+export interface SMSCampaignJobPayload {
+  campaignId: string;
+}
+
+export interface WhatsAppCampaignJobPayload {
+  campaignId: string;
+}
+
+export interface WhatsAppMessage {
+  messageType: 'text' | 'template' | 'media';
+  messageData: any;
+}
+
+/**
+ * The message a WhatsApp campaign sends, or null for an unsupported type
+ */
+export function getWhatsAppMessage(campaign: WhatsAppCampaign): WhatsAppMessage | null {
+  switch (campaign.messageType) {
+    case 'TEXT':
+      return { messageType: 'text', messageData: { message: campaign.textMessage } };
+    case 'TEMPLATE':
+      return {
+        messageType: 'template',
+        messageData: {
+          templateName: campaign.templateName,
+          languageCode: 'en',
+          components: campaign.templateParams ? JSON.parse(campaign.templateParams as string) : undefined
+        }
+      };
+    case 'MEDIA':
+      return {
+        messageType: 'media',
+        messageData: {
+          mediaType: campaign.mediaType?.toLowerCase(),
+          mediaUrl: campaign.mediaUrl,
+          caption: campaign.textMessage
+        }
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Send an SMS campaign's queued messages in batches, recording the provider's
+ * answer for each recipient. The campaign's counts are recounted from its
+ * messages and it is marked SENT or FAILED once none are left queued.
+ */
+export async function runSMSCampaignJob(payload: SMSCampaignJobPayload, context: JobContext): Promise<JobRunResult> {
+  let campaign = await prisma.sMSCampaign.findUnique({ where: { id: payload.campaignId } });
+
+  // A scheduled campaign's job was queued to run at its scheduled time
+  if (campaign?.status === 'SCHEDULED') {
+    if (campaign.scheduledAt && campaign.scheduledAt > new Date()) {
+      return { continueAt: campaign.scheduledAt };
+    }
+
+    // Matching scheduledAt too leaves a campaign rescheduled in the meantime for later
+    const started = await prisma.sMSCampaign.updateMany({
+      where: { id: campaign.id, status: 'SCHEDULED', scheduledAt: campaign.scheduledAt },
+      data: { status: 'SENDING' }
+    });
+    if (started.count === 1) {
+      await prisma.sMSCampaignLog.create({
+        data: { campaignId: campaign.id, action: 'DISPATCHED', details: { jobId: context.job.id, scheduledAt: campaign.scheduledAt } }
+      });
+    }
+
+    // Otherwise it was sent now, rescheduled or cancelled while this job was starting
+    campaign = await prisma.sMSCampaign.findUnique({ where: { id: payload.campaignId } });
+    if (campaign?.status === 'SCHEDULED' && campaign.scheduledAt) {
+      return { continueAt: campaign.scheduledAt };
+    }
+  }
+
+  if (!campaign || campaign.status !== 'SENDING') {
+    return { result: { skipped: 'The campaign is no longer waiting to be sent' } };
+  }
+
+  // Credentials are read when sending so the job never carries them
+  const storeId = campaign.storeId;
+  const smsConfig = storeId ? await getStoreSMSConfig(storeId) : null;
+  if (!storeId || !smsConfig) {
+    throw new Error('SMS Bangladesh is not set up for this store');
+  }
+
+  // A segment's customers are looked up when the campaign is first sent, so
+  // it reaches whoever matches then; later runs and retries keep that list
+  let recipients = campaign.recipients;
+  if (campaign.segmentId && await prisma.sMSMessage.count({ where: { campaignId: campaign.id } }) === 0) {
+    recipients = await getSegmentRecipients(storeId, campaign.segmentId) || [];
+    await prisma.$transaction([
+      prisma.sMSCampaign.update({ where: { id: campaign.id }, data: { recipients, totalCount: recipients.length } }),
+      prisma.sMSCampaignLog.create({
+        data: { campaignId: campaign.id, action: 'AUDIENCE_RESOLVED', details: { segmentId: campaign.segmentId, recipientCount: recipients.length } }
+      })
+    ]);
+  }
+  if (recipients.length === 0) {
+    throw new Error('The campaign has no recipients');
+  }
+
+  // Recipients get a message each the first time the campaign is sent; a
+  // retry only queues the failed ones again
+  const totalCount = await createSMSMessages(campaign.id, recipients);
+  let sent = totalCount - await prisma.sMSMessage.count({ where: { campaignId: campaign.id, status: 'QUEUED' } });
+  // Numbers that opted out, were added by an admin or bounced aren't texted
+  const isSuppressed = await getSuppressionFilter(storeId, 'SMS');
+
+  while (Date.now() < context.deadline) {
+    const batch = await prisma.sMSMessage.findMany({
+      where: { campaignId: campaign.id, status: 'QUEUED' },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: SMS_BATCH_SIZE
+    });
+    if (batch.length === 0) {
+      break;
+    }
+
+    const smsResult = await sendSMSBangladesh(smsConfig, batch.map(message => message.phoneNumber), campaign.message, { isSuppressed });
+
+    // A rejected request is retried by the queue rather than counted as failed numbers
+    if (!smsResult.success) {
+      throw new Error(`SMS Bangladesh: ${smsResult.message}`);
+    }
+
+    await recordSMSBatch(batch, smsResult);
+    for (const receipt of smsResult.receipts || []) {
+      if (receipt.error && !receipt.suppressed) {
+        await suppressFailedRecipient(storeId, 'SMS', receipt.phoneNumber, { error: receipt.error });
+      }
+    }
+    sent += batch.length;
+
+    await prisma.sMSCampaign.update({
+      where: { id: campaign.id },
+      data: {
+        apiProvider: 'SMS_BANGLADESH',
+        apiResponse: JSON.parse(JSON.stringify(smsResult)) // Convert to plain object
+      }
+    });
+    await context.saveProgress({ sent, total: totalCount });
+  }
+
+  const { deliveredCount, failedCount, suppressedCount } = await refreshSMSCampaignCounts(campaign.id);
+
+  if (sent < totalCount) {
+    return { continueAt: new Date() };
+  }
+
+  // If more than 50% failed, mark as failed
+  const status = failedCount > totalCount * 0.5 ? 'FAILED' : 'SENT';
+
+  await prisma.sMSCampaign.update({
+    where: { id: campaign.id },
+    data: { status, sentAt: new Date() }
+  });
+
+  await prisma.sMSCampaignLog.create({
+    data: {
+      campaignId: campaign.id,
+      action: 'SENT',
+      details: {
+        apiProvider: 'SMS_BANGLADESH',
+        jobId: context.job.id,
+        deliveredCount,
+        failedCount,
+        suppressedCount
+      }
+    }
+  });
+
+  return {
+    result: {
+      status,
+      totalCount,
+      deliveredCount,
+      failedCount,
+      suppressedCount,
+      successRate: totalCount > 0 ? ((deliveredCount / totalCount) * 100).toFixed(2) : '0.00'
+    }
+  };
+}
+
+/**
+ * The SMS job ran out of attempts: recipients not reached yet are marked
+ * failed and so is the campaign
+ */
+export async function failSMSCampaign(payload: SMSCampaignJobPayload, error: string) {
+  const updated = await prisma.sMSCampaign.updateMany({
+    where: { id: payload.campaignId, status: 'SENDING' },
+    data: { status: 'FAILED' }
+  });
+
+  if (updated.count === 1) {
+    await failQueuedSMSMessages(payload.campaignId, error);
+    await refreshSMSCampaignCounts(payload.campaignId);
+    await prisma.sMSCampaignLog.create({
+      data: { campaignId: payload.campaignId, action: 'FAILED', details: { error } }
+    });
+  }
+}
+
+/**
+ * Send a WhatsApp campaign's queued messages a few at a time, recording each
+ * message's ID as it goes out so webhook statuses can be matched to it
+ */
+export async function runWhatsAppCampaignJob(payload: WhatsAppCampaignJobPayload, context: JobContext): Promise<JobRunResult> {
+  let campaign = await prisma.whatsAppCampaign.findUnique({ where: { id: payload.campaignId } });
+
+  // A scheduled campaign's job was queued to run at its scheduled time
+  if (campaign?.status === 'SCHEDULED') {
+    if (campaign.scheduledAt && campaign.scheduledAt > new Date()) {
+      return { continueAt: campaign.scheduledAt };
+    }
+
+    // Matching scheduledAt too leaves a campaign rescheduled in the meantime for later
+    const started = await prisma.whatsAppCampaign.updateMany({
+      where: { id: campaign.id, status: 'SCHEDULED', scheduledAt: campaign.scheduledAt },
+      data: { status: 'SENDING' }
+    });
+    if (started.count === 1) {
+      // A failed campaign rescheduled goes out again to the recipients it missed
+      await requeueFailedWhatsAppMessages(campaign.id);
+      await prisma.whatsAppCampaignLog.create({
+        data: { campaignId: campaign.id, action: 'DISPATCHED', details: { jobId: context.job.id, scheduledAt: campaign.scheduledAt } }
+      });
+    }
+
+    // Otherwise it was sent now, rescheduled or cancelled while this job was starting
+    campaign = await prisma.whatsAppCampaign.findUnique({ where: { id: payload.campaignId } });
+    if (campaign?.status === 'SCHEDULED' && campaign.scheduledAt) {
+      return { continueAt: campaign.scheduledAt };
+    }
+  }
+
+  if (!campaign || campaign.status !== 'SENDING') {
+    return { result: { skipped: 'The campaign is no longer waiting to be sent' } };
+  }
+
+  const message = getWhatsAppMessage(campaign);
+  if (!message) {
+    throw new Error(`Unsupported message type: ${campaign.messageType}`);
+  }
+
+  const storeId = campaign.storeId;
+  const config = storeId ? await getStoreWhatsAppConfig(storeId) : null;
+  if (!storeId || !config) {
+    throw new Error('WhatsApp is not set up for this store');
+  }
+  const whatsappAPI = new WhatsAppBusinessAPI(config);
+
+  // Looked up when first sent, as for SMS campaigns
+  let recipients = campaign.recipients;
+  if (campaign.segmentId && await prisma.whatsAppMessage.count({ where: { campaignId: campaign.id } }) === 0) {
+    recipients = await getSegmentRecipients(storeId, campaign.segmentId) || [];
+    await prisma.$transaction([
+      prisma.whatsAppCampaign.update({ where: { id: campaign.id }, data: { recipients, totalCount: recipients.length } }),
+      prisma.whatsAppCampaignLog.create({
+        data: { campaignId: campaign.id, action: 'AUDIENCE_RESOLVED', details: { segmentId: campaign.segmentId, recipientCount: recipients.length } }
+      })
+    ]);
+  }
+  if (recipients.length === 0) {
+    throw new Error('The campaign has no recipients');
+  }
+
+  const totalCount = await createWhatsAppMessages(campaign.id, recipients);
+  let sent = totalCount - await prisma.whatsAppMessage.count({ where: { campaignId: campaign.id, status: 'QUEUED' } });
+  const isSuppressed = await getSuppressionFilter(storeId, 'WHATSAPP');
+  let firstBatch = true;
+
+  while (Date.now() < context.deadline) {
+    const batch = await prisma.whatsAppMessage.findMany({
+      where: { campaignId: campaign.id, status: 'QUEUED' },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: WHATSAPP_BATCH_SIZE
+    });
+    if (batch.length === 0) {
+      break;
+    }
+
+    if (!firstBatch) {
+      await new Promise(resolve => setTimeout(resolve, WHATSAPP_MESSAGE_DELAY_MS));
+    }
+    firstBatch = false;
+
+    const result = await whatsappAPI.sendBulkMessages(
+      batch.map(queued => queued.phoneNumber),
+      message.messageType,
+      message.messageData,
+      WHATSAPP_MESSAGE_DELAY_MS,
+      async (sendResult, index) => {
+        await recordWhatsAppSend(batch[index], sendResult);
+        if (sendResult.error && !sendResult.suppressed) {
+          await suppressFailedRecipient(storeId, 'WHATSAPP', sendResult.phoneNumber, sendResult);
+        }
+      },
+      isSuppressed
+    );
+    sent += batch.length;
+
+    await prisma.whatsAppCampaignLog.create({
+      data: {
+        campaignId: campaign.id,
+        action: 'BATCH_SENT',
+        details: {
+          jobId: context.job.id,
+          successful: result.successful,
+          failed: result.failed,
+          suppressed: result.suppressed
+        }
+      }
+    });
+    await context.saveProgress({ sent, total: totalCount });
+  }
+
+  // Delivered and read counts keep changing afterwards as webhook statuses arrive
+  const { sentCount, failedCount, suppressedCount } = await refreshWhatsAppCampaignCounts(campaign.id);
+
+  if (sent < totalCount) {
+    return { continueAt: new Date() };
+  }
+
+  // A campaign whose every recipient is suppressed wasn't a failed send
+  const status = totalCount > suppressedCount && sentCount === 0 ? 'FAILED' : 'SENT';
+
+  await prisma.whatsAppCampaign.update({
+    where: { id: campaign.id },
+    data: {
+      status,
+      sentAt: new Date(),
+      apiResponse: { successfulCount: sentCount, failedCount }
+    }
+  });
+
+  await prisma.whatsAppCampaignLog.create({
+    data: {
+      campaignId: campaign.id,
+      action: 'SENT',
+      details: {
+        jobId: context.job.id,
+        successfulCount: sentCount,
+        failedCount,
+        suppressedCount
+      }
+    }
+  });
+
+  return { result: { status, totalCount, successfulCount: sentCount, failedCount, suppressedCount } };
+}
+
+/**
+ * The WhatsApp job ran out of attempts: recipients not reached yet are marked
+ * failed and so is the campaign
+ */
+export async function failWhatsAppCampaign(payload: WhatsAppCampaignJobPayload, error: string) {
+  const updated = await prisma.whatsAppCampaign.updateMany({
+    where: { id: payload.campaignId, status: 'SENDING' },
+    data: { status: 'FAILED' }
+  });
+
+  if (updated.count === 1) {
+    await failQueuedWhatsAppMessages(payload.campaignId, error);
+    await refreshWhatsAppCampaignCounts(payload.campaignId);
+    await prisma.whatsAppCampaignLog.create({
+      data: { campaignId: payload.campaignId, action: 'FAILED', details: { error } }
+    });
+  }
+}
@@ -0,0 +1,98 @@
+import { Job, Prisma, PrismaClient } from '@prisma/client';
+import { cancelJob, enqueueJob } from './jobs';
+import { DEFAULT_TIME_ZONE, isValidTimeZone, zonedTimeToUtc } from './timezone';
+
+const prisma = new PrismaClient();
+
+export interface ScheduleInput {
+  scheduledAt: Date | null;
+  error?: string;
+}
+
+// One open send job per campaign; scheduling, sending now and cancelling all go through it
+export function getSMSCampaignJobKey(campaignId: string): string {
+  return `sms-campaign:${campaignId}`;
+}
+
+export function getWhatsAppCampaignJobKey(campaignId: string): string {
+  return `whatsapp-campaign:${campaignId}`;
+}
+
+export async function getStoreTimeZone(storeId: string): Promise<string> {
+  const store = await prisma.store.findUnique({
+    where: { id: storeId },
+    select: { timezone: true }
+  });
+  return store && isValidTimeZone(store.timezone) ? store.timezone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Read a campaign's scheduledAt from a request body. A wall-clock time from a
+ * datetime-local input is taken in the store's time zone; a full ISO
+ * timestamp is used as it is. Empty means no schedule.
+ */
+export function parseScheduledAt(value: unknown, timeZone: string): ScheduleInput {
+  if (value === null || value === undefined || value === '') {
+    return { scheduledAt: null };
+  }
+
+  if (typeof value !== 'string') {
+    return { scheduledAt: null, error: 'Scheduled time must be a date and time' };
+  }
+
+  const scheduledAt = zonedTimeToUtc(value, timeZone) || new Date(value);
+  if (isNaN(scheduledAt.getTime())) {
+    return { scheduledAt: null, error: 'Scheduled time must be a date and time' };
+  }
+
+  if (scheduledAt.getTime() <= Date.now()) {
+    return { scheduledAt: null, error: 'Scheduled time must be in the future' };
+  }
+
+  return { scheduledAt };
+}
+
+/**
+ * Queue an SMS campaign's send job to run at the scheduled time, or move the
+ * one already queued. The job worker starts it when it is due; only one
+ * worker can claim it, so running several never sends a campaign twice.
+ */
+export function scheduleSMSCampaignSend(
+  campaignId: string,
+  storeId: string,
+  scheduledAt: Date,
+  tx: Prisma.TransactionClient
+): Promise<Job> {
+  return enqueueJob('sms-campaign.send', { campaignId }, {
+    storeId,
+    key: getSMSCampaignJobKey(campaignId),
+    runAt: scheduledAt,
+    replaceQueued: true
+  }, tx);
+}
+
+/**
+ * Queue a WhatsApp campaign's send job to run at the scheduled time, or move
+ * the one already queued
+ */
+export function scheduleWhatsAppCampaignSend(
+  campaignId: string,
+  storeId: string,
+  scheduledAt: Date,
+  tx: Prisma.TransactionClient
+): Promise<Job> {
+  return enqueueJob('whatsapp-campaign.send', { campaignId }, {
+    storeId,
+    key: getWhatsAppCampaignJobKey(campaignId),
+    runAt: scheduledAt,
+    replaceQueued: true
+  }, tx);
+}
+
+/**
+ * Withdraw a campaign's queued send job
+ * @param jobKey From getSMSCampaignJobKey or getWhatsAppCampaignJobKey
+ */
+export function unscheduleCampaignSend(jobKey: string, tx: Prisma.TransactionClient): Promise<boolean> {
+  return cancelJob(jobKey, tx);
+}
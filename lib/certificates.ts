@@ -0,0 +1,315 @@
+import * as acme from 'acme-client';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AcmeChallengeType, CustomDomain, DomainCertificate, PrismaClient } from '@prisma/client';
+import { generateNginxConfig, getCertificatePaths } from './nginxConfig';
+import { decrypt, encrypt } from './storeCredentials';
+
+const prisma = new PrismaClient();
+
+// Certificates are renewed this long before they expire
+const RENEW_BEFORE_DAYS = 30;
+// An ISSUING row older than this belongs to a run that died
+const STALE_ISSUING_MINUTES = 15;
+// Wait after a failed attempt, doubling per failure up to a day
+const RETRY_BASE_MINUTES = 30;
+const RETRY_MAX_MINUTES = 24 * 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AcmeChallengeName = 'http-01' | 'dns-01';
+
+export interface CertificateRunResult {
+  domain: string;
+  status: 'ISSUED' | 'FAILED';
+  expiresAt?: Date;
+  error?: string;
+}
+
+/**
+ * ACME directory certificates are ordered from (ACME_DIRECTORY_URL), Let's
+ * Encrypt production unless set; point it at Let's Encrypt staging or a local
+ * Pebble server when testing
+ */
+export function getAcmeDirectoryUrl(): string {
+  return process.env.ACME_DIRECTORY_URL || acme.directory.letsencrypt.production;
+}
+
+/**
+ * Queue a certificate for a domain that was just activated. An existing,
+ * still valid certificate is kept and renewed on schedule.
+ */
+export async function requestCertificate(domainId: string): Promise<DomainCertificate> {
+  return prisma.domainCertificate.upsert({
+    where: { domainId },
+    create: { domainId },
+    update: {}
+  });
+}
+
+/**
+ * Issue pending certificates, retry failed ones whose wait is over and renew
+ * those close to expiry, for active domains only
+ * @param limit Most certificates to order in one run
+ */
+export async function processCertificates(limit: number = 5): Promise<CertificateRunResult[]> {
+  const now = new Date();
+
+  // A certificate that ran out while its domain was inactive no longer serves HTTPS
+  await prisma.customDomain.updateMany({
+    where: { ssl: true, certificate: { expiresAt: { lt: now } } },
+    data: { ssl: false }
+  });
+
+  const retryDue = [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }];
+
+  const due = await prisma.domainCertificate.findMany({
+    where: {
+      domain: { status: 'ACTIVE', isActive: true },
+      OR: [
+        { status: 'PENDING' },
+        { status: 'FAILED', OR: retryDue },
+        { status: 'ISSUED', expiresAt: { lt: new Date(now.getTime() + RENEW_BEFORE_DAYS * DAY_MS) }, OR: retryDue },
+        { status: 'ISSUING', lastAttemptAt: { lt: new Date(now.getTime() - STALE_ISSUING_MINUTES * 60 * 1000) } }
+      ]
+    },
+    include: { domain: true },
+    orderBy: { createdAt: 'asc' },
+    take: limit
+  });
+
+  // HTTP-01 responses left behind by runs that died
+  await prisma.acmeChallenge.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - DAY_MS) } }
+  });
+
+  const results: CertificateRunResult[] = [];
+  for (const certificate of due) {
+    const result = await issueCertificate(certificate, certificate.domain);
+    if (result) {
+      results.push(result);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Order a certificate for the domain, store it and write it out for nginx.
+ * A failure keeps the previous certificate, if any, in service.
+ */
+async function issueCertificate(certificate: DomainCertificate, domain: CustomDomain): Promise<CertificateRunResult | null> {
+  // Claim the row so overlapping runs don't order the same certificate twice
+  const claimed = await prisma.domainCertificate.updateMany({
+    where: { id: certificate.id, status: certificate.status, updatedAt: certificate.updatedAt },
+    data: { status: 'ISSUING', lastAttemptAt: new Date() }
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  let challengeType: AcmeChallengeType | null = null;
+
+  try {
+    const client = await getAcmeClient();
+    const [privateKey, csr] = await acme.crypto.createCsr({ commonName: domain.domain });
+    const privateKeyPem = privateKey.toString();
+    // Before ordering, so a missing encryption key doesn't waste an issued certificate
+    const storedPrivateKey = encrypt(privateKeyPem);
+
+    const pem = await client.auto({
+      csr,
+      email: process.env.ACME_EMAIL,
+      termsOfServiceAgreed: true,
+      challengePriority: [getAcmeChallenge()],
+      // acme-client checks the challenge itself before asking the CA to; that
+      // needs public DNS, so local test setups turn it off
+      skipChallengeVerification: process.env.ACME_SKIP_CHALLENGE_VERIFICATION === 'true',
+      challengeCreateFn: async (authz, challenge, keyAuthorization) => {
+        challengeType = challenge.type === 'dns-01' ? 'DNS_01' : 'HTTP_01';
+        if (challenge.type === 'dns-01') {
+          await createDns01Record(authz.identifier.value, keyAuthorization);
+        } else {
+          await prisma.acmeChallenge.upsert({
+            where: { token: challenge.token },
+            create: { token: challenge.token, keyAuthorization, domain: authz.identifier.value },
+            update: { keyAuthorization }
+          });
+        }
+      },
+      challengeRemoveFn: async (authz, challenge) => {
+        if (challenge.type === 'dns-01') {
+          await removeDns01Record(authz.identifier.value);
+        } else {
+          await prisma.acmeChallenge.deleteMany({ where: { token: challenge.token } });
+        }
+      }
+    });
+
+    const info = acme.crypto.readCertificateInfo(pem);
+
+    await prisma.$transaction([
+      prisma.domainCertificate.update({
+        where: { id: certificate.id },
+        data: {
+          status: 'ISSUED',
+          challengeType,
+          certificate: pem,
+          privateKey: storedPrivateKey,
+          issuedAt: info.notBefore,
+          expiresAt: info.notAfter,
+          failedAttempts: 0,
+          nextAttemptAt: null,
+          errorMessage: null
+        }
+      }),
+      prisma.customDomain.update({
+        where: { id: domain.id },
+        data: { ssl: true }
+      })
+    ]);
+
+    await writeCertificateFiles(domain.domain, pem, privateKeyPem);
+
+    return { domain: domain.domain, status: 'ISSUED', expiresAt: info.notAfter };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`Certificate issuance failed for ${domain.domain}:`, error);
+
+    const failedAttempts = certificate.failedAttempts + 1;
+    const retryMinutes = Math.min(RETRY_BASE_MINUTES * 2 ** (failedAttempts - 1), RETRY_MAX_MINUTES);
+    const hasValidCertificate = !!certificate.expiresAt && certificate.expiresAt > new Date();
+
+    await prisma.domainCertificate.update({
+      where: { id: certificate.id },
+      data: {
+        // A renewal that fails leaves the current certificate serving
+        status: hasValidCertificate ? 'ISSUED' : 'FAILED',
+        failedAttempts,
+        nextAttemptAt: new Date(Date.now() + retryMinutes * 60 * 1000),
+        errorMessage: message
+      }
+    });
+
+    return { domain: domain.domain, status: 'FAILED', error: message };
+  }
+}
+
+/**
+ * Decrypt a stored private key. Keys saved before they were encrypted are
+ * plain PEM and returned as they are.
+ */
+function readPrivateKey(stored: string): string {
+  return stored.startsWith('-----BEGIN') ? stored : decrypt(stored);
+}
+
+/**
+ * The ACME client for the configured directory. The account key is created
+ * on first use and kept in acme_accounts, so renewals use the same account.
+ */
+async function getAcmeClient(): Promise<acme.Client> {
+  const directoryUrl = getAcmeDirectoryUrl();
+
+  let account = await prisma.acmeAccount.findUnique({ where: { directoryUrl } });
+  if (!account) {
+    const privateKey = await acme.crypto.createPrivateKey();
+    account = await prisma.acmeAccount.upsert({
+      where: { directoryUrl },
+      create: { directoryUrl, email: process.env.ACME_EMAIL, privateKey: encrypt(privateKey.toString()) },
+      update: {}
+    });
+  }
+
+  const client = new acme.Client({
+    directoryUrl,
+    accountKey: readPrivateKey(account.privateKey),
+    accountUrl: account.accountUrl || undefined
+  });
+
+  if (!account.accountUrl) {
+    await client.createAccount({
+      termsOfServiceAgreed: true,
+      contact: process.env.ACME_EMAIL ? [`mailto:${process.env.ACME_EMAIL}`] : undefined
+    });
+    await prisma.acmeAccount.update({
+      where: { id: account.id },
+      data: { accountUrl: client.getAccountUrl() }
+    });
+  }
+
+  return client;
+}
+
+/**
+ * Challenge certificates are validated with (ACME_CHALLENGE). HTTP-01 needs
+ * the domain to reach the app on port 80. DNS-01 needs the domain owner to
+ * delegate _acme-challenge to the platform zone with a CNAME (see
+ * getDns01RecordName) and Cloudflare access to that zone.
+ */
+export function getAcmeChallenge(): AcmeChallengeName {
+  return process.env.ACME_CHALLENGE === 'dns-01' ? 'dns-01' : 'http-01';
+}
+
+/**
+ * Name in the platform zone that _acme-challenge.<domain> is delegated to
+ */
+export function getDns01RecordName(domain: string): string {
+  const platformDomain = process.env.NEXT_PUBLIC_DOMAIN || 'codeopx.com';
+  return `${domain.replace(/\./g, '-')}.acme.${platformDomain}`;
+}
+
+async function cloudflareRequest(method: string, endpoint: string, body?: object) {
+  if (!process.env.CLOUDFLARE_API_TOKEN || !process.env.CLOUDFLARE_ZONE_ID) {
+    throw new Error('DNS-01 challenges need CLOUDFLARE_API_TOKEN and CLOUDFLARE_ZONE_ID');
+  }
+
+  const response = await fetch(`https://api.cloudflare.com/client/v4/zones/${process.env.CLOUDFLARE_ZONE_ID}${endpoint}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${process.env.CLOUDFLARE_API_TOKEN}`,
+      'Content-Type': 'application/json'
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(`Cloudflare API error: ${data.errors?.[0]?.message || 'Unknown error'}`);
+  }
+  return data.result;
+}
+
+async function createDns01Record(domain: string, keyAuthorization: string) {
+  await cloudflareRequest('POST', '/dns_records', {
+    type: 'TXT',
+    name: getDns01RecordName(domain),
+    content: keyAuthorization,
+    ttl: 60
+  });
+}
+
+async function removeDns01Record(domain: string) {
+  const records = await cloudflareRequest('GET', `/dns_records?type=TXT&name=${getDns01RecordName(domain)}`);
+  for (const record of records || []) {
+    await cloudflareRequest('DELETE', `/dns_records/${record.id}`);
+  }
+}
+
+/**
+ * Write the certificate, key and nginx server blocks to disk when
+ * CERTIFICATE_DIR / NGINX_SITES_DIR are set. nginx still has to be reloaded
+ * to pick them up.
+ */
+async function writeCertificateFiles(domain: string, certificate: string, privateKey: string) {
+  if (process.env.CERTIFICATE_DIR) {
+    const paths = getCertificatePaths(domain);
+    await fs.mkdir(path.dirname(paths.certificate), { recursive: true });
+    await fs.writeFile(paths.certificate, certificate);
+    await fs.writeFile(paths.privateKey, privateKey, { mode: 0o600 });
+  }
+
+  if (process.env.NGINX_SITES_DIR) {
+    await fs.mkdir(process.env.NGINX_SITES_DIR, { recursive: true });
+    await fs.writeFile(path.join(process.env.NGINX_SITES_DIR, `${domain}.conf`), generateNginxConfig(domain));
+  }
+}
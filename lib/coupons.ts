@@ -0,0 +1,391 @@
+import { PrismaClient, Prisma, Coupon, CouponType } from '@prisma/client';
+import { getVariantPrice } from './productVariants';
+
+const prisma = new PrismaClient();
+
+export interface CouponLineItem {
+  productId: string;
+  categoryId: string;
+  createdBy: string | null;
+  price: number;
+  quantity: number;
+}
+
+export interface CouponCustomer {
+  userId?: string | null;
+  phone?: string | null;
+  email?: string | null;
+}
+
+export interface CouponEvaluation {
+  valid: boolean;
+  error?: string;
+  coupon?: Coupon;
+  discount: number;
+  shippingDiscount: number;
+  eligibleSubtotal: number;
+}
+
+/**
+ * Raised when a coupon can no longer be redeemed while an order is being placed
+ */
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+const COUPON_TYPES: CouponType[] = ['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING'];
+
+/**
+ * Normalize a coupon code for storage and lookup
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase().replace(/\s+/g, '');
+}
+
+/**
+ * Validate coupon fields submitted from the admin panel
+ * @param body Request body
+ * @param partial Whether missing fields are allowed (updates)
+ * @returns Prisma-ready data and a list of validation errors
+ */
+export function validateCouponInput(
+  body: any,
+  partial: boolean = false
+): { data: Partial<Prisma.CouponUncheckedCreateInput>; errors: string[] } {
+  const errors: string[] = [];
+  const data: Partial<Prisma.CouponUncheckedCreateInput> = {};
+
+  if (body.code !== undefined || !partial) {
+    const code = typeof body.code === 'string' ? normalizeCouponCode(body.code) : '';
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      errors.push('Code must be 3-32 characters (letters, numbers, - or _)');
+    }
+    data.code = code;
+  }
+
+  if (body.type !== undefined || !partial) {
+    if (!COUPON_TYPES.includes(body.type)) {
+      errors.push('Type must be PERCENTAGE, FIXED_AMOUNT or FREE_SHIPPING');
+    }
+    data.type = body.type;
+  }
+
+  if (body.value !== undefined || !partial) {
+    const value = parseFloat(body.value ?? 0);
+    if (isNaN(value) || value < 0) {
+      errors.push('Value must be a positive number');
+    } else if (body.type === 'PERCENTAGE' && value > 100) {
+      errors.push('Percentage value cannot exceed 100');
+    }
+    data.value = isNaN(value) ? 0 : value;
+  }
+
+  const optionalNumbers: Array<'maxDiscount' | 'minOrderValue'> = ['maxDiscount', 'minOrderValue'];
+  for (const field of optionalNumbers) {
+    if (body[field] !== undefined) {
+      const value = body[field] === null || body[field] === '' ? null : parseFloat(body[field]);
+      if (value !== null && (isNaN(value) || value < 0)) {
+        errors.push(`${field} must be a positive number`);
+      }
+      data[field] = value;
+    }
+  }
+
+  const optionalIntegers: Array<'usageLimit' | 'usageLimitPerCustomer'> = ['usageLimit', 'usageLimitPerCustomer'];
+  for (const field of optionalIntegers) {
+    if (body[field] !== undefined) {
+      const value = body[field] === null || body[field] === '' ? null : parseInt(body[field]);
+      if (value !== null && (isNaN(value) || value < 1)) {
+        errors.push(`${field} must be at least 1`);
+      }
+      data[field] = value;
+    }
+  }
+
+  const optionalDates: Array<'startsAt' | 'expiresAt'> = ['startsAt', 'expiresAt'];
+  for (const field of optionalDates) {
+    if (body[field] !== undefined) {
+      const value = body[field] ? new Date(body[field]) : null;
+      if (value && isNaN(value.getTime())) {
+        errors.push(`${field} must be a valid date`);
+      }
+      data[field] = value;
+    }
+  }
+
+  if (data.startsAt && data.expiresAt && data.startsAt >= data.expiresAt) {
+    errors.push('Expiry date must be after the start date');
+  }
+
+  if (body.productIds !== undefined) {
+    data.productIds = Array.isArray(body.productIds) ? body.productIds.map(String) : [];
+  }
+
+  if (body.categoryIds !== undefined) {
+    data.categoryIds = Array.isArray(body.categoryIds) ? body.categoryIds.map(String) : [];
+  }
+
+  if (body.description !== undefined) {
+    data.description = body.description || null;
+  }
+
+  if (body.isActive !== undefined) {
+    data.isActive = Boolean(body.isActive);
+  }
+
+  return { data, errors };
+}
+
+/**
+ * Calculate the discount a coupon gives on a set of line items.
+ * Usage limits are not checked here (see evaluateCoupon).
+ */
+export function calculateCouponDiscount(
+  coupon: Coupon,
+  lines: CouponLineItem[],
+  shippingCost: number = 0,
+  now: Date = new Date()
+): CouponEvaluation {
+  const invalid = (error: string): CouponEvaluation => ({
+    valid: false,
+    error,
+    coupon,
+    discount: 0,
+    shippingDiscount: 0,
+    eligibleSubtotal: 0
+  });
+
+  if (!coupon.isActive) {
+    return invalid('This coupon is no longer active');
+  }
+
+  if (coupon.startsAt && coupon.startsAt > now) {
+    return invalid('This coupon is not valid yet');
+  }
+
+  if (coupon.expiresAt && coupon.expiresAt <= now) {
+    return invalid('This coupon has expired');
+  }
+
+  const hasRestrictions = coupon.productIds.length > 0 || coupon.categoryIds.length > 0;
+
+  const eligibleLines = lines.filter(line => {
+    // Coupons only ever apply to products of the store that issued them
+    if (line.createdBy !== coupon.createdBy) {
+      return false;
+    }
+    if (!hasRestrictions) {
+      return true;
+    }
+    return coupon.productIds.includes(line.productId) || coupon.categoryIds.includes(line.categoryId);
+  });
+
+  const eligibleSubtotal = roundCurrency(
+    eligibleLines.reduce((sum, line) => sum + line.price * line.quantity, 0)
+  );
+
+  if (eligibleSubtotal <= 0) {
+    return invalid('This coupon does not apply to any items in your cart');
+  }
+
+  if (coupon.minOrderValue && eligibleSubtotal < coupon.minOrderValue) {
+    return invalid(`A minimum order of ৳${coupon.minOrderValue.toFixed(2)} is required for this coupon`);
+  }
+
+  let discount = 0;
+  let shippingDiscount = 0;
+
+  switch (coupon.type) {
+    case 'PERCENTAGE':
+      discount = eligibleSubtotal * (coupon.value / 100);
+      if (coupon.maxDiscount !== null) {
+        discount = Math.min(discount, coupon.maxDiscount);
+      }
+      break;
+    case 'FIXED_AMOUNT':
+      discount = Math.min(coupon.value, eligibleSubtotal);
+      break;
+    case 'FREE_SHIPPING':
+      shippingDiscount = shippingCost;
+      break;
+  }
+
+  return {
+    valid: true,
+    coupon,
+    discount: roundCurrency(discount),
+    shippingDiscount: roundCurrency(shippingDiscount),
+    eligibleSubtotal
+  };
+}
+
+/**
+ * Count how many times a customer has redeemed a coupon, matching on
+ * account, phone or email so guests cannot bypass per-customer limits
+ */
+export async function countCustomerRedemptions(
+  db: PrismaClient | Prisma.TransactionClient,
+  couponId: string,
+  customer: CouponCustomer
+): Promise<number> {
+  const identities: Prisma.CouponRedemptionWhereInput[] = [];
+
+  if (customer.userId) identities.push({ userId: customer.userId });
+  if (customer.phone) identities.push({ customerPhone: customer.phone });
+  if (customer.email) identities.push({ customerEmail: customer.email });
+
+  if (identities.length === 0) {
+    return 0;
+  }
+
+  return db.couponRedemption.count({
+    where: {
+      couponId,
+      OR: identities
+    }
+  });
+}
+
+/**
+ * Look up a coupon by code and evaluate it for the given cart
+ * @param code Coupon code entered by the customer
+ * @param lines Line items with server-side prices
+ * @param options Store scope, customer identity and shipping cost
+ */
+export async function evaluateCoupon(
+  code: string,
+  lines: CouponLineItem[],
+  options: { adminId?: string | null; customer?: CouponCustomer; shippingCost?: number } = {}
+): Promise<CouponEvaluation> {
+  const invalid = (error: string): CouponEvaluation => ({
+    valid: false,
+    error,
+    discount: 0,
+    shippingDiscount: 0,
+    eligibleSubtotal: 0
+  });
+
+  const normalizedCode = normalizeCouponCode(code || '');
+  if (!normalizedCode) {
+    return invalid('Coupon code is required');
+  }
+
+  // Scope the lookup to the current store, or to the stores whose products are in the cart
+  const storeIds = options.adminId
+    ? [options.adminId]
+    : Array.from(new Set(lines.map(line => line.createdBy).filter((id): id is string => !!id)));
+
+  if (storeIds.length === 0) {
+    return invalid('Invalid coupon code');
+  }
+
+  const coupon = await prisma.coupon.findFirst({
+    where: {
+      code: normalizedCode,
+      createdBy: { in: storeIds }
+    }
+  });
+
+  if (!coupon) {
+    return invalid('Invalid coupon code');
+  }
+
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+    return { ...invalid('This coupon has reached its usage limit'), coupon };
+  }
+
+  if (coupon.usageLimitPerCustomer !== null && options.customer) {
+    const customerUses = await countCustomerRedemptions(prisma, coupon.id, options.customer);
+    if (customerUses >= coupon.usageLimitPerCustomer) {
+      return { ...invalid('You have already used this coupon'), coupon };
+    }
+  }
+
+  return calculateCouponDiscount(coupon, lines, options.shippingCost || 0);
+}
+
+/**
+ * Record a redemption inside the order transaction. The usage counter is
+ * incremented conditionally so concurrent checkouts cannot exceed the limit.
+ * @throws CouponError when the coupon was used up in the meantime
+ */
+export async function redeemCoupon(
+  tx: Prisma.TransactionClient,
+  coupon: Coupon,
+  orderId: string,
+  customer: CouponCustomer,
+  discount: number
+): Promise<void> {
+  const updated = await tx.coupon.updateMany({
+    where: {
+      id: coupon.id,
+      OR: [
+        { usageLimit: null },
+        { usedCount: { lt: prisma.coupon.fields.usageLimit } }
+      ]
+    },
+    data: {
+      usedCount: { increment: 1 }
+    }
+  });
+
+  if (updated.count === 0) {
+    throw new CouponError('This coupon has reached its usage limit');
+  }
+
+  if (coupon.usageLimitPerCustomer !== null) {
+    const customerUses = await countCustomerRedemptions(tx, coupon.id, customer);
+    if (customerUses >= coupon.usageLimitPerCustomer) {
+      throw new CouponError('You have already used this coupon');
+    }
+  }
+
+  await tx.couponRedemption.create({
+    data: {
+      couponId: coupon.id,
+      orderId,
+      userId: customer.userId || null,
+      customerPhone: customer.phone || null,
+      customerEmail: customer.email || null,
+      discount
+    }
+  });
+}
+
+/**
+ * Build coupon line items from product/variant IDs using database prices
+ */
+export async function loadCouponLineItems(
+  items: Array<{ productId: string; variantId?: string | null; quantity: number }>
+): Promise<CouponLineItem[]> {
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map(item => item.productId) } },
+    include: { variants: true }
+  });
+
+  return items.flatMap(item => {
+    const product = products.find(p => p.id === item.productId);
+    if (!product) {
+      return [];
+    }
+
+    const variant = item.variantId
+      ? product.variants.find(v => v.id === item.variantId) || null
+      : null;
+
+    return [{
+      productId: product.id,
+      categoryId: product.categoryId,
+      createdBy: product.createdBy,
+      price: getVariantPrice(product, variant),
+      quantity: Number(item.quantity) || 0
+    }];
+  });
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,154 @@
+import { PrismaClient, Order } from '@prisma/client';
+import { getOrderCustomer, getOrderPaymentProvider } from '../payments';
+import { getParcelWeight } from '../shipping';
+import { createMockCourier } from './mock';
+import { pathaoCourier } from './pathao';
+import { redxCourier } from './redx';
+import { steadfastCourier } from './steadfast';
+import { Courier, CourierError, CourierId, CourierParcel } from './types';
+
+export * from './types';
+
+const prisma = new PrismaClient();
+
+const REAL_COURIERS: Record<CourierId, Courier> = {
+  pathao: pathaoCourier,
+  steadfast: steadfastCourier,
+  redx: redxCourier
+};
+
+const MOCK_COURIERS: Record<CourierId, Courier> = {
+  pathao: createMockCourier(pathaoCourier),
+  steadfast: createMockCourier(steadfastCourier),
+  redx: createMockCourier(redxCourier)
+};
+
+// Orders are handed to a courier once confirmed; SHIPPED covers orders
+// marked as shipped before a consignment was booked
+const BOOKABLE_STATUSES = ['CONFIRMED', 'SHIPPED'];
+
+/**
+ * Couriers in use: stand-ins when COURIER_MOCK=true, the real APIs otherwise
+ */
+export function getCouriers(): Record<CourierId, Courier> {
+  return process.env.COURIER_MOCK === 'true' ? MOCK_COURIERS : REAL_COURIERS;
+}
+
+export function getCourier(id: string | null | undefined): Courier | null {
+  const couriers = getCouriers();
+  return id && id in couriers ? couriers[id as CourierId] : null;
+}
+
+/**
+ * Couriers an admin can book with, for the order page
+ */
+export function listCouriers(): Array<{ id: CourierId; displayName: string; configured: boolean }> {
+  return Object.values(getCouriers()).map(courier => ({
+    id: courier.id,
+    displayName: courier.displayName,
+    configured: courier.isConfigured()
+  }));
+}
+
+/**
+ * Public tracking link for an order's parcel, if the courier has one
+ */
+export function getOrderTrackingUrl(order: Pick<Order, 'courier' | 'trackingNumber'>): string | null {
+  const courier = getCourier(order.courier);
+  return courier && courier.getTrackingUrl && order.trackingNumber
+    ? courier.getTrackingUrl(order.trackingNumber)
+    : null;
+}
+
+/**
+ * Book a consignment for an order and store the courier's tracking number on it
+ * @throws CourierError when the order cannot be shipped or the courier refuses it
+ */
+export async function bookOrderShipment(orderId: string, courierId: string, options: { note?: string } = {}): Promise<Order> {
+  const courier = getCourier(courierId);
+  if (!courier) {
+    throw new CourierError(`Unknown courier ${courierId}`, 400);
+  }
+  if (!courier.isConfigured()) {
+    throw new CourierError(`${courier.displayName} is not configured on this server`, 400);
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      address: true,
+      orderItems: {
+        include: { product: { select: { weight: true } } }
+      }
+    }
+  });
+
+  if (!order) {
+    throw new CourierError('Order not found', 404);
+  }
+  if (order.courierConsignmentId) {
+    throw new CourierError(`Order is already booked with ${order.courier}`, 409);
+  }
+  if (!BOOKABLE_STATUSES.includes(order.status)) {
+    throw new CourierError(`A ${order.status.toLowerCase()} order cannot be shipped`, 400);
+  }
+
+  const customer = getOrderCustomer(order);
+  const paidOnline = getOrderPaymentProvider(order)?.isOnline && order.paymentStatus === 'PAID';
+
+  const parcel: CourierParcel = {
+    invoice: order.id,
+    recipientName: customer.name,
+    recipientPhone: customer.phone,
+    recipientAddress: [customer.address.address, customer.address.city].filter(Boolean).join(', '),
+    district: order.address?.district || order.shippingDistrict,
+    codAmount: paidOnline ? 0 : Math.max(0, order.total - order.refundedAmount),
+    weight: getParcelWeight(order.orderItems.map(item => ({
+      quantity: item.quantity,
+      weight: item.product?.weight ?? null
+    }))),
+    itemQuantity: order.orderItems.reduce((sum, item) => sum + item.quantity, 0),
+    itemDescription: order.orderItems
+      .map(item => `${item.productName}${item.variantLabel ? ` (${item.variantLabel})` : ''} x${item.quantity}`)
+      .join(', ')
+      .slice(0, 250),
+    note: options.note
+  };
+
+  const booking = await courier.bookParcel(parcel);
+
+  return prisma.order.update({
+    where: { id: order.id },
+    data: {
+      courier: courier.id,
+      courierConsignmentId: booking.consignmentId,
+      trackingNumber: booking.trackingNumber,
+      courierStatus: booking.status,
+      courierBookedAt: new Date()
+    }
+  });
+}
+
+/**
+ * Ask the courier where an order's parcel is and store the answer
+ * @throws CourierError when the order has no consignment
+ */
+export async function refreshShipmentStatus(orderId: string): Promise<Order> {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+  if (!order || !order.courierConsignmentId) {
+    throw new CourierError('Order has not been booked with a courier', 404);
+  }
+
+  const courier = getCourier(order.courier);
+  if (!courier) {
+    throw new CourierError(`Unknown courier ${order.courier}`, 400);
+  }
+
+  const tracking = await courier.getStatus(order.courierConsignmentId);
+
+  return prisma.order.update({
+    where: { id: order.id },
+    data: { courierStatus: tracking.status }
+  });
+}
@@ -0,0 +1,54 @@
+import { Courier, CourierBooking, CourierError, CourierParcel, CourierTracking } from './types';
+
+// How long a mock parcel spends in each state before moving on
+const MOCK_STATUS_TIMELINE: Array<{ afterMs: number; status: string }> = [
+  { afterMs: 0, status: 'pending' },
+  { afterMs: 60 * 1000, status: 'picked_up' },
+  { afterMs: 5 * 60 * 1000, status: 'in_transit' },
+  { afterMs: 30 * 60 * 1000, status: 'delivered' }
+];
+
+/**
+ * Stand-in for a real courier, used when COURIER_MOCK=true. Nothing leaves
+ * the server: the booking time is encoded in the consignment ID and the
+ * parcel is reported delivered half an hour later.
+ */
+export function createMockCourier(real: Courier): Courier {
+  const prefix = `MOCK-${real.id.toUpperCase()}-`;
+
+  return {
+    id: real.id,
+    displayName: `${real.displayName} (test)`,
+
+    isConfigured() {
+      return true;
+    },
+
+    async bookParcel(parcel: CourierParcel): Promise<CourierBooking> {
+      if (!parcel.recipientPhone) {
+        throw new CourierError('Recipient phone is required', 400);
+      }
+
+      const consignmentId = `${prefix}${Date.now().toString(36).toUpperCase()}`;
+      return {
+        consignmentId,
+        trackingNumber: consignmentId,
+        status: 'pending',
+        deliveryFee: null,
+        raw: { mock: true, parcel }
+      };
+    },
+
+    async getStatus(consignmentId: string): Promise<CourierTracking> {
+      if (!consignmentId.startsWith(prefix)) {
+        throw new CourierError(`Unknown ${real.displayName} test consignment ${consignmentId}`, 404);
+      }
+
+      const bookedAt = parseInt(consignmentId.slice(prefix.length), 36);
+      const age = Date.now() - bookedAt;
+      const status = MOCK_STATUS_TIMELINE.filter(step => age >= step.afterMs).pop()?.status || 'pending';
+
+      return { status, raw: { mock: true, consignmentId, bookedAt: new Date(bookedAt).toISOString() } };
+    }
+  };
+}
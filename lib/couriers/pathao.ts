@@ -0,0 +1,120 @@
+import { Courier, CourierBooking, CourierError, CourierParcel, CourierTracking } from './types';
+
+const SANDBOX_URL = 'https://courier-api-sandbox.pathao.com';
+const LIVE_URL = 'https://api-hermes.pathao.com';
+
+// Normal delivery, parcel item type
+const DELIVERY_TYPE_NORMAL = 48;
+const ITEM_TYPE_PARCEL = 2;
+
+let cachedToken: { accessToken: string; expiresAt: number } | null = null;
+
+function getBaseUrl(): string {
+  return process.env.PATHAO_IS_LIVE === 'true' ? LIVE_URL : SANDBOX_URL;
+}
+
+async function issueToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.accessToken;
+  }
+
+  const response = await fetch(`${getBaseUrl()}/aladdin/api/v1/issue-token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({
+      client_id: process.env.PATHAO_CLIENT_ID,
+      client_secret: process.env.PATHAO_CLIENT_SECRET,
+      username: process.env.PATHAO_USERNAME,
+      password: process.env.PATHAO_PASSWORD,
+      grant_type: 'password'
+    })
+  });
+
+  const data = await response.json();
+  if (!data.access_token) {
+    throw new CourierError(data.message || 'Could not get a Pathao token', 502, data);
+  }
+
+  // Refresh a minute before the token runs out
+  const expiresIn = Number(data.expires_in) || 3600;
+  cachedToken = { accessToken: data.access_token, expiresAt: Date.now() + (expiresIn - 60) * 1000 };
+  return data.access_token;
+}
+
+async function pathaoRequest(method: 'GET' | 'POST', path: string, body?: Record<string, unknown>): Promise<any> {
+  const accessToken = await issueToken();
+
+  const response = await fetch(`${getBaseUrl()}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      Authorization: `Bearer ${accessToken}`
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new CourierError(data.message || `Pathao request failed with ${response.status}`, 502, data);
+  }
+  return data;
+}
+
+/**
+ * Pathao Courier merchant API. City and zone are left for Pathao to work
+ * out from the address text.
+ */
+export const pathaoCourier: Courier = {
+  id: 'pathao',
+  displayName: 'Pathao',
+
+  isConfigured() {
+    return Boolean(
+      process.env.PATHAO_CLIENT_ID &&
+      process.env.PATHAO_CLIENT_SECRET &&
+      process.env.PATHAO_USERNAME &&
+      process.env.PATHAO_PASSWORD &&
+      process.env.PATHAO_STORE_ID
+    );
+  },
+
+  async bookParcel(parcel: CourierParcel): Promise<CourierBooking> {
+    const data = await pathaoRequest('POST', '/aladdin/api/v1/orders', {
+      store_id: Number(process.env.PATHAO_STORE_ID),
+      merchant_order_id: parcel.invoice,
+      recipient_name: parcel.recipientName,
+      recipient_phone: parcel.recipientPhone,
+      recipient_address: parcel.recipientAddress,
+      delivery_type: DELIVERY_TYPE_NORMAL,
+      item_type: ITEM_TYPE_PARCEL,
+      item_quantity: parcel.itemQuantity,
+      // Pathao's minimum billable weight is half a kilo
+      item_weight: Math.max(0.5, parcel.weight),
+      amount_to_collect: Math.round(parcel.codAmount),
+      item_description: parcel.itemDescription,
+      special_instruction: parcel.note || ''
+    });
+
+    const consignment = data.data || {};
+    if (!consignment.consignment_id) {
+      throw new CourierError(data.message || 'Pathao did not return a consignment', 502, data);
+    }
+
+    return {
+      consignmentId: String(consignment.consignment_id),
+      trackingNumber: String(consignment.consignment_id),
+      status: consignment.order_status || 'Pending',
+      deliveryFee: consignment.delivery_fee ?? null,
+      raw: data
+    };
+  },
+
+  async getStatus(consignmentId: string): Promise<CourierTracking> {
+    const data = await pathaoRequest('GET', `/aladdin/api/v1/orders/${encodeURIComponent(consignmentId)}/info`);
+    return {
+      status: data.data?.order_status || 'Unknown',
+      raw: data
+    };
+  }
+};
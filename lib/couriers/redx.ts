@@ -0,0 +1,93 @@
+import { Courier, CourierBooking, CourierError, CourierParcel, CourierTracking } from './types';
+
+const SANDBOX_URL = 'https://sandbox.redx.com.bd/v1.0.0-beta';
+const LIVE_URL = 'https://openapi.redx.com.bd/v1.0.0-beta';
+
+function getBaseUrl(): string {
+  return process.env.REDX_IS_LIVE === 'true' ? LIVE_URL : SANDBOX_URL;
+}
+
+async function redxRequest(method: 'GET' | 'POST', path: string, body?: Record<string, unknown>): Promise<any> {
+  const response = await fetch(`${getBaseUrl()}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'API-ACCESS-TOKEN': `Bearer ${process.env.REDX_API_TOKEN || ''}`
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new CourierError(data.message || `RedX request failed with ${response.status}`, 502, data);
+  }
+  return data;
+}
+
+/**
+ * RedX needs one of its delivery areas for every parcel; the first area
+ * listed for the district is used.
+ */
+async function findDeliveryArea(district: string | null): Promise<{ id: number; name: string }> {
+  if (!district) {
+    throw new CourierError('RedX needs the delivery district', 400);
+  }
+
+  const data = await redxRequest('GET', `/areas?district_name=${encodeURIComponent(district)}`);
+  const area = Array.isArray(data.areas) ? data.areas[0] : null;
+  if (!area) {
+    throw new CourierError(`RedX does not deliver to ${district}`, 400, data);
+  }
+
+  return { id: area.id, name: area.name };
+}
+
+export const redxCourier: Courier = {
+  id: 'redx',
+  displayName: 'RedX',
+
+  isConfigured() {
+    return Boolean(process.env.REDX_API_TOKEN);
+  },
+
+  async bookParcel(parcel: CourierParcel): Promise<CourierBooking> {
+    const area = await findDeliveryArea(parcel.district);
+
+    const data = await redxRequest('POST', '/parcel', {
+      customer_name: parcel.recipientName,
+      customer_phone: parcel.recipientPhone,
+      customer_address: parcel.recipientAddress,
+      delivery_area: area.name,
+      delivery_area_id: area.id,
+      merchant_invoice_id: parcel.invoice,
+      cash_collection_amount: String(Math.round(parcel.codAmount)),
+      // RedX weighs parcels in grams
+      parcel_weight: Math.max(1, Math.round(parcel.weight * 1000)),
+      value: String(Math.round(parcel.codAmount)),
+      instruction: parcel.note || ''
+    });
+
+    if (!data.tracking_id) {
+      throw new CourierError(data.message || 'RedX did not return a tracking ID', 502, data);
+    }
+
+    return {
+      consignmentId: data.tracking_id,
+      trackingNumber: data.tracking_id,
+      status: 'pickup-pending',
+      raw: data
+    };
+  },
+
+  async getStatus(consignmentId: string): Promise<CourierTracking> {
+    const data = await redxRequest('GET', `/parcel/info/${encodeURIComponent(consignmentId)}`);
+    return {
+      status: data.parcel?.status || 'unknown',
+      raw: data
+    };
+  },
+
+  getTrackingUrl(trackingNumber: string) {
+    return `https://redx.com.bd/track-global-parcel/?trackingId=${encodeURIComponent(trackingNumber)}`;
+  }
+};
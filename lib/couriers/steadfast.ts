@@ -0,0 +1,71 @@
+import { Courier, CourierBooking, CourierError, CourierParcel, CourierTracking } from './types';
+
+const BASE_URL = 'https://portal.packzy.com/api/v1';
+
+async function steadfastRequest(method: 'GET' | 'POST', path: string, body?: Record<string, unknown>): Promise<any> {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Api-Key': process.env.STEADFAST_API_KEY || '',
+      'Secret-Key': process.env.STEADFAST_SECRET_KEY || ''
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+
+  const data = await response.json();
+  if (!response.ok || (data.status && data.status !== 200)) {
+    throw new CourierError(data.message || `Steadfast request failed with ${response.status}`, 502, data);
+  }
+  return data;
+}
+
+/**
+ * Steadfast Courier. Steadfast has no test environment, so use the mock
+ * courier (COURIER_MOCK=true) outside production.
+ */
+export const steadfastCourier: Courier = {
+  id: 'steadfast',
+  displayName: 'Steadfast',
+
+  isConfigured() {
+    return Boolean(process.env.STEADFAST_API_KEY && process.env.STEADFAST_SECRET_KEY);
+  },
+
+  async bookParcel(parcel: CourierParcel): Promise<CourierBooking> {
+    const data = await steadfastRequest('POST', '/create_order', {
+      invoice: parcel.invoice,
+      recipient_name: parcel.recipientName,
+      recipient_phone: parcel.recipientPhone,
+      recipient_address: parcel.district
+        ? `${parcel.recipientAddress}, ${parcel.district}`
+        : parcel.recipientAddress,
+      cod_amount: Math.round(parcel.codAmount),
+      note: parcel.note || ''
+    });
+
+    const consignment = data.consignment;
+    if (!consignment?.consignment_id) {
+      throw new CourierError(data.message || 'Steadfast did not return a consignment', 502, data);
+    }
+
+    return {
+      consignmentId: String(consignment.consignment_id),
+      trackingNumber: consignment.tracking_code,
+      status: consignment.status || 'in_review',
+      raw: data
+    };
+  },
+
+  async getStatus(consignmentId: string): Promise<CourierTracking> {
+    const data = await steadfastRequest('GET', `/status_by_cid/${encodeURIComponent(consignmentId)}`);
+    return {
+      status: data.delivery_status || 'unknown',
+      raw: data
+    };
+  },
+
+  getTrackingUrl(trackingNumber: string) {
+    return `https://steadfast.com.bd/t/${encodeURIComponent(trackingNumber)}`;
+  }
+};
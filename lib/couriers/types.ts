@@ -0,0 +1,58 @@
+export type CourierId = 'pathao' | 'steadfast' | 'redx';
+
+/**
+ * A parcel handed to a courier, built from the order
+ */
+export interface CourierParcel {
+  // Our order ID, sent as the merchant invoice / order reference
+  invoice: string;
+  recipientName: string;
+  recipientPhone: string;
+  recipientAddress: string;
+  district: string | null;
+  // Cash the rider collects on delivery; 0 for prepaid orders
+  codAmount: number;
+  // Total weight in kg
+  weight: number;
+  itemQuantity: number;
+  itemDescription: string;
+  note?: string;
+}
+
+export interface CourierBooking {
+  consignmentId: string;
+  trackingNumber: string;
+  status: string;
+  deliveryFee?: number | null;
+  raw: any;
+}
+
+export interface CourierTracking {
+  status: string;
+  raw: any;
+}
+
+export interface Courier {
+  id: CourierId;
+  displayName: string;
+  isConfigured(): boolean;
+  bookParcel(parcel: CourierParcel): Promise<CourierBooking>;
+  getStatus(consignmentId: string): Promise<CourierTracking>;
+  /** Public page where the customer can follow the parcel */
+  getTrackingUrl?(trackingNumber: string): string;
+}
+
+/**
+ * Raised when a courier rejects a booking or cannot be reached
+ */
+export class CourierError extends Error {
+  status: number;
+  details?: any;
+
+  constructor(message: string, status: number = 502, details?: any) {
+    super(message);
+    this.name = 'CourierError';
+    this.status = status;
+    this.details = details;
+  }
+}
@@ -0,0 +1,291 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Orders read per query while building the customer list
+const ORDER_BATCH_SIZE = 500;
+// Cart items untouched this long, with no order since, count as abandoned
+export const ABANDONED_CART_HOURS = 24;
+export const SEGMENT_PREVIEW_SIZE = 10;
+
+/**
+ * Who belongs to a segment. Every rule that is set must match; a segment
+ * without rules is every customer with a phone number.
+ */
+export interface SegmentRules {
+  purchasedCategoryIds?: string[]; // Bought something from any of these categories
+  minTotalSpent?: number; // Paid orders, less refunds, add up to at least this
+  minOrders?: number; // Placed at least this many orders that weren't cancelled
+  inactiveDays?: number; // Has ordered, but not in this many days
+  abandonedCart?: boolean; // Left items in their cart without ordering
+}
+
+export interface SegmentPreview {
+  count: number;
+  sample: string[];
+}
+
+interface CustomerActivity {
+  phone: string;
+  orderCount: number;
+  totalSpent: number;
+  lastOrderAt: Date | null;
+  boughtFromCategories: boolean; // Any of the rules' purchasedCategoryIds
+  cartUpdatedAt: Date | null;
+}
+
+/**
+ * One form of a customer's phone number, so the same customer is found once
+ * however the number was typed: digits only, with the 88 country code for
+ * Bangladeshi numbers
+ * @returns The number, or null if it can't be a phone number
+ */
+export function normalizeCustomerPhone(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+
+  if (/^01\d{9}$/.test(digits)) {
+    return `88${digits}`;
+  }
+  if (/^1\d{9}$/.test(digits)) {
+    return `880${digits}`;
+  }
+  return digits.length >= 10 && digits.length <= 15 ? digits : null;
+}
+
+function parseWholeNumber(value: unknown, label: string, min: number, max: number): { value?: number; error?: string } {
+  if (value === undefined || value === null || value === '') {
+    return {};
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    return { error: `${label} must be a whole number between ${min} and ${max}` };
+  }
+  return { value: number };
+}
+
+/**
+ * Check segment rules sent by the admin, dropping the ones left empty
+ */
+export function parseSegmentRules(input: unknown): { rules: SegmentRules; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { rules: {}, error: 'rules must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const rules: SegmentRules = {};
+
+  if (raw.purchasedCategoryIds !== undefined && raw.purchasedCategoryIds !== null) {
+    if (!Array.isArray(raw.purchasedCategoryIds) || raw.purchasedCategoryIds.some(id => typeof id !== 'string')) {
+      return { rules, error: 'purchasedCategoryIds must be a list of category IDs' };
+    }
+    if (raw.purchasedCategoryIds.length > 0) {
+      rules.purchasedCategoryIds = Array.from(new Set(raw.purchasedCategoryIds as string[]));
+    }
+  }
+
+  if (raw.minTotalSpent !== undefined && raw.minTotalSpent !== null && raw.minTotalSpent !== '') {
+    const minTotalSpent = Number(raw.minTotalSpent);
+    if (!Number.isFinite(minTotalSpent) || minTotalSpent < 0) {
+      return { rules, error: 'Minimum spent must be a positive amount' };
+    }
+    rules.minTotalSpent = minTotalSpent;
+  }
+
+  const minOrders = parseWholeNumber(raw.minOrders, 'Minimum orders', 1, 10000);
+  if (minOrders.error) {
+    return { rules, error: minOrders.error };
+  }
+  if (minOrders.value !== undefined) {
+    rules.minOrders = minOrders.value;
+  }
+
+  const inactiveDays = parseWholeNumber(raw.inactiveDays, 'Inactive days', 1, 3650);
+  if (inactiveDays.error) {
+    return { rules, error: inactiveDays.error };
+  }
+  if (inactiveDays.value !== undefined) {
+    rules.inactiveDays = inactiveDays.value;
+  }
+
+  if (raw.abandonedCart === true) {
+    rules.abandonedCart = true;
+  }
+
+  return { rules };
+}
+
+function getActivity(customers: Map<string, CustomerActivity>, phone: string | null | undefined) {
+  const normalized = normalizeCustomerPhone(phone);
+  if (!normalized) {
+    return null;
+  }
+
+  let activity = customers.get(normalized);
+  if (!activity) {
+    activity = {
+      phone: normalized,
+      orderCount: 0,
+      totalSpent: 0,
+      lastOrderAt: null,
+      boughtFromCategories: false,
+      cartUpdatedAt: null
+    };
+    customers.set(normalized, activity);
+  }
+  return activity;
+}
+
+/**
+ * Everyone who has ordered from, signed up with or left a cart at the store,
+ * by phone number, with what they have done there. Orders are read in
+ * batches so large stores don't load every order at once.
+ */
+async function getCustomerActivity(storeId: string, rules: SegmentRules): Promise<Map<string, CustomerActivity>> {
+  const customers = new Map<string, CustomerActivity>();
+  let cursor: string | undefined;
+
+  while (true) {
+    const orders = await prisma.order.findMany({
+      where: { storeId },
+      orderBy: { id: 'asc' },
+      take: ORDER_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      select: {
+        id: true,
+        status: true,
+        total: true,
+        refundedAmount: true,
+        paidAt: true,
+        createdAt: true,
+        customerPhone: true,
+        user: { select: { phone: true } }
+      }
+    });
+
+    for (const order of orders) {
+      const activity = getActivity(customers, order.customerPhone || order.user?.phone);
+      if (!activity || order.status === 'CANCELLED') {
+        continue;
+      }
+
+      activity.orderCount++;
+      if (order.paidAt) {
+        activity.totalSpent += order.total - order.refundedAmount;
+      }
+      if (!activity.lastOrderAt || order.createdAt > activity.lastOrderAt) {
+        activity.lastOrderAt = order.createdAt;
+      }
+    }
+
+    if (orders.length < ORDER_BATCH_SIZE) {
+      break;
+    }
+    cursor = orders[orders.length - 1].id;
+  }
+
+  if (rules.purchasedCategoryIds) {
+    const items = await prisma.orderItem.findMany({
+      where: {
+        order: { storeId, status: { not: 'CANCELLED' } },
+        product: { categoryId: { in: rules.purchasedCategoryIds } }
+      },
+      distinct: ['orderId'],
+      select: { order: { select: { customerPhone: true, user: { select: { phone: true } } } } }
+    });
+    for (const item of items) {
+      const activity = getActivity(customers, item.order.customerPhone || item.order.user?.phone);
+      if (activity) {
+        activity.boughtFromCategories = true;
+      }
+    }
+  }
+
+  // Customers who signed up but haven't ordered yet
+  const registered = await prisma.user.findMany({
+    where: { storeId, phone: { not: null } },
+    select: { phone: true }
+  });
+  for (const user of registered) {
+    getActivity(customers, user.phone);
+  }
+
+  if (rules.abandonedCart) {
+    const cartItems = await prisma.cartItem.findMany({
+      where: { storeId },
+      select: { updatedAt: true, user: { select: { phone: true } } }
+    });
+    for (const item of cartItems) {
+      const activity = getActivity(customers, item.user.phone);
+      if (activity && (!activity.cartUpdatedAt || item.updatedAt > activity.cartUpdatedAt)) {
+        activity.cartUpdatedAt = item.updatedAt;
+      }
+    }
+  }
+
+  return customers;
+}
+
+function matchesRules(activity: CustomerActivity, rules: SegmentRules, now: Date): boolean {
+  if (rules.purchasedCategoryIds && !activity.boughtFromCategories) {
+    return false;
+  }
+  if (rules.minTotalSpent !== undefined && activity.totalSpent < rules.minTotalSpent) {
+    return false;
+  }
+  if (rules.minOrders !== undefined && activity.orderCount < rules.minOrders) {
+    return false;
+  }
+  if (rules.inactiveDays !== undefined) {
+    const activeSince = new Date(now.getTime() - rules.inactiveDays * 24 * 60 * 60 * 1000);
+    if (!activity.lastOrderAt || activity.lastOrderAt > activeSince) {
+      return false;
+    }
+  }
+  if (rules.abandonedCart) {
+    const abandonedBefore = new Date(now.getTime() - ABANDONED_CART_HOURS * 60 * 60 * 1000);
+    if (!activity.cartUpdatedAt || activity.cartUpdatedAt > abandonedBefore) {
+      return false;
+    }
+    // They came back and ordered after leaving the cart
+    if (activity.lastOrderAt && activity.lastOrderAt > activity.cartUpdatedAt) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * The phone numbers of the store's customers that match the rules right now,
+ * each once
+ */
+export async function resolveSegment(storeId: string, rules: SegmentRules): Promise<string[]> {
+  const customers = await getCustomerActivity(storeId, rules);
+  const now = new Date();
+
+  return Array.from(customers.values())
+    .filter(activity => matchesRules(activity, rules, now))
+    .map(activity => activity.phone)
+    .sort();
+}
+
+/**
+ * How many customers a segment has now and a few of their numbers
+ */
+export async function previewSegment(storeId: string, rules: SegmentRules): Promise<SegmentPreview> {
+  const recipients = await resolveSegment(storeId, rules);
+  return { count: recipients.length, sample: recipients.slice(0, SEGMENT_PREVIEW_SIZE) };
+}
+
+/**
+ * The recipients of a saved segment, or null if the store has no such segment
+ */
+export async function getSegmentRecipients(storeId: string, segmentId: string): Promise<string[] | null> {
+  const segment = await prisma.customerSegment.findFirst({ where: { id: segmentId, storeId } });
+  if (!segment) {
+    return null;
+  }
+
+  const { rules } = parseSegmentRules(segment.rules);
+  return resolveSegment(storeId, rules);
+}
@@ -1,9 +1,19 @@
 import dns from 'dns';
 import crypto from 'crypto';
-import { promisify } from 'util';
 
-const resolveTxt = promisify(dns.resolveTxt);
-const resolveCname = promisify(dns.resolveCname);
+// Lookups use the system resolvers unless DNS_RESOLVER_SERVERS lists others,
+// comma-separated (e.g. "127.0.0.1:5354" for a local test DNS server)
+const resolver = new dns.promises.Resolver();
+if (process.env.DNS_RESOLVER_SERVERS) {
+  resolver.setServers(process.env.DNS_RESOLVER_SERVERS.split(',').map(server => server.trim()));
+}
+
+const resolveTxt = (hostname: string) => resolver.resolveTxt(hostname);
+const resolveCname = (hostname: string) => resolver.resolveCname(hostname);
+
+// Resolver answers meaning the record does not exist, as opposed to the
+// lookup itself failing (timeouts, SERVFAIL, no reachable server)
+const MISSING_RECORD_CODES: string[] = [dns.NODATA, dns.NOTFOUND];
 
 export interface DNSRecord {
   type: 'TXT' | 'CNAME' | 'A';
@@ -14,6 +24,21 @@ export interface DNSRecord {
 
 export interface DomainVerificationResult {
   verified: boolean;
+  txtVerified?: boolean;
+  cnameVerified?: boolean;
+  records: DNSRecord[];
+  errors: string[];
+}
+
+/**
+ * Outcome of checking one record: VALID when it matches, MISSING when it is
+ * absent or has another value, ERROR when DNS could not answer
+ */
+export type RecordCheck = 'VALID' | 'MISSING' | 'ERROR';
+
+export interface DomainRecordCheck {
+  txt: RecordCheck;
+  cname: RecordCheck;
   records: DNSRecord[];
   errors: string[];
 }
@@ -135,6 +160,8 @@ export async function verifyDomain(
     
     return {
       verified: txtVerified && cnameVerified,
+      txtVerified,
+      cnameVerified,
       records,
       errors
     };
@@ -150,6 +177,56 @@ export async function verifyDomain(
   }
 }
 
+function lookupFailure(error: unknown): RecordCheck {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  return code && MISSING_RECORD_CODES.includes(code) ? 'MISSING' : 'ERROR';
+}
+
+/**
+ * Check the TXT and CNAME records of a domain that has been verified before,
+ * telling records that disappeared apart from lookups that failed, so a DNS
+ * outage is never mistaken for a removed record
+ */
+export async function checkDomainRecords(
+  domain: string,
+  token: string,
+  targetDomain: string
+): Promise<DomainRecordCheck> {
+  const errors: string[] = [];
+  const records: DNSRecord[] = [];
+  let txt: RecordCheck;
+  let cname: RecordCheck;
+
+  try {
+    const txtRecords = (await resolveTxt(`_ecommerce-verify.${domain}`)).map(record => record.join(''));
+    records.push({ type: 'TXT', name: `_ecommerce-verify.${domain}`, value: txtRecords.join(', ') });
+    txt = txtRecords.includes(`ecommerce-verification=${token}`) ? 'VALID' : 'MISSING';
+  } catch (error) {
+    txt = lookupFailure(error);
+  }
+
+  try {
+    const cnameRecords = await resolveCname(domain);
+    records.push({ type: 'CNAME', name: domain, value: cnameRecords.join(', ') });
+    cname = cnameRecords.some(record => record === targetDomain || record === `${targetDomain}.`) ? 'VALID' : 'MISSING';
+  } catch (error) {
+    cname = lookupFailure(error);
+  }
+
+  if (txt === 'MISSING') {
+    errors.push('TXT verification record is missing or has changed.');
+  } else if (txt === 'ERROR') {
+    errors.push('TXT record could not be looked up.');
+  }
+  if (cname === 'MISSING') {
+    errors.push(`CNAME record no longer points to ${targetDomain}.`);
+  } else if (cname === 'ERROR') {
+    errors.push('CNAME record could not be looked up.');
+  }
+
+  return { txt, cname, records, errors };
+}
+
 /**
  * Check if domain is valid format
  */
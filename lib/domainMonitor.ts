@@ -0,0 +1,272 @@
+import { CustomDomain, DomainStatus, Prisma, PrismaClient } from '@prisma/client';
+import { checkDomainRecords, DNSRecord, DomainVerificationResult, verifyDomain } from './dnsVerification';
+import { getPlatformSMSConfig, sendSMSBangladesh } from './sms-bangladesh';
+import type { JobContext, JobRunResult } from './jobs';
+
+const prisma = new PrismaClient();
+
+// Domains that have passed verification and are re-checked on a schedule
+const MONITORED_STATUSES: DomainStatus[] = ['VERIFIED', 'ACTIVE'];
+// An admin-run verification checks this often before giving up, as new
+// records can take a while to show up
+const VERIFY_CHECKS = 5;
+const VERIFY_CHECK_INTERVAL_MS = 10000;
+// Re-checks in a row that must find the records missing before a domain is
+// taken out of service, so one bad lookup doesn't take a storefront offline
+const FAILED_CHECKS_BEFORE_DEACTIVATION = 3;
+
+export interface DomainVerificationJobPayload {
+  domainId: string;
+  // Status before the admin asked for verification, for the history
+  previousStatus: DomainStatus;
+}
+
+export interface DomainRecheckJobPayload {
+  domainId: string;
+}
+
+export interface DomainRecheckResult {
+  domainId: string;
+  domain: string;
+  result: 'PASSED' | 'FAILED' | 'ERROR';
+  previousStatus: DomainStatus;
+  status: DomainStatus;
+}
+
+/**
+ * The CNAME target the store was told to use when the domain was added,
+ * falling back to the platform domain for older rows
+ */
+function getCnameTarget(domain: CustomDomain): string {
+  const records = Array.isArray(domain.dnsRecords) ? (domain.dnsRecords as unknown as DNSRecord[]) : [];
+  const cname = records.find(record => record?.type === 'CNAME' && record.name === domain.domain);
+  return cname?.value || process.env.NEXT_PUBLIC_DOMAIN || 'codeopx.com';
+}
+
+/**
+ * Re-check the DNS records of a verified or active domain. A domain whose
+ * records are missing on several checks in a row is taken out of service
+ * (ACTIVE → INACTIVE, VERIFIED → FAILED) and its owner is told; a lookup
+ * that could not reach DNS is recorded but changes nothing.
+ */
+export async function recheckDomain(domain: CustomDomain): Promise<DomainRecheckResult> {
+  const check = await checkDomainRecords(domain.domain, domain.verificationToken, getCnameTarget(domain));
+  const now = new Date();
+
+  let result: DomainRecheckResult['result'];
+  if (check.txt === 'VALID' && check.cname === 'VALID') {
+    result = 'PASSED';
+  } else if (check.txt === 'ERROR' || check.cname === 'ERROR') {
+    result = 'ERROR';
+  } else {
+    result = 'FAILED';
+  }
+
+  let status = domain.status;
+  let changed = false;
+
+  if (result === 'FAILED') {
+    const failedChecks = domain.failedChecks + 1;
+    const deactivate = failedChecks >= FAILED_CHECKS_BEFORE_DEACTIVATION;
+    if (deactivate) {
+      status = domain.status === 'ACTIVE' ? 'INACTIVE' : 'FAILED';
+    }
+
+    // Only touch the domain if nobody changed it while DNS was being queried
+    const updated = await prisma.customDomain.updateMany({
+      where: { id: domain.id, status: domain.status, failedChecks: domain.failedChecks },
+      data: {
+        ...(deactivate && { status, isActive: false }),
+        failedChecks,
+        lastVerified: now,
+        errorMessage: check.errors.join(' ')
+      }
+    });
+    changed = deactivate && updated.count === 1;
+    if (updated.count === 0) {
+      status = (await prisma.customDomain.findUniqueOrThrow({ where: { id: domain.id } })).status;
+    }
+  } else {
+    await prisma.customDomain.update({
+      where: { id: domain.id },
+      data: result === 'PASSED'
+        ? { lastVerified: now, errorMessage: null, failedChecks: 0 }
+        : { lastVerified: now }
+    });
+  }
+
+  const verification = await prisma.domainVerification.create({
+    data: {
+      domainId: domain.id,
+      trigger: 'SCHEDULED',
+      result,
+      txtValid: check.txt === 'VALID',
+      cnameValid: check.cname === 'VALID',
+      previousStatus: domain.status,
+      status,
+      errorMessage: check.errors.length > 0 ? check.errors.join(' ') : null,
+      records: check.records as unknown as Prisma.InputJsonValue
+    }
+  });
+
+  if (changed) {
+    try {
+      const notified = await notifyDomainOwner(domain, status, check.errors);
+      if (notified) {
+        await prisma.domainVerification.update({
+          where: { id: verification.id },
+          data: { notifiedAt: new Date() }
+        });
+      }
+    } catch (error) {
+      console.error(`Failed to notify the owner of ${domain.domain}:`, error);
+    }
+  }
+
+  return {
+    domainId: domain.id,
+    domain: domain.domain,
+    result,
+    previousStatus: domain.status,
+    status
+  };
+}
+
+/**
+ * Verified and active domains that were checked longest ago, for the
+ * scheduled re-check
+ * @param limit Most domains to return
+ */
+export async function getDomainsDueForRecheck(limit: number = 50): Promise<CustomDomain[]> {
+  return prisma.customDomain.findMany({
+    where: { status: { in: MONITORED_STATUSES } },
+    orderBy: { lastVerified: { sort: 'asc', nulls: 'first' } },
+    take: limit
+  });
+}
+
+/**
+ * Job run for each domain the re-verification cron queues
+ */
+export async function runDomainRecheckJob(payload: DomainRecheckJobPayload): Promise<JobRunResult> {
+  const domain = await prisma.customDomain.findUnique({ where: { id: payload.domainId } });
+  if (!domain || !MONITORED_STATUSES.includes(domain.status)) {
+    return { result: { skipped: 'The domain is no longer monitored' } };
+  }
+
+  const recheck = await recheckDomain(domain);
+  return {
+    result: {
+      result: recheck.result,
+      previousStatus: recheck.previousStatus,
+      status: recheck.status
+    }
+  };
+}
+
+/**
+ * Job queued when an admin verifies a domain. A domain whose records aren't
+ * found yet is checked again a few times before it is marked FAILED.
+ */
+export async function runDomainVerificationJob(payload: DomainVerificationJobPayload, context: JobContext): Promise<JobRunResult> {
+  const domain = await prisma.customDomain.findUnique({ where: { id: payload.domainId } });
+  if (!domain || domain.status !== 'VERIFYING') {
+    return { result: { skipped: 'The domain is no longer being verified' } };
+  }
+
+  const progress = context.job.progress as { checks?: number } | null;
+  const checks = (progress?.checks || 0) + 1;
+
+  const verificationResult = await verifyDomain(domain.domain, domain.verificationToken, getCnameTarget(domain));
+
+  if (!verificationResult.verified && checks < VERIFY_CHECKS) {
+    await context.saveProgress({ checks });
+    return { continueAt: new Date(Date.now() + VERIFY_CHECK_INTERVAL_MS) };
+  }
+
+  const now = new Date();
+  const updatedDomain = await prisma.customDomain.update({
+    where: { id: domain.id },
+    data: verificationResult.verified
+      ? { status: 'VERIFIED', verifiedAt: now, lastVerified: now, errorMessage: null, failedChecks: 0 }
+      : { status: 'FAILED', lastVerified: now, errorMessage: verificationResult.errors.join(', ') }
+  });
+
+  await recordManualVerification(domain.id, payload.previousStatus, updatedDomain.status, verificationResult);
+
+  return {
+    result: {
+      verified: verificationResult.verified,
+      errors: verificationResult.errors,
+      message: verificationResult.verified
+        ? 'Domain verified successfully! You can now activate it.'
+        : 'Domain verification failed. Please check your DNS settings.'
+    }
+  };
+}
+
+/**
+ * The verification job ran out of attempts
+ */
+export async function failDomainVerification(payload: DomainVerificationJobPayload, error: string) {
+  await prisma.customDomain.updateMany({
+    where: { id: payload.domainId, status: 'VERIFYING' },
+    data: { status: 'FAILED', errorMessage: error }
+  });
+}
+
+/**
+ * Add an admin-run verification to the domain's history
+ */
+export async function recordManualVerification(
+  domainId: string,
+  previousStatus: DomainStatus,
+  status: DomainStatus,
+  verificationResult: DomainVerificationResult
+) {
+  return prisma.domainVerification.create({
+    data: {
+      domainId,
+      trigger: 'MANUAL',
+      result: verificationResult.verified ? 'PASSED' : 'FAILED',
+      txtValid: !!verificationResult.txtVerified,
+      cnameValid: !!verificationResult.cnameVerified,
+      previousStatus,
+      status,
+      errorMessage: verificationResult.errors.length > 0 ? verificationResult.errors.join(', ') : null,
+      records: verificationResult.records as unknown as Prisma.InputJsonValue
+    }
+  });
+}
+
+/**
+ * Text the store's contact phone, or its owner's, that the domain stopped working
+ * @returns Whether a message was sent
+ */
+async function notifyDomainOwner(domain: CustomDomain, status: DomainStatus, errors: string[]): Promise<boolean> {
+  const smsConfig = getPlatformSMSConfig();
+  if (!smsConfig) {
+    return false;
+  }
+
+  const store = await prisma.store.findUnique({
+    where: { id: domain.storeId },
+    include: {
+      members: {
+        where: { role: 'OWNER' },
+        include: { user: { select: { phone: true } } }
+      }
+    }
+  });
+
+  const phone = store?.contactPhone || store?.members[0]?.user.phone;
+  if (!store || !phone) {
+    return false;
+  }
+
+  const outcome = status === 'INACTIVE' ? 'has been taken offline' : 'could not be verified';
+  const message = `${store.name}: your domain ${domain.domain} ${outcome} because its DNS records changed. ${errors.join(' ')} Update your DNS and verify it again from the admin panel.`;
+
+  const response = await sendSMSBangladesh(smsConfig, [phone], message);
+  return response.success;
+}
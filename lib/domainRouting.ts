@@ -0,0 +1,129 @@
+// Host parsing and custom-domain lookup used by the Edge middleware.
+// The Edge runtime cannot load a Prisma client, so nothing here may import one;
+// custom domains are resolved through the host lookup API instead.
+
+export interface CustomDomainStore {
+  // ID of the store the domain points to
+  adminId: string;
+  subdomain: string;
+  customDomain: string;
+}
+
+// How long a lookup result is reused before asking the API again
+const LOOKUP_TTL_MS = 60 * 1000;
+// Upper bound on cached hosts, so random Host headers cannot grow the cache forever
+const MAX_CACHED_HOSTS = 1000;
+
+const lookupCache = new Map<string, { store: CustomDomainStore | null; expiresAt: number }>();
+const pendingLookups = new Map<string, Promise<CustomDomainStore | null>>();
+
+/**
+ * Extracts subdomain from hostname
+ * @param host The hostname from request headers
+ * @returns The subdomain or null if no subdomain
+ */
+export function extractSubdomain(host: string): string | null {
+  // Handle localhost for development
+  if (host.includes('localhost')) {
+    const parts = host.split('.');
+    if (parts.length > 1) {
+      return parts[0];
+    }
+    return null;
+  }
+
+  // Handle production domains
+  const parts = host.split('.');
+  if (parts.length > 2) {
+    return parts[0];
+  }
+
+  return null;
+}
+
+/**
+ * Strip the port and trailing dot from a Host header and lowercase it
+ */
+export function normalizeHost(host: string): string {
+  return host.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '');
+}
+
+/**
+ * Whether the host belongs to the platform itself (the main domain, its store
+ * subdomains, localhost or a bare IP) rather than a store's custom domain
+ */
+export function isPlatformHost(host: string): boolean {
+  const hostname = normalizeHost(host);
+  const platformDomain = (process.env.NEXT_PUBLIC_DOMAIN || 'codeopx.com').toLowerCase();
+
+  return (
+    hostname === 'localhost' ||
+    hostname.endsWith('.localhost') ||
+    /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname) ||
+    hostname === platformDomain ||
+    hostname.endsWith(`.${platformDomain}`)
+  );
+}
+
+/**
+ * Find the store an ACTIVE custom domain points to. Results, including misses,
+ * are cached per Edge instance for a minute, so a domain that is removed or
+ * deactivated stops routing within that time.
+ * @param host The hostname from request headers
+ * @param origin Base URL the host lookup API is reachable on
+ * @returns The store, or null if the host is not an active custom domain
+ */
+export async function resolveCustomDomain(host: string, origin: string): Promise<CustomDomainStore | null> {
+  const hostname = normalizeHost(host);
+
+  const cached = lookupCache.get(hostname);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.store;
+  }
+
+  // Concurrent requests for the same host share one lookup
+  let pending = pendingLookups.get(hostname);
+  if (!pending) {
+    pending = lookupCustomDomain(hostname, origin).finally(() => pendingLookups.delete(hostname));
+    pendingLookups.set(hostname, pending);
+  }
+
+  return pending;
+}
+
+async function lookupCustomDomain(hostname: string, origin: string): Promise<CustomDomainStore | null> {
+  let store: CustomDomainStore | null = null;
+
+  try {
+    const response = await fetch(`${origin}/api/subdomains/host/${encodeURIComponent(hostname)}`, {
+      headers: { 'x-domain-lookup': '1' }
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      if (data.isCustomDomain) {
+        store = {
+          adminId: data.adminId,
+          subdomain: data.subdomain,
+          customDomain: data.customDomain
+        };
+      }
+    } else if (response.status >= 500) {
+      // Don't cache outages; the next request tries again
+      return null;
+    }
+  } catch (error) {
+    console.error('Error resolving custom domain:', error);
+    return null;
+  }
+
+  if (lookupCache.size >= MAX_CACHED_HOSTS) {
+    const oldestHost = lookupCache.keys().next().value;
+    if (oldestHost !== undefined) {
+      lookupCache.delete(oldestHost);
+    }
+  }
+  lookupCache.set(hostname, { store, expiresAt: Date.now() + LOOKUP_TTL_MS });
+
+  return store;
+}
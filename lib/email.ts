@@ -0,0 +1,55 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import type { JobRunResult } from './jobs';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+let transporter: Transporter | null = null;
+
+/**
+ * Email is sent over SMTP (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD,
+ * SMTP_FROM); without SMTP_HOST nothing is sent
+ */
+export function isEmailConfigured(): boolean {
+  return !!process.env.SMTP_HOST;
+}
+
+function getTransporter(): Transporter {
+  if (!transporter) {
+    const port = Number(process.env.SMTP_PORT || 587);
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined
+    });
+  }
+  return transporter;
+}
+
+/**
+ * Send an email right away. Request handlers queue an email.send job instead,
+ * so a slow or unavailable mail server is retried without holding up the request.
+ */
+export async function sendEmail(message: EmailMessage): Promise<string> {
+  if (!isEmailConfigured()) {
+    throw new Error('Email is not configured; set SMTP_HOST');
+  }
+
+  const info = await getTransporter().sendMail({
+    from: process.env.SMTP_FROM || process.env.SMTP_USER,
+    ...message
+  });
+  return info.messageId;
+}
+
+export async function runEmailJob(payload: EmailMessage): Promise<JobRunResult> {
+  const messageId = await sendEmail(payload);
+  return { result: { messageId } };
+}
@@ -0,0 +1,226 @@
+import { PrismaClient, Prisma, ReservationStatus } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface StockLine {
+  productId: string | null;
+  variantId?: string | null;
+  quantity: number;
+  productName?: string;
+}
+
+/**
+ * Raised inside an order transaction when a product sold out while the
+ * order was being placed. The transaction is rolled back.
+ */
+export class StockError extends Error {
+  productId: string | null;
+  variantId: string | null;
+
+  constructor(message: string, productId: string | null, variantId: string | null = null) {
+    super(message);
+    this.name = 'StockError';
+    this.productId = productId;
+    this.variantId = variantId;
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: 'OUT_OF_STOCK',
+      details: {
+        productId: this.productId,
+        variantId: this.variantId
+      }
+    };
+  }
+}
+
+/**
+ * How long stock stays reserved for an unpaid online order (STOCK_RESERVATION_MINUTES)
+ */
+export function getReservationTtlMinutes(): number {
+  const minutes = parseInt(process.env.STOCK_RESERVATION_MINUTES || '30');
+  return isNaN(minutes) || minutes < 1 ? 30 : minutes;
+}
+
+/**
+ * Decrement stock only if enough is left. The check and the write are a
+ * single UPDATE, so concurrent orders cannot drive stock negative.
+ * @throws StockError when there is not enough stock
+ */
+export async function decrementStock(tx: Prisma.TransactionClient, line: StockLine): Promise<void> {
+  let updated = 0;
+
+  if (line.variantId) {
+    const result = await tx.productVariant.updateMany({
+      where: { id: line.variantId, stock: { gte: line.quantity } },
+      data: { stock: { decrement: line.quantity } }
+    });
+    updated = result.count;
+  } else if (line.productId) {
+    const result = await tx.product.updateMany({
+      where: { id: line.productId, stock: { gte: line.quantity } },
+      data: { stock: { decrement: line.quantity } }
+    });
+    updated = result.count;
+  }
+
+  if (updated === 0) {
+    throw new StockError(
+      `Insufficient stock for ${line.productName || 'product'}`,
+      line.productId,
+      line.variantId || null
+    );
+  }
+}
+
+/**
+ * Put stock back for a line. Products or variants deleted since the order
+ * was placed are skipped.
+ */
+export async function restoreStock(tx: Prisma.TransactionClient, line: StockLine): Promise<void> {
+  if (line.variantId) {
+    await tx.productVariant.updateMany({
+      where: { id: line.variantId },
+      data: { stock: { increment: line.quantity } }
+    });
+  } else if (line.productId) {
+    await tx.product.updateMany({
+      where: { id: line.productId },
+      data: { stock: { increment: line.quantity } }
+    });
+  }
+}
+
+function stockKey(line: StockLine): string {
+  return `${line.productId}:${line.variantId || ''}`;
+}
+
+/**
+ * Units of each order line that completed restock refunds put back in stock
+ * @returns Quantities keyed by order item ID
+ */
+export async function getRefundRestockedQuantities(
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<Map<string, number>> {
+  const refundItems = await tx.refundItem.findMany({
+    where: { refund: { orderId, status: 'COMPLETED', restock: true } },
+    select: { orderItemId: true, quantity: true }
+  });
+
+  const restocked = new Map<string, number>();
+  for (const item of refundItems) {
+    restocked.set(item.orderItemId, (restocked.get(item.orderItemId) || 0) + item.quantity);
+  }
+  return restocked;
+}
+
+/**
+ * Record reservations for stock that was already decremented for an order
+ */
+export async function createReservations(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  lines: StockLine[],
+  ttlMinutes: number = getReservationTtlMinutes()
+): Promise<Date> {
+  const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+  await tx.stockReservation.createMany({
+    data: lines
+      .filter(line => line.productId)
+      .map(line => ({
+        orderId,
+        productId: line.productId as string,
+        variantId: line.variantId || null,
+        quantity: line.quantity,
+        expiresAt
+      }))
+  });
+
+  return expiresAt;
+}
+
+/**
+ * Release the reservations of an order and return the stock.
+ * Each reservation is flipped to RELEASED conditionally, so a release racing
+ * with expiry or a repeated gateway callback restocks only once.
+ * @param statuses Reservation states to release (COMMITTED too when a paid order is cancelled)
+ * @param alreadyReturned Units of the order already back in stock, e.g. from
+ * restock refunds, which releasing the reservations doesn't return again
+ * @returns Number of reservations released
+ */
+export async function releaseReservations(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  statuses: ReservationStatus[] = ['ACTIVE'],
+  alreadyReturned: StockLine[] = []
+): Promise<number> {
+  const reservations = await tx.stockReservation.findMany({
+    where: { orderId, status: { in: statuses } }
+  });
+
+  const returned = new Map<string, number>();
+  for (const line of alreadyReturned) {
+    returned.set(stockKey(line), (returned.get(stockKey(line)) || 0) + line.quantity);
+  }
+
+  let released = 0;
+  for (const reservation of reservations) {
+    const updated = await tx.stockReservation.updateMany({
+      where: { id: reservation.id, status: reservation.status },
+      data: { status: 'RELEASED', releasedAt: new Date() }
+    });
+
+    if (updated.count === 1) {
+      const key = stockKey(reservation);
+      const skipped = Math.min(returned.get(key) || 0, reservation.quantity);
+      returned.set(key, (returned.get(key) || 0) - skipped);
+
+      if (reservation.quantity > skipped) {
+        await restoreStock(tx, { ...reservation, quantity: reservation.quantity - skipped });
+      }
+      released++;
+    }
+  }
+
+  return released;
+}
+
+/**
+ * Release the active reservations of an order in their own transaction
+ */
+export async function releaseOrderReservations(orderId: string): Promise<number> {
+  return prisma.$transaction(tx => releaseReservations(tx, orderId));
+}
+
+/**
+ * Turn the active reservations of a paid order into a permanent sale
+ * @returns Number of reservations committed
+ */
+export async function commitOrderReservations(orderId: string): Promise<number> {
+  const result = await prisma.stockReservation.updateMany({
+    where: { orderId, status: 'ACTIVE' },
+    data: { status: 'COMMITTED' }
+  });
+
+  return result.count;
+}
+
+/**
+ * Find orders holding reservations past their expiry
+ */
+export async function findExpiredReservationOrderIds(now: Date = new Date()): Promise<string[]> {
+  const expired = await prisma.stockReservation.findMany({
+    where: {
+      status: 'ACTIVE',
+      expiresAt: { lt: now }
+    },
+    select: { orderId: true },
+    distinct: ['orderId']
+  });
+
+  return expired.map(reservation => reservation.orderId);
+}
@@ -0,0 +1,55 @@
+import type { JobHandler } from './jobs';
+import {
+  failSMSCampaign,
+  failWhatsAppCampaign,
+  runSMSCampaignJob,
+  runWhatsAppCampaignJob
+} from './campaignJobs';
+import { failDomainVerification, runDomainRecheckJob, runDomainVerificationJob } from './domainMonitor';
+import { runEmailJob } from './email';
+import { failOrderNotification, runOrderNotificationJob } from './orderNotifications';
+
+/**
+ * Every job type the worker runs. Handlers are wrapped so modules that queue
+ * jobs can be imported from here without a load-order problem.
+ */
+export const jobHandlers = {
+  'sms-campaign.send': {
+    run: (payload, context) => runSMSCampaignJob(payload, context),
+    onFailed: (payload, error) => failSMSCampaign(payload, error),
+    concurrency: 2
+  } satisfies JobHandler<Parameters<typeof runSMSCampaignJob>[0]>,
+  // Meta rate-limits each number and two campaigns of one store would share
+  // its number, so campaigns go out one at a time
+  'whatsapp-campaign.send': {
+    run: (payload, context) => runWhatsAppCampaignJob(payload, context),
+    onFailed: (payload, error) => failWhatsAppCampaign(payload, error),
+    concurrency: 1
+  } satisfies JobHandler<Parameters<typeof runWhatsAppCampaignJob>[0]>,
+  'domain.verify': {
+    run: (payload, context) => runDomainVerificationJob(payload, context),
+    onFailed: (payload, error) => failDomainVerification(payload, error),
+    concurrency: 5,
+    maxAttempts: 3
+  } satisfies JobHandler<Parameters<typeof runDomainVerificationJob>[0]>,
+  'domain.recheck': {
+    run: (payload) => runDomainRecheckJob(payload),
+    concurrency: 5,
+    maxAttempts: 3
+  } satisfies JobHandler<Parameters<typeof runDomainRecheckJob>[0]>,
+  'email.send': {
+    run: (payload) => runEmailJob(payload),
+    concurrency: 5,
+    maxAttempts: 8
+  } satisfies JobHandler<Parameters<typeof runEmailJob>[0]>,
+  'order-notification.send': {
+    run: (payload) => runOrderNotificationJob(payload),
+    onFailed: (payload, error) => failOrderNotification(payload, error),
+    concurrency: 5,
+    maxAttempts: 5
+  } satisfies JobHandler<Parameters<typeof runOrderNotificationJob>[0]>
+};
+
+export type JobType = keyof typeof jobHandlers;
+
+export type JobPayload<T extends JobType> = Parameters<typeof jobHandlers[T]['run']>[0];
@@ -0,0 +1,54 @@
+// Used by admin pages to follow queued work, so it must not load a Prisma client
+
+export type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED';
+
+export interface JobStatusInfo {
+  id: string;
+  type: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  progress: any;
+  result: any;
+  lastError: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+}
+
+export function isJobFinished(job: JobStatusInfo): boolean {
+  return job.status === 'SUCCEEDED' || job.status === 'FAILED' || job.status === 'CANCELLED';
+}
+
+/**
+ * Poll /api/admin/jobs/[id] until the job finishes or the wait runs out
+ * @param request Makes an authenticated GET request
+ * @param onUpdate Called with every status read, e.g. to show progress
+ * @returns The last status read; it may still be QUEUED or RUNNING on timeout
+ */
+export async function waitForJob(
+  jobId: string,
+  request: (url: string) => Promise<Response>,
+  onUpdate?: (job: JobStatusInfo) => void,
+  intervalMs: number = 3000,
+  timeoutMs: number = 10 * 60 * 1000
+): Promise<JobStatusInfo> {
+  const stopAt = Date.now() + timeoutMs;
+
+  while (true) {
+    const response = await request(`/api/admin/jobs/${jobId}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to read job status');
+    }
+
+    const job: JobStatusInfo = data.job;
+    onUpdate?.(job);
+
+    if (isJobFinished(job) || Date.now() >= stopAt) {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+}
@@ -0,0 +1,335 @@
+import os from 'os';
+import crypto from 'crypto';
+import { Job, JobStatus, Prisma, PrismaClient } from '@prisma/client';
+import { jobHandlers, JobPayload, JobType } from './jobHandlers';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+// Wait after a failed attempt, doubling per failure up to an hour
+const RETRY_BASE_SECONDS = 30;
+const RETRY_MAX_SECONDS = 60 * 60;
+// A RUNNING job not heard from in this long belongs to a worker that died
+const STALE_LOCK_MINUTES = 10;
+// Longest a handler works on one job before handing it back to the queue
+const MAX_SLICE_MS = 5 * 60 * 1000;
+
+// Jobs that have not finished yet; a job with the same key is not queued twice
+const OPEN_STATUSES: JobStatus[] = ['QUEUED', 'RUNNING'];
+
+/**
+ * Job fields shown to store admins. The payload is left out because it can
+ * carry provider credentials.
+ */
+export const JOB_STATUS_SELECT = {
+  id: true,
+  type: true,
+  status: true,
+  attempts: true,
+  maxAttempts: true,
+  runAt: true,
+  progress: true,
+  result: true,
+  lastError: true,
+  startedAt: true,
+  finishedAt: true,
+  createdAt: true
+} satisfies Prisma.JobSelect;
+
+export interface JobContext {
+  job: Job;
+  // Handlers that work in batches stop starting new ones after this (ms timestamp)
+  deadline: number;
+  /**
+   * Save how far the job got, so a retry or the next slice resumes there.
+   * Throws if the job was taken away from this worker.
+   */
+  saveProgress(progress: Prisma.InputJsonValue): Promise<void>;
+}
+
+export interface JobRunResult {
+  result?: Prisma.InputJsonValue;
+  // Put the job back in the queue to carry on at this time instead of finishing it
+  continueAt?: Date;
+}
+
+export interface JobHandler<P> {
+  run(payload: P, context: JobContext): Promise<JobRunResult | void>;
+  // Most jobs of this type running at once across all workers
+  concurrency: number;
+  maxAttempts?: number;
+  // Called once the job has used up its attempts
+  onFailed?(payload: P, error: string): Promise<void>;
+}
+
+export interface EnqueueJobOptions {
+  storeId?: string | null;
+  key?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+  // A queued job with the same key takes this payload and runAt instead of being kept as it is
+  replaceQueued?: boolean;
+}
+
+export interface JobRunSummary {
+  id: string;
+  type: string;
+  status: JobStatus;
+  error?: string;
+}
+
+export interface RunJobsOptions {
+  // Most jobs to run
+  limit?: number;
+  // Stop claiming jobs after this long, e.g. to finish inside a serverless timeout
+  timeBudgetMs?: number;
+  workerId?: string;
+}
+
+/**
+ * Queue a job for the worker. With a key, an open job with the same key is
+ * returned instead of queueing another; a partial unique index on open keys
+ * keeps two concurrent calls from both queueing one.
+ * @param db Pass a transaction client to queue the job atomically with other writes
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayload<T>,
+  options: EnqueueJobOptions = {},
+  db: Prisma.TransactionClient = prisma
+): Promise<Job> {
+  if (options.key) {
+    const open = await db.job.findFirst({
+      where: { key: options.key, status: { in: OPEN_STATUSES } }
+    });
+    if (open && options.replaceQueued && open.status === 'QUEUED') {
+      return db.job.update({
+        where: { id: open.id },
+        data: {
+          payload: payload as unknown as Prisma.InputJsonValue,
+          runAt: options.runAt || new Date()
+        }
+      });
+    }
+    if (open) {
+      return open;
+    }
+  }
+
+  const handler = jobHandlers[type] as JobHandler<JobPayload<T>>;
+
+  // Skipping the duplicate instead of failing on it keeps a caller's transaction usable
+  const [created] = await db.job.createManyAndReturn({
+    data: {
+      type,
+      payload: payload as unknown as Prisma.InputJsonValue,
+      storeId: options.storeId || null,
+      key: options.key,
+      runAt: options.runAt,
+      maxAttempts: options.maxAttempts || handler.maxAttempts || DEFAULT_MAX_ATTEMPTS
+    },
+    skipDuplicates: true
+  });
+  if (created) {
+    return created;
+  }
+
+  // Another call queued a job with the key since we looked; use that one
+  return enqueueJob(type, payload, options, db);
+}
+
+/**
+ * Withdraw the queued job with this key before it runs. A job that is
+ * already running is left alone.
+ * @returns Whether a job was cancelled
+ */
+export async function cancelJob(key: string, db: Prisma.TransactionClient = prisma): Promise<boolean> {
+  const cancelled = await db.job.updateMany({
+    where: { key, status: 'QUEUED' },
+    data: { status: 'CANCELLED', finishedAt: new Date() }
+  });
+  return cancelled.count > 0;
+}
+
+/**
+ * Run due jobs one after another, oldest first, respecting each type's
+ * concurrency across every worker sharing the database
+ */
+export async function runJobs(options: RunJobsOptions = {}): Promise<JobRunSummary[]> {
+  const { limit = 25, timeBudgetMs = MAX_SLICE_MS } = options;
+  const workerId = options.workerId || `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  const stopAt = Date.now() + timeBudgetMs;
+
+  await releaseStaleJobs();
+
+  const summaries: JobRunSummary[] = [];
+  while (summaries.length < limit && Date.now() < stopAt) {
+    const job = await claimNextJob(workerId);
+    if (!job) {
+      break;
+    }
+    summaries.push(await executeJob(job, workerId, Math.min(stopAt, Date.now() + MAX_SLICE_MS)));
+  }
+
+  return summaries;
+}
+
+/**
+ * Claim the oldest due job whose type is below its concurrency limit
+ */
+async function claimNextJob(workerId: string): Promise<Job | null> {
+  const now = new Date();
+
+  const dueTypes = await prisma.job.groupBy({
+    by: ['type'],
+    where: { status: 'QUEUED', runAt: { lte: now } },
+    _min: { runAt: true },
+    orderBy: { _min: { runAt: 'asc' } }
+  });
+
+  for (const { type } of dueTypes) {
+    const handler = getHandler(type);
+    const concurrency = handler ? handler.concurrency : 1;
+
+    const job = await prisma.$transaction(async (tx) => {
+      // Serialise claims per type so the running count can't be read stale
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`jobs:${type}`}))`;
+
+      const running = await tx.job.count({ where: { type, status: 'RUNNING' } });
+      if (running >= concurrency) {
+        return null;
+      }
+
+      // Prisma keeps DateTime columns as UTC timestamps without a time zone
+      const claimed = await tx.$queryRaw<{ id: string }[]>`
+        WITH "claim" AS (SELECT (${now.toISOString()}::timestamptz AT TIME ZONE 'UTC') AS "now")
+        UPDATE "jobs"
+        SET "status" = 'RUNNING', "lockedAt" = "claim"."now", "lockedBy" = ${workerId},
+            "startedAt" = COALESCE("startedAt", "claim"."now"), "updatedAt" = "claim"."now"
+        FROM "claim"
+        WHERE "id" = (
+          SELECT "id" FROM "jobs"
+          WHERE "type" = ${type} AND "status" = 'QUEUED' AND "runAt" <= "claim"."now"
+          ORDER BY "runAt" ASC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING "jobs"."id"`;
+
+      return claimed.length > 0 ? tx.job.findUnique({ where: { id: claimed[0].id } }) : null;
+    });
+
+    if (job) {
+      return job;
+    }
+  }
+
+  return null;
+}
+
+async function executeJob(job: Job, workerId: string, deadline: number): Promise<JobRunSummary> {
+  const handler = getHandler(job.type);
+  if (!handler) {
+    return failJob(job, `No handler for job type "${job.type}"`, true);
+  }
+
+  const context: JobContext = {
+    job,
+    deadline,
+    saveProgress: async (progress) => {
+      const saved = await prisma.job.updateMany({
+        where: { id: job.id, status: 'RUNNING', lockedBy: workerId },
+        data: { progress, lockedAt: new Date() }
+      });
+      if (saved.count === 0) {
+        throw new Error('The job is no longer held by this worker');
+      }
+      job.progress = progress as Prisma.JsonValue;
+    }
+  };
+
+  let outcome: JobRunResult | void;
+  try {
+    outcome = await handler.run(job.payload, context);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`Job ${job.id} (${job.type}) failed:`, error);
+    return failJob(job, message);
+  }
+
+  const status: JobStatus = outcome?.continueAt ? 'QUEUED' : 'SUCCEEDED';
+  await prisma.job.updateMany({
+    where: { id: job.id, status: 'RUNNING', lockedBy: workerId },
+    data: outcome?.continueAt
+      ? { status, runAt: outcome.continueAt, lockedAt: null, lockedBy: null }
+      : {
+          status,
+          result: outcome?.result,
+          lastError: null,
+          lockedAt: null,
+          lockedBy: null,
+          finishedAt: new Date()
+        }
+  });
+
+  return { id: job.id, type: job.type, status };
+}
+
+/**
+ * Count a failed attempt: queue the job again after a backoff, or give up on
+ * it once it has used its attempts
+ * @param permanent Give up without retrying
+ */
+async function failJob(job: Job, error: string, permanent: boolean = false): Promise<JobRunSummary> {
+  const attempts = job.attempts + 1;
+  const giveUp = permanent || attempts >= job.maxAttempts;
+  const retrySeconds = Math.min(RETRY_BASE_SECONDS * 2 ** (attempts - 1), RETRY_MAX_SECONDS);
+
+  // Guarded so a job another worker already took over isn't overwritten
+  const updated = await prisma.job.updateMany({
+    where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+    data: {
+      status: giveUp ? 'FAILED' : 'QUEUED',
+      attempts,
+      lastError: error,
+      lockedAt: null,
+      lockedBy: null,
+      ...(giveUp
+        ? { finishedAt: new Date() }
+        : { runAt: new Date(Date.now() + retrySeconds * 1000) })
+    }
+  });
+
+  const handler = getHandler(job.type);
+  if (giveUp && updated.count === 1 && handler?.onFailed) {
+    try {
+      await handler.onFailed(job.payload, error);
+    } catch (hookError) {
+      console.error(`Failure handler for job ${job.id} (${job.type}) failed:`, hookError);
+    }
+  }
+
+  return { id: job.id, type: job.type, status: giveUp ? 'FAILED' : 'QUEUED', error };
+}
+
+/**
+ * Count an attempt against jobs whose worker stopped saving progress
+ */
+async function releaseStaleJobs() {
+  const stale = await prisma.job.findMany({
+    where: {
+      status: 'RUNNING',
+      lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MINUTES * 60 * 1000) }
+    }
+  });
+
+  for (const job of stale) {
+    await failJob(job, 'The worker running this job stopped responding');
+  }
+}
+
+function getHandler(type: string): JobHandler<any> | null {
+  return Object.prototype.hasOwnProperty.call(jobHandlers, type)
+    ? jobHandlers[type as JobType] as JobHandler<any>
+    : null;
+}
@@ -0,0 +1,76 @@
+import path from 'path';
+
+export interface CertificatePaths {
+  certificate: string;
+  privateKey: string;
+}
+
+/**
+ * Where a domain's certificate and key are written for nginx (CERTIFICATE_DIR)
+ */
+export function getCertificatePaths(domain: string): CertificatePaths {
+  const directory = path.join(process.env.CERTIFICATE_DIR || '/etc/nginx/certs', domain);
+  return {
+    certificate: path.join(directory, 'fullchain.pem'),
+    privateKey: path.join(directory, 'privkey.pem')
+  };
+}
+
+/**
+ * Generate the nginx server blocks for a custom domain, matching nginx.conf:
+ * HTTP redirects to HTTPS except for ACME HTTP-01 challenges, which must
+ * reach the app so certificates can be renewed.
+ * @param domain The custom domain
+ * @param upstream Address the app listens on (NGINX_UPSTREAM)
+ */
+export function generateNginxConfig(
+  domain: string,
+  upstream: string = process.env.NGINX_UPSTREAM || 'http://localhost:3001'
+): string {
+  const { certificate, privateKey } = getCertificatePaths(domain);
+
+  return `# Generated for ${domain}; changes are overwritten when the certificate is renewed
+server {
+    listen 80;
+    server_name ${domain};
+
+    # ACME HTTP-01 challenges are answered by the app
+    location /.well-known/acme-challenge/ {
+        proxy_pass ${upstream};
+        proxy_set_header Host $host;
+    }
+
+    location / {
+        return 301 https://$host$request_uri;
+    }
+}
+
+server {
+    listen 443 ssl http2;
+    server_name ${domain};
+
+    ssl_certificate ${certificate};
+    ssl_certificate_key ${privateKey};
+
+    # Security Headers
+    add_header X-Frame-Options "SAMEORIGIN" always;
+    add_header X-XSS-Protection "1; mode=block" always;
+    add_header X-Content-Type-Options "nosniff" always;
+    add_header Referrer-Policy "no-referrer-when-downgrade" always;
+    add_header Strict-Transport-Security "max-age=31536000" always;
+
+    # Reverse Proxy Configuration
+    location / {
+        proxy_pass ${upstream};
+        proxy_http_version 1.1;
+        proxy_set_header Upgrade $http_upgrade;
+        proxy_set_header Connection 'upgrade';
+        proxy_set_header Host $host;
+        proxy_cache_bypass $http_upgrade;
+        proxy_set_header X-Real-IP $remote_addr;
+        proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+        proxy_set_header X-Forwarded-Proto $scheme;
+    }
+}
+`;
+}
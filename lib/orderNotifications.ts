@@ -0,0 +1,359 @@
+import {
+  NotificationChannel,
+  NotificationTemplate,
+  OrderNotificationEvent,
+  Prisma,
+  PrismaClient
+} from '@prisma/client';
+import { isEmailConfigured, sendEmail } from './email';
+import { enqueueJob, JobRunResult } from './jobs';
+import { getOrderPaymentProvider } from './payments';
+import { sendSMSBangladesh } from './sms-bangladesh';
+import { getStoreSMSConfig, getStoreWhatsAppConfig, hasStoreCredentials } from './storeCredentials';
+import WhatsAppBusinessAPI from './whatsapp-business';
+
+const prisma = new PrismaClient();
+
+export const ORDER_NOTIFICATION_EVENTS: OrderNotificationEvent[] = [
+  'ORDER_PLACED',
+  'ORDER_PAID',
+  'ORDER_SHIPPED',
+  'ORDER_DELIVERED',
+  'ORDER_CANCELLED'
+];
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['SMS', 'WHATSAPP', 'EMAIL'];
+
+// Values a template can use as {{name}}
+export const TEMPLATE_PLACEHOLDERS = [
+  'customerName',
+  'orderNumber',
+  'total',
+  'storeName',
+  'paymentMethod',
+  'courier',
+  'trackingNumber'
+] as const;
+
+type TemplateValues = Record<typeof TEMPLATE_PLACEHOLDERS[number], string>;
+
+export interface NotificationTemplateSettings {
+  event: OrderNotificationEvent;
+  channel: NotificationChannel;
+  enabled: boolean;
+  subject: string | null;
+  body: string;
+  whatsappTemplateName: string | null;
+  whatsappLanguage: string | null;
+  customized: boolean; // The store has saved its own version
+}
+
+type DefaultTemplate = Pick<NotificationTemplateSettings, 'subject' | 'body'>;
+
+const DEFAULT_MESSAGES: Record<OrderNotificationEvent, { subject: string; text: string }> = {
+  ORDER_PLACED: {
+    subject: 'We received your order #{{orderNumber}}',
+    text: 'Hi {{customerName}}, thanks for your order #{{orderNumber}} of {{total}} at {{storeName}}. We will let you know when it ships.'
+  },
+  ORDER_PAID: {
+    subject: 'Payment received for order #{{orderNumber}}',
+    text: 'Hi {{customerName}}, we received your payment of {{total}} for order #{{orderNumber}} at {{storeName}}. Thank you!'
+  },
+  ORDER_SHIPPED: {
+    subject: 'Your order #{{orderNumber}} has shipped',
+    text: 'Hi {{customerName}}, your order #{{orderNumber}} from {{storeName}} is on its way with {{courier}}. Tracking number: {{trackingNumber}}.'
+  },
+  ORDER_DELIVERED: {
+    subject: 'Your order #{{orderNumber}} was delivered',
+    text: 'Hi {{customerName}}, your order #{{orderNumber}} from {{storeName}} has been delivered. Thank you for shopping with us!'
+  },
+  ORDER_CANCELLED: {
+    subject: 'Your order #{{orderNumber}} was cancelled',
+    text: 'Hi {{customerName}}, your order #{{orderNumber}} at {{storeName}} has been cancelled. Please contact us if you have any questions.'
+  }
+};
+
+/**
+ * The built-in template for an event. WhatsApp needs a template approved in
+ * the store's Meta account, so it is off until the store names one.
+ */
+function getDefaultTemplate(event: OrderNotificationEvent, channel: NotificationChannel): DefaultTemplate {
+  const message = DEFAULT_MESSAGES[event];
+  switch (channel) {
+    case 'EMAIL':
+      return { subject: message.subject, body: message.text };
+    case 'WHATSAPP':
+      return { subject: null, body: '{{customerName}}\n{{orderNumber}}' };
+    default:
+      return { subject: null, body: message.text };
+  }
+}
+
+export function isNotificationChannel(value: unknown): value is NotificationChannel {
+  return typeof value === 'string' && NOTIFICATION_CHANNELS.includes(value as NotificationChannel);
+}
+
+export function isOrderNotificationEvent(value: unknown): value is OrderNotificationEvent {
+  return typeof value === 'string' && ORDER_NOTIFICATION_EVENTS.includes(value as OrderNotificationEvent);
+}
+
+/**
+ * The channels a customer ticked at checkout, ignoring anything unknown
+ */
+export function parseNotificationChannels(value: unknown): NotificationChannel[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return Array.from(new Set(value.filter(isNotificationChannel)));
+}
+
+/**
+ * Fill in {{placeholders}}; unknown ones are left out
+ */
+export function renderTemplate(text: string, values: Partial<TemplateValues>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => values[name as keyof TemplateValues] ?? '');
+}
+
+function toSettings(
+  event: OrderNotificationEvent,
+  channel: NotificationChannel,
+  template: NotificationTemplate | undefined
+): NotificationTemplateSettings {
+  if (template) {
+    return {
+      event,
+      channel,
+      enabled: template.enabled,
+      subject: template.subject,
+      body: template.body,
+      whatsappTemplateName: template.whatsappTemplateName,
+      whatsappLanguage: template.whatsappLanguage,
+      customized: true
+    };
+  }
+
+  return {
+    event,
+    channel,
+    enabled: channel !== 'WHATSAPP',
+    ...getDefaultTemplate(event, channel),
+    whatsappTemplateName: null,
+    whatsappLanguage: 'en',
+    customized: false
+  };
+}
+
+/**
+ * Every event and channel with the store's template, or the default where it has none
+ */
+export async function getNotificationTemplates(storeId: string): Promise<NotificationTemplateSettings[]> {
+  const templates = await prisma.notificationTemplate.findMany({ where: { storeId } });
+
+  return ORDER_NOTIFICATION_EVENTS.flatMap(event => NOTIFICATION_CHANNELS.map(channel => toSettings(
+    event,
+    channel,
+    templates.find(template => template.event === event && template.channel === channel)
+  )));
+}
+
+/**
+ * Which channels the store has a provider set up for
+ */
+export async function getConfiguredChannels(storeId: string): Promise<Record<NotificationChannel, boolean>> {
+  return {
+    SMS: await hasStoreCredentials(storeId, 'SMS_BANGLADESH'),
+    WHATSAPP: await hasStoreCredentials(storeId, 'WHATSAPP_CLOUD'),
+    EMAIL: isEmailConfigured()
+  };
+}
+
+/**
+ * Why a channel can't be used right now, or null if it can
+ */
+async function getChannelProblem(
+  storeId: string,
+  channel: NotificationChannel,
+  template: NotificationTemplateSettings
+): Promise<string | null> {
+  switch (channel) {
+    case 'SMS':
+      return await hasStoreCredentials(storeId, 'SMS_BANGLADESH')
+        ? null
+        : 'SMS is not configured; add SMS Bangladesh credentials in Settings';
+    case 'WHATSAPP':
+      if (!await hasStoreCredentials(storeId, 'WHATSAPP_CLOUD')) {
+        return 'WhatsApp is not configured; add WhatsApp credentials in Settings';
+      }
+      return template.whatsappTemplateName ? null : 'No WhatsApp template is set for this event';
+    case 'EMAIL':
+      return isEmailConfigured() ? null : 'Email is not configured; set SMTP_HOST';
+  }
+}
+
+/**
+ * Tell the customer about an order event on each channel they opted in to
+ * and the store has a template enabled for. Each event is sent at most once
+ * per channel, so callers can notify on every callback without checking
+ * whether they are the first. Failures are logged rather than thrown, so a
+ * notification problem never fails the order change that caused it.
+ */
+export async function notifyOrderEvent(orderId: string, event: OrderNotificationEvent): Promise<void> {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        store: { select: { id: true, name: true, currency: true } },
+        user: { select: { phone: true, email: true } }
+      }
+    });
+
+    if (!order?.store || order.notificationChannels.length === 0) {
+      return;
+    }
+
+    // The customer was never told about an online order that wasn't paid
+    if (event === 'ORDER_CANCELLED' && getOrderPaymentProvider(order)?.isOnline && !order.paidAt) {
+      return;
+    }
+
+    // A payment for a cancelled order is refunded rather than celebrated
+    if (event === 'ORDER_PAID' && order.status === 'CANCELLED') {
+      return;
+    }
+
+    const templates = await getNotificationTemplates(order.store.id);
+    const values: TemplateValues = {
+      customerName: order.customerName || 'there',
+      orderNumber: order.id.slice(-8).toUpperCase(),
+      total: `${order.total.toFixed(2)} ${order.store.currency}`,
+      storeName: order.store.name,
+      paymentMethod: order.paymentMethod,
+      courier: order.courier || 'our courier',
+      trackingNumber: order.trackingNumber || order.courierConsignmentId || 'not available yet'
+    };
+
+    for (const channel of order.notificationChannels) {
+      const template = templates.find(t => t.event === event && t.channel === channel);
+      const recipient = channel === 'EMAIL'
+        ? order.customerEmail || order.user?.email
+        : order.customerPhone || order.user?.phone;
+
+      if (!template?.enabled || !recipient) {
+        continue;
+      }
+
+      const problem = await getChannelProblem(order.store.id, channel, template);
+      const data: Prisma.OrderNotificationUncheckedCreateInput = {
+        storeId: order.store.id,
+        orderId,
+        event,
+        channel,
+        recipient,
+        subject: channel === 'EMAIL' ? renderTemplate(template.subject || DEFAULT_MESSAGES[event].subject, values) : null,
+        body: renderTemplate(template.body, values),
+        whatsappTemplate: channel === 'WHATSAPP' ? template.whatsappTemplateName : null,
+        whatsappLanguage: channel === 'WHATSAPP' ? template.whatsappLanguage || 'en' : null,
+        // Logged even when the channel isn't set up, so the store can see what was missed
+        ...(problem && { status: 'FAILED', error: problem })
+      };
+
+      try {
+        await prisma.$transaction(async (tx) => {
+          const notification = await tx.orderNotification.create({ data });
+          if (!problem) {
+            await enqueueJob('order-notification.send', { notificationId: notification.id }, {
+              storeId: notification.storeId,
+              key: `order-notification:${notification.id}`
+            }, tx);
+          }
+        });
+      } catch (error) {
+        // Already sent for this event and channel
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          continue;
+        }
+        throw error;
+      }
+    }
+  } catch (error) {
+    console.error(`Could not send ${event} notifications for order ${orderId}:`, error);
+  }
+}
+
+export interface OrderNotificationJobPayload {
+  notificationId: string;
+}
+
+/**
+ * Send one queued notification. Errors are thrown so the job is retried.
+ */
+export async function runOrderNotificationJob(payload: OrderNotificationJobPayload): Promise<JobRunResult> {
+  const notification = await prisma.orderNotification.findUnique({ where: { id: payload.notificationId } });
+  if (!notification || notification.status !== 'QUEUED') {
+    return { result: { skipped: 'The notification is no longer queued' } };
+  }
+
+  let providerMessageId: string | undefined;
+
+  switch (notification.channel) {
+    case 'SMS': {
+      const config = await getStoreSMSConfig(notification.storeId);
+      if (!config) {
+        throw new Error('SMS is not configured');
+      }
+      const response = await sendSMSBangladesh(config, [notification.recipient], notification.body);
+      const receipt = response.receipts?.[0];
+      if (!response.success || receipt?.error) {
+        throw new Error(receipt?.error || response.message);
+      }
+      providerMessageId = receipt?.messageId;
+      break;
+    }
+    case 'WHATSAPP': {
+      if (!notification.whatsappTemplate) {
+        throw new Error('No WhatsApp template is set for this event');
+      }
+      const config = await getStoreWhatsAppConfig(notification.storeId);
+      if (!config) {
+        throw new Error('WhatsApp is not configured');
+      }
+      const whatsappAPI = new WhatsAppBusinessAPI(config);
+      // Each line of the body fills the template's next {{n}} parameter
+      const parameters = notification.body.split('\n').map(line => line.trim()).filter(Boolean);
+      const response = await whatsappAPI.sendTemplateMessage(
+        notification.recipient,
+        notification.whatsappTemplate,
+        notification.whatsappLanguage || 'en',
+        parameters.length > 0
+          ? [{ type: 'body', parameters: parameters.map(text => ({ type: 'text', text })) }]
+          : undefined
+      );
+      providerMessageId = response.messages[0]?.id;
+      break;
+    }
+    case 'EMAIL':
+      providerMessageId = await sendEmail({
+        to: notification.recipient,
+        subject: notification.subject || '',
+        text: notification.body
+      });
+      break;
+  }
+
+  await prisma.orderNotification.update({
+    where: { id: notification.id },
+    data: { status: 'SENT', providerMessageId, error: null, sentAt: new Date() }
+  });
+
+  return { result: { providerMessageId } };
+}
+
+/**
+ * The send job ran out of attempts
+ */
+export async function failOrderNotification(payload: OrderNotificationJobPayload, error: string) {
+  await prisma.orderNotification.updateMany({
+    where: { id: payload.notificationId, status: 'QUEUED' },
+    data: { status: 'FAILED', error }
+  });
+}
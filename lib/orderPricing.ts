@@ -0,0 +1,273 @@
+import { PrismaClient, Coupon } from '@prisma/client';
+import { CouponCustomer, evaluateCoupon } from './coupons';
+import { formatVariantLabel, getAvailableStock, getVariantPrice } from './productVariants';
+import { ShippingError, ShippingQuote, quoteShipping } from './shipping';
+
+const prisma = new PrismaClient();
+
+// Prices submitted by the client may differ from ours by rounding only
+const PRICE_TOLERANCE = 0.01;
+
+export interface PricingItemInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  // Price the customer saw, used only to detect stale or tampered carts
+  price?: number | null;
+}
+
+export interface PricedLine {
+  productId: string;
+  variantId: string | null;
+  categoryId: string;
+  createdBy: string | null;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  // Per-unit shipping weight in kg, if known
+  weight: number | null;
+  // Snapshot copied onto the order item
+  productName: string;
+  productImage: string | null;
+  variantLabel: string | null;
+  sku: string | null;
+}
+
+export interface OrderPricing {
+  lines: PricedLine[];
+  subtotal: number;
+  discount: number;
+  shippingCost: number;
+  shippingDiscount: number;
+  taxAmount: number;
+  total: number;
+  coupon: Coupon | null;
+  shipping: ShippingQuote;
+}
+
+export interface PriceMismatch {
+  field: 'price' | 'total';
+  productId?: string;
+  variantId?: string | null;
+  expected: number;
+  received: number;
+}
+
+/**
+ * Raised when an order cannot be priced. `code` and `details` are returned
+ * to the client so the storefront can refresh the cart and explain why.
+ */
+export class PricingError extends Error {
+  code: 'INVALID_ITEMS' | 'OUT_OF_STOCK' | 'PRICE_MISMATCH' | 'INVALID_COUPON' | 'SHIPPING_UNAVAILABLE';
+  status: number;
+  details: any;
+
+  constructor(code: PricingError['code'], message: string, details: any = null) {
+    super(message);
+    this.name = 'PricingError';
+    this.code = code;
+    this.status = code === 'PRICE_MISMATCH' ? 409 : 400;
+    this.details = details;
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      details: this.details
+    };
+  }
+}
+
+/**
+ * Tax rate applied to the discounted subtotal, as a percentage (ORDER_TAX_RATE)
+ */
+export function getTaxRate(): number {
+  const rate = parseFloat(process.env.ORDER_TAX_RATE || '0');
+  return isNaN(rate) || rate < 0 ? 0 : rate;
+}
+
+/**
+ * Price an order from the database. Client-supplied prices are never used;
+ * when present they are compared with ours and any difference is rejected.
+ * @param items Requested products, variants and quantities
+ * @param options Coupon, customer identity, delivery district and the total the client expects to pay
+ * @throws PricingError
+ */
+export async function priceOrder(
+  items: PricingItemInput[],
+  options: {
+    couponCode?: string | null;
+    customer?: CouponCustomer;
+    adminId?: string | null;
+    expectedTotal?: number | null;
+    shippingDistrict?: string | null;
+  } = {}
+): Promise<OrderPricing> {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new PricingError('INVALID_ITEMS', 'No items to order');
+  }
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map(item => item.productId) } },
+    include: {
+      variants: {
+        where: { isActive: true }
+      }
+    }
+  });
+
+  const lines: PricedLine[] = [];
+  const mismatches: PriceMismatch[] = [];
+
+  for (const item of items) {
+    const quantity = Number(item.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new PricingError('INVALID_ITEMS', 'Quantity must be a positive whole number', {
+        productId: item.productId
+      });
+    }
+
+    const product = products.find(p => p.id === item.productId);
+    if (!product) {
+      throw new PricingError('INVALID_ITEMS', `Product with ID ${item.productId} not found`, {
+        productId: item.productId
+      });
+    }
+
+    let variant = null;
+    if (item.variantId) {
+      variant = product.variants.find(v => v.id === item.variantId);
+      if (!variant) {
+        throw new PricingError('INVALID_ITEMS', `Variant with ID ${item.variantId} not found for ${product.name}`, {
+          productId: product.id,
+          variantId: item.variantId
+        });
+      }
+    } else if (product.variants.length > 0) {
+      throw new PricingError('INVALID_ITEMS', `Please select a variant for ${product.name}`, {
+        productId: product.id
+      });
+    }
+
+    if (getAvailableStock(product, variant) < quantity) {
+      throw new PricingError('OUT_OF_STOCK', `Insufficient stock for ${product.name}`, {
+        productId: product.id,
+        variantId: variant ? variant.id : null,
+        available: getAvailableStock(product, variant)
+      });
+    }
+
+    const unitPrice = roundCurrency(getVariantPrice(product, variant));
+
+    if (item.price !== undefined && item.price !== null) {
+      const received = Number(item.price);
+      if (isNaN(received) || Math.abs(received - unitPrice) > PRICE_TOLERANCE) {
+        mismatches.push({
+          field: 'price',
+          productId: product.id,
+          variantId: variant ? variant.id : null,
+          expected: unitPrice,
+          received
+        });
+      }
+    }
+
+    lines.push({
+      productId: product.id,
+      variantId: variant ? variant.id : null,
+      categoryId: product.categoryId,
+      createdBy: product.createdBy,
+      quantity,
+      unitPrice,
+      lineTotal: roundCurrency(unitPrice * quantity),
+      weight: product.weight,
+      productName: product.name,
+      productImage: (variant && variant.image) || product.image || null,
+      variantLabel: variant ? formatVariantLabel(variant.options) || null : null,
+      sku: variant ? variant.sku : null
+    });
+  }
+
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+
+  let shipping: ShippingQuote;
+  try {
+    shipping = await quoteShipping(lines, options.shippingDistrict);
+  } catch (error) {
+    if (error instanceof ShippingError) {
+      throw new PricingError('SHIPPING_UNAVAILABLE', error.message, error.details);
+    }
+    throw error;
+  }
+  const shippingCost = shipping.cost;
+
+  let discount = 0;
+  let shippingDiscount = 0;
+  let coupon: Coupon | null = null;
+
+  if (options.couponCode) {
+    const result = await evaluateCoupon(
+      options.couponCode,
+      lines.map(line => ({
+        productId: line.productId,
+        categoryId: line.categoryId,
+        createdBy: line.createdBy,
+        price: line.unitPrice,
+        quantity: line.quantity
+      })),
+      { adminId: options.adminId, customer: options.customer, shippingCost }
+    );
+
+    if (!result.valid) {
+      throw new PricingError('INVALID_COUPON', result.error || 'Invalid coupon code', {
+        couponCode: options.couponCode
+      });
+    }
+
+    discount = result.discount;
+    shippingDiscount = result.shippingDiscount;
+    coupon = result.coupon || null;
+  }
+
+  const taxableAmount = Math.max(0, subtotal - discount);
+  const taxAmount = roundCurrency(taxableAmount * (getTaxRate() / 100));
+  const total = roundCurrency(
+    Math.max(0, taxableAmount + taxAmount + shippingCost - shippingDiscount)
+  );
+
+  if (options.expectedTotal !== undefined && options.expectedTotal !== null) {
+    const received = Number(options.expectedTotal);
+    if (isNaN(received) || Math.abs(received - total) > PRICE_TOLERANCE) {
+      mismatches.push({ field: 'total', expected: total, received });
+    }
+  }
+
+  if (mismatches.length > 0) {
+    throw new PricingError('PRICE_MISMATCH', 'Prices have changed since you added these items. Please review your order.', {
+      mismatches,
+      subtotal,
+      discount,
+      shippingCost,
+      shippingDiscount,
+      taxAmount,
+      total
+    });
+  }
+
+  return {
+    lines,
+    subtotal,
+    discount,
+    shippingCost,
+    shippingDiscount,
+    taxAmount,
+    total,
+    coupon,
+    shipping
+  };
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
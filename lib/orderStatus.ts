@@ -0,0 +1,257 @@
+import { PrismaClient, Prisma, OrderStatus, OrderActorType, OrderNotificationEvent } from '@prisma/client';
+import {
+  commitOrderReservations,
+  findExpiredReservationOrderIds,
+  getRefundRestockedQuantities,
+  releaseReservations,
+  restoreStock
+} from './inventory';
+import { notifyOrderEvent } from './orderNotifications';
+
+const prisma = new PrismaClient();
+
+/**
+ * Allowed order status transitions. Orders can only be cancelled before
+ * they are shipped; delivered and cancelled orders are final.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['SHIPPED', 'CANCELLED'],
+  SHIPPED: ['DELIVERED'],
+  DELIVERED: [],
+  CANCELLED: []
+};
+
+// Status changes the customer is told about
+const STATUS_NOTIFICATIONS: Partial<Record<OrderStatus, OrderNotificationEvent>> = {
+  SHIPPED: 'ORDER_SHIPPED',
+  DELIVERED: 'ORDER_DELIVERED',
+  CANCELLED: 'ORDER_CANCELLED'
+};
+
+export interface OrderActor {
+  type: OrderActorType;
+  id?: string | null;
+  name?: string | null;
+}
+
+/**
+ * Raised when a status change is not allowed from the order's current status
+ */
+export class OrderStatusError extends Error {
+  from: OrderStatus | null;
+  to: OrderStatus;
+
+  constructor(message: string, from: OrderStatus | null, to: OrderStatus) {
+    super(message);
+    this.name = 'OrderStatusError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && value in ORDER_STATUS_TRANSITIONS;
+}
+
+export function getAllowedTransitions(from: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[from] || [];
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * Record the status an order was created with
+ */
+export async function recordInitialStatus(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  status: OrderStatus,
+  actor: OrderActor,
+  note?: string
+): Promise<void> {
+  await tx.orderStatusEvent.create({
+    data: {
+      orderId,
+      fromStatus: null,
+      toStatus: status,
+      actorType: actor.type,
+      actorId: actor.id || null,
+      actorName: actor.name || null,
+      note: note || null
+    }
+  });
+}
+
+/**
+ * Move an order to a new status and append it to the order's history.
+ * The update is conditional on the status we validated against, so two
+ * concurrent changes cannot both succeed. Cancelling returns the stock.
+ * The customer is notified once the change is saved.
+ * @param data Extra order fields to update together with the status
+ * @param where Extra conditions the order must still meet when it is updated
+ * @throws OrderStatusError when the transition is not allowed or the order changed meanwhile
+ */
+export async function transitionOrderStatus(
+  orderId: string,
+  to: OrderStatus,
+  actor: OrderActor,
+  options: {
+    note?: string | null;
+    data?: Prisma.OrderUpdateManyMutationInput;
+    where?: Prisma.OrderWhereInput;
+  } = {}
+) {
+  const updatedOrder = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: { orderItems: true }
+    });
+
+    if (!order) {
+      throw new OrderStatusError('Order not found', null, to);
+    }
+
+    if (!canTransition(order.status, to)) {
+      throw new OrderStatusError(
+        `Cannot change order status from ${order.status} to ${to}`,
+        order.status,
+        to
+      );
+    }
+
+    const updated = await tx.order.updateMany({
+      where: { ...options.where, id: orderId, status: order.status },
+      data: { ...options.data, status: to }
+    });
+
+    if (updated.count === 0) {
+      throw new OrderStatusError('Order was changed by someone else, please reload', order.status, to);
+    }
+
+    await tx.orderStatusEvent.create({
+      data: {
+        orderId,
+        fromStatus: order.status,
+        toStatus: to,
+        actorType: actor.type,
+        actorId: actor.id || null,
+        actorName: actor.name || null,
+        note: options.note || null
+      }
+    });
+
+    if (to === 'CANCELLED') {
+      const reservationCount = await tx.stockReservation.count({ where: { orderId } });
+      // Units that restock refunds already put back aren't returned twice
+      const restocked = await getRefundRestockedQuantities(tx, orderId);
+
+      if (reservationCount > 0) {
+        // Online payments: give back whatever is still held or was sold
+        await releaseReservations(
+          tx,
+          orderId,
+          ['ACTIVE', 'COMMITTED'],
+          order.orderItems.map(item => ({ ...item, quantity: restocked.get(item.id) || 0 }))
+        );
+      } else {
+        for (const item of order.orderItems) {
+          const quantity = item.quantity - (restocked.get(item.id) || 0);
+          if (quantity > 0) {
+            await restoreStock(tx, { ...item, quantity });
+          }
+        }
+      }
+    }
+
+    return tx.order.findUniqueOrThrow({ where: { id: orderId } });
+  });
+
+  const event = STATUS_NOTIFICATIONS[to];
+  if (event) {
+    await notifyOrderEvent(orderId, event);
+  }
+
+  return updatedOrder;
+}
+
+/**
+ * Confirm an order once its online payment has been captured and keep the
+ * reserved stock. A payment arriving for an order that was already
+ * cancelled is logged so it can be refunded.
+ */
+export async function confirmPaidOrder(orderId: string, note: string = 'Payment received'): Promise<void> {
+  await commitOrderReservations(orderId);
+
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order) {
+    return;
+  }
+
+  if (order.status === 'CANCELLED') {
+    console.error(`Order ${orderId} was paid after it had been cancelled and needs a refund`);
+    return;
+  }
+
+  if (order.status === 'PENDING') {
+    try {
+      await transitionOrderStatus(orderId, 'CONFIRMED', { type: 'SYSTEM' }, { note });
+    } catch (error) {
+      if (!(error instanceof OrderStatusError)) {
+        throw error;
+      }
+      console.error(`Could not confirm paid order ${orderId}:`, error.message);
+    }
+  }
+}
+
+/**
+ * Cancel an order whose online payment failed, was abandoned or expired.
+ * Orders that have already been paid are left untouched.
+ * @returns Whether the order was cancelled
+ */
+export async function cancelUnpaidOrder(
+  orderId: string,
+  note: string,
+  paymentStatus: 'FAILED' | 'CANCELLED' = 'FAILED'
+): Promise<boolean> {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order || order.paymentStatus !== 'PENDING') {
+    return false;
+  }
+
+  try {
+    // A payment captured since the read above keeps the order and its stock
+    await transitionOrderStatus(orderId, 'CANCELLED', { type: 'SYSTEM' }, {
+      note,
+      data: { paymentStatus },
+      where: { paymentStatus: 'PENDING' }
+    });
+    return true;
+  } catch (error) {
+    if (!(error instanceof OrderStatusError)) {
+      throw error;
+    }
+    console.error(`Could not cancel unpaid order ${orderId}:`, error.message);
+    return false;
+  }
+}
+
+/**
+ * Cancel unpaid online orders whose stock reservation has expired
+ * @returns IDs of the cancelled orders
+ */
+export async function cancelExpiredOrders(now: Date = new Date()): Promise<string[]> {
+  const orderIds = await findExpiredReservationOrderIds(now);
+  const cancelled: string[] = [];
+
+  for (const orderId of orderIds) {
+    if (await cancelUnpaidOrder(orderId, 'Payment was not completed in time', 'CANCELLED')) {
+      cancelled.push(orderId);
+    }
+  }
+
+  return cancelled;
+}
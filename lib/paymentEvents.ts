@@ -0,0 +1,167 @@
+import { PrismaClient, Prisma, PaymentEvent } from '@prisma/client';
+import { getPaymentProvider, PaymentProviderError, settlePayment } from './payments';
+import { getTransactionOrderId } from './payments/sslcommerz';
+
+const prisma = new PrismaClient();
+
+/**
+ * Store an incoming gateway notification. A notification already stored for
+ * the same transaction and status is counted as a duplicate instead.
+ * @returns The stored event and whether it had been received before
+ */
+export async function recordPaymentEvent(input: {
+  provider: string;
+  transactionId: string;
+  gatewayStatus: string;
+  amount?: number | null;
+  currency?: string | null;
+  payload: Record<string, any>;
+  signatureValid: boolean;
+}): Promise<{ event: PaymentEvent; duplicate: boolean }> {
+  const key = {
+    provider: input.provider,
+    transactionId: input.transactionId,
+    gatewayStatus: input.gatewayStatus
+  };
+
+  try {
+    const event = await prisma.paymentEvent.create({
+      data: {
+        ...key,
+        amount: input.amount ?? null,
+        currency: input.currency || null,
+        payload: input.payload,
+        signatureValid: input.signatureValid
+      }
+    });
+    return { event, duplicate: false };
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      throw error;
+    }
+
+    const event = await prisma.paymentEvent.update({
+      where: { provider_transactionId_gatewayStatus: key },
+      data: { duplicateCount: { increment: 1 } }
+    });
+    return { event, duplicate: true };
+  }
+}
+
+/**
+ * Find a stored notification the store may see and replay: one applied to
+ * the store's order, or one that matched no order but whose transaction ID
+ * was created for one of them, e.g. for an attempt the customer retried
+ */
+export async function findStorePaymentEvent(eventId: string, storeId: string): Promise<PaymentEvent | null> {
+  const event = await prisma.paymentEvent.findUnique({
+    where: { id: eventId },
+    include: { order: { select: { storeId: true } } }
+  });
+
+  if (!event) {
+    return null;
+  }
+
+  const { order, ...eventRow } = event;
+  if (order) {
+    return order.storeId === storeId ? eventRow : null;
+  }
+
+  const orderId = event.provider === 'sslcommerz' ? getTransactionOrderId(event.transactionId) : null;
+  const namedOrder = orderId
+    ? await prisma.order.findFirst({ where: { id: orderId, storeId }, select: { id: true } })
+    : null;
+  return namedOrder ? eventRow : null;
+}
+
+/**
+ * IDs of the stored notifications that matched no order but whose transaction
+ * ID was created for one of the store's orders; see findStorePaymentEvent
+ */
+export async function findUnmatchedStorePaymentEventIds(storeId: string): Promise<string[]> {
+  const events = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT e."id" FROM "payment_events" e
+    JOIN "orders" o ON o."id" = split_part(e."transactionId", '_', 2)
+    WHERE e."orderId" IS NULL
+      AND e."provider" = 'sslcommerz'
+      AND split_part(e."transactionId", '_', 1) = 'TXN'
+      AND o."storeId" = ${storeId}
+  `;
+  return events.map(event => event.id);
+}
+
+/**
+ * Verify a stored notification with the gateway and apply it to its order.
+ * Events that were already processed are skipped unless replayed by an admin.
+ */
+export async function processPaymentEvent(eventId: string, options: { replay?: boolean } = {}): Promise<PaymentEvent> {
+  const event = await prisma.paymentEvent.findUnique({ where: { id: eventId } });
+
+  if (!event) {
+    throw new PaymentProviderError('Payment event not found', 404);
+  }
+
+  if (event.status === 'PROCESSED' && !options.replay) {
+    return event;
+  }
+
+  if (!event.signatureValid) {
+    return finishEvent(event.id, 'IGNORED', 'Signature verification failed', event.orderId);
+  }
+
+  const provider = getPaymentProvider(event.provider);
+  if (!provider) {
+    return finishEvent(event.id, 'FAILED', `Unknown payment provider ${event.provider}`, event.orderId);
+  }
+
+  await prisma.paymentEvent.update({
+    where: { id: event.id },
+    data: { attempts: { increment: 1 } }
+  });
+
+  try {
+    const result = await provider.validatePayment({
+      query: {},
+      body: event.payload,
+      headers: {}
+    });
+    const order = await settlePayment(provider, result);
+
+    if (!order) {
+      return finishEvent(event.id, 'FAILED', 'No order matches this transaction', null);
+    }
+
+    let note = result.message || null;
+    if (result.outcome !== 'PAID' && ['PAID', 'PARTIALLY_REFUNDED', 'REFUNDED'].includes(order.paymentStatus)) {
+      note = `Order is already ${order.paymentStatus.toLowerCase().replace('_', ' ')}; ${result.outcome.toLowerCase()} notification not applied`;
+    }
+
+    return finishEvent(event.id, 'PROCESSED', note, order.id);
+  } catch (error) {
+    console.error(`Failed to process payment event ${event.id}:`, error);
+    return finishEvent(
+      event.id,
+      'FAILED',
+      error instanceof Error ? error.message : 'Processing failed',
+      event.orderId
+    );
+  }
+}
+
+async function finishEvent(
+  eventId: string,
+  status: PaymentEvent['status'],
+  note: string | null,
+  orderId: string | null
+): Promise<PaymentEvent> {
+  return prisma.paymentEvent.update({
+    where: { id: eventId },
+    data: {
+      status,
+      note,
+      orderId,
+      processedAt: new Date()
+    }
+  });
+}
@@ -0,0 +1,187 @@
+import type { Order } from '@prisma/client';
+import {
+  PaymentCustomer,
+  PaymentInitResult,
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentRequest,
+  PaymentResult,
+  RefundGatewayResponse
+} from './types';
+
+const SANDBOX_URL = 'https://tokenized.sandbox.bka.sh/v1.2.0-beta';
+const LIVE_URL = 'https://tokenized.pay.bka.sh/v1.2.0-beta';
+
+// Grant tokens are valid for an hour; refresh a little early
+const TOKEN_TTL_MS = 55 * 60 * 1000;
+
+let cachedToken: { idToken: string; expiresAt: number } | null = null;
+
+function getBaseUrl(): string {
+  return process.env.BKASH_IS_LIVE === 'true' ? LIVE_URL : SANDBOX_URL;
+}
+
+async function grantToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.idToken;
+  }
+
+  const response = await fetch(`${getBaseUrl()}/tokenized/checkout/token/grant`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      username: process.env.BKASH_USERNAME || '',
+      password: process.env.BKASH_PASSWORD || ''
+    },
+    body: JSON.stringify({
+      app_key: process.env.BKASH_APP_KEY,
+      app_secret: process.env.BKASH_APP_SECRET
+    })
+  });
+
+  const data = await response.json();
+  if (!data.id_token) {
+    throw new PaymentProviderError(data.statusMessage || 'Could not get a bKash token', 502, data);
+  }
+
+  cachedToken = { idToken: data.id_token, expiresAt: Date.now() + TOKEN_TTL_MS };
+  return data.id_token;
+}
+
+async function bkashRequest(path: string, body: Record<string, unknown>): Promise<any> {
+  const idToken = await grantToken();
+
+  const response = await fetch(`${getBaseUrl()}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      Authorization: idToken,
+      'X-APP-Key': process.env.BKASH_APP_KEY || ''
+    },
+    body: JSON.stringify(body)
+  });
+
+  return response.json();
+}
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * bKash tokenized checkout. The customer approves the payment on bKash and
+ * returns to /api/payment/bkash/callback, where the payment is executed.
+ */
+export const bkashProvider: PaymentProvider = {
+  id: 'bkash',
+  displayName: 'bKash',
+  description: 'Pay with your bKash account',
+  isOnline: true,
+
+  isConfigured() {
+    return Boolean(
+      process.env.BKASH_APP_KEY &&
+      process.env.BKASH_APP_SECRET &&
+      process.env.BKASH_USERNAME &&
+      process.env.BKASH_PASSWORD
+    );
+  },
+
+  async initPayment(order: Order, customer: PaymentCustomer): Promise<PaymentInitResult> {
+    const data = await bkashRequest('/tokenized/checkout/create', {
+      mode: '0011',
+      payerReference: customer.phone || order.id,
+      callbackURL: `${process.env.NEXTAUTH_URL}/api/payment/bkash/callback`,
+      amount: order.total.toFixed(2),
+      currency: 'BDT',
+      intent: 'sale',
+      merchantInvoiceNumber: order.id
+    });
+
+    if (data.statusCode !== '0000' || !data.bkashURL) {
+      throw new PaymentProviderError(data.statusMessage || 'Failed to create bKash payment', 400, data);
+    }
+
+    return {
+      redirectUrl: data.bkashURL,
+      transactionId: data.paymentID
+    };
+  },
+
+  async validatePayment(request: PaymentRequest): Promise<PaymentResult> {
+    const paymentID = firstValue(request.query.paymentID);
+    const status = firstValue(request.query.status);
+
+    if (!paymentID) {
+      throw new PaymentProviderError('Missing bKash payment ID');
+    }
+
+    if (status !== 'success') {
+      // The order is looked up by payment ID because bKash does not echo the invoice on failure
+      return {
+        orderId: null,
+        outcome: status === 'cancel' ? 'CANCELLED' : 'FAILED',
+        transactionId: paymentID,
+        message: status === 'cancel' ? 'Payment cancelled by customer at bKash' : 'Payment failed at bKash',
+        raw: request.query
+      };
+    }
+
+    let data = await bkashRequest('/tokenized/checkout/execute', { paymentID });
+
+    // A repeated callback finds the payment already executed; ask for its status instead
+    if (!data.transactionStatus) {
+      data = await bkashRequest('/tokenized/checkout/payment/status', { paymentID });
+    }
+
+    const completed = data.transactionStatus === 'Completed';
+
+    return {
+      orderId: data.merchantInvoiceNumber || null,
+      outcome: completed ? 'PAID' : 'FAILED',
+      transactionId: paymentID,
+      bankTransactionId: data.trxID || null,
+      amount: data.amount !== undefined ? parseFloat(data.amount) : null,
+      message: completed ? undefined : data.statusMessage || 'bKash could not complete the payment',
+      raw: data
+    };
+  },
+
+  async refund(order: Order, params: { amount: number; remarks: string; referenceId: string }): Promise<RefundGatewayResponse> {
+    if (!order.paymentTransactionId || !order.paymentBankTransactionId) {
+      throw new PaymentProviderError('The payment has no bKash transaction to refund');
+    }
+
+    const data = await bkashRequest('/tokenized/checkout/payment/refund', {
+      paymentID: order.paymentTransactionId,
+      trxID: order.paymentBankTransactionId,
+      amount: params.amount.toFixed(2),
+      sku: params.referenceId,
+      reason: params.remarks.slice(0, 255)
+    });
+
+    return {
+      status: data.transactionStatus === 'Completed' ? 'refunded' : 'failed',
+      refundRefId: data.refundTrxID,
+      errorReason: data.transactionStatus === 'Completed' ? undefined : data.statusMessage,
+      raw: data
+    };
+  },
+
+  async queryRefund(order: Order, refundRefId: string): Promise<RefundGatewayResponse> {
+    // Without an amount the refund endpoint reports the refund status instead
+    const data = await bkashRequest('/tokenized/checkout/payment/refund', {
+      paymentID: order.paymentTransactionId,
+      trxID: order.paymentBankTransactionId
+    });
+
+    return {
+      status: data.transactionStatus === 'Completed' ? 'refunded' : 'processing',
+      refundRefId: data.refundTrxID || refundRefId,
+      errorReason: data.statusMessage,
+      raw: data
+    };
+  }
+};
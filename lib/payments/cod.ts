@@ -0,0 +1,28 @@
+import type { Order } from '@prisma/client';
+import { PaymentInitResult, PaymentProvider, PaymentProviderError, PaymentResult } from './types';
+
+/**
+ * Cash on Delivery. Nothing is collected online; the order is marked paid
+ * by the store once the courier hands over the cash.
+ */
+export const codProvider: PaymentProvider = {
+  id: 'cod',
+  displayName: 'Cash on Delivery',
+  description: 'Pay in cash when your order is delivered',
+  isOnline: false,
+
+  isConfigured() {
+    return true;
+  },
+
+  async initPayment(order: Order): Promise<PaymentInitResult> {
+    return {
+      redirectUrl: null,
+      transactionId: null
+    };
+  },
+
+  async validatePayment(): Promise<PaymentResult> {
+    throw new PaymentProviderError('Cash on Delivery payments are not validated online');
+  }
+};
@@ -0,0 +1,295 @@
+import { PrismaClient, Order, OrderAddress } from '@prisma/client';
+import { notifyOrderEvent } from '../orderNotifications';
+import { cancelUnpaidOrder, confirmPaidOrder } from '../orderStatus';
+import { bkashProvider } from './bkash';
+import { codProvider } from './cod';
+import { nagadProvider } from './nagad';
+import { sslcommerzProvider } from './sslcommerz';
+import { stripeProvider } from './stripe';
+import {
+  PaymentCustomer,
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentProviderId,
+  PaymentResult
+} from './types';
+
+export * from './types';
+
+const prisma = new PrismaClient();
+
+/**
+ * Every provider the platform supports, in the order shown at checkout
+ */
+export const PAYMENT_PROVIDERS: Record<PaymentProviderId, PaymentProvider> = {
+  sslcommerz: sslcommerzProvider,
+  bkash: bkashProvider,
+  nagad: nagadProvider,
+  stripe: stripeProvider,
+  cod: codProvider
+};
+
+/** Offered by stores that have not chosen their payment methods yet */
+export const DEFAULT_PAYMENT_PROVIDERS: PaymentProviderId[] = ['sslcommerz', 'cod'];
+
+export interface StorePaymentMethodInfo {
+  id: PaymentProviderId;
+  displayName: string;
+  description: string;
+  isOnline: boolean;
+  configured: boolean;
+  enabled: boolean;
+  sortOrder: number;
+}
+
+export function getPaymentProvider(id: string | null | undefined): PaymentProvider | null {
+  return id && id in PAYMENT_PROVIDERS ? PAYMENT_PROVIDERS[id as PaymentProviderId] : null;
+}
+
+/**
+ * Find a provider by its ID or by the display name older clients send
+ * as the payment method (e.g. 'Cash on Delivery')
+ */
+export function resolvePaymentProvider(method: string | null | undefined): PaymentProvider | null {
+  if (!method) {
+    return null;
+  }
+
+  const normalized = method.trim().toLowerCase();
+  return getPaymentProvider(normalized) ||
+    Object.values(PAYMENT_PROVIDERS).find(provider => provider.displayName.toLowerCase() === normalized) ||
+    null;
+}
+
+/**
+ * Get the provider an order was placed with
+ */
+export function getOrderPaymentProvider(order: Pick<Order, 'paymentProvider' | 'paymentMethod'>): PaymentProvider | null {
+  return getPaymentProvider(order.paymentProvider) || resolvePaymentProvider(order.paymentMethod);
+}
+
+/**
+ * List every provider with the store's choice for it
+ */
+export async function getStorePaymentMethods(adminId: string): Promise<StorePaymentMethodInfo[]> {
+  const rows = await prisma.storePaymentMethod.findMany({ where: { adminId } });
+  const providerIds = Object.keys(PAYMENT_PROVIDERS) as PaymentProviderId[];
+
+  return providerIds
+    .map((id, index) => {
+      const provider = PAYMENT_PROVIDERS[id];
+      const row = rows.find(r => r.provider === id);
+
+      return {
+        id,
+        displayName: provider.displayName,
+        description: provider.description,
+        isOnline: provider.isOnline,
+        configured: provider.isConfigured(),
+        enabled: row ? row.enabled : rows.length === 0 && DEFAULT_PAYMENT_PROVIDERS.includes(id),
+        sortOrder: row ? row.sortOrder : index
+      };
+    })
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+}
+
+/**
+ * Save which providers a store offers and in which order
+ */
+export async function updateStorePaymentMethods(
+  adminId: string,
+  methods: Array<{ id: string; enabled: boolean; sortOrder?: number }>
+): Promise<StorePaymentMethodInfo[]> {
+  await prisma.$transaction(
+    methods
+      .filter(method => getPaymentProvider(method.id))
+      .map((method, index) => prisma.storePaymentMethod.upsert({
+        where: { adminId_provider: { adminId, provider: method.id } },
+        create: {
+          adminId,
+          provider: method.id,
+          enabled: Boolean(method.enabled),
+          sortOrder: method.sortOrder ?? index
+        },
+        update: {
+          enabled: Boolean(method.enabled),
+          sortOrder: method.sortOrder ?? index
+        }
+      }))
+  );
+
+  return getStorePaymentMethods(adminId);
+}
+
+/**
+ * Providers a customer can pay with. A cart spanning several stores only
+ * offers what every one of them accepts.
+ */
+export async function getEnabledPaymentProviders(adminIds: string[]): Promise<StorePaymentMethodInfo[]> {
+  const storeIds = Array.from(new Set(adminIds.filter(Boolean)));
+
+  if (storeIds.length === 0) {
+    return DEFAULT_PAYMENT_PROVIDERS
+      .map((id, index) => ({
+        id,
+        displayName: PAYMENT_PROVIDERS[id].displayName,
+        description: PAYMENT_PROVIDERS[id].description,
+        isOnline: PAYMENT_PROVIDERS[id].isOnline,
+        configured: PAYMENT_PROVIDERS[id].isConfigured(),
+        enabled: true,
+        sortOrder: index
+      }))
+      .filter(method => method.configured);
+  }
+
+  const perStore = await Promise.all(storeIds.map(getStorePaymentMethods));
+  const [first, ...rest] = perStore;
+
+  return first.filter(method =>
+    method.enabled &&
+    method.configured &&
+    rest.every(methods => methods.some(m => m.id === method.id && m.enabled))
+  );
+}
+
+/**
+ * Build the customer details gateways ask for from the order. Orders placed
+ * before addresses were structured only have the free-text address.
+ */
+export function getOrderCustomer(
+  order: Order & { address?: OrderAddress | null },
+  fallback: { name?: string; email?: string; phone?: string } = {}
+): PaymentCustomer {
+  if (order.address) {
+    return {
+      name: order.customerName || order.address.fullName,
+      email: order.customerEmail || fallback.email || 'customer@example.com',
+      phone: order.customerPhone || order.address.phone,
+      address: {
+        fullName: order.address.fullName,
+        address: order.address.addressLine,
+        city: order.address.upazila,
+        state: order.address.district,
+        zipCode: order.address.postcode || undefined,
+        country: order.address.country
+      }
+    };
+  }
+
+  let address: PaymentCustomer['address'] & { phone?: string } = {};
+  try {
+    const parsed = JSON.parse(order.shippingAddress);
+    if (parsed && typeof parsed === 'object') {
+      address = parsed;
+    }
+  } catch {
+    address = { address: order.shippingAddress };
+  }
+
+  return {
+    name: order.customerName || fallback.name || address.fullName || 'Customer',
+    email: order.customerEmail || fallback.email || 'customer@example.com',
+    phone: order.customerPhone || fallback.phone || address.phone || '01700000000',
+    address
+  };
+}
+
+/**
+ * Make sure a captured payment covers the order it claims to pay for
+ * @throws PaymentProviderError when the amount or currency differ
+ */
+export function assertPaymentMatchesOrder(order: Order, result: PaymentResult): void {
+  if (result.currency && result.currency.toUpperCase() !== 'BDT') {
+    throw new PaymentProviderError(`Payment was made in ${result.currency}, expected BDT`, 409);
+  }
+
+  if (result.amount !== undefined && result.amount !== null &&
+      (isNaN(result.amount) || Math.abs(result.amount - order.total) > 0.01)) {
+    throw new PaymentProviderError(
+      `Paid amount ৳${result.amount} does not match the order total ৳${order.total.toFixed(2)}`,
+      409
+    );
+  }
+}
+
+/**
+ * Apply a verified gateway result to its order: paid orders are confirmed,
+ * failed or cancelled ones release their stock. Paid, refunded or cancelled
+ * orders are never moved back, so repeated notifications are harmless.
+ * @returns The order the result belongs to, if it could be found
+ * @throws PaymentProviderError when a payment does not match the order
+ */
+export async function settlePayment(provider: PaymentProvider, result: PaymentResult): Promise<Order | null> {
+  let order: Order | null = null;
+
+  if (result.orderId) {
+    order = await prisma.order.findUnique({ where: { id: result.orderId } });
+  } else if (result.transactionId) {
+    // Some gateways only echo back the reference we sent at init
+    order = await prisma.order.findFirst({ where: { paymentTransactionId: result.transactionId } });
+  }
+
+  if (!order) {
+    console.error(`${provider.displayName} reported a payment for an unknown order`, result.orderId || result.transactionId);
+    return null;
+  }
+
+  if (getOrderPaymentProvider(order)?.id !== provider.id) {
+    console.error(`Order ${order.id} was not placed with ${provider.displayName}, ignoring callback`);
+    return order;
+  }
+
+  if (result.outcome === 'PAID') {
+    assertPaymentMatchesOrder(order, result);
+
+    // Repeated callbacks must not undo a refund that happened since
+    const paid = await prisma.order.updateMany({
+      where: {
+        id: order.id,
+        paymentStatus: { notIn: ['PAID', 'PARTIALLY_REFUNDED', 'REFUNDED'] }
+      },
+      data: {
+        paymentStatus: 'PAID',
+        paymentTransactionId: result.transactionId || order.paymentTransactionId,
+        paymentValidationId: result.validationId || order.paymentValidationId,
+        paymentBankTransactionId: result.bankTransactionId || order.paymentBankTransactionId,
+        paidAt: new Date()
+      }
+    });
+
+    await confirmPaidOrder(order.id, `Payment received via ${provider.displayName}`);
+
+    if (paid.count > 0) {
+      await notifyOrderEvent(order.id, 'ORDER_PAID');
+    }
+  } else if (result.outcome === 'FAILED' || result.outcome === 'CANCELLED') {
+    await cancelUnpaidOrder(
+      order.id,
+      result.message || `Payment ${result.outcome.toLowerCase()} at ${provider.displayName}`,
+      result.outcome
+    );
+  }
+
+  return prisma.order.findUnique({ where: { id: order.id } });
+}
+
+/**
+ * Where to send the customer after the gateway returns them to us
+ */
+export function getPaymentReturnUrl(result: PaymentResult, order: Order | null): string {
+  const baseUrl = process.env.NEXTAUTH_URL;
+  const orderId = order?.id || result.orderId || '';
+  const transactionId = result.transactionId || '';
+
+  if (result.outcome === 'PAID' || result.outcome === 'PENDING') {
+    const name = encodeURIComponent(order?.customerName || 'Customer');
+    const payment = result.outcome === 'PAID' ? 'success' : 'pending';
+    return `${baseUrl}/thank-you?orderId=${orderId}&transactionId=${transactionId}&name=${name}&payment=${payment}`;
+  }
+
+  if (result.outcome === 'CANCELLED') {
+    return `${baseUrl}/payment/cancelled?orderId=${orderId}&transactionId=${transactionId}`;
+  }
+
+  return `${baseUrl}/payment/failed?orderId=${orderId}&transactionId=${transactionId}&reason=payment_failed`;
+}
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import type { Order } from '@prisma/client';
+import {
+  PaymentCustomer,
+  PaymentInitResult,
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentRequest,
+  PaymentResult
+} from './types';
+
+const SANDBOX_URL = 'http://sandbox.mynagad.com:10080/remote-payment-gateway-1.0';
+const LIVE_URL = 'https://api.mynagad.com';
+
+function getBaseUrl(): string {
+  return process.env.NAGAD_IS_LIVE === 'true' ? LIVE_URL : SANDBOX_URL;
+}
+
+/**
+ * Nagad hands out keys as bare base64; wrap them so Node can read them
+ */
+function toPem(key: string, type: 'PUBLIC KEY' | 'PRIVATE KEY'): string {
+  if (key.includes('-----BEGIN')) {
+    return key;
+  }
+  const body = key.replace(/\s+/g, '').match(/.{1,64}/g)?.join('\n') || '';
+  return `-----BEGIN ${type}-----\n${body}\n-----END ${type}-----`;
+}
+
+function encryptForNagad(data: object): string {
+  return crypto.publicEncrypt(
+    {
+      key: toPem(process.env.NAGAD_PUBLIC_KEY || '', 'PUBLIC KEY'),
+      padding: crypto.constants.RSA_PKCS1_PADDING
+    },
+    Buffer.from(JSON.stringify(data))
+  ).toString('base64');
+}
+
+function decryptFromNagad(data: string): any {
+  const decrypted = crypto.privateDecrypt(
+    {
+      key: toPem(process.env.NAGAD_MERCHANT_PRIVATE_KEY || '', 'PRIVATE KEY'),
+      padding: crypto.constants.RSA_PKCS1_PADDING
+    },
+    Buffer.from(data, 'base64')
+  );
+  return JSON.parse(decrypted.toString());
+}
+
+function sign(data: object): string {
+  return crypto
+    .createSign('SHA256')
+    .update(JSON.stringify(data))
+    .sign(toPem(process.env.NAGAD_MERCHANT_PRIVATE_KEY || '', 'PRIVATE KEY'), 'base64');
+}
+
+/**
+ * Nagad expects the request time as yyyyMMddHHmmss in Bangladesh time
+ */
+function nagadDateTime(date: Date = new Date()): string {
+  const dhaka = new Date(date.getTime() + 6 * 60 * 60 * 1000);
+  return dhaka.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+function nagadHeaders(): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    Accept: 'application/json',
+    'X-KM-Api-Version': 'v-0.2.0',
+    'X-KM-IP-V4': process.env.NAGAD_MERCHANT_IP || '127.0.0.1',
+    'X-KM-Client-Type': 'PC_WEB'
+  };
+}
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Nagad online payment. Nagad redirects the customer back to
+ * /api/payment/nagad/callback, where the payment is verified.
+ */
+export const nagadProvider: PaymentProvider = {
+  id: 'nagad',
+  displayName: 'Nagad',
+  description: 'Pay with your Nagad account',
+  isOnline: true,
+
+  isConfigured() {
+    return Boolean(
+      process.env.NAGAD_MERCHANT_ID &&
+      process.env.NAGAD_MERCHANT_NUMBER &&
+      process.env.NAGAD_PUBLIC_KEY &&
+      process.env.NAGAD_MERCHANT_PRIVATE_KEY
+    );
+  },
+
+  async initPayment(order: Order, customer: PaymentCustomer): Promise<PaymentInitResult> {
+    const merchantId = process.env.NAGAD_MERCHANT_ID || '';
+    const dateTime = nagadDateTime();
+    // Nagad limits order IDs to 20 alphanumeric characters and rejects reused IDs
+    const nagadOrderId = `${order.id.slice(-12)}${Date.now().toString().slice(-8)}`;
+
+    const initData = {
+      merchantId,
+      datetime: dateTime,
+      orderId: nagadOrderId,
+      challenge: crypto.randomBytes(20).toString('hex')
+    };
+
+    const initResponse = await fetch(
+      `${getBaseUrl()}/api/dfs/check-out/initialize/${merchantId}/${nagadOrderId}`,
+      {
+        method: 'POST',
+        headers: nagadHeaders(),
+        body: JSON.stringify({
+          accountNumber: process.env.NAGAD_MERCHANT_NUMBER,
+          dateTime,
+          sensitiveData: encryptForNagad(initData),
+          signature: sign(initData)
+        })
+      }
+    );
+
+    const initResult = await initResponse.json();
+    if (!initResult.sensitiveData) {
+      throw new PaymentProviderError(initResult.message || 'Failed to initialize Nagad payment', 400, initResult);
+    }
+
+    const { paymentReferenceId, challenge } = decryptFromNagad(initResult.sensitiveData);
+
+    const completeData = {
+      merchantId,
+      orderId: nagadOrderId,
+      currencyCode: '050',
+      amount: order.total.toFixed(2),
+      challenge
+    };
+
+    const completeResponse = await fetch(`${getBaseUrl()}/api/dfs/check-out/complete/${paymentReferenceId}`, {
+      method: 'POST',
+      headers: nagadHeaders(),
+      body: JSON.stringify({
+        sensitiveData: encryptForNagad(completeData),
+        signature: sign(completeData),
+        merchantCallbackURL: `${process.env.NEXTAUTH_URL}/api/payment/nagad/callback`,
+        additionalMerchantInfo: {
+          orderId: order.id,
+          customerName: customer.name
+        }
+      })
+    });
+
+    const completeResult = await completeResponse.json();
+    if (completeResult.status !== 'Success' || !completeResult.callBackUrl) {
+      throw new PaymentProviderError(completeResult.message || 'Failed to start Nagad payment', 400, completeResult);
+    }
+
+    return {
+      redirectUrl: completeResult.callBackUrl,
+      transactionId: nagadOrderId
+    };
+  },
+
+  async validatePayment(request: PaymentRequest): Promise<PaymentResult> {
+    const nagadOrderId = firstValue(request.query.order_id);
+    const paymentRefId = firstValue(request.query.payment_ref_id);
+    const status = firstValue(request.query.status);
+
+    if (!nagadOrderId) {
+      throw new PaymentProviderError('Missing Nagad order ID');
+    }
+
+    // The order is matched through the Nagad order ID stored as the transaction ID
+    if (status !== 'Success' || !paymentRefId) {
+      return {
+        orderId: null,
+        outcome: status === 'Aborted' || status === 'Cancelled' ? 'CANCELLED' : 'FAILED',
+        transactionId: nagadOrderId,
+        message: firstValue(request.query.message) || 'Payment was not completed at Nagad',
+        raw: request.query
+      };
+    }
+
+    const response = await fetch(`${getBaseUrl()}/api/dfs/verify/payment/${paymentRefId}`, {
+      headers: nagadHeaders()
+    });
+    const data = await response.json();
+    const paid = data.status === 'Success' && data.orderId === nagadOrderId;
+
+    return {
+      orderId: null,
+      outcome: paid ? 'PAID' : 'FAILED',
+      transactionId: nagadOrderId,
+      validationId: paymentRefId,
+      bankTransactionId: data.issuerPaymentRefNo || null,
+      amount: data.amount !== undefined ? parseFloat(data.amount) : null,
+      message: paid ? undefined : data.message || 'Nagad could not verify the payment',
+      raw: data
+    };
+  }
+};
@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import type { Order } from '@prisma/client';
+import { fetchBankTransactionId, getRefundGateway } from '../sslcommerzRefunds';
+import {
+  PaymentCustomer,
+  PaymentInitResult,
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentRequest,
+  PaymentResult,
+  RefundGatewayResponse
+} from './types';
+const SSLCommerzPayment = require('sslcommerz-lts');
+
+function createClient() {
+  return new SSLCommerzPayment(
+    process.env.SSLCOMMERZ_STORE_ID,
+    process.env.SSLCOMMERZ_STORE_PASSWORD,
+    process.env.SSLCOMMERZ_IS_LIVE === 'true'
+  );
+}
+
+/**
+ * Check the verify_sign SSLCommerz adds to its notifications: an MD5 over the
+ * fields listed in verify_key plus the MD5 of the store password, sorted by name.
+ */
+export function verifySSLCommerzSignature(payload: Record<string, any>): boolean {
+  const { verify_sign: verifySign, verify_key: verifyKey } = payload || {};
+  const storePassword = process.env.SSLCOMMERZ_STORE_PASSWORD;
+
+  if (!verifySign || !verifyKey || !storePassword) {
+    return false;
+  }
+
+  const fields: Record<string, string> = {
+    store_passwd: crypto.createHash('md5').update(storePassword).digest('hex')
+  };
+  for (const key of String(verifyKey).split(',')) {
+    fields[key] = payload[key] ?? '';
+  }
+
+  const hashString = Object.keys(fields)
+    .sort()
+    .map(key => `${key}=${fields[key]}`)
+    .join('&');
+
+  const expected = crypto.createHash('md5').update(hashString).digest('hex');
+  return expected.length === String(verifySign).length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(String(verifySign)));
+}
+
+/**
+ * The order a transaction ID was created for at init (TXN_<orderId>_<time>).
+ * Only good for telling which store a notification concerns; payments are
+ * matched to orders through validation.
+ */
+export function getTransactionOrderId(transactionId: string): string | null {
+  const [prefix, orderId] = transactionId.split('_');
+  return prefix === 'TXN' && orderId ? orderId : null;
+}
+
+/**
+ * SSLCommerz hosted checkout. The gateway posts back to the existing
+ * /api/payment/sslcommerz/{success,fail,cancel,ipn} routes.
+ */
+export const sslcommerzProvider: PaymentProvider = {
+  id: 'sslcommerz',
+  displayName: 'SSLCommerz',
+  description: 'Cards, mobile banking and internet banking through SSLCommerz',
+  isOnline: true,
+
+  isConfigured() {
+    return Boolean(process.env.SSLCOMMERZ_STORE_ID && process.env.SSLCOMMERZ_STORE_PASSWORD);
+  },
+
+  async initPayment(order: Order, customer: PaymentCustomer): Promise<PaymentInitResult> {
+    const baseUrl = process.env.NEXTAUTH_URL;
+    const transactionId = `TXN_${order.id}_${Date.now()}`;
+    const address = customer.address;
+
+    const data = {
+      total_amount: order.total.toFixed(2),
+      currency: 'BDT',
+      tran_id: transactionId,
+      success_url: `${baseUrl}/api/payment/sslcommerz/success`,
+      fail_url: `${baseUrl}/api/payment/sslcommerz/fail`,
+      cancel_url: `${baseUrl}/api/payment/sslcommerz/cancel`,
+      ipn_url: `${baseUrl}/api/payment/sslcommerz/ipn`,
+      shipping_method: 'Courier',
+      product_name: `Order #${order.id}`,
+      product_category: 'General',
+      product_profile: 'general',
+      cus_name: customer.name,
+      cus_email: customer.email,
+      cus_add1: address.address || 'Customer Address',
+      cus_add2: '',
+      cus_city: address.city || 'Dhaka',
+      cus_state: address.state || 'Dhaka',
+      cus_postcode: address.zipCode || '1000',
+      cus_country: address.country || 'Bangladesh',
+      cus_phone: customer.phone,
+      cus_fax: '',
+      ship_name: address.fullName || customer.name,
+      ship_add1: address.address || 'Customer Address',
+      ship_add2: '',
+      ship_city: address.city || 'Dhaka',
+      ship_state: address.state || 'Dhaka',
+      ship_postcode: address.zipCode || '1000',
+      ship_country: address.country || 'Bangladesh',
+      multi_card_name: 'mastercard,visacard,amexcard',
+      value_a: order.id, // Store order ID for reference
+      value_b: customer.name,
+      value_c: '',
+      value_d: ''
+    };
+
+    const response = await createClient().init(data);
+
+    if (response?.status !== 'SUCCESS') {
+      throw new PaymentProviderError(
+        response?.failedreason || response?.msg || 'Unknown error from SSLCommerz',
+        400,
+        response
+      );
+    }
+
+    return {
+      redirectUrl: response.GatewayPageURL,
+      transactionId
+    };
+  },
+
+  async validatePayment(request: PaymentRequest): Promise<PaymentResult> {
+    const { tran_id, val_id, status } = request.body || {};
+    const reportedStatus = String(status || '').toUpperCase();
+
+    // Failed and cancelled callbacks carry no val_id to validate. The posted
+    // value_a is not trusted; the order is found through its transaction ID.
+    if (reportedStatus === 'FAILED' || reportedStatus === 'CANCELLED' || !val_id) {
+      return {
+        orderId: null,
+        outcome: reportedStatus === 'CANCELLED' ? 'CANCELLED' : 'FAILED',
+        transactionId: tran_id || null,
+        message: reportedStatus === 'CANCELLED'
+          ? 'Payment cancelled by customer at SSLCommerz'
+          : 'Payment failed at SSLCommerz',
+        raw: request.body
+      };
+    }
+
+    const validation = await createClient().validate({ val_id });
+    const isValid = validation?.status === 'VALID' || validation?.status === 'VALIDATED';
+
+    // Only fields returned by the validation API are trusted
+    return {
+      orderId: isValid ? validation.value_a || null : null,
+      outcome: isValid ? 'PAID' : 'FAILED',
+      transactionId: validation?.tran_id || tran_id || null,
+      validationId: val_id,
+      bankTransactionId: validation?.bank_tran_id || null,
+      amount: isValid ? parseFloat(validation.currency_amount ?? validation.amount) : null,
+      currency: isValid ? validation.currency_type || validation.currency || null : null,
+      message: isValid ? undefined : 'SSLCommerz could not validate the payment',
+      raw: validation
+    };
+  },
+
+  async refund(order: Order, params: { amount: number; remarks: string; referenceId: string }): Promise<RefundGatewayResponse> {
+    let bankTransactionId = order.paymentBankTransactionId;
+    if (!bankTransactionId && order.paymentValidationId) {
+      bankTransactionId = await fetchBankTransactionId(order.paymentValidationId);
+    }
+
+    if (!bankTransactionId) {
+      throw new PaymentProviderError('The payment has no bank transaction ID to refund');
+    }
+
+    return getRefundGateway().initiateRefund({
+      bankTransactionId,
+      amount: params.amount,
+      remarks: params.remarks,
+      referenceId: params.referenceId
+    });
+  },
+
+  async queryRefund(order: Order, refundRefId: string): Promise<RefundGatewayResponse> {
+    return getRefundGateway().queryRefund(refundRefId);
+  }
+};
@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import type { Order } from '@prisma/client';
+import {
+  PaymentCustomer,
+  PaymentInitResult,
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentRequest,
+  PaymentResult,
+  RefundGatewayResponse
+} from './types';
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+
+// Reject webhook signatures older than this to stop replays
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+function getCurrency(): string {
+  return (process.env.STRIPE_CURRENCY || 'bdt').toLowerCase();
+}
+
+/**
+ * Call the Stripe REST API with form-encoded parameters
+ */
+async function stripeRequest(method: 'GET' | 'POST', path: string, params?: Record<string, string>): Promise<any> {
+  const response = await fetch(`${STRIPE_API_URL}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${process.env.STRIPE_SECRET_KEY}`,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: params ? new URLSearchParams(params).toString() : undefined
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new PaymentProviderError(data.error?.message || 'Stripe request failed', 502, data.error);
+  }
+  return data;
+}
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function sessionToResult(session: any): PaymentResult {
+  const paid = session.payment_status === 'paid';
+
+  return {
+    orderId: session.client_reference_id || session.metadata?.orderId || null,
+    outcome: paid ? 'PAID' : session.status === 'expired' ? 'CANCELLED' : 'PENDING',
+    transactionId: session.id,
+    bankTransactionId: session.payment_intent || null,
+    amount: typeof session.amount_total === 'number' ? session.amount_total / 100 : null,
+    message: session.status === 'expired' ? 'Stripe checkout session expired' : undefined,
+    raw: session
+  };
+}
+
+/**
+ * Verify a Stripe-Signature header against the raw webhook body
+ */
+function verifyWebhookSignature(rawBody: string, header: string | undefined): boolean {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret || !header) {
+    return false;
+  }
+
+  const parts = header.split(',').map(part => part.split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || Math.abs(Date.now() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+
+  return signatures.some(signature =>
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  );
+}
+
+/**
+ * Stripe Checkout for international cards. The customer returns to
+ * /api/payment/stripe/callback and Stripe also notifies /api/payment/stripe/webhook.
+ */
+export const stripeProvider: PaymentProvider = {
+  id: 'stripe',
+  displayName: 'Stripe',
+  description: 'International credit and debit cards',
+  isOnline: true,
+
+  isConfigured() {
+    return Boolean(process.env.STRIPE_SECRET_KEY);
+  },
+
+  async initPayment(order: Order, customer: PaymentCustomer): Promise<PaymentInitResult> {
+    const callbackUrl = `${process.env.NEXTAUTH_URL}/api/payment/stripe/callback`;
+
+    const session = await stripeRequest('POST', '/checkout/sessions', {
+      mode: 'payment',
+      client_reference_id: order.id,
+      'metadata[orderId]': order.id,
+      customer_email: customer.email,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': getCurrency(),
+      'line_items[0][price_data][unit_amount]': String(Math.round(order.total * 100)),
+      'line_items[0][price_data][product_data][name]': `Order #${order.id}`,
+      success_url: `${callbackUrl}?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${callbackUrl}?session_id={CHECKOUT_SESSION_ID}&status=cancel`
+    });
+
+    return {
+      redirectUrl: session.url,
+      transactionId: session.id
+    };
+  },
+
+  async validatePayment(request: PaymentRequest): Promise<PaymentResult> {
+    const sessionId = firstValue(request.query.session_id);
+    if (!sessionId) {
+      throw new PaymentProviderError('Missing Stripe session ID');
+    }
+
+    const session = await stripeRequest('GET', `/checkout/sessions/${encodeURIComponent(sessionId)}`);
+    const result = sessionToResult(session);
+
+    if (result.outcome === 'PENDING' && firstValue(request.query.status) === 'cancel') {
+      return { ...result, outcome: 'CANCELLED', message: 'Payment cancelled by customer at Stripe' };
+    }
+
+    return result;
+  },
+
+  async handleIpn(request: PaymentRequest): Promise<PaymentResult> {
+    const signature = firstValue(request.headers['stripe-signature']);
+    if (!request.rawBody || !verifyWebhookSignature(request.rawBody, signature)) {
+      throw new PaymentProviderError('Invalid Stripe signature', 401);
+    }
+
+    const event = JSON.parse(request.rawBody);
+    const session = event.data?.object;
+
+    if (!['checkout.session.completed', 'checkout.session.async_payment_succeeded',
+      'checkout.session.async_payment_failed', 'checkout.session.expired'].includes(event.type)) {
+      return { orderId: null, outcome: 'PENDING', raw: event };
+    }
+
+    const result = sessionToResult(session);
+    if (event.type === 'checkout.session.async_payment_failed') {
+      return { ...result, outcome: 'FAILED', message: 'Stripe payment failed' };
+    }
+    return result;
+  },
+
+  async refund(order: Order, params: { amount: number; remarks: string; referenceId: string }): Promise<RefundGatewayResponse> {
+    if (!order.paymentBankTransactionId) {
+      throw new PaymentProviderError('The payment has no Stripe payment intent to refund');
+    }
+
+    const refund = await stripeRequest('POST', '/refunds', {
+      payment_intent: order.paymentBankTransactionId,
+      amount: String(Math.round(params.amount * 100)),
+      'metadata[refundId]': params.referenceId,
+      'metadata[remarks]': params.remarks.slice(0, 500)
+    });
+
+    return toRefundResponse(refund);
+  },
+
+  async queryRefund(order: Order, refundRefId: string): Promise<RefundGatewayResponse> {
+    const refund = await stripeRequest('GET', `/refunds/${encodeURIComponent(refundRefId)}`);
+    return toRefundResponse(refund);
+  }
+};
+
+function toRefundResponse(refund: any): RefundGatewayResponse {
+  const status = refund.status === 'succeeded'
+    ? 'refunded'
+    : refund.status === 'failed' || refund.status === 'canceled'
+      ? 'failed'
+      : 'processing';
+
+  return {
+    status,
+    refundRefId: refund.id,
+    errorReason: refund.failure_reason || undefined,
+    raw: refund
+  };
+}
@@ -0,0 +1,91 @@
+import type { Order } from '@prisma/client';
+
+export type PaymentProviderId = 'sslcommerz' | 'bkash' | 'nagad' | 'stripe' | 'cod';
+
+export type PaymentOutcome = 'PAID' | 'PENDING' | 'FAILED' | 'CANCELLED';
+
+export type RefundGatewayStatus = 'success' | 'processing' | 'refunded' | 'failed' | 'cancelled';
+
+export interface RefundGatewayResponse {
+  status: RefundGatewayStatus;
+  refundRefId?: string;
+  errorReason?: string;
+  raw: any;
+}
+
+export interface PaymentCustomer {
+  name: string;
+  email: string;
+  phone: string;
+  address: {
+    fullName?: string;
+    address?: string;
+    city?: string;
+    state?: string;
+    zipCode?: string;
+    country?: string;
+  };
+}
+
+export interface PaymentInitResult {
+  /** Gateway page to send the customer to; null when nothing is paid online */
+  redirectUrl: string | null;
+  transactionId: string | null;
+}
+
+/**
+ * What a gateway told us about a payment, after it has been verified
+ */
+export interface PaymentResult {
+  orderId: string | null;
+  outcome: PaymentOutcome;
+  transactionId?: string | null;
+  validationId?: string | null;
+  bankTransactionId?: string | null;
+  amount?: number | null;
+  currency?: string | null;
+  message?: string;
+  raw?: any;
+}
+
+/**
+ * The parts of an incoming gateway request providers need, independent of Next.js
+ */
+export interface PaymentRequest {
+  query: Record<string, string | string[] | undefined>;
+  body: any;
+  headers: Record<string, string | string[] | undefined>;
+  rawBody?: string;
+}
+
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  /** Stored on Order.paymentMethod and shown to customers */
+  displayName: string;
+  description: string;
+  /** Online providers hold stock until the gateway reports back */
+  isOnline: boolean;
+  isConfigured(): boolean;
+  initPayment(order: Order, customer: PaymentCustomer): Promise<PaymentInitResult>;
+  /** Verify the customer's return from the gateway */
+  validatePayment(request: PaymentRequest): Promise<PaymentResult>;
+  /** Verify a server-to-server payment notification */
+  handleIpn?(request: PaymentRequest): Promise<PaymentResult>;
+  refund?(order: Order, params: { amount: number; remarks: string; referenceId: string }): Promise<RefundGatewayResponse>;
+  queryRefund?(order: Order, refundRefId: string): Promise<RefundGatewayResponse>;
+}
+
+/**
+ * Raised when a payment cannot be started or a gateway request is invalid
+ */
+export class PaymentProviderError extends Error {
+  status: number;
+  details?: any;
+
+  constructor(message: string, status: number = 400, details?: any) {
+    super(message);
+    this.name = 'PaymentProviderError';
+    this.status = status;
+    this.details = details;
+  }
+}
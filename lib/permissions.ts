@@ -0,0 +1,84 @@
+// Shared by the API guard and the admin UI, so it must not load a Prisma client
+
+export const STORE_PERMISSIONS = [
+  'MANAGE_PRODUCTS',
+  'FULFIL_ORDERS',
+  'SEND_CAMPAIGNS',
+  'VIEW_REPORTS',
+  'MANAGE_SETTINGS'
+] as const;
+
+export type StorePermission = typeof STORE_PERMISSIONS[number];
+
+export type StoreRole = 'OWNER' | 'MANAGER' | 'STAFF';
+
+export const PERMISSION_LABELS: Record<StorePermission, string> = {
+  MANAGE_PRODUCTS: 'Manage products',
+  FULFIL_ORDERS: 'Fulfil orders',
+  SEND_CAMPAIGNS: 'Send campaigns',
+  VIEW_REPORTS: 'View reports',
+  MANAGE_SETTINGS: 'Manage settings'
+};
+
+export const ROLE_LABELS: Record<StoreRole, string> = {
+  OWNER: 'Owner',
+  MANAGER: 'Manager',
+  STAFF: 'Staff'
+};
+
+export function isStorePermission(value: unknown): value is StorePermission {
+  return typeof value === 'string' && (STORE_PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Permissions a store member holds. Owners and managers hold all of them;
+ * staff hold the ones they were given.
+ */
+export function getMemberPermissions(role: StoreRole, permissions: readonly string[] = []): StorePermission[] {
+  if (role === 'OWNER' || role === 'MANAGER') {
+    return [...STORE_PERMISSIONS];
+  }
+  return STORE_PERMISSIONS.filter(permission => permissions.includes(permission));
+}
+
+export function hasPermission(role: StoreRole, permissions: readonly string[], permission: StorePermission): boolean {
+  return getMemberPermissions(role, permissions).includes(permission);
+}
+
+/**
+ * Validate the role and permissions given to a staff member or invitation.
+ * Owners are never invited: a store has one owner.
+ * @param body Request body
+ * @param actorRole Role of the member making the change; only owners appoint managers
+ * @returns The role, the permissions and a list of validation errors
+ */
+export function validateStaffInput(
+  body: any,
+  actorRole: StoreRole
+): { data: { role: StoreRole; permissions: StorePermission[] }; errors: string[] } {
+  const errors: string[] = [];
+
+  const role: StoreRole = body.role === undefined ? 'STAFF' : body.role;
+  if (role !== 'MANAGER' && role !== 'STAFF') {
+    errors.push('Role must be MANAGER or STAFF');
+  } else if (role === 'MANAGER' && actorRole !== 'OWNER') {
+    errors.push('Only the store owner can appoint managers');
+  }
+
+  const permissions = Array.isArray(body.permissions) ? body.permissions : [];
+  const unknown = permissions.filter((permission: unknown) => !isStorePermission(permission));
+  if (!Array.isArray(body.permissions) && body.permissions !== undefined) {
+    errors.push('Permissions must be a list');
+  } else if (unknown.length > 0) {
+    errors.push(`Unknown permissions: ${unknown.join(', ')}`);
+  }
+
+  return {
+    data: {
+      role,
+      // Managers hold every permission, so only staff keep a list
+      permissions: role === 'STAFF' ? STORE_PERMISSIONS.filter(permission => permissions.includes(permission)) : []
+    },
+    errors
+  };
+}
@@ -0,0 +1,215 @@
+import type { Prisma } from '@prisma/client';
+
+export interface ProductOptionInput {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariantInput {
+  id?: string;
+  sku?: string | null;
+  options: Record<string, string>;
+  price?: number | null;
+  stock: number;
+  image?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Normalize option axes sent by the admin UI (e.g. [{ name: 'Size', values: ['S', 'M'] }])
+ * @param raw Unvalidated options from the request body
+ * @returns Trimmed options with empty names and duplicate values removed
+ */
+export function normalizeProductOptions(raw: any): ProductOptionInput[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .filter((option: any) => option && typeof option.name === 'string' && option.name.trim())
+    .map((option: any) => ({
+      name: option.name.trim(),
+      values: Array.from(
+        new Set<string>(
+          (Array.isArray(option.values) ? option.values : [])
+            .map((value: any) => String(value).trim())
+            .filter((value: string) => value.length > 0)
+        )
+      )
+    }));
+}
+
+/**
+ * Validate variants against the product's option axes
+ * @param raw Unvalidated variants from the request body
+ * @param options Normalized option axes of the product
+ * @returns Parsed variants and a list of validation errors
+ */
+export function normalizeProductVariants(
+  raw: any,
+  options: ProductOptionInput[]
+): { variants: ProductVariantInput[]; errors: string[] } {
+  const errors: string[] = [];
+  const variants: ProductVariantInput[] = [];
+
+  if (!Array.isArray(raw)) {
+    return { variants, errors };
+  }
+
+  const seenCombinations = new Set<string>();
+  const seenSkus = new Set<string>();
+
+  raw.forEach((variant: any, index: number) => {
+    const selected: Record<string, string> = {};
+
+    for (const option of options) {
+      const value = variant?.options?.[option.name];
+      if (!value || !option.values.includes(value)) {
+        errors.push(`Variant ${index + 1}: invalid value for option "${option.name}"`);
+        return;
+      }
+      selected[option.name] = value;
+    }
+
+    const combination = getVariantKey(selected);
+    if (seenCombinations.has(combination)) {
+      errors.push(`Variant ${index + 1}: duplicate option combination`);
+      return;
+    }
+    seenCombinations.add(combination);
+
+    const sku = typeof variant.sku === 'string' && variant.sku.trim() ? variant.sku.trim() : null;
+    if (sku) {
+      if (seenSkus.has(sku)) {
+        errors.push(`Variant ${index + 1}: duplicate SKU "${sku}"`);
+        return;
+      }
+      seenSkus.add(sku);
+    }
+
+    const price = variant.price === undefined || variant.price === null || variant.price === ''
+      ? null
+      : parseFloat(variant.price);
+    if (price !== null && (isNaN(price) || price < 0)) {
+      errors.push(`Variant ${index + 1}: invalid price`);
+      return;
+    }
+
+    const stock = parseInt(variant.stock) || 0;
+    if (stock < 0) {
+      errors.push(`Variant ${index + 1}: stock cannot be negative`);
+      return;
+    }
+
+    variants.push({
+      id: typeof variant.id === 'string' ? variant.id : undefined,
+      sku,
+      options: selected,
+      price,
+      stock,
+      image: variant.image || null,
+      isActive: variant.isActive === undefined ? true : Boolean(variant.isActive)
+    });
+  });
+
+  return { variants, errors };
+}
+
+/**
+ * Replace the option axes and variants of a product, keeping existing variant IDs
+ * so that cart and order items pointing at them stay linked
+ */
+export async function syncProductVariants(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  options: ProductOptionInput[],
+  variants: ProductVariantInput[]
+): Promise<void> {
+  await tx.productOption.deleteMany({ where: { productId } });
+
+  if (options.length > 0) {
+    await tx.productOption.createMany({
+      data: options.map((option, position) => ({
+        productId,
+        name: option.name,
+        values: option.values,
+        position
+      }))
+    });
+  }
+
+  const keptIds = variants.filter(variant => variant.id).map(variant => variant.id as string);
+
+  await tx.productVariant.deleteMany({
+    where: {
+      productId,
+      ...(keptIds.length > 0 && { id: { notIn: keptIds } })
+    }
+  });
+
+  for (const variant of variants) {
+    const data = {
+      sku: variant.sku ?? null,
+      options: variant.options,
+      price: variant.price ?? null,
+      stock: variant.stock,
+      image: variant.image ?? null,
+      isActive: variant.isActive ?? true
+    };
+
+    const existing = variant.id
+      ? await tx.productVariant.findFirst({ where: { id: variant.id, productId } })
+      : null;
+
+    if (existing) {
+      await tx.productVariant.update({ where: { id: existing.id }, data });
+    } else {
+      await tx.productVariant.create({ data: { ...data, productId } });
+    }
+  }
+}
+
+/**
+ * Resolve the unit price of a product, honouring the variant override
+ */
+export function getVariantPrice(
+  product: { price: number },
+  variant?: { price: number | null } | null
+): number {
+  return variant && variant.price !== null && variant.price !== undefined
+    ? variant.price
+    : product.price;
+}
+
+/**
+ * Resolve the available stock of a product or one of its variants
+ */
+export function getAvailableStock(
+  product: { stock: number },
+  variant?: { stock: number } | null
+): number {
+  return variant ? variant.stock : product.stock;
+}
+
+/**
+ * Build a stable key for an option combination, independent of property order
+ */
+export function getVariantKey(options: Record<string, string>): string {
+  return Object.keys(options)
+    .sort()
+    .map(name => `${name}=${options[name]}`)
+    .join('|');
+}
+
+/**
+ * Format variant options for display (e.g. "Size: M / Color: Red")
+ */
+export function formatVariantLabel(options: unknown): string {
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    return '';
+  }
+
+  return Object.entries(options as Record<string, string>)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(' / ');
+}
@@ -0,0 +1,364 @@
+import { PrismaClient, Prisma, Refund } from '@prisma/client';
+import { restoreStock } from './inventory';
+import { getOrderPaymentProvider, RefundGatewayResponse } from './payments';
+
+const prisma = new PrismaClient();
+
+export interface RefundItemInput {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface RefundableItem {
+  orderItemId: string;
+  productName: string;
+  variantLabel: string | null;
+  quantity: number;
+  refundedQuantity: number;
+  refundableQuantity: number;
+  unitRefundAmount: number;
+}
+
+/**
+ * Raised when a refund request is invalid for the order
+ */
+export class RefundError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'RefundError';
+    this.status = status;
+  }
+}
+
+const REFUNDABLE_PAYMENT_STATUSES = ['PAID', 'PARTIALLY_REFUNDED'];
+
+const orderWithRefunds = {
+  orderItems: {
+    include: {
+      refundItems: {
+        include: { refund: true }
+      }
+    }
+  }
+} satisfies Prisma.OrderInclude;
+
+type OrderWithRefunds = Prisma.OrderGetPayload<{ include: typeof orderWithRefunds }>;
+
+/**
+ * Work out how much of each line can still be refunded. Each unit refunds its
+ * share of what the customer actually paid, so coupon discounts, tax and
+ * shipping are spread across the lines.
+ */
+function computeRefundableItems(order: OrderWithRefunds): RefundableItem[] {
+  const grossTotal = order.subtotal + order.shippingCost + order.taxAmount;
+  const paidRatio = grossTotal > 0 ? order.total / grossTotal : 1;
+
+  return order.orderItems.map(item => {
+    const refundedQuantity = item.refundItems
+      .filter(refundItem => refundItem.refund.status !== 'FAILED')
+      .reduce((sum, refundItem) => sum + refundItem.quantity, 0);
+
+    return {
+      orderItemId: item.id,
+      productName: item.productName,
+      variantLabel: item.variantLabel,
+      quantity: item.quantity,
+      refundedQuantity,
+      refundableQuantity: Math.max(0, item.quantity - refundedQuantity),
+      unitRefundAmount: roundCurrency(item.price * paidRatio)
+    };
+  });
+}
+
+/**
+ * List the lines of an order with their refundable quantities
+ */
+export async function getRefundableItems(orderId: string): Promise<RefundableItem[]> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: orderWithRefunds
+  });
+
+  return order ? computeRefundableItems(order) : [];
+}
+
+/**
+ * Start a full or partial refund of an online payment.
+ * The refunded amount is reserved on the order before the gateway is called,
+ * so two admins cannot refund the same money twice.
+ * @param input.items Lines and quantities being refunded
+ * @param input.amount Optional override of the amount computed from the lines
+ * @param input.restock Whether to return the refunded units to stock once the refund completes.
+ * Ignored for cancelled orders, whose units were returned when they were cancelled.
+ * @throws RefundError
+ */
+export async function createRefund(input: {
+  orderId: string;
+  adminId?: string | null;
+  items: RefundItemInput[];
+  amount?: number | null;
+  reason?: string | null;
+  restock?: boolean;
+}): Promise<Refund> {
+  const order = await prisma.order.findUnique({
+    where: { id: input.orderId },
+    include: orderWithRefunds
+  });
+
+  if (!order) {
+    throw new RefundError('Order not found', 404);
+  }
+
+  const provider = getOrderPaymentProvider(order);
+  if (!provider?.refund) {
+    throw new RefundError(`${order.paymentMethod} payments cannot be refunded online`);
+  }
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    throw new RefundError(`Orders with payment status ${order.paymentStatus} cannot be refunded`);
+  }
+
+  const refundable = computeRefundableItems(order);
+  const refundItems: Array<{ orderItemId: string; quantity: number; amount: number }> = [];
+
+  for (const item of input.items || []) {
+    const quantity = Number(item.quantity);
+    if (!quantity) {
+      continue;
+    }
+
+    const line = refundable.find(r => r.orderItemId === item.orderItemId);
+    if (!line) {
+      throw new RefundError(`Order item ${item.orderItemId} not found`);
+    }
+
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > line.refundableQuantity) {
+      throw new RefundError(`Only ${line.refundableQuantity} of ${line.productName} can be refunded`);
+    }
+
+    refundItems.push({
+      orderItemId: line.orderItemId,
+      quantity,
+      amount: roundCurrency(line.unitRefundAmount * quantity)
+    });
+  }
+
+  const remaining = roundCurrency(order.total - order.refundedAmount);
+  const itemsAmount = roundCurrency(refundItems.reduce((sum, item) => sum + item.amount, 0));
+  let amount = input.amount !== undefined && input.amount !== null && String(input.amount) !== ''
+    ? roundCurrency(Number(input.amount))
+    : itemsAmount;
+
+  // Rounding of per-unit shares may leave a few paisa over the paid amount
+  if (amount > remaining && amount - remaining <= 0.05) {
+    amount = remaining;
+  }
+
+  if (isNaN(amount) || amount <= 0) {
+    throw new RefundError('Select items or enter an amount to refund');
+  }
+
+  if (amount > remaining) {
+    throw new RefundError(`Refund amount cannot exceed ৳${remaining.toFixed(2)}`);
+  }
+
+  const refund = await prisma.$transaction(async (tx) => {
+    const reserved = await tx.order.updateMany({
+      where: {
+        id: order.id,
+        refundedAmount: { lte: order.total - amount + 0.001 }
+      },
+      data: { refundedAmount: { increment: amount } }
+    });
+
+    if (reserved.count === 0) {
+      throw new RefundError('Another refund was issued for this order, please reload', 409);
+    }
+
+    return tx.refund.create({
+      data: {
+        orderId: order.id,
+        amount,
+        reason: input.reason || null,
+        restock: Boolean(input.restock) && order.status !== 'CANCELLED',
+        createdBy: input.adminId || null,
+        items: {
+          create: refundItems
+        }
+      }
+    });
+  });
+
+  let response: RefundGatewayResponse;
+  try {
+    response = await provider.refund(order, {
+      amount,
+      remarks: input.reason || `Refund for order ${order.id}`,
+      referenceId: refund.id
+    });
+  } catch (error) {
+    console.error(`${provider.displayName} refund request failed:`, error);
+    response = {
+      status: 'failed',
+      errorReason: error instanceof Error ? error.message : 'Refund request failed',
+      raw: null
+    };
+  }
+
+  return applyGatewayResponse(refund, response);
+}
+
+/**
+ * Ask the gateway for the latest status of a refund that is still processing
+ */
+export async function refreshRefundStatus(refundId: string): Promise<Refund> {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: { order: true }
+  });
+
+  if (!refund) {
+    throw new RefundError('Refund not found', 404);
+  }
+
+  const provider = getOrderPaymentProvider(refund.order);
+  const { order, ...refundRow } = refund;
+
+  if (refund.status !== 'PROCESSING' || !refund.gatewayRefId || !provider?.queryRefund) {
+    return refundRow;
+  }
+
+  const response = await provider.queryRefund(order, refund.gatewayRefId);
+  return applyGatewayResponse(refundRow, response);
+}
+
+/**
+ * Refresh every refund still processing at the gateway
+ * @returns Number of refunds checked
+ */
+export async function pollProcessingRefunds(): Promise<number> {
+  const refunds = await prisma.refund.findMany({
+    where: { status: 'PROCESSING' },
+    orderBy: { lastCheckedAt: { sort: 'asc', nulls: 'first' } },
+    take: 50
+  });
+
+  for (const refund of refunds) {
+    try {
+      await refreshRefundStatus(refund.id);
+    } catch (error) {
+      console.error(`Failed to refresh refund ${refund.id}:`, error);
+    }
+  }
+
+  return refunds.length;
+}
+
+/**
+ * Store the gateway's answer on the refund and settle the order when the
+ * refund has completed or failed
+ */
+async function applyGatewayResponse(refund: Refund, response: RefundGatewayResponse): Promise<Refund> {
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const baseData = {
+      gatewayRefId: response.refundRefId || refund.gatewayRefId,
+      gatewayResponse: response.raw ?? Prisma.JsonNull,
+      lastCheckedAt: now
+    };
+
+    if (response.status === 'failed' || response.status === 'cancelled') {
+      // Only settle once, even if two polls race
+      const updated = await tx.refund.updateMany({
+        where: { id: refund.id, status: { in: ['PENDING', 'PROCESSING'] } },
+        data: {
+          ...baseData,
+          status: 'FAILED',
+          errorMessage: response.errorReason || `Refund ${response.status}`
+        }
+      });
+
+      if (updated.count === 1) {
+        await tx.order.update({
+          where: { id: refund.orderId },
+          data: { refundedAmount: { decrement: refund.amount } }
+        });
+      }
+    } else if (response.status === 'refunded') {
+      const updated = await tx.refund.updateMany({
+        where: { id: refund.id, status: { in: ['PENDING', 'PROCESSING'] } },
+        data: {
+          ...baseData,
+          status: 'COMPLETED',
+          completedAt: now
+        }
+      });
+
+      // Cancelling the order returned every unit not yet restocked, this one's included
+      const order = await tx.order.findUnique({ where: { id: refund.orderId }, select: { status: true } });
+
+      if (updated.count === 1 && refund.restock && order?.status !== 'CANCELLED') {
+        const items = await tx.refundItem.findMany({
+          where: { refundId: refund.id },
+          include: { orderItem: true }
+        });
+
+        for (const item of items) {
+          await restoreStock(tx, {
+            productId: item.orderItem.productId,
+            variantId: item.orderItem.variantId,
+            quantity: item.quantity
+          });
+        }
+      }
+    } else {
+      await tx.refund.updateMany({
+        where: { id: refund.id, status: { in: ['PENDING', 'PROCESSING'] } },
+        data: {
+          ...baseData,
+          status: 'PROCESSING'
+        }
+      });
+    }
+
+    await syncOrderPaymentStatus(tx, refund.orderId);
+
+    return tx.refund.findUniqueOrThrow({ where: { id: refund.id } });
+  });
+}
+
+/**
+ * Set the order's payment status from its completed refunds
+ */
+async function syncOrderPaymentStatus(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+  const order = await tx.order.findUnique({ where: { id: orderId } });
+  if (!order || !['PAID', 'PARTIALLY_REFUNDED', 'REFUNDED'].includes(order.paymentStatus)) {
+    return;
+  }
+
+  const completed = await tx.refund.aggregate({
+    where: { orderId, status: 'COMPLETED' },
+    _sum: { amount: true }
+  });
+
+  const refunded = completed._sum.amount || 0;
+  const paymentStatus = refunded >= order.total - 0.01
+    ? 'REFUNDED'
+    : refunded > 0
+      ? 'PARTIALLY_REFUNDED'
+      : 'PAID';
+
+  if (paymentStatus !== order.paymentStatus) {
+    await tx.order.update({
+      where: { id: orderId },
+      data: { paymentStatus }
+    });
+  }
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,284 @@
+import { PrismaClient, Prisma, ShippingRate, ShippingRateBasis, ShippingZone, ShippingZoneType } from '@prisma/client';
+import { DHAKA_DISTRICT, normalizeDistrict } from './bangladeshDistricts';
+
+const prisma = new PrismaClient();
+
+/** Used for products whose weight has not been entered */
+export const DEFAULT_ITEM_WEIGHT_KG = 0.5;
+
+export interface ShippingLine {
+  createdBy: string | null;
+  quantity: number;
+  lineTotal: number;
+  // Per-unit weight in kg
+  weight: number | null;
+}
+
+export interface StoreShippingQuote {
+  adminId: string;
+  zoneId: string;
+  zoneName: string;
+  rateId: string;
+  rateName: string;
+  weight: number;
+  cost: number;
+}
+
+export interface ShippingQuote {
+  district: string | null;
+  cost: number;
+  // One entry per store that charges for delivery; each store ships its own parcel
+  stores: StoreShippingQuote[];
+}
+
+export interface ShippingRateInput {
+  name: string;
+  basis: ShippingRateBasis;
+  minValue: number;
+  maxValue: number | null;
+  cost: number;
+}
+
+type ZoneWithRates = ShippingZone & { rates: ShippingRate[] };
+
+/**
+ * Raised when an order cannot be delivered to the requested district
+ */
+export class ShippingError extends Error {
+  details: any;
+
+  constructor(message: string, details: any = null) {
+    super(message);
+    this.name = 'ShippingError';
+    this.details = details;
+  }
+}
+
+const ZONE_TYPES: ShippingZoneType[] = ['INSIDE_DHAKA', 'OUTSIDE_DHAKA', 'DISTRICTS'];
+const RATE_BASES: ShippingRateBasis[] = ['WEIGHT', 'ORDER_TOTAL'];
+
+/**
+ * Validate shipping zone fields submitted from the admin panel
+ * @param body Request body
+ * @param partial Whether missing fields are allowed (updates)
+ * @returns Prisma-ready zone data, the zone's rates when submitted, and a list of validation errors
+ */
+export function validateShippingZoneInput(
+  body: any,
+  partial: boolean = false
+): { data: Partial<Prisma.ShippingZoneUncheckedCreateInput>; rates?: ShippingRateInput[]; errors: string[] } {
+  const errors: string[] = [];
+  const data: Partial<Prisma.ShippingZoneUncheckedCreateInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      errors.push('Name is required');
+    }
+    data.name = name;
+  }
+
+  if (body.type !== undefined || !partial) {
+    if (!ZONE_TYPES.includes(body.type)) {
+      errors.push('Type must be INSIDE_DHAKA, OUTSIDE_DHAKA or DISTRICTS');
+    }
+    data.type = body.type;
+  }
+
+  if (body.districts !== undefined || body.type === 'DISTRICTS') {
+    const submitted: string[] = Array.isArray(body.districts) ? body.districts.map(String) : [];
+    const districts: string[] = [];
+    for (const name of submitted) {
+      const district = normalizeDistrict(name);
+      if (!district) {
+        errors.push(`${name} is not a district of Bangladesh`);
+      } else if (!districts.includes(district)) {
+        districts.push(district);
+      }
+    }
+    if (body.type === 'DISTRICTS' && districts.length === 0) {
+      errors.push('Choose at least one district');
+    }
+    data.districts = districts;
+  }
+
+  if (body.isActive !== undefined) {
+    data.isActive = Boolean(body.isActive);
+  }
+
+  if (body.sortOrder !== undefined) {
+    const sortOrder = parseInt(body.sortOrder);
+    data.sortOrder = isNaN(sortOrder) ? 0 : sortOrder;
+  }
+
+  let rates: ShippingRateInput[] | undefined;
+  if (body.rates !== undefined || !partial) {
+    if (!Array.isArray(body.rates) || body.rates.length === 0) {
+      errors.push('Add at least one rate');
+      rates = [];
+    } else {
+      rates = body.rates.map((rate: any, index: number) => {
+        const label = `Rate ${index + 1}`;
+        const minValue = rate.minValue === undefined || rate.minValue === '' ? 0 : parseFloat(rate.minValue);
+        const maxValue = rate.maxValue === undefined || rate.maxValue === null || rate.maxValue === ''
+          ? null
+          : parseFloat(rate.maxValue);
+        const cost = parseFloat(rate.cost);
+
+        if (!RATE_BASES.includes(rate.basis)) {
+          errors.push(`${label}: basis must be WEIGHT or ORDER_TOTAL`);
+        }
+        if (isNaN(minValue) || minValue < 0) {
+          errors.push(`${label}: minimum must be a positive number`);
+        }
+        if (maxValue !== null && (isNaN(maxValue) || maxValue <= minValue)) {
+          errors.push(`${label}: maximum must be greater than the minimum`);
+        }
+        if (isNaN(cost) || cost < 0) {
+          errors.push(`${label}: cost must be a positive number`);
+        }
+
+        return {
+          name: typeof rate.name === 'string' && rate.name.trim() ? rate.name.trim() : label,
+          basis: rate.basis,
+          minValue: isNaN(minValue) ? 0 : minValue,
+          maxValue,
+          cost: isNaN(cost) ? 0 : cost
+        };
+      });
+    }
+  }
+
+  return { data, rates, errors };
+}
+
+/**
+ * Pick the zone that covers a district. A zone listing the district wins
+ * over the Inside/Outside Dhaka zones; earlier zones win ties.
+ */
+export function findZoneForDistrict<T extends ShippingZone>(zones: T[], district: string): T | null {
+  const sorted = [...zones].sort((a, b) => a.sortOrder - b.sortOrder);
+
+  const listed = sorted.find(zone => zone.type === 'DISTRICTS' && zone.districts.includes(district));
+  if (listed) {
+    return listed;
+  }
+
+  const fallbackType: ShippingZoneType = district === DHAKA_DISTRICT ? 'INSIDE_DHAKA' : 'OUTSIDE_DHAKA';
+  return sorted.find(zone => zone.type === fallbackType) || null;
+}
+
+/**
+ * Pick the cheapest rate whose weight or order value range covers the parcel
+ */
+export function selectShippingRate(
+  rates: ShippingRate[],
+  parcel: { weight: number; subtotal: number }
+): ShippingRate | null {
+  const applicable = rates.filter(rate => {
+    const value = rate.basis === 'WEIGHT' ? parcel.weight : parcel.subtotal;
+    return value >= rate.minValue && (rate.maxValue === null || value < rate.maxValue);
+  });
+
+  if (applicable.length === 0) {
+    return null;
+  }
+
+  return applicable.reduce((cheapest, rate) => (rate.cost < cheapest.cost ? rate : cheapest));
+}
+
+/**
+ * Total shipping weight of some order lines in kg
+ */
+export function getParcelWeight(lines: Array<Pick<ShippingLine, 'quantity' | 'weight'>>): number {
+  const weight = lines.reduce(
+    (sum, line) => sum + line.quantity * (line.weight ?? DEFAULT_ITEM_WEIGHT_KG),
+    0
+  );
+  return Math.round(weight * 1000) / 1000;
+}
+
+/**
+ * Load a store's shipping zones with their rates
+ */
+export async function getShippingZones(adminId: string, activeOnly: boolean = false): Promise<ZoneWithRates[]> {
+  return prisma.shippingZone.findMany({
+    where: { adminId, ...(activeOnly && { isActive: true }) },
+    include: { rates: { orderBy: [{ basis: 'asc' }, { minValue: 'asc' }] } },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }]
+  });
+}
+
+/**
+ * Work out delivery charges for an order. Stores that have not set up any
+ * shipping zones deliver for free.
+ * @param lines Priced order lines
+ * @param district Delivery district as entered by the customer
+ * @throws ShippingError when a store does not deliver to the district
+ */
+export async function quoteShipping(lines: ShippingLine[], district: string | null | undefined): Promise<ShippingQuote> {
+  const storeIds = Array.from(new Set(lines.map(line => line.createdBy).filter((id): id is string => Boolean(id))));
+  const canonicalDistrict = normalizeDistrict(district);
+
+  if (district && !canonicalDistrict) {
+    throw new ShippingError(`${district} is not a district of Bangladesh`, { district });
+  }
+
+  const zones = storeIds.length > 0
+    ? await prisma.shippingZone.findMany({
+        where: { adminId: { in: storeIds }, isActive: true },
+        include: { rates: true }
+      })
+    : [];
+
+  const stores: StoreShippingQuote[] = [];
+
+  for (const adminId of storeIds) {
+    const storeZones = zones.filter(zone => zone.adminId === adminId);
+    if (storeZones.length === 0) {
+      continue;
+    }
+
+    if (!canonicalDistrict) {
+      throw new ShippingError('Please select a delivery district');
+    }
+
+    const zone = findZoneForDistrict(storeZones, canonicalDistrict);
+    if (!zone) {
+      throw new ShippingError(`Delivery to ${canonicalDistrict} is not available for some items`, {
+        district: canonicalDistrict,
+        adminId
+      });
+    }
+
+    const storeLines = lines.filter(line => line.createdBy === adminId);
+    const weight = getParcelWeight(storeLines);
+    const subtotal = storeLines.reduce((sum, line) => sum + line.lineTotal, 0);
+
+    const rate = selectShippingRate(zone.rates, { weight, subtotal });
+    if (!rate) {
+      throw new ShippingError(`No delivery rate covers this order in ${zone.name}`, {
+        district: canonicalDistrict,
+        adminId,
+        weight,
+        subtotal
+      });
+    }
+
+    stores.push({
+      adminId,
+      zoneId: zone.id,
+      zoneName: zone.name,
+      rateId: rate.id,
+      rateName: rate.name,
+      weight,
+      cost: rate.cost
+    });
+  }
+
+  return {
+    district: canonicalDistrict,
+    cost: Math.round(stores.reduce((sum, store) => sum + store.cost, 0) * 100) / 100,
+    stores
+  };
+}
@@ -11,6 +11,40 @@ export interface SMSResponse {
   message: string;
   data?: any;
   failedNumbers?: string[];
+  receipts?: SMSReceipt[]; // One per number sent, in the order given
+}
+
+// What the provider reported for one number of a request
+export interface SMSReceipt {
+  phoneNumber: string; // With the 88 prefix
+  messageId?: string;
+  cost?: number;
+  error?: string;
+  suppressed?: boolean; // Left out of the request, see SMSSendOptions
+}
+
+export interface SMSSendOptions {
+  // Numbers that must not be texted, such as the store's suppression list;
+  // they are left out of the request and reported back as suppressed
+  isSuppressed?: (phoneNumber: string) => boolean;
+}
+
+// A customer's reply to a store's number
+export interface SMSInboundMessage {
+  from: string; // With the 88 prefix
+  text: string;
+}
+
+export const SMS_SUPPRESSED_ERROR = 'The number is on the suppression list';
+
+export type SMSDeliveryStatus = 'SENT' | 'DELIVERED' | 'FAILED';
+
+export interface SMSDeliveryReport {
+  messageId: string;
+  phoneNumber?: string;
+  status: SMSDeliveryStatus;
+  error?: string;
+  cost?: number;
 }
 
 /**
@@ -20,11 +54,12 @@ export interface SMSResponse {
 export async function sendSMSBangladesh(
   config: SMSBangladeshConfig,
   numbers: string[],
-  message: string
+  message: string,
+  options: SMSSendOptions = {}
 ): Promise<SMSResponse> {
   try {
     // Format numbers for SMS Bangladesh API
-    const formattedNumbers = numbers.map(num => {
+    const allNumbers = numbers.map(num => {
       // Remove spaces and ensure proper format
       let formatted = num.replace(/\s/g, '');
       if (formatted.startsWith('0')) {
@@ -35,6 +70,22 @@ export async function sendSMSBangladesh(
       return formatted;
     });
 
+    const suppressed = new Set(options.isSuppressed ? allNumbers.filter(options.isSuppressed) : []);
+    const formattedNumbers = allNumbers.filter(num => !suppressed.has(num));
+    // Receipts cover every number given, in order, suppressed ones included
+    const withSuppressed = (receipts: SMSReceipt[]): SMSReceipt[] => allNumbers.map(phoneNumber => suppressed.has(phoneNumber)
+      ? { phoneNumber, error: SMS_SUPPRESSED_ERROR, suppressed: true }
+      : receipts.find(receipt => receipt.phoneNumber === phoneNumber) || { phoneNumber });
+
+    if (formattedNumbers.length === 0) {
+      return {
+        success: true,
+        message: 'Every number is on the suppression list; nothing was sent',
+        data: { recipients: 0, suppressed: suppressed.size },
+        receipts: withSuppressed([])
+      };
+    }
+
     // Build query parameters for SMS Bangladesh API
     const params = new URLSearchParams({
       user: config.user,
@@ -62,8 +113,10 @@ export async function sendSMSBangladesh(
         data: { 
           response: result, 
           recipients: formattedNumbers.length,
-          formattedNumbers 
-        }
+          formattedNumbers,
+          suppressed: suppressed.size
+        },
+        receipts: withSuppressed(parseSMSReceipts(result, formattedNumbers))
       };
     } else {
       return {
@@ -82,6 +135,101 @@ export async function sendSMSBangladesh(
   }
 }
 
+/**
+ * Match the provider's response to the numbers sent. SMS Bangladesh answers
+ * JSON accounts with a message ID per number, or one for the whole request,
+ * and older accounts with plain text, which carries no IDs.
+ */
+export function parseSMSReceipts(responseText: string, formattedNumbers: string[]): SMSReceipt[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(responseText);
+  } catch {
+    parsed = null;
+  }
+
+  const entries: any[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(parsed?.data) ? parsed.data
+    : Array.isArray(parsed?.messages) ? parsed.messages
+    : [];
+  const requestId = parsed && !Array.isArray(parsed) ? getMessageId(parsed) : undefined;
+
+  return formattedNumbers.map(phoneNumber => {
+    const entry = entries.find(item => formatSMSRecipient(item?.to ?? item?.number ?? item?.mobile ?? item?.msisdn) === phoneNumber);
+    if (!entry) {
+      return { phoneNumber, messageId: requestId };
+    }
+
+    return {
+      phoneNumber,
+      messageId: getMessageId(entry) ?? requestId,
+      cost: parseCost(entry.cost ?? entry.charge),
+      error: entry.error || (isFailureStatus(entry.status) ? String(entry.status) : undefined)
+    };
+  });
+}
+
+/**
+ * Read a delivery report SMS Bangladesh sends to the callback URL, from its
+ * query string or body
+ * @returns null when it doesn't name a message
+ */
+export function parseSMSDeliveryReport(params: Record<string, any>): SMSDeliveryReport | null {
+  const messageId = getMessageId(params);
+  if (!messageId) {
+    return null;
+  }
+
+  const rawStatus = String(params.status ?? params.dlr_status ?? params.stat ?? '');
+  const status: SMSDeliveryStatus = /^(delivered|delivrd|success)$/i.test(rawStatus)
+    ? 'DELIVERED'
+    : isFailureStatus(rawStatus) ? 'FAILED' : 'SENT';
+
+  return {
+    messageId,
+    phoneNumber: formatSMSRecipient(params.to ?? params.number ?? params.mobile ?? params.msisdn) || undefined,
+    status,
+    error: status === 'FAILED' ? (params.error || params.reason || rawStatus) : undefined,
+    cost: parseCost(params.cost ?? params.charge)
+  };
+}
+
+/**
+ * Read a customer's reply SMS Bangladesh forwards to the callback URL
+ * @returns null when the request isn't a reply, e.g. a delivery report
+ */
+export function parseSMSInboundMessage(params: Record<string, any>): SMSInboundMessage | null {
+  const from = params.from ?? params.sender ?? params.mobile ?? params.msisdn;
+  const text = params.text ?? params.message ?? params.sms ?? params.body;
+  if (!from || typeof text !== 'string' || getMessageId(params)) {
+    return null;
+  }
+
+  return { from: formatSMSRecipient(from), text };
+}
+
+function getMessageId(source: any): string | undefined {
+  const id = source?.message_id ?? source?.messageId ?? source?.msg_id ?? source?.sms_id;
+  return id !== undefined && id !== null && id !== '' ? String(id) : undefined;
+}
+
+function isFailureStatus(status: unknown): boolean {
+  return typeof status === 'string' && /^(failed|undeliv|undelivered|rejected|rejectd|expired|error)$/i.test(status);
+}
+
+function parseCost(value: unknown): number | undefined {
+  const cost = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isNaN(cost) ? undefined : cost;
+}
+
+/**
+ * A recipient as SMS Bangladesh reports it back: no leading +, with the 88 prefix
+ */
+export function formatSMSRecipient(value: unknown): string {
+  return value === undefined || value === null ? '' : formatBangladeshPhoneNumbers([String(value).replace(/^\+/, '')])[0];
+}
+
 /**
  * Validate phone numbers for Bangladesh
  */
@@ -126,13 +274,19 @@ export function validateSMSMessage(message: string): boolean {
 }
 
 /**
- * Get SMS Bangladesh configuration from environment variables
+ * The platform's own SMS Bangladesh account, used for messages the platform
+ * sends to store owners rather than a store's campaigns
+ * @returns The configuration, or null if SMS_BANGLADESH_* is not set
  */
-export function getSMSBangladeshConfig(): SMSBangladeshConfig {
+export function getPlatformSMSConfig(): SMSBangladeshConfig | null {
+  if (!process.env.SMS_BANGLADESH_USER || !process.env.SMS_BANGLADESH_PASSWORD) {
+    return null;
+  }
+
   return {
-    baseUrl: 'https://panel.smsbangladesh.com/api',
-    user: process.env.NEXT_PUBLIC_SMS_BANGLADESH_USER || '',
-    password: process.env.NEXT_PUBLIC_SMS_BANGLADESH_PASSWORD || '',
-    from: process.env.NEXT_PUBLIC_SMS_BANGLADESH_FROM || 'ECOMMERCE'
+    baseUrl: process.env.SMS_BANGLADESH_BASE_URL || 'https://panel.smsbangladesh.com/api',
+    user: process.env.SMS_BANGLADESH_USER,
+    password: process.env.SMS_BANGLADESH_PASSWORD,
+    from: process.env.SMS_BANGLADESH_FROM || 'ECOMMERCE'
   };
 }
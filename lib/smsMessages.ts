@@ -0,0 +1,151 @@
+import { Prisma, PrismaClient, SMSMessage } from '@prisma/client';
+import { SMSDeliveryReport, SMSResponse, formatSMSRecipient } from './sms-bangladesh';
+import { suppressFailedRecipient } from './suppressionList';
+
+const prisma = new PrismaClient();
+
+export interface SMSCampaignCounts {
+  deliveredCount: number; // Accepted by the provider and not reported failed since
+  failedCount: number;
+  suppressedCount: number;
+}
+
+/**
+ * Give each recipient of a campaign a QUEUED message, unless it already has
+ * messages from an earlier send
+ * @returns How many messages the campaign has
+ */
+export async function createSMSMessages(campaignId: string, recipients: string[]): Promise<number> {
+  const existing = await prisma.sMSMessage.count({ where: { campaignId } });
+  if (existing > 0) {
+    return existing;
+  }
+
+  const created = await prisma.sMSMessage.createMany({
+    data: recipients.map(recipient => ({ campaignId, phoneNumber: formatSMSRecipient(recipient) }))
+  });
+  return created.count;
+}
+
+/**
+ * Record what the provider said about each message of a batch it accepted
+ */
+export async function recordSMSBatch(messages: SMSMessage[], smsResult: SMSResponse) {
+  const sentAt = new Date();
+  const failedNumbers = new Set(smsResult.failedNumbers || []);
+
+  await prisma.$transaction(messages.map((message, index) => {
+    const receipt = smsResult.receipts?.[index];
+    const error = receipt?.error || (failedNumbers.has(message.phoneNumber) ? smsResult.message : undefined);
+
+    return prisma.sMSMessage.update({
+      where: { id: message.id },
+      data: {
+        status: receipt?.suppressed ? 'SUPPRESSED' : error ? 'FAILED' : 'SENT',
+        providerMessageId: receipt?.messageId,
+        cost: receipt?.cost,
+        error,
+        sentAt
+      }
+    });
+  }));
+}
+
+/**
+ * Recount a campaign's totals from its messages
+ */
+export async function refreshSMSCampaignCounts(campaignId: string): Promise<SMSCampaignCounts> {
+  const [groups, failed] = await Promise.all([
+    prisma.sMSMessage.groupBy({
+      by: ['status'],
+      where: { campaignId },
+      _count: { _all: true }
+    }),
+    prisma.sMSMessage.findMany({
+      where: { campaignId, status: 'FAILED' },
+      select: { phoneNumber: true }
+    })
+  ]);
+
+  const countOf = (status: string) => groups.find(group => group.status === status)?._count._all || 0;
+  const counts = {
+    deliveredCount: countOf('SENT') + countOf('DELIVERED'),
+    failedCount: countOf('FAILED'),
+    suppressedCount: countOf('SUPPRESSED')
+  };
+
+  await prisma.sMSCampaign.update({
+    where: { id: campaignId },
+    data: { ...counts, failedNumbers: failed.map(message => message.phoneNumber) }
+  });
+
+  return counts;
+}
+
+/**
+ * Apply a delivery report to the messages it names. A message already
+ * confirmed delivered is not moved back by a late intermediate report.
+ * @returns How many messages were updated
+ */
+export async function applySMSDeliveryReport(report: SMSDeliveryReport): Promise<number> {
+  const where: Prisma.SMSMessageWhereInput = {
+    providerMessageId: report.messageId,
+    ...(report.phoneNumber && { phoneNumber: report.phoneNumber }),
+    ...(report.status === 'SENT' && { status: { not: 'DELIVERED' } })
+  };
+
+  const messages = await prisma.sMSMessage.findMany({
+    where,
+    select: { id: true, campaignId: true, phoneNumber: true, campaign: { select: { storeId: true } } }
+  });
+  if (messages.length === 0) {
+    return 0;
+  }
+
+  await prisma.sMSMessage.updateMany({
+    where: { id: { in: messages.map(message => message.id) } },
+    data: {
+      status: report.status,
+      error: report.status === 'FAILED' ? report.error || 'Not delivered' : null,
+      ...(report.status === 'DELIVERED' && { deliveredAt: new Date() }),
+      ...(report.cost !== undefined && { cost: report.cost })
+    }
+  });
+
+  // Numbers the provider says don't exist go on the store's suppression list
+  if (report.status === 'FAILED' && report.error) {
+    for (const message of messages) {
+      if (message.campaign.storeId) {
+        await suppressFailedRecipient(message.campaign.storeId, 'SMS', message.phoneNumber, { error: report.error });
+      }
+    }
+  }
+
+  for (const campaignId of Array.from(new Set(messages.map(message => message.campaignId)))) {
+    await refreshSMSCampaignCounts(campaignId);
+  }
+
+  return messages.length;
+}
+
+/**
+ * Put a campaign's failed messages back in the queue for another send
+ * @returns How many messages were queued again
+ */
+export async function requeueFailedSMSMessages(campaignId: string, tx: Prisma.TransactionClient): Promise<number> {
+  const requeued = await tx.sMSMessage.updateMany({
+    where: { campaignId, status: 'FAILED' },
+    data: { status: 'QUEUED', providerMessageId: null, cost: null, error: null, sentAt: null }
+  });
+  return requeued.count;
+}
+
+/**
+ * Fail the messages a campaign did not get to, e.g. once its job gives up
+ */
+export async function failQueuedSMSMessages(campaignId: string, error: string) {
+  await prisma.sMSMessage.updateMany({
+    where: { campaignId, status: 'QUEUED' },
+    data: { status: 'FAILED', error }
+  });
+}
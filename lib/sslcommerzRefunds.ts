@@ -0,0 +1,150 @@
+import type { RefundGatewayResponse, RefundGatewayStatus } from './payments/types';
+const SSLCommerzPayment = require('sslcommerz-lts');
+
+export interface RefundGateway {
+  initiateRefund(params: {
+    bankTransactionId: string;
+    amount: number;
+    remarks: string;
+    referenceId: string;
+  }): Promise<RefundGatewayResponse>;
+  queryRefund(refundRefId: string): Promise<RefundGatewayResponse>;
+}
+
+/**
+ * Normalize the status strings returned by the SSLCommerz refund APIs
+ */
+function normalizeStatus(status: unknown): RefundGatewayStatus {
+  switch (String(status || '').toLowerCase()) {
+    case 'success':
+      return 'success';
+    case 'processing':
+      return 'processing';
+    case 'refunded':
+      return 'refunded';
+    case 'cancelled':
+      return 'cancelled';
+    default:
+      return 'failed';
+  }
+}
+
+/**
+ * Refunds through the SSLCommerz merchant refund API
+ */
+class SSLCommerzRefundGateway implements RefundGateway {
+  private client: any;
+
+  constructor() {
+    this.client = new SSLCommerzPayment(
+      process.env.SSLCOMMERZ_STORE_ID,
+      process.env.SSLCOMMERZ_STORE_PASSWORD,
+      process.env.SSLCOMMERZ_IS_LIVE === 'true'
+    );
+  }
+
+  async initiateRefund(params: {
+    bankTransactionId: string;
+    amount: number;
+    remarks: string;
+    referenceId: string;
+  }): Promise<RefundGatewayResponse> {
+    const response = await this.client.initiateRefund({
+      refund_amount: params.amount.toFixed(2),
+      refund_remarks: encodeURIComponent(params.remarks),
+      bank_tran_id: params.bankTransactionId,
+      refe_id: params.referenceId
+    });
+
+    return {
+      status: response?.APIConnect === 'DONE' ? normalizeStatus(response.status) : 'failed',
+      refundRefId: response?.refund_ref_id,
+      errorReason: response?.errorReason || (response?.APIConnect !== 'DONE' ? `API connect: ${response?.APIConnect}` : undefined),
+      raw: response
+    };
+  }
+
+  async queryRefund(refundRefId: string): Promise<RefundGatewayResponse> {
+    const response = await this.client.refundQuery({ refund_ref_id: refundRefId });
+
+    return {
+      status: response?.APIConnect === 'DONE' ? normalizeStatus(response.status) : 'processing',
+      refundRefId,
+      errorReason: response?.errorReason,
+      raw: response
+    };
+  }
+}
+
+/**
+ * Local stand-in for development and tests. The outcome is controlled with
+ * SSLCOMMERZ_MOCK_REFUND_RESULT: 'refunded' (default), 'processing' or 'failed'.
+ */
+class MockRefundGateway implements RefundGateway {
+  async initiateRefund(params: {
+    bankTransactionId: string;
+    amount: number;
+    remarks: string;
+    referenceId: string;
+  }): Promise<RefundGatewayResponse> {
+    const result = process.env.SSLCOMMERZ_MOCK_REFUND_RESULT || 'refunded';
+
+    if (result === 'failed') {
+      return {
+        status: 'failed',
+        errorReason: 'Mock refund rejected',
+        raw: { APIConnect: 'DONE', status: 'failed', errorReason: 'Mock refund rejected' }
+      };
+    }
+
+    const refundRefId = `MOCK-${params.referenceId}`;
+    return {
+      status: 'success',
+      refundRefId,
+      raw: {
+        APIConnect: 'DONE',
+        bank_tran_id: params.bankTransactionId,
+        refund_ref_id: refundRefId,
+        status: 'success'
+      }
+    };
+  }
+
+  async queryRefund(refundRefId: string): Promise<RefundGatewayResponse> {
+    const status = normalizeStatus(process.env.SSLCOMMERZ_MOCK_REFUND_RESULT || 'refunded');
+
+    return {
+      status,
+      refundRefId,
+      raw: { APIConnect: 'DONE', refund_ref_id: refundRefId, status }
+    };
+  }
+}
+
+/**
+ * Get the refund gateway. Set SSLCOMMERZ_REFUND_MOCK=true to use the local mock.
+ */
+export function getRefundGateway(): RefundGateway {
+  if (process.env.SSLCOMMERZ_REFUND_MOCK === 'true') {
+    return new MockRefundGateway();
+  }
+  return new SSLCommerzRefundGateway();
+}
+
+/**
+ * Look up the bank transaction ID of a validated payment, needed to refund it
+ */
+export async function fetchBankTransactionId(validationId: string): Promise<string | null> {
+  if (process.env.SSLCOMMERZ_REFUND_MOCK === 'true') {
+    return `MOCK-BANK-${validationId}`;
+  }
+
+  const client = new SSLCommerzPayment(
+    process.env.SSLCOMMERZ_STORE_ID,
+    process.env.SSLCOMMERZ_STORE_PASSWORD,
+    process.env.SSLCOMMERZ_IS_LIVE === 'true'
+  );
+
+  const validation = await client.validate({ val_id: validationId });
+  return validation?.bank_tran_id || null;
+}
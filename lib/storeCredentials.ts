@@ -0,0 +1,422 @@
+import crypto from 'crypto';
+import { MessagingProvider, Prisma, PrismaClient, StoreCredential } from '@prisma/client';
+import {
+  sendSMSBangladesh,
+  SMSBangladeshConfig,
+  validateBangladeshPhoneNumbers
+} from './sms-bangladesh';
+import WhatsAppBusinessAPI, { WhatsAppConfig } from './whatsapp-business';
+
+const prisma = new PrismaClient();
+
+const ENCRYPTION_VERSION = 'v1';
+const SMS_BANGLADESH_BASE_URL = 'https://panel.smsbangladesh.com/api';
+const DEFAULT_SMS_SENDER = 'ECOMMERCE';
+const DEFAULT_WHATSAPP_API_VERSION = 'v23.0';
+
+export const MESSAGING_PROVIDERS: MessagingProvider[] = ['SMS_BANGLADESH', 'WHATSAPP_CLOUD'];
+
+interface SMSBangladeshCredentials {
+  user: string;
+  password: string;
+  from: string;
+}
+
+interface WhatsAppCloudCredentials {
+  accessToken: string;
+  phoneNumberId: string;
+  businessAccountId: string;
+  apiVersion: string;
+}
+
+interface ProviderCredentials {
+  SMS_BANGLADESH: SMSBangladeshCredentials;
+  WHATSAPP_CLOUD: WhatsAppCloudCredentials;
+}
+
+/**
+ * What the admin sees of a saved credential. Secrets are never included.
+ */
+export interface CredentialSummary {
+  provider: MessagingProvider;
+  configured: boolean;
+  settings: Record<string, string> | null; // The non-secret fields
+  unreadable: boolean; // Saved with a different encryption key and must be entered again
+  lastTestedAt: Date | null;
+  lastTestSucceeded: boolean | null;
+  lastTestError: string | null;
+  updatedAt: Date | null;
+}
+
+export interface CredentialTestResult {
+  success: boolean;
+  message: string;
+  summary: CredentialSummary;
+}
+
+/**
+ * Raised when credentials can't be saved, read or tested
+ */
+export class CredentialError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'CredentialError';
+    this.status = status;
+  }
+}
+
+export function isMessagingProvider(value: unknown): value is MessagingProvider {
+  return typeof value === 'string' && MESSAGING_PROVIDERS.includes(value as MessagingProvider);
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new CredentialError('Credential encryption is not configured; set CREDENTIALS_ENCRYPTION_KEY', 500);
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * AES-256-GCM, stored as version:iv:tag:ciphertext in base64. Also used for
+ * other secrets kept in the database, such as certificate keys.
+ */
+export function encrypt(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [
+    ENCRYPTION_VERSION,
+    iv.toString('base64'),
+    cipher.getAuthTag().toString('base64'),
+    ciphertext.toString('base64')
+  ].join(':');
+}
+
+export function decrypt(value: string): string {
+  const [version, iv, tag, ciphertext] = value.split(':');
+  if (version !== ENCRYPTION_VERSION || !iv || !tag || !ciphertext) {
+    throw new CredentialError('Stored credentials are in an unknown format', 500);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new CredentialError('Stored credentials could not be decrypted; save them again', 500);
+  }
+}
+
+function readCredentials<P extends MessagingProvider>(credential: StoreCredential & { provider: P }): ProviderCredentials[P] {
+  return JSON.parse(decrypt(credential.encryptedConfig));
+}
+
+async function loadCredentials<P extends MessagingProvider>(
+  storeId: string,
+  provider: P
+): Promise<ProviderCredentials[P] | null> {
+  const credential = await prisma.storeCredential.findUnique({
+    where: { storeId_provider: { storeId, provider } }
+  });
+  return credential ? readCredentials(credential as StoreCredential & { provider: P }) : null;
+}
+
+/**
+ * The store's SMS Bangladesh account, or null if it hasn't set one up
+ */
+export async function getStoreSMSConfig(storeId: string): Promise<SMSBangladeshConfig | null> {
+  const credentials = await loadCredentials(storeId, 'SMS_BANGLADESH');
+  if (!credentials) {
+    return null;
+  }
+
+  return {
+    baseUrl: SMS_BANGLADESH_BASE_URL,
+    user: credentials.user,
+    password: credentials.password,
+    from: credentials.from
+  };
+}
+
+/**
+ * The store's WhatsApp Cloud API account, or null if it hasn't set one up
+ */
+export async function getStoreWhatsAppConfig(storeId: string): Promise<WhatsAppConfig | null> {
+  const credentials = await loadCredentials(storeId, 'WHATSAPP_CLOUD');
+  if (!credentials) {
+    return null;
+  }
+
+  return {
+    ...credentials,
+    // The webhook endpoint is shared by every store
+    webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN || ''
+  };
+}
+
+/**
+ * Whether the store has saved credentials for a provider, without decrypting them
+ */
+export async function hasStoreCredentials(storeId: string, provider: MessagingProvider): Promise<boolean> {
+  const count = await prisma.storeCredential.count({ where: { storeId, provider } });
+  return count > 0;
+}
+
+function getSettings(credential: StoreCredential): Record<string, string> {
+  if (credential.provider === 'SMS_BANGLADESH') {
+    const { user, from } = readCredentials(credential as StoreCredential & { provider: 'SMS_BANGLADESH' });
+    return { user, from };
+  }
+
+  const { phoneNumberId, businessAccountId, apiVersion } =
+    readCredentials(credential as StoreCredential & { provider: 'WHATSAPP_CLOUD' });
+  return { phoneNumberId, businessAccountId, apiVersion };
+}
+
+function toSummary(provider: MessagingProvider, credential: StoreCredential | null): CredentialSummary {
+  if (!credential) {
+    return {
+      provider,
+      configured: false,
+      settings: null,
+      unreadable: false,
+      lastTestedAt: null,
+      lastTestSucceeded: null,
+      lastTestError: null,
+      updatedAt: null
+    };
+  }
+
+  let settings: Record<string, string> | null = null;
+  try {
+    settings = getSettings(credential);
+  } catch (error) {
+    if (!(error instanceof CredentialError)) {
+      throw error;
+    }
+  }
+
+  return {
+    provider,
+    configured: true,
+    settings,
+    unreadable: !settings,
+    lastTestedAt: credential.lastTestedAt,
+    lastTestSucceeded: credential.lastTestSucceeded,
+    lastTestError: credential.lastTestError,
+    updatedAt: credential.updatedAt
+  };
+}
+
+/**
+ * Every provider with what the store has saved for it
+ */
+export async function getCredentialSummaries(storeId: string): Promise<CredentialSummary[]> {
+  const credentials = await prisma.storeCredential.findMany({ where: { storeId } });
+
+  return MESSAGING_PROVIDERS.map(provider => toSummary(
+    provider,
+    credentials.find(credential => credential.provider === provider) || null
+  ));
+}
+
+function getText(input: Record<string, unknown>, field: string): string {
+  const value = input[field];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Check the submitted fields. A blank secret keeps the one already saved, so
+ * the admin can change other settings without entering it again.
+ */
+function validateCredentials<P extends MessagingProvider>(
+  provider: P,
+  input: Record<string, unknown>,
+  existing: ProviderCredentials[P] | null
+): ProviderCredentials[P] {
+  if (provider === 'SMS_BANGLADESH') {
+    const previous = existing as SMSBangladeshCredentials | null;
+    const user = getText(input, 'user');
+    const password = getText(input, 'password') || previous?.password || '';
+    const from = getText(input, 'from') || DEFAULT_SMS_SENDER;
+
+    if (!user || !password) {
+      throw new CredentialError('SMS Bangladesh username and password are required');
+    }
+    if (from.length > 20) {
+      throw new CredentialError('Sender ID cannot exceed 20 characters');
+    }
+
+    return { user, password, from } as ProviderCredentials[P];
+  }
+
+  const previous = existing as WhatsAppCloudCredentials | null;
+  const accessToken = getText(input, 'accessToken') || previous?.accessToken || '';
+  const phoneNumberId = getText(input, 'phoneNumberId');
+  const businessAccountId = getText(input, 'businessAccountId');
+  const apiVersion = getText(input, 'apiVersion') || DEFAULT_WHATSAPP_API_VERSION;
+
+  if (!accessToken) {
+    throw new CredentialError('WhatsApp access token is required');
+  }
+  if (!/^\d+$/.test(phoneNumberId)) {
+    throw new CredentialError('Phone number ID must be the numeric ID shown in the Meta app dashboard');
+  }
+  if (businessAccountId && !/^\d+$/.test(businessAccountId)) {
+    throw new CredentialError('Business account ID must be numeric');
+  }
+  if (!/^v\d+\.\d+$/.test(apiVersion)) {
+    throw new CredentialError('API version must look like v23.0');
+  }
+
+  return { accessToken, phoneNumberId, businessAccountId, apiVersion } as ProviderCredentials[P];
+}
+
+/**
+ * Encrypt and save a store's credentials for a provider. Saving WhatsApp
+ * credentials also routes messages sent to their phone number to the store.
+ */
+export async function saveStoreCredentials(
+  storeId: string,
+  provider: MessagingProvider,
+  input: Record<string, unknown>
+): Promise<CredentialSummary> {
+  let existing: ProviderCredentials[typeof provider] | null = null;
+  try {
+    existing = await loadCredentials(storeId, provider);
+  } catch (error) {
+    // Unreadable credentials are replaced, so every secret has to be entered again
+    if (!(error instanceof CredentialError)) {
+      throw error;
+    }
+  }
+
+  const credentials = validateCredentials(provider, input, existing);
+  const data = {
+    encryptedConfig: encrypt(JSON.stringify(credentials)),
+    // The old test result says nothing about the new settings
+    lastTestedAt: null,
+    lastTestSucceeded: null,
+    lastTestError: null
+  };
+
+  try {
+    const credential = await prisma.$transaction(async (tx) => {
+      if (provider === 'WHATSAPP_CLOUD') {
+        await tx.store.update({
+          where: { id: storeId },
+          data: { whatsappPhoneNumberId: (credentials as WhatsAppCloudCredentials).phoneNumberId }
+        });
+      }
+
+      return tx.storeCredential.upsert({
+        where: { storeId_provider: { storeId, provider } },
+        create: { storeId, provider, ...data },
+        update: data
+      });
+    });
+
+    return toSummary(provider, credential);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new CredentialError('This WhatsApp phone number is already connected to another store', 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Forget a store's credentials for a provider
+ */
+export async function deleteStoreCredentials(storeId: string, provider: MessagingProvider): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    await tx.storeCredential.deleteMany({ where: { storeId, provider } });
+
+    if (provider === 'WHATSAPP_CLOUD') {
+      await tx.store.update({
+        where: { id: storeId },
+        data: { whatsappPhoneNumberId: null }
+      });
+    }
+  });
+}
+
+async function runConnectionTest(
+  storeId: string,
+  provider: MessagingProvider,
+  testNumber: string | undefined
+): Promise<string> {
+  if (provider === 'SMS_BANGLADESH') {
+    const config = await getStoreSMSConfig(storeId);
+    if (!config) {
+      throw new CredentialError('SMS Bangladesh is not set up', 404);
+    }
+
+    // SMS Bangladesh has no way to check an account without sending something
+    const [recipient] = validateBangladeshPhoneNumbers([testNumber || '']);
+    if (!recipient) {
+      throw new CredentialError('A valid phone number is required to send the test SMS');
+    }
+
+    const result = await sendSMSBangladesh(
+      config,
+      [recipient],
+      `Test SMS from ${config.from}. Your SMS configuration is working correctly! Time: ${new Date().toLocaleString()}`
+    );
+    const error = result.receipts?.[0]?.error;
+    if (!result.success || error) {
+      throw new Error(error || result.message);
+    }
+    return `Test SMS sent to ${recipient}`;
+  }
+
+  const config = await getStoreWhatsAppConfig(storeId);
+  if (!config) {
+    throw new CredentialError('WhatsApp is not set up', 404);
+  }
+
+  const info = await new WhatsAppBusinessAPI(config).getPhoneNumberInfo();
+  const number = [info?.display_phone_number, info?.verified_name && `(${info.verified_name})`]
+    .filter(Boolean)
+    .join(' ');
+  return number ? `Connected to ${number}` : 'Connected to WhatsApp';
+}
+
+/**
+ * Check the saved credentials against the provider and remember the outcome
+ */
+export async function testStoreCredentials(
+  storeId: string,
+  provider: MessagingProvider,
+  options: { testNumber?: string } = {}
+): Promise<CredentialTestResult> {
+  let message: string;
+  let success: boolean;
+
+  try {
+    message = await runConnectionTest(storeId, provider, options.testNumber);
+    success = true;
+  } catch (error) {
+    // Nothing was tested, so there is no result to record
+    if (error instanceof CredentialError) {
+      throw error;
+    }
+    message = error instanceof Error ? error.message : 'Unknown error';
+    success = false;
+  }
+
+  const credential = await prisma.storeCredential.update({
+    where: { storeId_provider: { storeId, provider } },
+    data: {
+      lastTestedAt: new Date(),
+      lastTestSucceeded: success,
+      lastTestError: success ? null : message
+    }
+  });
+
+  return { success, message, summary: toSummary(provider, credential) };
+}
@@ -0,0 +1,93 @@
+import { PrismaClient, Prisma, StoreRole } from '@prisma/client';
+import { getMemberPermissions, StorePermission } from './permissions';
+
+const prisma = new PrismaClient();
+
+export interface StoreMembership {
+  id: string;
+  name: string;
+  subdomain: string;
+  role: StoreRole;
+  permissions: StorePermission[];
+}
+
+// Owners first, so a user's primary store is the one they own
+const ROLE_ORDER: StoreRole[] = [StoreRole.OWNER, StoreRole.MANAGER, StoreRole.STAFF];
+
+/**
+ * Stores a user is a member of, with their role in each
+ */
+export async function getUserStores(userId: string): Promise<StoreMembership[]> {
+  const memberships = await prisma.storeMember.findMany({
+    where: { userId },
+    include: {
+      store: {
+        select: { id: true, name: true, subdomain: true }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  return memberships
+    .map(membership => ({
+      ...membership.store,
+      role: membership.role,
+      permissions: getMemberPermissions(membership.role, membership.permissions)
+    }))
+    .sort((a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role));
+}
+
+/**
+ * The store a user manages when no store is named, e.g. on the main domain
+ * @returns null when the user is not a member of any store
+ */
+export async function getPrimaryStore(userId: string): Promise<StoreMembership | null> {
+  const stores = await getUserStores(userId);
+  return stores[0] || null;
+}
+
+/**
+ * A user's role and permissions in a store
+ * @returns null when the user is not a member of the store
+ */
+export async function getStoreMembership(
+  storeId: string,
+  userId: string
+): Promise<{ role: StoreRole; permissions: StorePermission[] } | null> {
+  const membership = await prisma.storeMember.findUnique({
+    where: { storeId_userId: { storeId, userId } },
+    select: { role: true, permissions: true }
+  });
+
+  if (!membership) {
+    return null;
+  }
+
+  return {
+    role: membership.role,
+    permissions: getMemberPermissions(membership.role, membership.permissions)
+  };
+}
+
+/**
+ * Create a store with the given user as its owner
+ */
+export async function createStore(
+  tx: Prisma.TransactionClient,
+  input: { name: string; subdomain: string; ownerId: string; contactEmail?: string | null; contactPhone?: string | null }
+) {
+  return tx.store.create({
+    data: {
+      name: input.name,
+      subdomain: input.subdomain,
+      contactEmail: input.contactEmail || null,
+      contactPhone: input.contactPhone || null,
+      members: {
+        create: {
+          userId: input.ownerId,
+          role: StoreRole.OWNER
+        }
+      }
+    }
+  });
+}
@@ -1,9 +1,12 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Store } from '@prisma/client';
+import { extractSubdomain, isPlatformHost, normalizeHost } from './domainRouting';
+
+export { extractSubdomain };
 
 const prisma = new PrismaClient();
 
 /**
- * Generates a unique subdomain for an admin user
+ * Generates a unique store subdomain from the owner's name
  * @param firstName First name of the admin
  * @param lastName Last name of the admin
  * @returns A unique subdomain string
@@ -20,11 +23,11 @@ export async function generateUniqueSubdomain(firstName: string, lastName: strin
   let counter = 1;
   
   while (true) {
-    const existingUser = await prisma.user.findUnique({
+    const existingStore = await prisma.store.findUnique({
       where: { subdomain },
     });
     
-    if (!existingUser) {
+    if (!existingStore) {
       return subdomain;
     }
     
@@ -35,48 +38,38 @@ export async function generateUniqueSubdomain(firstName: string, lastName: strin
 }
 
 /**
- * Extracts subdomain from hostname
- * @param host The hostname from request headers
- * @returns The subdomain or null if no subdomain
+ * Find the active store with a subdomain
+ * @param subdomain The store's subdomain
+ * @returns The store, or null if there is none
  */
-export function extractSubdomain(host: string): string | null {
-  // Handle localhost for development
-  if (host.includes('localhost')) {
-    const parts = host.split('.');
-    if (parts.length > 1) {
-      return parts[0];
-    }
-    return null;
-  }
-  
-  // Handle production domains
-  const parts = host.split('.');
-  if (parts.length > 2) {
-    return parts[0];
-  }
-  
-  return null;
+export async function getStoreBySubdomain(subdomain: string): Promise<Store | null> {
+  const store = await prisma.store.findUnique({
+    where: { subdomain },
+  });
+
+  return store && store.status === 'ACTIVE' ? store : null;
 }
 
 /**
- * Check if the host is a custom domain and get the associated admin
+ * Check if the host is a custom domain and get the store it points to
  * @param host The hostname from request headers
- * @returns Admin user data if custom domain, null otherwise
+ * @returns The store if custom domain, null otherwise
  */
-export async function getAdminByCustomDomain(host: string) {
+export async function getStoreByCustomDomain(host: string): Promise<Store | null> {
   try {
     const customDomain = await prisma.customDomain.findFirst({
       where: {
-        domain: host,
+        domain: normalizeHost(host),
         isActive: true,
-        status: 'ACTIVE'
+        status: 'ACTIVE',
+        store: { status: 'ACTIVE' }
       },
       include: {
-        user: true
+        store: true
       }
     });
 
-    return customDomain?.user || null;
+    return customDomain?.store || null;
   } catch (error) {
     console.error('Error fetching custom domain:', error);
     return null;
@@ -84,44 +77,41 @@ export async function getAdminByCustomDomain(host: string) {
 }
 
 /**
- * Get admin by subdomain or custom domain
+ * Get store by subdomain or custom domain
  * @param host The hostname from request headers
- * @returns Admin user data and domain type
+ * @returns Store data and domain type
  */
-export async function getAdminByHost(host: string): Promise<{
-  admin: any | null;
+export async function getStoreByHost(host: string): Promise<{
+  store: Store | null;
   isCustomDomain: boolean;
   subdomain?: string;
 }> {
   // First check if it's a custom domain
-  const customDomainAdmin = await getAdminByCustomDomain(host);
-  if (customDomainAdmin) {
+  const customDomainStore = await getStoreByCustomDomain(host);
+  if (customDomainStore) {
     return {
-      admin: customDomainAdmin,
+      store: customDomainStore,
       isCustomDomain: true
     };
   }
 
-  // If not custom domain, check for subdomain
-  const subdomain = extractSubdomain(host);
+  // If not custom domain, check for subdomain. Only platform hosts carry store
+  // subdomains; shop.example.com is someone's custom domain, not the "shop" store.
+  const subdomain = isPlatformHost(host) ? extractSubdomain(host) : null;
   if (subdomain) {
     try {
-      const subdomainAdmin = await prisma.user.findUnique({
-        where: { subdomain },
-      });
-
       return {
-        admin: subdomainAdmin,
+        store: await getStoreBySubdomain(subdomain),
         isCustomDomain: false,
         subdomain
       };
     } catch (error) {
-      console.error('Error fetching subdomain admin:', error);
+      console.error('Error fetching subdomain store:', error);
     }
   }
 
   return {
-    admin: null,
+    store: null,
     isCustomDomain: false
   };
 }
@@ -0,0 +1,185 @@
+import { PrismaClient, SuppressionChannel, SuppressionReason } from '@prisma/client';
+import { normalizeCustomerPhone } from './customerSegments';
+
+const prisma = new PrismaClient();
+
+// A reply made of just one of these, in any case, opts the customer out or back
+// in. CANCEL is left out: customers send it about their orders. "Stop
+// promotions" is the opt-out button WhatsApp marketing templates can carry.
+export const STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'QUIT', 'OPTOUT', 'STOPPROMOTIONS'];
+export const START_KEYWORDS = ['START', 'UNSTOP', 'SUBSCRIBE', 'OPTIN'];
+
+export const SUPPRESSION_CHANNELS: SuppressionChannel[] = ['SMS', 'WHATSAPP'];
+
+// Cloud API error codes that say the number won't take the store's messages
+const WHATSAPP_UNDELIVERABLE_CODE = 131026; // Not on WhatsApp, or can't receive messages
+const WHATSAPP_MARKETING_OPT_OUT_CODE = 131050; // Stopped marketing messages from the business in WhatsApp
+
+// SMS Bangladesh errors for numbers that don't exist, as opposed to ones
+// that are only unreachable for now
+const INVALID_SMS_NUMBER_ERROR = /invalid (number|mobile|msisdn|recipient|destination)|unknown subscriber|does ?n[o']?t exist|unallocated|wrong number/i;
+
+export type OptOutKeyword = 'STOP' | 'START';
+
+export interface SuppressionChange {
+  detail?: string;
+  userId?: string;
+}
+
+export interface SendFailure {
+  error?: string;
+  errorCode?: number; // WhatsApp only
+}
+
+export function isSuppressionChannel(value: unknown): value is SuppressionChannel {
+  return SUPPRESSION_CHANNELS.includes(value as SuppressionChannel);
+}
+
+/**
+ * Whether a customer's message asks to stop or restart campaign messages.
+ * Only a message that is nothing but the keyword counts, so "don't stop
+ * my order" doesn't unsubscribe anyone.
+ */
+export function getOptOutKeyword(text: string | null | undefined): OptOutKeyword | null {
+  const word = (text || '').trim().replace(/[\s.!_-]+/g, '').toUpperCase();
+
+  if (STOP_KEYWORDS.includes(word)) {
+    return 'STOP';
+  }
+  if (START_KEYWORDS.includes(word)) {
+    return 'START';
+  }
+  return null;
+}
+
+/**
+ * A check for whether a number is on the store's suppression list for the
+ * channel, for sendSMSBangladesh and sendBulkMessages to skip it. The list
+ * is read once, so numbers added afterwards are only caught by the next check.
+ */
+export async function getSuppressionFilter(storeId: string, channel: SuppressionChannel): Promise<(phoneNumber: string) => boolean> {
+  const suppressed = await prisma.suppressedNumber.findMany({
+    where: { storeId, channel },
+    select: { phoneNumber: true }
+  });
+  const numbers = new Set(suppressed.map(entry => entry.phoneNumber));
+
+  return (phoneNumber: string) => {
+    const normalized = normalizeCustomerPhone(phoneNumber);
+    return !!normalized && numbers.has(normalized);
+  };
+}
+
+/**
+ * Put a number on the store's suppression list for the channel and record why
+ * @returns Whether it was added; false if it was already there or isn't a phone number
+ */
+export async function suppressNumber(
+  storeId: string,
+  channel: SuppressionChannel,
+  phoneNumber: string,
+  reason: SuppressionReason,
+  change: SuppressionChange = {}
+): Promise<boolean> {
+  const normalized = normalizeCustomerPhone(phoneNumber);
+  if (!normalized) {
+    return false;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const created = await tx.suppressedNumber.createMany({
+      data: [{ storeId, channel, phoneNumber: normalized, reason, detail: change.detail, createdBy: change.userId }],
+      skipDuplicates: true
+    });
+    if (created.count === 0) {
+      return false;
+    }
+
+    await tx.suppressionEvent.create({
+      data: { storeId, channel, phoneNumber: normalized, action: 'SUPPRESSED', reason, detail: change.detail, userId: change.userId }
+    });
+    return true;
+  });
+}
+
+/**
+ * Take a number off the store's suppression list for the channel and record why
+ * @param onlyReasons Leave it on the list unless it was added for one of these
+ * @returns Whether it was removed
+ */
+export async function restoreNumber(
+  storeId: string,
+  channel: SuppressionChannel,
+  phoneNumber: string,
+  reason: SuppressionReason,
+  change: SuppressionChange = {},
+  onlyReasons?: SuppressionReason[]
+): Promise<boolean> {
+  const normalized = normalizeCustomerPhone(phoneNumber);
+  if (!normalized) {
+    return false;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const deleted = await tx.suppressedNumber.deleteMany({
+      where: { storeId, channel, phoneNumber: normalized, ...(onlyReasons && { reason: { in: onlyReasons } }) }
+    });
+    if (deleted.count === 0) {
+      return false;
+    }
+
+    await tx.suppressionEvent.create({
+      data: { storeId, channel, phoneNumber: normalized, action: 'RESTORED', reason, detail: change.detail, userId: change.userId }
+    });
+    return true;
+  });
+}
+
+/**
+ * Act on a stop or start keyword in a message a customer sent the store.
+ * Starting again only undoes the customer's own opt-out, not a number an
+ * admin or a failed send put on the list.
+ * @returns The keyword acted on, or null if the message wasn't one
+ */
+export async function applyOptOutKeyword(
+  storeId: string,
+  channel: SuppressionChannel,
+  phoneNumber: string,
+  text: string | null | undefined
+): Promise<OptOutKeyword | null> {
+  const keyword = getOptOutKeyword(text);
+  const detail = `Replied "${(text || '').trim()}"`;
+
+  if (keyword === 'STOP') {
+    await suppressNumber(storeId, channel, phoneNumber, 'OPT_OUT', { detail });
+  } else if (keyword === 'START') {
+    await restoreNumber(storeId, channel, phoneNumber, 'OPT_IN', { detail }, ['OPT_OUT']);
+  }
+  return keyword;
+}
+
+/**
+ * Suppress a campaign recipient whose message failed because the number
+ * can't or won't take messages on the channel. Other failures, like an
+ * unreachable phone, leave the number alone.
+ * @returns Whether the number was added
+ */
+export async function suppressFailedRecipient(
+  storeId: string,
+  channel: SuppressionChannel,
+  phoneNumber: string,
+  failure: SendFailure
+): Promise<boolean> {
+  const detail = failure.error?.slice(0, 500);
+
+  if (channel === 'WHATSAPP' && failure.errorCode === WHATSAPP_MARKETING_OPT_OUT_CODE) {
+    return suppressNumber(storeId, channel, phoneNumber, 'OPT_OUT', { detail });
+  }
+  if (channel === 'WHATSAPP' && failure.errorCode === WHATSAPP_UNDELIVERABLE_CODE) {
+    return suppressNumber(storeId, channel, phoneNumber, 'INVALID_NUMBER', { detail });
+  }
+  if (channel === 'SMS' && failure.error && INVALID_SMS_NUMBER_ERROR.test(failure.error)) {
+    return suppressNumber(storeId, channel, phoneNumber, 'INVALID_NUMBER', { detail });
+  }
+  return false;
+}
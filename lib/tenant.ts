@@ -0,0 +1,153 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Column naming the owning store on each store-scoped model
+ */
+const TENANT_COLUMNS: Record<string, string> = {
+  Product: 'createdBy',
+  Category: 'createdBy',
+  Order: 'storeId',
+  CartItem: 'storeId',
+  Review: 'storeId',
+  Coupon: 'createdBy',
+  ShippingZone: 'adminId',
+  StorePaymentMethod: 'adminId'
+};
+
+export type TenantClient = PrismaClient;
+
+const FILTERED_OPERATIONS = [
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'updateManyAndReturn',
+  'delete',
+  'deleteMany',
+  'upsert'
+];
+
+const CREATE_OPERATIONS = ['create', 'createMany', 'createManyAndReturn', 'upsert'];
+
+/**
+ * Raised when a store-scoped client is asked to write another store's data
+ */
+export class TenantError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 403) {
+    super(message);
+    this.name = 'TenantError';
+    this.status = status;
+  }
+}
+
+/**
+ * Filter limiting a model to one store's rows. A store's customers are the
+ * users who signed up with it or have ordered from it.
+ */
+function tenantFilter(model: string, storeId: string): Record<string, unknown> | null {
+  if (model === 'User') {
+    return { OR: [{ storeId }, { orders: { some: { storeId } } }] };
+  }
+
+  const column = TENANT_COLUMNS[model];
+  return column ? { [column]: storeId } : null;
+}
+
+function tenantColumn(model: string): string | null {
+  return model === 'User' ? 'storeId' : TENANT_COLUMNS[model] || null;
+}
+
+// Unique fields stay at the top level so findUnique and update still accept the filter
+function scopeWhere(where: Record<string, any> | undefined, filter: Record<string, unknown>) {
+  const existing = where?.AND === undefined ? [] : Array.isArray(where.AND) ? where.AND : [where.AND];
+  return { ...where, AND: [...existing, filter] };
+}
+
+function stampData(model: string, column: string, data: Record<string, any>, storeId: string) {
+  if (data[column] !== undefined && data[column] !== null && data[column] !== storeId) {
+    throw new TenantError(`Cannot write a ${model} that belongs to another store`);
+  }
+  return { ...data, [column]: storeId };
+}
+
+function checkMove(model: string, column: string, data: Record<string, any> | undefined, storeId: string) {
+  if (data && data[column] !== undefined && data[column] !== storeId) {
+    throw new TenantError(`Cannot move a ${model} to another store`);
+  }
+}
+
+/**
+ * Prisma client that only reads and writes one store's rows. Filters are
+ * added to top-level queries and new rows are stamped with the store;
+ * nested includes and nested writes are not scoped, so filter them in the
+ * query itself. Without a store the client is unscoped, for requests made
+ * outside any store.
+ */
+export function createTenantClient(storeId: string | null): TenantClient {
+  const client = prisma.$extends({
+    name: 'tenant',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const filter = storeId ? tenantFilter(model, storeId) : null;
+          const column = tenantColumn(model);
+          if (!storeId || !filter || !column) {
+            return query(args);
+          }
+
+          const scoped: any = { ...args };
+
+          if (FILTERED_OPERATIONS.includes(operation)) {
+            scoped.where = scopeWhere(scoped.where, filter);
+          }
+
+          if (CREATE_OPERATIONS.includes(operation)) {
+            if (operation === 'upsert') {
+              scoped.create = stampData(model, column, scoped.create, storeId);
+            } else if (Array.isArray(scoped.data)) {
+              scoped.data = scoped.data.map((row: Record<string, any>) => stampData(model, column, row, storeId));
+            } else {
+              scoped.data = stampData(model, column, scoped.data, storeId);
+            }
+          }
+
+          if (operation.startsWith('update')) {
+            checkMove(model, column, scoped.data, storeId);
+          } else if (operation === 'upsert') {
+            checkMove(model, column, scoped.update, storeId);
+          }
+
+          return query(scoped);
+        }
+      }
+    }
+  });
+
+  // A query extension leaves the client's API as it was, so the scoped client
+  // and its transactions can be handed to helpers that take a plain client
+  return client as unknown as TenantClient;
+}
+
+const tenantClients = new Map<string, TenantClient>();
+
+/**
+ * Client scoped to a store, reused across requests
+ */
+export function getTenantClient(storeId: string | null): TenantClient {
+  let client = tenantClients.get(storeId || '');
+  if (!client) {
+    client = createTenantClient(storeId);
+    tenantClients.set(storeId || '', client);
+  }
+  return client;
+}
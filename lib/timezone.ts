@@ -0,0 +1,84 @@
+// Store time zone helpers, shared by the API and admin pages, so it must not load a Prisma client
+
+export const DEFAULT_TIME_ZONE = 'Asia/Dhaka';
+
+// A <input type="datetime-local"> value: wall-clock time with no zone
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+function getWallClockParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant, in ms
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getWallClockParts(date, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time ("2025-07-18T09:30") happens in a time zone
+ * @returns null if the value isn't a wall-clock time
+ */
+export function zonedTimeToUtc(localDateTime: string, timeZone: string): Date | null {
+  const match = LOCAL_DATE_TIME.exec(localDateTime);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = '0'] = match;
+  const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+
+  // The second pass corrects the offset when a DST change falls in between
+  let utc = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  utc = wallClock - getTimeZoneOffset(new Date(utc), timeZone);
+  return new Date(utc);
+}
+
+/**
+ * An instant as a wall-clock time in the zone, in the format
+ * <input type="datetime-local"> takes
+ */
+export function utcToZonedInputValue(date: Date | string, timeZone: string): string {
+  const { year, month, day, hour, minute } = getWallClockParts(new Date(date), timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+}
+
+/**
+ * An instant for display in the store's time zone
+ */
+export function formatInTimeZone(date: Date | string, timeZone: string): string {
+  return new Date(date).toLocaleString(undefined, {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short'
+  });
+}
@@ -1,4 +1,4 @@
-interface WhatsAppConfig {
+export interface WhatsAppConfig {
   accessToken: string;
   phoneNumberId: string;
   businessAccountId: string;
@@ -61,6 +61,30 @@ interface WhatsAppResponse {
   }>;
 }
 
+// What happened to one recipient of a bulk send
+export interface WhatsAppSendResult {
+  phoneNumber: string;
+  messageId?: string;
+  error?: string;
+  errorCode?: number; // Meta's error code, when the Cloud API refused the message
+  suppressed?: boolean; // Not sent, see sendBulkMessages' isSuppressed
+}
+
+export const WHATSAPP_SUPPRESSED_ERROR = 'The number is on the suppression list';
+
+/**
+ * An error answer from the Cloud API
+ */
+export class WhatsAppAPIError extends Error {
+  code: number;
+
+  constructor(message: string, code: number) {
+    super(message);
+    this.name = 'WhatsAppAPIError';
+    this.code = code;
+  }
+}
+
 interface WhatsAppError {
   error: {
     message: string;
@@ -263,7 +287,7 @@ export class WhatsAppBusinessAPI {
 
       if (!response.ok) {
         const error = data as WhatsAppError;
-        throw new Error(`WhatsApp API Error: ${error.error.message} (Code: ${error.error.code})`);
+        throw new WhatsAppAPIError(`WhatsApp API Error: ${error.error.message} (Code: ${error.error.code})`, error.error.code);
       }
 
       return data;
@@ -277,21 +301,42 @@ export class WhatsAppBusinessAPI {
 
   /**
    * Bulk send messages to multiple recipients
+   * @param onResult Called after each message, before the next one goes out
+   * @param isSuppressed Numbers that must not be messaged, such as the store's
+   * suppression list; they are skipped and reported as suppressed
    */
   async sendBulkMessages(
     recipients: string[],
     messageType: 'text' | 'template' | 'media',
     messageData: any,
-    delayBetweenMessages: number = 1000 // 1 second delay by default
+    delayBetweenMessages: number = 1000, // 1 second delay by default
+    onResult?: (result: WhatsAppSendResult, index: number) => Promise<void>,
+    isSuppressed?: (phoneNumber: string) => boolean
   ): Promise<{
     successful: Array<{ phoneNumber: string; messageId: string }>;
     failed: Array<{ phoneNumber: string; error: string }>;
+    suppressed: string[];
   }> {
     const successful: Array<{ phoneNumber: string; messageId: string }> = [];
     const failed: Array<{ phoneNumber: string; error: string }> = [];
+    const suppressed: string[] = [];
+    let sentAny = false;
 
     for (let i = 0; i < recipients.length; i++) {
       const phoneNumber = recipients[i];
+      let result: WhatsAppSendResult;
+
+      if (isSuppressed?.(phoneNumber)) {
+        suppressed.push(phoneNumber);
+        await onResult?.({ phoneNumber, error: WHATSAPP_SUPPRESSED_ERROR, suppressed: true }, i);
+        continue;
+      }
+
+      // Add delay between messages to avoid rate limiting
+      if (sentAny) {
+        await new Promise(resolve => setTimeout(resolve, delayBetweenMessages));
+      }
+      sentAny = true;
       
       try {
         let response: WhatsAppResponse;
@@ -325,21 +370,23 @@ export class WhatsAppBusinessAPI {
           phoneNumber,
           messageId: response.messages[0].id
         });
+        result = { phoneNumber, messageId: response.messages[0].id };
 
       } catch (error) {
         failed.push({
           phoneNumber,
           error: error instanceof Error ? error.message : 'Unknown error'
         });
+        result = {
+          ...failed[failed.length - 1],
+          errorCode: error instanceof WhatsAppAPIError ? error.code : undefined
+        };
       }
 
-      // Add delay between messages to avoid rate limiting
-      if (i < recipients.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, delayBetweenMessages));
-      }
+      await onResult?.(result, i);
     }
 
-    return { successful, failed };
+    return { successful, failed, suppressed };
   }
 }
 
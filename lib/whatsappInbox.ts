@@ -0,0 +1,197 @@
+import { Prisma, PrismaClient, WhatsAppConversation } from '@prisma/client';
+import {
+  getEarlierWhatsAppStatuses,
+  getWhatsAppMessageStatus,
+  getWhatsAppStatusError,
+  WhatsAppStatusUpdate
+} from './whatsappMessages';
+
+const prisma = new PrismaClient();
+
+// WhatsApp only allows free-form messages this long after the customer last wrote
+export const WHATSAPP_REPLY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Local and international forms of a number share their last digits (01712345678, 8801712345678)
+const PHONE_MATCH_DIGITS = 10;
+
+// A message as it appears in the webhook's `messages` array
+export interface WhatsAppInboundMessage {
+  from: string;
+  id: string;
+  timestamp: string;
+  type: string;
+  text?: { body: string };
+  image?: { caption?: string };
+  video?: { caption?: string };
+  document?: { caption?: string; filename?: string };
+  button?: { text: string };
+  interactive?: {
+    button_reply?: { title: string };
+    list_reply?: { title: string };
+  };
+}
+
+export interface WhatsAppInboundContext {
+  phoneNumberId: string;
+  customerName?: string;
+}
+
+/**
+ * What to show for a message in the inbox; media without a caption is shown by its type
+ */
+export function describeWhatsAppMessage(message: WhatsAppInboundMessage): string {
+  return message.text?.body ||
+    message.image?.caption ||
+    message.video?.caption ||
+    message.document?.caption ||
+    message.document?.filename ||
+    message.button?.text ||
+    message.interactive?.button_reply?.title ||
+    message.interactive?.list_reply?.title ||
+    `[${message.type}]`;
+}
+
+/**
+ * When the window for free-form replies closes, or null if the customer never wrote
+ */
+export function getReplyWindowEnd(conversation: Pick<WhatsAppConversation, 'lastInboundAt'>): Date | null {
+  return conversation.lastInboundAt
+    ? new Date(conversation.lastInboundAt.getTime() + WHATSAPP_REPLY_WINDOW_MS)
+    : null;
+}
+
+export function canReplyToConversation(conversation: Pick<WhatsAppConversation, 'lastInboundAt'>): boolean {
+  const windowEnd = getReplyWindowEnd(conversation);
+  return !!windowEnd && windowEnd.getTime() > Date.now();
+}
+
+/**
+ * Store an inbound message in the conversation with its sender, in the store
+ * that owns the number it was sent to. Webhook retries of a message already
+ * stored are ignored.
+ * @returns The conversation, or null if no store owns the number or the message was a repeat
+ */
+export async function recordInboundWhatsAppMessage(
+  message: WhatsAppInboundMessage,
+  context: WhatsAppInboundContext
+): Promise<WhatsAppConversation | null> {
+  const store = await prisma.store.findUnique({
+    where: { whatsappPhoneNumberId: context.phoneNumberId },
+    select: { id: true }
+  });
+  if (!store) {
+    console.warn(`No store uses WhatsApp phone number ID ${context.phoneNumberId}; inbound message ${message.id} dropped`);
+    return null;
+  }
+
+  const existing = await prisma.whatsAppConversationMessage.findUnique({ where: { providerMessageId: message.id } });
+  if (existing) {
+    return null;
+  }
+
+  const receivedAt = message.timestamp ? new Date(parseInt(message.timestamp) * 1000) : new Date();
+  const text = describeWhatsAppMessage(message);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const conversation = await tx.whatsAppConversation.upsert({
+        where: { storeId_customerPhone: { storeId: store.id, customerPhone: message.from } },
+        create: {
+          storeId: store.id,
+          customerPhone: message.from,
+          customerName: context.customerName,
+          phoneNumberId: context.phoneNumberId
+        },
+        update: {
+          phoneNumberId: context.phoneNumberId,
+          ...(context.customerName && { customerName: context.customerName })
+        }
+      });
+
+      await tx.whatsAppConversationMessage.create({
+        data: {
+          conversationId: conversation.id,
+          direction: 'INBOUND',
+          providerMessageId: message.id,
+          type: message.type,
+          text,
+          createdAt: receivedAt
+        }
+      });
+
+      return tx.whatsAppConversation.update({
+        where: { id: conversation.id },
+        data: {
+          unreadCount: { increment: 1 },
+          lastMessageText: text,
+          lastMessageAt: receivedAt,
+          lastInboundAt: receivedAt
+        }
+      });
+    });
+  } catch (error) {
+    // Another delivery of the same message got there first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply a webhook status to the inbox reply it names. Like campaign messages,
+ * replies only move forward.
+ * @returns Whether a reply was updated
+ */
+export async function applyConversationStatus(update: WhatsAppStatusUpdate): Promise<boolean> {
+  const status = getWhatsAppMessageStatus(update);
+  if (!status) {
+    return false;
+  }
+
+  const error = getWhatsAppStatusError(update);
+  const updated = await prisma.whatsAppConversationMessage.updateMany({
+    where: {
+      providerMessageId: update.id,
+      direction: 'OUTBOUND',
+      status: { in: getEarlierWhatsAppStatuses(status) }
+    },
+    data: {
+      status,
+      ...(status === 'FAILED' && { error: error || 'Not delivered' })
+    }
+  });
+
+  return updated.count > 0;
+}
+
+/**
+ * The store's orders placed with the conversation's phone number, either at
+ * checkout or on the customer's account
+ */
+export async function findConversationOrders(conversation: Pick<WhatsAppConversation, 'storeId' | 'customerPhone'>) {
+  const digits = conversation.customerPhone.replace(/\D/g, '').slice(-PHONE_MATCH_DIGITS);
+  if (digits.length < PHONE_MATCH_DIGITS) {
+    return [];
+  }
+
+  return prisma.order.findMany({
+    where: {
+      storeId: conversation.storeId,
+      OR: [
+        { customerPhone: { endsWith: digits } },
+        { user: { phone: { endsWith: digits } } }
+      ]
+    },
+    select: {
+      id: true,
+      total: true,
+      status: true,
+      paymentStatus: true,
+      customerName: true,
+      createdAt: true
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 20
+  });
+}
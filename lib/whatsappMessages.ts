@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient, WhatsAppMessage, WhatsAppMessageStatus } from '@prisma/client';
+import type { WhatsAppSendResult } from './whatsapp-business';
+import { suppressFailedRecipient } from './suppressionList';
+
+const prisma = new PrismaClient();
+
+// Statuses in the order a message moves through them; FAILED can follow QUEUED or SENT
+const STATUS_ORDER: WhatsAppMessageStatus[] = ['QUEUED', 'SENT', 'DELIVERED', 'READ'];
+
+const WEBHOOK_STATUSES: Record<string, WhatsAppMessageStatus> = {
+  sent: 'SENT',
+  delivered: 'DELIVERED',
+  read: 'READ',
+  failed: 'FAILED'
+};
+
+// A status update as it appears in the webhook's `statuses` array
+export interface WhatsAppStatusUpdate {
+  id: string;
+  status: string;
+  timestamp: string;
+  recipient_id: string;
+  errors?: Array<{ code: number; title: string; message?: string; error_data?: { details: string } }>;
+}
+
+export interface WhatsAppCampaignCounts {
+  sentCount: number; // Accepted by the Cloud API, whatever happened after
+  deliveredCount: number;
+  readCount: number;
+  failedCount: number;
+  suppressedCount: number;
+}
+
+/**
+ * Check the X-Hub-Signature-256 header Meta signs webhook requests with,
+ * an HMAC of the raw body keyed with the app secret
+ */
+export function verifyWhatsAppSignature(rawBody: string, signature: string | undefined, appSecret: string): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = `sha256=${crypto.createHmac('sha256', appSecret).update(rawBody).digest('hex')}`;
+  return signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+/**
+ * The message status a webhook status names, or undefined for ones we don't track
+ */
+export function getWhatsAppMessageStatus(update: WhatsAppStatusUpdate): WhatsAppMessageStatus | undefined {
+  return WEBHOOK_STATUSES[update.status];
+}
+
+/**
+ * Statuses a message may still move to `status` from
+ */
+export function getEarlierWhatsAppStatuses(status: WhatsAppMessageStatus): WhatsAppMessageStatus[] {
+  return status === 'FAILED' ? ['QUEUED', 'SENT'] : STATUS_ORDER.slice(0, STATUS_ORDER.indexOf(status));
+}
+
+/**
+ * Why Meta says a message failed, if it says
+ */
+export function getWhatsAppStatusError(update: WhatsAppStatusUpdate): string | undefined {
+  return update.errors?.map(e => e.error_data?.details || e.message || e.title).join('; ');
+}
+
+/**
+ * Give each recipient of a campaign a QUEUED message, unless it already has
+ * messages from an earlier send
+ * @returns How many messages the campaign has
+ */
+export async function createWhatsAppMessages(campaignId: string, recipients: string[]): Promise<number> {
+  const existing = await prisma.whatsAppMessage.count({ where: { campaignId } });
+  if (existing > 0) {
+    return existing;
+  }
+
+  const created = await prisma.whatsAppMessage.createMany({
+    data: recipients.map(phoneNumber => ({ campaignId, phoneNumber }))
+  });
+  return created.count;
+}
+
+/**
+ * Record the Cloud API's answer for one message straight away, so webhook
+ * statuses that follow can find it by its wamid
+ */
+export async function recordWhatsAppSend(message: WhatsAppMessage, result: WhatsAppSendResult) {
+  await prisma.whatsAppMessage.update({
+    where: { id: message.id },
+    data: result.messageId
+      ? { status: 'SENT', providerMessageId: result.messageId, error: null, sentAt: new Date() }
+      : { status: result.suppressed ? 'SUPPRESSED' : 'FAILED', error: result.error || 'Unknown error' }
+  });
+}
+
+/**
+ * Recount a campaign's totals from its messages
+ */
+export async function refreshWhatsAppCampaignCounts(campaignId: string): Promise<WhatsAppCampaignCounts> {
+  const [groups, failed] = await Promise.all([
+    prisma.whatsAppMessage.groupBy({
+      by: ['status'],
+      where: { campaignId },
+      _count: { _all: true }
+    }),
+    prisma.whatsAppMessage.findMany({
+      where: { campaignId, status: 'FAILED' },
+      select: { phoneNumber: true }
+    })
+  ]);
+
+  const countOf = (status: WhatsAppMessageStatus) => groups.find(group => group.status === status)?._count._all || 0;
+  const counts = {
+    deliveredCount: countOf('DELIVERED') + countOf('READ'),
+    readCount: countOf('READ'),
+    failedCount: countOf('FAILED'),
+    suppressedCount: countOf('SUPPRESSED')
+  };
+
+  await prisma.whatsAppCampaign.update({
+    where: { id: campaignId },
+    data: { ...counts, failedNumbers: failed.map(message => message.phoneNumber) }
+  });
+
+  return { ...counts, sentCount: countOf('SENT') + counts.deliveredCount };
+}
+
+/**
+ * Apply a webhook status to the campaign message it names. A message only
+ * moves forward, so repeated or late statuses (a "delivered" arriving after
+ * "read") change nothing.
+ * @returns The campaign whose counts changed, or null if none did
+ */
+export async function applyWhatsAppStatus(update: WhatsAppStatusUpdate): Promise<string | null> {
+  const status = getWhatsAppMessageStatus(update);
+  if (!status) {
+    return null;
+  }
+
+  const message = await prisma.whatsAppMessage.findUnique({
+    where: { providerMessageId: update.id },
+    include: { campaign: { select: { storeId: true } } }
+  });
+  if (!message) {
+    return null; // Not sent by a campaign
+  }
+
+  const at = update.timestamp ? new Date(parseInt(update.timestamp) * 1000) : new Date();
+  const earlier = getEarlierWhatsAppStatuses(status);
+  const error = getWhatsAppStatusError(update);
+
+  const data: Prisma.WhatsAppMessageUpdateManyMutationInput = { status };
+  if (status === 'DELIVERED') data.deliveredAt = at;
+  if (status === 'READ') data.readAt = at;
+  if (status === 'FAILED') data.error = error || 'Not delivered';
+
+  const updated = await prisma.whatsAppMessage.updateMany({
+    where: { id: message.id, status: { in: earlier } },
+    data
+  });
+  if (updated.count === 0) {
+    return null;
+  }
+
+  // A read message was delivered, even if that status never arrived
+  if (status === 'READ') {
+    await prisma.whatsAppMessage.updateMany({
+      where: { id: message.id, deliveredAt: null },
+      data: { deliveredAt: at }
+    });
+  }
+
+  // Numbers not on WhatsApp, or that stopped the store's marketing, go on its suppression list
+  if (status === 'FAILED' && message.campaign.storeId) {
+    await suppressFailedRecipient(message.campaign.storeId, 'WHATSAPP', message.phoneNumber, {
+      error,
+      errorCode: update.errors?.[0]?.code
+    });
+  }
+
+  await prisma.whatsAppCampaignLog.create({
+    data: {
+      campaignId: message.campaignId,
+      action: status,
+      phoneNumber: message.phoneNumber,
+      details: { messageId: update.id, timestamp: at, ...(error && { error }) }
+    }
+  });
+
+  return message.campaignId;
+}
+
+/**
+ * Put a campaign's failed messages back in the queue, so sending it again
+ * only goes to those recipients
+ * @returns How many messages were queued again
+ */
+export async function requeueFailedWhatsAppMessages(campaignId: string, tx: Prisma.TransactionClient = prisma): Promise<number> {
+  const requeued = await tx.whatsAppMessage.updateMany({
+    where: { campaignId, status: 'FAILED' },
+    data: { status: 'QUEUED', providerMessageId: null, error: null, sentAt: null }
+  });
+  return requeued.count;
+}
+
+/**
+ * Fail the messages a campaign did not get to, e.g. once its job gives up
+ */
+export async function failQueuedWhatsAppMessages(campaignId: string, error: string) {
+  await prisma.whatsAppMessage.updateMany({
+    where: { campaignId, status: 'QUEUED' },
+    data: { status: 'FAILED', error }
+  });
+}
@@ -1,34 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { extractSubdomain } from './lib/subdomainUtils';
+import { extractSubdomain, isPlatformHost, resolveCustomDomain } from './lib/domainRouting';
 
 export async function middleware(request: NextRequest) {
   const host = request.headers.get('host') || '';
-  const subdomain = extractSubdomain(host);
+
+  // Only this middleware decides which store a request is for, so headers
+  // claiming one are dropped before anything else, early returns included
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete('x-custom-domain');
+  requestHeaders.delete('x-subdomain');
   
-  // Skip static files but NOT API routes
+  // Skip static files but NOT API routes, even ones with a dot in a dynamic segment
   if (request.nextUrl.pathname.startsWith('/_next') || 
-      request.nextUrl.pathname.includes('.')) {
-    return NextResponse.next();
+      (request.nextUrl.pathname.includes('.') && !request.nextUrl.pathname.startsWith('/api'))) {
+    return NextResponse.next({
+      request: { headers: requestHeaders },
+    });
+  }
+
+  // Our own custom-domain lookup passes through here too; don't resolve it again
+  if (request.headers.get('x-domain-lookup') && request.nextUrl.pathname.startsWith('/api/subdomains/host/')) {
+    return NextResponse.next({
+      request: { headers: requestHeaders },
+    });
+  }
+
+  // Hosts outside the platform domain may be a store's custom domain. Those
+  // requests carry the store's subdomain from here on, exactly as if they had
+  // arrived on it, plus x-custom-domain with the host they came in on.
+  const platformHost = isPlatformHost(host);
+  const customDomain = platformHost
+    ? null
+    : await resolveCustomDomain(host, process.env.INTERNAL_APP_URL || request.nextUrl.origin);
+  const subdomain = customDomain
+    ? customDomain.subdomain
+    : platformHost ? extractSubdomain(host) : null;
+
+  requestHeaders.set('x-original-host', host);
+  if (customDomain) {
+    requestHeaders.set('x-custom-domain', customDomain.customDomain);
   }
   
   // Handle API routes - add host information and continue
   if (request.nextUrl.pathname.startsWith('/api')) {
-    const requestHeaders = new Headers(request.headers);
-    requestHeaders.set('x-original-host', host);
-    
     if (subdomain && subdomain !== 'www') {
       requestHeaders.set('x-subdomain', subdomain);
       
       // Debug logging for API requests from subdomains
       console.log('API Request from subdomain:', {
         subdomain,
+        customDomain: customDomain?.customDomain,
         path: request.nextUrl.pathname,
         host
       });
     }
     
     return NextResponse.next({
-      headers: requestHeaders,
+      request: { headers: requestHeaders },
     });
   }
   
@@ -38,15 +66,12 @@ export async function middleware(request: NextRequest) {
   }
   
   // For frontend routes, add host information for client-side handling
-  const requestHeaders = new Headers(request.headers);
-  requestHeaders.set('x-original-host', host);
-  
   if (subdomain && subdomain !== 'www') {
     requestHeaders.set('x-subdomain', subdomain);
   }
   
   return NextResponse.next({
-    headers: requestHeaders,
+    request: { headers: requestHeaders },
   });
 }
 
@@ -1,39 +1,40 @@
-import { getAdminByHost } from '@/lib/subdomainUtils';
+import { getStoreByHost } from '@/lib/subdomainUtils';
 import { NextApiRequest, NextApiResponse } from 'next';
 
 
 /**
- * Middleware to resolve admin information from host and inject into API requests
+ * Middleware to resolve the store from the host and inject it into API requests.
+ * x-admin-id carries the store ID, as adminId does across the API.
  */
 export async function resolveAdminFromHost(req: NextApiRequest, res: NextApiResponse, next: () => void) {
   try {
     const host = req.headers['x-original-host'] as string || req.headers.host || '';
     
     if (host) {
-      const result = await getAdminByHost(host);
+      const result = await getStoreByHost(host);
       
-      if (result.admin) {
-        // Inject admin information into request headers for downstream use
-        req.headers['x-admin-id'] = result.admin.id;
+      if (result.store) {
+        // Inject store information into request headers for downstream use
+        req.headers['x-admin-id'] = result.store.id;
         req.headers['x-is-custom-domain'] = result.isCustomDomain ? 'true' : 'false';
         
         if (result.isCustomDomain) {
           req.headers['x-custom-domain'] = host;
-        } else if (result.subdomain) {
-          req.headers['x-subdomain'] = result.subdomain;
+        } else {
+          req.headers['x-subdomain'] = result.store.subdomain;
         }
       }
     }
     
     next();
   } catch (error) {
-    console.error('Error resolving admin from host:', error);
+    console.error('Error resolving store from host:', error);
     next(); // Continue even if there's an error
   }
 }
 
 /**
- * Get admin ID from request (works with both subdomain and custom domain)
+ * Get the store ID from request (works with both subdomain and custom domain)
  */
 export function getAdminIdFromRequest(req: NextApiRequest): string | null {
   return req.headers['x-admin-id'] as string || null;
@@ -1,50 +1,58 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { PrismaClient } from '@prisma/client';
-import { extractSubdomain } from '@/lib/subdomainUtils';
-
-const prisma = new PrismaClient();
+import { Store } from '@prisma/client';
+import { extractSubdomain, getStoreByCustomDomain, getStoreBySubdomain } from '@/lib/subdomainUtils';
+import { isPlatformHost } from '@/lib/domainRouting';
 
 type NextApiHandler = (req: NextApiRequest, res: NextApiResponse) => Promise<void>;
 
 interface ExtendedNextApiRequest extends NextApiRequest {
   subdomain?: string;
+  // Set when the request arrived on the store's custom domain
+  customDomain?: string;
+  // ID of the store the subdomain belongs to
   adminId?: string;
 }
 
 /**
- * Middleware to check if the request is coming from a valid admin subdomain
- * and attach the subdomain and admin information to the request object
+ * Find the store a request was made for. The Edge middleware sets
+ * x-custom-domain for custom-domain hosts and x-subdomain for both;
+ * without those headers the host itself is used.
+ */
+async function resolveRequestStore(req: ExtendedNextApiRequest): Promise<Store | null> {
+  const host = req.headers.host || '';
+  const customDomain = (req.headers['x-custom-domain'] as string) ||
+    (!isPlatformHost(host) ? host : undefined);
+
+  if (customDomain) {
+    const store = await getStoreByCustomDomain(customDomain);
+    if (store) {
+      req.customDomain = customDomain;
+      return store;
+    }
+  }
+
+  const subdomain = (req.headers['x-subdomain'] as string) ||
+    (isPlatformHost(host) ? extractSubdomain(host) : null);
+
+  return subdomain ? getStoreBySubdomain(subdomain) : null;
+}
+
+/**
+ * Middleware to check if the request is coming from a store's subdomain
+ * and attach the subdomain and store ID to the request object
  */
 export function withSubdomainCheck(handler: NextApiHandler) {
   return async (req: ExtendedNextApiRequest, res: NextApiResponse) => {
-    // Get subdomain from header (set by Edge middleware) or extract from host
-    let subdomain = req.headers['x-subdomain'] as string;
-    
-    if (!subdomain) {
-      // Fallback: extract subdomain from host header
-      const host = req.headers.host || '';
-      const extractedSubdomain = extractSubdomain(host);
-      if (extractedSubdomain) {
-        subdomain = extractedSubdomain;
-      }
-    }
-    
-    if (subdomain) {
-      try {
-        // Find user with this subdomain
-        const user = await prisma.user.findUnique({
-          where: { subdomain },
-          select: { id: true, role: true }
-        });
+    try {
+      const store = await resolveRequestStore(req);
 
-        if (user && user.role === 'ADMIN') {
-          // Attach subdomain and admin info to request
-          req.subdomain = subdomain;
-          req.adminId = user.id;
-        }
-      } catch (error) {
-        console.error('Error checking subdomain:', error);
+      if (store) {
+        // Attach subdomain and store info to request
+        req.subdomain = store.subdomain;
+        req.adminId = store.id;
       }
+    } catch (error) {
+      console.error('Error checking subdomain:', error);
     }
 
     // Continue to the API handler
@@ -53,31 +61,24 @@ export function withSubdomainCheck(handler: NextApiHandler) {
 }
 
 /**
- * Middleware that requires a valid admin subdomain to access the API
+ * Middleware that requires a store's subdomain to access the API
  */
 export function requireSubdomain(handler: NextApiHandler) {
   return async (req: ExtendedNextApiRequest, res: NextApiResponse) => {
-    // Get subdomain from header (set by Edge middleware)
-    const subdomain = req.headers['x-subdomain'] as string;
-    
-    if (!subdomain) {
+    if (!req.headers['x-subdomain'] && !req.headers['x-custom-domain']) {
       return res.status(403).json({ message: 'Access denied: No subdomain provided' });
     }
 
     try {
-      // Find user with this subdomain
-      const user = await prisma.user.findUnique({
-        where: { subdomain },
-        select: { id: true, role: true }
-      });
+      const store = await resolveRequestStore(req);
 
-      if (!user || user.role !== 'ADMIN') {
+      if (!store) {
         return res.status(403).json({ message: 'Access denied: Invalid subdomain' });
       }
 
-      // Attach subdomain and admin info to request
-      req.subdomain = subdomain;
-      req.adminId = user.id;
+      // Attach subdomain and store info to request
+      req.subdomain = store.subdomain;
+      req.adminId = store.id;
 
       // Continue to the API handler
       return handler(req, res);
@@ -0,0 +1,42 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getTenantClient, TenantClient } from '@/lib/tenant';
+import { withSubdomainCheck } from './subdomainCheck';
+
+export interface TenantApiRequest extends NextApiRequest {
+  subdomain?: string;
+  // ID of the store the subdomain belongs to
+  adminId?: string;
+  // Store the request is scoped to; null outside any store
+  tenantId: string | null;
+  // Prisma client limited to the store's rows
+  db: TenantClient;
+}
+
+type TenantApiHandler = (req: TenantApiRequest, res: NextApiResponse) => Promise<unknown>;
+
+/**
+ * Middleware that scopes an API route to the store it was called for.
+ * The store comes from the subdomain, or from the adminId query parameter
+ * on the main domain; a subdomain request naming another store is refused.
+ */
+export function withTenant(handler: TenantApiHandler, options: { required?: boolean } = {}) {
+  return withSubdomainCheck(async (req: NextApiRequest, res: NextApiResponse) => {
+    const request = req as TenantApiRequest;
+    const queriedId = typeof req.query.adminId === 'string' && req.query.adminId ? req.query.adminId : null;
+
+    if (request.adminId && queriedId && queriedId !== request.adminId) {
+      res.status(403).json({ error: 'This store cannot access another store\'s data' });
+      return;
+    }
+
+    const tenantId = request.adminId || queriedId;
+    if (options.required && !tenantId) {
+      res.status(400).json({ error: 'adminId is required' });
+      return;
+    }
+
+    request.tenantId = tenantId;
+    request.db = getTenantClient(tenantId);
+    await handler(request, res);
+  });
+}
@@ -13,6 +13,11 @@ const nextConfig = {
         source: '/api/server/:path*',
         destination: '/api/:path*',
       },
+      {
+        // ACME HTTP-01 challenges for custom domain certificates
+        source: '/.well-known/acme-challenge/:token',
+        destination: '/api/acme-challenge/:token',
+      },
     ];
   },
 }
@@ -0,0 +1,505 @@
+import React, { useState, useEffect } from 'react';
+import AdminLayout from '../../../components/AdminLayout';
+import axios from 'axios';
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent } from '../../../components/ui/card';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Textarea } from '../../../components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../../../components/ui/dialog';
+import { Badge } from '../../../components/ui/badge';
+import { Pencil, Trash2, Plus, Search, Ticket } from 'lucide-react';
+import { useCurrentSubdomain } from '../../../hooks/useCurrentSubdomain';
+
+interface Coupon {
+  id: string;
+  code: string;
+  description: string | null;
+  type: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_SHIPPING';
+  value: number;
+  maxDiscount: number | null;
+  minOrderValue: number | null;
+  usageLimit: number | null;
+  usageLimitPerCustomer: number | null;
+  usedCount: number;
+  productIds: string[];
+  categoryIds: string[];
+  startsAt: string | null;
+  expiresAt: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const emptyForm = {
+  code: '',
+  description: '',
+  type: 'PERCENTAGE' as Coupon['type'],
+  value: '',
+  maxDiscount: '',
+  minOrderValue: '',
+  usageLimit: '',
+  usageLimitPerCustomer: '',
+  startsAt: '',
+  expiresAt: '',
+  isActive: true,
+  productIds: [] as string[],
+  categoryIds: [] as string[]
+};
+
+const toDateInput = (value: string | null) => (value ? value.slice(0, 10) : '');
+
+const AdminCoupons: React.FC = () => {
+  const { getSubdomainApiEndpoint } = useCurrentSubdomain();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [products, setProducts] = useState<Option[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCoupons();
+  }, [searchTerm, getSubdomainApiEndpoint('')]);
+
+  useEffect(() => {
+    fetchRestrictionOptions();
+  }, [getSubdomainApiEndpoint('')]);
+
+  const fetchCoupons = async () => {
+    try {
+      const params = new URLSearchParams({
+        ...(searchTerm && { search: searchTerm })
+      });
+
+      const response = await axios.get(getSubdomainApiEndpoint(`/api/admin/coupons?${params}`));
+      setCoupons(response.data.coupons);
+    } catch (error) {
+      console.error('Failed to fetch coupons:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRestrictionOptions = async () => {
+    try {
+      const [categoryResponse, productResponse] = await Promise.all([
+        axios.get(getSubdomainApiEndpoint('/api/categories?limit=100')),
+        axios.get(getSubdomainApiEndpoint('/api/products?limit=100'))
+      ]);
+      setCategories(categoryResponse.data.categories || []);
+      setProducts(productResponse.data.products || []);
+    } catch (error) {
+      console.error('Failed to fetch coupon restriction options:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const payload = {
+      ...formData,
+      value: formData.type === 'FREE_SHIPPING' ? 0 : formData.value,
+      startsAt: formData.startsAt || null,
+      expiresAt: formData.expiresAt || null
+    };
+
+    try {
+      if (editingCoupon) {
+        await axios.put(getSubdomainApiEndpoint(`/api/admin/coupons/${editingCoupon.id}`), payload);
+      } else {
+        await axios.post(getSubdomainApiEndpoint('/api/admin/coupons'), payload);
+      }
+      fetchCoupons();
+      resetForm();
+      setIsDialogOpen(false);
+    } catch (error: any) {
+      console.error('Failed to save coupon:', error);
+      const data = error.response?.data;
+      setFormError(data?.details?.join(', ') || data?.error || 'Failed to save coupon');
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (confirm(`Are you sure you want to delete coupon ${coupon.code}?`)) {
+      try {
+        const response = await axios.delete(getSubdomainApiEndpoint(`/api/admin/coupons/${coupon.id}`));
+        if (coupon.usedCount > 0) {
+          alert(response.data.message);
+        }
+        fetchCoupons();
+      } catch (error) {
+        console.error('Failed to delete coupon:', error);
+      }
+    }
+  };
+
+  const handleEdit = (coupon: Coupon) => {
+    setEditingCoupon(coupon);
+    setFormData({
+      code: coupon.code,
+      description: coupon.description || '',
+      type: coupon.type,
+      value: coupon.value.toString(),
+      maxDiscount: coupon.maxDiscount?.toString() || '',
+      minOrderValue: coupon.minOrderValue?.toString() || '',
+      usageLimit: coupon.usageLimit?.toString() || '',
+      usageLimitPerCustomer: coupon.usageLimitPerCustomer?.toString() || '',
+      startsAt: toDateInput(coupon.startsAt),
+      expiresAt: toDateInput(coupon.expiresAt),
+      isActive: coupon.isActive,
+      productIds: coupon.productIds,
+      categoryIds: coupon.categoryIds
+    });
+    setFormError(null);
+    setIsDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingCoupon(null);
+    setFormError(null);
+  };
+
+  const toggleSelection = (field: 'productIds' | 'categoryIds', id: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: prev[field].includes(id)
+        ? prev[field].filter(existing => existing !== id)
+        : [...prev[field], id]
+    }));
+  };
+
+  const formatCouponValue = (coupon: Coupon) => {
+    switch (coupon.type) {
+      case 'PERCENTAGE':
+        return `${coupon.value}% off${coupon.maxDiscount ? ` (max ৳${coupon.maxDiscount})` : ''}`;
+      case 'FIXED_AMOUNT':
+        return `৳${coupon.value} off`;
+      case 'FREE_SHIPPING':
+        return 'Free shipping';
+    }
+  };
+
+  const isExpired = (coupon: Coupon) =>
+    !!coupon.expiresAt && new Date(coupon.expiresAt) <= new Date();
+
+  if (loading) {
+    return (
+      <AdminLayout title="Coupons">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout title="Coupons">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold">Coupons & Discounts</h1>
+          <Button onClick={() => { resetForm(); setIsDialogOpen(true); }}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Coupon
+          </Button>
+        </div>
+
+        {/* Search */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="relative max-w-md">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search by code..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Coupons Table */}
+        {coupons.length > 0 && (
+          <Card>
+            <CardContent className="p-0">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Usage</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Validity</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {coupons.map((coupon) => (
+                    <tr key={coupon.id}>
+                      <td className="px-6 py-4">
+                        <div className="font-mono font-semibold">{coupon.code}</div>
+                        {coupon.description && (
+                          <div className="text-sm text-gray-500">{coupon.description}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {formatCouponValue(coupon)}
+                        {coupon.minOrderValue && (
+                          <div className="text-xs text-gray-500">Min order ৳{coupon.minOrderValue}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {coupon.usedCount}{coupon.usageLimit ? ` / ${coupon.usageLimit}` : ''}
+                        {coupon.usageLimitPerCustomer && (
+                          <div className="text-xs text-gray-500">{coupon.usageLimitPerCustomer} per customer</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {coupon.startsAt ? new Date(coupon.startsAt).toLocaleDateString() : 'Now'}
+                        {' – '}
+                        {coupon.expiresAt ? new Date(coupon.expiresAt).toLocaleDateString() : 'No expiry'}
+                      </td>
+                      <td className="px-6 py-4">
+                        {isExpired(coupon) ? (
+                          <Badge variant="secondary">Expired</Badge>
+                        ) : coupon.isActive ? (
+                          <Badge className="bg-green-100 text-green-800">Active</Badge>
+                        ) : (
+                          <Badge variant="secondary">Inactive</Badge>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex gap-2 justify-end">
+                          <Button size="sm" variant="outline" onClick={() => handleEdit(coupon)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button size="sm" variant="destructive" onClick={() => handleDelete(coupon)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Empty State */}
+        {coupons.length === 0 && !loading && (
+          <div className="text-center py-12">
+            <Ticket className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No coupons</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Create a coupon to run a promotion.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Coupon Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingCoupon ? 'Edit Coupon' : 'Add New Coupon'}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {formError && (
+              <div className="p-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded">
+                {formError}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="code">Code</Label>
+                <Input
+                  id="code"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                  required
+                  placeholder="e.g., EID20"
+                />
+              </div>
+              <div>
+                <Label htmlFor="type">Type</Label>
+                <select
+                  id="type"
+                  value={formData.type}
+                  onChange={(e) => setFormData({ ...formData, type: e.target.value as Coupon['type'] })}
+                  className="w-full h-10 px-3 border border-gray-300 rounded-md"
+                >
+                  <option value="PERCENTAGE">Percentage</option>
+                  <option value="FIXED_AMOUNT">Fixed amount</option>
+                  <option value="FREE_SHIPPING">Free shipping</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+                placeholder="Shown to customers when the coupon is applied"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {formData.type !== 'FREE_SHIPPING' && (
+                <div>
+                  <Label htmlFor="value">{formData.type === 'PERCENTAGE' ? 'Percentage (%)' : 'Amount (৳)'}</Label>
+                  <Input
+                    id="value"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.value}
+                    onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                    required
+                  />
+                </div>
+              )}
+              {formData.type === 'PERCENTAGE' && (
+                <div>
+                  <Label htmlFor="maxDiscount">Maximum discount (৳)</Label>
+                  <Input
+                    id="maxDiscount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.maxDiscount}
+                    onChange={(e) => setFormData({ ...formData, maxDiscount: e.target.value })}
+                    placeholder="No cap"
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="minOrderValue">Minimum order value (৳)</Label>
+                <Input
+                  id="minOrderValue"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.minOrderValue}
+                  onChange={(e) => setFormData({ ...formData, minOrderValue: e.target.value })}
+                  placeholder="None"
+                />
+              </div>
+              <div>
+                <Label htmlFor="usageLimit">Total usage limit</Label>
+                <Input
+                  id="usageLimit"
+                  type="number"
+                  min="1"
+                  value={formData.usageLimit}
+                  onChange={(e) => setFormData({ ...formData, usageLimit: e.target.value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <Label htmlFor="usageLimitPerCustomer">Uses per customer</Label>
+                <Input
+                  id="usageLimitPerCustomer"
+                  type="number"
+                  min="1"
+                  value={formData.usageLimitPerCustomer}
+                  onChange={(e) => setFormData({ ...formData, usageLimitPerCustomer: e.target.value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <Label htmlFor="startsAt">Starts on</Label>
+                <Input
+                  id="startsAt"
+                  type="date"
+                  value={formData.startsAt}
+                  onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="expiresAt">Expires on</Label>
+                <Input
+                  id="expiresAt"
+                  type="date"
+                  value={formData.expiresAt}
+                  onChange={(e) => setFormData({ ...formData, expiresAt: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Limit to categories</Label>
+                <div className="mt-1 max-h-40 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-1">
+                  {categories.map(category => (
+                    <label key={category.id} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={formData.categoryIds.includes(category.id)}
+                        onChange={() => toggleSelection('categoryIds', category.id)}
+                      />
+                      <span>{category.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>Limit to products</Label>
+                <div className="mt-1 max-h-40 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-1">
+                  {products.map(product => (
+                    <label key={product.id} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={formData.productIds.includes(product.id)}
+                        onChange={() => toggleSelection('productIds', product.id)}
+                      />
+                      <span>{product.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">Leave both empty to apply the coupon to the whole store.</p>
+
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+              />
+              <span>Active</span>
+            </label>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingCoupon ? 'Update Coupon' : 'Add Coupon'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminCoupons;
@@ -6,6 +6,7 @@ import { Input } from '../../components/ui/input';
 import { Badge } from '../../components/ui/badge';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../../components/ui/alert-dialog';
 import { getDomainStatusColor, getDomainStatusText, isValidDomain } from '../../lib/domainUtils';
+import { waitForJob } from '../../lib/jobStatus';
 
 interface DNSRecord {
   type: 'TXT' | 'CNAME' | 'A';
@@ -14,6 +15,22 @@ interface DNSRecord {
   ttl?: number;
 }
 
+interface DomainVerification {
+  id: string;
+  trigger: 'MANUAL' | 'SCHEDULED';
+  result: 'PASSED' | 'FAILED' | 'ERROR';
+  errorMessage?: string;
+  createdAt: string;
+}
+
+interface DomainCertificate {
+  status: 'PENDING' | 'ISSUING' | 'ISSUED' | 'FAILED';
+  issuedAt?: string;
+  expiresAt?: string;
+  errorMessage?: string;
+  nextAttemptAt?: string;
+}
+
 interface CustomDomain {
   id: string;
   domain: string;
@@ -25,6 +42,9 @@ interface CustomDomain {
   isActive: boolean;
   errorMessage?: string;
   createdAt: string;
+  verifications?: DomainVerification[];
+  ssl: boolean;
+  certificate?: DomainCertificate | null;
 }
 
 interface VerificationResult {
@@ -53,7 +73,7 @@ const DomainManagement = () => {
     try {
       const response = await fetch('/api/admin/domains', {
         headers: {
-          'x-user-id': user.id
+          Authorization: `Bearer ${localStorage.getItem('token')}`
         }
       });
       
@@ -85,7 +105,7 @@ const DomainManagement = () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-user-id': user.id
+          Authorization: `Bearer ${localStorage.getItem('token')}`
         },
         body: JSON.stringify({ domain: newDomain.trim() })
       });
@@ -115,7 +135,7 @@ const DomainManagement = () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-user-id': user.id
+          Authorization: `Bearer ${localStorage.getItem('token')}`
         },
         body: JSON.stringify({ domainId })
       });
@@ -127,11 +147,21 @@ const DomainManagement = () => {
         setDomains(domains.map(d => 
           d.id === domainId ? data.domain : d
         ));
-        
-        if (data.success) {
+
+        // DNS is checked by the job worker, a few times if the records aren't there yet
+        const job = await waitForJob(data.jobId, url => fetch(url, {
+          headers: { Authorization: `Bearer ${localStorage.getItem('token')}` }
+        }));
+        await fetchDomains();
+
+        if (job.status === 'SUCCEEDED' && job.result?.verified) {
           alert('Domain verified successfully! You can now activate it.');
+        } else if (job.status === 'SUCCEEDED') {
+          alert(`Verification failed: ${job.result?.message} ${(job.result?.errors || []).join(', ')}`);
+        } else if (job.status === 'FAILED') {
+          alert(`Verification failed: ${job.lastError}`);
         } else {
-          alert(`Verification failed: ${data.message}`);
+          alert('Verification is still running. Check back in a few minutes.');
         }
       } else {
         alert(`Verification failed: ${data.error}`);
@@ -150,7 +180,7 @@ const DomainManagement = () => {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          'x-user-id': user.id
+          Authorization: `Bearer ${localStorage.getItem('token')}`
         },
         body: JSON.stringify({ id: domainId, action })
       });
@@ -176,7 +206,7 @@ const DomainManagement = () => {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json',
-          'x-user-id': user.id
+          Authorization: `Bearer ${localStorage.getItem('token')}`
         },
         body: JSON.stringify({ id: domainId })
       });
@@ -196,6 +226,34 @@ const DomainManagement = () => {
     return getDomainStatusColor(status);
   };
 
+  // HTTPS certificates are ordered once a domain is activated
+  const renderCertificateStatus = (domain: CustomDomain) => {
+    const certificate = domain.certificate;
+    if (!certificate) {
+      return null;
+    }
+
+    const expiresAt = certificate.expiresAt ? new Date(certificate.expiresAt) : null;
+    const valid = domain.ssl && expiresAt && expiresAt > new Date();
+
+    if (certificate.status === 'FAILED' && !valid) {
+      return (
+        <Badge className="bg-red-100 text-red-800" title={certificate.errorMessage}>
+          HTTPS failed{certificate.nextAttemptAt && ` · retrying ${new Date(certificate.nextAttemptAt).toLocaleString()}`}
+        </Badge>
+      );
+    }
+    if (valid) {
+      return (
+        <Badge className="bg-green-100 text-green-800" title={certificate.errorMessage}>
+          HTTPS until {expiresAt.toLocaleDateString()}
+          {certificate.status === 'ISSUING' && ' · renewing'}
+        </Badge>
+      );
+    }
+    return <Badge className="bg-yellow-100 text-yellow-800">HTTPS certificate pending</Badge>;
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     alert('Copied to clipboard!');
@@ -241,16 +299,31 @@ const DomainManagement = () => {
                     <Badge className={getStatusColor(domain.status)}>
                       {domain.status}
                     </Badge>
+                    {renderCertificateStatus(domain)}
                   </div>
                   <p className="text-sm text-gray-600 mt-1">
                     Added on {new Date(domain.createdAt).toLocaleDateString()}
+                    {domain.lastVerified && ` · DNS last checked ${new Date(domain.lastVerified).toLocaleString()}`}
                   </p>
                   {domain.errorMessage && (
                     <p className="text-sm text-red-600 mt-1">{domain.errorMessage}</p>
                   )}
+                  {domain.verifications && domain.verifications.length > 0 && (
+                    <ul className="text-xs text-gray-500 mt-2 space-y-0.5">
+                      {domain.verifications.map((verification) => (
+                        <li key={verification.id}>
+                          {new Date(verification.createdAt).toLocaleString()} ·{' '}
+                          {verification.trigger === 'SCHEDULED' ? 'Automatic check' : 'Manual check'} ·{' '}
+                          <span className={verification.result === 'PASSED' ? 'text-green-600' : 'text-red-600'}>
+                            {verification.result === 'PASSED' ? 'Passed' : verification.result === 'FAILED' ? 'Failed' : 'DNS lookup error'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
                 <div className="flex gap-2">
-                  {domain.status === 'PENDING' || domain.status === 'FAILED' ? (
+                  {domain.status === 'PENDING' || domain.status === 'FAILED' || domain.status === 'INACTIVE' ? (
                     <>
                       <Button
                         onClick={() => setShowInstructions(domain)}
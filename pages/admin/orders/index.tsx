@@ -1,35 +1,67 @@
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import AdminLayout from '../../../components/AdminLayout';
 import { format } from 'date-fns';
 import { useCurrentSubdomain } from '../../../hooks/useCurrentSubdomain';
+import OrderTimeline, { OrderStatusEvent } from '../../../components/OrderTimeline';
+import RefundDialog from '../../../components/RefundDialog';
+import ShipmentDialog from '../../../components/ShipmentDialog';
 
 interface Order {
   id: string;
   status: string;
   paymentMethod: string;
+  paymentStatus: string;
+  refundedAmount: number;
+  shippingCost: number;
   total: number;
   createdAt: string;
   customerName: string;
   customerEmail: string;
   customerPhone: string;
   shippingAddress: string;
+  address: {
+    addressLine: string;
+    upazila: string;
+    district: string;
+    division: string;
+    postcode: string | null;
+  } | null;
+  shippingDistrict: string | null;
+  shippingZoneName: string | null;
+  courier: string | null;
+  trackingNumber: string | null;
+  courierStatus: string | null;
   orderItems: Array<{
     id: string;
     quantity: number;
     price: number;
-    product: {
-      name: string;
-      image: string;
-    };
+    productName: string;
+    productImage: string | null;
+    variantLabel: string | null;
   }>;
+  statusEvents: OrderStatusEvent[];
+  allowedTransitions: string[];
+  canRefund: boolean;
 }
 
+const statusOptionLabels: Record<string, string> = {
+  PENDING: 'Pending',
+  CONFIRMED: 'Confirmed',
+  SHIPPED: 'Shipped',
+  DELIVERED: 'Delivered',
+  CANCELLED: 'Cancelled'
+};
+
 const AdminOrdersPage = () => {
   const { adminId, isAdminSubdomain } = useCurrentSubdomain();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState('all');
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [refundOrderId, setRefundOrderId] = useState<string | null>(null);
+  const [shipmentOrderId, setShipmentOrderId] = useState<string | null>(null);
 
   useEffect(() => {
     if (isAdminSubdomain) {
@@ -60,7 +92,9 @@ const AdminOrdersPage = () => {
     try {
       setError(null);
       console.log('Fetching orders for adminId:', adminId);
-      const response = await fetch(`/api/admin/orders?adminId=${adminId}`);
+      const response = await fetch(`/api/admin/orders?adminId=${adminId}`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` }
+      });
       
       if (response.ok) {
         const data = await response.json();
@@ -81,19 +115,29 @@ const AdminOrdersPage = () => {
   };
 
   const updateOrderStatus = async (orderId: string, newStatus: string) => {
+    const note = window.prompt(`Note for changing status to ${statusOptionLabels[newStatus] || newStatus} (optional)`);
+    if (note === null) {
+      return;
+    }
+
     try {
       const response = await fetch(`/api/admin/orders/${orderId}?adminId=${adminId}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, note: note || undefined }),
       });
 
+      const data = await response.json();
+
       if (response.ok) {
         setOrders(orders.map(order => 
-          order.id === orderId ? { ...order, status: newStatus } : order
+          order.id === orderId ? { ...order, ...data } : order
         ));
+      } else {
+        alert(data.error || 'Failed to update order status');
       }
     } catch (error) {
       console.error('Error updating order status:', error);
@@ -155,6 +199,12 @@ const AdminOrdersPage = () => {
         <div className="flex justify-between items-center">
           <h1 className="text-2xl font-bold text-gray-900">Orders Management</h1>
           <div className="flex space-x-4">
+            <Link
+              href="/admin/orders/payment-events"
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Payment Events
+            </Link>
             <select 
               value={statusFilter} 
               onChange={(e) => setStatusFilter(e.target.value)}
@@ -206,7 +256,8 @@ const AdminOrdersPage = () => {
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {filteredOrders.map((order) => (
-                    <tr key={order.id} className="hover:bg-gray-50">
+                    <React.Fragment key={order.id}>
+                    <tr className="hover:bg-gray-50">
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                         #{order.id.slice(-8)}
                       </td>
@@ -214,28 +265,54 @@ const AdminOrdersPage = () => {
                         <div className="text-sm text-gray-900">{order.customerName}</div>
                         <div className="text-sm text-gray-500">{order.customerEmail}</div>
                         <div className="text-sm text-gray-500">{order.customerPhone}</div>
+                        {order.address ? (
+                          <div className="text-xs text-gray-500 whitespace-normal max-w-xs">
+                            {order.address.addressLine}, {order.address.upazila}, {order.address.district}
+                            {order.address.postcode && ` ${order.address.postcode}`} ({order.address.division})
+                          </div>
+                        ) : order.shippingDistrict && (
+                          <div className="text-xs text-gray-500">{order.shippingDistrict}</div>
+                        )}
                       </td>
                       <td className="px-6 py-4">
                         <div className="text-sm text-gray-900">
                           {order.orderItems.map((item, index) => (
                             <div key={item.id} className="flex items-center space-x-2 mb-1">
                               <img 
-                                src={item.product.image || '/placeholder.jpg'} 
-                                alt={item.product.name}
+                                src={item.productImage || '/placeholder.jpg'} 
+                                alt={item.productName}
                                 className="w-8 h-8 object-cover rounded"
                               />
-                              <span>{item.product.name} x{item.quantity}</span>
+                              <span>
+                                {item.productName}
+                                {item.variantLabel && ` (${item.variantLabel})`} x{item.quantity}
+                              </span>
                             </div>
                           ))}
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         ৳{order.total.toFixed(2)}
+                        <div className="text-xs text-gray-500">{order.paymentMethod} · {order.paymentStatus}</div>
+                        {order.shippingCost > 0 && (
+                          <div className="text-xs text-gray-500">
+                            Shipping ৳{order.shippingCost.toFixed(2)}{order.shippingZoneName && ` · ${order.shippingZoneName}`}
+                          </div>
+                        )}
+                        {order.refundedAmount > 0 && (
+                          <div className="text-xs text-red-600">Refunded ৳{order.refundedAmount.toFixed(2)}</div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getStatusBadgeColor(order.status)}`}>
                           {order.status}
                         </span>
+                        {order.trackingNumber && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {order.courier} <span className="font-mono">{order.trackingNumber}</span>
+                            {order.courierStatus && <div>{order.courierStatus}</div>}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {format(new Date(order.createdAt), 'MMM dd, yyyy HH:mm')}
@@ -244,16 +321,47 @@ const AdminOrdersPage = () => {
                         <select 
                           value={order.status}
                           onChange={(e) => updateOrderStatus(order.id, e.target.value)}
-                          className="px-3 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          disabled={order.allowedTransitions.length === 0}
+                          className="px-3 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
                         >
-                          <option value="PENDING">Pending</option>
-                          <option value="CONFIRMED">Confirmed</option>
-                          <option value="SHIPPED">Shipped</option>
-                          <option value="DELIVERED">Delivered</option>
-                          <option value="CANCELLED">Cancelled</option>
+                          <option value={order.status}>{statusOptionLabels[order.status] || order.status}</option>
+                          {order.allowedTransitions.map(status => (
+                            <option key={status} value={status}>{statusOptionLabels[status] || status}</option>
+                          ))}
                         </select>
+                        <button
+                          onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                          className="block mt-2 text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          {expandedOrderId === order.id ? 'Hide history' : 'View history'}
+                        </button>
+                        {order.canRefund && ['PAID', 'PARTIALLY_REFUNDED', 'REFUNDED'].includes(order.paymentStatus) && (
+                          <button
+                            onClick={() => setRefundOrderId(order.id)}
+                            className="block mt-1 text-xs text-red-600 hover:text-red-800"
+                          >
+                            {order.paymentStatus === 'REFUNDED' ? 'View refunds' : 'Refund'}
+                          </button>
+                        )}
+                        {(order.trackingNumber || ['CONFIRMED', 'SHIPPED'].includes(order.status)) && (
+                          <button
+                            onClick={() => setShipmentOrderId(order.id)}
+                            className="block mt-1 text-xs text-green-600 hover:text-green-800"
+                          >
+                            {order.trackingNumber ? 'View shipment' : 'Book courier'}
+                          </button>
+                        )}
                       </td>
                     </tr>
+                    {expandedOrderId === order.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={7} className="px-6 py-4">
+                          <h4 className="text-sm font-medium text-gray-900 mb-3">Status history</h4>
+                          <OrderTimeline events={order.statusEvents} showActor />
+                        </td>
+                      </tr>
+                    )}
+                    </React.Fragment>
                   ))}
                 </tbody>
               </table>
@@ -327,6 +435,20 @@ const AdminOrdersPage = () => {
           </div>
         )}
       </div>
+
+      <RefundDialog
+        orderId={refundOrderId}
+        adminId={adminId}
+        onClose={() => setRefundOrderId(null)}
+        onRefunded={fetchOrders}
+      />
+
+      <ShipmentDialog
+        orderId={shipmentOrderId}
+        adminId={adminId}
+        onClose={() => setShipmentOrderId(null)}
+        onBooked={fetchOrders}
+      />
     </AdminLayout>
   );
 };
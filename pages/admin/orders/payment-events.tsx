@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import AdminLayout from '../../../components/AdminLayout';
+import { format } from 'date-fns';
+import { useCurrentSubdomain } from '../../../hooks/useCurrentSubdomain';
+
+interface PaymentEvent {
+  id: string;
+  provider: string;
+  transactionId: string;
+  gatewayStatus: string;
+  orderId: string | null;
+  amount: number | null;
+  currency: string | null;
+  payload: Record<string, any>;
+  signatureValid: boolean;
+  status: 'RECEIVED' | 'PROCESSED' | 'IGNORED' | 'FAILED';
+  note: string | null;
+  attempts: number;
+  duplicateCount: number;
+  processedAt: string | null;
+  createdAt: string;
+  order: {
+    id: string;
+    total: number;
+    status: string;
+    paymentStatus: string;
+  } | null;
+}
+
+const eventStatusColors: Record<PaymentEvent['status'], string> = {
+  RECEIVED: 'bg-gray-100 text-gray-800',
+  PROCESSED: 'bg-green-100 text-green-800',
+  IGNORED: 'bg-yellow-100 text-yellow-800',
+  FAILED: 'bg-red-100 text-red-800'
+};
+
+const PaymentEventsPage = () => {
+  const { adminId } = useCurrentSubdomain();
+  const [events, setEvents] = useState<PaymentEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [search, setSearch] = useState('');
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (adminId) {
+      fetchEvents();
+    }
+  }, [adminId, statusFilter, search]);
+
+  const fetchEvents = async () => {
+    try {
+      const params = new URLSearchParams({
+        adminId: adminId as string,
+        ...(statusFilter !== 'all' && { status: statusFilter }),
+        ...(search && { search })
+      });
+      const response = await fetch(`/api/admin/payment-events?${params}`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setEvents(data.events);
+      }
+    } catch (error) {
+      console.error('Error fetching payment events:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReplay = async (event: PaymentEvent) => {
+    if (!confirm(`Reprocess the ${event.gatewayStatus} notification for ${event.transactionId}?`)) {
+      return;
+    }
+
+    setReplayingId(event.id);
+    try {
+      const response = await fetch(`/api/admin/payment-events/${event.id}/replay?adminId=${adminId}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` }
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        await fetchEvents();
+        if (data.status !== 'PROCESSED') {
+          alert(data.note || `Event ${data.status.toLowerCase()}`);
+        }
+      } else {
+        alert(data.error || 'Failed to replay event');
+      }
+    } catch (error) {
+      console.error('Error replaying payment event:', error);
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <AdminLayout title="Payment Events">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Payment Events</h1>
+            <p className="text-sm text-gray-500">
+              Notifications received from payment gateways. <Link href="/admin/orders" className="text-blue-600 hover:text-blue-800">Back to orders</Link>
+            </p>
+          </div>
+          <div className="flex space-x-4">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Transaction or order ID"
+              className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All Events</option>
+              <option value="PROCESSED">Processed</option>
+              <option value="FAILED">Failed</option>
+              <option value="IGNORED">Ignored</option>
+              <option value="RECEIVED">Received</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="bg-white shadow-sm rounded-lg overflow-hidden">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">No payment events found</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transaction</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Gateway Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {events.map((event) => (
+                    <React.Fragment key={event.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {format(new Date(event.createdAt), 'MMM dd, yyyy HH:mm')}
+                        {event.duplicateCount > 0 && (
+                          <div className="text-xs text-gray-400">{event.duplicateCount} duplicate{event.duplicateCount === 1 ? '' : 's'}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div className="font-mono text-xs">{event.transactionId}</div>
+                        <div className="text-xs text-gray-500">{event.provider}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {event.order ? (
+                          <>
+                            <div>#{event.order.id.slice(-8)}</div>
+                            <div className="text-xs text-gray-500">{event.order.status} · {event.order.paymentStatus}</div>
+                          </>
+                        ) : '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {event.gatewayStatus}
+                        {!event.signatureValid && (
+                          <div className="text-xs text-red-600">Invalid signature</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {event.amount !== null ? `${event.amount.toFixed(2)} ${event.currency || ''}` : '—'}
+                        {event.order && event.amount !== null && Math.abs(event.amount - event.order.total) > 0.01 && (
+                          <div className="text-xs text-red-600">Order total ৳{event.order.total.toFixed(2)}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${eventStatusColors[event.status]}`}>
+                          {event.status}
+                        </span>
+                        {event.note && <p className="text-xs text-gray-500 mt-1 max-w-xs">{event.note}</p>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <button
+                          onClick={() => handleReplay(event)}
+                          disabled={replayingId === event.id || !event.signatureValid}
+                          className="block text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                        >
+                          {replayingId === event.id ? 'Replaying...' : 'Replay'}
+                        </button>
+                        <button
+                          onClick={() => setExpandedEventId(expandedEventId === event.id ? null : event.id)}
+                          className="block mt-1 text-xs text-gray-600 hover:text-gray-800"
+                        >
+                          {expandedEventId === event.id ? 'Hide payload' : 'View payload'}
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedEventId === event.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={7} className="px-6 py-4">
+                          <pre className="text-xs text-gray-700 whitespace-pre-wrap break-all">
+                            {JSON.stringify(event.payload, null, 2)}
+                          </pre>
+                        </td>
+                      </tr>
+                    )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default PaymentEventsPage;
@@ -20,6 +20,7 @@ interface Product {
   price: number;
   image: string;
   stock: number;
+  weight: number | null;
   featured: boolean;
   category: {
     id: string;
@@ -62,6 +63,7 @@ const AdminProducts: React.FC = () => {
     categoryId: '',
     image: '',
     stock: '',
+    weight: '',
     featured: false
   });
   
@@ -138,6 +140,7 @@ const AdminProducts: React.FC = () => {
         categoryId: formData.categoryId,
         image: formData.image.trim(),
         stock: parseInt(formData.stock) || 0,
+        weight: formData.weight ? parseFloat(formData.weight) : null,
         featured: formData.featured
       };
 
@@ -224,6 +227,7 @@ const AdminProducts: React.FC = () => {
       categoryId: product.category.id,
       image: product.image,
       stock: product.stock.toString(),
+      weight: product.weight?.toString() || '',
       featured: product.featured
     });
     
@@ -249,6 +253,7 @@ const AdminProducts: React.FC = () => {
       categoryId: '',
       image: '',
       stock: '',
+      weight: '',
       featured: false
     });
     setUploadedImages([]);
@@ -613,6 +618,19 @@ const AdminProducts: React.FC = () => {
               </div>
             </div>
 
+            <div>
+              <Label htmlFor="weight">Shipping Weight (kg)</Label>
+              <Input
+                id="weight"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.weight}
+                onChange={(e) => setFormData({ ...formData, weight: e.target.value })}
+                placeholder="Used for weight-based delivery rates"
+              />
+            </div>
+
             <div>
               <Label htmlFor="image">Image URL (Legacy support)</Label>
               <Input
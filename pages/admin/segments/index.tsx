@@ -0,0 +1,437 @@
+import React, { useState, useEffect } from 'react';
+import AdminLayout from '../../../components/AdminLayout';
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Badge } from '../../../components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../../../components/ui/alert-dialog';
+
+interface SegmentRules {
+  purchasedCategoryIds?: string[];
+  minTotalSpent?: number;
+  minOrders?: number;
+  inactiveDays?: number;
+  abandonedCart?: boolean;
+}
+
+interface CustomerSegment {
+  id: string;
+  name: string;
+  description: string | null;
+  rules: SegmentRules;
+  updatedAt: string;
+  _count?: { smsCampaigns: number; whatsappCampaigns: number };
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface SegmentPreview {
+  count: number;
+  sample: string[];
+}
+
+const CustomerSegmentsPage: React.FC = () => {
+  const [segments, setSegments] = useState<CustomerSegment[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Builder states; editingId is null while creating a new segment
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [minTotalSpent, setMinTotalSpent] = useState('');
+  const [minOrders, setMinOrders] = useState('');
+  const [inactiveDays, setInactiveDays] = useState('');
+  const [abandonedCart, setAbandonedCart] = useState(false);
+  const [preview, setPreview] = useState<SegmentPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSegments();
+  }, []);
+
+  // Helper function for API calls
+  const makeApiRequest = async (url: string, options: RequestInit = {}) => {
+    const headers = {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${localStorage.getItem('token')}`,
+      ...options.headers,
+    };
+
+    return fetch(url, {
+      ...options,
+      headers,
+    });
+  };
+
+  const fetchSegments = async () => {
+    try {
+      setLoading(true);
+      const response = await makeApiRequest('/api/admin/segments');
+
+      if (response.ok) {
+        const data = await response.json();
+        setSegments(data.segments || []);
+        setCategories(data.categories || []);
+      } else {
+        const errorData = await response.json();
+        alert(`Error fetching segments: ${errorData.message || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error fetching segments:', error);
+      alert(`Network error: ${error instanceof Error ? error.message : 'Please check your connection'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const buildRules = (): SegmentRules => ({
+    purchasedCategoryIds: categoryIds.length > 0 ? categoryIds : undefined,
+    minTotalSpent: minTotalSpent ? Number(minTotalSpent) : undefined,
+    minOrders: minOrders ? Number(minOrders) : undefined,
+    inactiveDays: inactiveDays ? Number(inactiveDays) : undefined,
+    abandonedCart: abandonedCart || undefined
+  });
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setDescription('');
+    setCategoryIds([]);
+    setMinTotalSpent('');
+    setMinOrders('');
+    setInactiveDays('');
+    setAbandonedCart(false);
+    setPreview(null);
+  };
+
+  const editSegment = (segment: CustomerSegment) => {
+    setEditingId(segment.id);
+    setName(segment.name);
+    setDescription(segment.description || '');
+    setCategoryIds(segment.rules.purchasedCategoryIds || []);
+    setMinTotalSpent(segment.rules.minTotalSpent?.toString() || '');
+    setMinOrders(segment.rules.minOrders?.toString() || '');
+    setInactiveDays(segment.rules.inactiveDays?.toString() || '');
+    setAbandonedCart(!!segment.rules.abandonedCart);
+    setPreview(null);
+  };
+
+  const toggleCategory = (categoryId: string) => {
+    setCategoryIds(current => current.includes(categoryId)
+      ? current.filter(id => id !== categoryId)
+      : [...current, categoryId]);
+    setPreview(null);
+  };
+
+  const previewRules = async () => {
+    try {
+      setPreviewing(true);
+      const response = await makeApiRequest('/api/admin/segments/preview', {
+        method: 'POST',
+        body: JSON.stringify({ rules: buildRules() })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setPreview(data);
+      } else {
+        alert(data.message || 'Failed to preview segment');
+      }
+    } catch (error) {
+      console.error('Error previewing segment:', error);
+      alert('Error previewing segment');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const saveSegment = async () => {
+    if (!name.trim()) {
+      alert('Please enter a segment name');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await makeApiRequest(editingId ? `/api/admin/segments/${editingId}` : '/api/admin/segments', {
+        method: editingId ? 'PUT' : 'POST',
+        body: JSON.stringify({ name, description, rules: buildRules() })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        resetForm();
+        await fetchSegments();
+        alert(editingId ? 'Segment updated' : 'Segment created');
+      } else {
+        alert(data.message || 'Failed to save segment');
+      }
+    } catch (error) {
+      console.error('Error saving segment:', error);
+      alert('Error saving segment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteSegment = async (segmentId: string) => {
+    try {
+      const response = await makeApiRequest(`/api/admin/segments/${segmentId}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        setSegments(segments.filter(s => s.id !== segmentId));
+        if (editingId === segmentId) {
+          resetForm();
+        }
+      } else {
+        const data = await response.json();
+        alert(data.message || 'Failed to delete segment');
+      }
+    } catch (error) {
+      console.error('Error deleting segment:', error);
+      alert('Error deleting segment');
+    }
+  };
+
+  const describeRules = (rules: SegmentRules) => {
+    const parts: string[] = [];
+    if (rules.purchasedCategoryIds?.length) {
+      const names = rules.purchasedCategoryIds.map(id => categories.find(c => c.id === id)?.name || 'deleted category');
+      parts.push(`Bought from ${names.join(', ')}`);
+    }
+    if (rules.minTotalSpent !== undefined) {
+      parts.push(`Spent at least ৳${rules.minTotalSpent}`);
+    }
+    if (rules.minOrders !== undefined) {
+      parts.push(`${rules.minOrders}+ orders`);
+    }
+    if (rules.inactiveDays !== undefined) {
+      parts.push(`No order in ${rules.inactiveDays} days`);
+    }
+    if (rules.abandonedCart) {
+      parts.push('Abandoned cart');
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'All customers with a phone number';
+  };
+
+  return (
+    <AdminLayout title="Customer Segments">
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Customer Segments</h1>
+          <p className="text-gray-600 mt-1">
+            Group customers by what they bought and when, then send SMS or WhatsApp campaigns to a segment.
+            A segment's customers are worked out again each time a campaign is sent.
+          </p>
+        </div>
+
+        {/* Segment Builder */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <span>🎯</span>
+              <span>{editingId ? 'Edit Segment' : 'New Segment'}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="segmentName">Name *</Label>
+                <Input
+                  id="segmentName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Lapsed big spenders"
+                />
+              </div>
+              <div>
+                <Label htmlFor="segmentDescription">Description</Label>
+                <Input
+                  id="segmentDescription"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-600">Customers must match every rule you fill in.</p>
+
+            <div>
+              <Label>Purchased in any of these categories</Label>
+              {categories.length === 0 ? (
+                <p className="text-sm text-gray-500 mt-1">No categories yet</p>
+              ) : (
+                <div className="flex flex-wrap gap-3 mt-2">
+                  {categories.map(category => (
+                    <label key={category.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={categoryIds.includes(category.id)}
+                        onChange={() => toggleCategory(category.id)}
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="minTotalSpent">Spent at least (৳)</Label>
+                <Input
+                  id="minTotalSpent"
+                  type="number"
+                  min="0"
+                  value={minTotalSpent}
+                  onChange={(e) => { setMinTotalSpent(e.target.value); setPreview(null); }}
+                />
+              </div>
+              <div>
+                <Label htmlFor="minOrders">At least this many orders</Label>
+                <Input
+                  id="minOrders"
+                  type="number"
+                  min="1"
+                  value={minOrders}
+                  onChange={(e) => { setMinOrders(e.target.value); setPreview(null); }}
+                />
+              </div>
+              <div>
+                <Label htmlFor="inactiveDays">No order in the last (days)</Label>
+                <Input
+                  id="inactiveDays"
+                  type="number"
+                  min="1"
+                  value={inactiveDays}
+                  onChange={(e) => { setInactiveDays(e.target.value); setPreview(null); }}
+                  placeholder="e.g., 60"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={abandonedCart}
+                onChange={(e) => { setAbandonedCart(e.target.checked); setPreview(null); }}
+              />
+              Left items in their cart for over a day without ordering
+            </label>
+
+            {preview && (
+              <div className="bg-gray-50 rounded p-3 text-sm">
+                <p className="font-medium">{preview.count} customers match right now</p>
+                {preview.sample.length > 0 && (
+                  <p className="text-gray-600 mt-1">
+                    {preview.sample.join(', ')}{preview.count > preview.sample.length && ', ...'}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={previewRules} disabled={previewing}>
+                {previewing ? 'Counting...' : '👀 Preview'}
+              </Button>
+              <Button onClick={saveSegment} disabled={saving}>
+                {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Segment'}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Segments List */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <span>📋</span>
+              <span>Segments</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : segments.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <p>No segments yet</p>
+                <p className="text-sm">Build your first segment above</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {segments.map(segment => (
+                  <div key={segment.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <h3 className="font-semibold text-lg">{segment.name}</h3>
+                        {segment.description && (
+                          <p className="text-gray-600 text-sm">{segment.description}</p>
+                        )}
+                      </div>
+                      {segment._count && (
+                        <Badge variant="outline">
+                          {segment._count.smsCampaigns + segment._count.whatsappCampaigns} campaigns
+                        </Badge>
+                      )}
+                    </div>
+
+                    <p className="text-sm text-gray-700 mb-3">{describeRules(segment.rules)}</p>
+
+                    <div className="flex space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => editSegment(segment)}>
+                        ✏️ Edit
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+                            🗑️ Delete
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Segment</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete "{segment.name}"? Campaigns already sent to it keep their recipients.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteSegment(segment.id)}
+                              className="bg-red-600 hover:bg-red-700"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default CustomerSegmentsPage;
@@ -2,9 +2,13 @@ import React from 'react';
 import AdminLayout from '../../../components/AdminLayout';
 import Link from 'next/link';
 import { useAuth } from '../../../contexts/AuthContext';
+import { useCurrentSubdomain } from '../../../hooks/useCurrentSubdomain';
+import PaymentMethodSettings from '../../../components/PaymentMethodSettings';
+import MessagingCredentialSettings from '../../../components/MessagingCredentialSettings';
 
 const SettingsPage: React.FC = () => {
   const { user } = useAuth();
+  const { adminId } = useCurrentSubdomain();
 
   const settingsCategories = [
     {
@@ -27,7 +31,7 @@ const SettingsPage: React.FC = () => {
       title: 'Payment Methods',
       description: 'Configure payment gateways and options',
       icon: '💳',
-      href: '/admin/settings/payments',
+      href: '#payment-methods',
       color: 'bg-green-500',
       available: true
     },
@@ -40,10 +44,18 @@ const SettingsPage: React.FC = () => {
       available: true
     },
     {
-      title: 'Email Templates',
-      description: 'Customize notification emails for orders and accounts',
+      title: 'SMS & WhatsApp',
+      description: 'Connect the SMS and WhatsApp accounts your messages are sent from',
+      icon: '💬',
+      href: '#messaging',
+      color: 'bg-teal-500',
+      available: true
+    },
+    {
+      title: 'Order Notifications',
+      description: 'Customize the SMS, WhatsApp and email updates customers get about their orders',
       icon: '📧',
-      href: '/admin/settings/emails',
+      href: '/admin/settings/notifications',
       color: 'bg-red-500',
       available: true
     },
@@ -91,6 +103,16 @@ const SettingsPage: React.FC = () => {
             ))}
           </div>
         </div>
+
+        <div id="payment-methods" className="bg-white p-6 rounded-lg shadow-lg">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Payment Methods</h2>
+          <PaymentMethodSettings adminId={adminId || user?.stores?.[0]?.id} />
+        </div>
+
+        <div id="messaging" className="bg-white p-6 rounded-lg shadow-lg">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">SMS & WhatsApp</h2>
+          <MessagingCredentialSettings adminId={adminId || user?.stores?.[0]?.id} />
+        </div>
       </div>
     </AdminLayout>
   );
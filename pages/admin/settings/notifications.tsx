@@ -0,0 +1,394 @@
+import React, { useState, useEffect } from 'react';
+import AdminLayout from '../../../components/AdminLayout';
+import axios from 'axios';
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Textarea } from '../../../components/ui/textarea';
+import { Badge } from '../../../components/ui/badge';
+import { useCurrentSubdomain } from '../../../hooks/useCurrentSubdomain';
+
+type NotificationEvent = 'ORDER_PLACED' | 'ORDER_PAID' | 'ORDER_SHIPPED' | 'ORDER_DELIVERED' | 'ORDER_CANCELLED';
+type NotificationChannel = 'SMS' | 'WHATSAPP' | 'EMAIL';
+type NotificationStatus = 'QUEUED' | 'SENT' | 'FAILED';
+
+interface NotificationTemplate {
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  enabled: boolean;
+  subject: string | null;
+  body: string;
+  whatsappTemplateName: string | null;
+  whatsappLanguage: string | null;
+  customized: boolean;
+}
+
+interface OrderNotification {
+  id: string;
+  orderId: string;
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  recipient: string;
+  status: NotificationStatus;
+  subject: string | null;
+  body: string;
+  error: string | null;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+const EVENT_LABELS: Record<NotificationEvent, string> = {
+  ORDER_PLACED: 'Order placed',
+  ORDER_PAID: 'Payment received',
+  ORDER_SHIPPED: 'Order shipped',
+  ORDER_DELIVERED: 'Order delivered',
+  ORDER_CANCELLED: 'Order cancelled'
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  SMS: 'SMS',
+  WHATSAPP: 'WhatsApp',
+  EMAIL: 'Email'
+};
+
+const statusColors: Record<NotificationStatus, string> = {
+  QUEUED: 'bg-gray-100 text-gray-800',
+  SENT: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800'
+};
+
+const NotificationSettings: React.FC = () => {
+  const { getSubdomainApiEndpoint } = useCurrentSubdomain();
+  const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
+  const [placeholders, setPlaceholders] = useState<string[]>([]);
+  const [configuredChannels, setConfiguredChannels] = useState<Record<NotificationChannel, boolean> | null>(null);
+  const [selectedEvent, setSelectedEvent] = useState<NotificationEvent>('ORDER_PLACED');
+  const [drafts, setDrafts] = useState<Partial<Record<NotificationChannel, NotificationTemplate>>>({});
+  const [savingChannel, setSavingChannel] = useState<NotificationChannel | null>(null);
+  const [templateErrors, setTemplateErrors] = useState<Partial<Record<NotificationChannel, string>>>({});
+  const [loading, setLoading] = useState(true);
+
+  const [notifications, setNotifications] = useState<OrderNotification[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [statusFilter, setStatusFilter] = useState<NotificationStatus | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [getSubdomainApiEndpoint('')]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [getSubdomainApiEndpoint(''), statusFilter, search, page]);
+
+  // Edits start from the saved templates whenever another event is picked
+  useEffect(() => {
+    setDrafts(Object.fromEntries(
+      templates.filter(template => template.event === selectedEvent).map(template => [template.channel, template])
+    ));
+    setTemplateErrors({});
+  }, [templates, selectedEvent]);
+
+  const applyTemplates = (data: any) => {
+    setTemplates(data.templates);
+    setPlaceholders(data.placeholders);
+    setConfiguredChannels(data.configuredChannels);
+  };
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await axios.get(getSubdomainApiEndpoint('/api/admin/notifications/templates'));
+      applyTemplates(response.data);
+    } catch (error) {
+      console.error('Failed to fetch notification templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchNotifications = async () => {
+    try {
+      const params = new URLSearchParams({
+        page: String(page),
+        ...(statusFilter !== 'all' && { status: statusFilter }),
+        ...(search && { search })
+      });
+      const response = await axios.get(getSubdomainApiEndpoint(`/api/admin/notifications?${params}`));
+      setNotifications(response.data.notifications);
+      setPagination(response.data.pagination);
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    }
+  };
+
+  const updateDraft = (channel: NotificationChannel, changes: Partial<NotificationTemplate>) => {
+    setDrafts(prev => ({ ...prev, [channel]: { ...prev[channel]!, ...changes } }));
+  };
+
+  const saveTemplate = async (channel: NotificationChannel) => {
+    const draft = drafts[channel];
+    if (!draft) return;
+
+    setSavingChannel(channel);
+    setTemplateErrors(prev => ({ ...prev, [channel]: undefined }));
+    try {
+      const response = await axios.put(getSubdomainApiEndpoint('/api/admin/notifications/templates'), draft);
+      applyTemplates(response.data);
+    } catch (error: any) {
+      console.error('Failed to save notification template:', error);
+      const data = error.response?.data;
+      setTemplateErrors(prev => ({ ...prev, [channel]: data?.details?.join(', ') || data?.error || 'Failed to save template' }));
+    } finally {
+      setSavingChannel(null);
+    }
+  };
+
+  const resetTemplate = async (channel: NotificationChannel) => {
+    if (!confirm(`Go back to the default ${CHANNEL_LABELS[channel]} template for "${EVENT_LABELS[selectedEvent]}"?`)) {
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams({ event: selectedEvent, channel });
+      const response = await axios.delete(getSubdomainApiEndpoint(`/api/admin/notifications/templates?${params}`));
+      applyTemplates(response.data);
+    } catch (error) {
+      console.error('Failed to reset notification template:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout title="Order Notifications">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout title="Order Notifications">
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold">Order Notifications</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Messages customers get when their order is placed, paid, shipped, delivered or cancelled. Customers choose
+            at checkout which channels they want updates on.
+          </p>
+          {configuredChannels && (
+            <div className="flex gap-2 mt-3">
+              {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                <Badge key={channel} variant={configuredChannels[channel] ? 'secondary' : 'outline'}>
+                  {CHANNEL_LABELS[channel]}: {configuredChannels[channel] ? 'ready' : 'not configured'}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Templates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(EVENT_LABELS) as NotificationEvent[]).map(event => (
+                <Button
+                  key={event}
+                  size="sm"
+                  variant={selectedEvent === event ? 'default' : 'outline'}
+                  onClick={() => setSelectedEvent(event)}
+                >
+                  {EVENT_LABELS[event]}
+                </Button>
+              ))}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Placeholders: {placeholders.map(name => `{{${name}}}`).join(', ')}
+            </p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => {
+                const draft = drafts[channel];
+                if (!draft) return null;
+
+                return (
+                  <div key={channel} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex justify-between items-center">
+                      <h3 className="font-semibold">{CHANNEL_LABELS[channel]}</h3>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={draft.enabled}
+                          onChange={(e) => updateDraft(channel, { enabled: e.target.checked })}
+                        />
+                        Enabled
+                      </label>
+                    </div>
+
+                    {channel === 'EMAIL' && (
+                      <div>
+                        <Label htmlFor={`subject-${channel}`}>Subject</Label>
+                        <Input
+                          id={`subject-${channel}`}
+                          value={draft.subject || ''}
+                          onChange={(e) => updateDraft(channel, { subject: e.target.value })}
+                        />
+                      </div>
+                    )}
+
+                    {channel === 'WHATSAPP' && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="col-span-2">
+                          <Label htmlFor="whatsappTemplateName">Approved template name</Label>
+                          <Input
+                            id="whatsappTemplateName"
+                            value={draft.whatsappTemplateName || ''}
+                            onChange={(e) => updateDraft(channel, { whatsappTemplateName: e.target.value })}
+                            placeholder="order_update"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="whatsappLanguage">Language</Label>
+                          <Input
+                            id="whatsappLanguage"
+                            value={draft.whatsappLanguage || ''}
+                            onChange={(e) => updateDraft(channel, { whatsappLanguage: e.target.value })}
+                            placeholder="en"
+                          />
+                        </div>
+                      </div>
+                    )}
+
+                    <div>
+                      <Label htmlFor={`body-${channel}`}>
+                        {channel === 'WHATSAPP' ? 'Template parameters, one per line' : 'Message'}
+                      </Label>
+                      <Textarea
+                        id={`body-${channel}`}
+                        value={draft.body}
+                        onChange={(e) => updateDraft(channel, { body: e.target.value })}
+                        rows={channel === 'WHATSAPP' ? 3 : 5}
+                      />
+                      {channel === 'SMS' && (
+                        <p className="text-xs text-gray-500 mt-1">{draft.body.length} characters before placeholders are filled in</p>
+                      )}
+                    </div>
+
+                    {templateErrors[channel] && <p className="text-sm text-red-600">{templateErrors[channel]}</p>}
+
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs text-gray-500">{draft.customized ? 'Customized' : 'Default'}</span>
+                      <div className="space-x-2">
+                        {draft.customized && (
+                          <Button size="sm" variant="outline" onClick={() => resetTemplate(channel)}>
+                            Reset
+                          </Button>
+                        )}
+                        <Button size="sm" onClick={() => saveTemplate(channel)} disabled={savingChannel === channel}>
+                          {savingChannel === channel ? 'Saving...' : 'Save'}
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle>Delivery Log</CardTitle>
+              <div className="flex gap-2">
+                <select
+                  value={statusFilter}
+                  onChange={(e) => { setStatusFilter(e.target.value as NotificationStatus | 'all'); setPage(1); }}
+                  className="border rounded-md px-2 text-sm"
+                >
+                  <option value="all">All statuses</option>
+                  <option value="QUEUED">Queued</option>
+                  <option value="SENT">Sent</option>
+                  <option value="FAILED">Failed</option>
+                </select>
+                <Input
+                  value={search}
+                  onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+                  placeholder="Search phone or email"
+                  className="max-w-xs"
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {notifications.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">No notifications sent yet</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {notifications.map(notification => (
+                    <tr key={notification.id}>
+                      <td className="px-6 py-4 text-sm font-mono">#{notification.orderId.slice(-8).toUpperCase()}</td>
+                      <td className="px-6 py-4 text-sm">{EVENT_LABELS[notification.event]}</td>
+                      <td className="px-6 py-4 text-sm">
+                        <div>{notification.recipient}</div>
+                        <div className="text-xs text-gray-500">{CHANNEL_LABELS[notification.channel]}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[notification.status]}`}>
+                          {notification.status}
+                        </span>
+                        {notification.error && <p className="text-xs text-red-600 mt-1 max-w-xs">{notification.error}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 whitespace-nowrap">
+                        {new Date(notification.sentAt || notification.createdAt).toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {pagination && pagination.pages > 1 && (
+              <div className="flex justify-between items-center p-4 text-sm text-gray-600">
+                <span>Page {pagination.page} of {pagination.pages} ({pagination.total} notifications)</span>
+                <div className="space-x-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= pagination.pages} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,450 @@
+import React, { useState, useEffect } from 'react';
+import AdminLayout from '../../../components/AdminLayout';
+import axios from 'axios';
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent } from '../../../components/ui/card';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../../../components/ui/dialog';
+import { Badge } from '../../../components/ui/badge';
+import { Pencil, Trash2, Plus, Truck, X } from 'lucide-react';
+import { useCurrentSubdomain } from '../../../hooks/useCurrentSubdomain';
+import { BANGLADESH_DIVISIONS } from '../../../lib/bangladeshDistricts';
+
+type ZoneType = 'INSIDE_DHAKA' | 'OUTSIDE_DHAKA' | 'DISTRICTS';
+type RateBasis = 'WEIGHT' | 'ORDER_TOTAL';
+
+interface ShippingRate {
+  id: string;
+  name: string;
+  basis: RateBasis;
+  minValue: number;
+  maxValue: number | null;
+  cost: number;
+}
+
+interface ShippingZone {
+  id: string;
+  name: string;
+  type: ZoneType;
+  districts: string[];
+  isActive: boolean;
+  sortOrder: number;
+  rates: ShippingRate[];
+}
+
+interface RateForm {
+  name: string;
+  basis: RateBasis;
+  minValue: string;
+  maxValue: string;
+  cost: string;
+}
+
+const zoneTypeLabels: Record<ZoneType, string> = {
+  INSIDE_DHAKA: 'Inside Dhaka',
+  OUTSIDE_DHAKA: 'Outside Dhaka',
+  DISTRICTS: 'Selected districts'
+};
+
+const emptyRate: RateForm = { name: '', basis: 'WEIGHT', minValue: '0', maxValue: '', cost: '' };
+
+const emptyForm = {
+  name: '',
+  type: 'INSIDE_DHAKA' as ZoneType,
+  districts: [] as string[],
+  isActive: true,
+  sortOrder: '0',
+  rates: [emptyRate] as RateForm[]
+};
+
+const formatRange = (rate: ShippingRate) => {
+  const unit = rate.basis === 'WEIGHT' ? ' kg' : '';
+  const prefix = rate.basis === 'ORDER_TOTAL' ? '৳' : '';
+  return rate.maxValue === null
+    ? `${prefix}${rate.minValue}${unit} and above`
+    : `${prefix}${rate.minValue}${unit} – under ${prefix}${rate.maxValue}${unit}`;
+};
+
+const ShippingSettings: React.FC = () => {
+  const { getSubdomainApiEndpoint } = useCurrentSubdomain();
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<ShippingZone | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchZones();
+  }, [getSubdomainApiEndpoint('')]);
+
+  const fetchZones = async () => {
+    try {
+      const response = await axios.get(getSubdomainApiEndpoint('/api/admin/shipping-zones'));
+      setZones(response.data.zones);
+    } catch (error) {
+      console.error('Failed to fetch shipping zones:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const payload = {
+      ...formData,
+      districts: formData.type === 'DISTRICTS' ? formData.districts : [],
+      rates: formData.rates.map(rate => ({
+        ...rate,
+        maxValue: rate.maxValue || null
+      }))
+    };
+
+    try {
+      if (editingZone) {
+        await axios.put(getSubdomainApiEndpoint(`/api/admin/shipping-zones/${editingZone.id}`), payload);
+      } else {
+        await axios.post(getSubdomainApiEndpoint('/api/admin/shipping-zones'), payload);
+      }
+      fetchZones();
+      resetForm();
+      setIsDialogOpen(false);
+    } catch (error: any) {
+      console.error('Failed to save shipping zone:', error);
+      const data = error.response?.data;
+      setFormError(data?.details?.join(', ') || data?.error || 'Failed to save shipping zone');
+    }
+  };
+
+  const handleDelete = async (zone: ShippingZone) => {
+    if (confirm(`Are you sure you want to delete the ${zone.name} zone?`)) {
+      try {
+        await axios.delete(getSubdomainApiEndpoint(`/api/admin/shipping-zones/${zone.id}`));
+        fetchZones();
+      } catch (error) {
+        console.error('Failed to delete shipping zone:', error);
+      }
+    }
+  };
+
+  const handleEdit = (zone: ShippingZone) => {
+    setEditingZone(zone);
+    setFormData({
+      name: zone.name,
+      type: zone.type,
+      districts: zone.districts,
+      isActive: zone.isActive,
+      sortOrder: zone.sortOrder.toString(),
+      rates: zone.rates.map(rate => ({
+        name: rate.name,
+        basis: rate.basis,
+        minValue: rate.minValue.toString(),
+        maxValue: rate.maxValue?.toString() || '',
+        cost: rate.cost.toString()
+      }))
+    });
+    setFormError(null);
+    setIsDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingZone(null);
+    setFormError(null);
+  };
+
+  const toggleDistrict = (district: string) => {
+    setFormData(prev => ({
+      ...prev,
+      districts: prev.districts.includes(district)
+        ? prev.districts.filter(existing => existing !== district)
+        : [...prev.districts, district]
+    }));
+  };
+
+  const updateRate = (index: number, field: keyof RateForm, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      rates: prev.rates.map((rate, i) => (i === index ? { ...rate, [field]: value } : rate))
+    }));
+  };
+
+  const removeRate = (index: number) => {
+    setFormData(prev => ({ ...prev, rates: prev.rates.filter((_, i) => i !== index) }));
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout title="Shipping">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout title="Shipping">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Shipping Zones</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Delivery charges are added at checkout from the customer&apos;s district. A zone for selected districts
+              takes precedence over Inside/Outside Dhaka, and the cheapest matching rate is used.
+            </p>
+          </div>
+          <Button onClick={() => { resetForm(); setIsDialogOpen(true); }}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Zone
+          </Button>
+        </div>
+
+        {zones.length > 0 && (
+          <Card>
+            <CardContent className="p-0">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Zone</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Covers</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rates</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {zones.map((zone) => (
+                    <tr key={zone.id}>
+                      <td className="px-6 py-4 font-semibold">{zone.name}</td>
+                      <td className="px-6 py-4 text-sm">
+                        {zoneTypeLabels[zone.type]}
+                        {zone.type === 'DISTRICTS' && (
+                          <div className="text-xs text-gray-500 max-w-xs">{zone.districts.join(', ')}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {zone.rates.map(rate => (
+                          <div key={rate.id}>
+                            <span className="font-medium">৳{rate.cost}</span>
+                            <span className="text-gray-500"> · {rate.name} ({formatRange(rate)})</span>
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-6 py-4">
+                        {zone.isActive ? (
+                          <Badge className="bg-green-100 text-green-800">Active</Badge>
+                        ) : (
+                          <Badge variant="secondary">Inactive</Badge>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex gap-2 justify-end">
+                          <Button size="sm" variant="outline" onClick={() => handleEdit(zone)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button size="sm" variant="destructive" onClick={() => handleDelete(zone)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Empty State */}
+        {zones.length === 0 && (
+          <div className="text-center py-12">
+            <Truck className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No shipping zones</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Delivery is free until you add a zone.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Zone Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingZone ? 'Edit Shipping Zone' : 'Add Shipping Zone'}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {formError && (
+              <div className="p-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded">
+                {formError}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                  placeholder="e.g., Inside Dhaka"
+                />
+              </div>
+              <div>
+                <Label htmlFor="type">Covers</Label>
+                <select
+                  id="type"
+                  value={formData.type}
+                  onChange={(e) => setFormData({ ...formData, type: e.target.value as ZoneType })}
+                  className="w-full h-10 px-3 border border-gray-300 rounded-md"
+                >
+                  <option value="INSIDE_DHAKA">Inside Dhaka</option>
+                  <option value="OUTSIDE_DHAKA">Outside Dhaka</option>
+                  <option value="DISTRICTS">Selected districts</option>
+                </select>
+              </div>
+            </div>
+
+            {formData.type === 'DISTRICTS' && (
+              <div>
+                <Label>Districts</Label>
+                <div className="mt-1 max-h-56 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-2">
+                  {Object.entries(BANGLADESH_DIVISIONS).map(([division, districts]) => (
+                    <div key={division}>
+                      <p className="text-xs font-semibold text-gray-500 uppercase">{division}</p>
+                      <div className="grid grid-cols-3 gap-1">
+                        {districts.map(district => (
+                          <label key={district} className="flex items-center space-x-2 text-sm">
+                            <input
+                              type="checkbox"
+                              checked={formData.districts.includes(district)}
+                              onChange={() => toggleDistrict(district)}
+                            />
+                            <span>{district}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between">
+                <Label>Rates</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setFormData({ ...formData, rates: [...formData.rates, emptyRate] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Rate
+                </Button>
+              </div>
+              <div className="mt-2 space-y-2">
+                {formData.rates.map((rate, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <Input
+                      className="col-span-3"
+                      value={rate.name}
+                      onChange={(e) => updateRate(index, 'name', e.target.value)}
+                      placeholder="Name"
+                    />
+                    <select
+                      value={rate.basis}
+                      onChange={(e) => updateRate(index, 'basis', e.target.value)}
+                      className="col-span-3 h-10 px-2 border border-gray-300 rounded-md text-sm"
+                    >
+                      <option value="WEIGHT">Weight (kg)</option>
+                      <option value="ORDER_TOTAL">Order value (৳)</option>
+                    </select>
+                    <Input
+                      className="col-span-2"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={rate.minValue}
+                      onChange={(e) => updateRate(index, 'minValue', e.target.value)}
+                      placeholder="From"
+                    />
+                    <Input
+                      className="col-span-2"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={rate.maxValue}
+                      onChange={(e) => updateRate(index, 'maxValue', e.target.value)}
+                      placeholder="Under"
+                    />
+                    <Input
+                      className="col-span-1"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={rate.cost}
+                      onChange={(e) => updateRate(index, 'cost', e.target.value)}
+                      placeholder="৳"
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeRate(index)}
+                      disabled={formData.rates.length === 1}
+                      className="col-span-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Leave &quot;Under&quot; empty for no upper limit. Products without a weight count as 0.5 kg.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="sortOrder">Priority</Label>
+                <Input
+                  id="sortOrder"
+                  type="number"
+                  value={formData.sortOrder}
+                  onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value })}
+                />
+              </div>
+              <label className="flex items-center space-x-2 text-sm mt-6">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                />
+                <span>Active</span>
+              </label>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingZone ? 'Update Zone' : 'Add Zone'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+};
+
+export default ShippingSettings;
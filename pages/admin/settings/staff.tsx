@@ -0,0 +1,375 @@
+import React, { useState, useEffect } from 'react';
+import AdminLayout from '../../../components/AdminLayout';
+import axios from 'axios';
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../../../components/ui/dialog';
+import { Badge } from '../../../components/ui/badge';
+import { Pencil, Trash2, UserPlus, Users, Copy } from 'lucide-react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useCurrentSubdomain } from '../../../hooks/useCurrentSubdomain';
+import {
+  STORE_PERMISSIONS,
+  PERMISSION_LABELS,
+  ROLE_LABELS,
+  StorePermission,
+  StoreRole
+} from '../../../lib/permissions';
+
+interface StaffMember {
+  id: string;
+  role: StoreRole;
+  permissions: StorePermission[];
+  createdAt: string;
+  user: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+interface StaffInvitation {
+  id: string;
+  email: string;
+  role: StoreRole;
+  permissions: StorePermission[];
+  expiresAt: string;
+  inviteUrl: string;
+}
+
+const emptyForm = {
+  email: '',
+  role: 'STAFF' as StoreRole,
+  permissions: [] as StorePermission[]
+};
+
+const StaffSettings: React.FC = () => {
+  const { user } = useAuth();
+  const { adminId, getSubdomainApiEndpoint } = useCurrentSubdomain();
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [invitations, setInvitations] = useState<StaffInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingMember, setEditingMember] = useState<StaffMember | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const store = user?.stores?.find(s => s.id === adminId) || user?.stores?.[0];
+  const isOwner = store?.role === 'OWNER';
+
+  useEffect(() => {
+    fetchStaff();
+  }, [getSubdomainApiEndpoint('')]);
+
+  const fetchStaff = async () => {
+    try {
+      const response = await axios.get(getSubdomainApiEndpoint('/api/admin/staff'));
+      setMembers(response.data.members);
+      setInvitations(response.data.invitations);
+    } catch (error) {
+      console.error('Failed to fetch staff:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    try {
+      if (editingMember) {
+        await axios.put(getSubdomainApiEndpoint(`/api/admin/staff/${editingMember.id}`), {
+          role: formData.role,
+          permissions: formData.permissions
+        });
+      } else {
+        const response = await axios.post(getSubdomainApiEndpoint('/api/admin/staff'), formData);
+        if (response.data.emailQueued) {
+          alert(`An invitation email is on its way to ${formData.email}.`);
+        }
+      }
+      fetchStaff();
+      resetForm();
+      setIsDialogOpen(false);
+    } catch (error: any) {
+      console.error('Failed to save staff member:', error);
+      const data = error.response?.data;
+      setFormError(data?.details?.join(', ') || data?.error || 'Failed to save staff member');
+    }
+  };
+
+  const handleRemove = async (member: StaffMember) => {
+    if (confirm(`Remove ${member.user.firstName} ${member.user.lastName} from the store?`)) {
+      try {
+        await axios.delete(getSubdomainApiEndpoint(`/api/admin/staff/${member.id}`));
+        fetchStaff();
+      } catch (error: any) {
+        console.error('Failed to remove staff member:', error);
+        alert(error.response?.data?.error || 'Failed to remove staff member');
+      }
+    }
+  };
+
+  const handleRevoke = async (invitation: StaffInvitation) => {
+    if (confirm(`Revoke the invitation for ${invitation.email}?`)) {
+      try {
+        await axios.delete(getSubdomainApiEndpoint(`/api/admin/staff/invitations/${invitation.id}`));
+        fetchStaff();
+      } catch (error) {
+        console.error('Failed to revoke invitation:', error);
+      }
+    }
+  };
+
+  const handleCopy = async (invitation: StaffInvitation) => {
+    try {
+      await navigator.clipboard.writeText(invitation.inviteUrl);
+      setCopiedId(invitation.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy invitation link:', error);
+    }
+  };
+
+  const handleEdit = (member: StaffMember) => {
+    setEditingMember(member);
+    setFormData({
+      email: member.user.email,
+      role: member.role,
+      permissions: member.permissions
+    });
+    setFormError(null);
+    setIsDialogOpen(true);
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingMember(null);
+    setFormError(null);
+  };
+
+  const togglePermission = (permission: StorePermission) => {
+    setFormData(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter(existing => existing !== permission)
+        : [...prev.permissions, permission]
+    }));
+  };
+
+  // Owners and managers can do everything, so only staff list their permissions
+  const renderPermissions = (role: StoreRole, permissions: StorePermission[]) => {
+    if (role !== 'STAFF') {
+      return <span className="text-sm text-gray-500">All permissions</span>;
+    }
+    if (permissions.length === 0) {
+      return <span className="text-sm text-gray-500">No permissions</span>;
+    }
+    return (
+      <div className="flex flex-wrap gap-1">
+        {permissions.map(permission => (
+          <Badge key={permission} variant="secondary">{PERMISSION_LABELS[permission]}</Badge>
+        ))}
+      </div>
+    );
+  };
+
+  const canChange = (member: StaffMember) =>
+    member.role !== 'OWNER' &&
+    member.user.id !== user?.id &&
+    (member.role !== 'MANAGER' || isOwner);
+
+  if (loading) {
+    return (
+      <AdminLayout title="Staff">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout title="Staff">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Staff</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Invite people to help run your store. Managers can do everything except change other managers;
+              staff only see the parts of the admin panel you allow.
+            </p>
+          </div>
+          <Button onClick={() => { resetForm(); setIsDialogOpen(true); }}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Invite Staff
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Member</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Permissions</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {members.map((member) => (
+                  <tr key={member.id}>
+                    <td className="px-6 py-4">
+                      <div className="font-semibold">{member.user.firstName} {member.user.lastName}</div>
+                      <div className="text-sm text-gray-500">{member.user.email}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <Badge className={member.role === 'OWNER' ? 'bg-blue-100 text-blue-800' : undefined} variant={member.role === 'OWNER' ? undefined : 'outline'}>
+                        {ROLE_LABELS[member.role]}
+                      </Badge>
+                    </td>
+                    <td className="px-6 py-4">{renderPermissions(member.role, member.permissions)}</td>
+                    <td className="px-6 py-4">
+                      {canChange(member) && (
+                        <div className="flex gap-2 justify-end">
+                          <Button size="sm" variant="outline" onClick={() => handleEdit(member)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button size="sm" variant="destructive" onClick={() => handleRemove(member)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+
+        {/* Pending Invitations */}
+        {invitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Pending Invitations</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between border border-gray-200 rounded-md p-3">
+                  <div>
+                    <div className="font-medium">{invitation.email}</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {ROLE_LABELS[invitation.role]} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </div>
+                    <div className="mt-1">{renderPermissions(invitation.role, invitation.permissions)}</div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => handleCopy(invitation)}>
+                      <Copy className="w-4 h-4 mr-1" />
+                      {copiedId === invitation.id ? 'Copied' : 'Copy link'}
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => handleRevoke(invitation)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Empty State */}
+        {members.length <= 1 && invitations.length === 0 && (
+          <div className="text-center py-12">
+            <Users className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No staff yet</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Invite someone and share the link with them to give them access.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Staff Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editingMember ? 'Edit Access' : 'Invite Staff'}
+            </DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {formError && (
+              <div className="p-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded">
+                {formError}
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                disabled={!!editingMember}
+                required
+                placeholder="name@example.com"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="role">Role</Label>
+              <select
+                id="role"
+                value={formData.role}
+                onChange={(e) => setFormData({ ...formData, role: e.target.value as StoreRole })}
+                className="w-full h-10 px-3 border border-gray-300 rounded-md"
+              >
+                <option value="STAFF">Staff</option>
+                {isOwner && <option value="MANAGER">Manager</option>}
+              </select>
+            </div>
+
+            {formData.role === 'STAFF' && (
+              <div>
+                <Label>Permissions</Label>
+                <div className="mt-1 space-y-2">
+                  {STORE_PERMISSIONS.map(permission => (
+                    <label key={permission} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={formData.permissions.includes(permission)}
+                        onChange={() => togglePermission(permission)}
+                      />
+                      <span>{PERMISSION_LABELS[permission]}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {editingMember ? 'Save' : 'Send Invitation'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+};
+
+export default StaffSettings;
@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import AdminLayout from '../../../components/AdminLayout';
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Input } from '../../../components/ui/input';
+import { Badge } from '../../../components/ui/badge';
+import { waitForJob } from '../../../lib/jobStatus';
+
+type MessageStatus = 'QUEUED' | 'SENT' | 'DELIVERED' | 'FAILED' | 'SUPPRESSED';
+
+interface SMSMessage {
+  id: string;
+  phoneNumber: string;
+  status: MessageStatus;
+  providerMessageId: string | null;
+  cost: number | null;
+  error: string | null;
+  sentAt: string | null;
+  deliveredAt: string | null;
+}
+
+interface SMSCampaign {
+  id: string;
+  name: string;
+  message: string;
+  status: 'DRAFT' | 'SENDING' | 'SENT' | 'SCHEDULED' | 'FAILED';
+  totalCount: number;
+  deliveredCount: number;
+  failedCount: number;
+  sentAt?: string;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+const messageStatusColors: Record<MessageStatus, string> = {
+  QUEUED: 'bg-gray-100 text-gray-800',
+  SENT: 'bg-blue-100 text-blue-800',
+  DELIVERED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  SUPPRESSED: 'bg-yellow-100 text-yellow-800'
+};
+
+const SMSCampaignMessagesPage: React.FC = () => {
+  const router = useRouter();
+  const { campaignId } = router.query;
+
+  const [campaign, setCampaign] = useState<SMSCampaign | null>(null);
+  const [messages, setMessages] = useState<SMSMessage[]>([]);
+  const [counts, setCounts] = useState<Record<MessageStatus, number> | null>(null);
+  const [totalCost, setTotalCost] = useState<number | null>(null);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<MessageStatus | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [retrying, setRetrying] = useState(false);
+  const [retryProgress, setRetryProgress] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (typeof campaignId === 'string') {
+      fetchMessages();
+    }
+  }, [campaignId, statusFilter, search, page]);
+
+  const makeApiRequest = async (url: string, options: RequestInit = {}) => {
+    return fetch(url, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+        ...options.headers,
+      },
+    });
+  };
+
+  const fetchMessages = async () => {
+    try {
+      const params = new URLSearchParams({
+        page: String(page),
+        ...(statusFilter !== 'all' && { status: statusFilter }),
+        ...(search && { search })
+      });
+      const response = await makeApiRequest(`/api/admin/sms-campaigns/${campaignId}/messages?${params}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setCampaign(data.campaign);
+        setMessages(data.messages);
+        setCounts(data.counts);
+        setTotalCost(data.totalCost);
+        setPagination(data.pagination);
+      } else {
+        alert(data.message || 'Failed to load messages');
+      }
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const retryFailed = async () => {
+    if (!confirm(`Send the campaign again to ${counts?.FAILED || 0} failed recipients?`)) {
+      return;
+    }
+
+    try {
+      setRetrying(true);
+      const response = await makeApiRequest(`/api/admin/sms-campaigns/${campaignId}/retry`, {
+        method: 'POST'
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.message || 'Failed to retry campaign');
+        return;
+      }
+
+      await fetchMessages();
+
+      // The job worker sends the retried messages; follow it until it is done
+      const job = await waitForJob(data.jobId, url => makeApiRequest(url), update => {
+        if (update.progress) {
+          setRetryProgress(`${update.progress.sent}/${update.progress.total}`);
+        }
+      });
+
+      if (job.status === 'FAILED') {
+        alert(`Retry failed: ${job.lastError}`);
+      } else if (job.status !== 'SUCCEEDED') {
+        alert('The failed messages are still being sent. Check back later for the results.');
+      }
+    } catch (error) {
+      console.error('Error retrying campaign:', error);
+      alert('Error retrying campaign');
+    } finally {
+      setRetrying(false);
+      setRetryProgress(null);
+      await fetchMessages();
+    }
+  };
+
+  const changeFilter = (status: MessageStatus | 'all') => {
+    setStatusFilter(status);
+    setPage(1);
+  };
+
+  const canRetry = campaign && (campaign.status === 'SENT' || campaign.status === 'FAILED') && !!counts?.FAILED;
+
+  return (
+    <AdminLayout title="SMS Campaign Messages">
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{campaign?.name || 'SMS Campaign'}</h1>
+            <p className="text-sm text-gray-500">
+              Delivery status of each recipient. <Link href="/admin/sms-campaign" className="text-blue-600 hover:text-blue-800">Back to campaigns</Link>
+            </p>
+          </div>
+          {campaign && <Badge variant="outline">{campaign.status}</Badge>}
+        </div>
+
+        {counts && (
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            {(['QUEUED', 'SENT', 'DELIVERED', 'FAILED', 'SUPPRESSED'] as MessageStatus[]).map(status => (
+              <button
+                key={status}
+                onClick={() => changeFilter(statusFilter === status ? 'all' : status)}
+                className={`text-left border rounded-lg p-4 bg-white ${statusFilter === status ? 'ring-2 ring-blue-500' : ''}`}
+              >
+                <div className="text-xs font-medium text-gray-500 uppercase">{status}</div>
+                <div className="text-2xl font-bold">{counts[status]}</div>
+              </button>
+            ))}
+            <div className="border rounded-lg p-4 bg-white">
+              <div className="text-xs font-medium text-gray-500 uppercase">Cost</div>
+              <div className="text-2xl font-bold">{totalCost !== null ? `৳${totalCost.toFixed(2)}` : '—'}</div>
+            </div>
+          </div>
+        )}
+
+        {canRetry && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Retry Failed Messages</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Failed messages are sent again from the SMS Bangladesh account saved in{' '}
+                <Link href="/admin/settings#messaging" className="text-blue-600 hover:underline">Settings</Link>.
+              </p>
+              <Button onClick={retryFailed} disabled={retrying} className="bg-green-600 hover:bg-green-700">
+                {retrying
+                  ? (retryProgress ? `Retrying ${retryProgress}...` : 'Retrying...')
+                  : `🔁 Retry ${counts?.FAILED} failed only`}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle>Recipients</CardTitle>
+              <Input
+                value={search}
+                onChange={(e) => {
+                  setSearch(e.target.value);
+                  setPage(1);
+                }}
+                placeholder="Search phone number"
+                className="max-w-xs"
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : messages.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <p>No messages found</p>
+                <p className="text-sm">Messages are recorded once the campaign is sent</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Phone Number</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Message ID</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sent</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Delivered</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {messages.map((message) => (
+                      <tr key={message.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 whitespace-nowrap text-sm font-mono">{message.phoneNumber}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <span className={`px-2 py-1 text-xs font-semibold rounded-full ${messageStatusColors[message.status]}`}>
+                            {message.status}
+                          </span>
+                          {message.error && <p className="text-xs text-red-600 mt-1 max-w-xs">{message.error}</p>}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-xs font-mono text-gray-500">{message.providerMessageId || '—'}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm">{message.cost !== null ? `৳${message.cost.toFixed(2)}` : '—'}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {message.sentAt ? new Date(message.sentAt).toLocaleString() : '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {message.deliveredAt ? new Date(message.deliveredAt).toLocaleString() : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {pagination && pagination.pages > 1 && (
+              <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+                <span>Page {pagination.page} of {pagination.pages} ({pagination.total} messages)</span>
+                <div className="space-x-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= pagination.pages} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default SMSCampaignMessagesPage;
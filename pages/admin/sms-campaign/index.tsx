@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import AdminLayout from '../../../components/AdminLayout';
+import CampaignAudienceSelect from '../../../components/CampaignAudienceSelect';
 import { Button } from '../../../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
 import { Input } from '../../../components/ui/input';
@@ -8,16 +10,20 @@ import { Textarea } from '../../../components/ui/textarea';
 import { Badge } from '../../../components/ui/badge';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../../../components/ui/alert-dialog';
 import { parseRecipients, validateSMSMessage } from '../../../lib/sms-bangladesh';
+import { waitForJob } from '../../../lib/jobStatus';
+import { DEFAULT_TIME_ZONE, formatInTimeZone, utcToZonedInputValue } from '../../../lib/timezone';
 
 interface SMSCampaign {
   id: string;
   name: string;
   message: string;
   recipients: string[];
-  status: 'DRAFT' | 'SENT' | 'SCHEDULED' | 'FAILED';
+  segment?: { id: string; name: string } | null;
+  status: 'DRAFT' | 'SENDING' | 'SENT' | 'SCHEDULED' | 'FAILED';
   sentAt?: string;
   scheduledAt?: string;
   deliveredCount: number;
+  suppressedCount: number;
   totalCount: number;
   createdAt: string;
 }
@@ -33,11 +39,18 @@ const SMSCampaignPage: React.FC = () => {
   const [campaigns, setCampaigns] = useState<SMSCampaign[]>([]);
   const [loading, setLoading] = useState(false);
   const [sendingCampaign, setSendingCampaign] = useState<string | null>(null);
+  const [sendProgress, setSendProgress] = useState<string | null>(null);
+  // The store's time zone, which scheduled times are entered and shown in
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [reschedulingCampaign, setReschedulingCampaign] = useState<string | null>(null);
+  const [rescheduleDate, setRescheduleDate] = useState('');
   
   // Form states
   const [campaignName, setCampaignName] = useState('');
   const [message, setMessage] = useState('');
   const [recipients, setRecipients] = useState('');
+  // Send to a customer segment instead of the pasted numbers
+  const [segmentId, setSegmentId] = useState<string | null>(null);
   const [scheduledDate, setScheduledDate] = useState('');
   const [isCreating, setIsCreating] = useState(false);
 
@@ -45,13 +58,8 @@ const SMSCampaignPage: React.FC = () => {
   const [testNumber, setTestNumber] = useState('');
   const [testSending, setTestSending] = useState(false);
 
-  // SMS Bangladesh API Configuration
-  const [apiConfig, setApiConfig] = useState({
-    baseUrl: 'https://panel.smsbangladesh.com/api',
-    user: process.env.NEXT_PUBLIC_SMS_BANGLADESH_USER || 'icc.maheshpur@gmail.com',
-    password: process.env.NEXT_PUBLIC_SMS_BANGLADESH_PASSWORD || 'Skynet@1231',
-    from: process.env.NEXT_PUBLIC_SMS_BANGLADESH_FROM || 'ANJUMS'
-  });
+  // Whether the store has saved its SMS Bangladesh credentials in Settings
+  const [smsConfigured, setSmsConfigured] = useState(true);
 
   useEffect(() => {
     fetchCampaigns();
@@ -61,6 +69,7 @@ const SMSCampaignPage: React.FC = () => {
   const makeApiRequest = async (url: string, options: RequestInit = {}) => {
     const headers = {
       'Content-Type': 'application/json',
+      Authorization: `Bearer ${localStorage.getItem('token')}`,
       ...options.headers,
     };
 
@@ -78,6 +87,8 @@ const SMSCampaignPage: React.FC = () => {
       if (response.ok) {
         const data = await response.json();
         setCampaigns(data.campaigns || []);
+        setTimeZone(data.timeZone || DEFAULT_TIME_ZONE);
+        setSmsConfigured(!!data.smsConfigured);
       } else {
         const errorData = await response.json();
         console.error('Error response:', errorData);
@@ -92,13 +103,13 @@ const SMSCampaignPage: React.FC = () => {
   };
 
   const createCampaign = async () => {
-    if (!campaignName || !message || !recipients) {
+    if (!campaignName || !message || (!segmentId && !recipients)) {
       alert('Please fill in all required fields');
       return;
     }
 
-    const recipientNumbers = parseRecipients(recipients);
-    if (recipientNumbers.length === 0) {
+    const recipientNumbers = segmentId ? [] : parseRecipients(recipients);
+    if (!segmentId && recipientNumbers.length === 0) {
       alert('Please provide valid phone numbers');
       return;
     }
@@ -108,6 +119,11 @@ const SMSCampaignPage: React.FC = () => {
       return;
     }
 
+    if (scheduledDate && !smsConfigured) {
+      alert('Please set up SMS Bangladesh in Settings before scheduling a campaign');
+      return;
+    }
+
     try {
       setIsCreating(true);
       const response = await makeApiRequest('/api/admin/sms-campaigns', {
@@ -115,7 +131,7 @@ const SMSCampaignPage: React.FC = () => {
         body: JSON.stringify({
           name: campaignName,
           message,
-          recipients: recipientNumbers,
+          ...(segmentId ? { segmentId } : { recipients: recipientNumbers }),
           scheduledAt: scheduledDate || null
         })
       });
@@ -128,6 +144,7 @@ const SMSCampaignPage: React.FC = () => {
         setCampaignName('');
         setMessage('');
         setRecipients('');
+        setSegmentId(null);
         setScheduledDate('');
         
         alert('Campaign created successfully!');
@@ -147,8 +164,8 @@ const SMSCampaignPage: React.FC = () => {
     const campaign = campaigns.find(c => c.id === campaignId);
     if (!campaign) return;
 
-    if (!apiConfig.user || !apiConfig.password) {
-      alert('Please configure your SMS Bangladesh API credentials first');
+    if (!smsConfigured) {
+      alert('Please set up SMS Bangladesh in Settings first');
       return;
     }
 
@@ -157,10 +174,7 @@ const SMSCampaignPage: React.FC = () => {
       
       // Send campaign via backend API (backend will handle SMS Bangladesh call)
       const response = await makeApiRequest(`/api/admin/sms-campaigns/${campaignId}/send`, {
-        method: 'POST',
-        body: JSON.stringify({
-          apiConfig
-        })
+        method: 'POST'
       });
 
       if (response.ok) {
@@ -168,8 +182,22 @@ const SMSCampaignPage: React.FC = () => {
         setCampaigns(campaigns.map(c => 
           c.id === campaignId ? { ...c, ...data.campaign } : c
         ));
-        
-        alert(`Campaign sent successfully! ${data.stats.deliveredCount}/${data.stats.totalCount} delivered (${data.stats.successRate}% success rate)`);
+
+        // The campaign is sent by the job worker; follow it until it is done
+        const job = await waitForJob(data.jobId, url => makeApiRequest(url), update => {
+          if (update.progress) {
+            setSendProgress(`${update.progress.sent}/${update.progress.total}`);
+          }
+        });
+        await fetchCampaigns();
+
+        if (job.status === 'SUCCEEDED' && job.result?.status === 'SENT') {
+          alert(`Campaign sent successfully! ${job.result.deliveredCount}/${job.result.totalCount} delivered (${job.result.successRate}% success rate)`);
+        } else if (job.status === 'SUCCEEDED' || job.status === 'FAILED') {
+          alert(`Failed to send campaign: ${job.lastError || `${job.result?.failedCount ?? 0} messages failed`}`);
+        } else {
+          alert('The campaign is still being sent. Check back later for the results.');
+        }
       } else {
         const error = await response.json();
         alert(`Failed to send campaign: ${error.message}`);
@@ -179,6 +207,35 @@ const SMSCampaignPage: React.FC = () => {
       alert('Error sending campaign');
     } finally {
       setSendingCampaign(null);
+      setSendProgress(null);
+    }
+  };
+
+  // Move a scheduled campaign to a new time, or cancel its schedule with null
+  const updateSchedule = async (campaignId: string, scheduledAt: string | null) => {
+    if (scheduledAt && !smsConfigured) {
+      alert('Please set up SMS Bangladesh in Settings first');
+      return;
+    }
+
+    try {
+      const response = await makeApiRequest(`/api/admin/sms-campaigns/${campaignId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ scheduledAt })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setCampaigns(campaigns.map(c => c.id === campaignId ? { ...c, ...data.campaign } : c));
+        setReschedulingCampaign(null);
+        alert(scheduledAt ? 'Campaign rescheduled' : 'Schedule cancelled; the campaign is back to draft');
+      } else {
+        alert(data.message || 'Failed to update the schedule');
+        await fetchCampaigns();
+      }
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      alert('Error updating schedule');
     }
   };
 
@@ -205,6 +262,7 @@ const SMSCampaignPage: React.FC = () => {
       case 'SENT': return 'bg-green-100 text-green-800';
       case 'FAILED': return 'bg-red-100 text-red-800';
       case 'SCHEDULED': return 'bg-blue-100 text-blue-800';
+      case 'SENDING': return 'bg-yellow-100 text-yellow-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -215,8 +273,8 @@ const SMSCampaignPage: React.FC = () => {
       return;
     }
 
-    if (!apiConfig.user || !apiConfig.password) {
-      alert('Please configure your SMS Bangladesh API credentials');
+    if (!smsConfigured) {
+      alert('Please set up SMS Bangladesh in Settings first');
       return;
     }
 
@@ -226,12 +284,7 @@ const SMSCampaignPage: React.FC = () => {
       // Send test SMS via backend API
       const response = await makeApiRequest('/api/admin/sms-test', {
         method: 'POST',
-        body: JSON.stringify({
-          testNumber,
-          user: apiConfig.user,
-          password: apiConfig.password,
-          from: apiConfig.from
-        })
+        body: JSON.stringify({ testNumber })
       });
 
       const result = await response.json();
@@ -285,7 +338,7 @@ const SMSCampaignPage: React.FC = () => {
                 />
               </div>
               <div>
-                <Label htmlFor="scheduledDate">Schedule Date (Optional)</Label>
+                <Label htmlFor="scheduledDate">Schedule Date (Optional, {timeZone})</Label>
                 <Input
                   id="scheduledDate"
                   type="datetime-local"
@@ -310,19 +363,21 @@ const SMSCampaignPage: React.FC = () => {
               </p>
             </div>
 
-            <div>
-              <Label htmlFor="recipients">Phone Numbers *</Label>
-              <Textarea
-                id="recipients"
-                value={recipients}
-                onChange={(e) => setRecipients(e.target.value)}
-                placeholder="Enter phone numbers separated by commas or new lines&#10;e.g., 01712345678, 01987654321&#10;+8801712345678"
-                className="min-h-[120px]"
-              />
-              <p className="text-sm text-gray-500 mt-1">
-                Valid numbers: {parseRecipients(recipients).length}
-              </p>
-            </div>
+            <CampaignAudienceSelect segmentId={segmentId} onChange={setSegmentId}>
+              <div>
+                <Label htmlFor="recipients">Phone Numbers *</Label>
+                <Textarea
+                  id="recipients"
+                  value={recipients}
+                  onChange={(e) => setRecipients(e.target.value)}
+                  placeholder="Enter phone numbers separated by commas or new lines&#10;e.g., 01712345678, 01987654321&#10;+8801712345678"
+                  className="min-h-[120px]"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Valid numbers: {parseRecipients(recipients).length}
+                </p>
+              </div>
+            </CampaignAudienceSelect>
 
             <Button 
               onClick={createCampaign} 
@@ -385,16 +440,71 @@ const SMSCampaignPage: React.FC = () => {
                     
                     <div className="flex items-center justify-between text-sm text-gray-600 mb-3">
                       <span>👥 Recipients: {campaign.totalCount}</span>
-                      {campaign.status === 'SENT' && (
+                      {campaign.segment && (
+                        <span>🎯 Segment: {campaign.segment.name}</span>
+                      )}
+                      {(campaign.status === 'SENT' || campaign.status === 'SENDING') && (
                         <span>✅ Delivered: {campaign.deliveredCount}</span>
                       )}
+                      {campaign.suppressedCount > 0 && (
+                        <span>🚫 Suppressed: {campaign.suppressedCount}</span>
+                      )}
+                      {campaign.status === 'SCHEDULED' && campaign.scheduledAt && (
+                        <span>⏰ Scheduled: {formatInTimeZone(campaign.scheduledAt, timeZone)}</span>
+                      )}
                       {campaign.sentAt && (
                         <span>📅 Sent: {new Date(campaign.sentAt).toLocaleString()}</span>
                       )}
                     </div>
+
+                    {reschedulingCampaign === campaign.id && (
+                      <div className="flex items-end space-x-2 mb-3">
+                        <div>
+                          <Label htmlFor={`reschedule-${campaign.id}`}>New time ({timeZone})</Label>
+                          <Input
+                            id={`reschedule-${campaign.id}`}
+                            type="datetime-local"
+                            value={rescheduleDate}
+                            onChange={(e) => setRescheduleDate(e.target.value)}
+                          />
+                        </div>
+                        <Button size="sm" disabled={!rescheduleDate} onClick={() => updateSchedule(campaign.id, rescheduleDate)}>
+                          Save
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setReschedulingCampaign(null)}>
+                          Close
+                        </Button>
+                      </div>
+                    )}
                     
                     <div className="flex space-x-2">
-                      {campaign.status === 'DRAFT' && (
+                      {campaign.status === 'SCHEDULED' && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setReschedulingCampaign(campaign.id);
+                              setRescheduleDate(campaign.scheduledAt ? utcToZonedInputValue(campaign.scheduledAt, timeZone) : '');
+                            }}
+                          >
+                            ⏰ Reschedule
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => updateSchedule(campaign.id, null)}>
+                            Cancel schedule
+                          </Button>
+                        </>
+                      )}
+
+                      {(campaign.status === 'SENT' || campaign.status === 'SENDING' || campaign.status === 'FAILED') && (
+                        <Link href={`/admin/sms-campaign/${campaign.id}`}>
+                          <Button variant="outline" size="sm">
+                            📋 Recipients
+                          </Button>
+                        </Link>
+                      )}
+
+                      {(campaign.status === 'DRAFT' || campaign.status === 'SCHEDULED') && (
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button 
@@ -405,7 +515,7 @@ const SMSCampaignPage: React.FC = () => {
                               {sendingCampaign === campaign.id ? (
                                 <span className="flex items-center space-x-1">
                                   <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white"></div>
-                                  <span>Sending...</span>
+                                  <span>{sendProgress ? `Sending ${sendProgress}...` : 'Sending...'}</span>
                                 </span>
                               ) : (
                                 <span className="flex items-center space-x-1">
@@ -473,38 +583,18 @@ const SMSCampaignPage: React.FC = () => {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div>
-                <Label htmlFor="apiUser">API User (Email) *</Label>
-                <Input
-                  id="apiUser"
-                  type="email"
-                  value={apiConfig.user}
-                  onChange={(e) => setApiConfig({...apiConfig, user: e.target.value})}
-                  placeholder="icc.maheshpur@gmail.com"
-                />
-              </div>
-              <div>
-                <Label htmlFor="apiPassword">API Password *</Label>
-                <Input
-                  id="apiPassword"
-                  type="password"
-                  value={apiConfig.password}
-                  onChange={(e) => setApiConfig({...apiConfig, password: e.target.value})}
-                  placeholder="Your SMS Bangladesh Password"
-                />
-              </div>
-              <div>
-                <Label htmlFor="fromName">Sender Name/Mask</Label>
-                <Input
-                  id="fromName"
-                  value={apiConfig.from}
-                  onChange={(e) => setApiConfig({...apiConfig, from: e.target.value})}
-                  placeholder="ECOMMERCE"
-                  maxLength={11}
-                />
+            {smsConfigured ? (
+              <p className="text-sm text-gray-600">
+                Campaigns are sent from the SMS Bangladesh account saved in{' '}
+                <Link href="/admin/settings#messaging" className="text-blue-600 hover:underline">Settings</Link>.
+              </p>
+            ) : (
+              <div className="text-sm text-red-700 bg-red-50 border border-red-200 p-3 rounded">
+                SMS Bangladesh is not set up for this store.{' '}
+                <Link href="/admin/settings#messaging" className="font-medium underline">Add your credentials in Settings</Link>{' '}
+                to send campaigns.
               </div>
-            </div>
+            )}
             
             {/* Test SMS Section */}
             <div className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -521,7 +611,7 @@ const SMSCampaignPage: React.FC = () => {
                 <div className="flex items-end">
                   <Button 
                     onClick={sendTestSMS}
-                    disabled={testSending}
+                    disabled={testSending || !smsConfigured}
                     variant="outline"
                     className="w-full"
                   >
@@ -540,22 +630,6 @@ const SMSCampaignPage: React.FC = () => {
                 </div>
               </div>
             </div>
-
-            <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded">
-              <p><strong>SMS Bangladesh API Information:</strong></p>
-              <ul className="list-disc list-inside mt-2 space-y-1">
-                <li><strong>API URL:</strong> {apiConfig.baseUrl}</li>
-                <li><strong>Method:</strong> GET request with parameters</li>
-                <li><strong>Format:</strong> ?user=email&password=pass&from=mask&to=numbers&text=message</li>
-                <li><strong>Numbers:</strong> Must include country code (88 for Bangladesh)</li>
-              </ul>
-              <p className="mt-3"><strong>Environment Variables (Optional):</strong></p>
-              <ul className="list-disc list-inside mt-1 space-y-1">
-                <li><code>NEXT_PUBLIC_SMS_BANGLADESH_USER</code></li>
-                <li><code>NEXT_PUBLIC_SMS_BANGLADESH_PASSWORD</code></li>
-                <li><code>NEXT_PUBLIC_SMS_BANGLADESH_FROM</code></li>
-              </ul>
-            </div>
           </CardContent>
         </Card>
       </div>
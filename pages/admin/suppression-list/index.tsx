@@ -0,0 +1,366 @@
+import React, { useState, useEffect } from 'react';
+import AdminLayout from '../../../components/AdminLayout';
+import { Button } from '../../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Textarea } from '../../../components/ui/textarea';
+import { Badge } from '../../../components/ui/badge';
+
+type Channel = 'SMS' | 'WHATSAPP';
+type Reason = 'OPT_OUT' | 'OPT_IN' | 'MANUAL' | 'INVALID_NUMBER';
+
+interface SuppressedNumber {
+  id: string;
+  channel: Channel;
+  phoneNumber: string;
+  reason: Reason;
+  detail: string | null;
+  createdAt: string;
+}
+
+interface SuppressionEvent {
+  id: string;
+  channel: Channel;
+  phoneNumber: string;
+  action: 'SUPPRESSED' | 'RESTORED';
+  reason: Reason;
+  detail: string | null;
+  createdAt: string;
+  user: { firstName: string; lastName: string; email: string } | null;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+const reasonLabels: Record<Reason, string> = {
+  OPT_OUT: 'Opted out',
+  OPT_IN: 'Opted back in',
+  MANUAL: 'Admin',
+  INVALID_NUMBER: 'Invalid number'
+};
+
+const channelLabels: Record<Channel, string> = {
+  SMS: 'SMS',
+  WHATSAPP: 'WhatsApp'
+};
+
+const SuppressionListPage: React.FC = () => {
+  const [numbers, setNumbers] = useState<SuppressedNumber[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [events, setEvents] = useState<SuppressionEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [channelFilter, setChannelFilter] = useState<Channel | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+
+  // Add form states
+  const [newNumbers, setNewNumbers] = useState('');
+  const [newChannel, setNewChannel] = useState<Channel | 'ALL'>('ALL');
+  const [note, setNote] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    fetchNumbers();
+  }, [channelFilter, search, page]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [search]);
+
+  // Helper function for API calls
+  const makeApiRequest = async (url: string, options: RequestInit = {}) => {
+    return fetch(url, {
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${localStorage.getItem('token')}`,
+        ...options.headers,
+      },
+    });
+  };
+
+  const fetchNumbers = async () => {
+    try {
+      const params = new URLSearchParams({
+        page: String(page),
+        ...(channelFilter !== 'all' && { channel: channelFilter }),
+        ...(search && { search })
+      });
+      const response = await makeApiRequest(`/api/admin/suppression-list?${params}`);
+      const data = await response.json();
+
+      if (response.ok) {
+        setNumbers(data.numbers);
+        setPagination(data.pagination);
+      } else {
+        alert(data.message || 'Failed to load the suppression list');
+      }
+    } catch (error) {
+      console.error('Error fetching suppression list:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHistory = async () => {
+    try {
+      const params = new URLSearchParams({ limit: '20', ...(search && { search }) });
+      const response = await makeApiRequest(`/api/admin/suppression-list/history?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setEvents(data.events);
+      }
+    } catch (error) {
+      console.error('Error fetching suppression history:', error);
+    }
+  };
+
+  const addNumbers = async () => {
+    if (!newNumbers.trim()) {
+      alert('Please enter at least one phone number');
+      return;
+    }
+
+    try {
+      setAdding(true);
+      const response = await makeApiRequest('/api/admin/suppression-list', {
+        method: 'POST',
+        body: JSON.stringify({ phoneNumbers: newNumbers, channel: newChannel, note })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setNewNumbers('');
+        setNote('');
+        await Promise.all([fetchNumbers(), fetchHistory()]);
+        alert(`${data.added} added${data.alreadySuppressed ? `, ${data.alreadySuppressed} already on the list` : ''}`);
+      } else {
+        alert(data.message || 'Failed to add numbers');
+      }
+    } catch (error) {
+      console.error('Error adding numbers:', error);
+      alert('Error adding numbers');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const removeNumber = async (entry: SuppressedNumber) => {
+    const reason = prompt(
+      `Remove ${entry.phoneNumber} from the ${channelLabels[entry.channel]} suppression list? Campaigns will reach it again.\n\nWhy (optional):`
+    );
+    if (reason === null) {
+      return;
+    }
+
+    try {
+      const response = await makeApiRequest('/api/admin/suppression-list', {
+        method: 'DELETE',
+        body: JSON.stringify({ channel: entry.channel, phoneNumber: entry.phoneNumber, note: reason })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        await Promise.all([fetchNumbers(), fetchHistory()]);
+      } else {
+        alert(data.message || 'Failed to remove number');
+      }
+    } catch (error) {
+      console.error('Error removing number:', error);
+      alert('Error removing number');
+    }
+  };
+
+  return (
+    <AdminLayout title="Suppression List">
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Suppression List</h1>
+          <p className="text-gray-600 mt-1">
+            SMS and WhatsApp campaigns skip these numbers. Customers are added when they reply STOP (and removed when they
+            reply START), when a message fails because the number doesn't exist, or when you add them here.
+          </p>
+        </div>
+
+        {/* Add Numbers */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <span>🚫</span>
+              <span>Add Numbers</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="newNumbers">Phone Numbers *</Label>
+              <Textarea
+                id="newNumbers"
+                value={newNumbers}
+                onChange={(e) => setNewNumbers(e.target.value)}
+                placeholder="Enter phone numbers separated by commas or new lines&#10;e.g., 01712345678, +8801987654321"
+                rows={3}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="newChannel">Channel</Label>
+                <select
+                  id="newChannel"
+                  value={newChannel}
+                  onChange={(e) => setNewChannel(e.target.value as Channel | 'ALL')}
+                  className="w-full border rounded-md px-3 py-2 text-sm mt-1"
+                >
+                  <option value="ALL">SMS and WhatsApp</option>
+                  <option value="SMS">SMS only</option>
+                  <option value="WHATSAPP">WhatsApp only</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="note">Note</Label>
+                <Input
+                  id="note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g., Asked by phone not to be contacted"
+                />
+              </div>
+            </div>
+            <Button onClick={addNumbers} disabled={adding}>
+              {adding ? 'Adding...' : 'Add to Suppression List'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Suppressed Numbers */}
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center gap-2">
+              <CardTitle>Suppressed Numbers {pagination && `(${pagination.total})`}</CardTitle>
+              <div className="flex gap-2">
+                <select
+                  value={channelFilter}
+                  onChange={(e) => {
+                    setChannelFilter(e.target.value as Channel | 'all');
+                    setPage(1);
+                  }}
+                  className="border rounded-md px-2 text-sm"
+                >
+                  <option value="all">All channels</option>
+                  <option value="SMS">SMS</option>
+                  <option value="WHATSAPP">WhatsApp</option>
+                </select>
+                <Input
+                  value={search}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    setPage(1);
+                  }}
+                  placeholder="Search phone number"
+                  className="max-w-xs"
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : numbers.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                <p>No suppressed numbers</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Phone Number</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Channel</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Since</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {numbers.map((entry) => (
+                      <tr key={entry.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 whitespace-nowrap text-sm font-mono">{entry.phoneNumber}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm">
+                          <Badge variant="outline">{channelLabels[entry.channel]}</Badge>
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {reasonLabels[entry.reason]}
+                          {entry.detail && <p className="text-xs text-gray-500 mt-1 max-w-xs">{entry.detail}</p>}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-right">
+                          <Button variant="outline" size="sm" onClick={() => removeNumber(entry)}>
+                            Remove
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {pagination && pagination.pages > 1 && (
+              <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+                <span>Page {pagination.page} of {pagination.pages} ({pagination.total} numbers)</span>
+                <div className="space-x-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= pagination.pages} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* History */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Changes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {events.length === 0 ? (
+              <p className="text-sm text-gray-500">No changes yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {events.map((event) => (
+                  <li key={event.id} className="py-3 text-sm flex justify-between gap-4">
+                    <div>
+                      <span className="font-mono">{event.phoneNumber}</span>{' '}
+                      <span className={event.action === 'SUPPRESSED' ? 'text-red-700' : 'text-green-700'}>
+                        {event.action === 'SUPPRESSED' ? 'suppressed' : 'removed'}
+                      </span>{' '}
+                      on {channelLabels[event.channel]}: {reasonLabels[event.reason]}
+                      {event.user && ` by ${event.user.firstName} ${event.user.lastName}`}
+                      {event.detail && <p className="text-xs text-gray-500 mt-1">{event.detail}</p>}
+                    </div>
+                    <span className="text-gray-500 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default SuppressionListPage;
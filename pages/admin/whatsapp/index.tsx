@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import AdminLayout from '../../../components/AdminLayout';
+import WhatsAppInbox from '../../../components/WhatsAppInbox';
+import CampaignAudienceSelect from '../../../components/CampaignAudienceSelect';
 import { Button } from '../../../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
 import { Input } from '../../../components/ui/input';
@@ -9,6 +11,8 @@ import { Badge } from '../../../components/ui/badge';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../../../components/ui/alert-dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../components/ui/select';
 import { parseWhatsAppRecipients, validateWhatsAppMessage } from '../../../lib/whatsapp-business';
+import { waitForJob } from '../../../lib/jobStatus';
+import { DEFAULT_TIME_ZONE, formatInTimeZone, utcToZonedInputValue } from '../../../lib/timezone';
 
 interface WhatsAppCampaign {
   id: string;
@@ -20,12 +24,14 @@ interface WhatsAppCampaign {
   mediaUrl?: string;
   mediaType?: 'IMAGE' | 'VIDEO' | 'AUDIO' | 'DOCUMENT';
   recipients: string[];
-  status: 'DRAFT' | 'SCHEDULED' | 'SENT' | 'FAILED';
+  segment?: { id: string; name: string } | null;
+  status: 'DRAFT' | 'SCHEDULED' | 'SENDING' | 'SENT' | 'FAILED';
   sentAt?: string;
   scheduledAt?: string;
   deliveredCount: number;
   readCount: number;
   failedCount: number;
+  suppressedCount: number;
   totalCount: number;
   createdAt: string;
   failedNumbers: string[];
@@ -54,6 +60,11 @@ const WhatsAppCampaignPage: React.FC = () => {
   const [templates, setTemplates] = useState<WhatsAppTemplate[]>([]);
   const [loading, setLoading] = useState(false);
   const [sendingCampaign, setSendingCampaign] = useState<string | null>(null);
+  const [sendProgress, setSendProgress] = useState<string | null>(null);
+  // The store's time zone, which scheduled times are entered and shown in
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [reschedulingCampaign, setReschedulingCampaign] = useState<string | null>(null);
+  const [rescheduleDate, setRescheduleDate] = useState('');
   
   // Form states
   const [campaignName, setCampaignName] = useState('');
@@ -63,6 +74,8 @@ const WhatsAppCampaignPage: React.FC = () => {
   const [mediaUrl, setMediaUrl] = useState('');
   const [mediaType, setMediaType] = useState<'IMAGE' | 'VIDEO' | 'AUDIO' | 'DOCUMENT'>('IMAGE');
   const [recipients, setRecipients] = useState('');
+  // Send to a customer segment instead of the pasted numbers
+  const [segmentId, setSegmentId] = useState<string | null>(null);
   const [scheduledDate, setScheduledDate] = useState('');
   const [isCreating, setIsCreating] = useState(false);
 
@@ -86,6 +99,7 @@ const WhatsAppCampaignPage: React.FC = () => {
   const makeApiRequest = async (url: string, options: RequestInit = {}) => {
     const headers = {
       'Content-Type': 'application/json',
+      Authorization: `Bearer ${localStorage.getItem('token')}`,
       ...options.headers,
     };
 
@@ -103,6 +117,7 @@ const WhatsAppCampaignPage: React.FC = () => {
       if (response.ok) {
         const data = await response.json();
         setCampaigns(data.campaigns || []);
+        setTimeZone(data.timeZone || DEFAULT_TIME_ZONE);
       } else {
         const errorData = await response.json();
         console.error('Error response:', errorData);
@@ -150,7 +165,7 @@ const WhatsAppCampaignPage: React.FC = () => {
   };
 
   const createCampaign = async () => {
-    if (!campaignName || !recipients) {
+    if (!campaignName || (!segmentId && !recipients)) {
       alert('Please fill in campaign name and recipients');
       return;
     }
@@ -170,8 +185,7 @@ const WhatsAppCampaignPage: React.FC = () => {
       return;
     }
 
-    const recipientNumbers = parseWhatsAppRecipients(recipients);
-    if (recipientNumbers.length === 0) {
+    if (!segmentId && parseWhatsAppRecipients(recipients).length === 0) {
       alert('No valid phone numbers found. Please ensure numbers include country code (e.g., +1234567890)');
       return;
     }
@@ -194,7 +208,7 @@ const WhatsAppCampaignPage: React.FC = () => {
         templateName: messageType === 'TEMPLATE' ? selectedTemplate : undefined,
         mediaUrl: messageType === 'MEDIA' ? mediaUrl : undefined,
         mediaType: messageType === 'MEDIA' ? mediaType : undefined,
-        recipients: recipients,
+        ...(segmentId ? { segmentId } : { recipients }),
         scheduledAt: scheduledDate || undefined,
         sendImmediately: false
       };
@@ -213,6 +227,7 @@ const WhatsAppCampaignPage: React.FC = () => {
         setSelectedTemplate('');
         setMediaUrl('');
         setRecipients('');
+        setSegmentId(null);
         setScheduledDate('');
         fetchCampaigns();
       } else {
@@ -241,8 +256,23 @@ const WhatsAppCampaignPage: React.FC = () => {
       const result = await response.json();
 
       if (response.ok) {
-        alert(`Campaign sent successfully! ${result.result?.successfulCount || 0} delivered, ${result.result?.failedCount || 0} failed.`);
         fetchCampaigns();
+
+        // The campaign is sent by the job worker; follow it until it is done
+        const job = await waitForJob(result.jobId, url => makeApiRequest(url), update => {
+          if (update.progress) {
+            setSendProgress(`${update.progress.sent}/${update.progress.total}`);
+          }
+        });
+        fetchCampaigns();
+
+        if (job.status === 'SUCCEEDED') {
+          alert(`Campaign sent successfully! ${job.result?.successfulCount || 0} sent, ${job.result?.failedCount || 0} failed. Delivered and read counts update as WhatsApp reports them.`);
+        } else if (job.status === 'FAILED') {
+          alert(`Error sending campaign: ${job.lastError}`);
+        } else {
+          alert('The campaign is still being sent. Check back later for the results.');
+        }
       } else {
         alert(`Error sending campaign: ${result.message}`);
       }
@@ -251,6 +281,30 @@ const WhatsAppCampaignPage: React.FC = () => {
       alert(`Network error: ${error instanceof Error ? error.message : 'Please check your connection'}`);
     } finally {
       setSendingCampaign(null);
+      setSendProgress(null);
+    }
+  };
+
+  // Move a scheduled campaign to a new time, or cancel its schedule with null
+  const updateSchedule = async (campaignId: string, scheduledAt: string | null) => {
+    try {
+      const response = await makeApiRequest(`/api/admin/whatsapp/campaigns/${campaignId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ scheduledAt }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setReschedulingCampaign(null);
+        alert(scheduledAt ? 'Campaign rescheduled!' : 'Schedule cancelled.');
+      } else {
+        alert(`Error updating schedule: ${result.message}`);
+      }
+      fetchCampaigns();
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      alert(`Network error: ${error instanceof Error ? error.message : 'Please check your connection'}`);
     }
   };
 
@@ -326,6 +380,7 @@ const WhatsAppCampaignPage: React.FC = () => {
       case 'SENT': return 'default';
       case 'FAILED': return 'destructive';
       case 'SCHEDULED': return 'secondary';
+      case 'SENDING': return 'secondary';
       case 'DRAFT': return 'outline';
       default: return 'outline';
     }
@@ -357,6 +412,9 @@ const WhatsAppCampaignPage: React.FC = () => {
           </div>
         </div>
 
+        {/* Customer conversations */}
+        <WhatsAppInbox />
+
         {/* Configuration Status */}
         {configStatus && (
           <Card className="mb-8">
@@ -454,14 +512,16 @@ const WhatsAppCampaignPage: React.FC = () => {
 
                   <div>
                     <h4 className="font-semibold">Step 3: Get API Credentials</h4>
-                    <p>You'll need these credentials in your <code>.env</code> file:</p>
-                    <div className="bg-gray-100 p-3 rounded mt-2 font-mono text-xs">
-                      <div>WHATSAPP_ACCESS_TOKEN=your_access_token_here</div>
-                      <div>WHATSAPP_PHONE_NUMBER_ID=your_phone_number_id_here</div>
-                      <div>WHATSAPP_BUSINESS_ACCOUNT_ID=your_business_account_id_here</div>
-                      <div>WHATSAPP_WEBHOOK_VERIFY_TOKEN=your_webhook_verify_token_here</div>
-                      <div>WHATSAPP_API_VERSION=v23.0</div>
-                    </div>
+                    <p>
+                      Enter these under <a href="/admin/settings#messaging" className="text-blue-600 hover:underline">Settings → SMS &amp; WhatsApp</a>.
+                      They are encrypted when saved and never shown again.
+                    </p>
+                    <ul className="list-disc list-inside space-y-1 ml-4 mt-2">
+                      <li>Access Token</li>
+                      <li>Phone Number ID</li>
+                      <li>Business Account ID</li>
+                      <li>API Version (v23.0 unless Meta tells you otherwise)</li>
+                    </ul>
                   </div>
 
                   <div>
@@ -470,7 +530,7 @@ const WhatsAppCampaignPage: React.FC = () => {
                       <li><strong>Access Token:</strong> Go to App Dashboard → WhatsApp → API Setup → Temporary Access Token</li>
                       <li><strong>Phone Number ID:</strong> In API Setup, you'll see "From" phone number with an ID</li>
                       <li><strong>Business Account ID:</strong> Found in WhatsApp Manager or API Setup page</li>
-                      <li><strong>Webhook Verify Token:</strong> You create this yourself when setting up webhooks</li>
+                      <li><strong>Webhook:</strong> The platform administrator gives you the callback URL and verify token</li>
                     </ul>
                   </div>
 
@@ -623,22 +683,24 @@ const WhatsAppCampaignPage: React.FC = () => {
                 </div>
               )}
 
-              <div>
-                <Label htmlFor="recipients">Recipients</Label>
-                <Textarea
-                  id="recipients"
-                  value={recipients}
-                  onChange={(e) => setRecipients(e.target.value)}
-                  placeholder="Enter phone numbers with country code, separated by commas or new lines&#10;Example:&#10;+1234567890&#10;+9876543210"
-                  rows={4}
-                />
-                <div className="text-sm text-gray-500 mt-1">
-                  Enter phone numbers with country code (e.g., +1234567890)
+              <CampaignAudienceSelect segmentId={segmentId} onChange={setSegmentId}>
+                <div>
+                  <Label htmlFor="recipients">Recipients</Label>
+                  <Textarea
+                    id="recipients"
+                    value={recipients}
+                    onChange={(e) => setRecipients(e.target.value)}
+                    placeholder="Enter phone numbers with country code, separated by commas or new lines&#10;Example:&#10;+1234567890&#10;+9876543210"
+                    rows={4}
+                  />
+                  <div className="text-sm text-gray-500 mt-1">
+                    Enter phone numbers with country code (e.g., +1234567890)
+                  </div>
                 </div>
-              </div>
+              </CampaignAudienceSelect>
 
               <div>
-                <Label htmlFor="scheduledDate">Schedule For Later (Optional)</Label>
+                <Label htmlFor="scheduledDate">Schedule For Later (Optional, {timeZone})</Label>
                 <Input
                   id="scheduledDate"
                   type="datetime-local"
@@ -747,6 +809,19 @@ const WhatsAppCampaignPage: React.FC = () => {
                       </div>
                     </div>
 
+                    {campaign.suppressedCount > 0 && (
+                      <p className="text-sm text-gray-600 mb-4">
+                        <span className="font-medium">Suppressed:</span> {campaign.suppressedCount} recipients are on the{' '}
+                        <a href="/admin/suppression-list" className="text-blue-600 hover:underline">suppression list</a> and were skipped
+                      </p>
+                    )}
+
+                    {campaign.segment && (
+                      <p className="text-sm text-gray-600 mb-4">
+                        <span className="font-medium">Segment:</span> {campaign.segment.name}
+                      </p>
+                    )}
+
                     {campaign.messageType === 'TEXT' && campaign.textMessage && (
                       <div className="mb-4">
                         <span className="font-medium text-sm">Message:</span>
@@ -785,18 +860,62 @@ const WhatsAppCampaignPage: React.FC = () => {
                       </div>
                     )}
 
+                    {campaign.status === 'SCHEDULED' && campaign.scheduledAt && (
+                      <p className="text-sm text-gray-700 mb-4">
+                        <span className="font-medium">Scheduled for:</span> {formatInTimeZone(campaign.scheduledAt, timeZone)}
+                      </p>
+                    )}
+
+                    {reschedulingCampaign === campaign.id && (
+                      <div className="flex items-end gap-2 mb-4">
+                        <div>
+                          <Label htmlFor={`reschedule-${campaign.id}`}>New time ({timeZone})</Label>
+                          <Input
+                            id={`reschedule-${campaign.id}`}
+                            type="datetime-local"
+                            value={rescheduleDate}
+                            onChange={(e) => setRescheduleDate(e.target.value)}
+                          />
+                        </div>
+                        <Button size="sm" disabled={!rescheduleDate} onClick={() => updateSchedule(campaign.id, rescheduleDate)}>
+                          Save
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setReschedulingCampaign(null)}>
+                          Close
+                        </Button>
+                      </div>
+                    )}
+
                     <div className="flex gap-2">
-                      {campaign.status === 'DRAFT' && (
+                      {campaign.status === 'SCHEDULED' && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setReschedulingCampaign(campaign.id);
+                              setRescheduleDate(campaign.scheduledAt ? utcToZonedInputValue(campaign.scheduledAt, timeZone) : '');
+                            }}
+                          >
+                            Reschedule
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => updateSchedule(campaign.id, null)}>
+                            Cancel Schedule
+                          </Button>
+                        </>
+                      )}
+
+                      {(campaign.status === 'DRAFT' || campaign.status === 'SCHEDULED') && (
                         <Button
                           onClick={() => sendCampaign(campaign.id)}
                           disabled={sendingCampaign === campaign.id}
                           size="sm"
                         >
-                          {sendingCampaign === campaign.id ? 'Sending...' : 'Send Now'}
+                          {sendingCampaign === campaign.id ? (sendProgress ? `Sending ${sendProgress}...` : 'Sending...') : 'Send Now'}
                         </Button>
                       )}
                       
-                      {campaign.status !== 'SENT' && (
+                      {campaign.status !== 'SENT' && campaign.status !== 'SENDING' && (
                         <AlertDialog>
                           <AlertDialogTrigger asChild>
                             <Button variant="destructive" size="sm">Delete</Button>
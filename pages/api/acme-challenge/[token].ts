@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Answers ACME HTTP-01 challenges. /.well-known/acme-challenge/:token is
+ * rewritten here in next.config.js; the CA fetches it on the custom domain.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { token } = req.query;
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).end();
+  }
+
+  if (typeof token !== 'string') {
+    return res.status(404).end();
+  }
+
+  try {
+    const challenge = await prisma.acmeChallenge.findUnique({ where: { token } });
+
+    if (!challenge) {
+      return res.status(404).end();
+    }
+
+    res.setHeader('Content-Type', 'text/plain');
+    return res.status(200).send(challenge.keyAuthorization);
+  } catch (error) {
+    console.error('ACME challenge error:', error);
+    return res.status(500).end();
+  }
+}
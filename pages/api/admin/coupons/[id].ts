@@ -0,0 +1,100 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import { validateCouponInput } from '@/lib/coupons';
+
+const prisma = new PrismaClient();
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+  const adminId = req.tenantId;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid coupon ID' });
+  }
+
+  try {
+    // Ensure the coupon belongs to this admin
+    const coupon = await prisma.coupon.findFirst({
+      where: { id, createdBy: adminId }
+    });
+
+    if (!coupon) {
+      return res.status(404).json({ error: 'Coupon not found or access denied' });
+    }
+
+    switch (req.method) {
+      case 'GET':
+        const redemptions = await prisma.couponRedemption.findMany({
+          where: { couponId: id },
+          orderBy: { createdAt: 'desc' },
+          take: 50,
+          include: {
+            order: {
+              select: {
+                id: true,
+                total: true,
+                customerName: true,
+                createdAt: true
+              }
+            }
+          }
+        });
+
+        return res.status(200).json({ coupon, redemptions });
+
+      case 'PUT':
+        const { data, errors } = validateCouponInput(
+          { type: coupon.type, ...req.body },
+          true
+        );
+
+        if (errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid coupon', details: errors });
+        }
+
+        if (data.code && data.code !== coupon.code) {
+          const duplicate = await prisma.coupon.findFirst({
+            where: { code: data.code, createdBy: adminId, NOT: { id } }
+          });
+
+          if (duplicate) {
+            return res.status(400).json({ error: 'A coupon with this code already exists' });
+          }
+        }
+
+        const updatedCoupon = await prisma.coupon.update({
+          where: { id },
+          data
+        });
+
+        return res.status(200).json({ message: 'Coupon updated successfully', coupon: updatedCoupon });
+
+      case 'DELETE':
+        // Coupons that were already redeemed are deactivated to keep order history intact
+        if (coupon.usedCount > 0) {
+          await prisma.coupon.update({
+            where: { id },
+            data: { isActive: false }
+          });
+
+          return res.status(200).json({ message: 'Coupon has been used and was deactivated instead of deleted' });
+        }
+
+        await prisma.coupon.delete({
+          where: { id }
+        });
+
+        return res.status(200).json({ message: 'Coupon deleted successfully' });
+
+      default:
+        res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Admin coupon API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('MANAGE_PRODUCTS', handler);
@@ -0,0 +1,84 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import { validateCouponInput } from '@/lib/coupons';
+
+const prisma = new PrismaClient();
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const adminId = req.tenantId;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await getCoupons(req, res, adminId);
+      case 'POST':
+        return await createCoupon(req, res, adminId);
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Admin coupons API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+async function getCoupons(req: StoreApiRequest, res: NextApiResponse, adminId: string) {
+  const { search, status } = req.query;
+  const where: Prisma.CouponWhereInput = { createdBy: adminId };
+
+  if (search) {
+    where.code = { contains: (search as string).toUpperCase() };
+  }
+
+  if (status === 'active') {
+    where.isActive = true;
+  } else if (status === 'inactive') {
+    where.isActive = false;
+  }
+
+  const coupons = await prisma.coupon.findMany({
+    where,
+    orderBy: { createdAt: 'desc' },
+    include: {
+      _count: {
+        select: { redemptions: true }
+      }
+    }
+  });
+
+  return res.status(200).json({ coupons });
+}
+
+async function createCoupon(req: StoreApiRequest, res: NextApiResponse, adminId: string) {
+  const { data, errors } = validateCouponInput(req.body);
+
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid coupon', details: errors });
+  }
+
+  const existing = await prisma.coupon.findUnique({
+    where: {
+      code_createdBy: {
+        code: data.code as string,
+        createdBy: adminId
+      }
+    }
+  });
+
+  if (existing) {
+    return res.status(400).json({ error: 'A coupon with this code already exists' });
+  }
+
+  const coupon = await prisma.coupon.create({
+    data: {
+      ...(data as Prisma.CouponUncheckedCreateInput),
+      createdBy: adminId
+    }
+  });
+
+  return res.status(201).json({ message: 'Coupon created successfully', coupon });
+}
+
+export default withStorePermission('MANAGE_PRODUCTS', handler);
@@ -1,15 +1,18 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
 import { 
   generateVerificationToken, 
   generateDNSRecords, 
-  autoVerifyDomain,
   isValidDomain 
 } from '../../../lib/dnsVerification';
+import { getAcmeChallenge, getDns01RecordName, requestCertificate } from '../../../lib/certificates';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import { isPlatformHost } from '@/lib/domainRouting';
+import { enqueueJob } from '@/lib/jobs';
 
 const prisma = new PrismaClient();
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   if (req.method === 'GET') {
     return getDomains(req, res);
   } else if (req.method === 'POST') {
@@ -24,19 +27,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-// Get all domains for the authenticated admin
-async function getDomains(req: NextApiRequest, res: NextApiResponse) {
+// Get all domains of the authenticated admin's store
+async function getDomains(req: StoreApiRequest, res: NextApiResponse) {
   try {
-    // Get user ID from session/auth (implement your auth logic here)
-    const userId = req.headers['x-user-id'] as string;
-    
-    if (!userId) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
-
     const domains = await prisma.customDomain.findMany({
       where: {
-        userId: userId
+        storeId: req.tenantId
+      },
+      include: {
+        verifications: {
+          orderBy: { createdAt: 'desc' },
+          take: 5
+        },
+        // Never the private key
+        certificate: {
+          select: {
+            status: true,
+            challengeType: true,
+            issuedAt: true,
+            expiresAt: true,
+            errorMessage: true,
+            nextAttemptAt: true
+          }
+        }
       },
       orderBy: {
         createdAt: 'desc'
@@ -51,28 +64,19 @@ async function getDomains(req: NextApiRequest, res: NextApiResponse) {
 }
 
 // Add a new custom domain
-async function addDomain(req: NextApiRequest, res: NextApiResponse) {
+async function addDomain(req: StoreApiRequest, res: NextApiResponse) {
   try {
-    const { domain } = req.body;
-    const userId = req.headers['x-user-id'] as string;
-    
-    if (!userId) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
-
-    // Verify user exists
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-    });
-
-    if (!user) {
-      return res.status(404).json({ error: 'User not found' });
-    }
+    // Hosts arrive lowercased at the Edge, so domains are stored that way
+    const domain = typeof req.body.domain === 'string' ? req.body.domain.trim().toLowerCase() : '';
 
     if (!domain || !isValidDomain(domain)) {
       return res.status(400).json({ error: 'Invalid domain format' });
     }
 
+    if (isPlatformHost(domain)) {
+      return res.status(400).json({ error: 'Use your store subdomain settings for platform domains' });
+    }
+
     // Check if domain already exists
     const existingDomain = await prisma.customDomain.findUnique({
       where: { domain }
@@ -86,12 +90,21 @@ async function addDomain(req: NextApiRequest, res: NextApiResponse) {
     const verificationToken = generateVerificationToken();
     const targetDomain =  'codeopx.com';
     const dnsRecords = generateDNSRecords(domain, verificationToken, targetDomain);
+    if (getAcmeChallenge() === 'dns-01') {
+      // Lets the certificate job answer DNS-01 challenges from the platform zone
+      dnsRecords.push({
+        type: 'CNAME',
+        name: `_acme-challenge.${domain}`,
+        value: getDns01RecordName(domain),
+        ttl: 300
+      });
+    }
 
     // Create domain record
     const customDomain = await prisma.customDomain.create({
       data: {
         domain,
-        userId,
+        storeId: req.tenantId,
         verificationToken,
         dnsRecords: JSON.stringify(dnsRecords),
         status: 'PENDING'
@@ -112,19 +125,14 @@ async function addDomain(req: NextApiRequest, res: NextApiResponse) {
 }
 
 // Update domain (verify)
-async function updateDomain(req: NextApiRequest, res: NextApiResponse) {
+async function updateDomain(req: StoreApiRequest, res: NextApiResponse) {
   try {
     const { id, action } = req.body;
-    const userId = req.headers['x-user-id'] as string;
-    
-    if (!userId) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
 
     const domain = await prisma.customDomain.findFirst({
       where: {
         id,
-        userId
+        storeId: req.tenantId
       }
     });
 
@@ -133,43 +141,24 @@ async function updateDomain(req: NextApiRequest, res: NextApiResponse) {
     }
 
     if (action === 'verify') {
-      // Update status to verifying
-      await prisma.customDomain.update({
-        where: { id },
-        data: { status: 'VERIFYING' }
-      });
-
-      const targetDomain = process.env.NEXT_PUBLIC_DOMAIN || 'codeopx.com';
-      
-      // Perform verification
-      const verificationResult = await autoVerifyDomain(
-        domain.domain,
-        domain.verificationToken,
-        targetDomain
-      );
-
-      // Update domain status based on verification result
-      const updateData: any = {
-        lastVerified: new Date(),
-      };
-
-      if (verificationResult.verified) {
-        updateData.status = 'VERIFIED';
-        updateData.verifiedAt = new Date();
-        updateData.errorMessage = null;
-      } else {
-        updateData.status = 'FAILED';
-        updateData.errorMessage = verificationResult.errors.join(', ');
-      }
-
-      const updatedDomain = await prisma.customDomain.update({
-        where: { id },
-        data: updateData
+      // Checked by the job worker, as in /api/admin/domains/verify
+      const [updatedDomain, job] = await prisma.$transaction(async (tx) => {
+        const verifying = await tx.customDomain.update({
+          where: { id },
+          data: { status: 'VERIFYING' }
+        });
+
+        const queued = await enqueueJob('domain.verify', {
+          domainId: id,
+          previousStatus: domain.status
+        }, { storeId: req.tenantId, key: `domain-verify:${id}` }, tx);
+
+        return [verifying, queued] as const;
       });
 
-      return res.status(200).json({ 
+      return res.status(202).json({ 
         customDomain: updatedDomain,
-        verificationResult 
+        jobId: job.id
       });
     } else if (action === 'activate') {
       // Activate domain if verified
@@ -185,6 +174,9 @@ async function updateDomain(req: NextApiRequest, res: NextApiResponse) {
         }
       });
 
+      // The certificate job picks this up on its next run
+      await requestCertificate(id);
+
       return res.status(200).json({ customDomain: updatedDomain });
     } else if (action === 'deactivate') {
       const updatedDomain = await prisma.customDomain.update({
@@ -206,19 +198,14 @@ async function updateDomain(req: NextApiRequest, res: NextApiResponse) {
 }
 
 // Delete domain
-async function deleteDomain(req: NextApiRequest, res: NextApiResponse) {
+async function deleteDomain(req: StoreApiRequest, res: NextApiResponse) {
   try {
     const { id } = req.body;
-    const userId = req.headers['x-user-id'] as string;
-    
-    if (!userId) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
 
     const domain = await prisma.customDomain.findFirst({
       where: {
         id,
-        userId
+        storeId: req.tenantId
       }
     });
 
@@ -236,3 +223,5 @@ async function deleteDomain(req: NextApiRequest, res: NextApiResponse) {
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export default withStorePermission('MANAGE_SETTINGS', handler);
@@ -0,0 +1,41 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { JOB_STATUS_SELECT } from '@/lib/jobs';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+/**
+ * Status of one of the store's background jobs, polled by the admin UI
+ * after queueing a campaign or domain verification
+ */
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Job ID is required' });
+  }
+
+  try {
+    const job = await prisma.job.findFirst({
+      where: { id, storeId: req.tenantId },
+      select: JOB_STATUS_SELECT
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    return res.status(200).json({ job });
+  } catch (error) {
+    console.error('Admin job API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission(null, handler);
@@ -0,0 +1,50 @@
+import { NextApiResponse } from 'next';
+import { JobStatus, Prisma, PrismaClient } from '@prisma/client';
+import { JOB_STATUS_SELECT } from '@/lib/jobs';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+const JOB_STATUSES = Object.values(JobStatus) as string[];
+
+/**
+ * The store's recent background jobs, newest first.
+ * Query: type, status, limit (at most 100)
+ */
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { type, status } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+    if (status !== undefined && (typeof status !== 'string' || !JOB_STATUSES.includes(status))) {
+      return res.status(400).json({ error: 'Invalid status', details: [`status must be one of ${JOB_STATUSES.join(', ')}`] });
+    }
+
+    const where: Prisma.JobWhereInput = { storeId: req.tenantId };
+    if (typeof type === 'string') {
+      where.type = type;
+    }
+    if (status) {
+      where.status = status as JobStatus;
+    }
+
+    const jobs = await prisma.job.findMany({
+      where,
+      select: JOB_STATUS_SELECT,
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+
+    return res.status(200).json({ jobs });
+  } catch (error) {
+    console.error('Admin jobs API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission(null, handler);
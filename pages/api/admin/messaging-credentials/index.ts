@@ -0,0 +1,57 @@
+import { NextApiResponse } from 'next';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import {
+  CredentialError,
+  deleteStoreCredentials,
+  getCredentialSummaries,
+  isMessagingProvider,
+  saveStoreCredentials
+} from '@/lib/storeCredentials';
+
+/**
+ * The store's SMS and WhatsApp provider accounts. Secrets can be written but
+ * are never sent back.
+ */
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const storeId = req.tenantId;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json(await getCredentialSummaries(storeId));
+      case 'PUT': {
+        const { provider, credentials } = req.body;
+
+        if (!isMessagingProvider(provider)) {
+          return res.status(400).json({ error: 'Unknown provider' });
+        }
+        if (!credentials || typeof credentials !== 'object') {
+          return res.status(400).json({ error: 'credentials must be an object' });
+        }
+
+        return res.status(200).json(await saveStoreCredentials(storeId, provider, credentials));
+      }
+      case 'DELETE': {
+        const { provider } = req.query;
+
+        if (!isMessagingProvider(provider)) {
+          return res.status(400).json({ error: 'Unknown provider' });
+        }
+
+        await deleteStoreCredentials(storeId, provider);
+        return res.status(204).end();
+      }
+      default:
+        res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof CredentialError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Admin messaging credentials API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('MANAGE_SETTINGS', handler);
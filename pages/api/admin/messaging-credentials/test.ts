@@ -0,0 +1,35 @@
+import { NextApiResponse } from 'next';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import { CredentialError, isMessagingProvider, testStoreCredentials } from '@/lib/storeCredentials';
+
+/**
+ * Try the store's saved credentials against the provider. SMS Bangladesh can
+ * only be checked by sending a real message, so it needs a test number.
+ */
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { provider, testNumber } = req.body;
+
+  if (!isMessagingProvider(provider)) {
+    return res.status(400).json({ error: 'Unknown provider' });
+  }
+
+  try {
+    const result = await testStoreCredentials(req.tenantId, provider, {
+      testNumber: typeof testNumber === 'string' ? testNumber : undefined
+    });
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof CredentialError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Admin messaging credentials test error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('MANAGE_SETTINGS', handler);
@@ -0,0 +1,68 @@
+import { NextApiResponse } from 'next';
+import { NotificationStatus, Prisma, PrismaClient } from '@prisma/client';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import { isNotificationChannel, isOrderNotificationEvent } from '@/lib/orderNotifications';
+
+const prisma = new PrismaClient();
+
+const NOTIFICATION_STATUSES: NotificationStatus[] = ['QUEUED', 'SENT', 'FAILED'];
+
+/**
+ * The store's order notification delivery log, newest first
+ */
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { status, channel, event, orderId, search, page = '1', limit = '50' } = req.query;
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const where: Prisma.OrderNotificationWhereInput = { storeId: req.tenantId };
+
+    if (typeof status === 'string' && NOTIFICATION_STATUSES.includes(status as NotificationStatus)) {
+      where.status = status as NotificationStatus;
+    }
+    if (isNotificationChannel(channel)) {
+      where.channel = channel;
+    }
+    if (isOrderNotificationEvent(event)) {
+      where.event = event;
+    }
+    if (typeof orderId === 'string' && orderId) {
+      where.orderId = orderId;
+    }
+    if (typeof search === 'string' && search) {
+      where.recipient = { contains: search, mode: 'insensitive' };
+    }
+
+    const take = Math.min(parseInt(limit as string) || 50, 200);
+    const skip = (Math.max(parseInt(page as string) || 1, 1) - 1) * take;
+
+    const [notifications, total] = await Promise.all([
+      prisma.orderNotification.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        skip,
+        take
+      }),
+      prisma.orderNotification.count({ where })
+    ]);
+
+    return res.status(200).json({
+      notifications,
+      pagination: {
+        page: Math.floor(skip / take) + 1,
+        limit: take,
+        total,
+        pages: Math.ceil(total / take)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching order notifications:', error);
+    return res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+}
+
+export default withStorePermission('FULFIL_ORDERS', handler);
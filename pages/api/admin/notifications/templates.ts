@@ -0,0 +1,99 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import {
+  getConfiguredChannels,
+  getNotificationTemplates,
+  isNotificationChannel,
+  isOrderNotificationEvent,
+  TEMPLATE_PLACEHOLDERS
+} from '@/lib/orderNotifications';
+
+const prisma = new PrismaClient();
+
+// SMS Bangladesh splits longer texts into several billed messages
+const MAX_BODY_LENGTH = 1000;
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await getTemplates(req, res);
+      case 'PUT':
+        return await saveTemplate(req, res);
+      case 'DELETE':
+        return await resetTemplate(req, res);
+      default:
+        res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Notification templates API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+async function getTemplates(req: StoreApiRequest, res: NextApiResponse) {
+  return res.status(200).json({
+    templates: await getNotificationTemplates(req.tenantId),
+    placeholders: TEMPLATE_PLACEHOLDERS,
+    configuredChannels: await getConfiguredChannels(req.tenantId)
+  });
+}
+
+async function saveTemplate(req: StoreApiRequest, res: NextApiResponse) {
+  const { event, channel, enabled, subject, body, whatsappTemplateName, whatsappLanguage } = req.body;
+
+  if (!isOrderNotificationEvent(event) || !isNotificationChannel(channel)) {
+    return res.status(400).json({ error: 'Invalid event or channel' });
+  }
+
+  const errors: string[] = [];
+  if (typeof body !== 'string' || !body.trim()) {
+    errors.push(channel === 'WHATSAPP' ? 'Template parameters are required' : 'Message is required');
+  } else if (body.length > MAX_BODY_LENGTH) {
+    errors.push(`Message cannot exceed ${MAX_BODY_LENGTH} characters`);
+  }
+  if (channel === 'EMAIL' && (typeof subject !== 'string' || !subject.trim())) {
+    errors.push('Subject is required');
+  }
+  if (channel === 'WHATSAPP' && enabled && (typeof whatsappTemplateName !== 'string' || !whatsappTemplateName.trim())) {
+    errors.push('Name the approved WhatsApp template to send');
+  }
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid template', details: errors });
+  }
+
+  const data = {
+    enabled: !!enabled,
+    subject: channel === 'EMAIL' ? subject.trim() : null,
+    body: body.trim(),
+    whatsappTemplateName: channel === 'WHATSAPP' ? whatsappTemplateName?.trim() || null : null,
+    whatsappLanguage: channel === 'WHATSAPP' ? whatsappLanguage?.trim() || 'en' : null
+  };
+
+  await prisma.notificationTemplate.upsert({
+    where: { storeId_event_channel: { storeId: req.tenantId, event, channel } },
+    create: { storeId: req.tenantId, event, channel, ...data },
+    update: data
+  });
+
+  return getTemplates(req, res);
+}
+
+// Go back to the built-in template
+async function resetTemplate(req: StoreApiRequest, res: NextApiResponse) {
+  const { event, channel } = req.query;
+
+  if (!isOrderNotificationEvent(event) || !isNotificationChannel(channel)) {
+    return res.status(400).json({ error: 'Invalid event or channel' });
+  }
+
+  await prisma.notificationTemplate.deleteMany({
+    where: { storeId: req.tenantId, event, channel }
+  });
+
+  return getTemplates(req, res);
+}
+
+export default withStorePermission('MANAGE_SETTINGS', handler);
@@ -1,128 +1,125 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import { PrismaClient } from '@prisma/client';
+import { NextApiResponse } from 'next';
+import { OrderStatusError, getAllowedTransitions, isOrderStatus, transitionOrderStatus } from '@/lib/orderStatus';
+import { notifyOrderEvent } from '@/lib/orderNotifications';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
-const prisma = new PrismaClient();
+const orderInclude = {
+  user: {
+    select: {
+      firstName: true,
+      lastName: true,
+      email: true
+    }
+  },
+  orderItems: {
+    include: {
+      product: {
+        select: {
+          id: true,
+          name: true,
+          image: true
+        }
+      }
+    }
+  },
+  statusEvents: {
+    orderBy: { createdAt: 'asc' as const }
+  }
+};
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const { id, adminId } = req.query;
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
 
   if (!id || typeof id !== 'string') {
     return res.status(400).json({ error: 'Invalid order ID' });
   }
 
-  if (!adminId || typeof adminId !== 'string') {
-    return res.status(400).json({ error: 'adminId is required' });
-  }
-
   try {
     if (req.method === 'GET') {
-      // Get specific order details - ensure it belongs to this admin
-      const order = await prisma.order.findFirst({
-        where: {
-          id,
-          orderItems: {
-            some: {
-              product: {
-                createdBy: adminId
-              }
-            }
-          }
-        },
-        include: {
-          user: {
-            select: {
-              firstName: true,
-              lastName: true,
-              email: true
-            }
-          },
-          orderItems: {
-            include: {
-              product: {
-                select: {
-                  id: true,
-                  name: true,
-                  image: true
-                }
-              }
-            }
-          }
-        }
+      // Get specific order details - the store's client only finds its own orders
+      const order = await req.db.order.findFirst({
+        where: { id },
+        include: orderInclude
       });
 
       if (!order) {
         return res.status(404).json({ error: 'Order not found' });
       }
 
-      res.status(200).json(order);
+      res.status(200).json({
+        ...order,
+        allowedTransitions: getAllowedTransitions(order.status)
+      });
     } else if (req.method === 'PUT') {
       // Update order status
-      const { status, paymentStatus } = req.body;
+      const { status, paymentStatus, note } = req.body;
 
-      const updateData: any = {};
-
-      if (status) {
-        updateData.status = status;
-      }
-
-      if (paymentStatus) {
-        updateData.paymentStatus = paymentStatus;
+      if (!status && !paymentStatus) {
+        return res.status(400).json({ error: 'No valid fields to update' });
       }
 
-      if (Object.keys(updateData).length === 0) {
-        return res.status(400).json({ error: 'No valid fields to update' });
+      if (status && !isOrderStatus(status)) {
+        return res.status(400).json({ error: 'Invalid order status' });
       }
 
-      // First check if the order belongs to this admin
-      const existingOrder = await prisma.order.findFirst({
-        where: {
-          id,
-          orderItems: {
-            some: {
-              product: {
-                createdBy: adminId
-              }
-            }
-          }
-        }
+      // First check if the order belongs to this store
+      const existingOrder = await req.db.order.findFirst({
+        where: { id }
       });
 
       if (!existingOrder) {
         return res.status(404).json({ error: 'Order not found or access denied' });
       }
 
-      const updatedOrder = await prisma.order.update({
-        where: { id },
-        data: updateData,
-        include: {
-          user: {
-            select: {
-              firstName: true,
-              lastName: true,
-              email: true
-            }
-          },
-          orderItems: {
-            include: {
-              product: {
-                select: {
-                  id: true,
-                  name: true,
-                  image: true
-                }
-              }
-            }
-          }
+      if (status && status !== existingOrder.status) {
+        // The member making the change, not the store
+        await transitionOrderStatus(id, status, {
+          type: 'ADMIN',
+          id: req.user.id,
+          name: `${req.user.firstName} ${req.user.lastName}`.trim() || null
+        }, { note });
+      }
+
+      if (paymentStatus) {
+        await req.db.order.update({
+          where: { id },
+          data: { paymentStatus }
+        });
+
+        // e.g. cash collected on delivery
+        if (paymentStatus === 'PAID' && existingOrder.paymentStatus !== 'PAID') {
+          await notifyOrderEvent(id, 'ORDER_PAID');
         }
+      }
+
+      const updatedOrder = await req.db.order.findUniqueOrThrow({
+        where: { id },
+        include: orderInclude
       });
 
-      res.status(200).json(updatedOrder);
+      res.status(200).json({
+        ...updatedOrder,
+        allowedTransitions: getAllowedTransitions(updatedOrder.status)
+      });
     } else {
       res.setHeader('Allow', ['GET', 'PUT']);
       res.status(405).json({ error: 'Method not allowed' });
     }
   } catch (error) {
+    if (error instanceof OrderStatusError) {
+      return res.status(409).json({
+        error: error.message,
+        code: 'INVALID_STATUS_TRANSITION',
+        details: {
+          from: error.from,
+          to: error.to,
+          allowed: error.from ? getAllowedTransitions(error.from) : []
+        }
+      });
+    }
     console.error('Admin order API error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export default withStorePermission('FULFIL_ORDERS', handler);
@@ -0,0 +1,51 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { RefundError, refreshRefundStatus } from '@/lib/refunds';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id, refundId } = req.query;
+  const adminId = req.tenantId;
+
+  if (!id || typeof id !== 'string' || !refundId || typeof refundId !== 'string') {
+    return res.status(400).json({ error: 'Invalid refund ID' });
+  }
+
+  try {
+    const refund = await prisma.refund.findFirst({
+      where: {
+        id: refundId,
+        orderId: id,
+        order: {
+          storeId: adminId
+        }
+      },
+      include: { items: true }
+    });
+
+    if (!refund) {
+      return res.status(404).json({ error: 'Refund not found' });
+    }
+
+    if (req.method === 'GET') {
+      res.status(200).json(refund);
+    } else if (req.method === 'POST') {
+      // Poll the payment gateway for the latest refund status
+      const updated = await refreshRefundStatus(refundId);
+      res.status(200).json(updated);
+    } else {
+      res.setHeader('Allow', ['GET', 'POST']);
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Admin refund API error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('FULFIL_ORDERS', handler);
@@ -0,0 +1,69 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { RefundError, createRefund, getRefundableItems } from '@/lib/refunds';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid order ID' });
+  }
+
+  try {
+    // Ensure the order belongs to this store
+    const order = await req.db.order.findFirst({
+      where: { id }
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found or access denied' });
+    }
+
+    if (req.method === 'GET') {
+      const [refunds, items] = await Promise.all([
+        prisma.refund.findMany({
+          where: { orderId: id },
+          include: { items: true },
+          orderBy: { createdAt: 'desc' }
+        }),
+        getRefundableItems(id)
+      ]);
+
+      res.status(200).json({
+        refunds,
+        items,
+        paymentStatus: order.paymentStatus,
+        // A cancelled order's units went back to stock when it was cancelled
+        canRestock: order.status !== 'CANCELLED',
+        refundableAmount: Math.max(0, Math.round((order.total - order.refundedAmount) * 100) / 100)
+      });
+    } else if (req.method === 'POST') {
+      const { items, amount, reason, restock } = req.body;
+
+      const refund = await createRefund({
+        orderId: id,
+        adminId: req.user.id,
+        items: Array.isArray(items) ? items : [],
+        amount,
+        reason,
+        restock
+      });
+
+      res.status(201).json(refund);
+    } else {
+      res.setHeader('Allow', ['GET', 'POST']);
+      res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Admin refunds API error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('FULFIL_ORDERS', handler);
@@ -0,0 +1,68 @@
+import { NextApiResponse } from 'next';
+import {
+  CourierError,
+  bookOrderShipment,
+  getOrderTrackingUrl,
+  listCouriers,
+  refreshShipmentStatus
+} from '@/lib/couriers';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+/**
+ * GET lists the couriers and the order's consignment, POST books a
+ * consignment ({ courier, note }) and PUT refreshes its status from the courier
+ */
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid order ID' });
+  }
+
+  try {
+    // Ensure the order belongs to this store
+    const order = await req.db.order.findFirst({
+      where: { id }
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found or access denied' });
+    }
+
+    let shipped = order;
+    if (req.method === 'POST') {
+      const { courier, note } = req.body;
+
+      if (!courier || typeof courier !== 'string') {
+        return res.status(400).json({ error: 'courier is required' });
+      }
+
+      shipped = await bookOrderShipment(id, courier, { note: typeof note === 'string' ? note : undefined });
+    } else if (req.method === 'PUT') {
+      shipped = await refreshShipmentStatus(id);
+    } else if (req.method !== 'GET') {
+      res.setHeader('Allow', ['GET', 'POST', 'PUT']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    res.status(req.method === 'POST' ? 201 : 200).json({
+      couriers: listCouriers(),
+      shipment: {
+        courier: shipped.courier,
+        consignmentId: shipped.courierConsignmentId,
+        trackingNumber: shipped.trackingNumber,
+        status: shipped.courierStatus,
+        bookedAt: shipped.courierBookedAt,
+        trackingUrl: getOrderTrackingUrl(shipped)
+      }
+    });
+  } catch (error) {
+    if (error instanceof CourierError) {
+      return res.status(error.status).json({ error: error.message, details: error.details });
+    }
+    console.error('Admin shipment API error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('FULFIL_ORDERS', handler);
@@ -1,32 +1,19 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import { PrismaClient } from '@prisma/client';
+import { NextApiResponse } from 'next';
+import { getAllowedTransitions } from '@/lib/orderStatus';
+import { getOrderPaymentProvider } from '@/lib/payments';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
-const prisma = new PrismaClient();
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   try {
     if (req.method === 'GET') {
-      // Get adminId from query parameter (passed from subdomain context)
-      const { adminId, page = 1, limit = 50, status, search } = req.query;
-      
-      if (!adminId) {
-        return res.status(400).json({ error: 'adminId is required' });
-      }
+      const { page = 1, limit = 50, status, search } = req.query;
 
       const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
       const take = parseInt(limit as string);
 
+      // The store's client only returns its own orders
       const where: any = {};
 
-      // Only show orders for products that belong to this admin
-      where.orderItems = {
-        some: {
-          product: {
-            createdBy: adminId as string
-          }
-        }
-      };
-
       if (status && status !== 'all') {
         where.status = status as string;
       }
@@ -49,7 +36,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
 
       const [orders, total] = await Promise.all([
-        prisma.order.findMany({
+        req.db.order.findMany({
           where,
           include: {
             user: {
@@ -69,16 +56,24 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                   }
                 }
               }
+            },
+            address: true,
+            statusEvents: {
+              orderBy: { createdAt: 'asc' }
             }
           },
           orderBy: { createdAt: 'desc' },
           skip,
           take
         }),
-        prisma.order.count({ where })
+        req.db.order.count({ where })
       ]);
 
-      res.status(200).json(orders);
+      res.status(200).json(orders.map(order => ({
+        ...order,
+        allowedTransitions: getAllowedTransitions(order.status),
+        canRefund: Boolean(getOrderPaymentProvider(order)?.refund)
+      })));
     } else {
       res.setHeader('Allow', ['GET']);
       res.status(405).json({ error: 'Method not allowed' });
@@ -88,3 +83,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export default withStorePermission('FULFIL_ORDERS', handler);
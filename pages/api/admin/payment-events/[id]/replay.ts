@@ -0,0 +1,38 @@
+import { NextApiResponse } from 'next';
+import { findStorePaymentEvent, processPaymentEvent } from '@/lib/paymentEvents';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+/**
+ * Reprocess a stored payment notification, e.g. after fixing the cause of a failure.
+ * Safe to repeat: orders are never moved back from paid, refunded or cancelled.
+ */
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid event ID' });
+  }
+
+  try {
+    // Ensure the event concerns this store, including events that matched no order
+    const event = await findStorePaymentEvent(id, req.tenantId);
+
+    if (!event) {
+      return res.status(404).json({ error: 'Payment event not found or access denied' });
+    }
+
+    const processed = await processPaymentEvent(event.id, { replay: true });
+
+    res.status(200).json(processed);
+  } catch (error) {
+    console.error('Payment event replay error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('FULFIL_ORDERS', handler);
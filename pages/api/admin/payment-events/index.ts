@@ -0,0 +1,79 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient, Prisma, PaymentEventStatus } from '@prisma/client';
+import { findUnmatchedStorePaymentEventIds } from '@/lib/paymentEvents';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+const EVENT_STATUSES: PaymentEventStatus[] = ['RECEIVED', 'PROCESSED', 'IGNORED', 'FAILED'];
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { status, search, page = '1', limit = '20' } = req.query;
+  const adminId = req.tenantId;
+
+  try {
+    // Only events for this store's orders, and unmatched ones it can replay
+    const where: Prisma.PaymentEventWhereInput = {
+      OR: [
+        { order: { storeId: adminId } },
+        { id: { in: await findUnmatchedStorePaymentEventIds(adminId) } }
+      ]
+    };
+
+    if (typeof status === 'string' && EVENT_STATUSES.includes(status as PaymentEventStatus)) {
+      where.status = status as PaymentEventStatus;
+    }
+
+    if (typeof search === 'string' && search) {
+      where.AND = [{
+        OR: [
+          { transactionId: { contains: search } },
+          { orderId: { contains: search } }
+        ]
+      }];
+    }
+
+    const take = Math.min(parseInt(limit as string) || 20, 100);
+    const skip = (Math.max(parseInt(page as string) || 1, 1) - 1) * take;
+
+    const [events, total] = await Promise.all([
+      prisma.paymentEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take,
+        include: {
+          order: {
+            select: {
+              id: true,
+              total: true,
+              status: true,
+              paymentStatus: true
+            }
+          }
+        }
+      }),
+      prisma.paymentEvent.count({ where })
+    ]);
+
+    res.status(200).json({
+      events,
+      pagination: {
+        page: Math.floor(skip / take) + 1,
+        limit: take,
+        total,
+        pages: Math.ceil(total / take)
+      }
+    });
+  } catch (error) {
+    console.error('Admin payment events API error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('FULFIL_ORDERS', handler);
@@ -0,0 +1,44 @@
+import { NextApiResponse } from 'next';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import { getStorePaymentMethods, updateStorePaymentMethods } from '@/lib/payments';
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const adminId = req.tenantId;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json(await getStorePaymentMethods(adminId));
+      case 'PUT': {
+        const { methods } = req.body;
+
+        if (!Array.isArray(methods)) {
+          return res.status(400).json({ error: 'methods must be an array' });
+        }
+
+        const enabled = methods.filter((method: any) => method.enabled);
+        if (enabled.length === 0) {
+          return res.status(400).json({ error: 'Enable at least one payment method' });
+        }
+
+        const current = await getStorePaymentMethods(adminId);
+        const unconfigured = enabled.find((method: any) =>
+          !current.some(m => m.id === method.id && m.configured)
+        );
+        if (unconfigured) {
+          return res.status(400).json({ error: `${unconfigured.id} is not configured on this server` });
+        }
+
+        return res.status(200).json(await updateStorePaymentMethods(adminId, methods));
+      }
+      default:
+        res.setHeader('Allow', ['GET', 'PUT']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Admin payment methods API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('MANAGE_SETTINGS', handler);
@@ -0,0 +1,91 @@
+import { NextApiResponse } from 'next';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { parseSegmentRules, previewSegment } from '@/lib/customerSegments';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ message: 'Segment ID is required' });
+  }
+
+  try {
+    const segment = await prisma.customerSegment.findFirst({
+      where: { id, storeId: req.tenantId }
+    });
+
+    if (!segment) {
+      return res.status(404).json({ message: 'Segment not found' });
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        // Who is in the segment right now; campaigns work this out again when they are sent
+        const preview = await previewSegment(req.tenantId, parseSegmentRules(segment.rules).rules);
+        return res.status(200).json({ segment, preview });
+      }
+      case 'PUT':
+        return await updateSegment(req, res, id);
+      case 'DELETE': {
+        // An unsent campaign would lose its recipients
+        const waiting = await Promise.all([
+          prisma.sMSCampaign.count({ where: { segmentId: id, status: { in: ['DRAFT', 'SCHEDULED', 'SENDING'] } } }),
+          prisma.whatsAppCampaign.count({ where: { segmentId: id, status: { in: ['DRAFT', 'SCHEDULED', 'SENDING'] } } })
+        ]);
+        if (waiting[0] + waiting[1] > 0) {
+          return res.status(409).json({ message: 'This segment is the audience of campaigns that have not been sent yet' });
+        }
+
+        await prisma.customerSegment.delete({ where: { id } });
+        return res.status(200).json({ message: 'Segment deleted' });
+      }
+      default:
+        res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
+        return res.status(405).json({ message: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Customer segment API error:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+}
+
+async function updateSegment(req: StoreApiRequest, res: NextApiResponse, id: string) {
+  const data: Prisma.CustomerSegmentUpdateInput = {};
+
+  if (req.body.name !== undefined) {
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ message: 'Segment name is required' });
+    }
+    data.name = name;
+  }
+
+  if (req.body.description !== undefined) {
+    data.description = typeof req.body.description === 'string' && req.body.description.trim()
+      ? req.body.description.trim()
+      : null;
+  }
+
+  if (req.body.rules !== undefined) {
+    const { rules, error } = parseSegmentRules(req.body.rules);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    data.rules = rules as Prisma.InputJsonObject;
+  }
+
+  try {
+    const segment = await prisma.customerSegment.update({ where: { id }, data });
+    return res.status(200).json({ segment });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ message: 'A segment with this name already exists' });
+    }
+    throw error;
+  }
+}
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
@@ -0,0 +1,78 @@
+import { NextApiResponse } from 'next';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { parseSegmentRules } from '@/lib/customerSegments';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await getSegments(req, res);
+      case 'POST':
+        return await createSegment(req, res);
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        return res.status(405).json({ message: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Customer segments API error:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+}
+
+async function getSegments(req: StoreApiRequest, res: NextApiResponse) {
+  const [segments, categories] = await Promise.all([
+    prisma.customerSegment.findMany({
+      where: { storeId: req.tenantId },
+      orderBy: { name: 'asc' },
+      include: {
+        _count: { select: { smsCampaigns: true, whatsappCampaigns: true } }
+      }
+    }),
+    // For the "purchased in category" rule
+    prisma.category.findMany({
+      where: { createdBy: req.tenantId },
+      orderBy: { name: 'asc' },
+      select: { id: true, name: true }
+    })
+  ]);
+
+  return res.status(200).json({ segments, categories });
+}
+
+async function createSegment(req: StoreApiRequest, res: NextApiResponse) {
+  const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+  const description = typeof req.body.description === 'string' ? req.body.description.trim() : '';
+
+  if (!name) {
+    return res.status(400).json({ message: 'Segment name is required' });
+  }
+
+  const { rules, error } = parseSegmentRules(req.body.rules);
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+
+  try {
+    const segment = await prisma.customerSegment.create({
+      data: {
+        storeId: req.tenantId,
+        name,
+        description: description || null,
+        rules: rules as Prisma.InputJsonObject,
+        createdBy: req.user.id
+      }
+    });
+
+    return res.status(201).json({ segment });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ message: 'A segment with this name already exists' });
+    }
+    throw error;
+  }
+}
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
@@ -0,0 +1,27 @@
+import { NextApiResponse } from 'next';
+import { parseSegmentRules, previewSegment } from '@/lib/customerSegments';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+/**
+ * How many customers match rules that haven't been saved yet, for the segment builder
+ */
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const { rules, error } = parseSegmentRules(req.body.rules);
+  if (error) {
+    return res.status(400).json({ message: error });
+  }
+
+  try {
+    return res.status(200).json(await previewSegment(req.tenantId, rules));
+  } catch (error) {
+    console.error('Error previewing customer segment:', error);
+    return res.status(500).json({ message: 'Failed to preview segment' });
+  }
+}
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
@@ -0,0 +1,68 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import { validateShippingZoneInput } from '@/lib/shipping';
+
+const prisma = new PrismaClient();
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+  const adminId = req.tenantId;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid shipping zone ID' });
+  }
+
+  try {
+    // Ensure the zone belongs to this admin
+    const zone = await prisma.shippingZone.findFirst({
+      where: { id, adminId }
+    });
+
+    if (!zone) {
+      return res.status(404).json({ error: 'Shipping zone not found or access denied' });
+    }
+
+    switch (req.method) {
+      case 'PUT': {
+        const { data, rates, errors } = validateShippingZoneInput(
+          { type: zone.type, ...req.body },
+          true
+        );
+
+        if (errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid shipping zone', details: errors });
+        }
+
+        // Submitted rates replace the zone's current ones
+        const updatedZone = await prisma.$transaction(async (tx) => {
+          if (rates) {
+            await tx.shippingRate.deleteMany({ where: { zoneId: id } });
+            await tx.shippingRate.createMany({
+              data: rates.map(rate => ({ ...rate, zoneId: id }))
+            });
+          }
+
+          return tx.shippingZone.update({
+            where: { id },
+            data,
+            include: { rates: true }
+          });
+        });
+
+        return res.status(200).json({ message: 'Shipping zone updated successfully', zone: updatedZone });
+      }
+      case 'DELETE':
+        await prisma.shippingZone.delete({ where: { id } });
+        return res.status(200).json({ message: 'Shipping zone deleted successfully' });
+      default:
+        res.setHeader('Allow', ['PUT', 'DELETE']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Admin shipping zone API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('MANAGE_SETTINGS', handler);
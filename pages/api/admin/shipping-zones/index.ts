@@ -0,0 +1,43 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import { getShippingZones, validateShippingZoneInput } from '@/lib/shipping';
+
+const prisma = new PrismaClient();
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const adminId = req.tenantId;
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json({ zones: await getShippingZones(adminId) });
+      case 'POST': {
+        const { data, rates, errors } = validateShippingZoneInput(req.body);
+
+        if (errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid shipping zone', details: errors });
+        }
+
+        const zone = await prisma.shippingZone.create({
+          data: {
+            ...(data as Prisma.ShippingZoneUncheckedCreateInput),
+            adminId,
+            rates: { create: rates }
+          },
+          include: { rates: true }
+        });
+
+        return res.status(201).json({ message: 'Shipping zone created successfully', zone });
+      }
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Admin shipping zones API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('MANAGE_SETTINGS', handler);
@@ -1,9 +1,19 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
+import {
+  getSMSCampaignJobKey,
+  getStoreTimeZone,
+  parseScheduledAt,
+  scheduleSMSCampaignSend,
+  unscheduleCampaignSend
+} from '@/lib/campaignScheduler';
+import { getSegmentRecipients } from '@/lib/customerSegments';
+import { hasStoreCredentials } from '@/lib/storeCredentials';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
 const prisma = new PrismaClient();
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   const { campaignId } = req.query;
 
   if (!campaignId || typeof campaignId !== 'string') {
@@ -27,10 +37,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function getCampaign(req: NextApiRequest, res: NextApiResponse, campaignId: string) {
+async function getCampaign(req: StoreApiRequest, res: NextApiResponse, campaignId: string) {
   try {
-    const campaign = await prisma.sMSCampaign.findUnique({
-      where: { id: campaignId },
+    const campaign = await prisma.sMSCampaign.findFirst({
+      where: { id: campaignId, storeId: req.tenantId },
       include: {
         logs: {
           orderBy: { createdAt: 'desc' },
@@ -50,12 +60,12 @@ async function getCampaign(req: NextApiRequest, res: NextApiResponse, campaignId
   }
 }
 
-async function updateCampaign(req: NextApiRequest, res: NextApiResponse, campaignId: string) {
+async function updateCampaign(req: StoreApiRequest, res: NextApiResponse, campaignId: string) {
   try {
-    const { name, message, recipients, scheduledAt } = req.body;
+    const { name, message, recipients } = req.body;
 
-    const campaign = await prisma.sMSCampaign.findUnique({
-      where: { id: campaignId }
+    const campaign = await prisma.sMSCampaign.findFirst({
+      where: { id: campaignId, storeId: req.tenantId }
     });
 
     if (!campaign) {
@@ -89,17 +99,68 @@ async function updateCampaign(req: NextApiRequest, res: NextApiResponse, campaig
       
       updateData.recipients = recipients;
       updateData.totalCount = recipients.length;
+      updateData.segmentId = null;
+    } else if (req.body.segmentId) {
+      const segmentRecipients = await getSegmentRecipients(req.tenantId, String(req.body.segmentId));
+      if (!segmentRecipients) {
+        return res.status(400).json({ message: 'Segment not found' });
+      }
+
+      updateData.segmentId = String(req.body.segmentId);
+      updateData.recipients = [];
+      updateData.totalCount = segmentRecipients.length;
+    }
+
+    // scheduledAt reschedules the campaign; null cancels the schedule
+    const changesSchedule = req.body.scheduledAt !== undefined;
+    const { scheduledAt, error } = parseScheduledAt(req.body.scheduledAt, await getStoreTimeZone(req.tenantId));
+    if (error) {
+      return res.status(400).json({ message: error });
     }
-    if (scheduledAt !== undefined) {
-      updateData.scheduledAt = scheduledAt ? new Date(scheduledAt) : null;
+
+    if (scheduledAt && !await hasStoreCredentials(req.tenantId, 'SMS_BANGLADESH')) {
+      return res.status(400).json({ message: 'Set up SMS Bangladesh in Settings before scheduling a campaign' });
+    }
+
+    if (changesSchedule) {
+      updateData.scheduledAt = scheduledAt;
       updateData.status = scheduledAt ? 'SCHEDULED' : 'DRAFT';
     }
 
-    const updatedCampaign = await prisma.sMSCampaign.update({
-      where: { id: campaignId },
-      data: updateData
+    const updatedCampaign = await prisma.$transaction(async (tx) => {
+      // Guarded on the status read above so a campaign the job worker has started is left alone
+      const updated = await tx.sMSCampaign.updateMany({
+        where: { id: campaignId, status: campaign.status },
+        data: updateData
+      });
+      if (updated.count === 0) {
+        return null;
+      }
+
+      if (scheduledAt) {
+        await scheduleSMSCampaignSend(campaignId, req.tenantId, scheduledAt, tx);
+      } else if (changesSchedule) {
+        await unscheduleCampaignSend(getSMSCampaignJobKey(campaignId), tx);
+      }
+
+      if (changesSchedule && (scheduledAt || campaign.status === 'SCHEDULED')) {
+        await tx.sMSCampaignLog.create({
+          data: {
+            campaignId,
+            action: scheduledAt ? (campaign.status === 'SCHEDULED' ? 'RESCHEDULED' : 'SCHEDULED') : 'SCHEDULE_CANCELLED',
+            details: { scheduledAt, previousScheduledAt: campaign.scheduledAt },
+            userId: req.user.id
+          }
+        });
+      }
+
+      return tx.sMSCampaign.findUniqueOrThrow({ where: { id: campaignId } });
     });
 
+    if (!updatedCampaign) {
+      return res.status(409).json({ message: 'Campaign is already being sent' });
+    }
+
     return res.status(200).json({ 
       message: 'Campaign updated successfully',
       campaign: updatedCampaign 
@@ -110,16 +171,18 @@ async function updateCampaign(req: NextApiRequest, res: NextApiResponse, campaig
   }
 }
 
-async function deleteCampaign(req: NextApiRequest, res: NextApiResponse, campaignId: string) {
+async function deleteCampaign(req: StoreApiRequest, res: NextApiResponse, campaignId: string) {
   try {
-    const campaign = await prisma.sMSCampaign.findUnique({
-      where: { id: campaignId }
+    const campaign = await prisma.sMSCampaign.findFirst({
+      where: { id: campaignId, storeId: req.tenantId }
     });
 
     if (!campaign) {
       return res.status(404).json({ message: 'Campaign not found' });
     }
 
+    await unscheduleCampaignSend(getSMSCampaignJobKey(campaignId), prisma);
+
     // Delete associated logs first
     await prisma.sMSCampaignLog.deleteMany({
       where: { campaignId }
@@ -136,3 +199,5 @@ async function deleteCampaign(req: NextApiRequest, res: NextApiResponse, campaig
     return res.status(500).json({ message: 'Failed to delete campaign' });
   }
 }
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
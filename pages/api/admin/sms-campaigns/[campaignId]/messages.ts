@@ -0,0 +1,86 @@
+import { NextApiResponse } from 'next';
+import { Prisma, PrismaClient, SMSMessageStatus } from '@prisma/client';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+const MESSAGE_STATUSES: SMSMessageStatus[] = ['QUEUED', 'SENT', 'DELIVERED', 'FAILED', 'SUPPRESSED'];
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { campaignId, status, search, page = '1', limit = '50' } = req.query;
+
+  if (!campaignId || typeof campaignId !== 'string') {
+    return res.status(400).json({ message: 'Invalid campaign ID' });
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const campaign = await prisma.sMSCampaign.findFirst({
+      where: { id: campaignId, storeId: req.tenantId }
+    });
+
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+
+    const where: Prisma.SMSMessageWhereInput = { campaignId };
+
+    if (typeof status === 'string' && MESSAGE_STATUSES.includes(status as SMSMessageStatus)) {
+      where.status = status as SMSMessageStatus;
+    }
+
+    if (typeof search === 'string' && search) {
+      where.phoneNumber = { contains: search.replace(/\D/g, '') };
+    }
+
+    const take = Math.min(parseInt(limit as string) || 50, 200);
+    const skip = (Math.max(parseInt(page as string) || 1, 1) - 1) * take;
+
+    const [messages, total, groups, cost] = await Promise.all([
+      prisma.sMSMessage.findMany({
+        where,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip,
+        take
+      }),
+      prisma.sMSMessage.count({ where }),
+      prisma.sMSMessage.groupBy({
+        by: ['status'],
+        where: { campaignId },
+        _count: { _all: true }
+      }),
+      prisma.sMSMessage.aggregate({
+        where: { campaignId },
+        _sum: { cost: true }
+      })
+    ]);
+
+    // Messages per status across the whole campaign, for the filter tabs
+    const counts = Object.fromEntries(MESSAGE_STATUSES.map(messageStatus => [
+      messageStatus,
+      groups.find(group => group.status === messageStatus)?._count._all || 0
+    ]));
+
+    return res.status(200).json({
+      campaign,
+      messages,
+      counts,
+      totalCost: cost._sum.cost,
+      pagination: {
+        page: Math.floor(skip / take) + 1,
+        limit: take,
+        total,
+        pages: Math.ceil(total / take)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching SMS messages:', error);
+    return res.status(500).json({ message: 'Failed to fetch messages' });
+  }
+}
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
@@ -0,0 +1,91 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { getSMSCampaignJobKey } from '@/lib/campaignScheduler';
+import { enqueueJob } from '@/lib/jobs';
+import { requeueFailedSMSMessages } from '@/lib/smsMessages';
+import { hasStoreCredentials } from '@/lib/storeCredentials';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+/**
+ * Send a finished campaign again to its failed recipients only
+ */
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { campaignId } = req.query;
+
+  if (!campaignId || typeof campaignId !== 'string') {
+    return res.status(400).json({ message: 'Invalid campaign ID' });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    if (!await hasStoreCredentials(req.tenantId, 'SMS_BANGLADESH')) {
+      return res.status(400).json({ message: 'Set up SMS Bangladesh in Settings before sending' });
+    }
+
+    const campaign = await prisma.sMSCampaign.findFirst({
+      where: { id: campaignId, storeId: req.tenantId }
+    });
+
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+
+    if (campaign.status !== 'SENT' && campaign.status !== 'FAILED') {
+      return res.status(400).json({ message: 'Only sent or failed campaigns can be retried' });
+    }
+
+    const queued = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.sMSCampaign.updateMany({
+        where: { id: campaignId, status: campaign.status },
+        data: { status: 'SENDING' }
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const retryCount = await requeueFailedSMSMessages(campaignId, tx);
+      if (retryCount === 0) {
+        // Nothing to send; leave the campaign as it was
+        await tx.sMSCampaign.update({ where: { id: campaignId }, data: { status: campaign.status } });
+        return { job: null, retryCount };
+      }
+
+      const job = await enqueueJob('sms-campaign.send', { campaignId }, {
+        storeId: req.tenantId,
+        key: getSMSCampaignJobKey(campaignId),
+        replaceQueued: true
+      }, tx);
+
+      await tx.sMSCampaignLog.create({
+        data: { campaignId, action: 'RETRY_QUEUED', details: { jobId: job.id, retryCount }, userId: req.user.id }
+      });
+
+      return { job, retryCount };
+    });
+
+    if (!queued) {
+      return res.status(409).json({ message: 'Campaign is already being sent' });
+    }
+
+    if (!queued.job) {
+      return res.status(400).json({ message: 'The campaign has no failed messages to retry' });
+    }
+
+    return res.status(202).json({
+      message: `Retrying ${queued.retryCount} failed messages`,
+      retryCount: queued.retryCount,
+      jobId: queued.job.id
+    });
+  } catch (error) {
+    console.error('Error retrying campaign:', error);
+    return res.status(500).json({ message: 'Failed to retry campaign' });
+  }
+}
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
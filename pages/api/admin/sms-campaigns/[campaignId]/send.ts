@@ -1,10 +1,13 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
-import { sendSMSBangladesh } from '../../../../../lib/sms-bangladesh';
+import { getSMSCampaignJobKey } from '@/lib/campaignScheduler';
+import { enqueueJob } from '@/lib/jobs';
+import { hasStoreCredentials } from '@/lib/storeCredentials';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
 const prisma = new PrismaClient();
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   const { campaignId } = req.query;
 
   if (!campaignId || typeof campaignId !== 'string') {
@@ -24,17 +27,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function sendCampaign(req: NextApiRequest, res: NextApiResponse, campaignId: string) {
+async function sendCampaign(req: StoreApiRequest, res: NextApiResponse, campaignId: string) {
   try {
-    const { apiConfig } = req.body; // Get SMS Bangladesh config from frontend
-
-    if (!apiConfig || !apiConfig.user || !apiConfig.password) {
-      return res.status(400).json({ message: 'SMS Bangladesh configuration is required' });
+    if (!await hasStoreCredentials(req.tenantId, 'SMS_BANGLADESH')) {
+      return res.status(400).json({ message: 'Set up SMS Bangladesh in Settings before sending' });
     }
 
     // Find the campaign
-    const campaign = await prisma.sMSCampaign.findUnique({
-      where: { id: campaignId }
+    const campaign = await prisma.sMSCampaign.findFirst({
+      where: { id: campaignId, storeId: req.tenantId }
     });
 
     if (!campaign) {
@@ -45,78 +46,43 @@ async function sendCampaign(req: NextApiRequest, res: NextApiResponse, campaignI
       return res.status(400).json({ message: 'Campaign already sent or failed' });
     }
 
-    // Send SMS via SMS Bangladesh API on the backend
-    const smsResult = await sendSMSBangladesh(
-      {
-        baseUrl: apiConfig.baseUrl || 'https://panel.smsbangladesh.com/api',
-        user: apiConfig.user,
-        password: apiConfig.password,
-        from: apiConfig.from || 'ECOMMERCE'
-      },
-      campaign.recipients,
-      campaign.message
-    );
+    // Large lists take longer than a request may run, so the job worker sends them
+    const job = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.sMSCampaign.updateMany({
+        where: { id: campaignId, status: campaign.status },
+        data: { status: 'SENDING' }
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
 
-    // Calculate delivery statistics
-    const totalCount = campaign.recipients.length;
-    let deliveredCount = 0;
-    let failedCount = 0;
-    let status: 'SENT' | 'FAILED' = 'SENT';
+      // A scheduled campaign's queued job is brought forward to now
+      const queued = await enqueueJob('sms-campaign.send', { campaignId }, {
+        storeId: req.tenantId,
+        key: getSMSCampaignJobKey(campaignId),
+        replaceQueued: true
+      }, tx);
 
-    if (smsResult.success) {
-      deliveredCount = totalCount - (smsResult.failedNumbers?.length || 0);
-      failedCount = smsResult.failedNumbers?.length || 0;
-      
-      // If more than 50% failed, mark as failed
-      if (failedCount > totalCount * 0.5) {
-        status = 'FAILED';
-      }
-    } else {
-      failedCount = totalCount;
-      status = 'FAILED';
-    }
+      await tx.sMSCampaignLog.create({
+        data: { campaignId, action: 'QUEUED', details: { jobId: queued.id }, userId: req.user.id }
+      });
 
-    // Update campaign in database
-    const updatedCampaign = await prisma.sMSCampaign.update({
-      where: { id: campaignId },
-      data: {
-        status,
-        sentAt: new Date(),
-        deliveredCount,
-        failedCount,
-        apiProvider: 'SMS_BANGLADESH',
-        apiResponse: JSON.parse(JSON.stringify(smsResult)), // Convert to plain object
-        failedNumbers: smsResult.failedNumbers || []
-      }
+      return queued;
     });
 
-    // Log campaign activity
-    await prisma.sMSCampaignLog.create({
-      data: {
-        campaignId,
-        action: 'SENT',
-        details: {
-          apiProvider: 'SMS_BANGLADESH',
-          deliveredCount,
-          failedCount,
-          apiResponse: JSON.parse(JSON.stringify(smsResult)) // Convert to plain object
-        }
-        // userId is optional now (no authentication)
-      }
-    });
+    if (!job) {
+      return res.status(409).json({ message: 'Campaign is already being sent' });
+    }
 
-    return res.status(200).json({ 
-      message: 'Campaign sent successfully',
-      campaign: updatedCampaign,
-      stats: {
-        totalCount,
-        deliveredCount,
-        failedCount,
-        successRate: ((deliveredCount / totalCount) * 100).toFixed(2)
-      }
+    return res.status(202).json({
+      message: 'Campaign queued for sending',
+      campaign: { ...campaign, status: 'SENDING' },
+      jobId: job.id
     });
   } catch (error) {
     console.error('Error sending campaign:', error);
     return res.status(500).json({ message: 'Failed to send campaign' });
   }
 }
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
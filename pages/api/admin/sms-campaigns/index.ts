@@ -1,9 +1,13 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
+import { getStoreTimeZone, parseScheduledAt, scheduleSMSCampaignSend } from '@/lib/campaignScheduler';
+import { getSegmentRecipients } from '@/lib/customerSegments';
+import { hasStoreCredentials } from '@/lib/storeCredentials';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
 const prisma = new PrismaClient();
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   try {
     switch (req.method) {
       case 'GET':
@@ -19,26 +23,34 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function getCampaigns(req: NextApiRequest, res: NextApiResponse) {
+async function getCampaigns(req: StoreApiRequest, res: NextApiResponse) {
   try {
     const campaigns = await prisma.sMSCampaign.findMany({
+      where: { storeId: req.tenantId },
       orderBy: {
         createdAt: 'desc'
+      },
+      include: {
+        segment: { select: { id: true, name: true } }
       }
     });
 
-    return res.status(200).json({ campaigns });
+    // Scheduled times are entered and shown in the store's time zone
+    const timeZone = await getStoreTimeZone(req.tenantId);
+    const smsConfigured = await hasStoreCredentials(req.tenantId, 'SMS_BANGLADESH');
+
+    return res.status(200).json({ campaigns, timeZone, smsConfigured });
   } catch (error) {
     console.error('Error fetching campaigns:', error);
     return res.status(500).json({ message: 'Failed to fetch campaigns' });
   }
 }
 
-async function createCampaign(req: NextApiRequest, res: NextApiResponse) {
+async function createCampaign(req: StoreApiRequest, res: NextApiResponse) {
   try {
-    const { name, message, recipients, scheduledAt } = req.body;
+    const { name, message, recipients, segmentId } = req.body;
 
-    if (!name || !message || !recipients || !Array.isArray(recipients)) {
+    if (!name || !message || (!segmentId && (!recipients || !Array.isArray(recipients)))) {
       return res.status(400).json({ message: 'Missing required fields' });
     }
 
@@ -46,32 +58,61 @@ async function createCampaign(req: NextApiRequest, res: NextApiResponse) {
       return res.status(400).json({ message: 'Message too long (max 1000 characters)' });
     }
 
-    if (recipients.length === 0) {
-      return res.status(400).json({ message: 'At least one recipient is required' });
+    // A segment's recipients are looked up again when the campaign is sent;
+    // the count now is what the admin sees until then
+    const segmentRecipients = segmentId ? await getSegmentRecipients(req.tenantId, String(segmentId)) : null;
+    if (segmentId && !segmentRecipients) {
+      return res.status(400).json({ message: 'Segment not found' });
     }
 
-    // Validate phone numbers
-    const phoneRegex = /^[+]?[\d\s-]{10,15}$/;
-    const invalidNumbers = recipients.filter(num => !phoneRegex.test(num));
-    
-    if (invalidNumbers.length > 0) {
-      return res.status(400).json({ 
-        message: 'Invalid phone numbers detected',
-        invalidNumbers 
-      });
+    if (!segmentRecipients) {
+      if (recipients.length === 0) {
+        return res.status(400).json({ message: 'At least one recipient is required' });
+      }
+
+      // Validate phone numbers
+      const phoneRegex = /^[+]?[\d\s-]{10,15}$/;
+      const invalidNumbers = recipients.filter((num: string) => !phoneRegex.test(num));
+      
+      if (invalidNumbers.length > 0) {
+        return res.status(400).json({ 
+          message: 'Invalid phone numbers detected',
+          invalidNumbers 
+        });
+      }
+    }
+
+    const { scheduledAt, error } = parseScheduledAt(req.body.scheduledAt, await getStoreTimeZone(req.tenantId));
+    if (error) {
+      return res.status(400).json({ message: error });
     }
 
-    const campaign = await prisma.sMSCampaign.create({
-      data: {
-        name,
-        message,
-        recipients,
-        status: scheduledAt ? 'SCHEDULED' : 'DRAFT',
-        scheduledAt: scheduledAt ? new Date(scheduledAt) : null,
-        totalCount: recipients.length,
-        deliveredCount: 0,
-        failedCount: 0
+    if (scheduledAt && !await hasStoreCredentials(req.tenantId, 'SMS_BANGLADESH')) {
+      return res.status(400).json({ message: 'Set up SMS Bangladesh in Settings before scheduling a campaign' });
+    }
+
+    const campaign = await prisma.$transaction(async (tx) => {
+      const created = await tx.sMSCampaign.create({
+        data: {
+          name,
+          message,
+          recipients: segmentRecipients ? [] : recipients,
+          segmentId: segmentRecipients ? String(segmentId) : null,
+          storeId: req.tenantId,
+          createdBy: req.user.id,
+          status: scheduledAt ? 'SCHEDULED' : 'DRAFT',
+          scheduledAt,
+          totalCount: (segmentRecipients || recipients).length,
+          deliveredCount: 0,
+          failedCount: 0
+        }
+      });
+
+      if (scheduledAt) {
+        await scheduleSMSCampaignSend(created.id, req.tenantId, scheduledAt, tx);
       }
+
+      return created;
     });
 
     return res.status(201).json({ 
@@ -83,3 +124,5 @@ async function createCampaign(req: NextApiRequest, res: NextApiResponse) {
     return res.status(500).json({ message: 'Failed to create campaign' });
   }
 }
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
@@ -1,30 +1,28 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { sendSMSBangladesh } from '../../../lib/sms-bangladesh';
+import { getStoreSMSConfig } from '@/lib/storeCredentials';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
 
   try {
-    const { testNumber, user, password, from } = req.body;
+    const { testNumber } = req.body;
 
-    if (!testNumber || !user || !password) {
-      return res.status(400).json({ message: 'Missing required fields: testNumber, user, password' });
+    if (!testNumber) {
+      return res.status(400).json({ message: 'Missing required field: testNumber' });
     }
 
-    const testMessage = `Test SMS from ${from || 'ECOMMERCE'}. Your SMS configuration is working correctly! Time: ${new Date().toLocaleString()}`;
+    const config = await getStoreSMSConfig(req.tenantId);
+    if (!config) {
+      return res.status(400).json({ message: 'Set up SMS Bangladesh in Settings first' });
+    }
+
+    const testMessage = `Test SMS from ${config.from}. Your SMS configuration is working correctly! Time: ${new Date().toLocaleString()}`;
     
-    const result = await sendSMSBangladesh(
-      {
-        baseUrl: 'https://panel.smsbangladesh.com/api',
-        user,
-        password,
-        from: from || 'ECOMMERCE'
-      },
-      [testNumber],
-      testMessage
-    );
+    const result = await sendSMSBangladesh(config, [testNumber], testMessage);
 
     return res.status(200).json(result);
   } catch (error) {
@@ -35,3 +33,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
@@ -0,0 +1,73 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import { validateStaffInput } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid member ID' });
+  }
+
+  try {
+    const member = await prisma.storeMember.findFirst({
+      where: { id, storeId: req.tenantId }
+    });
+
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    // The owner's membership is fixed, members cannot change their own access
+    // and only the owner manages managers
+    if (member.role === 'OWNER') {
+      return res.status(403).json({ error: 'The store owner cannot be changed' });
+    }
+    if (member.userId === req.user.id) {
+      return res.status(403).json({ error: 'You cannot change your own access' });
+    }
+    if (member.role === 'MANAGER' && req.storeRole !== 'OWNER') {
+      return res.status(403).json({ error: 'Only the store owner can change managers' });
+    }
+
+    switch (req.method) {
+      case 'PUT': {
+        const { data, errors } = validateStaffInput(req.body, req.storeRole);
+        if (errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid member', details: errors });
+        }
+
+        const updatedMember = await prisma.storeMember.update({
+          where: { id },
+          data,
+          include: {
+            user: {
+              select: { id: true, email: true, firstName: true, lastName: true }
+            }
+          }
+        });
+
+        return res.status(200).json({ member: updatedMember });
+      }
+
+      case 'DELETE':
+        await prisma.storeMember.delete({
+          where: { id }
+        });
+
+        return res.status(200).json({ message: 'Member removed' });
+
+      default:
+        res.setHeader('Allow', ['PUT', 'DELETE']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Admin staff member API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('MANAGE_SETTINGS', handler);
@@ -0,0 +1,135 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+import { ROLE_LABELS, validateStaffInput } from '@/lib/permissions';
+import { isEmailConfigured } from '@/lib/email';
+import { enqueueJob } from '@/lib/jobs';
+
+const prisma = new PrismaClient();
+
+// How long an invitation link stays valid
+const INVITATION_DAYS = 7;
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await getStaff(req, res);
+      case 'POST':
+        return await inviteStaff(req, res);
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Admin staff API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+async function getStaff(req: StoreApiRequest, res: NextApiResponse) {
+  const [members, invitations] = await Promise.all([
+    prisma.storeMember.findMany({
+      where: { storeId: req.tenantId },
+      include: {
+        user: {
+          select: { id: true, email: true, firstName: true, lastName: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    }),
+    prisma.storeInvitation.findMany({
+      where: {
+        storeId: req.tenantId,
+        acceptedAt: null,
+        expiresAt: { gt: new Date() }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+  ]);
+
+  return res.status(200).json({
+    members,
+    invitations: invitations.map(invitation => ({
+      ...invitation,
+      inviteUrl: getInviteUrl(req, invitation.token)
+    }))
+  });
+}
+
+async function inviteStaff(req: StoreApiRequest, res: NextApiResponse) {
+  const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+  const { data, errors } = validateStaffInput(req.body, req.storeRole);
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    errors.unshift('A valid email is required');
+  }
+
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid invitation', details: errors });
+  }
+
+  const existingMember = await prisma.storeMember.findFirst({
+    where: {
+      storeId: req.tenantId,
+      user: { email: { equals: email, mode: 'insensitive' } }
+    }
+  });
+
+  if (existingMember) {
+    return res.status(400).json({ error: 'This person is already a member of the store' });
+  }
+
+  // A new invitation replaces any that is still open for the same email
+  const invitation = await prisma.$transaction(async (tx) => {
+    await tx.storeInvitation.deleteMany({
+      where: { storeId: req.tenantId, email, acceptedAt: null }
+    });
+
+    return tx.storeInvitation.create({
+      data: {
+        storeId: req.tenantId,
+        email,
+        role: data.role,
+        permissions: data.permissions,
+        token: crypto.randomBytes(24).toString('hex'),
+        invitedById: req.user.id,
+        expiresAt: new Date(Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000)
+      }
+    });
+  });
+
+  const inviteUrl = getInviteUrl(req, invitation.token);
+
+  // Without SMTP the admin shares the link from the staff page instead
+  let emailQueued = false;
+  if (isEmailConfigured()) {
+    const store = await prisma.store.findUniqueOrThrow({ where: { id: req.tenantId } });
+    const inviter = `${req.user.firstName} ${req.user.lastName}`.trim() || req.user.email;
+
+    await enqueueJob('email.send', {
+      to: email,
+      subject: `You're invited to help run ${store.name}`,
+      text: `${inviter} has invited you to join ${store.name} as ${ROLE_LABELS[invitation.role]}.\n\n`
+        + `Accept the invitation here: ${inviteUrl}\n\n`
+        + `The link expires on ${invitation.expiresAt.toDateString()}.`
+    }, { storeId: req.tenantId, key: `staff-invitation:${invitation.id}` });
+    emailQueued = true;
+  }
+
+  return res.status(201).json({
+    invitation: {
+      ...invitation,
+      inviteUrl
+    },
+    emailQueued
+  });
+}
+
+// Invitations are accepted on the store's own site so the new member signs in there
+function getInviteUrl(req: StoreApiRequest, token: string): string {
+  const protocol = (req.headers['x-forwarded-proto'] as string) || 'http';
+  return `${protocol}://${req.headers.host}/invite/${token}`;
+}
+
+export default withStorePermission('MANAGE_SETTINGS', handler);
@@ -0,0 +1,35 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid invitation ID' });
+  }
+
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', ['DELETE']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { count } = await prisma.storeInvitation.deleteMany({
+      where: { id, storeId: req.tenantId, acceptedAt: null }
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    return res.status(200).json({ message: 'Invitation revoked' });
+  } catch (error) {
+    console.error('Admin staff invitation API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export default withStorePermission('MANAGE_SETTINGS', handler);
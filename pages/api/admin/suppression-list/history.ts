@@ -0,0 +1,68 @@
+import { NextApiResponse } from 'next';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { isSuppressionChannel } from '@/lib/suppressionList';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+/**
+ * The audit trail of the store's suppression list: every number added or
+ * removed, when, why and by whom
+ */
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const { channel, search, page = '1', limit = '50' } = req.query;
+
+  try {
+    const where: Prisma.SuppressionEventWhereInput = { storeId: req.tenantId };
+
+    if (isSuppressionChannel(channel)) {
+      where.channel = channel;
+    }
+
+    if (typeof search === 'string' && search) {
+      where.phoneNumber = { contains: search.replace(/\D/g, '') };
+    }
+
+    const take = Math.min(parseInt(limit as string) || 50, 200);
+    const skip = (Math.max(parseInt(page as string) || 1, 1) - 1) * take;
+
+    const [events, total] = await Promise.all([
+      prisma.suppressionEvent.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        skip,
+        take
+      }),
+      prisma.suppressionEvent.count({ where })
+    ]);
+
+    // Names of the admins who made changes by hand
+    const userIds = Array.from(new Set(events.map(event => event.userId).filter((id): id is string => !!id)));
+    const users = userIds.length > 0
+      ? await prisma.user.findMany({ where: { id: { in: userIds } }, select: { id: true, firstName: true, lastName: true, email: true } })
+      : [];
+
+    return res.status(200).json({
+      events: events.map(event => ({
+        ...event,
+        user: users.find(user => user.id === event.userId) || null
+      })),
+      pagination: {
+        page: Math.floor(skip / take) + 1,
+        limit: take,
+        total,
+        pages: Math.ceil(total / take)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching suppression history:', error);
+    return res.status(500).json({ message: 'Failed to fetch suppression history' });
+  }
+}
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
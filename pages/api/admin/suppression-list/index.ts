@@ -0,0 +1,127 @@
+import { NextApiResponse } from 'next';
+import { Prisma, PrismaClient, SuppressionChannel } from '@prisma/client';
+import { normalizeCustomerPhone } from '@/lib/customerSegments';
+import { isSuppressionChannel, restoreNumber, suppressNumber, SUPPRESSION_CHANNELS } from '@/lib/suppressionList';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+// Numbers an admin can add in one go
+const MAX_MANUAL_NUMBERS = 1000;
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  try {
+    switch (req.method) {
+      case 'GET':
+        return await getSuppressedNumbers(req, res);
+      case 'POST':
+        return await addSuppressedNumbers(req, res);
+      case 'DELETE':
+        return await removeSuppressedNumber(req, res);
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+        return res.status(405).json({ message: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Suppression list API error:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+}
+
+async function getSuppressedNumbers(req: StoreApiRequest, res: NextApiResponse) {
+  const { channel, search, page = '1', limit = '50' } = req.query;
+  const where: Prisma.SuppressedNumberWhereInput = { storeId: req.tenantId };
+
+  if (isSuppressionChannel(channel)) {
+    where.channel = channel;
+  }
+
+  if (typeof search === 'string' && search) {
+    where.phoneNumber = { contains: search.replace(/\D/g, '') };
+  }
+
+  const take = Math.min(parseInt(limit as string) || 50, 200);
+  const skip = (Math.max(parseInt(page as string) || 1, 1) - 1) * take;
+
+  const [numbers, total] = await Promise.all([
+    prisma.suppressedNumber.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      skip,
+      take
+    }),
+    prisma.suppressedNumber.count({ where })
+  ]);
+
+  return res.status(200).json({
+    numbers,
+    pagination: {
+      page: Math.floor(skip / take) + 1,
+      limit: take,
+      total,
+      pages: Math.ceil(total / take)
+    }
+  });
+}
+
+/**
+ * Add numbers by hand, on one channel or both
+ */
+async function addSuppressedNumbers(req: StoreApiRequest, res: NextApiResponse) {
+  const { phoneNumbers, channel, note } = req.body;
+
+  const channels: SuppressionChannel[] = channel === 'ALL' ? SUPPRESSION_CHANNELS : isSuppressionChannel(channel) ? [channel] : [];
+  if (channels.length === 0) {
+    return res.status(400).json({ message: 'channel must be SMS, WHATSAPP or ALL' });
+  }
+
+  const entered: string[] = Array.isArray(phoneNumbers)
+    ? phoneNumbers.map(String)
+    : typeof phoneNumbers === 'string' ? phoneNumbers.split(/[,\n]/) : [];
+  const numbers = entered.map(num => num.trim()).filter(num => num.length > 0);
+
+  if (numbers.length === 0) {
+    return res.status(400).json({ message: 'Enter at least one phone number' });
+  }
+  if (numbers.length > MAX_MANUAL_NUMBERS) {
+    return res.status(400).json({ message: `Add at most ${MAX_MANUAL_NUMBERS} numbers at a time` });
+  }
+
+  const invalid = numbers.filter(num => !normalizeCustomerPhone(num));
+  if (invalid.length > 0) {
+    return res.status(400).json({ message: `Not phone numbers: ${invalid.slice(0, 5).join(', ')}` });
+  }
+
+  const detail = typeof note === 'string' && note.trim() ? note.trim().slice(0, 500) : undefined;
+  let added = 0;
+  for (const phoneNumber of numbers) {
+    for (const suppressionChannel of channels) {
+      if (await suppressNumber(req.tenantId, suppressionChannel, phoneNumber, 'MANUAL', { detail, userId: req.user.id })) {
+        added++;
+      }
+    }
+  }
+
+  return res.status(201).json({ added, alreadySuppressed: numbers.length * channels.length - added });
+}
+
+/**
+ * Take a number off the list, so campaigns reach it again
+ */
+async function removeSuppressedNumber(req: StoreApiRequest, res: NextApiResponse) {
+  const { channel, phoneNumber, note } = req.body;
+
+  if (!isSuppressionChannel(channel) || typeof phoneNumber !== 'string') {
+    return res.status(400).json({ message: 'channel and phoneNumber are required' });
+  }
+
+  const detail = typeof note === 'string' && note.trim() ? note.trim().slice(0, 500) : undefined;
+  const removed = await restoreNumber(req.tenantId, channel, phoneNumber, 'MANUAL', { detail, userId: req.user.id });
+  if (!removed) {
+    return res.status(404).json({ message: 'The number is not on the suppression list' });
+  }
+
+  return res.status(200).json({ message: 'Number removed from the suppression list' });
+}
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
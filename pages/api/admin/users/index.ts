@@ -1,42 +1,18 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import { PrismaClient } from '@prisma/client';
+import { NextApiResponse } from 'next';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
-const prisma = new PrismaClient();
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   try {
     if (req.method === 'GET') {
-      // Get adminId from query parameter (passed from subdomain context)
-      const { adminId, page = 1, limit = 10, search, role } = req.query;
-      
-      if (!adminId) {
-        return res.status(400).json({ error: 'adminId is required' });
-      }
+      const { page = 1, limit = 10, search, role } = req.query;
+      const adminId = req.tenantId;
 
       const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
       const take = parseInt(limit as string);
 
+      // The store's client limits this to customers who signed up with or ordered from the store
       const where: any = {};
 
-      // Only show users who have made orders for products from this admin
-      // OR users who registered through this subdomain (if we track that)
-      where.OR = [
-        {
-          // Users who have ordered from this admin's products
-          orders: {
-            some: {
-              orderItems: {
-                some: {
-                  product: {
-                    createdBy: adminId as string
-                  }
-                }
-              }
-            }
-          }
-        }
-      ];
-
       if (role && role !== 'all') {
         where.role = role as string;
       }
@@ -55,7 +31,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
 
       const [users, total] = await Promise.all([
-        prisma.user.findMany({
+        req.db.user.findMany({
           where,
           select: {
             id: true,
@@ -67,28 +43,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             _count: {
               select: {
                 orders: {
-                  where: {
-                    orderItems: {
-                      some: {
-                        product: {
-                          createdBy: adminId as string
-                        }
-                      }
-                    }
-                  }
+                  where: { storeId: adminId }
                 }
               }
             },
             orders: {
-              where: {
-                orderItems: {
-                  some: {
-                    product: {
-                      createdBy: adminId as string
-                    }
-                  }
-                }
-              },
+              where: { storeId: adminId },
               select: {
                 total: true
               }
@@ -98,7 +58,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           skip,
           take
         }),
-        prisma.user.count({ where })
+        req.db.user.count({ where })
       ]);
 
       // Transform the data to include totalOrders and totalSpent
@@ -134,3 +94,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export default withStorePermission('VIEW_REPORTS', handler);
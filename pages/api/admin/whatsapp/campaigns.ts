@@ -1,19 +1,14 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
-import WhatsAppBusinessAPI, { parseWhatsAppRecipients, validateWhatsAppMessage } from '../../../../lib/whatsapp-business';
+import { parseWhatsAppRecipients, validateWhatsAppMessage } from '../../../../lib/whatsapp-business';
+import { getWhatsAppCampaignJobKey, getStoreTimeZone, parseScheduledAt, scheduleWhatsAppCampaignSend } from '@/lib/campaignScheduler';
+import { getSegmentRecipients } from '@/lib/customerSegments';
+import { enqueueJob } from '@/lib/jobs';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
 const prisma = new PrismaClient();
 
-// WhatsApp Business API Configuration
-const getWhatsAppConfig = () => ({
-  accessToken: process.env.WHATSAPP_ACCESS_TOKEN || '',
-  phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID || '',
-  businessAccountId: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID || '',
-  webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN || '',
-  apiVersion: process.env.WHATSAPP_API_VERSION || 'v23.0'
-});
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   try {
     switch (req.method) {
       case 'GET':
@@ -32,9 +27,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function handleGetCampaigns(req: NextApiRequest, res: NextApiResponse) {
+async function handleGetCampaigns(req: StoreApiRequest, res: NextApiResponse) {
   try {
     const campaigns = await prisma.whatsAppCampaign.findMany({
+      where: { storeId: req.tenantId },
       orderBy: { createdAt: 'desc' },
       include: {
         user: {
@@ -44,6 +40,9 @@ async function handleGetCampaigns(req: NextApiRequest, res: NextApiResponse) {
             email: true
           }
         },
+        segment: {
+          select: { id: true, name: true }
+        },
         logs: {
           orderBy: { createdAt: 'desc' },
           take: 5
@@ -51,7 +50,10 @@ async function handleGetCampaigns(req: NextApiRequest, res: NextApiResponse) {
       }
     });
 
-    return res.status(200).json({ campaigns });
+    // Scheduled times are entered and shown in the store's time zone
+    const timeZone = await getStoreTimeZone(req.tenantId);
+
+    return res.status(200).json({ campaigns, timeZone });
   } catch (error) {
     console.error('Error fetching WhatsApp campaigns:', error);
     return res.status(500).json({ 
@@ -61,7 +63,7 @@ async function handleGetCampaigns(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-async function handleCreateCampaign(req: NextApiRequest, res: NextApiResponse) {
+async function handleCreateCampaign(req: StoreApiRequest, res: NextApiResponse) {
   try {
     const {
       name,
@@ -72,19 +74,25 @@ async function handleCreateCampaign(req: NextApiRequest, res: NextApiResponse) {
       mediaUrl,
       mediaType,
       recipients,
-      scheduledAt,
+      segmentId,
       sendImmediately = false
     } = req.body;
 
     // Validation
-    if (!name || !messageType || !recipients) {
+    if (!name || !messageType || (!recipients && !segmentId)) {
       return res.status(400).json({ 
-        message: 'Missing required fields: name, messageType, recipients' 
+        message: 'Missing required fields: name, messageType, recipients or segmentId' 
       });
     }
 
+    // A segment's recipients are looked up again when the campaign is sent
+    const segmentRecipients = segmentId ? await getSegmentRecipients(req.tenantId, String(segmentId)) : null;
+    if (segmentId && !segmentRecipients) {
+      return res.status(400).json({ message: 'Segment not found' });
+    }
+
     // Parse and validate recipients
-    const recipientNumbers = parseWhatsAppRecipients(recipients);
+    const recipientNumbers = segmentRecipients || parseWhatsAppRecipients(recipients);
     if (recipientNumbers.length === 0) {
       return res.status(400).json({ 
         message: 'No valid phone numbers found in recipients' 
@@ -110,63 +118,70 @@ async function handleCreateCampaign(req: NextApiRequest, res: NextApiResponse) {
       return res.status(400).json({ message: 'Media URL and type are required for MEDIA type' });
     }
 
-    // Create campaign in database
-    const campaign = await prisma.whatsAppCampaign.create({
-      data: {
-        name,
-        messageType,
-        textMessage,
-        templateName,
-        templateParams,
-        mediaUrl,
-        mediaType,
-        recipients: recipientNumbers,
-        totalCount: recipientNumbers.length,
-        scheduledAt: scheduledAt ? new Date(scheduledAt) : null,
-        status: sendImmediately ? 'SENT' : (scheduledAt ? 'SCHEDULED' : 'DRAFT')
-      }
-    });
+    const { scheduledAt, error } = sendImmediately
+      ? { scheduledAt: null, error: undefined }
+      : parseScheduledAt(req.body.scheduledAt, await getStoreTimeZone(req.tenantId));
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
 
-    // Log campaign creation
-    await prisma.whatsAppCampaignLog.create({
-      data: {
-        campaignId: campaign.id,
-        action: 'CREATED',
-        details: {
+    // Create campaign in database, queueing its send when it goes out now or later
+    const { campaign, job } = await prisma.$transaction(async (tx) => {
+      const created = await tx.whatsAppCampaign.create({
+        data: {
+          name,
           messageType,
-          recipientCount: recipientNumbers.length,
-          sendImmediately,
-          scheduledAt
+          textMessage,
+          templateName,
+          templateParams,
+          mediaUrl,
+          mediaType,
+          recipients: segmentRecipients ? [] : recipientNumbers,
+          segmentId: segmentRecipients ? String(segmentId) : null,
+          totalCount: recipientNumbers.length,
+          storeId: req.tenantId,
+          createdBy: req.user.id,
+          scheduledAt,
+          status: sendImmediately ? 'SENDING' : (scheduledAt ? 'SCHEDULED' : 'DRAFT')
         }
-      }
-    });
+      });
 
-    // Send immediately if requested
-    if (sendImmediately) {
-      try {
-        await sendCampaign(campaign.id);
-        return res.status(201).json({ 
-          message: 'Campaign created and sent successfully', 
-          campaign 
-        });
-      } catch (error) {
-        // Update campaign status to failed
-        await prisma.whatsAppCampaign.update({
-          where: { id: campaign.id },
-          data: { status: 'FAILED' }
-        });
+      // Log campaign creation
+      await tx.whatsAppCampaignLog.create({
+        data: {
+          campaignId: created.id,
+          action: 'CREATED',
+          details: {
+            messageType,
+            recipientCount: recipientNumbers.length,
+            sendImmediately,
+            scheduledAt
+          },
+          userId: req.user.id
+        }
+      });
 
-        return res.status(500).json({ 
-          message: 'Campaign created but failed to send', 
-          error: error instanceof Error ? error.message : 'Unknown error',
-          campaign 
-        });
+      if (sendImmediately) {
+        return {
+          campaign: created,
+          job: await enqueueJob('whatsapp-campaign.send', { campaignId: created.id }, {
+            storeId: req.tenantId,
+            key: getWhatsAppCampaignJobKey(created.id)
+          }, tx)
+        };
+      }
+
+      if (scheduledAt) {
+        await scheduleWhatsAppCampaignSend(created.id, req.tenantId, scheduledAt, tx);
       }
-    }
+
+      return { campaign: created, job: null };
+    });
 
     return res.status(201).json({ 
-      message: 'Campaign created successfully', 
-      campaign 
+      message: job ? 'Campaign created and queued for sending' : 'Campaign created successfully', 
+      campaign,
+      jobId: job?.id
     });
 
   } catch (error) {
@@ -178,87 +193,4 @@ async function handleCreateCampaign(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-// Helper function to send a campaign
-async function sendCampaign(campaignId: string) {
-  const config = getWhatsAppConfig();
-  
-  if (!config.accessToken || !config.phoneNumberId) {
-    throw new Error('WhatsApp API configuration is missing');
-  }
-
-  const whatsappAPI = new WhatsAppBusinessAPI(config);
-
-  const campaign = await prisma.whatsAppCampaign.findUnique({
-    where: { id: campaignId }
-  });
-
-  if (!campaign) {
-    throw new Error('Campaign not found');
-  }
-
-  let messageData: any;
-  let messageType: 'text' | 'template' | 'media';
-
-  // Prepare message data based on campaign type
-  switch (campaign.messageType) {
-    case 'TEXT':
-      messageType = 'text';
-      messageData = { message: campaign.textMessage };
-      break;
-    case 'TEMPLATE':
-      messageType = 'template';
-      messageData = {
-        templateName: campaign.templateName,
-        languageCode: 'en',
-        components: campaign.templateParams ? JSON.parse(campaign.templateParams as string) : undefined
-      };
-      break;
-    case 'MEDIA':
-      messageType = 'media';
-      messageData = {
-        mediaType: campaign.mediaType?.toLowerCase(),
-        mediaUrl: campaign.mediaUrl,
-        caption: campaign.textMessage // Use text message as caption for media
-      };
-      break;
-    default:
-      throw new Error(`Unsupported message type: ${campaign.messageType}`);
-  }
-
-  // Send bulk messages
-  const result = await whatsappAPI.sendBulkMessages(
-    campaign.recipients,
-    messageType,
-    messageData,
-    2000 // 2 second delay between messages
-  );
-
-  // Update campaign status and counts
-  await prisma.whatsAppCampaign.update({
-    where: { id: campaignId },
-    data: {
-      status: result.failed.length === 0 ? 'SENT' : (result.successful.length > 0 ? 'SENT' : 'FAILED'),
-      sentAt: new Date(),
-      deliveredCount: result.successful.length,
-      failedCount: result.failed.length,
-      failedNumbers: result.failed.map(f => f.phoneNumber),
-      apiResponse: result
-    }
-  });
-
-  // Log the send action
-  await prisma.whatsAppCampaignLog.create({
-    data: {
-      campaignId,
-      action: 'SENT',
-      details: {
-        successfulCount: result.successful.length,
-        failedCount: result.failed.length,
-        successful: result.successful,
-        failed: result.failed
-      }
-    }
-  });
-
-  return result;
-}
+export default withStorePermission('SEND_CAMPAIGNS', handler);
@@ -1,10 +1,18 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
-import WhatsAppBusinessAPI from '../../../../../lib/whatsapp-business';
+import {
+  getStoreTimeZone,
+  getWhatsAppCampaignJobKey,
+  parseScheduledAt,
+  scheduleWhatsAppCampaignSend,
+  unscheduleCampaignSend
+} from '@/lib/campaignScheduler';
+import { getSegmentRecipients } from '@/lib/customerSegments';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
 const prisma = new PrismaClient();
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   const { id } = req.query;
 
   if (!id || typeof id !== 'string') {
@@ -31,10 +39,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function handleGetCampaign(req: NextApiRequest, res: NextApiResponse, id: string) {
+async function handleGetCampaign(req: StoreApiRequest, res: NextApiResponse, id: string) {
   try {
-    const campaign = await prisma.whatsAppCampaign.findUnique({
-      where: { id },
+    const campaign = await prisma.whatsAppCampaign.findFirst({
+      where: { id, storeId: req.tenantId },
       include: {
         user: {
           select: {
@@ -63,7 +71,7 @@ async function handleGetCampaign(req: NextApiRequest, res: NextApiResponse, id:
   }
 }
 
-async function handleUpdateCampaign(req: NextApiRequest, res: NextApiResponse, id: string) {
+async function handleUpdateCampaign(req: StoreApiRequest, res: NextApiResponse, id: string) {
   try {
     const {
       name,
@@ -73,13 +81,12 @@ async function handleUpdateCampaign(req: NextApiRequest, res: NextApiResponse, i
       templateParams,
       mediaUrl,
       mediaType,
-      recipients,
-      scheduledAt
+      recipients
     } = req.body;
 
     // Check if campaign exists and is editable
-    const existingCampaign = await prisma.whatsAppCampaign.findUnique({
-      where: { id }
+    const existingCampaign = await prisma.whatsAppCampaign.findFirst({
+      where: { id, storeId: req.tenantId }
     });
 
     if (!existingCampaign) {
@@ -90,6 +97,17 @@ async function handleUpdateCampaign(req: NextApiRequest, res: NextApiResponse, i
       return res.status(400).json({ message: 'Cannot update a campaign that has already been sent' });
     }
 
+    if (existingCampaign.status === 'SENDING') {
+      return res.status(409).json({ message: 'Campaign is already being sent' });
+    }
+
+    // scheduledAt reschedules the campaign; null cancels the schedule
+    const changesSchedule = req.body.scheduledAt !== undefined;
+    const { scheduledAt, error } = parseScheduledAt(req.body.scheduledAt, await getStoreTimeZone(req.tenantId));
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
     const updateData: any = {};
     
     if (name !== undefined) updateData.name = name;
@@ -99,30 +117,67 @@ async function handleUpdateCampaign(req: NextApiRequest, res: NextApiResponse, i
     if (templateParams !== undefined) updateData.templateParams = templateParams;
     if (mediaUrl !== undefined) updateData.mediaUrl = mediaUrl;
     if (mediaType !== undefined) updateData.mediaType = mediaType;
-    if (scheduledAt !== undefined) {
-      updateData.scheduledAt = scheduledAt ? new Date(scheduledAt) : null;
-      updateData.status = scheduledAt ? 'SCHEDULED' : 'DRAFT';
+    if (changesSchedule) {
+      updateData.scheduledAt = scheduledAt;
+      // Cancelling the schedule of a failed campaign leaves it failed
+      updateData.status = scheduledAt ? 'SCHEDULED' : (existingCampaign.status === 'SCHEDULED' ? 'DRAFT' : existingCampaign.status);
     }
     if (recipients !== undefined) {
       const recipientNumbers = recipients.split(/[,\n\r]/).map((phone: string) => phone.trim()).filter((phone: string) => phone.length > 0);
       updateData.recipients = recipientNumbers;
       updateData.totalCount = recipientNumbers.length;
+      updateData.segmentId = null;
+    } else if (req.body.segmentId) {
+      const segmentRecipients = await getSegmentRecipients(req.tenantId, String(req.body.segmentId));
+      if (!segmentRecipients) {
+        return res.status(400).json({ message: 'Segment not found' });
+      }
+
+      updateData.segmentId = String(req.body.segmentId);
+      updateData.recipients = [];
+      updateData.totalCount = segmentRecipients.length;
     }
 
-    const updatedCampaign = await prisma.whatsAppCampaign.update({
-      where: { id },
-      data: updateData
-    });
+    const updatedCampaign = await prisma.$transaction(async (tx) => {
+      // Guarded on the status read above so a campaign the job worker has started is left alone
+      const updated = await tx.whatsAppCampaign.updateMany({
+        where: { id, status: existingCampaign.status },
+        data: updateData
+      });
+      if (updated.count === 0) {
+        return null;
+      }
 
-    // Log the update
-    await prisma.whatsAppCampaignLog.create({
-      data: {
-        campaignId: id,
-        action: 'UPDATED',
-        details: { updatedFields: Object.keys(updateData) }
+      if (scheduledAt) {
+        await scheduleWhatsAppCampaignSend(id, req.tenantId, scheduledAt, tx);
+      } else if (changesSchedule) {
+        await unscheduleCampaignSend(getWhatsAppCampaignJobKey(id), tx);
       }
+
+      // Log the update
+      await tx.whatsAppCampaignLog.create({
+        data: {
+          campaignId: id,
+          action: !changesSchedule
+            ? 'UPDATED'
+            : scheduledAt
+              ? (existingCampaign.status === 'SCHEDULED' ? 'RESCHEDULED' : 'SCHEDULED')
+              : 'SCHEDULE_CANCELLED',
+          details: {
+            updatedFields: Object.keys(updateData),
+            ...(changesSchedule && { scheduledAt, previousScheduledAt: existingCampaign.scheduledAt })
+          },
+          userId: req.user.id
+        }
+      });
+
+      return tx.whatsAppCampaign.findUniqueOrThrow({ where: { id } });
     });
 
+    if (!updatedCampaign) {
+      return res.status(409).json({ message: 'Campaign is already being sent' });
+    }
+
     return res.status(200).json({ 
       message: 'Campaign updated successfully', 
       campaign: updatedCampaign 
@@ -137,17 +192,19 @@ async function handleUpdateCampaign(req: NextApiRequest, res: NextApiResponse, i
   }
 }
 
-async function handleDeleteCampaign(req: NextApiRequest, res: NextApiResponse, id: string) {
+async function handleDeleteCampaign(req: StoreApiRequest, res: NextApiResponse, id: string) {
   try {
     // Check if campaign exists
-    const existingCampaign = await prisma.whatsAppCampaign.findUnique({
-      where: { id }
+    const existingCampaign = await prisma.whatsAppCampaign.findFirst({
+      where: { id, storeId: req.tenantId }
     });
 
     if (!existingCampaign) {
       return res.status(404).json({ message: 'Campaign not found' });
     }
 
+    await unscheduleCampaignSend(getWhatsAppCampaignJobKey(id), prisma);
+
     // Delete campaign and its logs (cascade delete should handle logs)
     await prisma.whatsAppCampaign.delete({
       where: { id }
@@ -163,3 +220,5 @@ async function handleDeleteCampaign(req: NextApiRequest, res: NextApiResponse, i
     });
   }
 }
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
@@ -1,20 +1,16 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
-import WhatsAppBusinessAPI from '@/lib/whatsapp-business';
+import { getWhatsAppMessage } from '@/lib/campaignJobs';
+import { getWhatsAppCampaignJobKey } from '@/lib/campaignScheduler';
+import { enqueueJob } from '@/lib/jobs';
+import { hasStoreCredentials } from '@/lib/storeCredentials';
+import { requeueFailedWhatsAppMessages } from '@/lib/whatsappMessages';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
 
 const prisma = new PrismaClient();
 
-// WhatsApp Business API Configuration
-const getWhatsAppConfig = () => ({
-  accessToken: process.env.WHATSAPP_ACCESS_TOKEN || '',
-  phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID || '',
-  businessAccountId: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID || '',
-  webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN || '',
-  apiVersion: process.env.WHATSAPP_API_VERSION || 'v23.0'
-});
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   const { id } = req.query;
 
   if (!id || typeof id !== 'string') {
@@ -27,8 +23,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     // Check if campaign exists and is sendable
-    const campaign = await prisma.whatsAppCampaign.findUnique({
-      where: { id }
+    const campaign = await prisma.whatsAppCampaign.findFirst({
+      where: { id, storeId: req.tenantId }
     });
 
     if (!campaign) {
@@ -39,111 +35,56 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ message: 'Campaign has already been sent' });
     }
 
-    // Validate WhatsApp API configuration
-    const config = getWhatsAppConfig();
-    if (!config.accessToken || !config.phoneNumberId) {
-      return res.status(500).json({ 
-        message: 'WhatsApp API configuration is missing. Please check your environment variables.' 
-      });
+    if (campaign.status === 'SENDING') {
+      return res.status(409).json({ message: 'Campaign is already being sent' });
     }
 
-    const whatsappAPI = new WhatsAppBusinessAPI(config);
-
-    // Prepare message data based on campaign type
-    let messageData: any;
-    let messageType: 'text' | 'template' | 'media';
-
-    switch (campaign.messageType) {
-      case 'TEXT':
-        messageType = 'text';
-        messageData = { message: campaign.textMessage };
-        break;
-      case 'TEMPLATE':
-        messageType = 'template';
-        messageData = {
-          templateName: campaign.templateName,
-          languageCode: 'en',
-          components: campaign.templateParams ? JSON.parse(campaign.templateParams as string) : undefined
-        };
-        break;
-      case 'MEDIA':
-        messageType = 'media';
-        messageData = {
-          mediaType: campaign.mediaType?.toLowerCase(),
-          mediaUrl: campaign.mediaUrl,
-          caption: campaign.textMessage
-        };
-        break;
-      default:
-        return res.status(400).json({ message: `Unsupported message type: ${campaign.messageType}` });
+    if (!await hasStoreCredentials(req.tenantId, 'WHATSAPP_CLOUD')) {
+      return res.status(400).json({ message: 'Set up WhatsApp in Settings before sending' });
     }
 
-    // Update campaign status to sending
-    await prisma.whatsAppCampaign.update({
-      where: { id },
-      data: { status: 'SENT' } // We'll update this based on results
-    });
+    if (!getWhatsAppMessage(campaign)) {
+      return res.status(400).json({ message: `Unsupported message type: ${campaign.messageType}` });
+    }
 
-    // Send bulk messages
-    const result = await whatsappAPI.sendBulkMessages(
-      campaign.recipients,
-      messageType,
-      messageData,
-      2000 // 2 second delay between messages
-    );
-
-    // Update campaign with results
-    const finalStatus = result.failed.length === 0 ? 'SENT' : 
-                       (result.successful.length > 0 ? 'SENT' : 'FAILED');
-
-    await prisma.whatsAppCampaign.update({
-      where: { id },
-      data: {
-        status: finalStatus,
-        sentAt: new Date(),
-        deliveredCount: result.successful.length,
-        failedCount: result.failed.length,
-        failedNumbers: result.failed.map(f => f.phoneNumber),
-        apiResponse: result
+    // Messages go out with a pause between them, so the job worker sends the campaign
+    const job = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.whatsAppCampaign.updateMany({
+        where: { id, status: campaign.status },
+        data: { status: 'SENDING' }
+      });
+      if (claimed.count === 0) {
+        return null;
       }
-    });
 
-    // Log the send action
-    await prisma.whatsAppCampaignLog.create({
-      data: {
-        campaignId: id,
-        action: 'SENT',
-        details: {
-          successfulCount: result.successful.length,
-          failedCount: result.failed.length,
-          successful: result.successful,
-          failed: result.failed
-        }
-      }
+      // A failed campaign sent again only goes to the recipients it missed
+      await requeueFailedWhatsAppMessages(id, tx);
+
+      // A scheduled campaign's queued job is brought forward to now
+      const queued = await enqueueJob('whatsapp-campaign.send', { campaignId: id }, {
+        storeId: req.tenantId,
+        key: getWhatsAppCampaignJobKey(id),
+        replaceQueued: true
+      }, tx);
+
+      await tx.whatsAppCampaignLog.create({
+        data: { campaignId: id, action: 'QUEUED', details: { jobId: queued.id }, userId: req.user.id }
+      });
+
+      return queued;
     });
 
-    return res.status(200).json({
-      message: `Campaign sent successfully. ${result.successful.length} delivered, ${result.failed.length} failed.`,
-      result: {
-        successfulCount: result.successful.length,
-        failedCount: result.failed.length,
-        successful: result.successful,
-        failed: result.failed
-      }
+    if (!job) {
+      return res.status(409).json({ message: 'Campaign is already being sent' });
+    }
+
+    return res.status(202).json({
+      message: 'Campaign queued for sending',
+      jobId: job.id
     });
 
   } catch (error) {
     console.error('Error sending WhatsApp campaign:', error);
-    
-    // Update campaign status to failed
-    try {
-      await prisma.whatsAppCampaign.update({
-        where: { id },
-        data: { status: 'FAILED' }
-      });
-    } catch (updateError) {
-      console.error('Error updating campaign status to failed:', updateError);
-    }
 
     return res.status(500).json({ 
       message: 'Failed to send campaign',
@@ -151,3 +92,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
@@ -1,25 +1,25 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
+import { getStoreWhatsAppConfig } from '@/lib/storeCredentials';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
 
   try {
-    const config = {
-      accessToken: process.env.WHATSAPP_ACCESS_TOKEN,
-      phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
-      businessAccountId: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID,
-      webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN,
-      apiVersion: process.env.WHATSAPP_API_VERSION || 'v23.0'
+    const config = await getStoreWhatsAppConfig(req.tenantId) || {
+      accessToken: '',
+      phoneNumberId: '',
+      businessAccountId: '',
+      webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN || '',
+      apiVersion: 'v23.0'
     };
 
-    // Check configuration status
+    // Check configuration status; the token itself is never sent back
     const configStatus = {
       accessToken: {
-        present: !!config.accessToken,
-        length: config.accessToken ? config.accessToken.length : 0,
-        preview: config.accessToken ? `${config.accessToken.substring(0, 20)}...` : 'missing'
+        present: !!config.accessToken
       },
       phoneNumberId: {
         present: !!config.phoneNumberId,
@@ -127,19 +127,19 @@ function getNextSteps(configStatus: any): string[] {
   const steps: string[] = [];
 
   if (!configStatus.accessToken.present) {
-    steps.push('Add WHATSAPP_ACCESS_TOKEN to your .env file');
+    steps.push('Add your WhatsApp access token under Settings → SMS & WhatsApp');
   }
 
   if (!configStatus.phoneNumberId.present) {
-    steps.push('Add WHATSAPP_PHONE_NUMBER_ID to your .env file (find this in Facebook Developers Console → WhatsApp → Getting Started)');
+    steps.push('Add your phone number ID under Settings → SMS & WhatsApp (find this in Facebook Developers Console → WhatsApp → Getting Started)');
   }
 
   if (!configStatus.businessAccountId.present) {
-    steps.push('Add WHATSAPP_BUSINESS_ACCOUNT_ID to your .env file (find this in WhatsApp Manager or API Setup)');
+    steps.push('Add your business account ID under Settings → SMS & WhatsApp (find this in WhatsApp Manager or API Setup)');
   }
 
   if (!configStatus.webhookVerifyToken.present) {
-    steps.push('Add WHATSAPP_WEBHOOK_VERIFY_TOKEN to your .env file (create a secure random string)');
+    steps.push('Ask the platform administrator to set WHATSAPP_WEBHOOK_VERIFY_TOKEN');
   }
 
   if (steps.length === 0) {
@@ -148,3 +148,5 @@ function getNextSteps(configStatus: any): string[] {
 
   return steps;
 }
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
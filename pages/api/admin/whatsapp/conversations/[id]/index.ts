@@ -0,0 +1,67 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { canReplyToConversation, findConversationOrders, getReplyWindowEnd } from '@/lib/whatsappInbox';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+// Messages shown when a conversation is opened, newest last
+const MESSAGE_LIMIT = 200;
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ message: 'Conversation ID is required' });
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const conversation = await prisma.whatsAppConversation.findFirst({
+      where: { id, storeId: req.tenantId }
+    });
+
+    if (!conversation) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+
+    const [latest, orders] = await Promise.all([
+      prisma.whatsAppConversationMessage.findMany({
+        where: { conversationId: id },
+        include: {
+          sentBy: {
+            select: { firstName: true, lastName: true }
+          }
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: MESSAGE_LIMIT
+      }),
+      findConversationOrders(conversation)
+    ]);
+
+    // Opening a conversation reads it
+    if (conversation.unreadCount > 0) {
+      await prisma.whatsAppConversation.update({
+        where: { id },
+        data: { unreadCount: 0 }
+      });
+    }
+
+    return res.status(200).json({
+      conversation: { ...conversation, unreadCount: 0 },
+      messages: latest.reverse(),
+      orders,
+      canReply: canReplyToConversation(conversation),
+      replyWindowEndsAt: getReplyWindowEnd(conversation)
+    });
+  } catch (error) {
+    console.error('Error fetching WhatsApp conversation:', error);
+    return res.status(500).json({ message: 'Failed to fetch conversation' });
+  }
+}
+
+export default withStorePermission('FULFIL_ORDERS', handler);
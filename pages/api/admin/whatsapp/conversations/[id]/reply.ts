@@ -0,0 +1,103 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { getStoreWhatsAppConfig } from '@/lib/storeCredentials';
+import WhatsAppBusinessAPI from '@/lib/whatsapp-business';
+import { canReplyToConversation } from '@/lib/whatsappInbox';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+// Cloud API limit for a text message body
+const MAX_REPLY_LENGTH = 4096;
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ message: 'Conversation ID is required' });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const text = typeof req.body?.text === 'string' ? req.body.text.trim() : '';
+  if (!text) {
+    return res.status(400).json({ message: 'Reply text is required' });
+  }
+
+  if (text.length > MAX_REPLY_LENGTH) {
+    return res.status(400).json({ message: `Reply cannot exceed ${MAX_REPLY_LENGTH} characters` });
+  }
+
+  try {
+    const conversation = await prisma.whatsAppConversation.findFirst({
+      where: { id, storeId: req.tenantId }
+    });
+
+    if (!conversation) {
+      return res.status(404).json({ message: 'Conversation not found' });
+    }
+
+    if (!canReplyToConversation(conversation)) {
+      return res.status(400).json({
+        message: 'The customer last wrote more than 24 hours ago. WhatsApp only allows template messages until they write again.'
+      });
+    }
+
+    const config = await getStoreWhatsAppConfig(req.tenantId);
+    if (!config) {
+      return res.status(400).json({ message: 'Set up WhatsApp in Settings before replying' });
+    }
+
+    // Answer from the number the customer wrote to
+    const whatsappAPI = new WhatsAppBusinessAPI({ ...config, phoneNumberId: conversation.phoneNumberId });
+
+    let providerMessageId: string | undefined;
+    let sendError: string | undefined;
+    try {
+      const result = await whatsappAPI.sendTextMessage(conversation.customerPhone, text);
+      providerMessageId = result.messages[0]?.id;
+    } catch (error) {
+      sendError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const sentAt = new Date();
+    const [message] = await prisma.$transaction([
+      prisma.whatsAppConversationMessage.create({
+        data: {
+          conversationId: id,
+          direction: 'OUTBOUND',
+          providerMessageId,
+          type: 'text',
+          text,
+          status: sendError ? 'FAILED' : 'SENT',
+          error: sendError,
+          sentById: req.user.id,
+          createdAt: sentAt
+        },
+        include: {
+          sentBy: {
+            select: { firstName: true, lastName: true }
+          }
+        }
+      }),
+      prisma.whatsAppConversation.update({
+        where: { id },
+        data: { lastMessageText: text, lastMessageAt: sentAt }
+      })
+    ]);
+
+    if (sendError) {
+      return res.status(502).json({ message: `Failed to send reply: ${sendError}`, reply: message });
+    }
+
+    return res.status(201).json({ reply: message });
+  } catch (error) {
+    console.error('Error replying to WhatsApp conversation:', error);
+    return res.status(500).json({ message: 'Failed to send reply' });
+  }
+}
+
+export default withStorePermission('FULFIL_ORDERS', handler);
@@ -0,0 +1,69 @@
+import { NextApiResponse } from 'next';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
+
+const prisma = new PrismaClient();
+
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
+  const { search, unread, page = '1', limit = '30' } = req.query;
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const where: Prisma.WhatsAppConversationWhereInput = { storeId: req.tenantId };
+
+    if (unread === 'true') {
+      where.unreadCount = { gt: 0 };
+    }
+
+    if (typeof search === 'string' && search) {
+      const digits = search.replace(/\D/g, '');
+      where.OR = [
+        { customerName: { contains: search, mode: 'insensitive' } },
+        ...(digits ? [{ customerPhone: { contains: digits } }] : [])
+      ];
+    }
+
+    const take = Math.min(parseInt(limit as string) || 30, 100);
+    const skip = (Math.max(parseInt(page as string) || 1, 1) - 1) * take;
+
+    const [conversations, total, unreadTotal, store] = await Promise.all([
+      prisma.whatsAppConversation.findMany({
+        where,
+        orderBy: [{ lastMessageAt: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+        skip,
+        take
+      }),
+      prisma.whatsAppConversation.count({ where }),
+      prisma.whatsAppConversation.aggregate({
+        where: { storeId: req.tenantId },
+        _sum: { unreadCount: true }
+      }),
+      prisma.store.findUnique({
+        where: { id: req.tenantId },
+        select: { whatsappPhoneNumberId: true }
+      })
+    ]);
+
+    return res.status(200).json({
+      conversations,
+      unreadTotal: unreadTotal._sum.unreadCount || 0,
+      // Inbound messages only reach a store once its number is connected
+      phoneNumberId: store?.whatsappPhoneNumberId || null,
+      pagination: {
+        page: Math.floor(skip / take) + 1,
+        limit: take,
+        total,
+        pages: Math.ceil(total / take)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching WhatsApp conversations:', error);
+    return res.status(500).json({ message: 'Failed to fetch conversations' });
+  }
+}
+
+export default withStorePermission('FULFIL_ORDERS', handler);
@@ -1,19 +1,12 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
 import WhatsAppBusinessAPI from '../../../../lib/whatsapp-business';
+import { getStoreWhatsAppConfig } from '@/lib/storeCredentials';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
 const prisma = new PrismaClient();
 
-// WhatsApp Business API Configuration
-const getWhatsAppConfig = () => ({
-  accessToken: process.env.WHATSAPP_ACCESS_TOKEN || '',
-  phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID || '',
-  businessAccountId: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID || '',
-  webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN || '',
-  apiVersion: process.env.WHATSAPP_API_VERSION || 'v23.0'
-});
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   try {
     switch (req.method) {
       case 'GET':
@@ -32,11 +25,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
-async function handleGetTemplates(req: NextApiRequest, res: NextApiResponse) {
+async function handleGetTemplates(req: StoreApiRequest, res: NextApiResponse) {
   try {
     // First try to get templates from Meta API
-    const config = getWhatsAppConfig();
-    if (config.accessToken && config.businessAccountId) {
+    const config = await getStoreWhatsAppConfig(req.tenantId);
+    if (config?.businessAccountId) {
       try {
         const whatsappAPI = new WhatsAppBusinessAPI(config);
         const metaTemplates = await whatsappAPI.getMessageTemplates();
@@ -82,7 +75,7 @@ async function handleGetTemplates(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-async function handleCreateTemplate(req: NextApiRequest, res: NextApiResponse) {
+async function handleCreateTemplate(req: StoreApiRequest, res: NextApiResponse) {
   try {
     const {
       name,
@@ -106,8 +99,8 @@ async function handleCreateTemplate(req: NextApiRequest, res: NextApiResponse) {
     }
 
     // Create template in Meta API first
-    const config = getWhatsAppConfig();
-    if (config.accessToken && config.businessAccountId) {
+    const config = await getStoreWhatsAppConfig(req.tenantId);
+    if (config?.businessAccountId) {
       try {
         const whatsappAPI = new WhatsAppBusinessAPI(config);
         const templateData = {
@@ -152,3 +145,5 @@ async function handleCreateTemplate(req: NextApiRequest, res: NextApiResponse) {
     });
   }
 }
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
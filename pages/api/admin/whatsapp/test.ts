@@ -1,16 +1,9 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import WhatsAppBusinessAPI, { validateWhatsAppMessage } from '../../../../lib/whatsapp-business';
+import { getStoreWhatsAppConfig } from '@/lib/storeCredentials';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
-// WhatsApp Business API Configuration
-const getWhatsAppConfig = () => ({
-  accessToken: process.env.WHATSAPP_ACCESS_TOKEN || '',
-  phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID || '',
-  businessAccountId: process.env.WHATSAPP_BUSINESS_ACCOUNT_ID || '',
-  webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN || '',
-  apiVersion: process.env.WHATSAPP_API_VERSION || 'v23.0'
-});
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
@@ -34,16 +27,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     // Check WhatsApp API configuration
-    const config = getWhatsAppConfig();
-    if (!config.accessToken || !config.phoneNumberId) {
-      return res.status(500).json({ 
-        message: 'WhatsApp API configuration is missing. Please check your environment variables.',
-        missingConfig: {
-          accessToken: !config.accessToken,
-          phoneNumberId: !config.phoneNumberId,
-          businessAccountId: !config.businessAccountId
-        }
-      });
+    const config = await getStoreWhatsAppConfig(req.tenantId);
+    if (!config) {
+      return res.status(400).json({ message: 'Set up WhatsApp in Settings before sending a test message' });
     }
 
     const whatsappAPI = new WhatsAppBusinessAPI(config);
@@ -63,8 +49,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       config: {
         phoneNumberId: config.phoneNumberId,
         businessAccountId: config.businessAccountId,
-        apiVersion: config.apiVersion,
-        hasAccessToken: !!config.accessToken
+        apiVersion: config.apiVersion
       }
     });
 
@@ -76,3 +61,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withStorePermission('SEND_CAMPAIGNS', handler);
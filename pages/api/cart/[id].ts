@@ -1,10 +1,12 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { getAvailableStock } from '@/lib/productVariants';
+import { TenantApiRequest, withTenant } from '@/middleware/tenant';
 const express = require('express');
 const { PrismaClient } = require('@prisma/client');
 
 const prisma = new PrismaClient();
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: TenantApiRequest, res: NextApiResponse) {
   // Add CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
@@ -24,6 +26,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const { id } = req.query;
   const userId = authResult.user.id;
 
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Invalid cart item ID' });
+  }
+
   try {
     if (req.method === 'PUT') {
       // Update cart item quantity
@@ -34,12 +40,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
 
       // Check if cart item exists and belongs to user
-      const cartItem = await prisma.cartItem.findFirst({
+      const cartItem = await req.db.cartItem.findFirst({
         where: {
           id: id,
           userId: userId
         },
-        include: { product: true }
+        include: { product: true, variant: true }
       });
 
       if (!cartItem) {
@@ -47,11 +53,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
 
       // Check stock availability
-      if (quantity > cartItem.product.stock) {
+      if (quantity > getAvailableStock(cartItem.product, cartItem.variant)) {
         return res.status(400).json({ error: 'Insufficient stock' });
       }
 
-      const updatedCartItem = await prisma.cartItem.update({
+      const updatedCartItem = await req.db.cartItem.update({
         where: { id: id },
         data: { quantity: quantity },
         include: {
@@ -60,17 +66,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               id: true,
               name: true,
               price: true,
-              imageUrl: true,
+              image: true,
               stock: true
             }
-          }
+          },
+          variant: true
         }
       });
 
       res.json(updatedCartItem);
     } else if (req.method === 'DELETE') {
       // Remove item from cart
-      const cartItem = await prisma.cartItem.findFirst({
+      const cartItem = await req.db.cartItem.findFirst({
         where: {
           id: id,
           userId: userId
@@ -81,7 +88,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         return res.status(404).json({ error: 'Cart item not found' });
       }
 
-      await prisma.cartItem.delete({
+      await req.db.cartItem.delete({
         where: { id: id }
       });
 
@@ -96,6 +103,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withTenant(handler);
+
 // Helper function to authenticate user
 async function authenticateUser(req: NextApiRequest) {
   try {
@@ -1,9 +1,11 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { getAvailableStock } from '@/lib/productVariants';
+import { TenantApiRequest, withTenant } from '@/middleware/tenant';
 const { PrismaClient } = require('@prisma/client');
 
 const prisma = new PrismaClient();
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: TenantApiRequest, res: NextApiResponse) {
   // Add CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
@@ -24,8 +26,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     if (req.method === 'GET') {
-      // Get user's cart items
-      const cartItems = await prisma.cartItem.findMany({
+      // Get user's cart items; a store's site only shows its own products
+      const cartItems = await req.db.cartItem.findMany({
         where: { userId: userId },
         include: {
           product: {
@@ -36,37 +38,57 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               image: true,
               stock: true
             }
-          }
+          },
+          variant: true
         }
       });
 
       res.json(cartItems);
     } else if (req.method === 'POST') {
       // Add item to cart
-      const { productId, quantity = 1 } = req.body;
+      const { productId, variantId = null, quantity = 1 } = req.body;
 
       if (!productId) {
         return res.status(400).json({ error: 'Product ID is required' });
       }
 
       // Check if product exists and has enough stock
-      const product = await prisma.product.findUnique({
-        where: { id: productId }
+      const product = await req.db.product.findUnique({
+        where: { id: productId },
+        include: {
+          variants: {
+            where: { isActive: true }
+          }
+        }
       });
 
       if (!product) {
         return res.status(404).json({ error: 'Product not found' });
       }
 
-      if (product.stock < quantity) {
+      let variant = null;
+      if (variantId) {
+        variant = product.variants.find((v: any) => v.id === variantId);
+        if (!variant) {
+          return res.status(404).json({ error: 'Product variant not found' });
+        }
+      } else if (product.variants.length > 0) {
+        return res.status(400).json({ error: 'Please select a product variant' });
+      }
+
+      const availableStock = getAvailableStock(product, variant);
+
+      if (availableStock < quantity) {
         return res.status(400).json({ error: 'Insufficient stock' });
       }
 
-      // Check if item already exists in cart
+      // Check if item already exists in cart. Looked up across stores so rows
+      // added before carts were split by store are picked up and stamped
       const existingCartItem = await prisma.cartItem.findFirst({
         where: {
           userId: userId,
-          productId: productId
+          productId: productId,
+          variantId: variantId
         }
       });
 
@@ -76,13 +98,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         // Update quantity if item exists
         const newQuantity = existingCartItem.quantity + quantity;
         
-        if (newQuantity > product.stock) {
+        if (newQuantity > availableStock) {
           return res.status(400).json({ error: 'Cannot add more items than available stock' });
         }
 
         cartItem = await prisma.cartItem.update({
           where: { id: existingCartItem.id },
-          data: { quantity: newQuantity },
+          data: { quantity: newQuantity, storeId: product.createdBy },
           include: {
             product: {
               select: {
@@ -92,15 +114,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 image: true,
                 stock: true
               }
-            }
+            },
+            variant: true
           }
         });
       } else {
         // Create new cart item
-        cartItem = await prisma.cartItem.create({
+        cartItem = await req.db.cartItem.create({
           data: {
             userId: userId,
             productId: productId,
+            variantId: variantId,
+            storeId: product.createdBy,
             quantity: quantity
           },
           include: {
@@ -112,7 +137,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 image: true,
                 stock: true
               }
-            }
+            },
+            variant: true
           }
         });
       }
@@ -120,7 +146,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       res.status(201).json(cartItem);
     } else if (req.method === 'DELETE') {
       // Clear entire cart
-      await prisma.cartItem.deleteMany({
+      await req.db.cartItem.deleteMany({
         where: { userId: userId }
       });
 
@@ -143,6 +169,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withTenant(handler);
+
 // Helper function to authenticate user
 async function authenticateUser(req: NextApiRequest) {
   try {
@@ -1,17 +1,10 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import { PrismaClient } from '@prisma/client';
+import { NextApiResponse } from 'next';
 import multer from 'multer';
 import { promisify } from 'util';
 import path from 'path';
 import fs from 'fs';
-import { withSubdomainCheck } from '@/middleware/subdomainCheck';
-
-const prisma = new PrismaClient();
-
-interface ExtendedNextApiRequest extends NextApiRequest {
-  subdomain?: string;
-  adminId?: string;
-}
+import { TenantApiRequest, withTenant } from '@/middleware/tenant';
+import { authorizeStoreMember } from '@/middleware/storePermissions';
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -46,7 +39,7 @@ const upload = multer({
 
 const uploadSingle = promisify(upload.single('image'));
 
-async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
+async function handler(req: TenantApiRequest, res: NextApiResponse) {
   const { id } = req.query;
 
   if (!id || typeof id !== 'string') {
@@ -56,18 +49,11 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
   try {
     switch (req.method) {
       case 'GET':
-        const where: any = { id };
-        
-        // If there's a subdomain, also filter by admin ID
-        if (req.adminId) {
-          where.createdBy = req.adminId;
-        }
-        
-        const category = await prisma.category.findUnique({
-          where,
+        const category = await req.db.category.findUnique({
+          where: { id },
           include: {
             products: {
-              where: req.adminId ? { createdBy: req.adminId } : {}
+              where: req.tenantId ? { createdBy: req.tenantId } : {}
             }
           }
         });
@@ -80,6 +66,11 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
         break;
 
       case 'PUT':
+        // Only staff who may manage products can change them
+        if (!(await authorizeStoreMember(req, res, 'MANAGE_PRODUCTS'))) {
+          return;
+        }
+
         try {
           // Handle file upload
           await uploadSingle(req as any, res as any);
@@ -87,7 +78,7 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
           const { name, description } = req.body;
           
           // Get existing category to handle old image deletion
-          const existingCategory = await prisma.category.findUnique({
+          const existingCategory = await req.db.category.findUnique({
             where: { id }
           });
           
@@ -110,7 +101,7 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
             }
           }
           
-          const updatedCategory = await prisma.category.update({
+          const updatedCategory = await req.db.category.update({
             where: { id },
             data: {
               ...(name && { name }),
@@ -127,8 +118,21 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
         break;
 
       case 'DELETE':
+        if (!(await authorizeStoreMember(req, res, 'MANAGE_PRODUCTS'))) {
+          return;
+        }
+
+        // For store requests, ensure the category belongs to the store
+        const categoryToDelete = await req.db.category.findUnique({
+          where: { id }
+        });
+        
+        if (!categoryToDelete) {
+          return res.status(404).json({ error: 'Category not found or access denied' });
+        }
+
         // Check if category has products
-        const productsCount = await prisma.product.count({
+        const productsCount = await req.db.product.count({
           where: { categoryId: id }
         });
 
@@ -138,22 +142,7 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
           });
         }
 
-      case 'DELETE':
-        // For subdomain requests, ensure the category belongs to the admin
-        const deleteWhere: any = { id };
-        if (req.adminId) {
-          deleteWhere.createdBy = req.adminId;
-        }
-        
-        const categoryToDelete = await prisma.category.findUnique({
-          where: deleteWhere
-        });
-        
-        if (!categoryToDelete) {
-          return res.status(404).json({ error: 'Category not found or access denied' });
-        }
-
-        await prisma.category.delete({
+        await req.db.category.delete({
           where: { id }
         });
 
@@ -170,7 +159,7 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default withSubdomainCheck(handler);
+export default withTenant(handler);
 
 export const config = {
   api: {
@@ -1,17 +1,10 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import { PrismaClient } from '@prisma/client';
+import { NextApiResponse } from 'next';
 import multer from 'multer';
 import { promisify } from 'util';
 import path from 'path';
 import fs from 'fs';
-import { withSubdomainCheck } from '@/middleware/subdomainCheck';
-
-const prisma = new PrismaClient();
-
-interface ExtendedNextApiRequest extends NextApiRequest {
-  subdomain?: string;
-  adminId?: string;
-}
+import { TenantApiRequest, withTenant } from '@/middleware/tenant';
+import { authorizeStoreMember } from '@/middleware/storePermissions';
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -46,22 +39,17 @@ const upload = multer({
 
 const uploadSingle = promisify(upload.single('image'));
 
-async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
+async function handler(req: TenantApiRequest, res: NextApiResponse) {
   try {
     switch (req.method) {
       case 'GET':
-        const { page = 1, limit = 10, search, adminId } = req.query;
+        const { page = 1, limit = 10, search } = req.query;
         
         const skip = (Number(page) - 1) * Number(limit);
         const take = Number(limit);
         
         const where: any = {};
         
-        // If there's a subdomain or adminId filter, add it to the where clause
-        if (req.adminId || adminId) {
-          where.createdBy = req.adminId || adminId;
-        }
-        
         if (search) {
           where.OR = [
             { name: { contains: search as string, mode: 'insensitive' } },
@@ -70,7 +58,7 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
         }
         
         const [categories, total] = await Promise.all([
-          prisma.category.findMany({
+          req.db.category.findMany({
             where,
             skip,
             take,
@@ -79,12 +67,12 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
                 select: {
                   id: true
                 },
-                where: req.adminId ? { createdBy: req.adminId } : {}
+                where: req.tenantId ? { createdBy: req.tenantId } : {}
               }
             },
             orderBy: { createdAt: 'desc' }
           }),
-          prisma.category.count({ where })
+          req.db.category.count({ where })
         ]);
         
         const categoriesWithProductCount = categories.map(category => ({
@@ -105,6 +93,11 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
         break;
         
       case 'POST':
+        // Only staff who may manage products can change them
+        if (!(await authorizeStoreMember(req, res, 'MANAGE_PRODUCTS'))) {
+          return;
+        }
+
         try {
           // Handle file upload
           await uploadSingle(req as any, res as any);
@@ -120,19 +113,13 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
             imagePath = `/uploads/categories/${(req as any).file.filename}`;
           }
           
-          // For subdomain requests, set the createdBy to the admin ID
-          const categoryData: any = {
-            name,
-            description: description || '',
-            image: imagePath
-          };
-          
-          if (req.adminId) {
-            categoryData.createdBy = req.adminId;
-          }
-          
-          const newCategory = await prisma.category.create({
-            data: categoryData
+          // Store requests get createdBy set to the store's admin
+          const newCategory = await req.db.category.create({
+            data: {
+              name,
+              description: description || '',
+              image: imagePath
+            }
           });
           
           res.status(201).json(newCategory);
@@ -152,7 +139,7 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default withSubdomainCheck(handler);
+export default withTenant(handler);
 
 export const config = {
   api: {
@@ -0,0 +1,97 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import { withSubdomainCheck } from '@/middleware/subdomainCheck';
+import { evaluateCoupon, loadCouponLineItems } from '@/lib/coupons';
+
+const prisma = new PrismaClient();
+
+interface ExtendedNextApiRequest extends NextApiRequest {
+  subdomain?: string;
+  adminId?: string;
+}
+
+/**
+ * Validate a coupon code against the customer's cart (or the given items for buy-now)
+ * and return the discount it would give. The order API re-validates on submit.
+ */
+async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { code, items, customerInfo } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ error: 'Coupon code is required' });
+    }
+
+    const userId = await getUserIdFromToken(req);
+    let lineInput: Array<{ productId: string; variantId?: string | null; quantity: number }> = [];
+
+    if (Array.isArray(items) && items.length > 0) {
+      lineInput = items;
+    } else if (userId) {
+      const cartItems = await prisma.cartItem.findMany({
+        where: { userId }
+      });
+      lineInput = cartItems.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity
+      }));
+    }
+
+    if (lineInput.length === 0) {
+      return res.status(400).json({ error: 'Cart is empty' });
+    }
+
+    const lines = await loadCouponLineItems(lineInput);
+    const result = await evaluateCoupon(code, lines, {
+      adminId: req.adminId,
+      customer: {
+        userId,
+        phone: customerInfo?.phone,
+        email: customerInfo?.email
+      }
+    });
+
+    if (!result.valid || !result.coupon) {
+      return res.status(400).json({ valid: false, error: result.error });
+    }
+
+    return res.status(200).json({
+      valid: true,
+      coupon: {
+        code: result.coupon.code,
+        type: result.coupon.type,
+        description: result.coupon.description
+      },
+      discount: result.discount,
+      freeShipping: result.coupon.type === 'FREE_SHIPPING',
+      eligibleSubtotal: result.eligibleSubtotal
+    });
+  } catch (error) {
+    console.error('Coupon validation error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Optional authentication - guests can validate coupons for buy-now items
+async function getUserIdFromToken(req: NextApiRequest): Promise<string | null> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ') || !process.env.JWT_SECRET) {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(authHeader.substring(7), process.env.JWT_SECRET) as { userId?: string };
+    return decoded.userId || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+export default withSubdomainCheck(handler);
@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { processCertificates } from '@/lib/certificates';
+
+/**
+ * Issues TLS certificates for newly activated custom domains and renews
+ * those close to expiry.
+ * Called by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!process.env.CRON_SECRET || req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const results = await processCertificates();
+
+    res.status(200).json({
+      processed: results.length,
+      issued: results.filter(result => result.status === 'ISSUED').length,
+      results
+    });
+  } catch (error) {
+    console.error('Certificates error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { runJobs } from '@/lib/jobs';
+
+// Stop claiming jobs early enough to finish inside the function timeout
+const TIME_BUDGET_MS = 20000;
+
+/**
+ * Runs due background jobs: campaign sends, domain verification and emails.
+ * Called by the scheduler, or by scripts/job-worker.js between runs, with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!process.env.CRON_SECRET || req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const results = await runJobs({ timeBudgetMs: TIME_BUDGET_MS });
+
+    res.status(200).json({
+      processed: results.length,
+      succeeded: results.filter(result => result.status === 'SUCCEEDED').length,
+      failed: results.filter(result => result.status === 'FAILED').length,
+      results
+    });
+  } catch (error) {
+    console.error('Job worker error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { pollProcessingRefunds } from '@/lib/refunds';
+
+/**
+ * Checks the payment gateways for refunds that are still processing.
+ * Called by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!process.env.CRON_SECRET || req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const checked = await pollProcessingRefunds();
+    res.status(200).json({ checked });
+  } catch (error) {
+    console.error('Poll refunds error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { cancelExpiredOrders } from '@/lib/orderStatus';
+
+/**
+ * Cancels unpaid online orders whose stock reservation has expired and
+ * releases their stock.
+ * Called by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!process.env.CRON_SECRET || req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const releasedOrderIds = await cancelExpiredOrders();
+
+    res.status(200).json({
+      released: releasedOrderIds.length,
+      orderIds: releasedOrderIds
+    });
+  } catch (error) {
+    console.error('Release reservations error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
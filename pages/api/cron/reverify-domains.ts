@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getDomainsDueForRecheck } from '@/lib/domainMonitor';
+import { enqueueJob } from '@/lib/jobs';
+
+/**
+ * Queues a DNS re-check of the verified and active custom domains checked
+ * longest ago; the job worker takes domains whose records disappeared out
+ * of service.
+ * Called by the scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!process.env.CRON_SECRET || req.headers.authorization !== `Bearer ${process.env.CRON_SECRET}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const domains = await getDomainsDueForRecheck();
+
+    const jobs = [];
+    for (const domain of domains) {
+      jobs.push(await enqueueJob('domain.recheck', { domainId: domain.id }, {
+        storeId: domain.storeId,
+        key: `domain-recheck:${domain.id}`
+      }));
+    }
+
+    res.status(200).json({
+      queued: jobs.length,
+      jobIds: jobs.map(job => job.id)
+    });
+  } catch (error) {
+    console.error('Re-verify domains error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
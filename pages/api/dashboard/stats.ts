@@ -1,15 +1,7 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import { PrismaClient } from '@prisma/client';
-import { withSubdomainCheck } from '@/middleware/subdomainCheck';
+import { NextApiResponse } from 'next';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
-const prisma = new PrismaClient();
-
-interface ExtendedNextApiRequest extends NextApiRequest {
-  subdomain?: string;
-  adminId?: string;
-}
-
-async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     res.setHeader('Allow', ['GET']);
     res.status(405).end(`Method ${req.method} Not Allowed`);
@@ -17,20 +9,9 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
   }
 
   try {
-    // Check if request is coming from an admin subdomain
-    const adminId = req.adminId;
-    
-    // Create filter conditions
-    const productFilter = adminId ? { createdBy: adminId } : {};
-    const orderFilter = adminId ? {
-      orderItems: {
-        some: {
-          product: {
-            createdBy: adminId
-          }
-        }
-      }
-    } : {};
+    // Products, orders and customers are limited to the store by its client;
+    // order items have no store of their own so they are filtered by order
+    const itemFilter = { order: { storeId: req.tenantId } };
     
     // Get dashboard statistics
     const [
@@ -40,15 +21,10 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
       recentOrders,
       topProducts
     ] = await Promise.all([
-      prisma.product.count({
-        where: productFilter
-      }),
-      prisma.order.count({
-        where: orderFilter
-      }),
-      prisma.user.count(),
-      prisma.order.findMany({
-        where: orderFilter,
+      req.db.product.count(),
+      req.db.order.count(),
+      req.db.user.count(),
+      req.db.order.findMany({
         take: 5,
         orderBy: { createdAt: 'desc' },
         include: {
@@ -60,8 +36,9 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
           }
         }
       }),
-      prisma.orderItem.groupBy({
+      req.db.orderItem.groupBy({
         by: ['productId'],
+        where: itemFilter,
         _sum: {
           quantity: true,
           price: true
@@ -79,21 +56,21 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
     ]);
 
     // Calculate total revenue
-    const totalRevenue = await prisma.order.aggregate({
-      where: orderFilter,
+    const totalRevenue = await req.db.order.aggregate({
       _sum: {
         total: true
       }
     });
 
     // Get product details for top products
-    const topProductIds = topProducts.map(p => p.productId);
-    const productDetails = await prisma.product.findMany({
+    const topProductIds = topProducts
+      .map(p => p.productId)
+      .filter((id): id is string => id !== null);
+    const productDetails = await req.db.product.findMany({
       where: {
         id: {
           in: topProductIds
-        },
-        ...productFilter
+        }
       }
     });
 
@@ -132,4 +109,4 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default withSubdomainCheck(handler);
+export default withStorePermission('VIEW_REPORTS', handler);
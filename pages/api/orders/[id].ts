@@ -49,6 +49,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             lastName: true,
             email: true
           }
+        },
+        statusEvents: {
+          select: {
+            id: true,
+            fromStatus: true,
+            toStatus: true,
+            actorType: true,
+            note: true,
+            createdAt: true
+          },
+          orderBy: { createdAt: 'asc' }
         }
       }
     });
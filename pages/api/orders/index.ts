@@ -1,9 +1,25 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { CouponError, redeemCoupon } from '@/lib/coupons';
+import { PricingError, PricingItemInput, priceOrder } from '@/lib/orderPricing';
+import { StockError, createReservations, decrementStock } from '@/lib/inventory';
+import { recordInitialStatus } from '@/lib/orderStatus';
+import { notifyOrderEvent, parseNotificationChannels } from '@/lib/orderNotifications';
+import { getEnabledPaymentProviders, resolvePaymentProvider } from '@/lib/payments';
+import {
+  formatShippingAddress,
+  parseShippingAddressInput,
+  savedAddressToInput,
+  shippingAddressToSaved,
+  validateShippingAddress
+} from '@/lib/addresses';
+import { getOrderTrackingUrl } from '@/lib/couriers';
+import { TenantError } from '@/lib/tenant';
+import { TenantApiRequest, withTenant } from '@/middleware/tenant';
 const { PrismaClient } = require('@prisma/client');
 
 const prisma = new PrismaClient();
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: TenantApiRequest, res: NextApiResponse) {
   // Add CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
@@ -29,7 +45,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
       const take = parseInt(limit as string);
 
-      const orders = await prisma.order.findMany({
+      // On a store's site customers only see that store's orders
+      const orders = await req.db.order.findMany({
         where: { userId: userId },
         include: {
           orderItems: {
@@ -40,8 +57,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                   name: true,
                   image: true
                 }
+              },
+              variant: {
+                select: {
+                  id: true,
+                  sku: true,
+                  options: true
+                }
               }
             }
+          },
+          address: true,
+          statusEvents: {
+            select: {
+              id: true,
+              fromStatus: true,
+              toStatus: true,
+              actorType: true,
+              note: true,
+              createdAt: true
+            },
+            orderBy: { createdAt: 'asc' }
           }
         },
         orderBy: { createdAt: 'desc' },
@@ -49,26 +85,39 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         take
       });
 
-      res.json(orders);
+      res.json(orders.map((order: any) => ({
+        ...order,
+        trackingUrl: getOrderTrackingUrl(order)
+      })));
     } else if (req.method === 'POST') {
       // Handle both cart-based orders and direct buy-now orders
       const { 
+ 
         shippingAddress, 
+        addressId,
+        saveAddress = false,
         paymentMethod, 
         items, 
-        total, 
+        total,
         customerInfo,
+        couponCode,
+        shippingDistrict,
+        notifications,
         isDirectOrder = false 
       } = req.body;
 
-      if (!shippingAddress || !paymentMethod) {
+      if ((!shippingAddress && !addressId) || !paymentMethod) {
         return res.status(400).json({ 
           error: 'Shipping address and payment method are required' 
         });
       }
 
-      let orderItems = [];
-      let orderTotal = 0;
+      const paymentProvider = resolvePaymentProvider(paymentMethod);
+      if (!paymentProvider) {
+        return res.status(400).json({ error: `Unknown payment method ${paymentMethod}` });
+      }
+
+      let requestedItems: PricingItemInput[] = [];
       let userId = null;
 
       if (isDirectOrder) {
@@ -81,33 +130,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           return res.status(400).json({ error: 'Customer information is required' });
         }
 
-        // Validate items and calculate total
-        for (const item of items) {
-          const product = await prisma.product.findUnique({
-            where: { id: item.productId }
-          });
-
-          if (!product) {
-            return res.status(400).json({ 
-              error: `Product with ID ${item.productId} not found` 
-            });
-          }
-
-          if (product.stock < item.quantity) {
-            return res.status(400).json({ 
-              error: `Insufficient stock for ${product.name}` 
-            });
-          }
-
-          orderItems.push({
-            productId: item.productId,
-            quantity: item.quantity,
-            price: item.price || product.price,
-            product: product
-          });
-
-          orderTotal += (item.price || product.price) * item.quantity;
-        }
+        requestedItems = items.map((item: any) => ({
+          productId: item.productId,
+          variantId: item.variantId || null,
+          quantity: item.quantity,
+          price: item.price
+        }));
 
         // Create guest user or use provided user ID
         if (customerInfo.email) {
@@ -128,47 +156,109 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         userId = authResult.user.id;
 
         // Get user's cart items
-        const cartItems = await prisma.cartItem.findMany({
-          where: { userId: userId },
-          include: {
-            product: true
-          }
+        const cartItems = await req.db.cartItem.findMany({
+          where: { userId: userId }
         });
 
         if (cartItems.length === 0) {
           return res.status(400).json({ error: 'Cart is empty' });
         }
 
-        // Check stock availability
-        for (const item of cartItems) {
-          if (item.product.stock < item.quantity) {
-            return res.status(400).json({ 
-              error: `Insufficient stock for ${item.product.name}` 
-            });
-          }
-        }
-
-        orderItems = cartItems.map((item: any) => ({
+        requestedItems = cartItems.map((item: any) => ({
           productId: item.productId,
-          quantity: item.quantity,
-          price: item.product.price,
-          product: item.product
+          variantId: item.variantId,
+          quantity: item.quantity
         }));
+      }
+
+      let addressInput = parseShippingAddressInput(shippingAddress);
+      if (addressId) {
+        // Saved addresses need a signed-in customer, not one matched by email
+        const savedAddress = !isDirectOrder && userId
+          ? await prisma.address.findFirst({ where: { id: addressId, userId } })
+          : null;
+        if (!savedAddress) {
+          return res.status(404).json({ error: 'Saved address not found' });
+        }
+        addressInput = savedAddressToInput(savedAddress);
+      }
+
+      // Buy-now forms collect the name and phone apart from the address
+      const { address, errors: addressErrors } = validateShippingAddress({
+        district: shippingDistrict,
+        ...addressInput,
+        fullName: addressInput.fullName || customerInfo?.name,
+        phone: addressInput.phone || customerInfo?.phone
+      });
+      if (addressErrors.length > 0) {
+        return res.status(400).json({
+          error: 'Invalid shipping address',
+          code: 'INVALID_ADDRESS',
+          details: addressErrors
+        });
+      }
+
+      const customer = {
+        userId,
+        phone: isDirectOrder ? customerInfo?.phone : null,
+        email: isDirectOrder ? customerInfo?.email : null
+      };
+
+      // Recompute every amount from the database; client prices are only compared
+      const pricing = await priceOrder(requestedItems, {
+        couponCode,
+        customer,
+        expectedTotal: total,
+        shippingDistrict: address.district
+      });
+
+      const discountAmount = pricing.discount + pricing.shippingDiscount;
 
-        orderTotal = cartItems.reduce((sum: number, item: any) => {
-          return sum + (item.product.price * item.quantity);
-        }, 0);
+      // Every order belongs to a single store
+      const storeAdminIds = pricing.lines.map(line => line.createdBy).filter((id): id is string => Boolean(id));
+      const storeIds = Array.from(new Set(storeAdminIds));
+      if (storeIds.length > 1) {
+        return res.status(400).json({
+          error: 'Products from different stores must be ordered separately',
+          code: 'MULTIPLE_STORES'
+        });
+      }
+      if (req.tenantId && storeIds.some(id => id !== req.tenantId)) {
+        return res.status(400).json({
+          error: 'Some products are not sold by this store',
+          code: 'WRONG_STORE'
+        });
+      }
+
+      // Each store chooses which payment methods it accepts
+      const enabledProviders = await getEnabledPaymentProviders(storeAdminIds);
+      if (!enabledProviders.some(method => method.id === paymentProvider.id)) {
+        return res.status(400).json({
+          error: `${paymentProvider.displayName} is not available for this order`,
+          code: 'PAYMENT_METHOD_UNAVAILABLE'
+        });
       }
 
       // Create order with order items in a transaction
-      const order = await prisma.$transaction(async (tx: any) => {
+      const order = await req.db.$transaction(async (tx: any) => {
         // Create order
         const orderData: any = {
-          total: total || orderTotal,
-          shippingAddress,
-          paymentMethod,
+          storeId: storeIds[0] || null,
+          subtotal: pricing.subtotal,
+          shippingCost: pricing.shippingCost,
+          taxAmount: pricing.taxAmount,
+          total: pricing.total,
+          discountAmount,
+          shippingAddress: formatShippingAddress(address),
+          shippingDistrict: address.district,
+          // A zone is linked only when a single store ships the whole order
+          shippingZoneId: pricing.shipping.stores.length === 1 ? pricing.shipping.stores[0].zoneId : null,
+          shippingZoneName: pricing.shipping.stores.map(store => store.zoneName).join(', ') || null,
+          paymentMethod: paymentProvider.displayName,
+          paymentProvider: paymentProvider.id,
           status: 'PENDING',
-          paymentStatus: paymentMethod === 'Cash on Delivery' ? 'PENDING' : 'PENDING'
+          paymentStatus: 'PENDING',
+          notificationChannels: parseNotificationChannels(notifications)
         };
 
         if (userId) {
@@ -180,32 +270,64 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           orderData.customerName = customerInfo.name;
           orderData.customerPhone = customerInfo.phone;
           orderData.customerEmail = customerInfo.email || null;
+        } else {
+          orderData.customerName = address.fullName;
+          orderData.customerPhone = address.phone;
+        }
+
+        if (pricing.coupon) {
+          orderData.couponId = pricing.coupon.id;
+          orderData.couponCode = pricing.coupon.code;
         }
 
         const newOrder = await tx.order.create({
           data: orderData
         });
 
+        await tx.orderAddress.create({
+          data: { orderId: newOrder.id, ...address }
+        });
+
+        if (saveAddress && !isDirectOrder && userId && !addressId) {
+          const savedCount = await tx.address.count({ where: { userId } });
+          await tx.address.create({
+            data: { userId, ...shippingAddressToSaved(address), isDefault: savedCount === 0 }
+          });
+        }
+
+        await recordInitialStatus(tx, newOrder.id, 'PENDING', {
+          type: 'CUSTOMER',
+          id: userId,
+          name: isDirectOrder ? customerInfo?.name : null
+        }, 'Order placed');
+
+        if (pricing.coupon) {
+          await redeemCoupon(tx, pricing.coupon, newOrder.id, customer, discountAmount);
+        }
+
         // Create order items and update product stock
-        for (const item of orderItems) {
+        for (const item of pricing.lines) {
           await tx.orderItem.create({
             data: {
               orderId: newOrder.id,
               productId: item.productId,
+              variantId: item.variantId,
               quantity: item.quantity,
-              price: item.price
+              price: item.unitPrice,
+              productName: item.productName,
+              productImage: item.productImage,
+              variantLabel: item.variantLabel,
+              sku: item.sku
             }
           });
 
-          // Update product stock
-          await tx.product.update({
-            where: { id: item.productId },
-            data: {
-              stock: {
-                decrement: item.quantity
-              }
-            }
-          });
+          // Fails the whole transaction if another order took the last units
+          await decrementStock(tx, item);
+        }
+
+        // Online payments hold the stock until the gateway reports back
+        if (paymentProvider.isOnline) {
+          await createReservations(tx, newOrder.id, pricing.lines);
         }
 
         // Clear cart only for cart-based orders
@@ -219,7 +341,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
 
       // Fetch complete order data
-      const completeOrder = await prisma.order.findUnique({
+      const completeOrder = await req.db.order.findUnique({
         where: { id: order.id },
         include: {
           orderItems: {
@@ -230,12 +352,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                   name: true,
                   image: true
                 }
+              },
+              variant: {
+                select: {
+                  id: true,
+                  sku: true,
+                  options: true
+                }
               }
             }
-          }
+          },
+          address: true
         }
       });
 
+      // Online orders are announced once the gateway confirms the payment
+      if (!paymentProvider.isOnline) {
+        await notifyOrderEvent(order.id, 'ORDER_PLACED');
+      }
+
       res.status(201).json({ 
         message: 'Order created successfully', 
         order: completeOrder 
@@ -245,11 +380,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       res.status(405).json({ error: 'Method not allowed' });
     }
   } catch (error) {
+    if (error instanceof PricingError) {
+      return res.status(error.status).json(error.toJSON());
+    }
+    if (error instanceof StockError) {
+      return res.status(409).json(error.toJSON());
+    }
+    if (error instanceof CouponError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof TenantError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Orders operation error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 }
 
+export default withTenant(handler);
+
 // Helper function to authenticate user
 async function authenticateUser(req: NextApiRequest) {
   try {
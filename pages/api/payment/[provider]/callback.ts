@@ -0,0 +1,32 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getPaymentProvider, getPaymentReturnUrl, settlePayment } from '@/lib/payments';
+
+/**
+ * Where gateways send the customer back after paying (bKash, Nagad, Stripe)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const provider = getPaymentProvider(req.query.provider as string);
+
+  if (!provider || !provider.isOnline) {
+    return res.status(404).json({ error: 'Unknown payment provider' });
+  }
+
+  try {
+    const result = await provider.validatePayment({
+      query: req.query,
+      body: req.body,
+      headers: req.headers
+    });
+    const order = await settlePayment(provider, result);
+
+    res.redirect(getPaymentReturnUrl(result, order));
+  } catch (error) {
+    console.error(`${provider.displayName} callback error:`, error);
+    res.redirect(`${process.env.NEXTAUTH_URL}/payment/failed?reason=server_error`);
+  }
+}
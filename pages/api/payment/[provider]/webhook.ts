@@ -0,0 +1,69 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getPaymentProvider, PaymentProviderError, settlePayment } from '@/lib/payments';
+
+// Signatures are computed over the exact bytes the gateway sent
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+async function readRawBody(req: NextApiRequest): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function parseBody(rawBody: string, contentType: string | undefined): any {
+  if (!rawBody) {
+    return {};
+  }
+  if (contentType?.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(rawBody));
+  }
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Server-to-server payment notifications from gateways that send them
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const provider = getPaymentProvider(req.query.provider as string);
+
+  if (!provider || !provider.handleIpn) {
+    return res.status(404).json({ error: 'Unknown payment provider' });
+  }
+
+  try {
+    const rawBody = await readRawBody(req);
+    const result = await provider.handleIpn({
+      query: req.query,
+      body: parseBody(rawBody, req.headers['content-type']),
+      headers: req.headers,
+      rawBody
+    });
+
+    if (result.orderId || result.transactionId) {
+      await settlePayment(provider, result);
+    }
+
+    res.status(200).json({ received: true });
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${provider.displayName} webhook error:`, error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
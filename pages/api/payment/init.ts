@@ -0,0 +1,96 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { getOrderCustomer, getOrderPaymentProvider, PaymentProviderError } from '@/lib/payments';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Add CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { orderId, amount, customerInfo } = req.body;
+
+    if (!orderId) {
+      return res.status(400).json({ error: 'orderId is required' });
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: { address: true }
+    });
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    const provider = getOrderPaymentProvider(order);
+    if (!provider) {
+      return res.status(400).json({ error: `Unknown payment method ${order.paymentMethod}` });
+    }
+
+    if (!provider.isOnline) {
+      return res.json({ success: true, paymentUrl: null, transactionId: null });
+    }
+
+    if (!provider.isConfigured()) {
+      return res.status(500).json({ error: `${provider.displayName} is not configured` });
+    }
+
+    if (order.status !== 'PENDING' || order.paymentStatus !== 'PENDING') {
+      return res.status(409).json({ error: 'This order is no longer awaiting payment' });
+    }
+
+    // The order total is priced on the server; a differing client amount means a stale checkout
+    if (amount !== undefined && Math.abs(parseFloat(amount) - order.total) > 0.01) {
+      return res.status(409).json({
+        error: 'Payment amount does not match the order total',
+        code: 'PRICE_MISMATCH',
+        details: {
+          mismatches: [{ field: 'total', expected: order.total, received: parseFloat(amount) }]
+        }
+      });
+    }
+
+    const result = await provider.initPayment(order, getOrderCustomer(order, customerInfo || {}));
+
+    if (result.transactionId) {
+      await prisma.order.update({
+        where: { id: order.id },
+        data: { paymentTransactionId: result.transactionId }
+      });
+    }
+
+    res.json({
+      success: true,
+      paymentUrl: result.redirectUrl,
+      transactionId: result.transactionId
+    });
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      console.error('Payment initialization failed:', error.message, error.details);
+      return res.status(error.status).json({
+        success: false,
+        error: 'Failed to initialize payment',
+        message: error.message
+      });
+    }
+    console.error('Payment init error:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
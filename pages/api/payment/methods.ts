@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { getEnabledPaymentProviders } from '@/lib/payments';
+
+const prisma = new PrismaClient();
+
+/**
+ * Payment methods a customer can choose at checkout. The stores are taken
+ * from `productIds` (comma separated) or a single `adminId`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { productIds, adminId } = req.query;
+    let adminIds: string[] = [];
+
+    if (typeof productIds === 'string' && productIds) {
+      const products = await prisma.product.findMany({
+        where: { id: { in: productIds.split(',') } },
+        select: { createdBy: true }
+      });
+      adminIds = products.map(product => product.createdBy).filter((id): id is string => Boolean(id));
+    } else if (typeof adminId === 'string' && adminId) {
+      adminIds = [adminId];
+    }
+
+    const methods = await getEnabledPaymentProviders(adminIds);
+
+    res.json(methods.map(method => ({
+      id: method.id,
+      displayName: method.displayName,
+      description: method.description,
+      isOnline: method.isOnline
+    })));
+  } catch (error) {
+    console.error('Payment methods error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -1,7 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-const { PrismaClient } = require('@prisma/client');
-
-const prisma = new PrismaClient();
+import { getPaymentReturnUrl, settlePayment } from '@/lib/payments';
+import { sslcommerzProvider } from '@/lib/payments/sslcommerz';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -10,21 +9,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { tran_id, value_a: orderId } = req.body;
-
-    if (orderId) {
-      // Update order status to cancelled
-      await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'CANCELLED',
-          paymentStatus: 'CANCELLED'
-        }
-      });
-    }
+    // Cancelling also returns the stock held for this payment
+    const result = await sslcommerzProvider.validatePayment({
+      query: req.query,
+      body: { ...req.body, status: 'CANCELLED' },
+      headers: req.headers
+    });
+    const order = await settlePayment(sslcommerzProvider, result);
 
-    // Redirect to cancellation page
-    res.redirect(`${process.env.NEXTAUTH_URL}/payment/cancelled?orderId=${orderId}&transactionId=${tran_id}`);
+    res.redirect(getPaymentReturnUrl(result, order));
   } catch (error) {
     console.error('SSLCommerz cancel handler error:', error);
     res.redirect(`${process.env.NEXTAUTH_URL}/payment/failed?reason=server_error`);
@@ -1,7 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-const { PrismaClient } = require('@prisma/client');
-
-const prisma = new PrismaClient();
+import { getPaymentReturnUrl, settlePayment } from '@/lib/payments';
+import { sslcommerzProvider } from '@/lib/payments/sslcommerz';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -10,21 +9,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { tran_id, value_a: orderId } = req.body;
-
-    if (orderId) {
-      // Update order status to failed
-      await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'CANCELLED',
-          paymentStatus: 'FAILED'
-        }
-      });
-    }
+    // Cancelling also returns the stock held for this payment
+    const result = await sslcommerzProvider.validatePayment({
+      query: req.query,
+      body: { ...req.body, status: 'FAILED' },
+      headers: req.headers
+    });
+    const order = await settlePayment(sslcommerzProvider, result);
 
-    // Redirect to failure page
-    res.redirect(`${process.env.NEXTAUTH_URL}/payment/failed?orderId=${orderId}&transactionId=${tran_id}&reason=payment_failed`);
+    res.redirect(getPaymentReturnUrl(result, order));
   } catch (error) {
     console.error('SSLCommerz fail handler error:', error);
     res.redirect(`${process.env.NEXTAUTH_URL}/payment/failed?reason=server_error`);
@@ -1,9 +1,12 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-const SSLCommerzPayment = require('sslcommerz');
-const { PrismaClient } = require('@prisma/client');
-
-const prisma = new PrismaClient();
-
+import { processPaymentEvent, recordPaymentEvent } from '@/lib/paymentEvents';
+import { verifySSLCommerzSignature } from '@/lib/payments/sslcommerz';
+
+/**
+ * SSLCommerz instant payment notification. Every notification is stored as a
+ * PaymentEvent first; repeated deliveries of a processed event are acknowledged
+ * without touching the order again.
+ */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', ['POST']);
@@ -11,50 +14,35 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { tran_id, val_id, value_a: orderId, status } = req.body;
+    const { tran_id, status, amount, currency } = req.body;
 
-    if (!tran_id || !val_id || !orderId) {
+    if (!tran_id || !status) {
       return res.status(400).json({ error: 'Missing transaction data' });
     }
 
-    // Initialize SSLCommerz
-    const sslcz = new SSLCommerzPayment(
-      process.env.SSLCOMMERZ_STORE_ID,
-      process.env.SSLCOMMERZ_STORE_PASSWORD,
-      process.env.SSLCOMMERZ_IS_LIVE === 'true'
-    );
-
-    // Validate the transaction
-    const validation = await sslcz.validate({
-      val_id: val_id
+    const { event, duplicate } = await recordPaymentEvent({
+      provider: 'sslcommerz',
+      transactionId: String(tran_id),
+      gatewayStatus: String(status).toUpperCase(),
+      amount: amount !== undefined ? parseFloat(amount) : null,
+      currency: currency || null,
+      payload: req.body,
+      signatureValid: verifySSLCommerzSignature(req.body)
     });
 
-    if (validation.status === 'VALID') {
-      // Update order based on payment status
-      if (status === 'VALID') {
-        await prisma.order.update({
-          where: { id: orderId },
-          data: {
-            status: 'CONFIRMED',
-            paymentStatus: 'PAID',
-            paymentTransactionId: tran_id,
-            paymentValidationId: val_id,
-            paidAt: new Date()
-          }
-        });
-      } else {
-        await prisma.order.update({
-          where: { id: orderId },
-          data: {
-            status: 'CANCELLED',
-            paymentStatus: 'FAILED'
-          }
-        });
-      }
+    if (duplicate && event.status === 'PROCESSED') {
+      return res.status(200).json({ message: 'IPN already processed' });
+    }
+
+    const processed = await processPaymentEvent(event.id);
 
-      res.status(200).json({ message: 'IPN processed successfully' });
-    } else {
-      res.status(400).json({ error: 'Invalid transaction' });
+    switch (processed.status) {
+      case 'PROCESSED':
+        return res.status(200).json({ message: 'IPN processed successfully' });
+      case 'IGNORED':
+        return res.status(401).json({ error: processed.note });
+      default:
+        return res.status(400).json({ error: processed.note || 'Invalid transaction' });
     }
   } catch (error) {
     console.error('SSLCommerz IPN handler error:', error);
@@ -1,8 +1,6 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-const SSLCommerzPayment = require('sslcommerz-lts');
-const { PrismaClient } = require('@prisma/client');
-
-const prisma = new PrismaClient();
+import { getPaymentReturnUrl, settlePayment } from '@/lib/payments';
+import { sslcommerzProvider } from '@/lib/payments/sslcommerz';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -11,54 +9,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { tran_id, val_id, value_a: orderId, value_b: customerName } = req.body;
+    const { tran_id, val_id, value_a: orderId } = req.body;
 
     if (!tran_id || !val_id || !orderId) {
       return res.status(400).json({ error: 'Missing transaction data' });
     }
 
-    // Initialize SSLCommerz
-    const sslcz = new SSLCommerzPayment(
-      process.env.SSLCOMMERZ_STORE_ID,
-      process.env.SSLCOMMERZ_STORE_PASSWORD,
-      process.env.SSLCOMMERZ_IS_LIVE === 'true'
-    );
-
-    // Validate the transaction
-    const validation = await sslcz.validate({
-      val_id: val_id
+    const result = await sslcommerzProvider.validatePayment({
+      query: req.query,
+      body: req.body,
+      headers: req.headers
     });
+    const order = await settlePayment(sslcommerzProvider, result);
 
-    if (validation.status === 'VALID') {
-      // Update order status
-      const updatedOrder = await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'CONFIRMED',
-          paymentStatus: 'PAID',
-          paymentTransactionId: tran_id,
-          paymentValidationId: val_id,
-          paidAt: new Date()
-        }
-      });
-
-      // Get customer name for thank you page
-      const finalCustomerName = customerName || updatedOrder.customerName || 'Customer';
-
-      // Redirect to thank you page
-      res.redirect(`${process.env.NEXTAUTH_URL}/thank-you?orderId=${orderId}&transactionId=${tran_id}&name=${encodeURIComponent(finalCustomerName)}&payment=success`);
-    } else {
-      // Update order status to failed
-      await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          status: 'CANCELLED',
-          paymentStatus: 'FAILED'
-        }
-      });
-
-      res.redirect(`${process.env.NEXTAUTH_URL}/payment/failed?orderId=${orderId}&reason=validation_failed`);
-    }
+    res.redirect(getPaymentReturnUrl(result, order));
   } catch (error) {
     console.error('SSLCommerz success handler error:', error);
     res.redirect(`${process.env.NEXTAUTH_URL}/payment/failed?reason=server_error`);
@@ -1,15 +1,13 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import { PrismaClient } from '@prisma/client';
-import { withSubdomainCheck } from '@/middleware/subdomainCheck';
-
-const prisma = new PrismaClient();
-
-interface ExtendedNextApiRequest extends NextApiRequest {
-  subdomain?: string;
-  adminId?: string;
-}
-
-async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
+import { NextApiResponse } from 'next';
+import { TenantApiRequest, withTenant } from '@/middleware/tenant';
+import { authorizeStoreMember } from '@/middleware/storePermissions';
+import {
+  normalizeProductOptions,
+  normalizeProductVariants,
+  syncProductVariants
+} from '@/lib/productVariants';
+
+async function handler(req: TenantApiRequest, res: NextApiResponse) {
   const { id } = req.query;
 
   if (!id || typeof id !== 'string') {
@@ -19,15 +17,8 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
   try {
     switch (req.method) {
       case 'GET':
-        const where: any = { id };
-        
-        // If there's a subdomain, also filter by admin ID
-        if (req.adminId) {
-          where.createdBy = req.adminId;
-        }
-        
-        const product = await prisma.product.findUnique({
-          where,
+        const product = await req.db.product.findUnique({
+          where: { id },
           include: {
             category: true,
             reviews: {
@@ -40,7 +31,13 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
                 }
               }
             },
-            images: true
+            images: true,
+            options: {
+              orderBy: { position: 'asc' }
+            },
+            variants: {
+              orderBy: { createdAt: 'asc' }
+            }
           }
         });
 
@@ -60,29 +57,69 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
         break;
 
       case 'PUT':
-        const { name, description, price, categoryId, image, stock, featured, tempImages } = req.body;
+        // Only staff who may manage products can change them
+        if (!(await authorizeStoreMember(req, res, 'MANAGE_PRODUCTS'))) {
+          return;
+        }
 
-        const updatedProduct = await prisma.product.update({
-          where: { id },
-          data: {
-            ...(name && { name }),
-            ...(description && { description }),
-            ...(price && { price: parseFloat(price) }),
-            ...(categoryId && { categoryId }),
-            ...(image && { image }),
-            ...(stock !== undefined && { stock: parseInt(stock) }),
-            ...(featured !== undefined && { featured: Boolean(featured) })
-          },
-          include: {
-            category: true
+        const { name, description, price, categoryId, image, stock, weight, featured, tempImages, options, variants } = req.body;
+
+        // Variants are only replaced when the client sends them
+        const replaceVariants = options !== undefined || variants !== undefined;
+        const productOptions = normalizeProductOptions(options);
+        const variantResult = normalizeProductVariants(variants, productOptions);
+
+        if (variantResult.errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid variants', details: variantResult.errors });
+        }
+
+        const existingProduct = await req.db.product.findUnique({ where: { id } });
+        if (!existingProduct) {
+          return res.status(404).json({ error: 'Product not found or access denied' });
+        }
+
+        if (categoryId && !(await req.db.category.findUnique({ where: { id: categoryId } }))) {
+          return res.status(400).json({ error: 'Category not found' });
+        }
+
+        const updatedProduct = await req.db.$transaction(async (tx) => {
+          await tx.product.update({
+            where: { id },
+            data: {
+              ...(name && { name }),
+              ...(description && { description }),
+              ...(price && { price: parseFloat(price) }),
+              ...(categoryId && { categoryId }),
+              ...(image && { image }),
+              ...(stock !== undefined && { stock: parseInt(stock) }),
+              ...(weight !== undefined && { weight: weight ? parseFloat(weight) || null : null }),
+              ...(featured !== undefined && { featured: Boolean(featured) })
+            }
+          });
+
+          if (replaceVariants) {
+            await syncProductVariants(tx, id, productOptions, variantResult.variants);
           }
+
+          return tx.product.findUniqueOrThrow({
+            where: { id },
+            include: {
+              category: true,
+              options: {
+                orderBy: { position: 'asc' }
+              },
+              variants: {
+                orderBy: { createdAt: 'asc' }
+              }
+            }
+          });
         });
 
         // If there are temporary images to be converted to permanent ones
         if (tempImages && Array.isArray(tempImages) && tempImages.length > 0) {
           await Promise.all(
             tempImages.map(async (tempImage: { url: string, isMain: boolean }) => {
-              await prisma.productImage.create({
+              await req.db.productImage.create({
                 data: {
                   url: tempImage.url,
                   productId: id,
@@ -95,7 +132,7 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
           // If any image is set as main, ensure others are not main
           const hasMainImage = tempImages.some((img: { isMain: boolean }) => img.isMain);
           if (hasMainImage) {
-            const existingImages = await prisma.productImage.findMany({
+            const existingImages = await req.db.productImage.findMany({
               where: { 
                 productId: id,
                 url: { notIn: tempImages.map((img: { url: string }) => img.url) },
@@ -106,7 +143,7 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
             if (existingImages.length > 0) {
               await Promise.all(
                 existingImages.map(async (img) => {
-                  await prisma.productImage.update({
+                  await req.db.productImage.update({
                     where: { id: img.id },
                     data: { isMain: false }
                   });
@@ -120,21 +157,20 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
         break;
 
       case 'DELETE':
-        // For subdomain requests, ensure the product belongs to the admin
-        const deleteWhere: any = { id };
-        if (req.adminId) {
-          deleteWhere.createdBy = req.adminId;
+        if (!(await authorizeStoreMember(req, res, 'MANAGE_PRODUCTS'))) {
+          return;
         }
-        
-        const productToDelete = await prisma.product.findUnique({
-          where: deleteWhere
+
+        // For store requests, ensure the product belongs to the store
+        const productToDelete = await req.db.product.findUnique({
+          where: { id }
         });
         
         if (!productToDelete) {
           return res.status(404).json({ error: 'Product not found or access denied' });
         }
         
-        await prisma.product.delete({
+        await req.db.product.delete({
           where: { id }
         });
 
@@ -151,4 +187,4 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default withSubdomainCheck(handler);
+export default withTenant(handler);
@@ -1,30 +1,23 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import { PrismaClient } from '@prisma/client';
-import { withSubdomainCheck } from '@/middleware/subdomainCheck';
+import { NextApiResponse } from 'next';
+import { TenantApiRequest, withTenant } from '@/middleware/tenant';
+import { authorizeStoreMember } from '@/middleware/storePermissions';
+import {
+  normalizeProductOptions,
+  normalizeProductVariants,
+  syncProductVariants
+} from '@/lib/productVariants';
 
-const prisma = new PrismaClient();
-
-interface ExtendedNextApiRequest extends NextApiRequest {
-  subdomain?: string;
-  adminId?: string;
-}
-
-async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
+async function handler(req: TenantApiRequest, res: NextApiResponse) {
   try {
     switch (req.method) {
       case 'GET':
-        const { page = 1, limit = 10, search, categoryId: queryCategoryId, sortBy, adminId } = req.query;
+        const { page = 1, limit = 10, search, categoryId: queryCategoryId, sortBy } = req.query;
         
         const skip = (Number(page) - 1) * Number(limit);
         const take = Number(limit);
         
         const where: any = {};
         
-        // If there's a subdomain or adminId filter, add it to the where clause
-        if (req.adminId || adminId) {
-          where.createdBy = req.adminId || adminId;
-        }
-        
         if (search) {
           where.OR = [
             { name: { contains: search as string, mode: 'insensitive' } },
@@ -60,7 +53,7 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
         }
         
         const [products, total] = await Promise.all([
-          prisma.product.findMany({
+          req.db.product.findMany({
             where,
             skip,
             take,
@@ -71,11 +64,17 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
                   rating: true
                 }
               },
-              images: true
+              images: true,
+              options: {
+                orderBy: { position: 'asc' }
+              },
+              variants: {
+                orderBy: { createdAt: 'asc' }
+              }
             },
             orderBy
           }),
-          prisma.product.count({ where })
+          req.db.product.count({ where })
         ]);
         
         // Calculate average rating for each product
@@ -105,13 +104,31 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
         break;
         
       case 'POST':
-        const { name, description, price, categoryId, image, stock, featured, tempImages } = req.body;
+        // Only staff who may manage products can change them
+        if (!(await authorizeStoreMember(req, res, 'MANAGE_PRODUCTS'))) {
+          return;
+        }
+
+        const { name, description, price, categoryId, image, stock, weight, featured, tempImages, options, variants } = req.body;
         
         if (!name || !price || !categoryId) {
           return res.status(400).json({ error: 'Name, price, and category are required' });
         }
+
+        const productOptions = normalizeProductOptions(options);
+        const variantResult = normalizeProductVariants(variants, productOptions);
+
+        if (variantResult.errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid variants', details: variantResult.errors });
+        }
         
-        // For subdomain requests, set the createdBy to the admin ID
+        // A store can only file products under its own categories
+        const category = await req.db.category.findUnique({ where: { id: categoryId } });
+        if (!category) {
+          return res.status(400).json({ error: 'Category not found' });
+        }
+
+        // Store requests get createdBy set to the store's admin
         const productData: any = {
           name,
           description,
@@ -119,25 +136,36 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
           categoryId,
           image: image || '',
           stock: parseInt(stock) || 0,
+          weight: weight ? parseFloat(weight) || null : null,
           featured: Boolean(featured) || false
         };
         
-        if (req.adminId) {
-          productData.createdBy = req.adminId;
-        }
-        
-        const newProduct = await prisma.product.create({
-          data: productData,
-          include: {
-            category: true
+        const newProduct = await req.db.$transaction(async (tx) => {
+          const created = await tx.product.create({
+            data: productData
+          });
+
+          if (productOptions.length > 0 || variantResult.variants.length > 0) {
+            await syncProductVariants(tx, created.id, productOptions, variantResult.variants);
           }
+
+          return tx.product.findUniqueOrThrow({
+            where: { id: created.id },
+            include: {
+              category: true,
+              options: {
+                orderBy: { position: 'asc' }
+              },
+              variants: true
+            }
+          });
         });
         
         // If there are temporary images, create them in the database
         if (tempImages && Array.isArray(tempImages) && tempImages.length > 0) {
           await Promise.all(
             tempImages.map(async (tempImage: { url: string, isMain: boolean }) => {
-              await prisma.productImage.create({
+              await req.db.productImage.create({
                 data: {
                   url: tempImage.url,
                   productId: newProduct.id,
@@ -161,4 +189,4 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse) {
   }
 }
 
-export default withSubdomainCheck(handler);
+export default withTenant(handler);
@@ -3,6 +3,7 @@ import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { withSubdomainCheck } from '@/middleware/subdomainCheck';
+import { getUserStores } from '@/lib/stores';
 
 const prisma = new PrismaClient();
 
@@ -36,11 +37,13 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse): Promi
       return;
     }
 
+    const stores = await getUserStores(user.id);
+
     // Enhanced debug logging
     console.log('=== LOGIN DEBUG ===');
     console.log('- User email:', user.email);
     console.log('- User role:', user.role);
-    console.log('- User subdomain:', user.subdomain);
+    console.log('- User stores:', stores.map(store => store.subdomain).join(', '));
     console.log('- Request subdomain (from req.subdomain):', req.subdomain);
     console.log('- Request host:', req.headers.host);
     console.log('- Request x-subdomain header:', req.headers['x-subdomain']);
@@ -49,12 +52,13 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse): Promi
     console.log('- All headers:', JSON.stringify(req.headers, null, 2));
     console.log('===================')
 
-    // For admin users, check if they belong to the current subdomain
+    // For admin users, check if they are a member of the current store
+    const currentStore = stores.find(store => store.id === req.adminId);
     if (user.role === 'ADMIN' && req.subdomain) {
-      if (user.subdomain !== req.subdomain) {
+      if (!currentStore) {
         res.status(401).json({ 
           error: 'Access denied: This admin account does not belong to this store',
-          message: `This admin account belongs to "${user.subdomain}" but you're trying to access "${req.subdomain}"`
+          message: `This admin account is not a member of "${req.subdomain}"`
         });
         return;
       }
@@ -64,7 +68,9 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse): Promi
     if (user.role === 'ADMIN' && !req.subdomain) {
       res.status(401).json({ 
         error: 'Admin access denied: Please login through your store subdomain',
-        message: `Please visit ${user.subdomain}.codeopx.com to access your admin panel`
+        message: stores.length > 0
+          ? `Please visit ${stores[0].subdomain}.codeopx.com to access your admin panel`
+          : 'This admin account is not a member of any store'
       });
       return;
     }
@@ -93,7 +99,9 @@ async function handler(req: ExtendedNextApiRequest, res: NextApiResponse): Promi
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role,
-        subdomain: user.subdomain
+        subdomain: (currentStore || stores[0])?.subdomain || null,
+        storeName: (currentStore || stores[0])?.name || null,
+        stores
       }
     });
   } catch (error) {
@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
 import jwt from 'jsonwebtoken';
+import { getUserStores } from '@/lib/stores';
 
 const prisma = new PrismaClient();
 
@@ -32,7 +33,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         firstName: true,
         lastName: true,
         role: true,
-        subdomain: true,
         createdAt: true
       }
     });
@@ -41,7 +41,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(404).json({ error: 'User not found' });
     }
 
-    res.status(200).json({ user });
+    // Stores the user works in; subdomain and storeName are their primary store's
+    const stores = await getUserStores(user.id);
+
+    res.status(200).json({
+      user: {
+        ...user,
+        subdomain: stores[0]?.subdomain || null,
+        storeName: stores[0]?.name || null,
+        stores
+      }
+    });
   } catch (error) {
     console.error('Authentication error:', error);
     return res.status(401).json({ error: 'Invalid token' });
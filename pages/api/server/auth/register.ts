@@ -1,11 +1,12 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import { TenantApiRequest, withTenant } from '@/middleware/tenant';
 
 const prisma = new PrismaClient();
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: TenantApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', ['POST']);
     return res.status(405).end(`Method ${req.method} Not Allowed`);
@@ -30,8 +31,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 10);
 
-    // Create user
-    const user = await prisma.user.create({
+    // Create user; signing up on a store's site makes them its customer
+    const user = await req.db.user.create({
       data: {
         email,
         password: hashedPassword,
@@ -55,12 +56,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         email: user.email,
         firstName: user.firstName,
         lastName: user.lastName,
-        role: user.role,
-        subdomain: user.subdomain
+        role: user.role
       }
     });
   } catch (error) {
     console.error('Registration error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
-}
\ No newline at end of file
+}
+
+export default withTenant(handler);
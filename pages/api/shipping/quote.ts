@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PricingError, PricingItemInput, priceOrder } from '@/lib/orderPricing';
+
+/**
+ * Delivery charge for a cart or buy-now item to a district, priced the same
+ * way the order will be when it is placed
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { items, district } = req.body;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: 'Items are required' });
+  }
+
+  try {
+    const requestedItems: PricingItemInput[] = items.map((item: any) => ({
+      productId: item.productId,
+      variantId: item.variantId || null,
+      quantity: item.quantity
+    }));
+
+    const pricing = await priceOrder(requestedItems, { shippingDistrict: district || null });
+
+    res.json({
+      district: pricing.shipping.district,
+      shippingCost: pricing.shippingCost,
+      stores: pricing.shipping.stores.map(store => ({
+        zoneName: store.zoneName,
+        rateName: store.rateName,
+        weight: store.weight,
+        cost: store.cost
+      }))
+    });
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return res.status(error.status).json(error.toJSON());
+    }
+    console.error('Shipping quote error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,165 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PrismaClient, Role, StorePermission, StoreRole } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+
+const prisma = new PrismaClient();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { token } = req.query;
+
+  if (typeof token !== 'string') {
+    return res.status(400).json({ error: 'Invalid invitation' });
+  }
+
+  try {
+    const invitation = await prisma.storeInvitation.findUnique({
+      where: { token },
+      include: {
+        store: {
+          select: { id: true, name: true, subdomain: true }
+        }
+      }
+    });
+
+    if (!invitation || invitation.acceptedAt) {
+      return res.status(404).json({ error: 'Invitation not found or already used' });
+    }
+
+    if (invitation.expiresAt < new Date()) {
+      return res.status(410).json({ error: 'This invitation has expired' });
+    }
+
+    const existingUser = await prisma.user.findFirst({
+      where: { email: { equals: invitation.email, mode: 'insensitive' } },
+      select: { id: true }
+    });
+
+    switch (req.method) {
+      case 'GET':
+        return res.status(200).json({
+          store: invitation.store,
+          email: invitation.email,
+          role: invitation.role,
+          permissions: invitation.permissions,
+          expiresAt: invitation.expiresAt,
+          // Whether the invitee signs in or creates an account to accept
+          hasAccount: !!existingUser
+        });
+
+      case 'POST':
+        return await acceptInvitation(req, res, invitation, existingUser?.id || null);
+
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Staff invitation API error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Join the store as the signed-in user, or as a new account for the invited email
+async function acceptInvitation(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  invitation: {
+    id: string;
+    storeId: string;
+    email: string;
+    role: StoreRole;
+    permissions: StorePermission[];
+    store: { id: string; name: string; subdomain: string };
+  },
+  existingUserId: string | null
+) {
+  let userId: string | null = null;
+
+  if (existingUserId) {
+    // Existing accounts prove who they are with a session or their password;
+    // admins of another store cannot sign in on this store's site before joining
+    const authHeader = req.headers.authorization;
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      try {
+        const decoded = jwt.verify(authHeader.substring(7), process.env.JWT_SECRET as string) as { userId: string };
+        userId = decoded.userId;
+      } catch (error) {
+        return res.status(401).json({ error: 'Invalid token' });
+      }
+    } else if (req.body.password) {
+      const existingUser = await prisma.user.findUniqueOrThrow({ where: { id: existingUserId } });
+      if (!(await bcrypt.compare(req.body.password, existingUser.password))) {
+        return res.status(401).json({ error: 'Invalid credentials' });
+      }
+      userId = existingUserId;
+    } else {
+      return res.status(401).json({ error: `Sign in as ${invitation.email} to accept this invitation` });
+    }
+
+    if (userId !== existingUserId) {
+      return res.status(403).json({ error: `This invitation was sent to ${invitation.email}` });
+    }
+  } else {
+    const { firstName, lastName, password } = req.body;
+    if (!firstName || !lastName || !password) {
+      return res.status(400).json({ error: 'First name, last name and password are required' });
+    }
+    if (password.length < 6) {
+      return res.status(400).json({ error: 'Password must be at least 6 characters' });
+    }
+  }
+
+  const hashedPassword = userId ? null : await bcrypt.hash(req.body.password, 10);
+
+  const user = await prisma.$transaction(async (tx) => {
+    const user = userId
+      ? await tx.user.findUniqueOrThrow({ where: { id: userId } })
+      : await tx.user.create({
+          data: {
+            email: invitation.email,
+            password: hashedPassword as string,
+            firstName: req.body.firstName,
+            lastName: req.body.lastName,
+            role: Role.ADMIN
+          }
+        });
+
+    await tx.storeMember.upsert({
+      where: { storeId_userId: { storeId: invitation.storeId, userId: user.id } },
+      create: {
+        storeId: invitation.storeId,
+        userId: user.id,
+        role: invitation.role,
+        permissions: invitation.permissions
+      },
+      update: {}
+    });
+
+    await tx.storeInvitation.update({
+      where: { id: invitation.id },
+      data: { acceptedAt: new Date() }
+    });
+
+    // Members work in the admin panel, which is open to admin accounts
+    if (user.role === Role.USER) {
+      return tx.user.update({
+        where: { id: user.id },
+        data: { role: Role.ADMIN }
+      });
+    }
+    return user;
+  });
+
+  const token = jwt.sign(
+    { userId: user.id },
+    process.env.JWT_SECRET as string,
+    { expiresIn: '7d' }
+  );
+
+  return res.status(200).json({
+    message: `You have joined ${invitation.store.name}`,
+    store: invitation.store,
+    token
+  });
+}
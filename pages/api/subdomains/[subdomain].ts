@@ -18,24 +18,24 @@ export default async function handler(
   }
 
   try {
-    // Find user with this subdomain
-    const user = await prisma.user.findUnique({
+    // Find store with this subdomain
+    const store = await prisma.store.findUnique({
       where: { subdomain },
-      select: { id: true, role: true }
+      select: { id: true, name: true, status: true }
     });
 
-    if (!user) {
+    if (!store) {
       return res.status(404).json({ message: 'Subdomain not found' });
     }
 
-    if (user.role !== 'ADMIN') {
-      return res.status(403).json({ message: 'Subdomain does not belong to an admin' });
+    if (store.status !== 'ACTIVE') {
+      return res.status(403).json({ message: 'Store is not active' });
     }
 
-    // Return admin information
+    // Return store information
     return res.status(200).json({
-      adminId: user.id,
-      role: user.role
+      adminId: store.id,
+      storeName: store.name
     });
   } catch (error) {
     console.error('Error fetching subdomain information:', error);
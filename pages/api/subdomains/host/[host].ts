@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
-import { extractSubdomain } from '@/lib/subdomainUtils';
+import { extractSubdomain, getStoreByCustomDomain } from '@/lib/subdomainUtils';
+import { isPlatformHost, normalizeHost } from '@/lib/domainRouting';
 
 const prisma = new PrismaClient();
 
@@ -19,58 +20,53 @@ export default async function handler(
   }
 
   try {
-    // First, check if the host is a custom domain
-    const customDomain = await prisma.customDomain.findUnique({
-      where: { domain: host },
-      include: { user: true },
-    });
+    // First, check if the host is an active custom domain. The Edge middleware
+    // routes custom domains with this lookup, so only ACTIVE ones may resolve.
+    const customDomainStore = await getStoreByCustomDomain(host);
 
-    if (customDomain && customDomain.user) {
-      if (customDomain.user.role === 'ADMIN') {
-        return res.status(200).json({
-          adminId: customDomain.user.id,
-          role: customDomain.user.role,
-          subdomain: customDomain.user.subdomain,
-          customDomain: customDomain.domain,
-          isCustomDomain: true,
-          isAdminSubdomain: false,
-          storeName: customDomain.user.storeName,
-        });
-      } else {
-        return res.status(403).json({ message: 'User for custom domain is not an admin' });
-      }
+    if (customDomainStore) {
+      return res.status(200).json({
+        adminId: customDomainStore.id,
+        subdomain: customDomainStore.subdomain,
+        customDomain: normalizeHost(host),
+        isCustomDomain: true,
+        isAdminSubdomain: false,
+        storeName: customDomainStore.name,
+        logo: customDomainStore.logo,
+        currency: customDomainStore.currency,
+      });
     }
 
     // If not a custom domain, try to extract a subdomain
-    const subdomain = extractSubdomain(host);
+    const subdomain = isPlatformHost(host) ? extractSubdomain(host) : null;
 
     if (!subdomain || subdomain === 'www') {
       return res.status(404).json({ message: 'No custom domain or valid subdomain found' });
     }
 
-    // Find user with this subdomain
-    const user = await prisma.user.findUnique({
+    // Find store with this subdomain
+    const store = await prisma.store.findUnique({
       where: { subdomain },
-      select: { id: true, role: true, storeName: true },
     });
 
-    if (!user) {
+    if (!store) {
       return res.status(404).json({ message: 'Subdomain not found' });
     }
 
-    if (user.role !== 'ADMIN') {
-      return res.status(403).json({ message: 'Subdomain does not belong to an admin' });
+    if (store.status !== 'ACTIVE') {
+      return res.status(403).json({ message: 'Store is not active' });
     }
 
-    // Return admin information for the subdomain
+    // Return store information for the subdomain
     return res.status(200).json({
-      adminId: user.id,
-      role: user.role,
+      adminId: store.id,
       subdomain: subdomain,
       customDomain: null,
       isCustomDomain: false,
       isAdminSubdomain: true,
-      storeName: user.storeName,
+      storeName: store.name,
+      logo: store.logo,
+      currency: store.currency,
     });
   } catch (error) {
     console.error('Error fetching host information:', error);
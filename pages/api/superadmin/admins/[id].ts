@@ -15,7 +15,7 @@ async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
 
   if (req.method === 'PUT') {
     try {
-      const { firstName, lastName, email, password } = req.body;
+      const { firstName, lastName, email, password, subdomain } = req.body;
 
       const updateData: any = {
         firstName,
@@ -27,7 +27,27 @@ async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
         updateData.password = await bcrypt.hash(password, 10);
       }
 
-      const updatedAdmin = await prisma.user.update({
+      // The subdomain is the store's, so it moves with the store the admin owns
+      if (subdomain) {
+        const ownership = await prisma.storeMember.findFirst({
+          where: { userId: id, role: 'OWNER' },
+          include: { store: true },
+        });
+
+        if (ownership && ownership.store.subdomain !== subdomain) {
+          const taken = await prisma.store.findUnique({ where: { subdomain } });
+          if (taken) {
+            return res.status(409).json({ message: 'Subdomain is already taken' });
+          }
+
+          await prisma.store.update({
+            where: { id: ownership.storeId },
+            data: { subdomain },
+          });
+        }
+      }
+
+      const { password: _, ...updatedAdmin } = await prisma.user.update({
         where: { id },
         data: updateData,
       });
@@ -4,6 +4,7 @@ import bcrypt from 'bcryptjs';
 import { superAdminAuth } from '@/lib/superAdminAuth';
 import { AuthenticatedRequest } from '@/lib/superAdminAuth';
 import { generateUniqueSubdomain } from '@/lib/subdomainUtils';
+import { createStore } from '@/lib/stores';
 
 const prisma = new PrismaClient();
 
@@ -12,15 +13,29 @@ async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
     try {
       const admins = await prisma.user.findMany({
         where: { role: Role.ADMIN },
+        include: {
+          memberships: {
+            where: { role: 'OWNER' },
+            include: { store: true },
+            take: 1
+          }
+        }
       });
-      res.status(200).json(admins);
+
+      // Each admin is listed with the store they own
+      res.status(200).json(admins.map(({ password: _, memberships, ...admin }) => ({
+        ...admin,
+        subdomain: memberships[0]?.store.subdomain || null,
+        storeName: memberships[0]?.store.name || null,
+        storeId: memberships[0]?.store.id || null
+      })));
     } catch (error) {
       console.error('Error fetching admins:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   } else if (req.method === 'POST') {
     try {
-      const { firstName, lastName, email, password } = req.body;
+      const { firstName, lastName, email, password, storeName } = req.body;
 
       if (!firstName || !lastName || !email || !password) {
         return res.status(400).json({ message: 'All fields are required' });
@@ -28,24 +43,39 @@ async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
 
       const hashedPassword = await bcrypt.hash(password, 10);
       
-      // Generate a unique subdomain for the admin
+      // Generate a unique subdomain for the admin's store
       const subdomain = await generateUniqueSubdomain(firstName, lastName);
 
-      const newAdmin = await prisma.user.create({
-        data: {
-          firstName,
-          lastName,
-          email,
-          password: hashedPassword,
+      const { newAdmin, store } = await prisma.$transaction(async (tx) => {
+        const newAdmin = await tx.user.create({
+          data: {
+            firstName,
+            lastName,
+            email,
+            password: hashedPassword,
+            role: Role.ADMIN,
+          },
+        });
+
+        const store = await createStore(tx, {
+          name: storeName || `${firstName} ${lastName}`,
           subdomain,
-          role: Role.ADMIN,
-        },
+          ownerId: newAdmin.id,
+          contactEmail: email,
+        });
+
+        return { newAdmin, store };
       });
       
       // Remove password from response
       const { password: _, ...adminData } = newAdmin;
 
-      res.status(201).json(adminData);
+      res.status(201).json({
+        ...adminData,
+        subdomain: store.subdomain,
+        storeName: store.name,
+        storeId: store.id
+      });
 
 
     } catch (error) {
@@ -0,0 +1,41 @@
+import { NextApiResponse } from 'next';
+import { PrismaClient } from '@prisma/client';
+import { superAdminAuth } from '@/lib/superAdminAuth';
+import { AuthenticatedRequest } from '@/lib/superAdminAuth';
+import { generateNginxConfig } from '@/lib/nginxConfig';
+
+const prisma = new PrismaClient();
+
+/**
+ * nginx server blocks for a custom domain, for servers where the certificate
+ * job does not write them itself (NGINX_SITES_DIR unset)
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (typeof id !== 'string') {
+    return res.status(400).json({ message: 'Invalid ID' });
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const domain = await prisma.customDomain.findUnique({ where: { id } });
+
+    if (!domain) {
+      return res.status(404).json({ message: 'Domain not found' });
+    }
+
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${domain.domain}.conf"`);
+    return res.status(200).send(generateNginxConfig(domain.domain));
+  } catch (error) {
+    console.error('Error generating nginx config:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+}
+
+export default superAdminAuth(handler);
@@ -1,10 +1,10 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
-import bcrypt from 'bcryptjs';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
 const prisma = new PrismaClient();
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   const { id } = req.query;
 
   if (!id || typeof id !== 'string') {
@@ -14,7 +14,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     switch (req.method) {
       case 'GET':
-        const user = await prisma.user.findUnique({
+        const user = await req.db.user.findUnique({
           where: { id },
           select: {
             id: true,
@@ -25,6 +25,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             createdAt: true,
             updatedAt: true,
             orders: {
+              where: { storeId: req.tenantId },
               include: {
                 orderItems: {
                   include: {
@@ -54,20 +55,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         break;
 
       case 'PUT':
-        const { email, firstName, lastName, role, password } = req.body;
+        const { email, firstName, lastName, password } = req.body;
 
-        const updateData: any = {
-          ...(email && { email }),
-          ...(firstName && { firstName }),
-          ...(lastName && { lastName }),
-          ...(role && { role })
-        };
+        const existingUser = await req.db.user.findUnique({ where: { id } });
+        if (!existingUser) {
+          return res.status(404).json({ error: 'User not found' });
+        }
 
-        if (password) {
-          updateData.password = await bcrypt.hash(password, 10);
+        // Accounts are shared between stores, so sign-in details are the customer's to change
+        if ((email && email !== existingUser.email) || password) {
+          return res.status(403).json({ error: 'Customers change their own email and password' });
         }
 
-        const updatedUser = await prisma.user.update({
+        // Roles are managed by the platform, not by individual stores
+        const updateData = {
+          ...(firstName && { firstName }),
+          ...(lastName && { lastName })
+        };
+
+        const updatedUser = await req.db.user.update({
           where: { id },
           data: updateData,
           select: {
@@ -85,7 +91,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         break;
 
       case 'DELETE':
-        // Check if user has orders
+        const userToDelete = await req.db.user.findUnique({ where: { id } });
+        if (!userToDelete) {
+          return res.status(404).json({ error: 'User not found' });
+        }
+
+        // Accounts are shared between stores; a store only removes the ones that signed up with it
+        if (userToDelete.storeId !== req.tenantId) {
+          return res.status(403).json({ error: 'This customer also shops with other stores and cannot be deleted' });
+        }
+
+        // Check if user has orders at any store
         const ordersCount = await prisma.order.count({
           where: { userId: id }
         });
@@ -112,3 +128,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export default withStorePermission('VIEW_REPORTS', handler);
@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
 import jwt from 'jsonwebtoken';
+import { savedAddressToInput, shippingAddressToSaved, validateShippingAddress } from '@/lib/addresses';
 
 const prisma = new PrismaClient();
 
@@ -53,10 +54,11 @@ async function getAddresses(req: NextApiRequest, res: NextApiResponse, userId: s
 
 async function createAddress(req: NextApiRequest, res: NextApiResponse, userId: string) {
   try {
-    const { street, city, state, zipCode, country, isDefault } = req.body;
-    
-    if (!street || !city || !state || !zipCode || !country) {
-      return res.status(400).json({ error: 'All address fields are required' });
+    const { label, isDefault } = req.body;
+    const { address: shippingAddress, errors } = validateShippingAddress(savedAddressToInput(req.body));
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid address', details: errors });
     }
 
     // If this is set as default, unset other default addresses
@@ -70,11 +72,8 @@ async function createAddress(req: NextApiRequest, res: NextApiResponse, userId:
     const address = await prisma.address.create({
       data: {
         userId,
-        street,
-        city,
-        state,
-        zipCode,
-        country,
+        label: label || null,
+        ...shippingAddressToSaved(shippingAddress),
         isDefault: isDefault || false
       }
     });
@@ -91,7 +90,7 @@ async function createAddress(req: NextApiRequest, res: NextApiResponse, userId:
 
 async function updateAddress(req: NextApiRequest, res: NextApiResponse, userId: string) {
   try {
-    const { addressId, street, city, state, zipCode, country, isDefault } = req.body;
+    const { addressId, label, isDefault } = req.body;
     
     if (!addressId) {
       return res.status(400).json({ error: 'Address ID is required' });
@@ -106,6 +105,18 @@ async function updateAddress(req: NextApiRequest, res: NextApiResponse, userId:
       return res.status(404).json({ error: 'Address not found' });
     }
 
+    // Fields left out of the request keep their saved values
+    const submitted = Object.fromEntries(
+      Object.entries(req.body).filter(([, value]) => value !== undefined && value !== '')
+    );
+    const { address: shippingAddress, errors } = validateShippingAddress(
+      savedAddressToInput({ ...existingAddress, ...submitted })
+    );
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid address', details: errors });
+    }
+
     // If this is set as default, unset other default addresses
     if (isDefault) {
       await prisma.address.updateMany({
@@ -117,11 +128,8 @@ async function updateAddress(req: NextApiRequest, res: NextApiResponse, userId:
     const address = await prisma.address.update({
       where: { id: addressId },
       data: {
-        street: street || existingAddress.street,
-        city: city || existingAddress.city,
-        state: state || existingAddress.state,
-        zipCode: zipCode || existingAddress.zipCode,
-        country: country || existingAddress.country,
+        label: label !== undefined ? label || null : existingAddress.label,
+        ...shippingAddressToSaved(shippingAddress),
         isDefault: isDefault !== undefined ? isDefault : existingAddress.isDefault
       }
     });
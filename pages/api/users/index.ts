@@ -1,10 +1,11 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { StoreApiRequest, withStorePermission } from '@/middleware/storePermissions';
 
 const prisma = new PrismaClient();
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: StoreApiRequest, res: NextApiResponse) {
   try {
     switch (req.method) {
       case 'GET':
@@ -28,7 +29,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         }
         
         const [users, total] = await Promise.all([
-          prisma.user.findMany({
+          req.db.user.findMany({
             where,
             skip,
             take,
@@ -41,6 +42,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               createdAt: true,
               updatedAt: true,
               orders: {
+                // Only count spending at this store
+                where: { storeId: req.tenantId },
                 select: {
                   id: true,
                   total: true
@@ -49,7 +52,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             },
             orderBy: { createdAt: 'desc' }
           }),
-          prisma.user.count({ where })
+          req.db.user.count({ where })
         ]);
         
         const usersWithStats = users.map(user => ({
@@ -71,7 +74,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         break;
         
       case 'POST':
-        const { email, password, firstName, lastName, role } = req.body;
+        const { email, password, firstName, lastName } = req.body;
         
         if (!email || !password || !firstName || !lastName) {
           return res.status(400).json({ error: 'All fields are required' });
@@ -89,13 +92,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         // Hash password
         const hashedPassword = await bcrypt.hash(password, 10);
         
-        const newUser = await prisma.user.create({
+        // Stores can only add customers to themselves, never admins
+        const newUser = await req.db.user.create({
           data: {
             email,
             password: hashedPassword,
             firstName,
             lastName,
-            role: (role as 'USER' | 'ADMIN') || 'USER'
+            role: 'USER'
           },
           select: {
             id: true,
@@ -119,3 +123,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export default withStorePermission('VIEW_REPORTS', handler);
@@ -89,7 +89,13 @@ async function getProfile(req: NextApiRequest, res: NextApiResponse, userId: str
         addresses: {
           select: {
             id: true,
+            label: true,
+            fullName: true,
+            phone: true,
             street: true,
+            upazila: true,
+            district: true,
+            division: true,
             city: true,
             state: true,
             zipCode: true,
@@ -0,0 +1,74 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { parseSMSDeliveryReport, parseSMSInboundMessage } from '@/lib/sms-bangladesh';
+import { applySMSDeliveryReport } from '@/lib/smsMessages';
+import { applyOptOutKeyword } from '@/lib/suppressionList';
+
+const prisma = new PrismaClient();
+
+function hasValidToken(token: unknown): boolean {
+  const expected = process.env.SMS_DELIVERY_REPORT_TOKEN;
+  return !!expected &&
+    typeof token === 'string' &&
+    token.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(token), Buffer.from(expected));
+}
+
+/**
+ * A customer's reply to a store's SMS number. Only STOP and START keywords
+ * are acted on; other replies are acknowledged and dropped.
+ */
+async function handleInboundMessage(storeId: unknown, from: string, text: string, res: NextApiResponse) {
+  if (typeof storeId !== 'string' || !storeId) {
+    return res.status(400).json({ error: 'Missing store' });
+  }
+
+  const store = await prisma.store.findUnique({ where: { id: storeId }, select: { id: true } });
+  if (!store) {
+    return res.status(404).json({ error: 'Store not found' });
+  }
+
+  const keyword = await applyOptOutKeyword(store.id, 'SMS', from, text);
+  return res.status(200).json({ received: true, keyword });
+}
+
+/**
+ * Delivery reports and customer replies from SMS Bangladesh. Set the account's
+ * delivery report URL to /api/webhooks/sms-bangladesh?token=<SMS_DELIVERY_REPORT_TOKEN>
+ * and its incoming SMS URL to the same with &store=<store ID>; both arrive as
+ * query parameters (GET) or a form or JSON body (POST).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!hasValidToken(req.query.token)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const params = req.method === 'POST' && req.body && typeof req.body === 'object'
+    ? { ...req.query, ...req.body }
+    : req.query;
+
+  try {
+    const inbound = parseSMSInboundMessage(params);
+    if (inbound) {
+      return await handleInboundMessage(req.query.store, inbound.from, inbound.text, res);
+    }
+
+    const report = parseSMSDeliveryReport(params);
+    if (!report) {
+      return res.status(400).json({ error: 'Missing message ID' });
+    }
+
+    const updated = await applySMSDeliveryReport(report);
+    // Unknown IDs are acknowledged so the provider doesn't keep resending them
+    res.status(200).json({ received: true, updated });
+  } catch (error) {
+    console.error('SMS Bangladesh webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
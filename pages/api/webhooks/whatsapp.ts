@@ -1,5 +1,22 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import crypto from 'crypto';
+import { applyWhatsAppStatus, refreshWhatsAppCampaignCounts, verifyWhatsAppSignature, WhatsAppStatusUpdate } from '@/lib/whatsappMessages';
+import { applyConversationStatus, recordInboundWhatsAppMessage, WhatsAppInboundMessage } from '@/lib/whatsappInbox';
+import { applyOptOutKeyword } from '@/lib/suppressionList';
+
+// The signature is computed over the exact bytes Meta sent
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+async function readRawBody(req: NextApiRequest): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
 
 interface WhatsAppWebhookMessage {
   object: string;
@@ -18,21 +35,8 @@ interface WhatsAppWebhookMessage {
           };
           wa_id: string;
         }>;
-        messages?: Array<{
-          from: string;
-          id: string;
-          timestamp: string;
-          text?: {
-            body: string;
-          };
-          type: string;
-        }>;
-        statuses?: Array<{
-          id: string;
-          status: string;
-          timestamp: string;
-          recipient_id: string;
-        }>;
+        messages?: WhatsAppInboundMessage[];
+        statuses?: WhatsAppStatusUpdate[];
       };
       field: string;
     }>;
@@ -41,9 +45,6 @@ interface WhatsAppWebhookMessage {
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   console.log(`WhatsApp Webhook - ${req.method} request received`);
-  console.log('Headers:', req.headers);
-  console.log('Query:', req.query);
-  console.log('Body:', req.body);
 
   // Handle GET request for webhook verification
   if (req.method === 'GET') {
@@ -59,32 +60,30 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       // Respond with the challenge to verify the webhook
       return res.status(200).send(challenge);
     } else {
-      console.log('Webhook verification failed:', {
-        expectedToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN,
-        receivedToken: token
-      });
+      console.log('Webhook verification failed: the verify token does not match');
       return res.status(403).json({ message: 'Forbidden' });
     }
   }
 
   // Handle POST request for webhook events
   if (req.method === 'POST') {
-    try {
-      // Verify the webhook signature (optional but recommended for production)
-      const signature = req.headers['x-hub-signature-256'] as string;
-      if (signature && process.env.WHATSAPP_WEBHOOK_SECRET) {
-        const expectedSignature = crypto
-          .createHmac('sha256', process.env.WHATSAPP_WEBHOOK_SECRET)
-          .update(JSON.stringify(req.body))
-          .digest('hex');
-        
-        if (`sha256=${expectedSignature}` !== signature) {
-          console.log('Invalid webhook signature');
-          return res.status(401).json({ message: 'Invalid signature' });
-        }
-      }
+    // Meta signs every request with the app secret; unsigned requests are rejected
+    if (!process.env.WHATSAPP_WEBHOOK_SECRET) {
+      console.error('WHATSAPP_WEBHOOK_SECRET is not set; rejecting webhook request');
+      return res.status(500).json({ message: 'Webhook secret is not configured' });
+    }
 
-      const webhookData: WhatsAppWebhookMessage = req.body;
+    const rawBody = await readRawBody(req);
+    const signature = req.headers['x-hub-signature-256'] as string | undefined;
+    if (!verifyWhatsAppSignature(rawBody, signature, process.env.WHATSAPP_WEBHOOK_SECRET)) {
+      console.log('Invalid webhook signature');
+      return res.status(401).json({ message: 'Invalid signature' });
+    }
+
+    try {
+      const webhookData: WhatsAppWebhookMessage = JSON.parse(rawBody);
+      // Campaigns to recount once every status in this request is applied
+      const changedCampaigns = new Set<string>();
 
       // Process the webhook data
       if (webhookData.object === 'whatsapp_business_account') {
@@ -96,31 +95,33 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 for (const message of change.value.messages) {
                   console.log('Received message:', {
                     from: message.from,
-                    text: message.text?.body,
+                    type: message.type,
                     timestamp: message.timestamp
                   });
 
-                  // Here you can add your business logic to handle incoming messages
-                  // For example:
-                  // - Save to database
-                  // - Send auto-reply
-                  // - Process customer service requests
-                  // - Handle order inquiries
-                  
-                  await handleIncomingMessage(message, change.value.metadata);
+                  const contact = change.value.contacts?.find(c => c.wa_id === message.from);
+                  const conversation = await recordInboundWhatsAppMessage(message, {
+                    phoneNumberId: change.value.metadata.phone_number_id,
+                    customerName: contact?.profile.name
+                  });
+
+                  // STOP and START replies update the store's suppression list
+                  if (conversation) {
+                    await applyOptOutKeyword(conversation.storeId, 'WHATSAPP', message.from, message.text?.body || message.button?.text);
+                  }
                 }
               }
 
-              // Handle message status updates (delivered, read, etc.)
+              // Handle message status updates (sent, delivered, read, failed)
               if (change.value.statuses) {
                 for (const status of change.value.statuses) {
-                  console.log('Message status update:', {
-                    messageId: status.id,
-                    status: status.status,
-                    timestamp: status.timestamp
-                  });
-
-                  await handleMessageStatus(status);
+                  const campaignId = await applyWhatsAppStatus(status);
+                  if (campaignId) {
+                    changedCampaigns.add(campaignId);
+                  } else {
+                    // Not a campaign message, so possibly a reply from the inbox
+                    await applyConversationStatus(status);
+                  }
                 }
               }
             }
@@ -128,6 +129,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         }
       }
 
+      for (const campaignId of Array.from(changedCampaigns)) {
+        await refreshWhatsAppCampaignCounts(campaignId);
+      }
+
       // Always respond with 200 to acknowledge receipt
       return res.status(200).json({ message: 'Webhook received' });
 
@@ -141,57 +146,3 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   // Method not allowed
   return res.status(405).json({ message: 'Method not allowed' });
 }
-
-// Handle incoming messages
-async function handleIncomingMessage(
-  message: any,
-  metadata: { display_phone_number: string; phone_number_id: string }
-) {
-  try {
-    console.log('Processing incoming message:', message);
-
-    // Example: Save message to database
-    // await prisma.whatsAppMessage.create({
-    //   data: {
-    //     messageId: message.id,
-    //     from: message.from,
-    //     text: message.text?.body,
-    //     timestamp: new Date(parseInt(message.timestamp) * 1000),
-    //     phoneNumberId: metadata.phone_number_id,
-    //   }
-    // });
-
-    // Example: Send auto-reply for specific keywords
-    if (message.text?.body.toLowerCase().includes('help')) {
-      // You can implement auto-reply logic here
-      console.log('Auto-reply trigger detected for help request');
-    }
-
-    if (message.text?.body.toLowerCase().includes('order')) {
-      // Handle order-related inquiries
-      console.log('Order inquiry detected');
-    }
-
-  } catch (error) {
-    console.error('Error handling incoming message:', error);
-  }
-}
-
-// Handle message status updates
-async function handleMessageStatus(status: any) {
-  try {
-    console.log('Processing message status:', status);
-
-    // Example: Update message status in database
-    // await prisma.whatsAppMessage.updateMany({
-    //   where: { messageId: status.id },
-    //   data: { 
-    //     status: status.status,
-    //     statusTimestamp: new Date(parseInt(status.timestamp) * 1000)
-    //   }
-    // });
-
-  } catch (error) {
-    console.error('Error handling message status:', error);
-  }
-}
\ No newline at end of file
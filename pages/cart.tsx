@@ -6,6 +6,7 @@ import Navbar from '../components/Navbar';
 import Footer from '../components/Footer';
 import Image from 'next/image';
 import Link from 'next/link';
+import { formatVariantLabel, getAvailableStock, getVariantPrice } from '../lib/productVariants';
 
 interface LocalCartItem {
   productId: string;
@@ -222,7 +223,8 @@ const CartPage: React.FC = () => {
       id: product.id,
       productId: product.id,
       quantity: localItem?.quantity || 0,
-      product: product
+      product: product,
+      variant: null
     };
   }).filter(item => item.quantity > 0);
 
@@ -289,9 +291,12 @@ const CartPage: React.FC = () => {
                           <h3 className="text-lg font-medium text-gray-900 truncate">
                             {item.product.name}
                           </h3>
-                          <p className="text-sm text-gray-500">In stock: {item.product.stock}</p>
+                          {item.variant && (
+                            <p className="text-sm text-gray-600">{formatVariantLabel(item.variant.options)}</p>
+                          )}
+                          <p className="text-sm text-gray-500">In stock: {getAvailableStock(item.product, item.variant)}</p>
                           <p className="text-lg font-semibold text-orange-600 mt-1">
-                            ${item.product.price.toFixed(2)}
+                            ${getVariantPrice(item.product, item.variant).toFixed(2)}
                           </p>
                         </div>
                         
@@ -310,7 +315,7 @@ const CartPage: React.FC = () => {
                           
                           <button
                             onClick={() => handleQuantityChange(item.id, item.productId, item.quantity + 1)}
-                            disabled={updating === item.id || item.quantity >= item.product.stock}
+                            disabled={updating === item.id || item.quantity >= getAvailableStock(item.product, item.variant)}
                             className="w-8 h-8 rounded-full border border-gray-300 flex items-center justify-center hover:border-orange-500 disabled:opacity-50"
                           >
                             <span className="text-lg">+</span>
@@ -319,7 +324,7 @@ const CartPage: React.FC = () => {
                         
                         <div className="text-right">
                           <p className="text-lg font-semibold text-gray-900">
-                            ${(item.product.price * item.quantity).toFixed(2)}
+                            ${(getVariantPrice(item.product, item.variant) * item.quantity).toFixed(2)}
                           </p>
                           <button
                             onClick={() => handleRemoveItem(item.id, item.productId)}
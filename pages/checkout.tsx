@@ -9,11 +9,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Textarea } from '../components/ui/textarea';
-import { CheckCircle, MapPin, CreditCard, Truck } from 'lucide-react';
+import { CheckCircle, MapPin, CreditCard, Truck, Tag } from 'lucide-react';
+import { formatVariantLabel, getVariantPrice } from '../lib/productVariants';
+import { BANGLADESH_DISTRICTS, BANGLADESH_DIVISIONS, getDistrictDivision } from '../lib/bangladeshDistricts';
 
 interface CartItem {
   id: string;
   productId: string;
+  variantId?: string | null;
   quantity: number;
   product: {
     id: string;
@@ -21,16 +24,71 @@ interface CartItem {
     price: number;
     imageUrl?: string;
   };
+  variant?: {
+    id: string;
+    options: Record<string, string>;
+    price: number | null;
+  } | null;
+}
+
+interface AppliedCoupon {
+  code: string;
+  description: string | null;
+  discount: number;
+  freeShipping: boolean;
+}
+
+interface ShippingQuote {
+  cost: number;
+  zones: string[];
+  error: string | null;
+}
+
+interface PaymentMethodOption {
+  id: string;
+  displayName: string;
+  description: string;
+  isOnline: boolean;
 }
 
+const paymentMethodIcons: Record<string, { icon: string; className: string }> = {
+  sslcommerz: { icon: '💳', className: 'bg-gradient-to-r from-blue-600 to-purple-600' },
+  bkash: { icon: '📱', className: 'bg-pink-600' },
+  nagad: { icon: '📱', className: 'bg-orange-500' },
+  stripe: { icon: '🌐', className: 'bg-indigo-600' },
+  cod: { icon: '💰', className: 'bg-green-600' }
+};
+
+type NotificationChannel = 'SMS' | 'WHATSAPP' | 'EMAIL';
+
+const NOTIFICATION_OPTIONS: { channel: NotificationChannel; label: string }[] = [
+  { channel: 'SMS', label: 'SMS' },
+  { channel: 'WHATSAPP', label: 'WhatsApp' },
+  { channel: 'EMAIL', label: 'Email' }
+];
+
 interface ShippingAddress {
   fullName: string;
   phone: string;
-  address: string;
+  addressLine: string;
+  division: string;
+  district: string;
+  upazila: string;
+  postcode: string;
+}
+
+interface SavedAddress {
+  id: string;
+  label: string | null;
+  fullName: string | null;
+  phone: string | null;
+  street: string;
+  upazila: string | null;
+  district: string | null;
   city: string;
   state: string;
   zipCode: string;
-  country: string;
+  isDefault: boolean;
 }
 
 const CheckoutPage: React.FC = () => {
@@ -42,26 +100,67 @@ const CheckoutPage: React.FC = () => {
   const [placing, setPlacing] = useState(false);
   const [orderPlaced, setOrderPlaced] = useState(false);
   const [orderId, setOrderId] = useState<string | null>(null);
-  const [paymentMethod, setPaymentMethod] = useState<'cod' | 'sslcommerz'>('cod');
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethodOption[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<string | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const [shippingQuote, setShippingQuote] = useState<ShippingQuote | null>(null);
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  // Empty while the customer types a new address
+  const [selectedAddressId, setSelectedAddressId] = useState('');
+  const [saveAddress, setSaveAddress] = useState(false);
+  const [notificationChannels, setNotificationChannels] = useState<NotificationChannel[]>(['SMS', 'EMAIL']);
+  const [addressErrors, setAddressErrors] = useState<string[]>([]);
 
   const [shippingAddress, setShippingAddress] = useState<ShippingAddress>({
     fullName: '',
     phone: '',
-    address: '',
-    city: '',
-    state: '',
-    zipCode: '',
-    country: 'United States'
+    addressLine: '',
+    division: '',
+    district: '',
+    upazila: '',
+    postcode: ''
   });
 
+  const selectedAddress = savedAddresses.find(address => address.id === selectedAddressId) || null;
+  const selectedDistrict = selectedAddress
+    ? selectedAddress.district || selectedAddress.state
+    : shippingAddress.district;
+  const selectedPhone = selectedAddress ? selectedAddress.phone || '' : shippingAddress.phone;
+
   useEffect(() => {
     if (!user) {
       router.push('/auth/login');
       return;
     }
     fetchCartItems();
+    fetchSavedAddresses();
   }, [user, router]);
 
+  const fetchSavedAddresses = async () => {
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/users/addresses', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSavedAddresses(data.addresses);
+        // Addresses come back default first
+        if (data.addresses.length > 0) {
+          setSelectedAddressId(data.addresses[0].id);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch saved addresses:', error);
+    }
+  };
+
   const fetchCartItems = async () => {
     try {
       const token = localStorage.getItem('token');
@@ -76,6 +175,8 @@ const CheckoutPage: React.FC = () => {
         setCartItems(data);
         if (data.length === 0) {
           router.push('/cart');
+        } else {
+          fetchPaymentMethods(data);
         }
       }
     } catch (error) {
@@ -85,110 +186,240 @@ const CheckoutPage: React.FC = () => {
     }
   };
 
+  const fetchPaymentMethods = async (items: CartItem[]) => {
+    try {
+      const productIds = Array.from(new Set(items.map(item => item.productId))).join(',');
+      const response = await fetch(`/api/payment/methods?productIds=${productIds}`);
+
+      if (response.ok) {
+        const methods: PaymentMethodOption[] = await response.json();
+        setPaymentMethods(methods);
+        setPaymentMethod(current =>
+          current && methods.some(method => method.id === current) ? current : methods[0]?.id || null
+        );
+      }
+    } catch (error) {
+      console.error('Failed to fetch payment methods:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (cartItems.length > 0 && selectedDistrict) {
+      fetchShippingQuote();
+    } else {
+      setShippingQuote(null);
+    }
+  }, [cartItems, selectedDistrict]);
+
+  const fetchShippingQuote = async () => {
+    try {
+      const response = await fetch('/api/shipping/quote', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          district: selectedDistrict,
+          items: cartItems.map(item => ({
+            productId: item.productId,
+            variantId: item.variantId || item.variant?.id || null,
+            quantity: item.quantity
+          }))
+        })
+      });
+
+      const data = await response.json();
+      setShippingQuote(response.ok
+        ? { cost: data.shippingCost, zones: data.stores.map((store: any) => store.zoneName), error: null }
+        : { cost: 0, zones: [], error: data.error || 'Delivery is not available to this district' });
+    } catch (error) {
+      console.error('Failed to fetch shipping quote:', error);
+    }
+  };
+
   const calculateTotal = () => {
     return cartItems.reduce((total, item) => {
-      return total + (item.product.price * item.quantity);
+      return total + (getVariantPrice(item.product, item.variant) * item.quantity);
     }, 0);
   };
 
+  const calculateDiscount = () => {
+    return appliedCoupon ? appliedCoupon.discount : 0;
+  };
+
+  const calculateShipping = () => {
+    return shippingQuote ? shippingQuote.cost : 0;
+  };
+
+  const calculateShippingDiscount = () => {
+    return appliedCoupon?.freeShipping ? calculateShipping() : 0;
+  };
+
+  const calculateGrandTotal = () => {
+    return Math.max(0, calculateTotal() - calculateDiscount() + calculateShipping() - calculateShippingDiscount());
+  };
+
+  const handleApplyCoupon = async () => {
+    if (!couponInput.trim()) return;
+
+    setApplyingCoupon(true);
+    setCouponError(null);
+    try {
+      const token = localStorage.getItem('token');
+      const response = await fetch('/api/coupons/validate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          code: couponInput,
+          customerInfo: {
+            phone: selectedPhone,
+            email: user?.email
+          }
+        })
+      });
+
+      const data = await response.json();
+      if (response.ok && data.valid) {
+        setAppliedCoupon({
+          code: data.coupon.code,
+          description: data.coupon.description,
+          discount: data.discount,
+          freeShipping: data.freeShipping
+        });
+      } else {
+        setAppliedCoupon(null);
+        setCouponError(data.error || 'Invalid coupon code');
+      }
+    } catch (error) {
+      console.error('Failed to apply coupon:', error);
+      setCouponError('Failed to apply coupon');
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponInput('');
+    setCouponError(null);
+  };
+
+  const toggleNotificationChannel = (channel: NotificationChannel) => {
+    setNotificationChannels(prev => prev.includes(channel)
+      ? prev.filter(existing => existing !== channel)
+      : [...prev, channel]);
+  };
+
   const handleInputChange = (field: keyof ShippingAddress, value: string) => {
-    setShippingAddress(prev => ({
-      ...prev,
-      [field]: value
-    }));
+    setShippingAddress(prev => {
+      const next = { ...prev, [field]: value };
+      // Picking a district fills in its division; changing the division clears a district outside it
+      if (field === 'district') {
+        next.division = getDistrictDivision(value) || prev.division;
+      }
+      if (field === 'division' && prev.district && getDistrictDivision(prev.district) !== value) {
+        next.district = '';
+      }
+      return next;
+    });
   };
 
-  const isFormValid = () => {
+  const isAddressValid = () => {
+    if (selectedAddress) {
+      return true;
+    }
     return shippingAddress.fullName &&
            shippingAddress.phone &&
-           shippingAddress.address &&
-           shippingAddress.city &&
-           shippingAddress.state &&
-           shippingAddress.zipCode;
+           shippingAddress.addressLine &&
+           shippingAddress.upazila &&
+           shippingAddress.district;
+  };
+
+  const isFormValid = () => {
+    return paymentMethod &&
+           isAddressValid() &&
+           shippingQuote &&
+           !shippingQuote.error;
   };
 
   const handlePlaceOrder = async () => {
     if (!isFormValid()) return;
 
     setPlacing(true);
+    setAddressErrors([]);
     try {
       const token = localStorage.getItem('token');
-      
-      if (paymentMethod === 'sslcommerz') {
-        // First create the order
-        const orderResponse = await fetch('/api/orders', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({
-            shippingAddress: JSON.stringify(shippingAddress),
-            paymentMethod: 'SSLCommerz'
-          })
-        });
+      const selectedMethod = paymentMethods.find(method => method.id === paymentMethod);
 
-        if (orderResponse.ok) {
-          const orderData = await orderResponse.json();
-          const createdOrderId = orderData.order.id;
-          
-          // Initialize SSLCommerz payment
-          const paymentResponse = await fetch('/api/payment/sslcommerz/init', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              orderId: createdOrderId,
-              amount: calculateTotal(),
-              customerInfo: {
-                name: user?.firstName + ' ' + user?.lastName,
-                email: user?.email,
-                phone: shippingAddress.phone
-              },
-              shippingAddress: shippingAddress
-            })
-          });
-
-          if (paymentResponse.ok) {
-            const paymentData = await paymentResponse.json();
-            if (paymentData.success) {
-              // Redirect to SSLCommerz payment gateway
-              window.location.href = paymentData.paymentUrl;
-              return;
-            } else {
-              alert('Failed to initialize payment: ' + paymentData.error);
-            }
-          } else {
-            alert('Failed to initialize payment');
-          }
-        } else {
-          const error = await orderResponse.json();
-          alert(error.error || 'Failed to create order');
-        }
-      } else {
-        // Cash on Delivery
-        const response = await fetch('/api/orders', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({
-            shippingAddress: JSON.stringify(shippingAddress),
-            paymentMethod: 'Cash on Delivery'
-          })
-        });
+      // Create the order first; online methods then hand over to the gateway
+      const orderResponse = await fetch('/api/orders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          ...(selectedAddress
+            ? { addressId: selectedAddress.id }
+            : { shippingAddress, saveAddress }),
+          paymentMethod,
+          couponCode: appliedCoupon?.code,
+          notifications: notificationChannels,
+          total: calculateGrandTotal()
+        })
+      });
 
-        if (response.ok) {
-          const data = await response.json();
-          setOrderId(data.order.id);
-          setOrderPlaced(true);
-        } else {
-          const error = await response.json();
-          alert(error.error || 'Failed to place order');
+      if (!orderResponse.ok) {
+        const error = await orderResponse.json();
+        if (error.code === 'INVALID_ADDRESS') {
+          setAddressErrors(error.details || []);
+          return;
+        }
+        alert(error.error || 'Failed to place order');
+        if (error.code === 'PRICE_MISMATCH') {
+          fetchCartItems();
+        }
+        if (error.code === 'SHIPPING_UNAVAILABLE') {
+          fetchShippingQuote();
         }
+        return;
+      }
+
+      const orderData = await orderResponse.json();
+
+      if (!selectedMethod?.isOnline) {
+        setOrderId(orderData.order.id);
+        setOrderPlaced(true);
+        return;
       }
+
+      const paymentResponse = await fetch('/api/payment/init', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          orderId: orderData.order.id,
+          amount: orderData.order.total,
+          customerInfo: {
+            name: user?.firstName + ' ' + user?.lastName,
+            email: user?.email,
+            phone: selectedPhone
+          }
+        })
+      });
+
+      const paymentData = await paymentResponse.json();
+      if (paymentResponse.ok && paymentData.paymentUrl) {
+        // Redirect to the payment gateway
+        window.location.href = paymentData.paymentUrl;
+        return;
+      }
+
+      alert('Failed to initialize payment: ' + (paymentData.message || paymentData.error || 'Unknown error'));
     } catch (error) {
       console.error('Failed to place order:', error);
       alert('Failed to place order. Please try again.');
@@ -276,66 +507,184 @@ const CheckoutPage: React.FC = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="fullName">Full Name *</Label>
-                    <Input
-                      id="fullName"
-                      value={shippingAddress.fullName}
-                      onChange={(e) => handleInputChange('fullName', e.target.value)}
-                      placeholder="Enter your full name"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="phone">Phone Number *</Label>
-                    <Input
-                      id="phone"
-                      value={shippingAddress.phone}
-                      onChange={(e) => handleInputChange('phone', e.target.value)}
-                      placeholder="Enter your phone number"
-                    />
+                {savedAddresses.length > 0 && (
+                  <div className="space-y-2">
+                    {savedAddresses.map(address => (
+                      <label
+                        key={address.id}
+                        className={`flex items-start space-x-3 border rounded-lg p-3 cursor-pointer transition-colors ${
+                          selectedAddressId === address.id
+                            ? 'border-blue-500 bg-blue-50'
+                            : 'border-gray-200 hover:border-gray-300'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="savedAddress"
+                          checked={selectedAddressId === address.id}
+                          onChange={() => setSelectedAddressId(address.id)}
+                          className="mt-1"
+                        />
+                        <div className="text-sm">
+                          <p className="font-medium">
+                            {address.label || address.fullName || 'Saved address'}
+                            {address.isDefault && <span className="ml-2 text-xs text-blue-600">Default</span>}
+                          </p>
+                          {address.fullName && <p className="text-gray-700">{address.fullName}, {address.phone}</p>}
+                          <p className="text-gray-600">
+                            {[address.street, address.upazila || address.city, address.district || address.state].filter(Boolean).join(', ')}
+                          </p>
+                        </div>
+                      </label>
+                    ))}
+                    <label
+                      className={`flex items-center space-x-3 border rounded-lg p-3 cursor-pointer transition-colors ${
+                        selectedAddressId === ''
+                          ? 'border-blue-500 bg-blue-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="savedAddress"
+                        checked={selectedAddressId === ''}
+                        onChange={() => setSelectedAddressId('')}
+                      />
+                      <span className="text-sm font-medium">Deliver to a new address</span>
+                    </label>
                   </div>
-                </div>
-                
-                <div>
-                  <Label htmlFor="address">Address *</Label>
-                  <Textarea
-                    id="address"
-                    value={shippingAddress.address}
-                    onChange={(e) => handleInputChange('address', e.target.value)}
-                    placeholder="Enter your complete address"
-                    rows={3}
-                  />
-                </div>
+                )}
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div>
-                    <Label htmlFor="city">City *</Label>
-                    <Input
-                      id="city"
-                      value={shippingAddress.city}
-                      onChange={(e) => handleInputChange('city', e.target.value)}
-                      placeholder="City"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="state">State *</Label>
-                    <Input
-                      id="state"
-                      value={shippingAddress.state}
-                      onChange={(e) => handleInputChange('state', e.target.value)}
-                      placeholder="State"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="zipCode">ZIP Code *</Label>
-                    <Input
-                      id="zipCode"
-                      value={shippingAddress.zipCode}
-                      onChange={(e) => handleInputChange('zipCode', e.target.value)}
-                      placeholder="ZIP Code"
-                    />
-                  </div>
+                {!selectedAddress && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="fullName">Full Name *</Label>
+                        <Input
+                          id="fullName"
+                          value={shippingAddress.fullName}
+                          onChange={(e) => handleInputChange('fullName', e.target.value)}
+                          placeholder="Enter your full name"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="phone">Phone Number *</Label>
+                        <Input
+                          id="phone"
+                          value={shippingAddress.phone}
+                          onChange={(e) => handleInputChange('phone', e.target.value)}
+                          placeholder="01XXXXXXXXX"
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="addressLine">Address *</Label>
+                      <Textarea
+                        id="addressLine"
+                        value={shippingAddress.addressLine}
+                        onChange={(e) => handleInputChange('addressLine', e.target.value)}
+                        placeholder="House, road, area"
+                        rows={2}
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="division">Division</Label>
+                        <select
+                          id="division"
+                          value={shippingAddress.division}
+                          onChange={(e) => handleInputChange('division', e.target.value)}
+                          className="w-full h-10 px-3 border border-gray-300 rounded-md bg-white text-sm"
+                        >
+                          <option value="">All divisions</option>
+                          {Object.keys(BANGLADESH_DIVISIONS).map(division => (
+                            <option key={division} value={division}>{division}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <Label htmlFor="district">District *</Label>
+                        <select
+                          id="district"
+                          value={shippingAddress.district}
+                          onChange={(e) => handleInputChange('district', e.target.value)}
+                          className="w-full h-10 px-3 border border-gray-300 rounded-md bg-white text-sm"
+                        >
+                          <option value="">Select district</option>
+                          {(shippingAddress.division
+                            ? [...BANGLADESH_DIVISIONS[shippingAddress.division]].sort()
+                            : BANGLADESH_DISTRICTS
+                          ).map(district => (
+                            <option key={district} value={district}>{district}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="upazila">Upazila / Thana *</Label>
+                        <Input
+                          id="upazila"
+                          value={shippingAddress.upazila}
+                          onChange={(e) => handleInputChange('upazila', e.target.value)}
+                          placeholder="e.g., Dhanmondi"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="postcode">Postcode</Label>
+                        <Input
+                          id="postcode"
+                          value={shippingAddress.postcode}
+                          onChange={(e) => handleInputChange('postcode', e.target.value)}
+                          placeholder="e.g., 1209"
+                        />
+                      </div>
+                    </div>
+
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={saveAddress}
+                        onChange={(e) => setSaveAddress(e.target.checked)}
+                      />
+                      <span>Save this address for next time</span>
+                    </label>
+                  </>
+                )}
+
+                {addressErrors.length > 0 && (
+                  <ul className="text-sm text-red-600 list-disc pl-5">
+                    {addressErrors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                )}
+
+                {shippingQuote?.error && (
+                  <p className="text-sm text-red-600">{shippingQuote.error}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Order updates */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Order Updates</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-gray-600 mb-3">Tell me when my order is confirmed, shipped or delivered by:</p>
+                <div className="flex flex-wrap gap-4">
+                  {NOTIFICATION_OPTIONS.map(option => (
+                    <label key={option.channel} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={notificationChannels.includes(option.channel)}
+                        onChange={() => toggleNotificationChannel(option.channel)}
+                      />
+                      <span>{option.label}</span>
+                    </label>
+                  ))}
                 </div>
               </CardContent>
             </Card>
@@ -349,77 +698,53 @@ const CheckoutPage: React.FC = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {/* SSLCommerz Payment */}
-                <div 
-                  className={`border rounded-lg p-4 cursor-pointer transition-colors ${
-                    paymentMethod === 'sslcommerz' 
-                      ? 'border-blue-500 bg-blue-50' 
-                      : 'border-gray-200 hover:border-gray-300'
-                  }`}
-                  onClick={() => setPaymentMethod('sslcommerz')}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center">
-                      <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-full flex items-center justify-center mr-3">
-                        💳
-                      </div>
-                      <div>
-                        <p className="font-semibold text-gray-900">Online Payment</p>
-                        <p className="text-sm text-gray-600">Pay securely with card, mobile banking, or net banking</p>
-                      </div>
-                    </div>
-                    <div className={`w-5 h-5 rounded-full flex items-center justify-center ${
-                      paymentMethod === 'sslcommerz' 
-                        ? 'bg-blue-600' 
-                        : 'border-2 border-gray-300'
-                    }`}>
-                      {paymentMethod === 'sslcommerz' && <CheckCircle className="w-4 h-4 text-white" />}
-                    </div>
-                  </div>
-                  {paymentMethod === 'sslcommerz' && (
-                    <div className="mt-3 pt-3 border-t border-blue-200">
-                      <p className="text-sm text-blue-700">
-                        Secured by SSLCommerz. Supports Visa, Mastercard, Mobile Banking (bKash, Rocket, Nagad), and Internet Banking.
-                      </p>
-                    </div>
-                  )}
-                </div>
+                {paymentMethods.length === 0 && (
+                  <p className="text-sm text-gray-600">No payment methods are available for this order.</p>
+                )}
+                {paymentMethods.map((method) => {
+                  const icon = paymentMethodIcons[method.id] || paymentMethodIcons.sslcommerz;
+                  const selected = paymentMethod === method.id;
 
-                {/* Cash on Delivery */}
-                <div 
-                  className={`border rounded-lg p-4 cursor-pointer transition-colors ${
-                    paymentMethod === 'cod' 
-                      ? 'border-blue-500 bg-blue-50' 
-                      : 'border-gray-200 hover:border-gray-300'
-                  }`}
-                  onClick={() => setPaymentMethod('cod')}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center">
-                      <div className="w-8 h-8 bg-green-600 text-white rounded-full flex items-center justify-center mr-3">
-                        💰
-                      </div>
-                      <div>
-                        <p className="font-semibold text-gray-900">Cash on Delivery</p>
-                        <p className="text-sm text-gray-600">Pay when your order arrives</p>
+                  return (
+                    <div 
+                      key={method.id}
+                      className={`border rounded-lg p-4 cursor-pointer transition-colors ${
+                        selected 
+                          ? 'border-blue-500 bg-blue-50' 
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                      onClick={() => setPaymentMethod(method.id)}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center">
+                          <div className={`w-8 h-8 ${icon.className} text-white rounded-full flex items-center justify-center mr-3`}>
+                            {icon.icon}
+                          </div>
+                          <div>
+                            <p className="font-semibold text-gray-900">{method.displayName}</p>
+                            <p className="text-sm text-gray-600">{method.description}</p>
+                          </div>
+                        </div>
+                        <div className={`w-5 h-5 rounded-full flex items-center justify-center ${
+                          selected 
+                            ? 'bg-blue-600' 
+                            : 'border-2 border-gray-300'
+                        }`}>
+                          {selected && <CheckCircle className="w-4 h-4 text-white" />}
+                        </div>
                       </div>
+                      {selected && (
+                        <div className="mt-3 pt-3 border-t border-blue-200">
+                          <p className="text-sm text-blue-700">
+                            {method.isOnline
+                              ? `You'll be redirected to ${method.displayName} to complete your payment securely.`
+                              : "You'll pay in cash when your order is delivered to your doorstep. Please have the exact amount ready."}
+                          </p>
+                        </div>
+                      )}
                     </div>
-                    <div className={`w-5 h-5 rounded-full flex items-center justify-center ${
-                      paymentMethod === 'cod' 
-                        ? 'bg-blue-600' 
-                        : 'border-2 border-gray-300'
-                    }`}>
-                      {paymentMethod === 'cod' && <CheckCircle className="w-4 h-4 text-white" />}
-                    </div>
-                  </div>
-                  {paymentMethod === 'cod' && (
-                    <div className="mt-3 pt-3 border-t border-blue-200">
-                      <p className="text-sm text-blue-700">
-                        You'll pay in cash when your order is delivered to your doorstep. Please have the exact amount ready.
-                      </p>
-                    </div>
-                  )}
-                </div>
+                  );
+                })}
               </CardContent>
             </Card>
           </div>
@@ -449,26 +774,89 @@ const CheckoutPage: React.FC = () => {
                         </div>
                         <div className="flex-1">
                           <p className="font-medium text-sm">{item.product.name}</p>
+                          {item.variant && (
+                            <p className="text-xs text-gray-600">{formatVariantLabel(item.variant.options)}</p>
+                          )}
                           <p className="text-xs text-gray-600">Qty: {item.quantity}</p>
                         </div>
                       </div>
-                      <p className="font-medium">৳{(item.product.price * item.quantity).toFixed(2)}</p>
+                      <p className="font-medium">৳{(getVariantPrice(item.product, item.variant) * item.quantity).toFixed(2)}</p>
                     </div>
                   ))}
                 </div>
 
+                {/* Coupon */}
+                <div className="border-t pt-4">
+                  {appliedCoupon ? (
+                    <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg p-3">
+                      <div className="flex items-center">
+                        <Tag className="w-4 h-4 text-green-600 mr-2" />
+                        <div>
+                          <p className="font-mono font-semibold text-sm text-green-800">{appliedCoupon.code}</p>
+                          {appliedCoupon.description && (
+                            <p className="text-xs text-green-700">{appliedCoupon.description}</p>
+                          )}
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleRemoveCoupon}
+                        className="text-xs text-gray-600 hover:text-red-600"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex space-x-2">
+                      <Input
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                        placeholder="Coupon code"
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleApplyCoupon}
+                        disabled={!couponInput.trim() || applyingCoupon}
+                      >
+                        {applyingCoupon ? 'Applying...' : 'Apply'}
+                      </Button>
+                    </div>
+                  )}
+                  {couponError && (
+                    <p className="text-xs text-red-600 mt-2">{couponError}</p>
+                  )}
+                </div>
+
                 <div className="border-t pt-4 space-y-2">
                   <div className="flex justify-between">
                     <span>Subtotal</span>
                     <span>৳{calculateTotal().toFixed(2)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Shipping</span>
-                    <span className="text-green-600">Free</span>
+                    <span>
+                      Shipping
+                      {shippingQuote && shippingQuote.zones.length > 0 && (
+                        <span className="block text-xs text-gray-500">{shippingQuote.zones.join(', ')}</span>
+                      )}
+                    </span>
+                    {!shippingQuote ? (
+                      <span className="text-sm text-gray-500">Select district</span>
+                    ) : calculateShipping() - calculateShippingDiscount() > 0 ? (
+                      <span>৳{calculateShipping().toFixed(2)}</span>
+                    ) : (
+                      <span className="text-green-600">Free</span>
+                    )}
                   </div>
+                  {calculateDiscount() > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Discount ({appliedCoupon?.code})</span>
+                      <span>-৳{calculateDiscount().toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between font-semibold text-lg border-t pt-2">
                     <span>Total</span>
-                    <span>৳{calculateTotal().toFixed(2)}</span>
+                    <span>৳{calculateGrandTotal().toFixed(2)}</span>
                   </div>
                 </div>
 
@@ -480,7 +868,7 @@ const CheckoutPage: React.FC = () => {
                 >
                   {placing 
                     ? 'Processing...' 
-                    : paymentMethod === 'sslcommerz' 
+                    : paymentMethods.find(method => method.id === paymentMethod)?.isOnline 
                       ? 'Proceed to Payment' 
                       : 'Place Order'
                   }
@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/router';
+import Head from 'next/head';
+import axios from 'axios';
+import { useAuth } from '../../contexts/AuthContext';
+import { PERMISSION_LABELS, ROLE_LABELS, StorePermission, StoreRole } from '../../lib/permissions';
+
+interface Invitation {
+  store: {
+    id: string;
+    name: string;
+    subdomain: string;
+  };
+  email: string;
+  role: StoreRole;
+  permissions: StorePermission[];
+  expiresAt: string;
+  hasAccount: boolean;
+}
+
+const AcceptInvitation: React.FC = () => {
+  const router = useRouter();
+  const { token } = router.query;
+  const { user, loading: authLoading } = useAuth();
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState({
+    firstName: '',
+    lastName: '',
+    password: ''
+  });
+
+  useEffect(() => {
+    if (typeof token === 'string') {
+      fetchInvitation(token);
+    }
+  }, [token]);
+
+  const fetchInvitation = async (invitationToken: string) => {
+    try {
+      const response = await axios.get(`/api/staff/invitations/${invitationToken}`);
+      setInvitation(response.data);
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to load invitation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const accept = async (body: Record<string, string> = {}) => {
+    const response = await axios.post(`/api/staff/invitations/${token}`, body);
+
+    // The new session carries the membership, so reload into the admin panel with it
+    localStorage.setItem('token', response.data.token);
+    window.location.href = '/admin';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitation) return;
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      if (invitation.hasAccount) {
+        await accept(user ? {} : { password: formData.password });
+      } else {
+        await accept(formData);
+      }
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Failed to accept invitation');
+      setSubmitting(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.name]: e.target.value
+    });
+  };
+
+  const signedInAsOther = invitation?.hasAccount && user && user.email.toLowerCase() !== invitation.email.toLowerCase();
+
+  return (
+    <>
+      <Head>
+        <title>Join {invitation?.store.name || 'store'} - ShopHub</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+        <div className="sm:mx-auto sm:w-full sm:max-w-md">
+          <div className="flex justify-center">
+            <div className="bg-gradient-to-r from-orange-500 to-red-600 text-white font-bold text-3xl px-4 py-2 rounded">
+              S
+            </div>
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {invitation ? `Join ${invitation.store.name}` : 'Store invitation'}
+          </h2>
+        </div>
+
+        <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+          <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+            {(loading || authLoading) && (
+              <div className="flex items-center justify-center h-32">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-4 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            {!loading && !authLoading && invitation && (
+              <form className="space-y-6" onSubmit={handleSubmit}>
+                <div className="text-sm text-gray-600">
+                  <p>
+                    <span className="font-medium">{invitation.email}</span> has been invited to join as{' '}
+                    <span className="font-medium">{ROLE_LABELS[invitation.role]}</span>.
+                  </p>
+                  {invitation.role === 'STAFF' && invitation.permissions.length > 0 && (
+                    <ul className="mt-2 list-disc list-inside">
+                      {invitation.permissions.map(permission => (
+                        <li key={permission}>{PERMISSION_LABELS[permission]}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {signedInAsOther && (
+                  <p className="text-sm text-red-600">
+                    You are signed in as {user?.email}. Sign out and sign in as {invitation.email} to accept.
+                  </p>
+                )}
+
+                {!invitation.hasAccount && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="firstName" className="block text-sm font-medium text-gray-700">
+                        First name
+                      </label>
+                      <input
+                        id="firstName"
+                        name="firstName"
+                        type="text"
+                        required
+                        value={formData.firstName}
+                        onChange={handleChange}
+                        className="mt-1 appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-orange-500 focus:border-orange-500 sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="lastName" className="block text-sm font-medium text-gray-700">
+                        Last name
+                      </label>
+                      <input
+                        id="lastName"
+                        name="lastName"
+                        type="text"
+                        required
+                        value={formData.lastName}
+                        onChange={handleChange}
+                        className="mt-1 appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-orange-500 focus:border-orange-500 sm:text-sm"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {(!invitation.hasAccount || !user) && (
+                  <div>
+                    <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                      {invitation.hasAccount ? 'Password' : 'Choose a password'}
+                    </label>
+                    <input
+                      id="password"
+                      name="password"
+                      type="password"
+                      required
+                      minLength={invitation.hasAccount ? undefined : 6}
+                      value={formData.password}
+                      onChange={handleChange}
+                      className="mt-1 appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-orange-500 focus:border-orange-500 sm:text-sm"
+                    />
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={submitting || !!signedInAsOther}
+                  className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submitting ? 'Joining...' : invitation.hasAccount && !user ? 'Sign in and join' : 'Accept invitation'}
+                </button>
+              </form>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AcceptInvitation;
@@ -7,16 +7,36 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Badge } from '../components/ui/badge';
 import { Button } from '../components/ui/button';
 import { Package, Clock, CheckCircle, Truck, X } from 'lucide-react';
+import { formatVariantLabel } from '../lib/productVariants';
+import OrderTimeline, { OrderStatusEvent } from '../components/OrderTimeline';
 
 interface OrderItem {
   id: string;
   quantity: number;
   price: number;
+  productName: string;
+  productImage: string | null;
+  variantLabel: string | null;
   product: {
     id: string;
     name: string;
-    imageUrl?: string;
-  };
+    image?: string;
+  } | null;
+  variant?: {
+    id: string;
+    sku: string | null;
+    options: Record<string, string>;
+  } | null;
+}
+
+interface OrderAddress {
+  fullName: string;
+  phone: string;
+  addressLine: string;
+  upazila: string;
+  district: string;
+  division: string;
+  postcode: string | null;
 }
 
 interface Order {
@@ -26,8 +46,15 @@ interface Order {
   paymentMethod: string;
   paymentStatus: 'PENDING' | 'PAID' | 'FAILED' | 'REFUNDED';
   shippingAddress: string;
+  address: OrderAddress | null;
+  shippingCost: number;
+  courier: string | null;
+  trackingNumber: string | null;
+  courierStatus: string | null;
+  trackingUrl: string | null;
   createdAt: string;
   orderItems: OrderItem[];
+  statusEvents: OrderStatusEvent[];
 }
 
 const OrdersPage: React.FC = () => {
@@ -113,11 +140,22 @@ const OrdersPage: React.FC = () => {
     }
   };
 
-  const parseShippingAddress = (addressString: string) => {
+  const parseShippingAddress = (order: Order) => {
+    // Orders placed before addresses were structured only have the text
+    if (order.address) {
+      return {
+        fullName: order.address.fullName,
+        phone: order.address.phone,
+        address: order.address.addressLine,
+        city: order.address.upazila,
+        state: order.address.district,
+        zipCode: order.address.postcode || ''
+      };
+    }
     try {
-      return JSON.parse(addressString);
+      return JSON.parse(order.shippingAddress);
     } catch {
-      return { fullName: 'N/A', address: addressString };
+      return { fullName: 'N/A', address: order.shippingAddress };
     }
   };
 
@@ -169,7 +207,7 @@ const OrdersPage: React.FC = () => {
         
         <div className="space-y-6">
           {orders.map((order) => {
-            const shippingAddr = parseShippingAddress(order.shippingAddress);
+            const shippingAddr = parseShippingAddress(order);
             
             return (
               <Card key={order.id}>
@@ -196,6 +234,9 @@ const OrdersPage: React.FC = () => {
                         </Badge>
                       </div>
                       <p className="font-semibold text-lg">৳{order.total.toFixed(2)}</p>
+                      {order.shippingCost > 0 && (
+                        <p className="text-xs text-gray-500">incl. ৳{order.shippingCost.toFixed(2)} delivery</p>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -208,10 +249,10 @@ const OrdersPage: React.FC = () => {
                         {order.orderItems.map((item) => (
                           <div key={item.id} className="flex items-center space-x-4 p-3 bg-gray-50 rounded-lg">
                             <div className="w-16 h-16 bg-gray-200 rounded-lg flex items-center justify-center">
-                              {item.product.imageUrl ? (
+                              {item.productImage ? (
                                 <img
-                                  src={item.product.imageUrl}
-                                  alt={item.product.name}
+                                  src={item.productImage}
+                                  alt={item.productName}
                                   className="w-full h-full object-cover rounded-lg"
                                 />
                               ) : (
@@ -219,7 +260,10 @@ const OrdersPage: React.FC = () => {
                               )}
                             </div>
                             <div className="flex-1">
-                              <p className="font-medium">{item.product.name}</p>
+                              <p className="font-medium">{item.productName}</p>
+                              {(item.variantLabel || item.variant) && (
+                                <p className="text-sm text-gray-600">{item.variantLabel || formatVariantLabel(item.variant?.options)}</p>
+                              )}
                               <p className="text-sm text-gray-600">Quantity: {item.quantity}</p>
                               <p className="text-sm text-gray-600">Price: ৳{item.price.toFixed(2)} each</p>
                             </div>
@@ -258,6 +302,13 @@ const OrdersPage: React.FC = () => {
                         </div>
                       </div>
 
+                      <div>
+                        <h4 className="font-medium mb-2">Order History</h4>
+                        <div className="bg-gray-50 p-3 rounded-lg">
+                          <OrderTimeline events={order.statusEvents} />
+                        </div>
+                      </div>
+
                       {/* Delivery Information */}
                       {order.status === 'SHIPPED' && (
                         <div className="bg-blue-50 p-3 rounded-lg">
@@ -269,6 +320,27 @@ const OrdersPage: React.FC = () => {
                         </div>
                       )}
 
+                      {order.trackingNumber && (
+                        <div>
+                          <h4 className="font-medium mb-2">Tracking</h4>
+                          <div className="text-sm text-gray-600 bg-gray-50 p-3 rounded-lg">
+                            <p className="capitalize">{order.courier}</p>
+                            <p className="font-mono">{order.trackingNumber}</p>
+                            {order.courierStatus && <p className="text-xs mt-1">{order.courierStatus}</p>}
+                            {order.trackingUrl && (
+                              <a
+                                href={order.trackingUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-blue-600 hover:text-blue-800"
+                              >
+                                Track your parcel
+                              </a>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
                       {order.status === 'DELIVERED' && (
                         <div className="bg-green-50 p-3 rounded-lg">
                           <div className="flex items-center text-green-800 mb-1">
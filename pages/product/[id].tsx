@@ -6,6 +6,8 @@ import { useAuth } from '../../contexts/AuthContext';
 import { useCart } from '../../contexts/CartContext';
 import Navbar from '../../components/Navbar';
 import Footer from '../../components/Footer';
+import { formatVariantLabel, getVariantKey, getVariantPrice } from '../../lib/productVariants';
+import { BANGLADESH_DISTRICTS } from '../../lib/bangladeshDistricts';
 
 interface Product {
   id: string;
@@ -35,6 +37,20 @@ interface Product {
     url: string;
     isMain: boolean;
   }>;
+  options?: Array<{
+    id: string;
+    name: string;
+    values: string[];
+  }>;
+  variants?: Array<{
+    id: string;
+    sku: string | null;
+    options: Record<string, string>;
+    price: number | null;
+    stock: number;
+    image: string | null;
+    isActive: boolean;
+  }>;
 }
 
 const ProductDetail: React.FC = () => {
@@ -47,9 +63,12 @@ const ProductDetail: React.FC = () => {
   const [error, setError] = useState('');
   const [quantity, setQuantity] = useState(1);
   const [selectedImage, setSelectedImage] = useState(0);
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
   const [showCheckout, setShowCheckout] = useState(false);
   const [orderData, setOrderData] = useState({
     shippingAddress: '',
+    upazila: '',
+    district: '',
     phoneNumber: '',
     customerName: '',
     customerEmail: ''
@@ -61,11 +80,18 @@ const ProductDetail: React.FC = () => {
   const [showPaymentCheckout, setShowPaymentCheckout] = useState(false);
   const [paymentOrderData, setPaymentOrderData] = useState({
     shippingAddress: '',
+    upazila: '',
+    district: '',
     phoneNumber: '',
     customerName: '',
     customerEmail: ''
   });
 
+  // Channels the customer wants order updates on
+  const [notificationChannels, setNotificationChannels] = useState<string[]>(['SMS', 'EMAIL']);
+
+  const [shippingQuote, setShippingQuote] = useState<{ cost: number; error: string | null } | null>(null);
+
   useEffect(() => {
     if (id) {
       fetchProduct();
@@ -83,6 +109,13 @@ const ProductDetail: React.FC = () => {
       
       const data = await response.json();
       setProduct(data);
+
+      // Preselect the first in-stock variant so price and stock reflect a real SKU
+      const activeVariants = (data.variants || []).filter((variant: any) => variant.isActive);
+      if (activeVariants.length > 0) {
+        const defaultVariant = activeVariants.find((variant: any) => variant.stock > 0) || activeVariants[0];
+        setSelectedOptions(defaultVariant.options || {});
+      }
       
       // Set the main image as selected by default
       if (data.images && data.images.length > 0) {
@@ -97,12 +130,70 @@ const ProductDetail: React.FC = () => {
     }
   };
 
+  const activeVariants = (product?.variants || []).filter(variant => variant.isActive);
+  const hasVariants = activeVariants.length > 0;
+  const selectedVariant = hasVariants
+    ? activeVariants.find(variant => getVariantKey(variant.options) === getVariantKey(selectedOptions)) || null
+    : null;
+  const unitPrice = product ? getVariantPrice(product, selectedVariant) : 0;
+  const availableStock = product
+    ? hasVariants
+      ? selectedVariant?.stock || 0
+      : product.stock
+    : 0;
+
+  const checkoutDistrict = showPaymentCheckout
+    ? paymentOrderData.district
+    : showCheckout
+      ? orderData.district
+      : '';
+
+  useEffect(() => {
+    if (product && checkoutDistrict) {
+      fetchShippingQuote(checkoutDistrict);
+    } else {
+      setShippingQuote(null);
+    }
+  }, [checkoutDistrict, quantity, selectedVariant?.id]);
+
+  const fetchShippingQuote = async (district: string) => {
+    if (!product) return;
+
+    try {
+      const response = await fetch('/api/shipping/quote', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          district,
+          items: [{ productId: product.id, variantId: selectedVariant?.id || null, quantity }]
+        }),
+      });
+
+      const data = await response.json();
+      setShippingQuote(response.ok
+        ? { cost: data.shippingCost, error: null }
+        : { cost: 0, error: data.error || 'Delivery is not available to this district' });
+    } catch (error) {
+      console.error('Error fetching shipping quote:', error);
+    }
+  };
+
+  const shippingCost = shippingQuote ? shippingQuote.cost : 0;
+  const canShip = !!shippingQuote && !shippingQuote.error;
+
+  const handleOptionSelect = (optionName: string, value: string) => {
+    setSelectedOptions(prev => ({ ...prev, [optionName]: value }));
+    setQuantity(1);
+  };
+
   const handleAddToCart = async () => {
     if (!product) return;
     
     setAddingToCart(true);
     try {
-      await addToCart(product.id, quantity);
+      await addToCart(product.id, quantity, selectedVariant?.id || null);
       // Show success message based on user login status
       if (user) {
         alert('Product added to cart successfully!');
@@ -126,7 +217,7 @@ const ProductDetail: React.FC = () => {
   };
 
   const handlePaymentOrder = async () => {
-    if (!product || !paymentOrderData.shippingAddress || !paymentOrderData.phoneNumber || !paymentOrderData.customerName) {
+    if (!product || !paymentOrderData.shippingAddress || !paymentOrderData.upazila || !paymentOrderData.district || !paymentOrderData.phoneNumber || !paymentOrderData.customerName) {
       alert('Please fill in all required fields');
       return;
     }
@@ -137,25 +228,25 @@ const ProductDetail: React.FC = () => {
       const orderPayload = {
         items: [{
           productId: product.id,
+          variantId: selectedVariant?.id || null,
           quantity: quantity,
-          price: product.price
+          price: unitPrice
         }],
-        total: product.price * quantity,
-        shippingAddress: JSON.stringify({
+        total: unitPrice * quantity + shippingCost,
+        shippingAddress: {
           fullName: paymentOrderData.customerName,
           phone: paymentOrderData.phoneNumber,
-          address: paymentOrderData.shippingAddress,
-          city: 'Customer City',
-          state: 'Customer State',
-          zipCode: '12345',
-          country: 'Bangladesh'
-        }),
-        paymentMethod: 'SSLCommerz',
+          addressLine: paymentOrderData.shippingAddress,
+          upazila: paymentOrderData.upazila,
+          district: paymentOrderData.district
+        },
+        paymentMethod: 'sslcommerz',
         customerInfo: {
           name: paymentOrderData.customerName,
           phone: paymentOrderData.phoneNumber,
           email: paymentOrderData.customerEmail || 'customer@example.com'
         },
+        notifications: notificationChannels,
         isDirectOrder: true
       };
 
@@ -170,34 +261,25 @@ const ProductDetail: React.FC = () => {
 
       if (!orderResponse.ok) {
         const errorData = await orderResponse.json();
-        throw new Error(errorData.error || 'Failed to create order');
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to create order');
       }
 
       const orderData = await orderResponse.json();
       const createdOrderId = orderData.order.id;
 
       // Initialize SSLCommerz payment
-      const paymentResponse = await fetch('/api/payment/sslcommerz/init', {
+      const paymentResponse = await fetch('/api/payment/init', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           orderId: createdOrderId,
-          amount: product.price * quantity,
+          amount: orderData.order.total,
           customerInfo: {
             name: paymentOrderData.customerName,
             email: paymentOrderData.customerEmail || 'customer@example.com',
             phone: paymentOrderData.phoneNumber
-          },
-          shippingAddress: {
-            fullName: paymentOrderData.customerName,
-            phone: paymentOrderData.phoneNumber,
-            address: paymentOrderData.shippingAddress,
-            city: 'Customer City',
-            state: 'Customer State',
-            zipCode: '12345',
-            country: 'Bangladesh'
           }
         })
       });
@@ -222,8 +304,32 @@ const ProductDetail: React.FC = () => {
     }
   };
 
+  const toggleNotificationChannel = (channel: string) => {
+    setNotificationChannels(prev => prev.includes(channel)
+      ? prev.filter(existing => existing !== channel)
+      : [...prev, channel]);
+  };
+
+  const renderNotificationOptions = () => (
+    <div>
+      <span className="block text-sm font-medium text-gray-700 mb-1">Send me order updates by</span>
+      <div className="flex gap-4">
+        {[['SMS', 'SMS'], ['WHATSAPP', 'WhatsApp'], ['EMAIL', 'Email']].map(([channel, label]) => (
+          <label key={channel} className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={notificationChannels.includes(channel)}
+              onChange={() => toggleNotificationChannel(channel)}
+            />
+            <span>{label}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
   const handlePlaceOrder = async () => {
-    if (!product || !orderData.shippingAddress || !orderData.phoneNumber || !orderData.customerName) {
+    if (!product || !orderData.shippingAddress || !orderData.upazila || !orderData.district || !orderData.phoneNumber || !orderData.customerName) {
       alert('Please fill in all required fields');
       return;
     }
@@ -233,17 +339,25 @@ const ProductDetail: React.FC = () => {
       const orderPayload = {
         items: [{
           productId: product.id,
+          variantId: selectedVariant?.id || null,
           quantity: quantity,
-          price: product.price
+          price: unitPrice
         }],
-        total: product.price * quantity,
-        shippingAddress: orderData.shippingAddress,
-        paymentMethod: 'Cash on Delivery',
+        total: unitPrice * quantity + shippingCost,
+        shippingAddress: {
+          fullName: orderData.customerName,
+          phone: orderData.phoneNumber,
+          addressLine: orderData.shippingAddress,
+          upazila: orderData.upazila,
+          district: orderData.district
+        },
+        paymentMethod: 'cod',
         customerInfo: {
           name: orderData.customerName,
           phone: orderData.phoneNumber,
           email: orderData.customerEmail || ''
         },
+        notifications: notificationChannels,
         isDirectOrder: true
       };
 
@@ -257,12 +371,12 @@ const ProductDetail: React.FC = () => {
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to place order');
+        throw new Error(errorData.details?.join(', ') || errorData.error || 'Failed to place order');
       }
 
       setOrderSuccess(true);
       setShowCheckout(false);
-      setOrderData({ shippingAddress: '', phoneNumber: '', customerName: '', customerEmail: '' });
+      setOrderData({ shippingAddress: '', upazila: '', district: '', phoneNumber: '', customerName: '', customerEmail: '' });
       setQuantity(1);
       router.push(`/thank-you?name=${orderData.customerName}`);
     } catch (error) {
@@ -440,7 +554,9 @@ const ProductDetail: React.FC = () => {
                 <div className="relative h-96 w-full sm:h-[500px] lg:h-[600px]">
                   <Image
                     src={
-                      product.images && product.images.length > 0
+                      selectedVariant?.image
+                        ? selectedVariant.image
+                        : product.images && product.images.length > 0
                         ? product.images[selectedImage]?.url || 
                           product.images.find(img => img.isMain)?.url ||
                           product.images[0]?.url ||
@@ -462,7 +578,7 @@ const ProductDetail: React.FC = () => {
 
               <div className="mt-3">
                 <h2 className="sr-only">Product information</h2>
-                <p className="text-3xl tracking-tight text-gray-900">৳{product.price.toFixed(2)}</p>
+                <p className="text-3xl tracking-tight text-gray-900">৳{unitPrice.toFixed(2)}</p>
               </div>
 
               {/* Reviews */}
@@ -486,32 +602,72 @@ const ProductDetail: React.FC = () => {
                 </div>
               </div>
 
+              {/* Variant options */}
+              {hasVariants && product.options && product.options.length > 0 && (
+                <div className="mt-6 space-y-4">
+                  {product.options.map(option => (
+                    <div key={option.id}>
+                      <h3 className="text-sm font-medium text-gray-900">{option.name}</h3>
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {option.values.map(value => {
+                          const isSelected = selectedOptions[option.name] === value;
+                          const isAvailable = activeVariants.some(variant =>
+                            variant.options[option.name] === value && variant.stock > 0
+                          );
+
+                          return (
+                            <button
+                              key={value}
+                              type="button"
+                              onClick={() => handleOptionSelect(option.name, value)}
+                              className={`px-4 py-2 border rounded-md text-sm font-medium transition-colors ${
+                                isSelected
+                                  ? 'border-blue-600 bg-blue-50 text-blue-700'
+                                  : 'border-gray-300 text-gray-700 hover:border-gray-400'
+                              } ${!isAvailable ? 'line-through opacity-50' : ''}`}
+                            >
+                              {value}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                  {selectedVariant?.sku && (
+                    <p className="text-sm text-gray-500">SKU: {selectedVariant.sku}</p>
+                  )}
+                  {!selectedVariant && (
+                    <p className="text-sm text-red-600">This combination is not available.</p>
+                  )}
+                </div>
+              )}
+
               {/* Stock status */}
               <div className="mt-6">
                 <div className="flex items-center">
                   <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                    product.stock > 0 
-                      ? product.stock > 10 
+                    availableStock > 0 
+                      ? availableStock > 10 
                         ? 'bg-green-100 text-green-800' 
                         : 'bg-yellow-100 text-yellow-800'
                       : 'bg-red-100 text-red-800'
                   }`}>
-                    {product.stock > 0 
-                      ? product.stock > 10 
+                    {availableStock > 0 
+                      ? availableStock > 10 
                         ? 'In Stock' 
-                        : `Only ${product.stock} left`
+                        : `Only ${availableStock} left`
                       : 'Out of Stock'
                     }
                   </span>
-                  {product.stock > 0 && (
+                  {availableStock > 0 && (
                     <span className="ml-2 text-sm text-gray-500">
-                      ({product.stock} available)
+                      ({availableStock} available)
                     </span>
                   )}
                 </div>
               </div>
 
-              {product.stock > 0 && (
+              {availableStock > 0 && (
                 <div className="mt-8">
                   {/* Quantity selector */}
                   <div className="flex items-center space-x-4 mb-6">
@@ -532,8 +688,8 @@ const ProductDetail: React.FC = () => {
                       <span className="px-4 py-2 text-gray-900 min-w-[3rem] text-center">{quantity}</span>
                       <button
                         type="button"
-                        onClick={() => setQuantity(Math.min(product.stock, quantity + 1))}
-                        disabled={quantity >= product.stock}
+                        onClick={() => setQuantity(Math.min(availableStock, quantity + 1))}
+                        disabled={quantity >= availableStock}
                         className="p-2 text-gray-600 hover:text-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed"
                       >
                         <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -707,9 +863,12 @@ const ProductDetail: React.FC = () => {
                           />
                           <div className="flex-1">
                             <h4 className="font-medium text-gray-900">{product.name}</h4>
+                            {selectedVariant && (
+                              <p className="text-sm text-gray-500">{formatVariantLabel(selectedVariant.options)}</p>
+                            )}
                             <p className="text-sm text-gray-500">Quantity: {quantity}</p>
                             <p className="text-lg font-semibold text-gray-900">
-                              ৳{(product.price * quantity).toFixed(2)}
+                              ৳{(unitPrice * quantity).toFixed(2)}
                             </p>
                           </div>
                         </div>
@@ -758,6 +917,8 @@ const ProductDetail: React.FC = () => {
                           />
                         </div>
 
+                        {renderNotificationOptions()}
+
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-1">
                             Delivery Address *
@@ -767,11 +928,45 @@ const ProductDetail: React.FC = () => {
                             onChange={(e) => setOrderData({ ...orderData, shippingAddress: e.target.value })}
                             className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
                             rows={3}
-                            placeholder="Enter your complete delivery address"
+                            placeholder="House, road, area"
+                            required
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Upazila / Thana *
+                          </label>
+                          <input
+                            type="text"
+                            value={orderData.upazila}
+                            onChange={(e) => setOrderData({ ...orderData, upazila: e.target.value })}
+                            className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder="e.g., Dhanmondi"
                             required
                           />
                         </div>
 
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            District *
+                          </label>
+                          <select
+                            value={orderData.district}
+                            onChange={(e) => setOrderData({ ...orderData, district: e.target.value })}
+                            className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            required
+                          >
+                            <option value="">Select district</option>
+                            {BANGLADESH_DISTRICTS.map(district => (
+                              <option key={district} value={district}>{district}</option>
+                            ))}
+                          </select>
+                          {shippingQuote?.error && (
+                            <p className="mt-1 text-sm text-red-600">{shippingQuote.error}</p>
+                          )}
+                        </div>
+
                         <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
                           <div className="flex">
                             <svg className="h-5 w-5 text-yellow-400" fill="currentColor" viewBox="0 0 20 20">
@@ -780,7 +975,7 @@ const ProductDetail: React.FC = () => {
                             <div className="ml-3">
                               <h3 className="text-sm font-medium text-yellow-800">Cash on Delivery</h3>
                               <div className="mt-1 text-sm text-yellow-700">
-                                <p>You will pay ৳{(product.price * quantity).toFixed(2)} when the product is delivered.</p>
+                                <p>You will pay ৳{(unitPrice * quantity + shippingCost).toFixed(2)} when the product is delivered{shippingCost > 0 && ` (includes ৳${shippingCost.toFixed(2)} delivery)`}.</p>
                               </div>
                             </div>
                           </div>
@@ -793,7 +988,7 @@ const ProductDetail: React.FC = () => {
                   <button
                     type="button"
                     onClick={handlePlaceOrder}
-                    disabled={isOrdering || !orderData.shippingAddress || !orderData.phoneNumber || !orderData.customerName}
+                    disabled={isOrdering || !orderData.shippingAddress || !orderData.upazila || !canShip || !orderData.phoneNumber || !orderData.customerName}
                     className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-base font-medium text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:ml-3 sm:w-auto sm:text-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
                   >
                     {isOrdering ? 'Placing Order...' : 'Place Order'}
@@ -844,9 +1039,12 @@ const ProductDetail: React.FC = () => {
                           />
                           <div className="flex-1">
                             <h4 className="font-medium text-gray-900">{product.name}</h4>
+                            {selectedVariant && (
+                              <p className="text-sm text-gray-500">{formatVariantLabel(selectedVariant.options)}</p>
+                            )}
                             <p className="text-sm text-gray-500">Quantity: {quantity}</p>
                             <p className="text-lg font-semibold text-gray-900">
-                              ৳{(product.price * quantity).toFixed(2)}
+                              ৳{(unitPrice * quantity).toFixed(2)}
                             </p>
                           </div>
                         </div>
@@ -896,6 +1094,8 @@ const ProductDetail: React.FC = () => {
                           />
                         </div>
 
+                        {renderNotificationOptions()}
+
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-1">
                             Delivery Address *
@@ -905,11 +1105,45 @@ const ProductDetail: React.FC = () => {
                             onChange={(e) => setPaymentOrderData({ ...paymentOrderData, shippingAddress: e.target.value })}
                             className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
                             rows={3}
-                            placeholder="Enter your complete delivery address"
+                            placeholder="House, road, area"
                             required
                           />
                         </div>
 
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Upazila / Thana *
+                          </label>
+                          <input
+                            type="text"
+                            value={paymentOrderData.upazila}
+                            onChange={(e) => setPaymentOrderData({ ...paymentOrderData, upazila: e.target.value })}
+                            className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder="e.g., Dhanmondi"
+                            required
+                          />
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            District *
+                          </label>
+                          <select
+                            value={paymentOrderData.district}
+                            onChange={(e) => setPaymentOrderData({ ...paymentOrderData, district: e.target.value })}
+                            className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            required
+                          >
+                            <option value="">Select district</option>
+                            {BANGLADESH_DISTRICTS.map(district => (
+                              <option key={district} value={district}>{district}</option>
+                            ))}
+                          </select>
+                          {shippingQuote?.error && (
+                            <p className="mt-1 text-sm text-red-600">{shippingQuote.error}</p>
+                          )}
+                        </div>
+
                         <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
                           <div className="flex">
                             <svg className="h-5 w-5 text-blue-400" fill="currentColor" viewBox="0 0 20 20">
@@ -918,7 +1152,7 @@ const ProductDetail: React.FC = () => {
                             <div className="ml-3">
                               <h3 className="text-sm font-medium text-blue-800">Card Payment</h3>
                               <div className="mt-1 text-sm text-blue-700">
-                                <p>You will be redirected to secure payment gateway to pay ৳{(product.price * quantity).toFixed(2)}.</p>
+                                <p>You will be redirected to secure payment gateway to pay ৳{(unitPrice * quantity + shippingCost).toFixed(2)}{shippingCost > 0 && ` (includes ৳${shippingCost.toFixed(2)} delivery)`}.</p>
                                 <p className="mt-1">Supported: Visa, MasterCard, Mobile Banking</p>
                               </div>
                             </div>
@@ -932,7 +1166,7 @@ const ProductDetail: React.FC = () => {
                   <button
                     type="button"
                     onClick={handlePaymentOrder}
-                    disabled={buyingNow || !paymentOrderData.shippingAddress || !paymentOrderData.phoneNumber || !paymentOrderData.customerName || !paymentOrderData.customerEmail}
+                    disabled={buyingNow || !paymentOrderData.shippingAddress || !paymentOrderData.upazila || !canShip || !paymentOrderData.phoneNumber || !paymentOrderData.customerName || !paymentOrderData.customerEmail}
                     className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 sm:ml-3 sm:w-auto sm:text-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
                   >
                     {buyingNow ? (
@@ -5,6 +5,7 @@ import { useRouter } from 'next/router';
 import Footer from '../components/Footer';
 import { useAuth } from '../contexts/AuthContext';
 import axios from 'axios';
+import { BANGLADESH_DISTRICTS, BANGLADESH_DIVISIONS, getDistrictDivision } from '../lib/bangladeshDistricts';
 
 interface User {
   id: string;
@@ -20,7 +21,13 @@ interface User {
 
 interface Address {
   id: string;
+  label: string | null;
+  fullName: string | null;
+  phone: string | null;
   street: string;
+  upazila: string | null;
+  district: string | null;
+  division: string | null;
   city: string;
   state: string;
   zipCode: string;
@@ -40,14 +47,29 @@ interface ProfileFormData {
 }
 
 interface AddressFormData {
+  label: string;
+  fullName: string;
+  phone: string;
   street: string;
-  city: string;
-  state: string;
+  division: string;
+  district: string;
+  upazila: string;
   zipCode: string;
-  country: string;
   isDefault: boolean;
 }
 
+const emptyAddressForm: AddressFormData = {
+  label: '',
+  fullName: '',
+  phone: '',
+  street: '',
+  division: '',
+  district: '',
+  upazila: '',
+  zipCode: '',
+  isDefault: false
+};
+
 export default function Profile() {
   const { user: authUser, token, logout } = useAuth();
   const router = useRouter();
@@ -72,14 +94,7 @@ export default function Profile() {
     confirmPassword: ''
   });
 
-  const [addressForm, setAddressForm] = useState<AddressFormData>({
-    street: '',
-    city: '',
-    state: '',
-    zipCode: '',
-    country: '',
-    isDefault: false
-  });
+  const [addressForm, setAddressForm] = useState<AddressFormData>(emptyAddressForm);
 
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
 
@@ -201,19 +216,12 @@ export default function Profile() {
       fetchUserProfile(); // Refresh to get updated addresses
       setShowAddressForm(false);
       setEditingAddress(null);
-      setAddressForm({
-        street: '',
-        city: '',
-        state: '',
-        zipCode: '',
-        country: '',
-        isDefault: false
-      });
+      setAddressForm(emptyAddressForm);
     } catch (error: any) {
       console.error('Address operation error:', error);
       setMessage({ 
         type: 'error', 
-        text: error.response?.data?.error || 'Failed to save address' 
+        text: error.response?.data?.details?.join(', ') || error.response?.data?.error || 'Failed to save address' 
       });
     }
   };
@@ -260,12 +268,17 @@ export default function Profile() {
 
   const editAddress = (address: Address) => {
     setEditingAddress(address);
+    // Addresses saved before districts were recorded keep them in city and state
+    const district = address.district || (getDistrictDivision(address.state) ? address.state : '');
     setAddressForm({
+      label: address.label || '',
+      fullName: address.fullName || '',
+      phone: address.phone || '',
       street: address.street,
-      city: address.city,
-      state: address.state,
+      division: address.division || getDistrictDivision(district) || '',
+      district,
+      upazila: address.upazila || address.city,
       zipCode: address.zipCode,
-      country: address.country,
       isDefault: address.isDefault
     });
     setShowAddressForm(true);
@@ -558,6 +571,45 @@ export default function Profile() {
                           {editingAddress ? 'Edit Address' : 'Add New Address'}
                         </h4>
                         <form onSubmit={handleAddressSubmit} className="space-y-4">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Label
+                              </label>
+                              <input
+                                type="text"
+                                value={addressForm.label}
+                                onChange={(e) => setAddressForm(prev => ({ ...prev, label: e.target.value }))}
+                                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="e.g., Home, Office"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Full Name
+                              </label>
+                              <input
+                                type="text"
+                                value={addressForm.fullName}
+                                onChange={(e) => setAddressForm(prev => ({ ...prev, fullName: e.target.value }))}
+                                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                required
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Phone
+                              </label>
+                              <input
+                                type="tel"
+                                value={addressForm.phone}
+                                onChange={(e) => setAddressForm(prev => ({ ...prev, phone: e.target.value }))}
+                                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                placeholder="01XXXXXXXXX"
+                                required
+                              />
+                            </div>
+                          </div>
                           <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
                               Street Address
@@ -567,58 +619,83 @@ export default function Profile() {
                               value={addressForm.street}
                               onChange={(e) => setAddressForm(prev => ({ ...prev, street: e.target.value }))}
                               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              placeholder="House, road, area"
                               required
                             />
                           </div>
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <div>
                               <label className="block text-sm font-medium text-gray-700 mb-2">
-                                City
+                                Division
                               </label>
-                              <input
-                                type="text"
-                                value={addressForm.city}
-                                onChange={(e) => setAddressForm(prev => ({ ...prev, city: e.target.value }))}
+                              <select
+                                value={addressForm.division}
+                                onChange={(e) => {
+                                  const division = e.target.value;
+                                  setAddressForm(prev => ({
+                                    ...prev,
+                                    division,
+                                    district: getDistrictDivision(prev.district) === division ? prev.district : ''
+                                  }));
+                                }}
                                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                required
-                              />
+                              >
+                                <option value="">All divisions</option>
+                                {Object.keys(BANGLADESH_DIVISIONS).map(division => (
+                                  <option key={division} value={division}>{division}</option>
+                                ))}
+                              </select>
                             </div>
                             <div>
                               <label className="block text-sm font-medium text-gray-700 mb-2">
-                                State/Province
+                                District
                               </label>
-                              <input
-                                type="text"
-                                value={addressForm.state}
-                                onChange={(e) => setAddressForm(prev => ({ ...prev, state: e.target.value }))}
+                              <select
+                                value={addressForm.district}
+                                onChange={(e) => {
+                                  const district = e.target.value;
+                                  setAddressForm(prev => ({
+                                    ...prev,
+                                    district,
+                                    division: getDistrictDivision(district) || prev.division
+                                  }));
+                                }}
                                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                                 required
-                              />
+                              >
+                                <option value="">Select district</option>
+                                {(addressForm.division
+                                  ? [...BANGLADESH_DIVISIONS[addressForm.division]].sort()
+                                  : BANGLADESH_DISTRICTS
+                                ).map(district => (
+                                  <option key={district} value={district}>{district}</option>
+                                ))}
+                              </select>
                             </div>
                           </div>
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <div>
                               <label className="block text-sm font-medium text-gray-700 mb-2">
-                                ZIP/Postal Code
+                                Upazila / Thana
                               </label>
                               <input
                                 type="text"
-                                value={addressForm.zipCode}
-                                onChange={(e) => setAddressForm(prev => ({ ...prev, zipCode: e.target.value }))}
+                                value={addressForm.upazila}
+                                onChange={(e) => setAddressForm(prev => ({ ...prev, upazila: e.target.value }))}
                                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                                 required
                               />
                             </div>
                             <div>
                               <label className="block text-sm font-medium text-gray-700 mb-2">
-                                Country
+                                Postcode
                               </label>
                               <input
                                 type="text"
-                                value={addressForm.country}
-                                onChange={(e) => setAddressForm(prev => ({ ...prev, country: e.target.value }))}
+                                value={addressForm.zipCode}
+                                onChange={(e) => setAddressForm(prev => ({ ...prev, zipCode: e.target.value }))}
                                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                required
+                                placeholder="e.g., 1209"
                               />
                             </div>
                           </div>
@@ -646,14 +723,7 @@ export default function Profile() {
                               onClick={() => {
                                 setShowAddressForm(false);
                                 setEditingAddress(null);
-                                setAddressForm({
-                                  street: '',
-                                  city: '',
-                                  state: '',
-                                  zipCode: '',
-                                  country: '',
-                                  isDefault: false
-                                });
+                                setAddressForm(emptyAddressForm);
                               }}
                               className="bg-gray-300 text-gray-700 px-6 py-2 rounded-lg font-semibold hover:bg-gray-400 transition-colors"
                             >
@@ -676,11 +746,17 @@ export default function Profile() {
                               </div>
                             )}
                             <div className="pr-20">
+                              {address.label && (
+                                <p className="text-sm font-semibold text-blue-600">{address.label}</p>
+                              )}
+                              {address.fullName && (
+                                <p className="text-gray-900">{address.fullName}{address.phone && `, ${address.phone}`}</p>
+                              )}
                               <p className="font-semibold text-gray-900">{address.street}</p>
                               <p className="text-gray-600">
-                                {address.city}, {address.state} {address.zipCode}
+                                {address.upazila || address.city}, {address.district || address.state} {address.zipCode}
                               </p>
-                              <p className="text-gray-600">{address.country}</p>
+                              <p className="text-gray-600">{address.division ? `${address.division}, ` : ''}{address.country}</p>
                             </div>
                             <div className="flex space-x-2 mt-4">
                               <button
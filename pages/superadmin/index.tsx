@@ -21,7 +21,10 @@ import {
 } from '@/components/ui/dialog';
 
 interface Admin extends User {
-  // any additional properties can be defined here
+  // The store the admin owns
+  subdomain: string | null;
+  storeName: string | null;
+  storeId: string | null;
 }
 
 const SuperAdminDashboard = () => {
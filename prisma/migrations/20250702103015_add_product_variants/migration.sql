@@ -0,0 +1,67 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[userId,productId,variantId]` on the table `cart_items` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- DropIndex
+DROP INDEX "cart_items_userId_productId_key";
+
+-- AlterTable
+ALTER TABLE "cart_items" ADD COLUMN     "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "variantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "product_options" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "values" TEXT[],
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "product_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "product_variants" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "sku" TEXT,
+    "options" JSONB NOT NULL,
+    "price" DOUBLE PRECISION,
+    "stock" INTEGER NOT NULL DEFAULT 0,
+    "image" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_options_productId_name_key" ON "product_options"("productId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_variants_productId_sku_key" ON "product_variants"("productId", "sku");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cart_items_userId_productId_variantId_key" ON "cart_items"("userId", "productId", "variantId");
+
+-- CreateIndex
+-- NULLs are distinct in the index above, so it doesn't stop a second
+-- variant-less row for the same product; this one does
+CREATE UNIQUE INDEX "cart_items_userId_productId_no_variant_key" ON "cart_items"("userId", "productId") WHERE "variantId" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_options" ADD CONSTRAINT "product_options_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
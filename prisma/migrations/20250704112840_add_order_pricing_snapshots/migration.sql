@@ -0,0 +1,36 @@
+/*
+  Warnings:
+
+  - Added the required column `productName` to the `order_items` table. Existing rows are backfilled from `products`.
+
+*/
+-- DropForeignKey
+ALTER TABLE "order_items" DROP CONSTRAINT "order_items_productId_fkey";
+
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "productImage" TEXT,
+ADD COLUMN     "productName" TEXT,
+ADD COLUMN     "sku" TEXT,
+ADD COLUMN     "variantLabel" TEXT,
+ALTER COLUMN "productId" DROP NOT NULL;
+
+-- Backfill snapshots for existing orders
+UPDATE "order_items" AS oi
+SET "productName" = p."name",
+    "productImage" = p."image"
+FROM "products" AS p
+WHERE oi."productId" = p."id";
+
+UPDATE "order_items" SET "productName" = 'Deleted product' WHERE "productName" IS NULL;
+
+ALTER TABLE "order_items" ALTER COLUMN "productName" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "shippingCost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "subtotal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+UPDATE "orders" SET "subtotal" = "total" + "discountAmount";
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
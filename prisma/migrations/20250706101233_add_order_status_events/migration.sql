@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "OrderActorType" AS ENUM ('CUSTOMER', 'ADMIN', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "order_status_events" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "OrderStatus",
+    "toStatus" "OrderStatus" NOT NULL,
+    "actorType" "OrderActorType" NOT NULL,
+    "actorId" TEXT,
+    "actorName" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_events_orderId_createdAt_idx" ON "order_status_events"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "order_status_events" ADD CONSTRAINT "order_status_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the timeline of existing orders with their current status
+INSERT INTO "order_status_events" ("id", "orderId", "fromStatus", "toStatus", "actorType", "note", "createdAt")
+SELECT md5(random()::text || "id"), "id", NULL, "status", 'SYSTEM', 'Status before history was recorded', "updatedAt"
+FROM "orders";
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "paymentProvider" TEXT;
+
+-- Backfill the provider of existing orders from the stored payment method
+UPDATE "orders" SET "paymentProvider" = 'sslcommerz' WHERE "paymentMethod" = 'SSLCommerz';
+UPDATE "orders" SET "paymentProvider" = 'cod' WHERE "paymentMethod" = 'Cash on Delivery';
+
+-- CreateTable
+CREATE TABLE "store_payment_methods" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "store_payment_methods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "store_payment_methods_adminId_provider_key" ON "store_payment_methods"("adminId", "provider");
+
+-- AddForeignKey
+ALTER TABLE "store_payment_methods" ADD CONSTRAINT "store_payment_methods_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "PaymentEventStatus" AS ENUM ('RECEIVED', 'PROCESSED', 'IGNORED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "payment_events" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "gatewayStatus" TEXT NOT NULL,
+    "orderId" TEXT,
+    "amount" DOUBLE PRECISION,
+    "currency" TEXT,
+    "payload" JSONB NOT NULL,
+    "signatureValid" BOOLEAN NOT NULL DEFAULT false,
+    "status" "PaymentEventStatus" NOT NULL DEFAULT 'RECEIVED',
+    "note" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "duplicateCount" INTEGER NOT NULL DEFAULT 0,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_events_provider_transactionId_gatewayStatus_key" ON "payment_events"("provider", "transactionId", "gatewayStatus");
+
+-- CreateIndex
+CREATE INDEX "payment_events_orderId_idx" ON "payment_events"("orderId");
+
+-- CreateIndex
+CREATE INDEX "payment_events_status_idx" ON "payment_events"("status");
+
+-- AddForeignKey
+ALTER TABLE "payment_events" ADD CONSTRAINT "payment_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "ShippingZoneType" AS ENUM ('INSIDE_DHAKA', 'OUTSIDE_DHAKA', 'DISTRICTS');
+
+-- CreateEnum
+CREATE TYPE "ShippingRateBasis" AS ENUM ('WEIGHT', 'ORDER_TOTAL');
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "weight" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "shippingDistrict" TEXT,
+ADD COLUMN     "shippingZoneId" TEXT,
+ADD COLUMN     "shippingZoneName" TEXT,
+ADD COLUMN     "courier" TEXT,
+ADD COLUMN     "courierConsignmentId" TEXT,
+ADD COLUMN     "trackingNumber" TEXT,
+ADD COLUMN     "courierStatus" TEXT,
+ADD COLUMN     "courierBookedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "shipping_zones" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "ShippingZoneType" NOT NULL,
+    "districts" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shipping_zones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shipping_rates" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "basis" "ShippingRateBasis" NOT NULL,
+    "minValue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "maxValue" DOUBLE PRECISION,
+    "cost" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shipping_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shipping_zones_adminId_idx" ON "shipping_zones"("adminId");
+
+-- CreateIndex
+CREATE INDEX "shipping_rates_zoneId_idx" ON "shipping_rates"("zoneId");
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_shippingZoneId_fkey" FOREIGN KEY ("shippingZoneId") REFERENCES "shipping_zones"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipping_zones" ADD CONSTRAINT "shipping_zones_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipping_rates" ADD CONSTRAINT "shipping_rates_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "shipping_zones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- Orders placed before this keep only their free-text shippingAddress
+
+-- AlterTable
+ALTER TABLE "addresses" ADD COLUMN     "label" TEXT,
+ADD COLUMN     "fullName" TEXT,
+ADD COLUMN     "phone" TEXT,
+ADD COLUMN     "upazila" TEXT,
+ADD COLUMN     "district" TEXT,
+ADD COLUMN     "division" TEXT;
+
+-- CreateTable
+CREATE TABLE "order_addresses" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fullName" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "addressLine" TEXT NOT NULL,
+    "upazila" TEXT NOT NULL,
+    "district" TEXT NOT NULL,
+    "division" TEXT NOT NULL,
+    "postcode" TEXT,
+    "country" TEXT NOT NULL DEFAULT 'Bangladesh',
+
+    CONSTRAINT "order_addresses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_addresses_orderId_key" ON "order_addresses"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "order_addresses" ADD CONSTRAINT "order_addresses_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "storeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "storeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "cart_items" ADD COLUMN     "storeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN     "storeId" TEXT;
+
+-- Backfill: rows belong to the store that owns their product
+UPDATE "cart_items" SET "storeId" = "products"."createdBy"
+FROM "products" WHERE "products"."id" = "cart_items"."productId";
+
+UPDATE "reviews" SET "storeId" = "products"."createdBy"
+FROM "products" WHERE "products"."id" = "reviews"."productId";
+
+UPDATE "orders" SET "storeId" = (
+  SELECT "products"."createdBy"
+  FROM "order_items"
+  JOIN "products" ON "products"."id" = "order_items"."productId"
+  WHERE "order_items"."orderId" = "orders"."id" AND "products"."createdBy" IS NOT NULL
+  ORDER BY "order_items"."id"
+  LIMIT 1
+);
+
+-- CreateIndex
+CREATE INDEX "users_storeId_idx" ON "users"("storeId");
+
+-- CreateIndex
+CREATE INDEX "orders_storeId_idx" ON "orders"("storeId");
+
+-- CreateIndex
+CREATE INDEX "cart_items_userId_storeId_idx" ON "cart_items"("userId", "storeId");
+
+-- CreateIndex
+CREATE INDEX "reviews_storeId_idx" ON "reviews"("storeId");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
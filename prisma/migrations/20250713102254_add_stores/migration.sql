@@ -0,0 +1,164 @@
+/*
+  Warnings:
+
+  - The `subdomain` and `storeName` columns on the `users` table move to the new `stores` table.
+  - The column `userId` on the `custom_domains` table is renamed to `storeId`.
+  - Every admin becomes the owner of a store that keeps the admin's ID, so
+    rows already scoped to an admin stay with the same store.
+
+*/
+-- CreateEnum
+CREATE TYPE "StoreRole" AS ENUM ('OWNER', 'MANAGER', 'STAFF');
+
+-- CreateEnum
+CREATE TYPE "StoreStatus" AS ENUM ('ACTIVE', 'SUSPENDED', 'CLOSED');
+
+-- CreateTable
+CREATE TABLE "stores" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "subdomain" TEXT NOT NULL,
+    "logo" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'BDT',
+    "timezone" TEXT NOT NULL DEFAULT 'Asia/Dhaka',
+    "contactEmail" TEXT,
+    "contactPhone" TEXT,
+    "address" TEXT,
+    "status" "StoreStatus" NOT NULL DEFAULT 'ACTIVE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "store_members" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "StoreRole" NOT NULL DEFAULT 'STAFF',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "store_members_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: one store per admin, and per user that already owns store data
+INSERT INTO "stores" ("id", "name", "subdomain", "contactEmail", "contactPhone", "createdAt", "updatedAt")
+SELECT "id", "firstName" || ' ' || "lastName", COALESCE("subdomain", "id"), "email", "phone", "createdAt", CURRENT_TIMESTAMP
+FROM "users"
+WHERE "role" = 'ADMIN'
+   OR "subdomain" IS NOT NULL
+   OR "id" IN (
+     SELECT "createdBy" FROM "products"
+     UNION SELECT "createdBy" FROM "categories"
+     UNION SELECT "createdBy" FROM "coupons"
+     UNION SELECT "adminId" FROM "store_payment_methods"
+     UNION SELECT "adminId" FROM "shipping_zones"
+     UNION SELECT "userId" FROM "custom_domains"
+     UNION SELECT "storeId" FROM "orders"
+     UNION SELECT "storeId" FROM "cart_items"
+     UNION SELECT "storeId" FROM "reviews"
+     UNION SELECT "storeId" FROM "users"
+   );
+
+-- No earlier migration creates users.storeName, so only databases that have
+-- it (from db push) carry the owner's store name over
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'users' AND column_name = 'storeName'
+  ) THEN
+    EXECUTE 'UPDATE "stores" s SET "name" = u."storeName" FROM "users" u WHERE u."id" = s."id" AND u."storeName" IS NOT NULL';
+  END IF;
+END $$;
+
+INSERT INTO "store_members" ("id", "storeId", "userId", "role", "updatedAt")
+SELECT gen_random_uuid()::text, "id", "id", 'OWNER', CURRENT_TIMESTAMP
+FROM "stores";
+
+-- DropForeignKey
+ALTER TABLE "users" DROP CONSTRAINT "users_storeId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "categories" DROP CONSTRAINT "categories_createdBy_fkey";
+
+-- DropForeignKey
+ALTER TABLE "products" DROP CONSTRAINT "products_createdBy_fkey";
+
+-- DropForeignKey
+ALTER TABLE "orders" DROP CONSTRAINT "orders_storeId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "cart_items" DROP CONSTRAINT "cart_items_storeId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "reviews" DROP CONSTRAINT "reviews_storeId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "coupons" DROP CONSTRAINT "coupons_createdBy_fkey";
+
+-- DropForeignKey
+ALTER TABLE "store_payment_methods" DROP CONSTRAINT "store_payment_methods_adminId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "shipping_zones" DROP CONSTRAINT "shipping_zones_adminId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "custom_domains" DROP CONSTRAINT "custom_domains_userId_fkey";
+
+-- AlterTable
+ALTER TABLE "custom_domains" RENAME COLUMN "userId" TO "storeId";
+
+-- DropIndex
+DROP INDEX "users_subdomain_key";
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "subdomain",
+DROP COLUMN IF EXISTS "storeName";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stores_subdomain_key" ON "stores"("subdomain");
+
+-- CreateIndex
+CREATE INDEX "store_members_userId_idx" ON "store_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "store_members_storeId_userId_key" ON "store_members"("storeId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "store_members" ADD CONSTRAINT "store_members_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "store_members" ADD CONSTRAINT "store_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "categories" ADD CONSTRAINT "categories_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "stores"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "products" ADD CONSTRAINT "products_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "stores"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "orders" ADD CONSTRAINT "orders_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "coupons" ADD CONSTRAINT "coupons_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "store_payment_methods" ADD CONSTRAINT "store_payment_methods_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipping_zones" ADD CONSTRAINT "shipping_zones_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_domains" ADD CONSTRAINT "custom_domains_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "StorePermission" AS ENUM ('MANAGE_PRODUCTS', 'FULFIL_ORDERS', 'SEND_CAMPAIGNS', 'VIEW_REPORTS', 'MANAGE_SETTINGS');
+
+-- AlterTable
+ALTER TABLE "store_members" ADD COLUMN     "permissions" "StorePermission"[] DEFAULT ARRAY[]::"StorePermission"[];
+
+-- CreateTable
+CREATE TABLE "store_invitations" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "StoreRole" NOT NULL DEFAULT 'STAFF',
+    "permissions" "StorePermission"[] DEFAULT ARRAY[]::"StorePermission"[],
+    "token" TEXT NOT NULL,
+    "invitedById" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "store_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "store_invitations_token_key" ON "store_invitations"("token");
+
+-- CreateIndex
+CREATE INDEX "store_invitations_storeId_idx" ON "store_invitations"("storeId");
+
+-- CreateIndex
+CREATE INDEX "store_invitations_email_idx" ON "store_invitations"("email");
+
+-- AddForeignKey
+ALTER TABLE "store_invitations" ADD CONSTRAINT "store_invitations_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "store_invitations" ADD CONSTRAINT "store_invitations_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
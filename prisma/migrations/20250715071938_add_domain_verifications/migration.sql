@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "DomainVerificationTrigger" AS ENUM ('MANUAL', 'SCHEDULED');
+
+-- CreateEnum
+CREATE TYPE "DomainVerificationResult" AS ENUM ('PASSED', 'FAILED', 'ERROR');
+
+-- AlterTable
+ALTER TABLE "custom_domains" ADD COLUMN     "failedChecks" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "domain_verifications" (
+    "id" TEXT NOT NULL,
+    "domainId" TEXT NOT NULL,
+    "trigger" "DomainVerificationTrigger" NOT NULL,
+    "result" "DomainVerificationResult" NOT NULL,
+    "txtValid" BOOLEAN NOT NULL,
+    "cnameValid" BOOLEAN NOT NULL,
+    "previousStatus" "DomainStatus" NOT NULL,
+    "status" "DomainStatus" NOT NULL,
+    "errorMessage" TEXT,
+    "records" JSONB,
+    "notifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "domain_verifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "domain_verifications_domainId_createdAt_idx" ON "domain_verifications"("domainId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "domain_verifications" ADD CONSTRAINT "domain_verifications_domainId_fkey" FOREIGN KEY ("domainId") REFERENCES "custom_domains"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "CertificateStatus" AS ENUM ('PENDING', 'ISSUING', 'ISSUED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "AcmeChallengeType" AS ENUM ('HTTP_01', 'DNS_01');
+
+-- CreateTable
+CREATE TABLE "domain_certificates" (
+    "id" TEXT NOT NULL,
+    "domainId" TEXT NOT NULL,
+    "status" "CertificateStatus" NOT NULL DEFAULT 'PENDING',
+    "challengeType" "AcmeChallengeType",
+    "certificate" TEXT,
+    "privateKey" TEXT,
+    "issuedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "lastAttemptAt" TIMESTAMP(3),
+    "nextAttemptAt" TIMESTAMP(3),
+    "failedAttempts" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "domain_certificates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "acme_challenges" (
+    "token" TEXT NOT NULL,
+    "keyAuthorization" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "acme_challenges_pkey" PRIMARY KEY ("token")
+);
+
+-- CreateTable
+CREATE TABLE "acme_accounts" (
+    "id" TEXT NOT NULL,
+    "directoryUrl" TEXT NOT NULL,
+    "email" TEXT,
+    "privateKey" TEXT NOT NULL,
+    "accountUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "acme_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "domain_certificates_domainId_key" ON "domain_certificates"("domainId");
+
+-- CreateIndex
+CREATE INDEX "domain_certificates_status_expiresAt_idx" ON "domain_certificates"("status", "expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "acme_accounts_directoryUrl_key" ON "acme_accounts"("directoryUrl");
+
+-- AddForeignKey
+ALTER TABLE "domain_certificates" ADD CONSTRAINT "domain_certificates_domainId_fkey" FOREIGN KEY ("domainId") REFERENCES "custom_domains"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- AlterEnum
+ALTER TYPE "SMSStatus" ADD VALUE 'SENDING';
+
+-- AlterEnum
+ALTER TYPE "WhatsAppStatus" ADD VALUE 'SENDING';
+
+-- CreateEnum
+CREATE TYPE "JobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "jobs" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'QUEUED',
+    "storeId" TEXT,
+    "key" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "progress" JSONB,
+    "result" JSONB,
+    "lastError" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "jobs_status_runAt_idx" ON "jobs"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "jobs_type_status_idx" ON "jobs"("type", "status");
+
+-- CreateIndex
+CREATE INDEX "jobs_key_idx" ON "jobs"("key");
+
+-- CreateIndex
+-- One open job per key, so concurrent enqueues can't both queue it
+CREATE UNIQUE INDEX "jobs_key_open_key" ON "jobs"("key") WHERE "status" IN ('QUEUED', 'RUNNING');
+
+-- CreateIndex
+CREATE INDEX "jobs_storeId_createdAt_idx" ON "jobs"("storeId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "sms_campaigns" ADD COLUMN "storeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "whatsapp_campaigns" ADD COLUMN "storeId" TEXT;
+
+-- Campaigns created before stores belong to the only store, if there is just one
+UPDATE "sms_campaigns" SET "storeId" = (SELECT "id" FROM "stores")
+WHERE (SELECT COUNT(*) FROM "stores") = 1;
+
+UPDATE "whatsapp_campaigns" SET "storeId" = (SELECT "id" FROM "stores")
+WHERE (SELECT COUNT(*) FROM "stores") = 1;
+
+-- CreateIndex
+CREATE INDEX "sms_campaigns_storeId_idx" ON "sms_campaigns"("storeId");
+
+-- CreateIndex
+CREATE INDEX "sms_campaigns_status_scheduledAt_idx" ON "sms_campaigns"("status", "scheduledAt");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_campaigns_storeId_idx" ON "whatsapp_campaigns"("storeId");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_campaigns_status_scheduledAt_idx" ON "whatsapp_campaigns"("status", "scheduledAt");
+
+-- AddForeignKey
+ALTER TABLE "sms_campaigns" ADD CONSTRAINT "sms_campaigns_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "whatsapp_campaigns" ADD CONSTRAINT "whatsapp_campaigns_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
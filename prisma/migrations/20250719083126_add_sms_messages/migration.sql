@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "SMSMessageStatus" AS ENUM ('QUEUED', 'SENT', 'DELIVERED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "sms_messages" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "status" "SMSMessageStatus" NOT NULL DEFAULT 'QUEUED',
+    "providerMessageId" TEXT,
+    "cost" DOUBLE PRECISION,
+    "error" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sms_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sms_messages_campaignId_status_idx" ON "sms_messages"("campaignId", "status");
+
+-- CreateIndex
+CREATE INDEX "sms_messages_providerMessageId_idx" ON "sms_messages"("providerMessageId");
+
+-- AddForeignKey
+ALTER TABLE "sms_messages" ADD CONSTRAINT "sms_messages_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "sms_campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
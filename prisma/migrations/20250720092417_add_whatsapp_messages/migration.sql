@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "WhatsAppMessageStatus" AS ENUM ('QUEUED', 'SENT', 'DELIVERED', 'READ', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "whatsapp_messages" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "status" "WhatsAppMessageStatus" NOT NULL DEFAULT 'QUEUED',
+    "providerMessageId" TEXT,
+    "error" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "whatsapp_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "whatsapp_messages_providerMessageId_key" ON "whatsapp_messages"("providerMessageId");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_messages_campaignId_status_idx" ON "whatsapp_messages"("campaignId", "status");
+
+-- AddForeignKey
+ALTER TABLE "whatsapp_messages" ADD CONSTRAINT "whatsapp_messages_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "whatsapp_campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
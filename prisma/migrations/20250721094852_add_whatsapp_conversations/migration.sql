@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "WhatsAppMessageDirection" AS ENUM ('INBOUND', 'OUTBOUND');
+
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN "whatsappPhoneNumberId" TEXT;
+
+-- CreateTable
+CREATE TABLE "whatsapp_conversations" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "customerPhone" TEXT NOT NULL,
+    "customerName" TEXT,
+    "phoneNumberId" TEXT NOT NULL,
+    "unreadCount" INTEGER NOT NULL DEFAULT 0,
+    "lastMessageText" TEXT,
+    "lastMessageAt" TIMESTAMP(3),
+    "lastInboundAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "whatsapp_conversations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "whatsapp_conversation_messages" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "direction" "WhatsAppMessageDirection" NOT NULL,
+    "providerMessageId" TEXT,
+    "type" TEXT NOT NULL,
+    "text" TEXT,
+    "status" "WhatsAppMessageStatus",
+    "error" TEXT,
+    "sentById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "whatsapp_conversation_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stores_whatsappPhoneNumberId_key" ON "stores"("whatsappPhoneNumberId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "whatsapp_conversations_storeId_customerPhone_key" ON "whatsapp_conversations"("storeId", "customerPhone");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_conversations_storeId_lastMessageAt_idx" ON "whatsapp_conversations"("storeId", "lastMessageAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "whatsapp_conversation_messages_providerMessageId_key" ON "whatsapp_conversation_messages"("providerMessageId");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_conversation_messages_conversationId_createdAt_idx" ON "whatsapp_conversation_messages"("conversationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "whatsapp_conversations" ADD CONSTRAINT "whatsapp_conversations_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "whatsapp_conversation_messages" ADD CONSTRAINT "whatsapp_conversation_messages_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "whatsapp_conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "whatsapp_conversation_messages" ADD CONSTRAINT "whatsapp_conversation_messages_sentById_fkey" FOREIGN KEY ("sentById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "OrderNotificationEvent" AS ENUM ('ORDER_PLACED', 'ORDER_PAID', 'ORDER_SHIPPED', 'ORDER_DELIVERED', 'ORDER_CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "NotificationChannel" AS ENUM ('SMS', 'WHATSAPP', 'EMAIL');
+
+-- CreateEnum
+CREATE TYPE "NotificationStatus" AS ENUM ('QUEUED', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "notificationChannels" "NotificationChannel"[] DEFAULT ARRAY[]::"NotificationChannel"[];
+
+-- CreateTable
+CREATE TABLE "notification_templates" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "event" "OrderNotificationEvent" NOT NULL,
+    "channel" "NotificationChannel" NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "subject" TEXT,
+    "body" TEXT NOT NULL,
+    "whatsappTemplateName" TEXT,
+    "whatsappLanguage" TEXT DEFAULT 'en',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "order_notifications" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "event" "OrderNotificationEvent" NOT NULL,
+    "channel" "NotificationChannel" NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "status" "NotificationStatus" NOT NULL DEFAULT 'QUEUED',
+    "subject" TEXT,
+    "body" TEXT NOT NULL,
+    "whatsappTemplate" TEXT,
+    "whatsappLanguage" TEXT,
+    "providerMessageId" TEXT,
+    "error" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_templates_storeId_event_channel_key" ON "notification_templates"("storeId", "event", "channel");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_notifications_orderId_event_channel_key" ON "order_notifications"("orderId", "event", "channel");
+
+-- CreateIndex
+CREATE INDEX "order_notifications_storeId_createdAt_idx" ON "order_notifications"("storeId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "notification_templates" ADD CONSTRAINT "notification_templates_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_notifications" ADD CONSTRAINT "order_notifications_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_notifications" ADD CONSTRAINT "order_notifications_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
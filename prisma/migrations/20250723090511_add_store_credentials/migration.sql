@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "MessagingProvider" AS ENUM ('SMS_BANGLADESH', 'WHATSAPP_CLOUD');
+
+-- CreateTable
+CREATE TABLE "store_credentials" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "provider" "MessagingProvider" NOT NULL,
+    "encryptedConfig" TEXT NOT NULL,
+    "lastTestedAt" TIMESTAMP(3),
+    "lastTestSucceeded" BOOLEAN,
+    "lastTestError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "store_credentials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "store_credentials_storeId_provider_key" ON "store_credentials"("storeId", "provider");
+
+-- AddForeignKey
+ALTER TABLE "store_credentials" ADD CONSTRAINT "store_credentials_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- SMS send jobs carried the browser's SMS Bangladesh password in their payload;
+-- they now read the store's saved credentials instead
+UPDATE "jobs" SET "payload" = "payload" - 'apiConfig' WHERE "type" = 'sms-campaign.send';
@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "SuppressionChannel" AS ENUM ('SMS', 'WHATSAPP');
+
+-- CreateEnum
+CREATE TYPE "SuppressionReason" AS ENUM ('OPT_OUT', 'OPT_IN', 'MANUAL', 'INVALID_NUMBER');
+
+-- CreateEnum
+CREATE TYPE "SuppressionAction" AS ENUM ('SUPPRESSED', 'RESTORED');
+
+-- AlterEnum
+ALTER TYPE "SMSMessageStatus" ADD VALUE 'SUPPRESSED';
+
+-- AlterEnum
+ALTER TYPE "WhatsAppMessageStatus" ADD VALUE 'SUPPRESSED';
+
+-- AlterTable
+ALTER TABLE "sms_campaigns" ADD COLUMN "suppressedCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "whatsapp_campaigns" ADD COLUMN "suppressedCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "suppressed_numbers" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "channel" "SuppressionChannel" NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "reason" "SuppressionReason" NOT NULL,
+    "detail" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "suppressed_numbers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "suppression_events" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "channel" "SuppressionChannel" NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "action" "SuppressionAction" NOT NULL,
+    "reason" "SuppressionReason" NOT NULL,
+    "detail" TEXT,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "suppression_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "suppressed_numbers_storeId_channel_phoneNumber_key" ON "suppressed_numbers"("storeId", "channel", "phoneNumber");
+
+-- CreateIndex
+CREATE INDEX "suppressed_numbers_storeId_createdAt_idx" ON "suppressed_numbers"("storeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "suppression_events_storeId_createdAt_idx" ON "suppression_events"("storeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "suppression_events_storeId_phoneNumber_idx" ON "suppression_events"("storeId", "phoneNumber");
+
+-- AddForeignKey
+ALTER TABLE "suppressed_numbers" ADD CONSTRAINT "suppressed_numbers_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "suppression_events" ADD CONSTRAINT "suppression_events_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -16,11 +16,11 @@ async function generateUniqueSubdomain(firstName, lastName) {
   let counter = 1;
   
   while (true) {
-    const existingUser = await prisma.user.findUnique({
+    const existingStore = await prisma.store.findUnique({
       where: { subdomain },
     });
     
-    if (!existingUser) {
+    if (!existingStore) {
       return subdomain;
     }
     
@@ -52,7 +52,7 @@ async function createAdmin() {
     }
 
     // Check if subdomain already exists
-    const existingSubdomain = await prisma.user.findUnique({
+    const existingSubdomain = await prisma.store.findUnique({
       where: { subdomain }
     });
 
@@ -64,15 +64,26 @@ async function createAdmin() {
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 10);
 
-    // Create admin user
+    // Create admin user and the store they own
     const admin = await prisma.user.create({
       data: {
         email,
         password: hashedPassword,
         firstName,
         lastName: 'Admin',
-        subdomain,
-        role: 'ADMIN'
+        role: 'ADMIN',
+        memberships: {
+          create: {
+            role: 'OWNER',
+            store: {
+              create: {
+                name: `${firstName}'s Store`,
+                subdomain,
+                contactEmail: email
+              }
+            }
+          }
+        }
       }
     });
 
@@ -81,9 +92,9 @@ async function createAdmin() {
     console.log('Email:', admin.email);
     console.log('Password:', password);
     console.log('Role:', admin.role);
-    console.log('Subdomain:', admin.subdomain);
-    console.log(`Access URL: https://${admin.subdomain}.codeopx.com (for local development)`);
-    console.log(`Production URL would be: https://${admin.subdomain}.yourdomain.com`);
+    console.log('Subdomain:', subdomain);
+    console.log(`Access URL: https://${subdomain}.codeopx.com (for local development)`);
+    console.log(`Production URL would be: https://${subdomain}.yourdomain.com`);
 
   } catch (error) {
     console.error('Error creating admin:', error);
@@ -23,22 +23,19 @@ async function fixProductOwnership() {
       return;
     }
 
-    // Find all admin users with subdomains
-    const adminUsers = await prisma.user.findMany({
-      where: {
-        role: 'ADMIN',
-        subdomain: {
-          not: null
-        }
+    // Find all stores
+    const stores = await prisma.store.findMany({
+      orderBy: {
+        createdAt: 'asc'
       }
     });
 
-    console.log(`Found ${adminUsers.length} admin users with subdomains.`);
+    console.log(`Found ${stores.length} stores.`);
 
-    if (adminUsers.length === 0) {
-      console.log('No admin users found. Deleting orphan products...');
+    if (stores.length === 0) {
+      console.log('No stores found. Deleting orphan products...');
       
-      // If no admins, delete orphan products
+      // If no stores, delete orphan products
       const deleteResult = await prisma.product.deleteMany({
         where: {
           createdBy: null
@@ -47,17 +44,17 @@ async function fixProductOwnership() {
       
       console.log(`Deleted ${deleteResult.count} orphan products.`);
     } else {
-      // Option 1: Assign all orphan products to the first admin
-      const firstAdmin = adminUsers[0];
+      // Option 1: Assign all orphan products to the first store
+      const firstStore = stores[0];
       
-      console.log(`Assigning all orphan products to admin: ${firstAdmin.firstName} ${firstAdmin.lastName} (${firstAdmin.subdomain})`);
+      console.log(`Assigning all orphan products to store: ${firstStore.name} (${firstStore.subdomain})`);
       
       const updateResult = await prisma.product.updateMany({
         where: {
           createdBy: null
         },
         data: {
-          createdBy: firstAdmin.id
+          createdBy: firstStore.id
         }
       });
       
@@ -71,14 +68,14 @@ async function fixProductOwnership() {
       });
       
       if (orphanCategories.length > 0) {
-        console.log(`Found ${orphanCategories.length} categories without owner. Assigning to ${firstAdmin.firstName}...`);
+        console.log(`Found ${orphanCategories.length} categories without owner. Assigning to ${firstStore.name}...`);
         
         const categoryUpdateResult = await prisma.category.updateMany({
           where: {
             createdBy: null
           },
           data: {
-            createdBy: firstAdmin.id
+            createdBy: firstStore.id
           }
         });
         
@@ -88,22 +85,22 @@ async function fixProductOwnership() {
 
     console.log('✅ Product ownership fix completed!');
 
-    // Show summary of products by admin
+    // Show summary of products by store
     console.log('\n--- Product ownership summary ---');
-    for (const admin of adminUsers) {
+    for (const store of stores) {
       const productCount = await prisma.product.count({
         where: {
-          createdBy: admin.id
+          createdBy: store.id
         }
       });
       
       const categoryCount = await prisma.category.count({
         where: {
-          createdBy: admin.id
+          createdBy: store.id
         }
       });
       
-      console.log(`${admin.firstName} ${admin.lastName} (${admin.subdomain}): ${productCount} products, ${categoryCount} categories`);
+      console.log(`${store.name} (${store.subdomain}): ${productCount} products, ${categoryCount} categories`);
     }
 
   } catch (error) {
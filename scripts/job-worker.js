@@ -0,0 +1,63 @@
+/**
+ * Background job worker
+ *
+ * Keeps calling the job runner (/api/cron/jobs) so queued campaign sends,
+ * domain verifications and emails start within seconds instead of waiting
+ * for the next scheduled run. Several workers can run at once; each job
+ * type's concurrency limit is enforced in the database.
+ */
+
+const axios = require('axios');
+require('dotenv').config();
+
+// Configuration
+const BASE_URL = process.env.JOB_WORKER_URL || process.env.INTERNAL_APP_URL || 'http://localhost:3000';
+const IDLE_DELAY_MS = Number(process.env.JOB_WORKER_IDLE_MS || 5000);
+const ERROR_DELAY_MS = 30000;
+
+let stopping = false;
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function runOnce() {
+  const response = await axios.post(`${BASE_URL}/api/cron/jobs`, null, {
+    headers: { Authorization: `Bearer ${process.env.CRON_SECRET}` },
+    timeout: 60000
+  });
+  return response.data;
+}
+
+async function work() {
+  if (!process.env.CRON_SECRET) {
+    throw new Error('CRON_SECRET must be set to the value the app runs with');
+  }
+
+  console.log(`🔧 Job worker calling ${BASE_URL}/api/cron/jobs`);
+
+  while (!stopping) {
+    try {
+      const data = await runOnce();
+      if (data.processed > 0) {
+        console.log(`✅ Ran ${data.processed} jobs (${data.succeeded} succeeded, ${data.failed} failed)`);
+      } else {
+        // Nothing due, wait before asking again; after a busy run go straight back
+        await sleep(IDLE_DELAY_MS);
+      }
+    } catch (error) {
+      console.error('❌ Job run failed:', error.response?.data || error.message);
+      await sleep(ERROR_DELAY_MS);
+    }
+  }
+}
+
+// Finish the current run before exiting
+process.on('SIGINT', () => { stopping = true; });
+process.on('SIGTERM', () => { stopping = true; });
+
+work().catch(error => {
+  console.error('❌ Job worker stopped with error:');
+  console.error(error);
+  process.exitCode = 1;
+});
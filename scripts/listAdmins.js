@@ -11,8 +11,13 @@ async function listAdmins() {
         email: true,
         firstName: true,
         lastName: true,
-        subdomain: true,
-        createdAt: true
+        createdAt: true,
+        memberships: {
+          select: {
+            role: true,
+            store: { select: { id: true, name: true, subdomain: true } }
+          }
+        }
       }
     });
 
@@ -0,0 +1,179 @@
+/**
+ * Stress test for stock reservation
+ *
+ * Fires many buy-now orders at the same product in parallel and checks that
+ * the number of accepted orders never exceeds the available stock and that
+ * stock never goes negative. With PAYMENT_METHOD=SSLCommerz it also posts
+ * to the SSLCommerz fail callback for every order and checks that releasing
+ * the reservations puts every unit back.
+ *
+ * Usage (against a local dev server and database):
+ *   PRODUCT_ID=<id> node scripts/stress-test-orders.js
+ *
+ * Options (environment variables):
+ *   BASE_URL        Server to test (default http://localhost:3000)
+ *   PRODUCT_ID      Product to order (required)
+ *   VARIANT_ID      Variant to order, for products with variants
+ *   STOCK           Stock to set before the run (default 5)
+ *   CONCURRENCY     Number of parallel orders (default 25)
+ *   PAYMENT_METHOD  'Cash on Delivery' (default) or 'SSLCommerz'
+ *
+ * WARNING: this overwrites the stock of the product and creates real orders.
+ */
+
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+const PRODUCT_ID = process.env.PRODUCT_ID;
+const VARIANT_ID = process.env.VARIANT_ID || null;
+const STOCK = parseInt(process.env.STOCK || '5');
+const CONCURRENCY = parseInt(process.env.CONCURRENCY || '25');
+const PAYMENT_METHOD = process.env.PAYMENT_METHOD || 'Cash on Delivery';
+
+async function getStock() {
+  if (VARIANT_ID) {
+    const variant = await prisma.productVariant.findUnique({ where: { id: VARIANT_ID } });
+    return variant ? variant.stock : null;
+  }
+  const product = await prisma.product.findUnique({ where: { id: PRODUCT_ID } });
+  return product ? product.stock : null;
+}
+
+async function setStock(stock) {
+  if (VARIANT_ID) {
+    await prisma.productVariant.update({ where: { id: VARIANT_ID }, data: { stock } });
+  } else {
+    await prisma.product.update({ where: { id: PRODUCT_ID }, data: { stock } });
+  }
+}
+
+async function placeOrder(index) {
+  const response = await fetch(`${BASE_URL}/api/orders`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      items: [{ productId: PRODUCT_ID, variantId: VARIANT_ID, quantity: 1 }],
+      shippingAddress: JSON.stringify({ fullName: `Stress Test ${index}`, address: 'Test address' }),
+      paymentMethod: PAYMENT_METHOD,
+      customerInfo: {
+        name: `Stress Test ${index}`,
+        phone: `0170000${String(index).padStart(4, '0')}`
+      },
+      isDirectOrder: true
+    }),
+  });
+
+  let data;
+  try {
+    data = await response.json();
+  } catch (e) {
+    data = { error: 'Failed to parse JSON response' };
+  }
+
+  return { status: response.status, data };
+}
+
+async function failPayment(orderId) {
+  // Callbacks are matched by transaction ID, which payment init would have stored
+  const transactionId = `TXN_${orderId}_stress`;
+  await prisma.order.update({
+    where: { id: orderId },
+    data: { paymentTransactionId: transactionId }
+  });
+
+  // Same form post SSLCommerz sends when a payment fails
+  await fetch(`${BASE_URL}/api/payment/sslcommerz/fail`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ tran_id: transactionId, value_a: orderId }).toString(),
+    redirect: 'manual'
+  });
+}
+
+async function runStressTest() {
+  if (!PRODUCT_ID) {
+    console.error('❌ PRODUCT_ID is required');
+    process.exit(1);
+  }
+
+  console.log(`Stress testing ${BASE_URL}/api/orders`);
+  console.log(`Product: ${PRODUCT_ID}${VARIANT_ID ? ` (variant ${VARIANT_ID})` : ''}`);
+  console.log(`Stock: ${STOCK}, parallel orders: ${CONCURRENCY}, payment: ${PAYMENT_METHOD}`);
+
+  await setStock(STOCK);
+
+  const results = await Promise.all(
+    Array.from({ length: CONCURRENCY }, (_, index) => placeOrder(index))
+  );
+
+  const accepted = results.filter(result => result.status === 201);
+  const soldOut = results.filter(result => result.status === 409 || result.status === 400);
+  const errors = results.filter(result => ![201, 400, 409].includes(result.status));
+  const finalStock = await getStock();
+
+  console.log('\nResults:');
+  console.log(`  Accepted orders: ${accepted.length}`);
+  console.log(`  Rejected (out of stock): ${soldOut.length}`);
+  console.log(`  Unexpected responses: ${errors.length}`);
+  console.log(`  Final stock: ${finalStock}`);
+
+  errors.slice(0, 5).forEach(result => {
+    console.log(`  ${result.status}:`, JSON.stringify(result.data));
+  });
+
+  let passed = true;
+
+  if (finalStock < 0) {
+    console.log('❌ Stock went negative');
+    passed = false;
+  }
+
+  if (accepted.length > STOCK) {
+    console.log(`❌ Oversold: ${accepted.length} orders accepted for ${STOCK} units`);
+    passed = false;
+  }
+
+  if (finalStock !== STOCK - accepted.length) {
+    console.log(`❌ Stock does not match accepted orders (expected ${STOCK - accepted.length})`);
+    passed = false;
+  }
+
+  if (CONCURRENCY >= STOCK && accepted.length !== STOCK) {
+    console.log(`⚠️ Only ${accepted.length} of ${STOCK} units were sold; check the rejected responses`);
+  }
+
+  if (PAYMENT_METHOD === 'SSLCommerz' && accepted.length > 0) {
+    console.log('\nReleasing reservations as if every payment failed...');
+    for (const result of accepted) {
+      await failPayment(result.data.order.id);
+    }
+
+    const restoredStock = await getStock();
+    console.log(`  Stock after release: ${restoredStock}`);
+
+    if (restoredStock !== STOCK) {
+      console.log(`❌ Released stock does not add up (expected ${STOCK})`);
+      passed = false;
+    }
+  }
+
+  console.log(passed ? '\n✅ Stress test PASSED' : '\n❌ Stress test FAILED');
+  return passed;
+}
+
+runStressTest()
+  .then(passed => {
+    process.exitCode = passed ? 0 : 1;
+  })
+  .catch(error => {
+    console.error('❌ Stress test FAILED with error:');
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,157 @@
+/**
+ * Custom domain certificate test
+ *
+ * Issues and renews a certificate for a test domain against a local Pebble
+ * ACME server. A dns2 server resolves the domain to this machine, so Pebble's
+ * HTTP-01 check reaches the app's /.well-known/acme-challenge route.
+ */
+
+const axios = require('axios');
+const dns2 = require('dns2');
+const { PrismaClient } = require('@prisma/client');
+
+const { Packet } = dns2;
+const prisma = new PrismaClient();
+
+// Configuration
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+const DNS_PORT = Number(process.env.TEST_DNS_PORT || 5354);
+
+let failures = 0;
+
+function check(name, passed, detail) {
+  if (passed) {
+    console.log(`✅ ${name}`);
+  } else {
+    failures++;
+    console.log(`❌ ${name}`);
+    if (detail !== undefined) {
+      console.log('   ', JSON.stringify(detail));
+    }
+  }
+}
+
+// Every name resolves to this machine, where the app is listening
+const server = dns2.createServer({
+  udp: true,
+  handle: (request, send) => {
+    const response = Packet.createResponseFromRequest(request);
+    const [question] = request.questions;
+
+    if (question.type === Packet.TYPE.A) {
+      response.answers.push({ name: question.name, type: Packet.TYPE.A, class: Packet.CLASS.IN, ttl: 1, address: '127.0.0.1' });
+    }
+
+    send(response);
+  }
+});
+
+function runJob() {
+  return axios.post(`${BASE_URL}/api/cron/certificates`, null, {
+    headers: { Authorization: `Bearer ${process.env.CRON_SECRET}` },
+    validateStatus: () => true
+  });
+}
+
+async function testCertificateIssuance() {
+  if (!process.env.CRON_SECRET) {
+    throw new Error('CRON_SECRET must be set to the value the app runs with');
+  }
+
+  await server.listen({ udp: { port: DNS_PORT, address: '127.0.0.1', type: 'udp4' } });
+
+  const store = await prisma.store.findFirst({ where: { status: 'ACTIVE' } });
+  if (!store) {
+    throw new Error('The database needs at least one active store');
+  }
+
+  const name = `shop-${Date.now()}.pebble.test`;
+  const domain = await prisma.customDomain.create({
+    data: {
+      domain: name,
+      storeId: store.id,
+      verificationToken: `token-${name}`,
+      status: 'ACTIVE',
+      isActive: true,
+      // What activating the domain in the admin panel queues
+      certificate: { create: {} }
+    }
+  });
+
+  try {
+    const unknownChallenge = await axios.get(`${BASE_URL}/.well-known/acme-challenge/unknown-token`, { validateStatus: () => true });
+    check('Unknown HTTP-01 tokens are not answered', unknownChallenge.status === 404, unknownChallenge.status);
+
+    const first = await runJob();
+    check('Certificate job runs', first.status === 200, first.data);
+
+    const issued = await prisma.domainCertificate.findUnique({ where: { domainId: domain.id }, include: { domain: true } });
+    check(
+      'Certificate is issued over HTTP-01',
+      issued.status === 'ISSUED' && issued.challengeType === 'HTTP_01' && /BEGIN CERTIFICATE/.test(issued.certificate || ''),
+      { status: issued.status, errorMessage: issued.errorMessage }
+    );
+    check('Expiry is tracked', issued.expiresAt && issued.expiresAt > new Date(), issued.expiresAt);
+    check(
+      'Private key is stored encrypted',
+      !!issued.privateKey && !/PRIVATE KEY/.test(issued.privateKey),
+      issued.privateKey && issued.privateKey.slice(0, 20)
+    );
+    check('Domain is marked as serving HTTPS', issued.domain.ssl === true, issued.domain.ssl);
+
+    const leftover = await prisma.acmeChallenge.count({ where: { domain: name } });
+    check('HTTP-01 responses are removed after validation', leftover === 0, leftover);
+
+    // Bring the certificate inside the renewal window
+    await prisma.domainCertificate.update({
+      where: { id: issued.id },
+      data: { expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) }
+    });
+
+    const second = await runJob();
+    check('Certificate job runs again', second.status === 200, second.data);
+
+    const renewed = await prisma.domainCertificate.findUnique({ where: { id: issued.id } });
+    check(
+      'Certificate close to expiry is renewed',
+      renewed.status === 'ISSUED' && renewed.certificate !== issued.certificate && renewed.expiresAt > new Date(Date.now() + 24 * 60 * 60 * 1000),
+      { status: renewed.status, expiresAt: renewed.expiresAt, errorMessage: renewed.errorMessage }
+    );
+  } finally {
+    await prisma.customDomain.delete({ where: { id: domain.id } });
+  }
+
+  console.log(failures === 0 ? '\n✅ Certificate test PASSED' : `\n❌ Certificate test FAILED (${failures} checks)`);
+  process.exitCode = failures === 0 ? 0 : 1;
+}
+
+// Run the test
+testCertificateIssuance()
+  .catch(error => {
+    console.error('❌ Certificate test FAILED with error:');
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await server.close();
+    await prisma.$disconnect();
+  });
+
+/**
+ * How to use this script:
+ *
+ * 1. Start Pebble (https://github.com/letsencrypt/pebble) with its HTTP-01
+ *    port set to the app's port ("httpPort": 3000 in pebble-config.json) and
+ *    the test DNS server as its resolver:
+ *    PEBBLE_VA_NOSLEEP=1 pebble -config pebble-config.json -dnsserver 127.0.0.1:5354
+ * 2. Start the app trusting Pebble's CA:
+ *    ACME_DIRECTORY_URL=https://localhost:14000/dir \
+ *    NODE_EXTRA_CA_CERTS=pebble/test/certs/pebble.minica.pem \
+ *    ACME_SKIP_CHALLENGE_VERIFICATION=true CREDENTIALS_ENCRYPTION_KEY=test \
+ *    CRON_SECRET=secret npm run dev
+ * 3. Run the script with Node.js:
+ *    CRON_SECRET=secret BASE_URL=http://localhost:3000 node scripts/test-acme-pebble.js
+ *
+ * Other custom domains with pending certificates are processed too, so run
+ * it on a test database.
+ */
@@ -0,0 +1,190 @@
+/**
+ * Cross-tenant access test
+ *
+ * Signs in as a member of one store, calls the API from that store's
+ * subdomain and asks for another store's products, categories, orders,
+ * customers and coupons. Every request must come back empty-handed: a 404
+ * for a single record, or a list holding only the calling store's rows.
+ */
+
+const axios = require('axios');
+const jwt = require('jsonwebtoken');
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+// Configuration
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+
+let failures = 0;
+
+function check(name, passed, detail) {
+  if (passed) {
+    console.log(`✅ ${name}`);
+  } else {
+    failures++;
+    console.log(`❌ ${name}`);
+    if (detail !== undefined) {
+      console.log('   ', JSON.stringify(detail));
+    }
+  }
+}
+
+// Request the API from a store's subdomain, signed in as one of its members
+// unless the token is left out
+function asStore(store, method, path, data, token = store.token) {
+  const url = new URL(BASE_URL);
+  return axios({
+    method,
+    url: `${BASE_URL}${path}`,
+    data,
+    headers: {
+      Host: `${store.subdomain}.localhost${url.port ? `:${url.port}` : ''}`,
+      ...(token && { Authorization: `Bearer ${token}` })
+    },
+    validateStatus: () => true
+  });
+}
+
+// A token for the store's owner, as signing in would return
+async function signInOwner(store) {
+  const owner = await prisma.storeMember.findFirst({ where: { storeId: store.id, role: 'OWNER' } });
+  if (!owner) {
+    throw new Error(`Store ${store.subdomain} has no owner`);
+  }
+  return jwt.sign({ userId: owner.userId }, process.env.JWT_SECRET, { expiresIn: '1h' });
+}
+
+async function findStoreData(store) {
+  const [product, category, order, customer, coupon] = await Promise.all([
+    prisma.product.findFirst({ where: { createdBy: store.id } }),
+    prisma.category.findFirst({ where: { createdBy: store.id } }),
+    prisma.order.findFirst({ where: { storeId: store.id } }),
+    prisma.user.findFirst({ where: { storeId: store.id, role: 'USER' } }),
+    prisma.coupon.findFirst({ where: { createdBy: store.id } })
+  ]);
+  return { product, category, order, customer, coupon };
+}
+
+async function testCrossTenantAccess() {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET must be set to the value the app runs with');
+  }
+
+  const stores = await prisma.store.findMany({
+    where: { status: 'ACTIVE' },
+    select: { id: true, subdomain: true },
+    take: 2
+  });
+
+  if (stores.length < 2) {
+    console.log('Two stores are needed. Create one with scripts/createAdmin.js');
+    return;
+  }
+
+  const [storeA, storeB] = stores;
+  storeA.token = await signInOwner(storeA);
+  const other = await findStoreData(storeB);
+  console.log(`Calling as the owner of ${storeA.subdomain}, reading data of ${storeB.subdomain}`);
+  console.log(`URL: ${BASE_URL}\n`);
+
+  const anonymous = await asStore(storeA, 'get', '/api/admin/orders', undefined, null);
+  check('Admin routes need a signed-in member', anonymous.status === 401, anonymous.data);
+
+  if (other.product) {
+    const res = await asStore(storeA, 'get', `/api/products/${other.product.id}`);
+    check('Product of another store is not found', res.status === 404, res.data);
+
+    const update = await asStore(storeA, 'put', `/api/products/${other.product.id}`, { name: 'Cross-tenant edit' });
+    check('Product of another store cannot be updated', update.status === 404, update.data);
+  }
+
+  if (other.category) {
+    const res = await asStore(storeA, 'get', `/api/categories/${other.category.id}`);
+    check('Category of another store is not found', res.status === 404, res.data);
+  }
+
+  if (other.order) {
+    const res = await asStore(storeA, 'get', `/api/admin/orders/${other.order.id}`);
+    check('Order of another store is not found', res.status === 404, res.data);
+
+    const shipment = await asStore(storeA, 'get', `/api/admin/orders/${other.order.id}/shipment`);
+    check('Shipment of another store\'s order is not found', shipment.status === 404, shipment.data);
+  }
+
+  if (other.customer) {
+    const res = await asStore(storeA, 'get', `/api/users/${other.customer.id}`);
+    check('Customer of another store is not found', res.status === 404, res.data);
+  }
+
+  if (other.coupon) {
+    const res = await asStore(storeA, 'get', `/api/admin/coupons/${other.coupon.id}`);
+    check('Coupon of another store is not found', res.status === 404, res.data);
+  }
+
+  const foreignQuery = await asStore(storeA, 'get', `/api/admin/orders?adminId=${storeB.id}`);
+  check('Subdomain cannot name another store in adminId', foreignQuery.status === 403, foreignQuery.data);
+
+  const products = await asStore(storeA, 'get', '/api/products?limit=100');
+  const productList = products.data.products || products.data;
+  check(
+    'Product list holds only the store\'s products',
+    Array.isArray(productList) && productList.every(product => product.createdBy === storeA.id),
+    products.status
+  );
+
+  const customers = await asStore(storeA, 'get', '/api/users?limit=100');
+  const customerIds = (customers.data.users || []).map(user => user.id);
+  const foreignCustomers = await prisma.user.count({
+    where: {
+      id: { in: customerIds },
+      NOT: { OR: [{ storeId: storeA.id }, { orders: { some: { storeId: storeA.id } } }] }
+    }
+  });
+  check(
+    'Customer list holds only the store\'s customers',
+    customers.status === 200 && foreignCustomers === 0,
+    customers.status === 200 ? { foreignCustomers } : customers.data
+  );
+
+  const orders = await asStore(storeA, 'get', '/api/admin/orders');
+  check(
+    'Order list holds only the store\'s orders',
+    Array.isArray(orders.data) && orders.data.every(order => order.storeId === storeA.id),
+    orders.status
+  );
+
+  const stats = await asStore(storeA, 'get', '/api/dashboard/stats');
+  const [productCount, orderCount] = await Promise.all([
+    prisma.product.count({ where: { createdBy: storeA.id } }),
+    prisma.order.count({ where: { storeId: storeA.id } })
+  ]);
+  check(
+    'Dashboard counts only the store\'s products and orders',
+    stats.status === 200 && stats.data.totalProducts === productCount && stats.data.totalOrders === orderCount,
+    stats.data
+  );
+
+  console.log(failures === 0 ? '\n✅ Cross-tenant test PASSED' : `\n❌ Cross-tenant test FAILED (${failures} checks)`);
+  process.exitCode = failures === 0 ? 0 : 1;
+}
+
+// Run the test
+testCrossTenantAccess()
+  .catch(error => {
+    console.error('❌ Cross-tenant test FAILED with error:');
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
+
+/**
+ * How to use this script:
+ *
+ * 1. Start the app (JWT_SECRET=secret npm run dev) against a database with
+ *    at least two stores, each with some products, categories and orders
+ * 2. Run the script with Node.js:
+ *    JWT_SECRET=secret BASE_URL=http://localhost:3000 node scripts/test-cross-tenant.js
+ *
+ * Checks are skipped for data the second store does not have yet.
+ */
@@ -0,0 +1,204 @@
+/**
+ * Custom domain re-verification test
+ *
+ * Serves DNS for two test domains from a local dns2 server, runs the
+ * re-verification job and checks that a domain keeps its status while its
+ * records are in place, and through a missed check, and is taken out of
+ * service with an error message and a history entry once its records have
+ * been missing for FAILED_CHECKS checks in a row.
+ */
+
+const axios = require('axios');
+const dns2 = require('dns2');
+const { PrismaClient } = require('@prisma/client');
+
+const { Packet } = dns2;
+const prisma = new PrismaClient();
+
+// Configuration
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+const DNS_PORT = Number(process.env.TEST_DNS_PORT || 5354);
+const TARGET = process.env.NEXT_PUBLIC_DOMAIN || 'codeopx.com';
+// FAILED_CHECKS_BEFORE_DEACTIVATION in lib/domainMonitor.ts
+const FAILED_CHECKS = 3;
+
+let failures = 0;
+
+function check(name, passed, detail) {
+  if (passed) {
+    console.log(`✅ ${name}`);
+  } else {
+    failures++;
+    console.log(`❌ ${name}`);
+    if (detail !== undefined) {
+      console.log('   ', JSON.stringify(detail));
+    }
+  }
+}
+
+// Records the local DNS server answers with, keyed by "TYPE name"
+const zone = new Map();
+
+const server = dns2.createServer({
+  udp: true,
+  handle: (request, send) => {
+    const response = Packet.createResponseFromRequest(request);
+    const [question] = request.questions;
+    const name = question.name.toLowerCase();
+
+    if (question.type === Packet.TYPE.TXT && zone.has(`TXT ${name}`)) {
+      response.answers.push({ name, type: Packet.TYPE.TXT, class: Packet.CLASS.IN, ttl: 1, data: zone.get(`TXT ${name}`) });
+    }
+    if (question.type === Packet.TYPE.CNAME && zone.has(`CNAME ${name}`)) {
+      response.answers.push({ name, type: Packet.TYPE.CNAME, class: Packet.CLASS.IN, ttl: 1, domain: zone.get(`CNAME ${name}`) });
+    }
+
+    send(response);
+  }
+});
+
+function publish(domain) {
+  zone.set(`TXT _ecommerce-verify.${domain.domain}`, `ecommerce-verification=${domain.verificationToken}`);
+  zone.set(`CNAME ${domain.domain}`, TARGET);
+}
+
+// Queue the re-checks, then have the job worker run them
+async function runJob() {
+  const options = {
+    headers: { Authorization: `Bearer ${process.env.CRON_SECRET}` },
+    validateStatus: () => true
+  };
+
+  const queued = await axios.post(`${BASE_URL}/api/cron/reverify-domains`, null, options);
+  if (queued.status !== 200) {
+    return queued;
+  }
+  return axios.post(`${BASE_URL}/api/cron/jobs`, null, options);
+}
+
+async function testDomainReverification() {
+  if (!process.env.CRON_SECRET) {
+    throw new Error('CRON_SECRET must be set to the value the app runs with');
+  }
+
+  await server.listen({ udp: { port: DNS_PORT, address: '127.0.0.1', type: 'udp4' } });
+
+  const store = await prisma.store.findFirst({ where: { status: 'ACTIVE' } });
+  if (!store) {
+    throw new Error('The database needs at least one active store');
+  }
+
+  const suffix = Date.now();
+  const [activeDomain, verifiedDomain] = await Promise.all(
+    [
+      { domain: `shop-${suffix}.reverify.test`, status: 'ACTIVE', isActive: true },
+      { domain: `www-${suffix}.reverify.test`, status: 'VERIFIED', isActive: false }
+    ].map(data => prisma.customDomain.create({
+      data: {
+        ...data,
+        storeId: store.id,
+        verificationToken: `token-${data.domain}`,
+        dnsRecords: [{ type: 'CNAME', name: data.domain, value: TARGET }],
+        // Checked long ago, so this run picks them first
+        lastVerified: new Date(0)
+      }
+    }))
+  );
+
+  try {
+    publish(activeDomain);
+    publish(verifiedDomain);
+
+    const first = await runJob();
+    check('Re-verification job runs', first.status === 200, first.data);
+
+    const afterFirst = await prisma.customDomain.findMany({ where: { id: { in: [activeDomain.id, verifiedDomain.id] } } });
+    check(
+      'Domains with their records in place keep their status',
+      afterFirst.every(domain => domain.status === (domain.id === activeDomain.id ? 'ACTIVE' : 'VERIFIED')),
+      afterFirst.map(domain => domain.status)
+    );
+
+    // The active domain loses its TXT record, the verified one its CNAME
+    zone.delete(`TXT _ecommerce-verify.${activeDomain.domain}`);
+    zone.set(`CNAME ${verifiedDomain.domain}`, 'elsewhere.example.com');
+
+    for (let run = 1; run <= FAILED_CHECKS; run++) {
+      await prisma.customDomain.updateMany({
+        where: { id: { in: [activeDomain.id, verifiedDomain.id] } },
+        data: { lastVerified: new Date(0) }
+      });
+
+      const failing = await runJob();
+      check(`Re-verification job runs with the records missing (${run} of ${FAILED_CHECKS})`, failing.status === 200, failing.data);
+
+      if (run === 1) {
+        const afterMiss = await prisma.customDomain.findMany({ where: { id: { in: [activeDomain.id, verifiedDomain.id] } } });
+        check(
+          'One failed check does not take a domain out of service',
+          afterMiss.every(domain => domain.failedChecks === 1 && domain.status === (domain.id === activeDomain.id ? 'ACTIVE' : 'VERIFIED')),
+          afterMiss.map(domain => ({ status: domain.status, failedChecks: domain.failedChecks }))
+        );
+      }
+    }
+
+    const active = await prisma.customDomain.findUnique({ where: { id: activeDomain.id } });
+    check(
+      'Active domain without its TXT record becomes INACTIVE',
+      active.status === 'INACTIVE' && !active.isActive && /TXT/.test(active.errorMessage || ''),
+      active
+    );
+
+    const verified = await prisma.customDomain.findUnique({ where: { id: verifiedDomain.id } });
+    check(
+      'Verified domain with a changed CNAME becomes FAILED',
+      verified.status === 'FAILED' && /CNAME/.test(verified.errorMessage || ''),
+      verified
+    );
+
+    const history = await prisma.domainVerification.findMany({
+      where: { domainId: activeDomain.id },
+      orderBy: { createdAt: 'asc' }
+    });
+    const last = history[history.length - 1];
+    check(
+      'Every check is kept in the verification history',
+      history.length === FAILED_CHECKS + 1 &&
+        history[0].result === 'PASSED' &&
+        history.slice(1).every(entry => entry.result === 'FAILED' && entry.trigger === 'SCHEDULED') &&
+        history.slice(1, -1).every(entry => entry.status === 'ACTIVE') &&
+        last.previousStatus === 'ACTIVE' &&
+        last.status === 'INACTIVE',
+      history
+    );
+  } finally {
+    await prisma.customDomain.deleteMany({ where: { id: { in: [activeDomain.id, verifiedDomain.id] } } });
+  }
+
+  console.log(failures === 0 ? '\n✅ Domain re-verification test PASSED' : `\n❌ Domain re-verification test FAILED (${failures} checks)`);
+  process.exitCode = failures === 0 ? 0 : 1;
+}
+
+// Run the test
+testDomainReverification()
+  .catch(error => {
+    console.error('❌ Domain re-verification test FAILED with error:');
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await server.close();
+    await prisma.$disconnect();
+  });
+
+/**
+ * How to use this script:
+ *
+ * 1. Start the app pointing its DNS lookups at the test server:
+ *    DNS_RESOLVER_SERVERS=127.0.0.1:5354 CRON_SECRET=secret npm run dev
+ * 2. Run the script with Node.js:
+ *    CRON_SECRET=secret BASE_URL=http://localhost:3000 node scripts/test-domain-reverification.js
+ *
+ * Any other VERIFIED or ACTIVE domains in the database are re-checked too
+ * and will fail against the test server, so run it on a test database.
+ */
@@ -0,0 +1,150 @@
+/**
+ * Unmatched payment event replay test
+ *
+ * Stores SSLCommerz notifications that matched no order, as happens when a
+ * customer retries a payment under a new transaction ID, and checks that
+ * the store whose order the transaction ID names can list and replay them
+ * while other stores get a 404.
+ */
+
+const axios = require('axios');
+const jwt = require('jsonwebtoken');
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+// Configuration
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+
+let failures = 0;
+
+function check(name, passed, detail) {
+  if (passed) {
+    console.log(`✅ ${name}`);
+  } else {
+    failures++;
+    console.log(`❌ ${name}`);
+    if (detail !== undefined) {
+      console.log('   ', JSON.stringify(detail));
+    }
+  }
+}
+
+// Request the API from a store's subdomain, signed in as its owner
+function asStore(store, method, path) {
+  const url = new URL(BASE_URL);
+  return axios({
+    method,
+    url: `${BASE_URL}${path}`,
+    headers: {
+      Host: `${store.subdomain}.localhost${url.port ? `:${url.port}` : ''}`,
+      Authorization: `Bearer ${store.token}`
+    },
+    validateStatus: () => true
+  });
+}
+
+async function signInOwner(store) {
+  const owner = await prisma.storeMember.findFirst({ where: { storeId: store.id, role: 'OWNER' } });
+  if (!owner) {
+    throw new Error(`Store ${store.subdomain} has no owner`);
+  }
+  return jwt.sign({ userId: owner.userId }, process.env.JWT_SECRET, { expiresIn: '1h' });
+}
+
+// A failed notification for the transaction, stored without an order
+function createUnmatchedEvent(transactionId) {
+  return prisma.paymentEvent.create({
+    data: {
+      provider: 'sslcommerz',
+      transactionId,
+      gatewayStatus: 'FAILED',
+      payload: { tran_id: transactionId, status: 'FAILED' },
+      status: 'FAILED',
+      note: 'No order matches this transaction',
+      processedAt: new Date()
+    }
+  });
+}
+
+async function testUnmatchedEventReplay() {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET must be set to the value the app runs with');
+  }
+
+  const stores = await prisma.store.findMany({
+    where: { status: 'ACTIVE' },
+    select: { id: true, subdomain: true },
+    take: 2
+  });
+  if (stores.length < 2) {
+    throw new Error('Two active stores are needed. Create one with scripts/createAdmin.js');
+  }
+
+  const [storeA, storeB] = stores;
+  storeA.token = await signInOwner(storeA);
+  storeB.token = await signInOwner(storeB);
+
+  const order = await prisma.order.findFirst({ where: { storeId: storeA.id } });
+  if (!order) {
+    throw new Error(`Store ${storeA.subdomain} needs an order`);
+  }
+
+  console.log(`Replaying unmatched events for an order of ${storeA.subdomain}`);
+  console.log(`URL: ${BASE_URL}\n`);
+
+  const suffix = Date.now();
+  const [ownEvent, strayEvent] = await Promise.all([
+    createUnmatchedEvent(`TXN_${order.id}_${suffix}`),
+    createUnmatchedEvent(`TXN_no-such-order_${suffix}`)
+  ]);
+
+  try {
+    const list = await asStore(storeA, 'get', `/api/admin/payment-events?search=${suffix}`);
+    const listedIds = (list.data.events || []).map(event => event.id);
+    check(
+      'Store lists the unmatched event for its order',
+      list.status === 200 && listedIds.includes(ownEvent.id) && !listedIds.includes(strayEvent.id),
+      list.data
+    );
+
+    const replay = await asStore(storeA, 'post', `/api/admin/payment-events/${ownEvent.id}/replay`);
+    check('Store can replay the unmatched event for its order', replay.status === 200, replay.data);
+
+    const otherList = await asStore(storeB, 'get', `/api/admin/payment-events?search=${suffix}`);
+    check(
+      'Another store does not list it',
+      otherList.status === 200 && !(otherList.data.events || []).some(event => event.id === ownEvent.id),
+      otherList.data
+    );
+
+    const otherReplay = await asStore(storeB, 'post', `/api/admin/payment-events/${ownEvent.id}/replay`);
+    check('Another store cannot replay it', otherReplay.status === 404, otherReplay.data);
+
+    const stray = await asStore(storeA, 'post', `/api/admin/payment-events/${strayEvent.id}/replay`);
+    check('An event naming no order of the store cannot be replayed', stray.status === 404, stray.data);
+  } finally {
+    await prisma.paymentEvent.deleteMany({ where: { id: { in: [ownEvent.id, strayEvent.id] } } });
+  }
+
+  console.log(failures === 0 ? '\n✅ Payment event replay test PASSED' : `\n❌ Payment event replay test FAILED (${failures} checks)`);
+  process.exitCode = failures === 0 ? 0 : 1;
+}
+
+// Run the test
+testUnmatchedEventReplay()
+  .catch(error => {
+    console.error('❌ Payment event replay test FAILED with error:');
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
+
+/**
+ * How to use this script:
+ *
+ * 1. Start the app (JWT_SECRET=secret npm run dev) against a database with
+ *    two stores, the first of them with at least one order
+ * 2. Run the script with Node.js:
+ *    JWT_SECRET=secret BASE_URL=http://localhost:3000 node scripts/test-payment-event-replay.js
+ */
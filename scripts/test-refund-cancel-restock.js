@@ -0,0 +1,177 @@
+/**
+ * Refund-then-cancel restock test
+ *
+ * Refunds one unit of an order with restock, then cancels the order through
+ * the admin API and checks that the refunded unit is not put back in stock a
+ * second time. Covers orders without stock reservations (cash on delivery)
+ * and paid online orders, whose reservations are committed.
+ */
+
+const axios = require('axios');
+const jwt = require('jsonwebtoken');
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+// Configuration
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+const STOCK = 10;
+const ORDERED = 3;
+const REFUNDED = 1;
+
+let failures = 0;
+
+function check(name, passed, detail) {
+  if (passed) {
+    console.log(`✅ ${name}`);
+  } else {
+    failures++;
+    console.log(`❌ ${name}`);
+    if (detail !== undefined) {
+      console.log('   ', JSON.stringify(detail));
+    }
+  }
+}
+
+// Request the API as a member of the store, from the store's subdomain
+function asMember(store, token, method, path, data) {
+  const url = new URL(BASE_URL);
+  return axios({
+    method,
+    url: `${BASE_URL}${path}`,
+    data,
+    headers: {
+      Host: `${store.subdomain}.localhost${url.port ? `:${url.port}` : ''}`,
+      Authorization: `Bearer ${token}`
+    },
+    validateStatus: () => true
+  });
+}
+
+/**
+ * Place an order of ORDERED units straight in the database, the way checkout
+ * leaves it, and complete a restock refund of REFUNDED units the way the
+ * refund poller does
+ */
+async function createRefundedOrder(store, product, withReservation) {
+  await prisma.product.update({
+    where: { id: product.id },
+    data: { stock: STOCK - ORDERED + REFUNDED }
+  });
+
+  const order = await prisma.order.create({
+    data: {
+      storeId: store.id,
+      status: 'CONFIRMED',
+      paymentStatus: 'PARTIALLY_REFUNDED',
+      paymentMethod: withReservation ? 'SSLCommerz' : 'Cash on Delivery',
+      total: product.price * ORDERED,
+      subtotal: product.price * ORDERED,
+      refundedAmount: product.price * REFUNDED,
+      shippingAddress: JSON.stringify({ fullName: 'Refund Cancel Test', address: 'Test address' }),
+      orderItems: {
+        create: [{ productId: product.id, productName: product.name, quantity: ORDERED, price: product.price }]
+      }
+    },
+    include: { orderItems: true }
+  });
+
+  if (withReservation) {
+    await prisma.stockReservation.create({
+      data: {
+        orderId: order.id,
+        productId: product.id,
+        quantity: ORDERED,
+        status: 'COMMITTED',
+        expiresAt: new Date()
+      }
+    });
+  }
+
+  await prisma.refund.create({
+    data: {
+      orderId: order.id,
+      amount: product.price * REFUNDED,
+      status: 'COMPLETED',
+      restock: true,
+      completedAt: new Date(),
+      items: {
+        create: [{ orderItemId: order.orderItems[0].id, quantity: REFUNDED, amount: product.price * REFUNDED }]
+      }
+    }
+  });
+
+  return order;
+}
+
+async function testRefundThenCancel() {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET must be set to the value the app runs with');
+  }
+
+  const owner = await prisma.storeMember.findFirst({
+    where: { role: 'OWNER', store: { status: 'ACTIVE' } },
+    include: { store: true }
+  });
+  if (!owner) {
+    throw new Error('The database needs at least one active store');
+  }
+
+  const store = owner.store;
+  const product = await prisma.product.findFirst({
+    where: { createdBy: store.id, variants: { none: {} } }
+  });
+  if (!product) {
+    throw new Error(`Store ${store.subdomain} needs a product without variants`);
+  }
+
+  const token = jwt.sign({ userId: owner.userId }, process.env.JWT_SECRET, { expiresIn: '1h' });
+  const orderIds = [];
+
+  console.log(`Cancelling refunded orders of ${store.subdomain} for ${product.name}`);
+  console.log(`URL: ${BASE_URL}\n`);
+
+  try {
+    for (const withReservation of [false, true]) {
+      const label = withReservation ? 'Paid online order' : 'Cash on delivery order';
+      const order = await createRefundedOrder(store, product, withReservation);
+      orderIds.push(order.id);
+
+      const res = await asMember(store, token, 'put', `/api/admin/orders/${order.id}`, { status: 'CANCELLED' });
+      check(`${label} is cancelled`, res.status === 200 && res.data.status === 'CANCELLED', res.data);
+
+      const after = await prisma.product.findUnique({ where: { id: product.id } });
+      check(
+        `${label}: the refunded unit is not restocked twice`,
+        after.stock === STOCK,
+        { expected: STOCK, actual: after.stock }
+      );
+    }
+  } finally {
+    await prisma.order.deleteMany({ where: { id: { in: orderIds } } });
+    await prisma.product.update({ where: { id: product.id }, data: { stock: product.stock } });
+  }
+
+  console.log(failures === 0 ? '\n✅ Refund-then-cancel test PASSED' : `\n❌ Refund-then-cancel test FAILED (${failures} checks)`);
+  process.exitCode = failures === 0 ? 0 : 1;
+}
+
+// Run the test
+testRefundThenCancel()
+  .catch(error => {
+    console.error('❌ Refund-then-cancel test FAILED with error:');
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
+
+/**
+ * How to use this script:
+ *
+ * 1. Start the app (JWT_SECRET=secret npm run dev) against a database with
+ *    an active store that has a product without variants
+ * 2. Run the script with Node.js:
+ *    JWT_SECRET=secret BASE_URL=http://localhost:3000 node scripts/test-refund-cancel-restock.js
+ *
+ * The product's stock is set during the run and put back afterwards.
+ */